@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * burnware-migrate
+ * Usage: burnware-migrate <status | up | down <n> | verify>
+ * Reads DB_SECRET_ID (and optional MIGRATIONS_DIR) from the same .env as the API.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { databaseConfig } from '../config/database';
+import { MigrationRunner, MigrationStatus } from '../config/migration-runner';
+
+dotenv.config({ path: path.resolve(__dirname, '..', '..', '.env') });
+
+const USAGE = 'Usage: burnware-migrate <status | up | down <n> | verify>';
+
+function printStatus(rows: MigrationStatus[]): void {
+  for (const row of rows) {
+    const appliedAt = row.applied_at ? new Date(row.applied_at).toISOString() : '-';
+    console.log(`${row.version}  ${row.state.padEnd(8)}  ${appliedAt}  ${row.name}`);
+  }
+}
+
+async function run(command: string | undefined, arg: string | undefined): Promise<number> {
+  if (!command || !['status', 'up', 'down', 'verify'].includes(command)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const steps = command === 'down' ? parseInt(arg || '', 10) : 0;
+  if (command === 'down' && !(steps > 0)) {
+    console.error('down requires a positive number of steps');
+    return 2;
+  }
+
+  const pool = await databaseConfig.initialize({ runMigrations: false });
+  const runner = new MigrationRunner(pool);
+
+  switch (command) {
+    case 'status':
+      printStatus(await runner.status());
+      return 0;
+    case 'up': {
+      const applied = await runner.up();
+      console.log(applied.length ? `Applied: ${applied.join(', ')}` : 'Nothing to apply');
+      return 0;
+    }
+    case 'down': {
+      const reverted = await runner.down(steps);
+      console.log(reverted.length ? `Reverted: ${reverted.join(', ')}` : 'Nothing to revert');
+      return 0;
+    }
+    default: {
+      const problems = await runner.verify();
+      if (problems.length === 0) {
+        console.log('All applied migrations match their files');
+        return 0;
+      }
+      printStatus(problems);
+      return 1;
+    }
+  }
+}
+
+run(process.argv[2], process.argv[3])
+  .catch((error: Error) => {
+    console.error(error.message);
+    return 1;
+  })
+  .then(async (code) => {
+    await databaseConfig.close();
+    process.exit(code);
+  });
@@ -0,0 +1,139 @@
+/**
+ * Metrics Cluster Aggregation
+ * Under PM2 (ecosystem.config.js runs one worker per core) every worker keeps
+ * its own registry. The worker that answers a scrape asks the other workers
+ * of this app for their snapshots over the PM2 bus and serves the sum, so
+ * totals and rate() cover every worker. A worker that doesn't answer in time
+ * is left out of that scrape and logged. Outside PM2 the scrape is this
+ * process alone.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ProcessDescription } from 'pm2';
+import { logger } from './logger';
+import { metrics, MetricsSnapshot } from './metrics';
+
+const REQUEST_TOPIC = 'burnware:metrics:request';
+const REPLY_TYPE = 'burnware:metrics:snapshot';
+const COLLECT_TIMEOUT_MS = 2000;
+
+type Pm2 = typeof import('pm2');
+
+interface SnapshotRequest {
+  topic?: string;
+  data?: { request_id?: string };
+}
+
+interface SnapshotReply {
+  data?: { request_id?: string; snapshot?: MetricsSnapshot };
+  process?: { pm_id?: number };
+}
+
+interface Pm2Bus {
+  on(event: string, listener: (packet: SnapshotReply) => void): void;
+}
+
+/** Replies by request id, filled from the bus */
+const waiting = new Map<string, (pmId: number, snapshot: MetricsSnapshot) => void>();
+let connection: Promise<Pm2> | null = null;
+
+/** PM2 sets pm_id (and the app name) in the environment of every process it runs */
+function isPm2Process(): boolean {
+  return process.env.pm_id !== undefined;
+}
+
+/**
+ * Connect to the PM2 daemon and its bus once per worker; a failure is
+ * retried on the next scrape
+ */
+function connectPm2(): Promise<Pm2> {
+  connection ??= (async () => {
+    // Loaded lazily: only PM2 workers that serve a scrape need the client
+    const pm2 = (await import('pm2')).default;
+    await new Promise<void>((resolve, reject) => pm2.connect((err) => (err ? reject(err) : resolve())));
+    const bus = await new Promise<Pm2Bus>((resolve, reject) =>
+      pm2.launchBus((err, launched) => (err ? reject(err) : resolve(launched)))
+    );
+    bus.on(REPLY_TYPE, (packet) => {
+      const { request_id, snapshot } = packet.data || {};
+      const pmId = packet.process?.pm_id;
+      if (request_id && snapshot && pmId !== undefined) waiting.get(request_id)?.(pmId, snapshot);
+    });
+    return pm2;
+  })().catch((error) => {
+    connection = null;
+    throw error;
+  });
+  return connection;
+}
+
+/**
+ * Answer snapshot requests from the worker serving a scrape (no-op outside PM2)
+ */
+export function answerMetricsRequests(): void {
+  if (!isPm2Process()) return;
+
+  process.on('message', (packet: SnapshotRequest) => {
+    const requestId = packet?.topic === REQUEST_TOPIC ? packet.data?.request_id : undefined;
+    if (!requestId) return;
+    process.send?.({ type: REPLY_TYPE, data: { request_id: requestId, snapshot: metrics.snapshot() } });
+  });
+}
+
+/**
+ * This worker's snapshot plus those of the other online workers of this app
+ */
+export async function collectMetricsSnapshots(): Promise<MetricsSnapshot[]> {
+  const own = metrics.snapshot();
+  if (!isPm2Process()) return [own];
+
+  try {
+    const pm2 = await connectPm2();
+    const processes = await new Promise<ProcessDescription[]>((resolve, reject) =>
+      pm2.list((err, list) => (err ? reject(err) : resolve(list)))
+    );
+    const self = Number(process.env.pm_id);
+    const pending = new Set(
+      processes
+        .filter((p) => p.name === process.env.name && p.pm_id !== self && p.pm2_env?.status === 'online')
+        .map((p) => p.pm_id as number)
+    );
+    const expected = pending.size;
+    if (expected === 0) return [own];
+
+    const requestId = randomUUID();
+    const snapshots: MetricsSnapshot[] = [];
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, COLLECT_TIMEOUT_MS);
+      const settle = (pmId: number) => {
+        pending.delete(pmId);
+        if (pending.size === 0) {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+
+      waiting.set(requestId, (pmId, snapshot) => {
+        if (!pending.has(pmId)) return;
+        snapshots.push(snapshot);
+        settle(pmId);
+      });
+      for (const pmId of [...pending]) {
+        const packet = { type: 'process:msg', topic: REQUEST_TOPIC, data: { request_id: requestId } };
+        // A worker that went offline since the list can't answer
+        pm2.sendDataToProcessId(pmId, packet, (err) => {
+          if (err) settle(pmId);
+        });
+      }
+    });
+    waiting.delete(requestId);
+
+    if (snapshots.length < expected) {
+      logger.warn('Metrics scrape is missing workers', { expected: expected + 1, answered: snapshots.length + 1 });
+    }
+    return [own, ...snapshots];
+  } catch (error) {
+    logger.warn('PM2 unreachable, serving metrics from this worker only', { error });
+    return [own];
+  }
+}
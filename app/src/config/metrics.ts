@@ -0,0 +1,226 @@
+/**
+ * Metrics Registry
+ * In-process counters, request latency histogram and pg pool gauges, rendered
+ * in Prometheus text exposition format for GET /metrics.
+ * Labels are limited to method, route pattern and status code: nothing
+ * identifies a link, thread, room or sender (anonymity).
+ * State is per process; under PM2 cluster mode the worker that answers a
+ * scrape renders the sum of every worker's snapshot (config/metrics-cluster).
+ */
+
+import { databaseConfig } from './database';
+
+const PREFIX = 'burnware_';
+
+/** Every name passed to LoggerUtils.logMetric, pre-registered so rate() sees zeros */
+export const BUSINESS_METRICS = [
+  'link_created',
+  'link_deleted',
+  'link_burned',
+  'link_auto_paused',
+  'link_quota_rejected',
+  'thread_created',
+  'thread_burned',
+  'message_sent',
+  'anonymous_message_sent',
+  'send_challenge_failed',
+  'passphrase_failed',
+  'passphrase_locked_out',
+  'anonymous_reply_sent',
+  'owner_reply_sent',
+  'auto_reply_sent',
+  'room_created',
+  'room_locked',
+  'room_extended',
+  'room_reopened',
+  'room_burned',
+  'room_join_attempt',
+  'room_invites_generated',
+  'room_message_edited',
+  'room_message_deleted',
+  'participant_approved',
+  'participant_removed',
+  'room_keys_distributed',
+  'broadcast_posts_published',
+  'broadcast_posts_expired',
+  'attachment_upload_created',
+  'attachments_purged',
+  'webhook_delivered',
+  'webhook_failed',
+  'reaper_threads_expired',
+  'reaper_links_purged',
+  'reaper_links_deleted',
+  'reaper_rooms_locked',
+  'reaper_rooms_deleted',
+  'reaper_broadcast_channels_expired',
+  'reaper_webhook_deliveries_deleted',
+  'reaper_device_links_deleted',
+  'reaper_rate_limits_deleted',
+  'reaper_passphrase_attempts_deleted',
+  'reaper_spent_challenges_deleted',
+  'reaper_attachments_purged',
+] as const;
+
+/** Request latency buckets in seconds */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface HistogramSeries {
+  labels: Record<string, string>;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+interface PoolStats {
+  total: number;
+  idle: number;
+  waiting: number;
+}
+
+/**
+ * One process's registry as plain data, so workers can send it over IPC
+ */
+export interface MetricsSnapshot {
+  counters: Record<string, number>;
+  requests: HistogramSeries[];
+  pool: PoolStats | null;
+}
+
+function seriesKey(labels: Record<string, string>): string {
+  return `${labels.method} ${labels.route} ${labels.status_code}`;
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+/** Metric names only allow [a-zA-Z0-9_:] */
+function metricName(name: string): string {
+  return PREFIX + name.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+export class MetricsRegistry {
+  private counters = new Map<string, number>(BUSINESS_METRICS.map((name) => [name, 0]));
+  private requests = new Map<string, HistogramSeries>();
+
+  increment(name: string, value: number = 1): void {
+    this.counters.set(name, (this.counters.get(name) || 0) + value);
+  }
+
+  /**
+   * Record one completed request. route must be the matched pattern
+   * (e.g. /api/v1/thread/:thread_id), never the raw path.
+   */
+  observeRequest(method: string, route: string, statusCode: number, seconds: number): void {
+    const labels = { method, route, status_code: String(statusCode) };
+    const key = seriesKey(labels);
+    let series = this.requests.get(key);
+    if (!series) {
+      series = { labels, buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      this.requests.set(key, series);
+    }
+    LATENCY_BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) series!.buckets[i] += 1;
+    });
+    series.sum += seconds;
+    series.count += 1;
+  }
+
+  /** This process's registry, for aggregation across PM2 workers */
+  snapshot(): MetricsSnapshot {
+    return {
+      counters: Object.fromEntries(this.counters),
+      requests: [...this.requests.values()].map((series) => ({ ...series, buckets: [...series.buckets] })),
+      pool: databaseConfig.getPoolStats(),
+    };
+  }
+
+  /**
+   * Prometheus text exposition format (version 0.0.4) for the sum of the
+   * given snapshots (this process alone by default)
+   */
+  render(snapshots: MetricsSnapshot[] = [this.snapshot()]): string {
+    const { counters, requests, pool } = sumSnapshots(snapshots);
+    const lines: string[] = [];
+
+    for (const [name, value] of [...counters].sort(([a], [b]) => a.localeCompare(b))) {
+      const metric = `${metricName(name)}_total`;
+      lines.push(`# HELP ${metric} Count of ${name.replace(/_/g, ' ')} events`);
+      lines.push(`# TYPE ${metric} counter`);
+      lines.push(`${metric} ${value}`);
+    }
+
+    const histogram = metricName('http_request_duration_seconds');
+    lines.push(`# HELP ${histogram} HTTP request latency by route pattern`);
+    lines.push(`# TYPE ${histogram} histogram`);
+    for (const series of requests.values()) {
+      const { labels } = series;
+      LATENCY_BUCKETS.forEach((bound, i) => {
+        lines.push(`${histogram}_bucket${formatLabels({ ...labels, le: String(bound) })} ${series.buckets[i]}`);
+      });
+      lines.push(`${histogram}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${histogram}_sum${formatLabels(labels)} ${series.sum}`);
+      lines.push(`${histogram}_count${formatLabels(labels)} ${series.count}`);
+    }
+
+    if (pool) {
+      const gauges: [string, string, number][] = [
+        ['db_pool_connections', 'Connections open in the pg pool', pool.total],
+        ['db_pool_idle_connections', 'Idle connections in the pg pool', pool.idle],
+        ['db_pool_waiting_clients', 'Clients waiting for a pg connection', pool.waiting],
+      ];
+      for (const [name, help, value] of gauges) {
+        lines.push(`# HELP ${metricName(name)} ${help}`);
+        lines.push(`# TYPE ${metricName(name)} gauge`);
+        lines.push(`${metricName(name)} ${value}`);
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * Add up counters, histogram series and pool gauges across processes
+ */
+function sumSnapshots(snapshots: MetricsSnapshot[]): {
+  counters: Map<string, number>;
+  requests: Map<string, HistogramSeries>;
+  pool: PoolStats | null;
+} {
+  const counters = new Map<string, number>(BUSINESS_METRICS.map((name) => [name, 0]));
+  const requests = new Map<string, HistogramSeries>();
+
+  for (const snapshot of snapshots) {
+    for (const [name, value] of Object.entries(snapshot.counters)) {
+      counters.set(name, (counters.get(name) || 0) + value);
+    }
+    for (const series of snapshot.requests) {
+      const key = seriesKey(series.labels);
+      const total = requests.get(key);
+      if (!total) {
+        requests.set(key, { ...series, buckets: [...series.buckets] });
+        continue;
+      }
+      series.buckets.forEach((value, i) => {
+        total.buckets[i] += value;
+      });
+      total.sum += series.sum;
+      total.count += series.count;
+    }
+  }
+
+  const pools = snapshots.map((snapshot) => snapshot.pool).filter((pool): pool is PoolStats => pool !== null);
+  const pool = pools.length === 0 ? null : {
+    total: pools.reduce((sum, p) => sum + p.total, 0),
+    idle: pools.reduce((sum, p) => sum + p.idle, 0),
+    waiting: pools.reduce((sum, p) => sum + p.waiting, 0),
+  };
+
+  return { counters, requests, pool };
+}
+
+export const metrics = new MetricsRegistry();
@@ -0,0 +1,232 @@
+/**
+ * Migration Runner
+ * Applies database/migrations/NNN_name.sql in version order and records each
+ * file in schema_migrations with a SHA-256 checksum. Rollbacks use the
+ * matching NNN_name.down.sql. Every run holds a transaction-scoped advisory
+ * lock, so instances booting together apply migrations exactly once.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+const LOCK_KEY = 'burnware_migrations';
+const UP_FILE = /^(\d{3,})_([a-z0-9_]+)\.sql$/;
+
+// Deployed artifact ships migrations next to dist/; a repo checkout keeps them in database/
+const DEFAULT_DIRS = [
+  path.resolve(__dirname, '..', '..', 'migrations'),
+  path.resolve(__dirname, '..', '..', '..', 'database', 'migrations'),
+];
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  checksum: string;
+  sql: string;
+  downSql: string | null;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: 'applied' | 'pending' | 'drifted' | 'missing';
+  applied_at: Date | null;
+}
+
+export class MigrationRunner {
+  private readonly dir: string;
+
+  constructor(private readonly pool: Pool, dir?: string) {
+    this.dir = dir || MigrationRunner.resolveDir();
+  }
+
+  /**
+   * MIGRATIONS_DIR wins; otherwise the first default location that exists
+   */
+  static resolveDir(): string {
+    if (process.env.MIGRATIONS_DIR) return process.env.MIGRATIONS_DIR;
+    const found = DEFAULT_DIRS.find((dir) => existsSync(dir));
+    if (!found) {
+      throw new Error(`Migrations directory not found (looked in ${DEFAULT_DIRS.join(', ')})`);
+    }
+    return found;
+  }
+
+  /** Line endings are normalised so a CRLF checkout doesn't register as drift */
+  static checksum(sql: string): string {
+    return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+  }
+
+  /**
+   * Migration files on disk, ascending by version
+   */
+  loadFiles(): MigrationFile[] {
+    const entries = readdirSync(this.dir);
+    const files: MigrationFile[] = [];
+
+    for (const entry of entries) {
+      const match = UP_FILE.exec(entry);
+      if (!match) continue;
+
+      const [, version, name] = match;
+      if (files.some((f) => f.version === version)) {
+        throw new Error(`Duplicate migration version ${version}`);
+      }
+
+      const sql = readFileSync(path.join(this.dir, entry), 'utf8');
+      const downPath = path.join(this.dir, `${version}_${name}.down.sql`);
+      files.push({
+        version,
+        name,
+        checksum: MigrationRunner.checksum(sql),
+        sql,
+        downSql: existsSync(downPath) ? readFileSync(downPath, 'utf8') : null,
+      });
+    }
+
+    return files.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  /**
+   * Apply every pending migration in one transaction.
+   * Refuses to run if an applied file has been edited since it was recorded.
+   */
+  async up(): Promise<string[]> {
+    const files = this.loadFiles();
+
+    return this.withLock(async (client) => {
+      const applied = await this.readLedger(client);
+      const drifted = files.filter((f) => applied.has(f.version) && applied.get(f.version)!.checksum !== f.checksum);
+      if (drifted.length > 0) {
+        throw new Error(
+          `Checksum mismatch for applied migration(s): ${drifted.map((f) => `${f.version}_${f.name}`).join(', ')}`
+        );
+      }
+
+      const pending = files.filter((f) => !applied.has(f.version));
+      for (const file of pending) {
+        logger.info('Applying migration', { version: file.version, name: file.name });
+        await client.query(file.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [file.version, file.name, file.checksum]
+        );
+      }
+
+      logger.info('Database migrations completed', { applied: pending.length });
+      return pending.map((f) => f.version);
+    });
+  }
+
+  /**
+   * Revert the most recent `steps` migrations in one transaction.
+   * Every needed .down.sql must exist before anything is touched.
+   */
+  async down(steps: number): Promise<string[]> {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error('down requires a positive number of steps');
+    }
+    const files = new Map(this.loadFiles().map((f) => [f.version, f]));
+
+    return this.withLock(async (client) => {
+      const applied = [...(await this.readLedger(client)).values()]
+        .sort((a, b) => b.version.localeCompare(a.version))
+        .slice(0, steps);
+
+      const unreversible = applied.filter((m) => !files.get(m.version)?.downSql);
+      if (unreversible.length > 0) {
+        throw new Error(
+          `No down migration for: ${unreversible.map((m) => `${m.version}_${m.name}`).join(', ')}`
+        );
+      }
+
+      for (const migration of applied) {
+        logger.info('Reverting migration', { version: migration.version, name: migration.name });
+        await client.query(files.get(migration.version)!.downSql!);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      }
+
+      return applied.map((m) => m.version);
+    });
+  }
+
+  /**
+   * Applied, pending, drifted (file edited after apply) and missing (file deleted) versions
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const files = this.loadFiles();
+    const applied = await this.withLock((client) => this.readLedger(client));
+
+    const rows: MigrationStatus[] = files.map((f) => {
+      const record = applied.get(f.version);
+      if (!record) return { version: f.version, name: f.name, state: 'pending', applied_at: null };
+      return {
+        version: f.version,
+        name: f.name,
+        state: record.checksum === f.checksum ? 'applied' : 'drifted',
+        applied_at: record.applied_at,
+      };
+    });
+
+    for (const record of applied.values()) {
+      if (!files.some((f) => f.version === record.version)) {
+        rows.push({ version: record.version, name: record.name, state: 'missing', applied_at: record.applied_at });
+      }
+    }
+
+    return rows.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  /**
+   * Drifted or missing migrations; empty when the ledger matches the files
+   */
+  async verify(): Promise<MigrationStatus[]> {
+    return (await this.status()).filter((s) => s.state === 'drifted' || s.state === 'missing');
+  }
+
+  private async readLedger(client: PoolClient): Promise<Map<string, AppliedMigration>> {
+    const result = await client.query<AppliedMigration>(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+    );
+    return new Map(result.rows.map((r) => [r.version, r]));
+  }
+
+  /**
+   * Run fn inside a transaction holding the migration advisory lock.
+   * Blocks (rather than skips) so a second instance waits, then sees nothing pending.
+   */
+  private async withLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [LOCK_KEY]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version VARCHAR(16) PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          checksum VARCHAR(64) NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Room Limits
+ * Per-deployment bounds on room lifespan and join windows, set from
+ * lib/config/environments/*.ts through the instance .env.
+ * Values are clamped to the database ceilings (30 days, 24h join window).
+ */
+
+/** chk_lifespan: expires_at <= created_at + 30 days */
+export const ROOM_LIFESPAN_CEILING_HOURS = 720;
+/** chk_join_window: 5 to 1440 minutes */
+export const ROOM_JOIN_WINDOW_CEILING_MINUTES = 1440;
+export const ROOM_MIN_JOIN_WINDOW_MINUTES = 5;
+
+const DEFAULT_LIFESPAN_HOURS = 24;
+const DEFAULT_MAX_LIFESPAN_HOURS = ROOM_LIFESPAN_CEILING_HOURS;
+const DEFAULT_MAX_JOIN_WINDOW_MINUTES = 60;
+
+export interface RoomLimits {
+  /** Lifespan when the creator doesn't pick one */
+  defaultLifespanHours: number;
+  /** Longest a room may live, counted from creation (extensions included) */
+  maxLifespanHours: number;
+  /** Longest join window at creation or on reopen */
+  maxJoinWindowMinutes: number;
+}
+
+function readPositiveInt(name: string, fallback: number, ceiling: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Math.min(value > 0 ? value : fallback, ceiling);
+}
+
+/** Read lazily — dotenv loads after module imports. */
+export function getRoomLimits(): RoomLimits {
+  const maxLifespanHours = readPositiveInt(
+    'ROOM_MAX_LIFESPAN_HOURS',
+    DEFAULT_MAX_LIFESPAN_HOURS,
+    ROOM_LIFESPAN_CEILING_HOURS
+  );
+  return {
+    defaultLifespanHours: readPositiveInt('ROOM_DEFAULT_LIFESPAN_HOURS', DEFAULT_LIFESPAN_HOURS, maxLifespanHours),
+    maxLifespanHours,
+    maxJoinWindowMinutes: Math.max(
+      ROOM_MIN_JOIN_WINDOW_MINUTES,
+      readPositiveInt('ROOM_MAX_JOIN_WINDOW_MINUTES', DEFAULT_MAX_JOIN_WINDOW_MINUTES, ROOM_JOIN_WINDOW_CEILING_MINUTES)
+    ),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Attachment Controller
+ * Presigned upload/download tickets for encrypted attachments, plus the
+ * object endpoints the filesystem storage driver signs its URLs for
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AttachmentService, CreateUploadInput } from '../services/attachment-service';
+import { FsObjectStore, SignedMethod, getObjectStore } from '../services/object-store';
+import { ResponseUtils } from '../utils/response-utils';
+import { AuthorizationError, ValidationError, NotFoundError } from '../utils/error-utils';
+import { asyncHandler } from '../middleware/error-middleware';
+
+const attachmentService = new AttachmentService();
+
+/**
+ * Reserve an attachment upload
+ * POST /api/v1/attachments
+ */
+export const createAttachment = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const input = req.validated as CreateUploadInput;
+
+    const ticket = await attachmentService.createUpload(input);
+
+    ResponseUtils.success(res, ticket, 201);
+  }
+);
+
+/**
+ * Get a download URL for an attachment
+ * GET /api/v1/attachments/:attachment_id
+ */
+export const getAttachment = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { attachment_id } = req.params as Record<string, string>;
+
+    const ticket = await attachmentService.getDownload(attachment_id);
+
+    ResponseUtils.success(res, ticket);
+  }
+);
+
+/** Resolve the filesystem store and object key for a signed object request */
+function signedObject(req: Request, method: SignedMethod): { store: FsObjectStore; key: string; contentLength?: number } {
+  const { bucket, key: segments } = req.params as unknown as { bucket: string; key: string[] };
+  const store = getObjectStore(bucket);
+  if (!(store instanceof FsObjectStore)) {
+    throw new NotFoundError('Object');
+  }
+
+  const key = segments.join('/');
+  const { valid, contentLength } = store.verify(method, key, req.query as Record<string, string>);
+  if (!valid) {
+    throw new AuthorizationError('Invalid or expired signature');
+  }
+  return { store, key, contentLength };
+}
+
+/**
+ * Upload an object (filesystem driver only)
+ * PUT /api/v1/objects/:bucket/*key
+ */
+export const putObject = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { store, key, contentLength } = signedObject(req, 'PUT');
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (body.length !== contentLength) {
+      throw new ValidationError('Body does not match the signed content length');
+    }
+
+    await store.put(key, body, { contentType: 'application/octet-stream' });
+    res.status(200).end();
+  }
+);
+
+/**
+ * Download an object (filesystem driver only)
+ * GET /api/v1/objects/:bucket/*key
+ */
+export const getObject = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { store, key } = signedObject(req, 'GET');
+
+    const body = await store.get(key).catch(() => {
+      throw new NotFoundError('Object');
+    });
+    res.type('application/octet-stream').send(body);
+  }
+);
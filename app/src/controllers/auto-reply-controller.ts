@@ -0,0 +1,90 @@
+/**
+ * Auto-Reply Controller
+ * Owner settings for a link's auto-reply, and the owner client's
+ * pending-list / send endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AutoReplyService, SaveAutoReplyInput } from '../services/auto-reply-service';
+import { MessageService } from '../services/message-service';
+import { ResponseUtils } from '../utils/response-utils';
+import { asyncHandler } from '../middleware/error-middleware';
+
+const autoReplyService = new AutoReplyService();
+const messageService = new MessageService();
+
+/**
+ * Get the link's auto-reply (null when none is set)
+ * GET /api/v1/dashboard/links/:link_id/auto-reply
+ */
+export const getAutoReply = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id } = req.params as Record<string, string>;
+
+    const autoReply = await autoReplyService.getAutoReply(link_id, req.user!.sub);
+
+    ResponseUtils.success(res, autoReply);
+  }
+);
+
+/**
+ * Create or replace the link's auto-reply
+ * PUT /api/v1/dashboard/links/:link_id/auto-reply
+ */
+export const saveAutoReply = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id } = req.params as Record<string, string>;
+
+    const autoReply = await autoReplyService.saveAutoReply(
+      link_id, req.user!.sub, req.validated as SaveAutoReplyInput
+    );
+
+    ResponseUtils.success(res, autoReply);
+  }
+);
+
+/**
+ * Remove the link's auto-reply
+ * DELETE /api/v1/dashboard/links/:link_id/auto-reply
+ */
+export const deleteAutoReply = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id } = req.params as Record<string, string>;
+
+    await autoReplyService.deleteAutoReply(link_id, req.user!.sub);
+
+    res.status(204).send();
+  }
+);
+
+/**
+ * Threads across the owner's links waiting for their auto-reply
+ * GET /api/v1/dashboard/auto-replies/pending
+ */
+export const listPendingAutoReplies = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const pending = await autoReplyService.listPending(req.user!.sub);
+
+    ResponseUtils.success(res, pending);
+  }
+);
+
+/**
+ * Send the auto-reply into a flagged thread; sent: false when another
+ * device or an owner reply got there first
+ * POST /api/v1/dashboard/threads/:thread_id/auto-reply
+ */
+export const sendAutoReply = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { thread_id } = req.params as Record<string, string>;
+    const { ciphertext } = req.validated as { ciphertext: string };
+
+    const message = await messageService.sendAutoReply(thread_id, req.user!.sub, ciphertext);
+
+    if (!message) {
+      ResponseUtils.success(res, { sent: false });
+      return;
+    }
+    ResponseUtils.success(res, { sent: true, message_id: message.message_id, created_at: message.created_at }, 201);
+  }
+);
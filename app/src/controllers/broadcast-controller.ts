@@ -1,15 +1,23 @@
 /**
  * Broadcast Controller
- * Create channel, list posts (public), add post, burn channel, list owner channels.
+ * Create channel, list posts (public), add/edit/delete/pin post, moderation
+ * queue, scoped tokens, public feeds, burn channel, list owner channels.
  * Do not log request body (post_token) or identifiers on public routes per design.
  */
 
 import { Request, Response } from 'express';
 import { BroadcastService } from '../services/broadcast-service';
+import { BroadcastModerationService } from '../services/broadcast-moderation-service';
+import { BroadcastTokenService } from '../services/broadcast-token-service';
+import { BroadcastFeedService, FeedFormat } from '../services/broadcast-feed-service';
+import { BroadcastTokenScope } from '../models/broadcast-token-model';
 import { ResponseUtils } from '../utils/response-utils';
 import { asyncHandler } from '../middleware/error-middleware';
 
 const broadcastService = new BroadcastService();
+const moderationService = new BroadcastModerationService();
+const tokenService = new BroadcastTokenService();
+const feedService = new BroadcastFeedService();
 
 /**
  * Create broadcast channel
@@ -18,7 +26,13 @@ const broadcastService = new BroadcastService();
  */
 export const createChannel = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
-    const body = req.validated as { display_name: string; expires_at?: string | null; allow_guest_posts?: boolean };
+    const body = req.validated as {
+      display_name: string;
+      expires_at?: string | null;
+      allow_guest_posts?: boolean;
+      moderate_guest_posts?: boolean;
+      public_feed?: boolean;
+    };
     const ownerUserId = req.user?.sub ?? null;
 
     const result = await broadcastService.createChannel({
@@ -26,6 +40,8 @@ export const createChannel = asyncHandler(
       expires_at: body.expires_at ? new Date(body.expires_at) : null,
       owner_user_id: ownerUserId,
       allow_guest_posts: body.allow_guest_posts,
+      moderate_guest_posts: body.moderate_guest_posts,
+      public_feed: body.public_feed,
     });
 
     ResponseUtils.success(
@@ -42,7 +58,8 @@ export const createChannel = asyncHandler(
 );
 
 /**
- * List posts (public, no auth)
+ * List posts (public, no auth; the channel token in X-Post-Token or the
+ * owner's JWT adds each post's author_label)
  * GET /api/v1/broadcast/:channel_id/posts
  */
 export const getPosts = asyncHandler(
@@ -53,28 +70,212 @@ export const getPosts = asyncHandler(
       channel_id,
       limit: query.limit,
       before: query.before,
+      post_token: req.get('X-Post-Token') || undefined,
+      user_id: req.user?.sub,
     });
     ResponseUtils.success(res, result);
   }
 );
 
 /**
- * Add post (requires post_token in body)
+ * Atom / RSS / JSON Feed for a public_feed channel, with conditional GET on the
+ * ETag or Last-Modified (If-Modified-Since)
+ * GET /b/:channel_id/feed.(atom|rss|json)
+ */
+export const getFeed = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = (req.validated as { limit?: number; before?: string }) || {};
+    const feed = await feedService.getFeed(req.params.channel_id as string, req.params.format as FeedFormat, query);
+
+    res.set({
+      'Content-Type': feed.content_type,
+      'ETag': feed.etag,
+      'Last-Modified': feed.last_modified.toUTCString(),
+      'Cache-Control': 'public, max-age=60',
+    });
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+    res.send(feed.body);
+  }
+);
+
+/**
+ * Add post (post_token in body, or a guest post if the channel allows;
+ * moderated channels answer status "pending", a future publish_at "scheduled")
  * POST /api/v1/broadcast/:channel_id/posts
  */
 export const addPost = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const channel_id = req.params.channel_id as string;
-    const body = req.validated as { post_token?: string; content: string };
+    const body = req.validated as {
+      post_token?: string;
+      content: string;
+      guest_key?: string;
+      publish_at?: Date;
+      expires_at?: Date;
+    };
     const created = await broadcastService.addPost({
       channel_id,
       post_token: body.post_token,
       content: body.content,
+      guest_key: body.guest_key,
+      publish_at: body.publish_at,
+      expires_at: body.expires_at,
     });
     ResponseUtils.success(res, created, 201);
   }
 );
 
+/**
+ * Edit or pin/unpin a post (post_token in body, or the channel owner's JWT)
+ * PATCH /api/v1/broadcast/:channel_id/posts/:post_id
+ */
+export const updatePost = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const channel_id = req.params.channel_id as string;
+    const post_id = req.params.post_id as string;
+    const body = req.validated as { post_token?: string; content?: string; pinned?: boolean };
+    const post = await broadcastService.updatePost({
+      channel_id,
+      post_id,
+      post_token: body.post_token,
+      user_id: req.user?.sub,
+      content: body.content,
+      pinned: body.pinned,
+    });
+    ResponseUtils.success(res, post);
+  }
+);
+
+/**
+ * Delete a post (post_token in body, or the channel owner's JWT)
+ * DELETE /api/v1/broadcast/:channel_id/posts/:post_id
+ */
+export const deletePost = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const channel_id = req.params.channel_id as string;
+    const post_id = req.params.post_id as string;
+    const body = (req.validated as { post_token?: string }) || {};
+    await broadcastService.deletePost({
+      channel_id,
+      post_id,
+      post_token: body.post_token,
+      user_id: req.user?.sub,
+    });
+    ResponseUtils.success(res, { deleted: true });
+  }
+);
+
+/**
+ * Moderation queue (X-Post-Token header, or the channel owner's JWT)
+ * GET /api/v1/broadcast/:channel_id/pending
+ */
+export const getPendingPosts = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const queue = await moderationService.listQueue({
+      channel_id: req.params.channel_id as string,
+      post_token: req.get('X-Post-Token') || undefined,
+      user_id: req.user?.sub,
+    });
+    ResponseUtils.success(res, queue);
+  }
+);
+
+/**
+ * Approve and/or reject pending posts in bulk
+ * POST /api/v1/broadcast/:channel_id/moderation
+ */
+export const moderatePosts = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const body = req.validated as { post_token?: string; approve: string[]; reject: string[]; trust_authors: boolean };
+    const result = await moderationService.moderate({
+      channel_id: req.params.channel_id as string,
+      post_token: body.post_token,
+      user_id: req.user?.sub,
+      approve: body.approve,
+      reject: body.reject,
+      trust_authors: body.trust_authors,
+    });
+    ResponseUtils.success(res, result);
+  }
+);
+
+/**
+ * Turn moderation on/off, or clear the auto-approve allowlist
+ * PATCH /api/v1/broadcast/:channel_id/moderation
+ */
+export const updateModeration = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const body = req.validated as { post_token?: string; moderate_guest_posts?: boolean; clear_trusted_guests?: boolean };
+    const result = await moderationService.updateSettings({
+      channel_id: req.params.channel_id as string,
+      post_token: body.post_token,
+      user_id: req.user?.sub,
+      moderate_guest_posts: body.moderate_guest_posts,
+      clear_trusted_guests: body.clear_trusted_guests,
+    });
+    ResponseUtils.success(res, result);
+  }
+);
+
+/**
+ * Scoped tokens (X-Post-Token header with the channel token, or the owner's JWT)
+ * GET /api/v1/broadcast/:channel_id/tokens
+ */
+export const getTokens = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const tokens = await tokenService.listTokens({
+      channel_id: req.params.channel_id as string,
+      post_token: req.get('X-Post-Token') || undefined,
+      user_id: req.user?.sub,
+    });
+    ResponseUtils.success(res, { tokens });
+  }
+);
+
+/**
+ * Mint a scoped token; the plaintext token is in this response only
+ * POST /api/v1/broadcast/:channel_id/tokens
+ */
+export const mintToken = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const body = req.validated as {
+      post_token?: string;
+      label: string;
+      scopes: BroadcastTokenScope[];
+      expires_at?: string | null;
+    };
+    const token = await tokenService.mintToken({
+      channel_id: req.params.channel_id as string,
+      post_token: body.post_token,
+      user_id: req.user?.sub,
+      label: body.label,
+      scopes: body.scopes,
+      expires_at: body.expires_at ? new Date(body.expires_at) : null,
+    });
+    ResponseUtils.success(res, token, 201);
+  }
+);
+
+/**
+ * Revoke a scoped token
+ * DELETE /api/v1/broadcast/:channel_id/tokens/:token_id
+ */
+export const revokeToken = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const body = (req.validated as { post_token?: string }) || {};
+    await tokenService.revokeToken({
+      channel_id: req.params.channel_id as string,
+      token_id: req.params.token_id as string,
+      post_token: body.post_token,
+      user_id: req.user?.sub,
+    });
+    ResponseUtils.success(res, { revoked: true });
+  }
+);
+
 /**
  * Burn channel (requires post_token in body)
  * POST /api/v1/broadcast/:channel_id/burn
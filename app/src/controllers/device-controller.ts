@@ -0,0 +1,110 @@
+/**
+ * Device Controller
+ * Owner devices (list, register, revoke) and the device-linking mailbox
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { DeviceService } from '../services/device-service';
+import { DeviceLinkService } from '../services/device-link-service';
+import { ResponseUtils } from '../utils/response-utils';
+import { asyncHandler } from '../middleware/error-middleware';
+
+const deviceService = new DeviceService();
+const deviceLinkService = new DeviceLinkService();
+
+/**
+ * List the owner's devices, marking the one making the request
+ * GET /api/v1/dashboard/devices
+ */
+export const listDevices = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const devices = await deviceService.listDevices(req.user!.sub, req.deviceId);
+
+    ResponseUtils.success(res, { devices });
+  }
+);
+
+/**
+ * Register this browser as a device; the client keeps the returned device_id
+ * POST /api/v1/dashboard/devices
+ */
+export const registerDevice = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { name } = req.validated as { name: string };
+
+    const device = await deviceService.register(req.user!.sub, name, req.user!.email);
+
+    ResponseUtils.success(res, device, 201);
+  }
+);
+
+/**
+ * Revoke a device
+ * DELETE /api/v1/dashboard/devices/:device_id
+ */
+export const revokeDevice = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { device_id } = req.params as Record<string, string>;
+
+    await deviceService.revoke(req.user!.sub, device_id);
+
+    res.status(204).send();
+  }
+);
+
+/**
+ * New device: open a link session for its ephemeral public key
+ * POST /api/v1/dashboard/devices/link
+ */
+export const startLink = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { public_key } = req.validated as { public_key: string };
+
+    const session = await deviceLinkService.startLink(req.user!.sub, req.deviceId, public_key);
+
+    ResponseUtils.success(res, session, 201);
+  }
+);
+
+/**
+ * New device: poll the session; the bundle is returned once
+ * GET /api/v1/dashboard/devices/link/:session_id
+ */
+export const collectLink = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { session_id } = req.params as Record<string, string>;
+
+    const state = await deviceLinkService.collect(req.user!.sub, req.deviceId, session_id);
+
+    ResponseUtils.success(res, state);
+  }
+);
+
+/**
+ * Existing device: look up the session behind a pairing code
+ * GET /api/v1/dashboard/devices/pairing/:pairing_code
+ */
+export const lookupPairing = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { pairing_code } = req.params as Record<string, string>;
+
+    const target = await deviceLinkService.lookup(req.user!.sub, req.deviceId, pairing_code);
+
+    ResponseUtils.success(res, target);
+  }
+);
+
+/**
+ * Existing device: deliver the key bundle encrypted to the new device
+ * POST /api/v1/dashboard/devices/link/:session_id/bundle
+ */
+export const deliverBundle = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { session_id } = req.params as Record<string, string>;
+    const { bundle } = req.validated as { bundle: string };
+
+    await deviceLinkService.deliver(req.user!.sub, req.deviceId, session_id, bundle);
+
+    res.status(204).send();
+  }
+);
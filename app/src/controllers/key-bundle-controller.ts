@@ -0,0 +1,42 @@
+/**
+ * Key Bundle Controller
+ * Account-wide encrypted key backup, versioned with ETag / If-Match
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { KeyBundleService, versionETag, parseIfMatch } from '../services/key-bundle-service';
+import { SaveKeyBundleData } from '../models/key-bundle-model';
+import { ResponseUtils } from '../utils/response-utils';
+import { asyncHandler } from '../middleware/error-middleware';
+
+const keyBundleService = new KeyBundleService();
+
+/**
+ * Get the bundle (null before the first backup) and any per-link backups still to fold in
+ * GET /api/v1/dashboard/key-bundle
+ */
+export const getKeyBundle = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const state = await keyBundleService.get(req.user!.sub);
+
+    res.set('ETag', versionETag(state.version));
+    res.set('Cache-Control', 'no-store');
+    ResponseUtils.success(res, state);
+  }
+);
+
+/**
+ * Replace the bundle; If-Match must name the version it was merged from ("0" for the first)
+ * PUT /api/v1/dashboard/key-bundle
+ */
+export const saveKeyBundle = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const expectedVersion = parseIfMatch(req.get('If-Match'));
+    const data = req.validated as SaveKeyBundleData;
+
+    const saved = await keyBundleService.save(req.user!.sub, data, expectedVersion, req.user!.email);
+
+    res.set('ETag', versionETag(saved.version));
+    ResponseUtils.success(res, saved);
+  }
+);
@@ -5,7 +5,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { LinkService } from '../services/link-service';
+import { LinkService, CreateLinkInput } from '../services/link-service';
 import { ResponseUtils } from '../utils/response-utils';
 import { NotFoundError } from '../utils/error-utils';
 import { asyncHandler } from '../middleware/error-middleware';
@@ -23,12 +23,7 @@ export const createLink = asyncHandler(
 
     try {
       const userId = req.user!.sub;
-      const input = req.validated as {
-        display_name: string;
-        description?: string;
-        expires_in_days?: number;
-        public_key: string;
-      };
+      const input = req.validated as CreateLinkInput;
 
       const link = await linkService.createLink(userId, input);
 
@@ -43,6 +38,12 @@ export const createLink = asyncHandler(
           expires_at: link.expires_at,
           qr_code_url: link.qr_code_url,
           created_at: link.created_at,
+          paused: link.paused,
+          max_threads_per_day: link.max_threads_per_day,
+          max_threads: link.max_threads,
+          open_hours_start: link.open_hours_start,
+          open_hours_end: link.open_hours_end,
+          time_zone: link.time_zone,
         },
         201
       );
@@ -107,11 +108,7 @@ export const updateLink = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     const userId = req.user!.sub;
     const { link_id } = req.params as Record<string, string>;
-    const updates = req.validated as {
-      display_name?: string;
-      description?: string;
-      expires_in_days?: number;
-    };
+    const updates = req.validated as Partial<CreateLinkInput>;
 
     const link = await linkService.updateLink(link_id, userId, updates);
 
@@ -0,0 +1,20 @@
+/**
+ * Metrics Controller
+ * Prometheus scrape endpoint
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { metrics } from '../config/metrics';
+import { collectMetricsSnapshots } from '../config/metrics-cluster';
+import { asyncHandler } from '../middleware/error-middleware';
+
+/**
+ * Counters, latency histogram and pg pool gauges summed over every PM2 worker
+ * GET /metrics
+ */
+export const getMetrics = asyncHandler(
+  async (_req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(metrics.render(await collectMetricsSnapshots()));
+  }
+);
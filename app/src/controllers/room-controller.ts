@@ -6,12 +6,18 @@
 import { Request, Response, NextFunction } from 'express';
 import { RoomService, CreateRoomInput } from '../services/room-service';
 import { RoomInviteService, GenerateInvitesInput } from '../services/room-invite-service';
+import { RoomKeyService, RemoveParticipantInput } from '../services/room-key-service';
+import { RoomLifespanService } from '../services/room-lifespan-service';
+import { ParticipantCursor, ParticipantStatus } from '../models/room-participant-model';
 import { ResponseUtils } from '../utils/response-utils';
+import { ValidationError } from '../utils/error-utils';
 import { asyncHandler } from '../middleware/error-middleware';
 import { createSubsegment } from '../config/xray';
 
 const roomService = new RoomService();
 const inviteService = new RoomInviteService();
+const keyService = new RoomKeyService();
+const lifespanService = new RoomLifespanService();
 
 /**
  * Create new room
@@ -37,6 +43,7 @@ export const createRoom = asyncHandler(
           display_name: room.display_name,
           description: room.description,
           expires_at: room.expires_at,
+          join_window_opened_at: room.join_window_opened_at,
           join_window_minutes: room.join_window_minutes,
           max_participants: room.max_participants,
           participant_count: room.participant_count,
@@ -110,6 +117,43 @@ export const lockRoom = asyncHandler(
   }
 );
 
+/**
+ * Extend room lifespan
+ * POST /api/v1/dashboard/rooms/:room_id/extend
+ */
+export const extendRoom = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const userId = req.user!.sub;
+    const { room_id } = req.params as Record<string, string>;
+    const { hours } = req.validated as { hours: number };
+
+    const room = await lifespanService.extendRoom(room_id, userId, hours);
+
+    ResponseUtils.success(res, { room_id: room.room_id, expires_at: room.expires_at });
+  }
+);
+
+/**
+ * Reopen join window (unlock for new invites)
+ * POST /api/v1/dashboard/rooms/:room_id/reopen
+ */
+export const reopenRoom = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const userId = req.user!.sub;
+    const { room_id } = req.params as Record<string, string>;
+    const { join_window_minutes } = req.validated as { join_window_minutes: number };
+
+    const room = await lifespanService.reopenJoinWindow(room_id, userId, join_window_minutes);
+
+    ResponseUtils.success(res, {
+      room_id: room.room_id,
+      locked_at: room.locked_at ?? null,
+      join_window_opened_at: room.join_window_opened_at,
+      join_window_minutes: room.join_window_minutes,
+    });
+  }
+);
+
 /**
  * Burn room (delete all data)
  * POST /api/v1/dashboard/rooms/:room_id/burn
@@ -204,6 +248,50 @@ export const getPendingParticipants = asyncHandler(
   }
 );
 
+/**
+ * List participants page by page
+ * GET /api/v1/dashboard/rooms/:room_id/participants?cursor={created_at}_{participant_id}
+ */
+export const listParticipants = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const userId = req.user!.sub;
+    const { room_id } = req.params as Record<string, string>;
+    const { limit, cursor, status } = req.validated as {
+      limit: number;
+      cursor?: string;
+      status?: ParticipantStatus;
+    };
+
+    let after: ParticipantCursor | undefined;
+    if (cursor) {
+      const [createdAt, participantId] = cursor.split('_');
+      after = { created_at: new Date(createdAt), participant_id: participantId };
+      if (Number.isNaN(after.created_at.getTime())) {
+        throw new ValidationError('Invalid cursor');
+      }
+    }
+
+    const page = await roomService.listParticipants(room_id, userId, limit, after, status);
+    const next = page.next_cursor;
+
+    ResponseUtils.success(res, {
+      participants: page.participants.map((p) => ({
+        participant_id: p.participant_id,
+        anonymous_id: p.anonymous_id,
+        display_name: p.display_name,
+        public_key: p.public_key,
+        status: p.status,
+        is_creator: p.is_creator,
+        has_group_key: !!p.wrapped_group_key,
+        can_distribute_keys: p.can_distribute_keys,
+        joined_at: p.joined_at,
+        created_at: p.created_at,
+      })),
+      next_cursor: next ? `${new Date(next.created_at).toISOString()}_${next.participant_id}` : null,
+    });
+  }
+);
+
 /**
  * Approve participant
  * POST /api/v1/dashboard/rooms/:room_id/participants/:participant_id/approve
@@ -248,49 +336,17 @@ export const rejectParticipant = asyncHandler(
 );
 
 /**
- * Get participants needing keys (for auto-approve key distribution)
- * GET /api/v1/dashboard/rooms/:room_id/needs-keys
+ * Remove participant and rotate the room's group key
+ * POST /api/v1/dashboard/rooms/:room_id/participants/:participant_id/remove
  */
-export const getParticipantsNeedingKeys = asyncHandler(
-  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
-    const userId = req.user!.sub;
-    const { room_id } = req.params as Record<string, string>;
-
-    const participants = await roomService.getParticipantsNeedingKeys(room_id, userId);
-
-    const sanitized = participants.map((p) => ({
-      participant_id: p.participant_id,
-      anonymous_id: p.anonymous_id,
-      display_name: p.display_name,
-      public_key: p.public_key,
-      created_at: p.created_at,
-    }));
-
-    ResponseUtils.success(res, { participants: sanitized });
-  }
-);
-
-/**
- * Set wrapped key for a participant (for auto-approve key distribution)
- * POST /api/v1/dashboard/rooms/:room_id/participants/:participant_id/set-key
- */
-export const setParticipantKey = asyncHandler(
+export const removeParticipant = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     const userId = req.user!.sub;
     const { room_id, participant_id } = req.params as Record<string, string>;
-    const { wrapped_group_key } = req.validated as { wrapped_group_key: string };
+    const input = req.validated as RemoveParticipantInput;
 
-    const participant = await roomService.setParticipantWrappedKey(
-      room_id,
-      participant_id,
-      userId,
-      wrapped_group_key
-    );
+    const result = await keyService.removeParticipant(room_id, participant_id, userId, input);
 
-    ResponseUtils.success(res, {
-      participant_id: participant.participant_id,
-      status: participant.status,
-      joined_at: participant.joined_at,
-    });
+    ResponseUtils.success(res, result);
   }
 );
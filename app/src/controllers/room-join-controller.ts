@@ -6,11 +6,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { RoomService } from '../services/room-service';
 import { RoomInviteService, JoinRoomInput } from '../services/room-invite-service';
+import { RoomMessageService } from '../services/room-message-service';
 import { ResponseUtils } from '../utils/response-utils';
 import { asyncHandler } from '../middleware/error-middleware';
 
 const roomService = new RoomService();
 const inviteService = new RoomInviteService();
+const roomMessageService = new RoomMessageService();
 
 /**
  * Join room via invite token
@@ -137,13 +139,20 @@ export const getMessages = asyncHandler(
 export const sendMessage = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     const { room_id } = req.params as Record<string, string>;
-    const { anonymous_id, ciphertext, nonce } = req.validated as {
+    const { anonymous_id, ciphertext, nonce, key_epoch, attachment_ids } = req.validated as {
       anonymous_id: string;
       ciphertext: string;
       nonce: string;
+      key_epoch: number;
+      attachment_ids?: string[];
     };
 
-    const message = await roomService.sendMessage(room_id, anonymous_id, { ciphertext, nonce });
+    const message = await roomService.sendMessage(room_id, anonymous_id, {
+      ciphertext,
+      nonce,
+      key_epoch,
+      attachment_ids,
+    });
 
     ResponseUtils.success(
       res,
@@ -153,9 +162,64 @@ export const sendMessage = asyncHandler(
         anonymous_id: message.anonymous_id,
         ciphertext: message.ciphertext,
         nonce: message.nonce,
+        key_epoch: message.key_epoch,
         created_at: message.created_at,
       },
       201
     );
   }
 );
+
+/**
+ * Re-read one message (after an edit/delete event)
+ * GET /api/v1/rooms/:room_id/messages/:message_id
+ */
+export const getMessage = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { room_id, message_id } = req.params as Record<string, string>;
+    const { anonymous_id } = req.query as { anonymous_id: string };
+
+    const message = await roomMessageService.getMessage(room_id, message_id, anonymous_id);
+
+    ResponseUtils.success(res, message);
+  }
+);
+
+/**
+ * Edit own message (new ciphertext under the current key epoch)
+ * PATCH /api/v1/rooms/:room_id/messages/:message_id
+ */
+export const editMessage = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { room_id, message_id } = req.params as Record<string, string>;
+    const { anonymous_id, ciphertext, nonce, key_epoch } = req.validated as {
+      anonymous_id: string;
+      ciphertext: string;
+      nonce: string;
+      key_epoch: number;
+    };
+
+    const message = await roomMessageService.editMessage(room_id, message_id, anonymous_id, {
+      ciphertext,
+      nonce,
+      key_epoch,
+    });
+
+    ResponseUtils.success(res, message);
+  }
+);
+
+/**
+ * Unsend a message (author or room creator)
+ * DELETE /api/v1/rooms/:room_id/messages/:message_id
+ */
+export const deleteMessage = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { room_id, message_id } = req.params as Record<string, string>;
+    const { anonymous_id } = req.validated as { anonymous_id: string };
+
+    await roomMessageService.deleteMessage(room_id, message_id, anonymous_id);
+
+    res.status(204).send();
+  }
+);
@@ -0,0 +1,139 @@
+/**
+ * Room Key Distribution Controller
+ * First-key distribution by the room creator (dashboard) or a delegated
+ * member (public, identified by anonymous_id)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { RoomKeyDistributionService, KeyDistributor, SetKeysInput } from '../services/room-key-distribution-service';
+import { RoomParticipant } from '../models/room-participant-model';
+import { ResponseUtils } from '../utils/response-utils';
+import { asyncHandler } from '../middleware/error-middleware';
+
+const distributionService = new RoomKeyDistributionService();
+
+function needsKeysResponse(distributor: KeyDistributor, participants: RoomParticipant[]) {
+  return {
+    key_epoch: distributor.key_epoch,
+    participants: participants.map((p) => ({
+      participant_id: p.participant_id,
+      anonymous_id: p.anonymous_id,
+      display_name: p.display_name,
+      public_key: p.public_key,
+      created_at: p.created_at,
+    })),
+  };
+}
+
+/**
+ * Claim a batch of participants needing keys (for auto-approve key distribution)
+ * GET /api/v1/dashboard/rooms/:room_id/needs-keys
+ */
+export const getParticipantsNeedingKeys = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const userId = req.user!.sub;
+    const { room_id } = req.params as Record<string, string>;
+    const { limit } = req.validated as { limit: number };
+
+    const distributor = await distributionService.creator(room_id, userId);
+    const participants = await distributionService.claimNeedingKeys(distributor, limit);
+
+    ResponseUtils.success(res, needsKeysResponse(distributor, participants));
+  }
+);
+
+/**
+ * Set wrapped keys for a batch of participants
+ * POST /api/v1/dashboard/rooms/:room_id/set-keys
+ */
+export const setKeys = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const userId = req.user!.sub;
+    const { room_id } = req.params as Record<string, string>;
+
+    const distributor = await distributionService.creator(room_id, userId);
+    const result = await distributionService.setKeys(distributor, req.validated as SetKeysInput);
+
+    ResponseUtils.success(res, result);
+  }
+);
+
+/**
+ * Set wrapped key for a participant (for auto-approve key distribution)
+ * POST /api/v1/dashboard/rooms/:room_id/participants/:participant_id/set-key
+ */
+export const setParticipantKey = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const userId = req.user!.sub;
+    const { room_id, participant_id } = req.params as Record<string, string>;
+    const { wrapped_group_key } = req.validated as { wrapped_group_key: string };
+
+    const participant = await distributionService.setParticipantWrappedKey(
+      room_id,
+      participant_id,
+      userId,
+      wrapped_group_key
+    );
+
+    ResponseUtils.success(res, {
+      participant_id: participant.participant_id,
+      status: participant.status,
+      joined_at: participant.joined_at,
+    });
+  }
+);
+
+/**
+ * Grant (POST) or revoke (DELETE) a member's right to distribute keys
+ * /api/v1/dashboard/rooms/:room_id/participants/:participant_id/distributor
+ */
+export const setDistributor = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const userId = req.user!.sub;
+    const { room_id, participant_id } = req.params as Record<string, string>;
+
+    const participant = await distributionService.setDistributor(
+      room_id,
+      participant_id,
+      userId,
+      req.method === 'POST'
+    );
+
+    ResponseUtils.success(res, {
+      participant_id: participant.participant_id,
+      can_distribute_keys: participant.can_distribute_keys,
+    });
+  }
+);
+
+/**
+ * Claim a batch of participants needing keys, as a delegated member
+ * GET /api/v1/rooms/:room_id/needs-keys?anonymous_id=
+ */
+export const getDelegateNeedsKeys = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { room_id } = req.params as Record<string, string>;
+    const { anonymous_id, limit } = req.validated as { anonymous_id: string; limit: number };
+
+    const distributor = await distributionService.delegate(room_id, anonymous_id);
+    const participants = await distributionService.claimNeedingKeys(distributor, limit);
+
+    ResponseUtils.success(res, needsKeysResponse(distributor, participants));
+  }
+);
+
+/**
+ * Set wrapped keys for a batch of participants, as a delegated member
+ * POST /api/v1/rooms/:room_id/set-keys
+ */
+export const setDelegateKeys = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { room_id } = req.params as Record<string, string>;
+    const { anonymous_id, ...input } = req.validated as SetKeysInput & { anonymous_id: string };
+
+    const distributor = await distributionService.delegate(room_id, anonymous_id);
+    const result = await distributionService.setKeys(distributor, input);
+
+    ResponseUtils.success(res, result);
+  }
+);
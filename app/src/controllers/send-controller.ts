@@ -1,23 +1,24 @@
 /**
  * Send Controller
  * Handles anonymous message sending, public thread view, and OPSEC unlock
- * File size: ~240 lines
+ * File size: ~285 lines
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { MessageService } from '../services/message-service';
+import { MessageService, SendMessageInput } from '../services/message-service';
+import { SendChallengeService } from '../services/send-challenge-service';
+import { PassphraseGuardService } from '../services/passphrase-guard-service';
 import { ResponseUtils } from '../utils/response-utils';
 import { asyncHandler } from '../middleware/error-middleware';
 import { createSubsegment } from '../config/xray';
-import { getDb } from '../config/database';
 import { CryptoUtils } from '../utils/crypto-utils';
 import { TokenService } from '../services/token-service';
-import { ThreadModel } from '../models/thread-model';
-import { MessageModel } from '../models/message-model';
+import { getRepositories } from '../models/repositories';
+import { reaperService } from '../services/reaper-service';
 
 const messageService = new MessageService();
-const threadModel = new ThreadModel();
-const messageModel = new MessageModel();
+const sendChallengeService = new SendChallengeService();
+const passphraseGuardService = new PassphraseGuardService();
 
 /** Extract access token from header or query param */
 function getAccessToken(req: Request): string | undefined {
@@ -38,18 +39,17 @@ export const sendMessage = asyncHandler(
     const subsegment = createSubsegment('send_message');
 
     try {
-      const { recipient_link_id, ciphertext, sender_public_key, passphrase } = req.validated as {
-        recipient_link_id: string;
-        ciphertext: string;
-        sender_public_key: string;
-        passphrase?: string;
-      };
+      const { recipient_link_id, ciphertext, sender_public_key, passphrase, attachment_ids, pow } =
+        req.validated as SendMessageInput;
 
       const result = await messageService.sendAnonymousMessage({
         recipient_link_id,
         ciphertext,
         sender_public_key,
         passphrase,
+        attachment_ids,
+        pow,
+        client_ip: req.ip,
       });
 
       subsegment?.close();
@@ -81,10 +81,10 @@ export const sendMessage = asyncHandler(
 export const sendAnonymousReply = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     const { thread_id } = req.params as Record<string, string>;
-    const { ciphertext } = req.validated as { ciphertext: string };
+    const { ciphertext, attachment_ids } = req.validated as { ciphertext: string; attachment_ids?: string[] };
     const accessToken = getAccessToken(req);
 
-    const result = await messageService.sendAnonymousReply(thread_id, ciphertext, accessToken);
+    const result = await messageService.sendAnonymousReply(thread_id, ciphertext, accessToken, attachment_ids);
 
     ResponseUtils.success(res, {
       message_id: result.message_id,
@@ -102,7 +102,7 @@ export const getThreadPublic = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     const { thread_id } = req.params as Record<string, string>;
 
-    const thread = await threadModel.findById(thread_id);
+    const thread = await getRepositories().threads.findById(thread_id);
     if (!thread || thread.burned) {
       res.status(404).json({
         success: false,
@@ -149,7 +149,7 @@ export const getThreadPublic = asyncHandler(
       return;
     }
 
-    const messages = await messageModel.findByThreadId(thread_id, 100, 0);
+    const messages = await getRepositories().messages.findByThreadId(thread_id, 100, 0);
     ResponseUtils.success(res, {
       thread_id: thread.thread_id,
       created_at: thread.created_at,
@@ -174,7 +174,7 @@ export const unlockThread = asyncHandler(
     const { thread_id } = req.params as Record<string, string>;
     const { passphrase } = req.validated as { passphrase: string };
 
-    const thread = await threadModel.findById(thread_id);
+    const thread = await getRepositories().threads.findById(thread_id);
     if (!thread || thread.burned) {
       res.status(404).json({
         success: false,
@@ -200,14 +200,8 @@ export const unlockThread = asyncHandler(
       return;
     }
 
-    const isValid = await CryptoUtils.pbkdf2Verify(passphrase, thread.passphrase_hash, thread.passphrase_salt);
-    if (!isValid) {
-      res.status(401).json({
-        success: false,
-        error: { code: 'INVALID_PASSPHRASE', message: 'Incorrect passphrase.' },
-      });
-      return;
-    }
+    // INVALID_PASSPHRASE / LOCKED_OUT; enough failures burn the thread
+    await passphraseGuardService.verify({ scope: 'thread', thread }, passphrase);
 
     const unlockToken = TokenService.generateUnlockNonce(thread_id);
     ResponseUtils.success(res, {
@@ -232,6 +226,17 @@ export const getLinkMetadata = asyncHandler(
   }
 );
 
+/**
+ * Proof-of-work challenge for a send to this link
+ * GET /api/v1/challenge/:link_id
+ */
+export const getSendChallenge = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id } = req.params as Record<string, string>;
+    ResponseUtils.success(res, await sendChallengeService.issue(link_id));
+  }
+);
+
 /**
  * Shallow health check — used by ALB target group (no DB dependency)
  */
@@ -247,14 +252,20 @@ export const healthCheck = asyncHandler(
 /**
  * Deep health check — tests database connectivity (for monitoring/alerting only)
  * GET /health/ready
+ * Also reports the last reaper sweep by any worker (null if none has run yet).
  */
 export const readinessCheck = asyncHandler(
   async (_req: Request, res: Response, _next: NextFunction): Promise<void> => {
     try {
-      await getDb().query('SELECT 1');
+      await getRepositories().ping();
+      const lastSweep = await reaperService.getLastSweep().catch(() => null);
       ResponseUtils.success(res, {
         status: 'ready',
         database: 'connected',
+        reaper: lastSweep && {
+          last_sweep_at: lastSweep.last_sweep_at,
+          dry_run: lastSweep.dry_run,
+        },
         timestamp: new Date().toISOString(),
       });
     } catch {
@@ -96,9 +96,9 @@ export const replyToThread = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     const userId = req.user!.sub;
     const { thread_id } = req.params as Record<string, string>;
-    const { ciphertext } = req.validated as { ciphertext: string };
+    const { ciphertext, attachment_ids } = req.validated as { ciphertext: string; attachment_ids?: string[] };
 
-    const result = await messageService.sendOwnerReply(thread_id, userId, ciphertext);
+    const result = await messageService.sendOwnerReply(thread_id, userId, ciphertext, attachment_ids);
 
     ResponseUtils.success(res, result, 201);
   }
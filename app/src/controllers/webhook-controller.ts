@@ -0,0 +1,82 @@
+/**
+ * Webhook Controller
+ * Owner management of per-link webhook endpoints and their delivery log
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { WebhookService } from '../services/webhook-service';
+import { ResponseUtils } from '../utils/response-utils';
+import { asyncHandler } from '../middleware/error-middleware';
+
+const webhookService = new WebhookService();
+
+/**
+ * List webhooks on a link (secrets omitted)
+ * GET /api/v1/dashboard/links/:link_id/webhooks
+ */
+export const listWebhooks = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id } = req.params as Record<string, string>;
+
+    const webhooks = await webhookService.listWebhooks(link_id, req.user!.sub);
+
+    ResponseUtils.success(res, webhooks);
+  }
+);
+
+/**
+ * Register a webhook; the signing secret is returned only here
+ * POST /api/v1/dashboard/links/:link_id/webhooks
+ */
+export const createWebhook = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id } = req.params as Record<string, string>;
+    const { url } = req.validated as { url: string };
+
+    const webhook = await webhookService.createWebhook(link_id, req.user!.sub, url);
+
+    ResponseUtils.success(res, webhook, 201);
+  }
+);
+
+/**
+ * Delete a webhook and its delivery log
+ * DELETE /api/v1/dashboard/links/:link_id/webhooks/:webhook_id
+ */
+export const deleteWebhook = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id, webhook_id } = req.params as Record<string, string>;
+
+    await webhookService.deleteWebhook(link_id, webhook_id, req.user!.sub);
+
+    res.status(204).send();
+  }
+);
+
+/**
+ * Queue a test delivery
+ * POST /api/v1/dashboard/links/:link_id/webhooks/:webhook_id/test
+ */
+export const testWebhook = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id, webhook_id } = req.params as Record<string, string>;
+
+    const delivery = await webhookService.sendTest(link_id, webhook_id, req.user!.sub);
+
+    ResponseUtils.success(res, delivery, 202);
+  }
+);
+
+/**
+ * Recent deliveries, newest first
+ * GET /api/v1/dashboard/links/:link_id/webhooks/:webhook_id/deliveries
+ */
+export const getWebhookDeliveries = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { link_id, webhook_id } = req.params as Record<string, string>;
+
+    const deliveries = await webhookService.getDeliveries(link_id, webhook_id, req.user!.sub);
+
+    ResponseUtils.success(res, deliveries);
+  }
+);
@@ -1,13 +1,18 @@
 /**
  * Application Entry Point
- * File size: ~75 lines
+ * File size: ~80 lines
  */
 
 import dotenv from 'dotenv';
 import path from 'path';
 import { databaseConfig } from './config/database';
 import { initializeTracing } from './config/tracing';
-import { startServer } from './server';
+import { startServer, startMetricsServer, metricsListenOptions } from './server';
+import { answerMetricsRequests } from './config/metrics-cluster';
+import { reaperService } from './services/reaper-service';
+import { webhookDispatcher } from './services/webhook-dispatcher';
+import { broadcastScheduler } from './services/broadcast-scheduler';
+import { getDataStore, isMemoryStore } from './models/repositories';
 import { logger } from './config/logger';
 
 // Load environment variables (explicit path for PM2 cluster mode)
@@ -23,17 +28,42 @@ async function initialize(): Promise<void> {
     // Initialize OpenTelemetry tracing
     await initializeTracing();
 
-    // Initialize database connection
-    await databaseConfig.initialize();
-    logger.info('Database connected');
+    if (isMemoryStore()) {
+      // Nothing to connect to or migrate; expiry sweeps are Postgres functions
+      logger.warn('DATA_STORE=memory: data is not persisted and the reaper is disabled');
+    } else {
+      // Initialize database connection
+      await databaseConfig.initialize();
+      logger.info('Database connected');
+
+      // Schedule expired-resource sweeps (leader-elected across PM2 workers)
+      reaperService.start();
+    }
+
+    // Retry queued webhook deliveries (rows are leased, so every worker can drain)
+    webhookDispatcher.start();
+
+    // Publish scheduled broadcast posts and delete expired ones (rows are leased)
+    broadcastScheduler.start();
+
+    // Let whichever PM2 worker serves /metrics collect this worker's counters
+    answerMetricsRequests();
 
     // Start Express server
     const port = parseInt(process.env.PORT || '3000', 10);
     startServer(port);
 
+    // Prometheus scrape on an internal port, kept off the public listener
+    // (throws on a bad port or a missing token, which stops startup)
+    if (process.env.METRICS_PORT) {
+      const metricsListen = metricsListenOptions();
+      startMetricsServer(metricsListen.port, metricsListen.host);
+    }
+
     logger.info('Application initialized successfully', {
       port,
       environment: process.env.ENVIRONMENT,
+      data_store: getDataStore(),
     });
   } catch (error) {
     logger.error('Failed to initialize application', { error });
@@ -1,9 +1,10 @@
 /**
  * Authentication Middleware
- * JWT validation using aws-jwt-verify
- * File size: ~175 lines
+ * JWT validation using aws-jwt-verify, plus the static /metrics scrape token
+ * File size: ~205 lines
  */
 
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { CognitoJwtVerifier } from 'aws-jwt-verify';
 import { AuthenticationError } from '../utils/error-utils';
@@ -16,12 +17,22 @@ declare global {
       user?: {
         sub: string;
         email?: string;
+        /** Token iat (seconds); tokens from before a device revoke are refused */
+        issuedAt?: number;
       };
       id?: string;
+      /** Owner's device from X-Device-Id (see device-middleware.ts); null while registering one */
+      deviceId?: string | null;
     }
   }
 }
 
+/**
+ * Prefix of every owner (dashboard) route. Routers scope authenticateJWT to it
+ * so unknown paths fall through to the 404 handler instead of answering 401.
+ */
+export const DASHBOARD_PATH = '/api/v1/dashboard';
+
 // Create JWT verifier
 // https://docs.aws.amazon.com/cognito/latest/developerguide/amazon-cognito-user-pools-using-tokens-verifying-a-jwt.html
 const createVerifier = () => {
@@ -77,6 +88,7 @@ export async function authenticateJWT(
     req.user = {
       sub: payload.sub,
       email: typeof payload.email === 'string' ? payload.email : undefined,
+      issuedAt: payload.iat,
     };
 
     logger.debug('JWT validated successfully', {
@@ -134,3 +146,28 @@ export async function optionalAuthenticateJWT(
     next();
   }
 }
+
+/**
+ * Metrics scrape authentication
+ * Compares the bearer token with METRICS_TOKEN (hashed first so the
+ * timing-safe compare never sees different lengths)
+ */
+export function authenticateMetricsToken(req: Request, _res: Response, next: NextFunction): void {
+  // Read lazily — dotenv loads after module imports.
+  const expected = process.env.METRICS_TOKEN;
+  const authHeader = req.headers.authorization;
+
+  if (!expected || !authHeader || !authHeader.startsWith('Bearer ')) {
+    next(new AuthenticationError('Missing or invalid Authorization header'));
+    return;
+  }
+
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  if (!crypto.timingSafeEqual(digest(authHeader.substring(7)), digest(expected))) {
+    logger.warn('Metrics token rejected', { request_id: req.id });
+    next(new AuthenticationError('Invalid metrics token'));
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,39 @@
+/**
+ * Device Middleware
+ * Resolves X-Device-Id on dashboard requests (after authenticateJWT). Every
+ * dashboard route needs one of the owner's active devices: a missing or
+ * unknown id gets 403 DEVICE_REQUIRED, a revoked one 403 DEVICE_REVOKED (the
+ * browser wipes its keys and signs out). Only registering a device goes
+ * without one, and it still needs a session issued after the last revoke.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { DeviceService } from '../services/device-service';
+import { DASHBOARD_PATH } from './auth-middleware';
+
+export const DEVICE_HEADER = 'x-device-id';
+
+/** POST here registers the browser, so it is the one route without a device */
+export const DEVICE_REGISTRATION_PATH = `${DASHBOARD_PATH}/devices`;
+
+const deviceService = new DeviceService();
+
+export async function identifyDevice(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  // Every dashboard router mounts this; resolve once per request
+  if (req.deviceId !== undefined || !req.user) {
+    next();
+    return;
+  }
+
+  try {
+    if (req.method === 'POST' && `${req.baseUrl}${req.path}` === DEVICE_REGISTRATION_PATH) {
+      await deviceService.assertSessionActive(req.user.sub, req.user.issuedAt);
+      req.deviceId = null;
+    } else {
+      req.deviceId = await deviceService.identify(req.user.sub, req.header(DEVICE_HEADER), req.user.issuedAt);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
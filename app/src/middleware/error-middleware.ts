@@ -5,7 +5,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { AppError } from '../utils/error-utils';
+import { AppError, LockedOutError } from '../utils/error-utils';
 import { ResponseUtils } from '../utils/response-utils';
 import { LoggerUtils } from '../utils/logger-utils';
 
@@ -35,6 +35,10 @@ export function errorHandler(
       details = (error as unknown as { details: unknown }).details;
     }
 
+    if (error instanceof LockedOutError) {
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    }
+
     // Log operational errors as warnings, programming errors as errors
     if (error.isOperational) {
       LoggerUtils.logRequest('warn', message, {
@@ -8,6 +8,7 @@ import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../config/logger';
 import { getTraceId } from '../config/xray';
+import { metrics } from '../config/metrics';
 
 /**
  * Add request ID to all requests
@@ -51,6 +52,13 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
     return originalSend.call(this, data);
   };
 
+  // Latency histogram keyed by the matched route pattern, never the raw path,
+  // so link, thread and room IDs stay out of /metrics
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    metrics.observeRequest(req.method, route, res.statusCode, (Date.now() - startTime) / 1000);
+  });
+
   next();
 }
 
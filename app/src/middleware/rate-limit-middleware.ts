@@ -1,18 +1,20 @@
 /**
  * Rate Limit Middleware
- * Application-level rate limiting for authenticated endpoints
- * File size: ~95 lines
+ * Application-level rate limiting for authenticated and public endpoints.
+ * Limiters count in the shared store (rate-limit-store.ts) under the name
+ * given to sharedRateLimit, which is also their rate_limit_policies key.
+ * File size: ~225 lines
  */
 
-import rateLimit from 'express-rate-limit';
 import { Request, Response } from 'express';
+import { sharedRateLimit } from './rate-limit-store';
 import { RateLimitError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 
 /**
  * Rate limiter for authenticated endpoints (per user)
  */
-export const authenticatedRateLimiter = rateLimit({
+export const authenticatedRateLimiter = sharedRateLimit('authenticated', {
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 500, // 500 requests per window per user
   standardHeaders: true,
@@ -39,7 +41,7 @@ export const authenticatedRateLimiter = rateLimit({
 /**
  * Strict rate limiter for sensitive operations (e.g., link creation)
  */
-export const strictRateLimiter = rateLimit({
+export const strictRateLimiter = sharedRateLimit('strict', {
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 10, // 10 requests per hour
   standardHeaders: true,
@@ -63,7 +65,7 @@ export const strictRateLimiter = rateLimit({
  * Uses recipient_link_id (never IP) to protect sender anonymity.
  * WAF provides primary IP-based rate limiting; this limits per-link abuse.
  */
-export const publicRateLimiter = rateLimit({
+export const publicRateLimiter = sharedRateLimit('public_send', {
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 20, // 20 requests per 5 minutes per link
   standardHeaders: true,
@@ -74,12 +76,26 @@ export const publicRateLimiter = rateLimit({
   },
 });
 
+/**
+ * Flood backstop for proof-of-work challenges. Keys on the link in the URL,
+ * never IP, so anyone can use up a link's window: the ceiling sits far above
+ * real senders, and the per-link cost is paid at send time (publicRateLimiter,
+ * and a difficulty that rises with the link's volume).
+ */
+export const challengeRateLimiter = sharedRateLimit('send_challenge', {
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 1500, // 1500 challenges per 5 minutes per link (5 per second)
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => `challenge:${req.params.link_id ?? 'unknown'}`,
+});
+
 /**
  * Rate limiter for anonymous reply endpoint
  * Uses thread_id from URL params — limits per-thread reply rate.
  * No IP used; possession of thread_id is the auth.
  */
-export const anonymousReplyRateLimiter = rateLimit({
+export const anonymousReplyRateLimiter = sharedRateLimit('anonymous_reply', {
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 20, // 20 replies per 5 minutes per thread
   standardHeaders: true,
@@ -95,7 +111,7 @@ export const anonymousReplyRateLimiter = rateLimit({
  * Uses thread_id from URL — limits per-thread polling (60/5min ≈ every 5 sec).
  * No IP used; possession of thread_id is the auth.
  */
-export const threadViewRateLimiter = rateLimit({
+export const threadViewRateLimiter = sharedRateLimit('thread_view', {
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 120, // 120 requests per 5 minutes per thread (supports polling every 3 sec)
   standardHeaders: true,
@@ -110,10 +126,12 @@ export const threadViewRateLimiter = rateLimit({
  * Strict rate limiter for passphrase unlock attempts.
  * 5 attempts per 15 minutes per thread — prevents brute-force.
  * Keys on thread_id (never IP) to preserve anonymity.
+ * Fails closed: with the store down, attempts are refused rather than uncounted.
  */
-export const unlockRateLimiter = rateLimit({
+export const unlockRateLimiter = sharedRateLimit('unlock', {
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 5, // 5 attempts per 15 minutes per thread
+  passOnStoreError: false,
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: (req: Request) => {
@@ -126,7 +144,7 @@ export const unlockRateLimiter = rateLimit({
  * Per-channel guest post rate limit (15 posts/5min per channel regardless of IP).
  * Prevents any single channel from being flooded.
  */
-export const broadcastChannelPostRateLimiter = rateLimit({
+export const broadcastChannelPostRateLimiter = sharedRateLimit('broadcast_channel_post', {
   windowMs: 5 * 60 * 1000,
   max: 15,
   standardHeaders: true,
@@ -134,11 +152,24 @@ export const broadcastChannelPostRateLimiter = rateLimit({
   keyGenerator: (req: Request) => `bc-ch:${req.params.channel_id ?? 'unknown'}`,
 });
 
+/**
+ * Per-channel rate limit for editing, pinning and deleting posts
+ * (60 changes/5min per channel), separate from the posting budget so
+ * cleaning up after a flood is not itself blocked.
+ */
+export const broadcastPostChangeRateLimiter = sharedRateLimit('broadcast_post_change', {
+  windowMs: 5 * 60 * 1000,
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => `bc-edit:${req.params.channel_id ?? 'unknown'}`,
+});
+
 /**
  * Per-IP guest post rate limit (20 posts/5min across ALL channels from one IP).
  * Prevents one IP from spamming multiple channels.
  */
-export const broadcastGuestIpRateLimiter = rateLimit({
+export const broadcastGuestIpRateLimiter = sharedRateLimit('broadcast_guest_ip', {
   windowMs: 5 * 60 * 1000,
   max: 20,
   standardHeaders: true,
@@ -150,7 +181,7 @@ export const broadcastGuestIpRateLimiter = rateLimit({
  * Rate limiter for public broadcast feed (GET posts).
  * Keys by IP; handler does not log IP or identifiers (per broadcast design).
  */
-export const broadcastPostsRateLimiter = rateLimit({
+export const broadcastPostsRateLimiter = sharedRateLimit('broadcast_posts_read', {
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 200, // 200 reads per 15 min per IP
   standardHeaders: true,
@@ -160,3 +191,34 @@ export const broadcastPostsRateLimiter = rateLimit({
     throw new RateLimitError('Too many requests. Please try again later.');
   },
 });
+
+/**
+ * Rate limiter for reserving attachment uploads.
+ * Keys on the link or room the upload is for (never IP) to preserve anonymity.
+ */
+export const attachmentUploadRateLimiter = sharedRateLimit('attachment_upload', {
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 40, // 40 uploads per 5 minutes per link/room (4 per message)
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    const body = req.body as { link_id?: string; room_id?: string };
+    const scope = body?.room_id || body?.link_id;
+    return scope ? `attach:${scope}` : 'attach:unknown';
+  },
+});
+
+/**
+ * Rate limiter for attachment downloads.
+ * Uses attachment_id from URL — possession of the id is the auth.
+ */
+export const attachmentDownloadRateLimiter = sharedRateLimit('attachment_download', {
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 60, // 60 presigned GETs per 5 minutes per attachment
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    const id = (req.params as { attachment_id?: string })?.attachment_id;
+    return id ? `attach-get:${id}` : 'attach-get:unknown';
+  },
+});
@@ -0,0 +1,186 @@
+/**
+ * Attachment Model
+ * Database operations for encrypted attachment objects
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export interface Attachment {
+  attachment_id: string;
+  object_key: string;
+  link_id: string | null;
+  thread_id: string | null;
+  room_id: string | null;
+  size_bytes: number;
+  created_at: Date;
+}
+
+export interface CreateAttachmentData {
+  object_key: string;
+  link_id?: string;
+  room_id?: string;
+  size_bytes: number;
+}
+
+export type AttachmentScope = 'thread_id' | 'link_id' | 'room_id';
+
+/**
+ * Attachments whose owner is burned or gone, plus link uploads no message
+ * claimed within a day
+ */
+export const ORPHANED_ATTACHMENT = `
+  (a.thread_id IS NOT NULL AND NOT EXISTS
+    (SELECT 1 FROM threads t WHERE t.thread_id = a.thread_id AND t.burned = FALSE))
+  OR (a.link_id IS NOT NULL AND NOT EXISTS
+    (SELECT 1 FROM links l WHERE l.link_id = a.link_id AND l.burned = FALSE))
+  OR (a.room_id IS NOT NULL AND NOT EXISTS
+    (SELECT 1 FROM rooms r WHERE r.room_id = a.room_id AND r.burned = FALSE))
+  OR (a.link_id IS NOT NULL AND a.thread_id IS NULL
+    AND a.created_at < CURRENT_TIMESTAMP - INTERVAL '24 hours')`;
+
+/**
+ * Attachment storage (Postgres: AttachmentModel; in-memory: models/memory).
+ * The orphan sweep stays Postgres-only: it runs inside the reaper's transaction.
+ */
+export interface AttachmentRepository {
+  create(data: CreateAttachmentData): Promise<Attachment>;
+  findById(attachmentId: string): Promise<Attachment | null>;
+  countUnclaimed(attachmentIds: string[], linkId: string): Promise<number>;
+  claimForThread(attachmentIds: string[], linkId: string, threadId: string): Promise<number>;
+  countInRoom(attachmentIds: string[], roomId: string): Promise<number>;
+  findObjectKeys(scope: AttachmentScope, id: string): Promise<string[]>;
+  deleteByObjectKeys(objectKeys: string[]): Promise<number>;
+}
+
+export class AttachmentModel implements AttachmentRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async create(data: CreateAttachmentData): Promise<Attachment> {
+    const query = `
+      INSERT INTO attachments (object_key, link_id, room_id, size_bytes)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [
+        data.object_key,
+        data.link_id || null,
+        data.room_id || null,
+        data.size_bytes,
+      ]);
+      return result.rows[0] as Attachment;
+    } catch (error) {
+      logger.error('Failed to create attachment', { error });
+      throw new DatabaseError('Failed to create attachment', error as Error);
+    }
+  }
+
+  async findById(attachmentId: string): Promise<Attachment | null> {
+    try {
+      const result = await this.db.query(
+        'SELECT * FROM attachments WHERE attachment_id = $1',
+        [attachmentId]
+      );
+      return (result.rows[0] as Attachment) || null;
+    } catch (error) {
+      logger.error('Failed to find attachment', { error, attachment_id: attachmentId });
+      throw new DatabaseError('Failed to find attachment', error as Error);
+    }
+  }
+
+  async countUnclaimed(attachmentIds: string[], linkId: string): Promise<number> {
+    try {
+      const result = await this.db.query(
+        `SELECT COUNT(*) AS count FROM attachments
+         WHERE attachment_id = ANY($1::uuid[]) AND link_id = $2 AND thread_id IS NULL`,
+        [attachmentIds, linkId]
+      );
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count unclaimed attachments', { error, link_id: linkId });
+      throw new DatabaseError('Failed to count attachments', error as Error);
+    }
+  }
+
+  /**
+   * Bind link uploads to a thread. Only unclaimed uploads for the same link
+   * (or ones already bound to this thread) match; returns how many did.
+   */
+  async claimForThread(attachmentIds: string[], linkId: string, threadId: string): Promise<number> {
+    const query = `
+      UPDATE attachments SET thread_id = $3
+      WHERE attachment_id = ANY($1::uuid[]) AND link_id = $2
+        AND (thread_id IS NULL OR thread_id = $3)
+    `;
+
+    try {
+      const result = await this.db.query(query, [attachmentIds, linkId, threadId]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to claim attachments', { error, thread_id: threadId });
+      throw new DatabaseError('Failed to claim attachments', error as Error);
+    }
+  }
+
+  async countInRoom(attachmentIds: string[], roomId: string): Promise<number> {
+    try {
+      const result = await this.db.query(
+        'SELECT COUNT(*) AS count FROM attachments WHERE attachment_id = ANY($1::uuid[]) AND room_id = $2',
+        [attachmentIds, roomId]
+      );
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count room attachments', { error, room_id: roomId });
+      throw new DatabaseError('Failed to count attachments', error as Error);
+    }
+  }
+
+  /**
+   * Object keys of every attachment for a link, thread or room
+   */
+  async findObjectKeys(scope: AttachmentScope, id: string): Promise<string[]> {
+    try {
+      const result = await this.db.query(
+        `SELECT object_key FROM attachments WHERE ${scope} = $1`,
+        [id]
+      );
+      return result.rows.map((r: { object_key: string }) => r.object_key);
+    } catch (error) {
+      logger.error('Failed to find attachments', { error, [scope]: id });
+      throw new DatabaseError('Failed to find attachments', error as Error);
+    }
+  }
+
+  /**
+   * Object keys of orphaned attachments, locked for the caller's transaction
+   */
+  async findOrphanedKeys(client: PoolClient): Promise<string[]> {
+    const result = await client.query(
+      `SELECT object_key FROM attachments a WHERE ${ORPHANED_ATTACHMENT} FOR UPDATE SKIP LOCKED`
+    );
+    return result.rows.map((r: { object_key: string }) => r.object_key);
+  }
+
+  /**
+   * Delete rows once their objects are gone from storage
+   */
+  async deleteByObjectKeys(objectKeys: string[], client?: PoolClient): Promise<number> {
+    if (objectKeys.length === 0) return 0;
+    try {
+      const result = await (client || this.db).query(
+        'DELETE FROM attachments WHERE object_key = ANY($1)',
+        [objectKeys]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to delete attachments', { error, count: objectKeys.length });
+      throw new DatabaseError('Failed to delete attachments', error as Error);
+    }
+  }
+}
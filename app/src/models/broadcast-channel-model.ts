@@ -18,6 +18,9 @@ export interface BroadcastChannel {
   owner_user_id: string | null;
   qr_code_url: string | null;
   allow_guest_posts: boolean;
+  moderate_guest_posts: boolean; // Guest posts wait in a queue for the owner
+  public_feed: boolean; // Plaintext posts, served as Atom/RSS/JSON feeds
+  feed_updated_at: Date; // Last change to the published posts (trigger in 027)
 }
 
 export interface CreateBroadcastChannelData {
@@ -28,9 +31,28 @@ export interface CreateBroadcastChannelData {
   owner_user_id?: string | null;
   qr_code_url?: string | null;
   allow_guest_posts?: boolean;
+  moderate_guest_posts?: boolean;
+  public_feed?: boolean;
 }
 
-export class BroadcastChannelModel {
+/**
+ * Broadcast channel storage (Postgres: BroadcastChannelModel; in-memory: models/memory)
+ */
+export interface BroadcastChannelRepository {
+  create(data: CreateBroadcastChannelData): Promise<BroadcastChannel>;
+  findByChannelId(channelId: string): Promise<BroadcastChannel | null>;
+  findByOwnerUserId(userId: string): Promise<BroadcastChannel[]>;
+  delete(channelId: string, ownerUserId: string): Promise<boolean>;
+  burn(channelId: string): Promise<void>;
+  setModeration(channelId: string, moderateGuestPosts: boolean): Promise<void>;
+  /** Auto-approve allowlist of guest posting keys (SHA-256 hashes) */
+  isTrustedGuest(channelId: string, guestKeyHash: string): Promise<boolean>;
+  trustGuests(channelId: string, guestKeyHashes: string[]): Promise<number>;
+  countTrustedGuests(channelId: string): Promise<number>;
+  clearTrustedGuests(channelId: string): Promise<void>;
+}
+
+export class BroadcastChannelModel implements BroadcastChannelRepository {
   private get db(): Pool {
     return getDb();
   }
@@ -38,9 +60,10 @@ export class BroadcastChannelModel {
   async create(data: CreateBroadcastChannelData): Promise<BroadcastChannel> {
     const query = `
       INSERT INTO broadcast_channels (
-        channel_id, post_token_hash, display_name, expires_at, owner_user_id, qr_code_url, allow_guest_posts
+        channel_id, post_token_hash, display_name, expires_at, owner_user_id, qr_code_url, allow_guest_posts,
+        moderate_guest_posts, public_feed
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       RETURNING *
     `;
 
@@ -53,6 +76,8 @@ export class BroadcastChannelModel {
         data.owner_user_id ?? null,
         data.qr_code_url ?? null,
         data.allow_guest_posts ?? false,
+        data.moderate_guest_posts ?? false,
+        data.public_feed ?? false,
       ]);
       return result.rows[0] as BroadcastChannel;
     } catch (error) {
@@ -120,4 +145,66 @@ export class BroadcastChannelModel {
       throw new DatabaseError('Failed to burn channel', error as Error);
     }
   }
+
+  async setModeration(channelId: string, moderateGuestPosts: boolean): Promise<void> {
+    const query = 'UPDATE broadcast_channels SET moderate_guest_posts = $2 WHERE channel_id = $1';
+
+    try {
+      await this.db.query(query, [channelId, moderateGuestPosts]);
+    } catch (error) {
+      logger.error('Failed to update broadcast moderation', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to update channel', error as Error);
+    }
+  }
+
+  async isTrustedGuest(channelId: string, guestKeyHash: string): Promise<boolean> {
+    const query = 'SELECT 1 FROM broadcast_trusted_guests WHERE channel_id = $1 AND guest_key_hash = $2';
+
+    try {
+      const result = await this.db.query(query, [channelId, guestKeyHash]);
+      return result.rows.length > 0;
+    } catch (error) {
+      logger.error('Failed to check trusted guest', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to check trusted guest', error as Error);
+    }
+  }
+
+  async trustGuests(channelId: string, guestKeyHashes: string[]): Promise<number> {
+    const query = `
+      INSERT INTO broadcast_trusted_guests (channel_id, guest_key_hash)
+      SELECT $1, unnest($2::text[])
+      ON CONFLICT DO NOTHING
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId, guestKeyHashes]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to trust guests', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to trust guests', error as Error);
+    }
+  }
+
+  async countTrustedGuests(channelId: string): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM broadcast_trusted_guests WHERE channel_id = $1';
+
+    try {
+      const result = await this.db.query(query, [channelId]);
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count trusted guests', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to count trusted guests', error as Error);
+    }
+  }
+
+  async clearTrustedGuests(channelId: string): Promise<void> {
+    const query = 'DELETE FROM broadcast_trusted_guests WHERE channel_id = $1';
+
+    try {
+      await this.db.query(query, [channelId]);
+    } catch (error) {
+      logger.error('Failed to clear trusted guests', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to clear trusted guests', error as Error);
+    }
+  }
 }
@@ -8,32 +8,86 @@ import { getDb } from '../config/database';
 import { DatabaseError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 
+export type BroadcastPostStatus = 'published' | 'pending' | 'scheduled';
+
 export interface BroadcastPost {
   post_id: string;
   channel_id: string;
   content: string;
   created_at: Date;
+  edited_at: Date | null;
+  pinned_at: Date | null; // Pinned posts lead the first page
+  status: BroadcastPostStatus; // Pending guest posts are seen only by the owner
+  guest_key_hash: string | null;
+  author_token_id: string | null; // Scoped token that added it; shown to the owner only
+  publish_at: Date | null; // Set on posts written ahead; status is 'scheduled' until then
+  expires_at: Date | null; // Hidden from the feed from then on, deleted by the scheduler
 }
 
 export interface CreateBroadcastPostData {
   channel_id: string;
   content: string;
+  status?: BroadcastPostStatus;
+  guest_key_hash?: string | null;
+  author_token_id?: string | null;
+  publish_at?: Date | null;
+  expires_at?: Date | null;
+}
+
+export interface UpdateBroadcastPostData {
+  content?: string;
+  pinned?: boolean;
+}
+
+/**
+ * Broadcast post storage (Postgres: BroadcastPostModel; in-memory: models/memory)
+ */
+export interface BroadcastPostRepository {
+  create(data: CreateBroadcastPostData): Promise<BroadcastPost>;
+  listByChannelId(channelId: string, limit?: number, beforePostId?: string): Promise<BroadcastPost[]>;
+  findPostById(postId: string): Promise<{ created_at: Date } | null>;
+  findInChannel(channelId: string, postId: string): Promise<BroadcastPost | null>;
+  countPinned(channelId: string): Promise<number>;
+  /** New content sets edited_at; pinning keeps an existing pinned_at */
+  update(channelId: string, postId: string, data: UpdateBroadcastPostData): Promise<BroadcastPost | null>;
+  delete(channelId: string, postId: string): Promise<boolean>;
+  /** Moderation queue, oldest first */
+  listPending(channelId: string, limit: number): Promise<BroadcastPost[]>;
+  countPending(channelId: string): Promise<number>;
+  /** Publishes the named pending posts; returns those that were pending */
+  approvePending(channelId: string, postIds: string[]): Promise<BroadcastPost[]>;
+  /** Deletes the named pending posts; returns how many were pending */
+  rejectPending(channelId: string, postIds: string[]): Promise<number>;
+  /** Owner view of posts written ahead, soonest first */
+  listScheduled(channelId: string, limit: number): Promise<BroadcastPost[]>;
+  /** Publishes scheduled posts that are due (created_at becomes now); returns them */
+  publishDue(limit: number): Promise<BroadcastPost[]>;
+  /** Deletes posts past their expires_at; returns what was deleted */
+  deleteExpired(limit: number): Promise<Array<{ channel_id: string; post_id: string }>>;
 }
 
-export class BroadcastPostModel {
+export class BroadcastPostModel implements BroadcastPostRepository {
   private get db(): Pool {
     return getDb();
   }
 
   async create(data: CreateBroadcastPostData): Promise<BroadcastPost> {
     const query = `
-      INSERT INTO broadcast_posts (channel_id, content)
-      VALUES ($1, $2)
+      INSERT INTO broadcast_posts (channel_id, content, status, guest_key_hash, author_token_id, publish_at, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
       RETURNING *
     `;
 
     try {
-      const result = await this.db.query(query, [data.channel_id, data.content]);
+      const result = await this.db.query(query, [
+        data.channel_id,
+        data.content,
+        data.status ?? 'published',
+        data.guest_key_hash ?? null,
+        data.author_token_id ?? null,
+        data.publish_at ?? null,
+        data.expires_at ?? null,
+      ]);
       return result.rows[0] as BroadcastPost;
     } catch (error) {
       logger.error('Failed to create broadcast post', { error, channel_id: data.channel_id });
@@ -42,7 +96,9 @@ export class BroadcastPostModel {
   }
 
   /**
-   * List posts newest first; optional cursor before=<post_id>
+   * List published, unexpired posts newest first, pinned posts (newest pin first)
+   * ahead of the rest; optional cursor before=<post_id>. Pages after a cursor hold
+   * only unpinned posts; a pinned cursor starts them from the newest.
    */
   async listByChannelId(
     channelId: string,
@@ -54,21 +110,24 @@ export class BroadcastPostModel {
 
     if (beforePostId) {
       query = `
-        SELECT * FROM broadcast_posts
-        WHERE channel_id = $1 AND post_id != $2
-        AND (created_at, post_id) < (
-          SELECT created_at, post_id FROM broadcast_posts
+        WITH cursor_post AS (
+          SELECT created_at, post_id, pinned_at FROM broadcast_posts
           WHERE channel_id = $1 AND post_id = $2
         )
-        ORDER BY created_at DESC, post_id DESC
+        SELECT p.* FROM broadcast_posts p, cursor_post c
+        WHERE p.channel_id = $1 AND p.post_id != $2 AND p.pinned_at IS NULL AND p.status = 'published'
+        AND (p.expires_at IS NULL OR p.expires_at > CURRENT_TIMESTAMP)
+        AND (c.pinned_at IS NOT NULL OR (p.created_at, p.post_id) < (c.created_at, c.post_id))
+        ORDER BY p.created_at DESC, p.post_id DESC
         LIMIT $3
       `;
       params = [channelId, beforePostId, limit];
     } else {
       query = `
         SELECT * FROM broadcast_posts
-        WHERE channel_id = $1
-        ORDER BY created_at DESC, post_id DESC
+        WHERE channel_id = $1 AND status = 'published'
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+        ORDER BY pinned_at DESC NULLS LAST, created_at DESC, post_id DESC
         LIMIT $2
       `;
       params = [channelId, limit];
@@ -94,4 +153,185 @@ export class BroadcastPostModel {
       throw new DatabaseError('Failed to find post', error as Error);
     }
   }
+
+  async findInChannel(channelId: string, postId: string): Promise<BroadcastPost | null> {
+    const query = 'SELECT * FROM broadcast_posts WHERE channel_id = $1 AND post_id = $2';
+
+    try {
+      const result = await this.db.query(query, [channelId, postId]);
+      return (result.rows[0] as BroadcastPost) || null;
+    } catch (error) {
+      logger.error('Failed to find broadcast post', { error, post_id: postId });
+      throw new DatabaseError('Failed to find post', error as Error);
+    }
+  }
+
+  async countPinned(channelId: string): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM broadcast_posts WHERE channel_id = $1 AND pinned_at IS NOT NULL';
+
+    try {
+      const result = await this.db.query(query, [channelId]);
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count pinned broadcast posts', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to count pinned posts', error as Error);
+    }
+  }
+
+  async update(channelId: string, postId: string, data: UpdateBroadcastPostData): Promise<BroadcastPost | null> {
+    const query = `
+      UPDATE broadcast_posts
+      SET content = COALESCE($3, content),
+          edited_at = CASE WHEN $3::text IS NULL THEN edited_at ELSE CURRENT_TIMESTAMP END,
+          pinned_at = CASE
+            WHEN $4::boolean IS NULL THEN pinned_at
+            WHEN $4 THEN COALESCE(pinned_at, CURRENT_TIMESTAMP)
+            ELSE NULL
+          END
+      WHERE channel_id = $1 AND post_id = $2
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId, postId, data.content ?? null, data.pinned ?? null]);
+      return (result.rows[0] as BroadcastPost) || null;
+    } catch (error) {
+      logger.error('Failed to update broadcast post', { error, post_id: postId });
+      throw new DatabaseError('Failed to update post', error as Error);
+    }
+  }
+
+  async delete(channelId: string, postId: string): Promise<boolean> {
+    const query = 'DELETE FROM broadcast_posts WHERE channel_id = $1 AND post_id = $2';
+
+    try {
+      const result = await this.db.query(query, [channelId, postId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Failed to delete broadcast post', { error, post_id: postId });
+      throw new DatabaseError('Failed to delete post', error as Error);
+    }
+  }
+
+  async listPending(channelId: string, limit: number): Promise<BroadcastPost[]> {
+    const query = `
+      SELECT * FROM broadcast_posts
+      WHERE channel_id = $1 AND status = 'pending'
+      ORDER BY created_at ASC, post_id ASC
+      LIMIT $2
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId, limit]);
+      return result.rows as BroadcastPost[];
+    } catch (error) {
+      logger.error('Failed to list pending broadcast posts', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to list pending posts', error as Error);
+    }
+  }
+
+  async countPending(channelId: string): Promise<number> {
+    const query = `SELECT COUNT(*) as count FROM broadcast_posts WHERE channel_id = $1 AND status = 'pending'`;
+
+    try {
+      const result = await this.db.query(query, [channelId]);
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count pending broadcast posts', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to count pending posts', error as Error);
+    }
+  }
+
+  async approvePending(channelId: string, postIds: string[]): Promise<BroadcastPost[]> {
+    const query = `
+      UPDATE broadcast_posts SET status = 'published'
+      WHERE channel_id = $1 AND post_id = ANY($2::uuid[]) AND status = 'pending'
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId, postIds]);
+      return result.rows as BroadcastPost[];
+    } catch (error) {
+      logger.error('Failed to approve broadcast posts', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to approve posts', error as Error);
+    }
+  }
+
+  async rejectPending(channelId: string, postIds: string[]): Promise<number> {
+    const query = `
+      DELETE FROM broadcast_posts
+      WHERE channel_id = $1 AND post_id = ANY($2::uuid[]) AND status = 'pending'
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId, postIds]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to reject broadcast posts', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to reject posts', error as Error);
+    }
+  }
+
+  async listScheduled(channelId: string, limit: number): Promise<BroadcastPost[]> {
+    const query = `
+      SELECT * FROM broadcast_posts
+      WHERE channel_id = $1 AND status = 'scheduled'
+      ORDER BY publish_at ASC, post_id ASC
+      LIMIT $2
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId, limit]);
+      return result.rows as BroadcastPost[];
+    } catch (error) {
+      logger.error('Failed to list scheduled broadcast posts', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to list scheduled posts', error as Error);
+    }
+  }
+
+  /** Rows are leased with SKIP LOCKED, so concurrent workers publish each post once */
+  async publishDue(limit: number): Promise<BroadcastPost[]> {
+    const query = `
+      UPDATE broadcast_posts SET status = 'published', created_at = CURRENT_TIMESTAMP
+      WHERE post_id IN (
+        SELECT post_id FROM broadcast_posts
+        WHERE status = 'scheduled' AND publish_at <= CURRENT_TIMESTAMP
+        ORDER BY publish_at ASC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [limit]);
+      return result.rows as BroadcastPost[];
+    } catch (error) {
+      logger.error('Failed to publish scheduled broadcast posts', { error });
+      throw new DatabaseError('Failed to publish scheduled posts', error as Error);
+    }
+  }
+
+  async deleteExpired(limit: number): Promise<Array<{ channel_id: string; post_id: string }>> {
+    const query = `
+      DELETE FROM broadcast_posts
+      WHERE post_id IN (
+        SELECT post_id FROM broadcast_posts
+        WHERE expires_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP
+        ORDER BY expires_at ASC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING channel_id, post_id
+    `;
+
+    try {
+      const result = await this.db.query(query, [limit]);
+      return result.rows as Array<{ channel_id: string; post_id: string }>;
+    } catch (error) {
+      logger.error('Failed to delete expired broadcast posts', { error });
+      throw new DatabaseError('Failed to delete expired posts', error as Error);
+    }
+  }
 }
@@ -0,0 +1,128 @@
+/**
+ * Broadcast Token Model
+ * Database operations for named, scoped broadcast post tokens
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export type BroadcastTokenScope = 'post' | 'moderate' | 'burn';
+
+export interface BroadcastToken {
+  token_id: string;
+  channel_id: string;
+  label: string;
+  token_hash: string;
+  scopes: BroadcastTokenScope[];
+  expires_at: Date | null;
+  revoked_at: Date | null; // Revoked tokens stay so past posts keep their label
+  created_at: Date;
+}
+
+export interface CreateBroadcastTokenData {
+  channel_id: string;
+  label: string;
+  token_hash: string;
+  scopes: BroadcastTokenScope[];
+  expires_at?: Date | null;
+}
+
+/**
+ * Broadcast token storage (Postgres: BroadcastTokenModel; in-memory: models/memory)
+ */
+export interface BroadcastTokenRepository {
+  create(data: CreateBroadcastTokenData): Promise<BroadcastToken>;
+  /** Any token of the channel with this hash, revoked or expired included */
+  findByHash(channelId: string, tokenHash: string): Promise<BroadcastToken | null>;
+  /** Oldest first */
+  listByChannelId(channelId: string): Promise<BroadcastToken[]>;
+  /** Neither revoked nor expired */
+  countActive(channelId: string): Promise<number>;
+  /** Returns false if there is no such unrevoked token */
+  revoke(channelId: string, tokenId: string): Promise<boolean>;
+}
+
+export class BroadcastTokenModel implements BroadcastTokenRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async create(data: CreateBroadcastTokenData): Promise<BroadcastToken> {
+    const query = `
+      INSERT INTO broadcast_tokens (channel_id, label, token_hash, scopes, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [
+        data.channel_id,
+        data.label,
+        data.token_hash,
+        data.scopes,
+        data.expires_at ?? null,
+      ]);
+      return result.rows[0] as BroadcastToken;
+    } catch (error) {
+      logger.error('Failed to create broadcast token', { error, channel_id: data.channel_id });
+      throw new DatabaseError('Failed to create token', error as Error);
+    }
+  }
+
+  async findByHash(channelId: string, tokenHash: string): Promise<BroadcastToken | null> {
+    const query = 'SELECT * FROM broadcast_tokens WHERE channel_id = $1 AND token_hash = $2';
+
+    try {
+      const result = await this.db.query(query, [channelId, tokenHash]);
+      return (result.rows[0] as BroadcastToken) || null;
+    } catch (error) {
+      logger.error('Failed to find broadcast token', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to find token', error as Error);
+    }
+  }
+
+  async listByChannelId(channelId: string): Promise<BroadcastToken[]> {
+    const query = 'SELECT * FROM broadcast_tokens WHERE channel_id = $1 ORDER BY created_at ASC';
+
+    try {
+      const result = await this.db.query(query, [channelId]);
+      return result.rows as BroadcastToken[];
+    } catch (error) {
+      logger.error('Failed to list broadcast tokens', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to list tokens', error as Error);
+    }
+  }
+
+  async countActive(channelId: string): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count FROM broadcast_tokens
+      WHERE channel_id = $1 AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId]);
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count broadcast tokens', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to count tokens', error as Error);
+    }
+  }
+
+  async revoke(channelId: string, tokenId: string): Promise<boolean> {
+    const query = `
+      UPDATE broadcast_tokens SET revoked_at = CURRENT_TIMESTAMP
+      WHERE channel_id = $1 AND token_id = $2 AND revoked_at IS NULL
+    `;
+
+    try {
+      const result = await this.db.query(query, [channelId, tokenId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Failed to revoke broadcast token', { error, channel_id: channelId });
+      throw new DatabaseError('Failed to revoke token', error as Error);
+    }
+  }
+}
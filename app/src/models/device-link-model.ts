@@ -0,0 +1,150 @@
+/**
+ * Device Link Model
+ * Short-lived pairing mailbox: a new device's ephemeral public key, and the
+ * key bundle an existing device encrypted to it
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export interface DeviceLinkSession {
+  session_id: string;
+  user_id: string;
+  device_id: string;
+  pairing_code: string;
+  public_key: string;
+  bundle: string | null;
+  sender_device_id: string | null;
+  delivered_at: Date | null;
+  expires_at: Date;
+  created_at: Date;
+}
+
+export interface CreateDeviceLinkData {
+  user_id: string;
+  device_id: string;
+  pairing_code: string;
+  public_key: string;
+  expires_at: Date;
+}
+
+/**
+ * Pairing mailbox storage (Postgres: DeviceLinkModel; in-memory: models/memory)
+ */
+export interface DeviceLinkRepository {
+  /** Open a session, replacing any the device (or the same code) already had */
+  create(data: CreateDeviceLinkData): Promise<DeviceLinkSession>;
+  findById(sessionId: string): Promise<DeviceLinkSession | null>;
+  /** Unexpired session still waiting for its bundle */
+  findWaitingByCode(userId: string, pairingCode: string): Promise<DeviceLinkSession | null>;
+  /** Drop the bundle in; null if the session is gone, expired or already filled */
+  deliver(sessionId: string, senderDeviceId: string, bundle: string): Promise<DeviceLinkSession | null>;
+  /** Delete a delivered session and return it, so the bundle is handed out once */
+  take(sessionId: string): Promise<DeviceLinkSession | null>;
+  deleteByDeviceId(deviceId: string): Promise<number>;
+}
+
+export class DeviceLinkModel implements DeviceLinkRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async create(data: CreateDeviceLinkData): Promise<DeviceLinkSession> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'DELETE FROM device_link_sessions WHERE device_id = $1 OR (user_id = $2 AND pairing_code = $3)',
+        [data.device_id, data.user_id, data.pairing_code]
+      );
+      const result = await client.query(
+        `INSERT INTO device_link_sessions (user_id, device_id, pairing_code, public_key, expires_at)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [data.user_id, data.device_id, data.pairing_code, data.public_key, data.expires_at]
+      );
+      await client.query('COMMIT');
+      return result.rows[0] as DeviceLinkSession;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to create device link session', { error, device_id: data.device_id });
+      throw new DatabaseError('Failed to create device link session', error as Error);
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(sessionId: string): Promise<DeviceLinkSession | null> {
+    try {
+      const result = await this.db.query(
+        'SELECT * FROM device_link_sessions WHERE session_id = $1',
+        [sessionId]
+      );
+      return (result.rows[0] as DeviceLinkSession) || null;
+    } catch (error) {
+      logger.error('Failed to find device link session', { error, session_id: sessionId });
+      throw new DatabaseError('Failed to find device link session', error as Error);
+    }
+  }
+
+  async findWaitingByCode(userId: string, pairingCode: string): Promise<DeviceLinkSession | null> {
+    const query = `
+      SELECT * FROM device_link_sessions
+      WHERE user_id = $1 AND pairing_code = $2
+        AND bundle IS NULL AND expires_at > CURRENT_TIMESTAMP
+    `;
+
+    try {
+      const result = await this.db.query(query, [userId, pairingCode]);
+      return (result.rows[0] as DeviceLinkSession) || null;
+    } catch (error) {
+      logger.error('Failed to find device link session', { error, user_id: userId });
+      throw new DatabaseError('Failed to find device link session', error as Error);
+    }
+  }
+
+  async deliver(sessionId: string, senderDeviceId: string, bundle: string): Promise<DeviceLinkSession | null> {
+    const query = `
+      UPDATE device_link_sessions
+      SET bundle = $3, sender_device_id = $2, delivered_at = CURRENT_TIMESTAMP
+      WHERE session_id = $1 AND bundle IS NULL AND expires_at > CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [sessionId, senderDeviceId, bundle]);
+      return (result.rows[0] as DeviceLinkSession) || null;
+    } catch (error) {
+      logger.error('Failed to deliver device link bundle', { error, session_id: sessionId });
+      throw new DatabaseError('Failed to deliver device link bundle', error as Error);
+    }
+  }
+
+  async take(sessionId: string): Promise<DeviceLinkSession | null> {
+    try {
+      const result = await this.db.query(
+        'DELETE FROM device_link_sessions WHERE session_id = $1 AND bundle IS NOT NULL RETURNING *',
+        [sessionId]
+      );
+      return (result.rows[0] as DeviceLinkSession) || null;
+    } catch (error) {
+      logger.error('Failed to collect device link bundle', { error, session_id: sessionId });
+      throw new DatabaseError('Failed to collect device link bundle', error as Error);
+    }
+  }
+
+  async deleteByDeviceId(deviceId: string): Promise<number> {
+    try {
+      const result = await this.db.query(
+        'DELETE FROM device_link_sessions WHERE device_id = $1',
+        [deviceId]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to delete device link sessions', { error, device_id: deviceId });
+      throw new DatabaseError('Failed to delete device link sessions', error as Error);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Device Model
+ * Database operations for the browsers an owner signs in from
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export interface Device {
+  device_id: string;
+  user_id: string;
+  name: string;
+  created_at: Date;
+  last_seen_at: Date;
+  revoked_at: Date | null;
+}
+
+/**
+ * Device storage (Postgres: DeviceModel; in-memory: models/memory)
+ */
+export interface DeviceRepository {
+  create(userId: string, name: string): Promise<Device>;
+  findById(deviceId: string): Promise<Device | null>;
+  findByUserId(userId: string): Promise<Device[]>;
+  countActiveByUserId(userId: string): Promise<number>;
+  /** Bump last_seen_at, at most once per `intervalSeconds` */
+  touch(deviceId: string, intervalSeconds: number): Promise<void>;
+  /** Mark revoked; false if already revoked or missing */
+  revoke(deviceId: string): Promise<boolean>;
+}
+
+export class DeviceModel implements DeviceRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async create(userId: string, name: string): Promise<Device> {
+    try {
+      const result = await this.db.query(
+        'INSERT INTO user_devices (user_id, name) VALUES ($1, $2) RETURNING *',
+        [userId, name]
+      );
+      return result.rows[0] as Device;
+    } catch (error) {
+      logger.error('Failed to create device', { error, user_id: userId });
+      throw new DatabaseError('Failed to create device', error as Error);
+    }
+  }
+
+  async findById(deviceId: string): Promise<Device | null> {
+    try {
+      const result = await this.db.query('SELECT * FROM user_devices WHERE device_id = $1', [deviceId]);
+      return (result.rows[0] as Device) || null;
+    } catch (error) {
+      logger.error('Failed to find device', { error, device_id: deviceId });
+      throw new DatabaseError('Failed to find device', error as Error);
+    }
+  }
+
+  /**
+   * All of an owner's devices, revoked ones included, oldest first
+   */
+  async findByUserId(userId: string): Promise<Device[]> {
+    try {
+      const result = await this.db.query(
+        'SELECT * FROM user_devices WHERE user_id = $1 ORDER BY created_at ASC',
+        [userId]
+      );
+      return result.rows as Device[];
+    } catch (error) {
+      logger.error('Failed to find devices', { error, user_id: userId });
+      throw new DatabaseError('Failed to find devices', error as Error);
+    }
+  }
+
+  async countActiveByUserId(userId: string): Promise<number> {
+    try {
+      const result = await this.db.query(
+        'SELECT COUNT(*) AS count FROM user_devices WHERE user_id = $1 AND revoked_at IS NULL',
+        [userId]
+      );
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count devices', { error, user_id: userId });
+      throw new DatabaseError('Failed to count devices', error as Error);
+    }
+  }
+
+  async touch(deviceId: string, intervalSeconds: number): Promise<void> {
+    const query = `
+      UPDATE user_devices SET last_seen_at = CURRENT_TIMESTAMP
+      WHERE device_id = $1
+        AND revoked_at IS NULL
+        AND last_seen_at < CURRENT_TIMESTAMP - make_interval(secs => $2)
+    `;
+
+    try {
+      await this.db.query(query, [deviceId, intervalSeconds]);
+    } catch (error) {
+      logger.error('Failed to touch device', { error, device_id: deviceId });
+      throw new DatabaseError('Failed to touch device', error as Error);
+    }
+  }
+
+  async revoke(deviceId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        'UPDATE user_devices SET revoked_at = CURRENT_TIMESTAMP WHERE device_id = $1 AND revoked_at IS NULL',
+        [deviceId]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Failed to revoke device', { error, device_id: deviceId });
+      throw new DatabaseError('Failed to revoke device', error as Error);
+    }
+  }
+}
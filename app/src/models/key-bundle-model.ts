@@ -0,0 +1,104 @@
+/**
+ * Key Bundle Model
+ * The owner's account-wide key backup: one passphrase-encrypted blob per user,
+ * versioned for optimistic concurrency
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export interface KeyBundle {
+  user_id: string;
+  ciphertext: string;
+  salt: string;
+  iv: string;
+  version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SaveKeyBundleData {
+  ciphertext: string;
+  salt: string;
+  iv: string;
+  /** Links whose per-link backup is now inside the bundle; their backup columns are cleared */
+  migrated_link_ids: string[];
+}
+
+/**
+ * Key bundle storage (Postgres: KeyBundleModel; in-memory: models/memory)
+ */
+export interface KeyBundleRepository {
+  findByUserId(userId: string): Promise<KeyBundle | null>;
+  /**
+   * Write the bundle if its stored version is still `expectedVersion` (0: no
+   * bundle yet), bumping the version. Null when someone else wrote first.
+   */
+  save(userId: string, data: SaveKeyBundleData, expectedVersion: number): Promise<KeyBundle | null>;
+}
+
+export class KeyBundleModel implements KeyBundleRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async findByUserId(userId: string): Promise<KeyBundle | null> {
+    try {
+      const result = await this.db.query('SELECT * FROM user_key_bundles WHERE user_id = $1', [userId]);
+      return (result.rows[0] as KeyBundle) || null;
+    } catch (error) {
+      logger.error('Failed to find key bundle', { error, user_id: userId });
+      throw new DatabaseError('Failed to find key bundle', error as Error);
+    }
+  }
+
+  /**
+   * Conditional write plus clearing the folded-in per-link backups, in one
+   * transaction so a lost race leaves the old backups in place
+   */
+  async save(userId: string, data: SaveKeyBundleData, expectedVersion: number): Promise<KeyBundle | null> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      const result = expectedVersion === 0
+        ? await client.query(
+          `INSERT INTO user_key_bundles (user_id, ciphertext, salt, iv)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (user_id) DO NOTHING
+           RETURNING *`,
+          [userId, data.ciphertext, data.salt, data.iv]
+        )
+        : await client.query(
+          `UPDATE user_key_bundles
+           SET ciphertext = $2, salt = $3, iv = $4, version = version + 1, updated_at = CURRENT_TIMESTAMP
+           WHERE user_id = $1 AND version = $5
+           RETURNING *`,
+          [userId, data.ciphertext, data.salt, data.iv, expectedVersion]
+        );
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      if (data.migrated_link_ids.length > 0) {
+        await client.query(
+          `UPDATE links SET wrapped_key = NULL, backup_salt = NULL, backup_iv = NULL
+           WHERE owner_user_id = $1 AND link_id = ANY($2)`,
+          [userId, data.migrated_link_ids]
+        );
+      }
+
+      await client.query('COMMIT');
+      return result.rows[0] as KeyBundle;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to save key bundle', { error, user_id: userId });
+      throw new DatabaseError('Failed to save key bundle', error as Error);
+    } finally {
+      client.release();
+    }
+  }
+}
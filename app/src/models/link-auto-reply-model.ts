@@ -0,0 +1,132 @@
+/**
+ * Link Auto-Reply Model
+ * Database operations for per-link auto-reply settings
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export interface LinkAutoReply {
+  link_id: string;
+  enabled: boolean;
+  /** Reply text encrypted to the link's public key */
+  template_ciphertext: string;
+  first_message_only: boolean;
+  /** HH:MM in time_zone; both null = reply at any time */
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SaveLinkAutoReplyData {
+  link_id: string;
+  enabled: boolean;
+  template_ciphertext: string;
+  first_message_only: boolean;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string;
+}
+
+/** A thread waiting for its auto-reply, with what the owner client needs to send it */
+export interface PendingAutoReply {
+  thread_id: string;
+  link_id: string;
+  sender_public_key: string | null;
+  template_ciphertext: string;
+}
+
+/**
+ * Auto-reply storage (Postgres: LinkAutoReplyModel; in-memory: models/memory)
+ */
+export interface LinkAutoReplyRepository {
+  upsert(data: SaveLinkAutoReplyData): Promise<LinkAutoReply>;
+  findByLinkId(linkId: string): Promise<LinkAutoReply | null>;
+  delete(linkId: string): Promise<boolean>;
+  findPendingByOwner(ownerUserId: string, limit: number): Promise<PendingAutoReply[]>;
+}
+
+export class LinkAutoReplyModel implements LinkAutoReplyRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async upsert(data: SaveLinkAutoReplyData): Promise<LinkAutoReply> {
+    const query = `
+      INSERT INTO link_auto_replies (link_id, enabled, template_ciphertext, first_message_only,
+        quiet_hours_start, quiet_hours_end, time_zone)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (link_id) DO UPDATE SET
+        enabled = EXCLUDED.enabled,
+        template_ciphertext = EXCLUDED.template_ciphertext,
+        first_message_only = EXCLUDED.first_message_only,
+        quiet_hours_start = EXCLUDED.quiet_hours_start,
+        quiet_hours_end = EXCLUDED.quiet_hours_end,
+        time_zone = EXCLUDED.time_zone,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [
+        data.link_id, data.enabled, data.template_ciphertext, data.first_message_only,
+        data.quiet_hours_start, data.quiet_hours_end, data.time_zone,
+      ]);
+      return result.rows[0] as LinkAutoReply;
+    } catch (error) {
+      logger.error('Failed to save auto-reply', { error, link_id: data.link_id });
+      throw new DatabaseError('Failed to save auto-reply', error as Error);
+    }
+  }
+
+  async findByLinkId(linkId: string): Promise<LinkAutoReply | null> {
+    try {
+      const result = await this.db.query('SELECT * FROM link_auto_replies WHERE link_id = $1', [linkId]);
+      return (result.rows[0] as LinkAutoReply) || null;
+    } catch (error) {
+      logger.error('Failed to find auto-reply', { error, link_id: linkId });
+      throw new DatabaseError('Failed to find auto-reply', error as Error);
+    }
+  }
+
+  /**
+   * Remove the auto-reply; threads already flagged drop out of the pending list
+   */
+  async delete(linkId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query('DELETE FROM link_auto_replies WHERE link_id = $1', [linkId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Failed to delete auto-reply', { error, link_id: linkId });
+      throw new DatabaseError('Failed to delete auto-reply', error as Error);
+    }
+  }
+
+  /**
+   * Flagged threads on the owner's links whose auto-reply is still enabled, oldest first
+   */
+  async findPendingByOwner(ownerUserId: string, limit: number): Promise<PendingAutoReply[]> {
+    const query = `
+      SELECT t.thread_id, t.link_id, t.sender_public_key, r.template_ciphertext
+      FROM threads t
+      JOIN links l ON l.link_id = t.link_id
+      JOIN link_auto_replies r ON r.link_id = t.link_id
+      WHERE l.owner_user_id = $1 AND r.enabled = TRUE
+        AND t.auto_reply_pending = TRUE AND t.burned = FALSE AND l.burned = FALSE
+      ORDER BY t.created_at ASC
+      LIMIT $2
+    `;
+
+    try {
+      const result = await this.db.query(query, [ownerUserId, limit]);
+      return result.rows as PendingAutoReply[];
+    } catch (error) {
+      logger.error('Failed to find pending auto-replies', { error });
+      throw new DatabaseError('Failed to find pending auto-replies', error as Error);
+    }
+  }
+}
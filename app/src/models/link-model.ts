@@ -1,7 +1,7 @@
 /**
  * Link Model
  * Database operations for links
- * File size: ~195 lines
+ * File size: ~280 lines
  */
 
 import { Pool } from 'pg';
@@ -28,6 +28,33 @@ export interface Link {
   wrapped_key?: string;
   backup_salt?: string;
   backup_iv?: string;
+  paused: boolean;
+  max_threads_per_day: number | null;
+  max_threads: number | null;
+  open_hours_start: string | null;
+  open_hours_end: string | null;
+  time_zone: string;
+}
+
+/** Owner-set limits on new threads (see migration 021) */
+export type LinkPolicy = Pick<
+  Link, 'paused' | 'max_threads_per_day' | 'max_threads' | 'open_hours_start' | 'open_hours_end' | 'time_zone'
+>;
+
+export const DEFAULT_LINK_POLICY: LinkPolicy = {
+  paused: false,
+  max_threads_per_day: null,
+  max_threads: null,
+  open_hours_start: null,
+  open_hours_end: null,
+  time_zone: 'UTC',
+};
+
+export interface LinkKeyBackup {
+  link_id: string;
+  wrapped_key: string;
+  backup_salt: string;
+  backup_iv: string;
 }
 
 export interface CreateLinkData {
@@ -42,9 +69,33 @@ export interface CreateLinkData {
   opsec_access?: string;
   opsec_passphrase_hash?: string;
   opsec_passphrase_salt?: string;
+  policy?: LinkPolicy;
+}
+
+/**
+ * Link storage. LinkModel is the Postgres implementation; the in-memory one
+ * lives in models/memory (selected in models/repositories.ts).
+ */
+export interface LinkRepository {
+  create(data: CreateLinkData): Promise<Link>;
+  findById(linkId: string): Promise<Link | null>;
+  findByIdIncludingBurned(linkId: string): Promise<Link | null>;
+  findByUserId(userId: string, limit: number, offset: number): Promise<Link[]>;
+  countByUserId(userId: string): Promise<number>;
+  update(linkId: string, data: Partial<Link>): Promise<Link>;
+  /** Replace every policy column (NULL clears a limit) */
+  updatePolicy(linkId: string, policy: LinkPolicy): Promise<Link>;
+  setPaused(linkId: string, paused: boolean): Promise<void>;
+  getMessageCounts(userId: string): Promise<{ link_id: string; message_count: number }[]>;
+  updateKeyBackup(linkId: string, wrappedKey: string, salt: string, iv: string): Promise<void>;
+  getKeyBackup(linkId: string): Promise<{ wrapped_key: string; backup_salt: string; backup_iv: string } | null>;
+  /** Per-link backups of the owner's live links not yet folded into the key bundle */
+  findKeyBackupsByOwner(userId: string): Promise<LinkKeyBackup[]>;
+  burn(linkId: string): Promise<void>;
+  delete(linkId: string): Promise<void>;
 }
 
-export class LinkModel {
+export class LinkModel implements LinkRepository {
   private get db(): Pool {
     return getDb();
   }
@@ -55,10 +106,12 @@ export class LinkModel {
   async create(data: CreateLinkData): Promise<Link> {
     const query = `
       INSERT INTO links (link_id, owner_user_id, display_name, description, expires_at, qr_code_url, public_key,
-        opsec_mode, opsec_access, opsec_passphrase_hash, opsec_passphrase_salt)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        opsec_mode, opsec_access, opsec_passphrase_hash, opsec_passphrase_salt,
+        paused, max_threads_per_day, max_threads, open_hours_start, open_hours_end, time_zone)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING *
     `;
+    const policy = data.policy ?? DEFAULT_LINK_POLICY;
 
     try {
       const result = await this.db.query(query, [
@@ -73,6 +126,12 @@ export class LinkModel {
         data.opsec_access || null,
         data.opsec_passphrase_hash || null,
         data.opsec_passphrase_salt || null,
+        policy.paused,
+        policy.max_threads_per_day,
+        policy.max_threads,
+        policy.open_hours_start,
+        policy.open_hours_end,
+        policy.time_zone,
       ]);
 
       return result.rows[0] as Link;
@@ -102,6 +161,19 @@ export class LinkModel {
     }
   }
 
+  /**
+   * Find link by ID whatever its state (ownership checks on burn)
+   */
+  async findByIdIncludingBurned(linkId: string): Promise<Link | null> {
+    try {
+      const result = await this.db.query('SELECT * FROM links WHERE link_id = $1', [linkId]);
+      return result.rows[0] as Link || null;
+    } catch (error) {
+      logger.error('Failed to find link', { error, link_id: linkId });
+      throw new DatabaseError('Failed to find link', error as Error);
+    }
+  }
+
   /**
    * Find all links for a user
    */
@@ -170,6 +242,49 @@ export class LinkModel {
     }
   }
 
+  async updatePolicy(linkId: string, policy: LinkPolicy): Promise<Link> {
+    const query = `
+      UPDATE links
+      SET paused = $2, max_threads_per_day = $3, max_threads = $4,
+          open_hours_start = $5, open_hours_end = $6, time_zone = $7,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE link_id = $1
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [
+        linkId, policy.paused, policy.max_threads_per_day, policy.max_threads,
+        policy.open_hours_start, policy.open_hours_end, policy.time_zone,
+      ]);
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Link');
+      }
+
+      return result.rows[0] as Link;
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      logger.error('Failed to update link policy', { error, link_id: linkId });
+      throw new DatabaseError('Failed to update link policy', error as Error);
+    }
+  }
+
+  /**
+   * Pause or resume new threads (auto-pause on reaching max_threads)
+   */
+  async setPaused(linkId: string, paused: boolean): Promise<void> {
+    try {
+      await this.db.query(
+        'UPDATE links SET paused = $2, updated_at = CURRENT_TIMESTAMP WHERE link_id = $1',
+        [linkId, paused]
+      );
+    } catch (error) {
+      logger.error('Failed to pause link', { error, link_id: linkId });
+      throw new DatabaseError('Failed to pause link', error as Error);
+    }
+  }
+
   /**
    * Get message counts for all user links (lightweight polling)
    */
@@ -231,6 +346,51 @@ export class LinkModel {
     }
   }
 
+  async findKeyBackupsByOwner(userId: string): Promise<LinkKeyBackup[]> {
+    const query = `
+      SELECT link_id, wrapped_key, backup_salt, backup_iv FROM links
+      WHERE owner_user_id = $1 AND burned = FALSE AND wrapped_key IS NOT NULL
+      ORDER BY created_at ASC
+    `;
+
+    try {
+      const result = await this.db.query(query, [userId]);
+      return result.rows as LinkKeyBackup[];
+    } catch (error) {
+      logger.error('Failed to find key backups', { error, user_id: userId });
+      throw new DatabaseError('Failed to find key backups', error as Error);
+    }
+  }
+
+  /**
+   * Burn link — atomic: delete all messages → burn all threads → mark link burned
+   */
+  async burn(linkId: string): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'DELETE FROM messages WHERE thread_id IN (SELECT thread_id FROM threads WHERE link_id = $1)',
+        [linkId]
+      );
+      await client.query(
+        'UPDATE threads SET burned = TRUE WHERE link_id = $1',
+        [linkId]
+      );
+      await client.query(
+        'UPDATE links SET burned = TRUE WHERE link_id = $1',
+        [linkId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to burn link', { error, link_id: linkId });
+      throw new DatabaseError('Failed to burn link', error as Error);
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Delete link
    */
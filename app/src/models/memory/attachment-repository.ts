@@ -0,0 +1,70 @@
+/**
+ * In-memory attachment repository
+ * No orphan sweep: the reaper only runs against Postgres.
+ */
+
+import type {
+  Attachment, CreateAttachmentData, AttachmentScope, AttachmentRepository,
+} from '../attachment-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, countRows, deleteRows } from './memory-store';
+
+export class MemoryAttachmentRepository implements AttachmentRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateAttachmentData): Promise<Attachment> {
+    if ([...this.tables.attachments.values()].some((a) => a.object_key === data.object_key)) {
+      throw new DatabaseError('Failed to create attachment', new Error('duplicate object_key'));
+    }
+    const attachment: Attachment = {
+      attachment_id: newId(),
+      object_key: data.object_key,
+      link_id: data.link_id || null,
+      thread_id: null,
+      room_id: data.room_id || null,
+      size_bytes: data.size_bytes,
+      created_at: now(),
+    };
+    this.tables.attachments.set(attachment.attachment_id, attachment);
+    return copy(attachment);
+  }
+
+  async findById(attachmentId: string): Promise<Attachment | null> {
+    const attachment = this.tables.attachments.get(attachmentId);
+    return attachment ? copy(attachment) : null;
+  }
+
+  async countUnclaimed(attachmentIds: string[], linkId: string): Promise<number> {
+    const ids = new Set(attachmentIds);
+    return countRows(
+      this.tables.attachments,
+      (a) => ids.has(a.attachment_id) && a.link_id === linkId && a.thread_id === null
+    );
+  }
+
+  async claimForThread(attachmentIds: string[], linkId: string, threadId: string): Promise<number> {
+    let claimed = 0;
+    for (const id of new Set(attachmentIds)) {
+      const attachment = this.tables.attachments.get(id);
+      if (!attachment || attachment.link_id !== linkId) continue;
+      if (attachment.thread_id !== null && attachment.thread_id !== threadId) continue;
+      attachment.thread_id = threadId;
+      claimed += 1;
+    }
+    return claimed;
+  }
+
+  async countInRoom(attachmentIds: string[], roomId: string): Promise<number> {
+    const ids = new Set(attachmentIds);
+    return countRows(this.tables.attachments, (a) => ids.has(a.attachment_id) && a.room_id === roomId);
+  }
+
+  async findObjectKeys(scope: AttachmentScope, id: string): Promise<string[]> {
+    return [...this.tables.attachments.values()].filter((a) => a[scope] === id).map((a) => a.object_key);
+  }
+
+  async deleteByObjectKeys(objectKeys: string[]): Promise<number> {
+    const keys = new Set(objectKeys);
+    return deleteRows(this.tables.attachments, (a) => keys.has(a.object_key));
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * In-memory broadcast channel repository
+ */
+
+import type {
+  BroadcastChannel, CreateBroadcastChannelData, BroadcastChannelRepository,
+} from '../broadcast-channel-model';
+import { NotFoundError } from '../../utils/error-utils';
+import { MemoryTables, now, copy, insertUnique, selectRows, countRows, deleteRows } from './memory-store';
+
+export class MemoryBroadcastChannelRepository implements BroadcastChannelRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateBroadcastChannelData): Promise<BroadcastChannel> {
+    const channel: BroadcastChannel = {
+      channel_id: data.channel_id,
+      post_token_hash: data.post_token_hash,
+      display_name: data.display_name,
+      created_at: now(),
+      expires_at: data.expires_at ?? null,
+      burned: false,
+      owner_user_id: data.owner_user_id ?? null,
+      qr_code_url: data.qr_code_url ?? null,
+      allow_guest_posts: data.allow_guest_posts ?? false,
+      moderate_guest_posts: data.moderate_guest_posts ?? false,
+      public_feed: data.public_feed ?? false,
+      feed_updated_at: now(),
+    };
+    insertUnique(this.tables.broadcastChannels, channel.channel_id, channel, 'channel');
+    return copy(channel);
+  }
+
+  async findByChannelId(channelId: string): Promise<BroadcastChannel | null> {
+    const channel = this.tables.broadcastChannels.get(channelId);
+    return channel ? copy(channel) : null;
+  }
+
+  /** Live channels first, then newest first */
+  async findByOwnerUserId(userId: string): Promise<BroadcastChannel[]> {
+    return selectRows(this.tables.broadcastChannels, (c) => c.owner_user_id === userId)
+      .reverse()
+      .sort((a, b) => Number(a.burned) - Number(b.burned));
+  }
+
+  async delete(channelId: string, ownerUserId: string): Promise<boolean> {
+    const channel = this.tables.broadcastChannels.get(channelId);
+    if (!channel || channel.owner_user_id !== ownerUserId) return false;
+    deleteRows(this.tables.broadcastPosts, (p) => p.channel_id === channelId);
+    deleteRows(this.tables.broadcastTrustedGuests, (g) => g.channel_id === channelId);
+    deleteRows(this.tables.broadcastTokens, (t) => t.channel_id === channelId);
+    this.tables.broadcastChannels.delete(channelId);
+    return true;
+  }
+
+  async burn(channelId: string): Promise<void> {
+    const channel = this.tables.broadcastChannels.get(channelId);
+    if (!channel) {
+      throw new NotFoundError('Broadcast channel');
+    }
+    channel.burned = true;
+  }
+
+  async setModeration(channelId: string, moderateGuestPosts: boolean): Promise<void> {
+    const channel = this.tables.broadcastChannels.get(channelId);
+    if (channel) channel.moderate_guest_posts = moderateGuestPosts;
+  }
+
+  async isTrustedGuest(channelId: string, guestKeyHash: string): Promise<boolean> {
+    return this.tables.broadcastTrustedGuests.has(`${channelId}/${guestKeyHash}`);
+  }
+
+  async trustGuests(channelId: string, guestKeyHashes: string[]): Promise<number> {
+    let added = 0;
+    for (const hash of new Set(guestKeyHashes)) {
+      const key = `${channelId}/${hash}`;
+      if (this.tables.broadcastTrustedGuests.has(key)) continue;
+      this.tables.broadcastTrustedGuests.set(key, { channel_id: channelId, guest_key_hash: hash, created_at: now() });
+      added += 1;
+    }
+    return added;
+  }
+
+  async countTrustedGuests(channelId: string): Promise<number> {
+    return countRows(this.tables.broadcastTrustedGuests, (g) => g.channel_id === channelId);
+  }
+
+  async clearTrustedGuests(channelId: string): Promise<void> {
+    deleteRows(this.tables.broadcastTrustedGuests, (g) => g.channel_id === channelId);
+    deleteRows(this.tables.broadcastTokens, (t) => t.channel_id === channelId);
+  }
+}
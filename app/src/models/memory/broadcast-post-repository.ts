@@ -0,0 +1,158 @@
+/**
+ * In-memory broadcast post repository
+ */
+
+import type {
+  BroadcastPost, CreateBroadcastPostData, UpdateBroadcastPostData, BroadcastPostRepository,
+} from '../broadcast-post-model';
+import { DatabaseError } from '../../utils/error-utils';
+import {
+  MemoryTables, now, newId, copy, selectRows, countRows, deleteRows, isUnexpired,
+} from './memory-store';
+
+export class MemoryBroadcastPostRepository implements BroadcastPostRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateBroadcastPostData): Promise<BroadcastPost> {
+    if (!this.tables.broadcastChannels.has(data.channel_id)) {
+      throw new DatabaseError('Failed to create post', new Error('channel_id violates foreign key'));
+    }
+    const post: BroadcastPost = {
+      channel_id: data.channel_id,
+      content: data.content,
+      post_id: newId(),
+      created_at: now(),
+      edited_at: null,
+      pinned_at: null,
+      status: data.status ?? 'published',
+      guest_key_hash: data.guest_key_hash ?? null,
+      author_token_id: data.author_token_id ?? null,
+      publish_at: data.publish_at ?? null,
+      expires_at: data.expires_at ?? null,
+    };
+    this.tables.broadcastPosts.set(post.post_id, post);
+    if (post.status === 'published') this.touchFeed(post.channel_id);
+    return copy(post);
+  }
+
+  /**
+   * Published, unexpired posts newest first, pinned posts (newest pin first) ahead of
+   * the rest; optional cursor before=<post_id>. The clock is strictly increasing,
+   * so created_at alone orders posts.
+   */
+  async listByChannelId(channelId: string, limit: number = 50, beforePostId?: string): Promise<BroadcastPost[]> {
+    const posts = selectRows(
+      this.tables.broadcastPosts,
+      (p) => p.channel_id === channelId && p.status === 'published' && isUnexpired(p.expires_at)
+    ).reverse();
+    const pinned = posts.filter((p) => p.pinned_at)
+      .sort((a, b) => b.pinned_at!.getTime() - a.pinned_at!.getTime());
+    let unpinned = posts.filter((p) => !p.pinned_at);
+    if (!beforePostId) return [...pinned, ...unpinned].slice(0, limit);
+
+    const cursor = this.tables.broadcastPosts.get(beforePostId);
+    if (cursor?.channel_id !== channelId) return [];
+    if (!cursor.pinned_at) unpinned = unpinned.filter((p) => p.created_at < cursor.created_at);
+    return unpinned.slice(0, limit);
+  }
+
+  async findPostById(postId: string): Promise<{ created_at: Date } | null> {
+    const post = this.tables.broadcastPosts.get(postId);
+    return post ? { created_at: post.created_at } : null;
+  }
+
+  async findInChannel(channelId: string, postId: string): Promise<BroadcastPost | null> {
+    const post = this.tables.broadcastPosts.get(postId);
+    return post?.channel_id === channelId ? copy(post) : null;
+  }
+
+  async countPinned(channelId: string): Promise<number> {
+    return countRows(this.tables.broadcastPosts, (p) => p.channel_id === channelId && p.pinned_at !== null);
+  }
+
+  async update(channelId: string, postId: string, data: UpdateBroadcastPostData): Promise<BroadcastPost | null> {
+    const post = this.tables.broadcastPosts.get(postId);
+    if (post?.channel_id !== channelId) return null;
+    if (data.content !== undefined) {
+      post.content = data.content;
+      post.edited_at = now();
+    }
+    if (data.pinned !== undefined) {
+      post.pinned_at = data.pinned ? post.pinned_at ?? now() : null;
+    }
+    if (post.status === 'published') this.touchFeed(channelId);
+    return copy(post);
+  }
+
+  async delete(channelId: string, postId: string): Promise<boolean> {
+    const post = this.tables.broadcastPosts.get(postId);
+    if (post?.channel_id !== channelId) return false;
+    if (post.status === 'published') this.touchFeed(channelId);
+    return this.tables.broadcastPosts.delete(postId);
+  }
+
+  async listPending(channelId: string, limit: number): Promise<BroadcastPost[]> {
+    return selectRows(this.tables.broadcastPosts, (p) => p.channel_id === channelId && p.status === 'pending')
+      .slice(0, limit);
+  }
+
+  async countPending(channelId: string): Promise<number> {
+    return countRows(this.tables.broadcastPosts, (p) => p.channel_id === channelId && p.status === 'pending');
+  }
+
+  async approvePending(channelId: string, postIds: string[]): Promise<BroadcastPost[]> {
+    const approved: BroadcastPost[] = [];
+    for (const postId of postIds) {
+      const post = this.tables.broadcastPosts.get(postId);
+      if (post?.channel_id !== channelId || post.status !== 'pending') continue;
+      post.status = 'published';
+      this.touchFeed(channelId);
+      approved.push(copy(post));
+    }
+    return approved;
+  }
+
+  async rejectPending(channelId: string, postIds: string[]): Promise<number> {
+    const ids = new Set(postIds);
+    return deleteRows(
+      this.tables.broadcastPosts,
+      (p) => ids.has(p.post_id) && p.channel_id === channelId && p.status === 'pending'
+    );
+  }
+
+  async listScheduled(channelId: string, limit: number): Promise<BroadcastPost[]> {
+    return selectRows(this.tables.broadcastPosts, (p) => p.channel_id === channelId && p.status === 'scheduled')
+      .sort((a, b) => a.publish_at!.getTime() - b.publish_at!.getTime())
+      .slice(0, limit);
+  }
+
+  async publishDue(limit: number): Promise<BroadcastPost[]> {
+    const due = selectRows(
+      this.tables.broadcastPosts,
+      (p) => p.status === 'scheduled' && p.publish_at!.getTime() <= Date.now()
+    ).sort((a, b) => a.publish_at!.getTime() - b.publish_at!.getTime()).slice(0, limit);
+
+    return due.map(({ post_id }) => {
+      const post = this.tables.broadcastPosts.get(post_id)!;
+      post.status = 'published';
+      post.created_at = now();
+      this.touchFeed(post.channel_id);
+      return copy(post);
+    });
+  }
+
+  async deleteExpired(limit: number): Promise<Array<{ channel_id: string; post_id: string }>> {
+    const expired = selectRows(this.tables.broadcastPosts, (p) => !isUnexpired(p.expires_at)).slice(0, limit);
+    for (const post of expired) {
+      this.tables.broadcastPosts.delete(post.post_id);
+      if (post.status === 'published') this.touchFeed(post.channel_id);
+    }
+    return expired.map((p) => ({ channel_id: p.channel_id, post_id: p.post_id }));
+  }
+
+  /** Mirrors the 027 trigger: any change to a published post moves feed_updated_at */
+  private touchFeed(channelId: string): void {
+    const channel = this.tables.broadcastChannels.get(channelId);
+    if (channel) channel.feed_updated_at = now();
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * In-memory broadcast token repository
+ */
+
+import type { BroadcastToken, CreateBroadcastTokenData, BroadcastTokenRepository } from '../broadcast-token-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows, isUnexpired } from './memory-store';
+
+export class MemoryBroadcastTokenRepository implements BroadcastTokenRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateBroadcastTokenData): Promise<BroadcastToken> {
+    if (!this.tables.broadcastChannels.has(data.channel_id)) {
+      throw new DatabaseError('Failed to create token', new Error('channel_id violates foreign key'));
+    }
+    const token: BroadcastToken = {
+      token_id: newId(),
+      channel_id: data.channel_id,
+      label: data.label,
+      token_hash: data.token_hash,
+      scopes: [...data.scopes],
+      expires_at: data.expires_at ?? null,
+      revoked_at: null,
+      created_at: now(),
+    };
+    this.tables.broadcastTokens.set(token.token_id, token);
+    return copy(token);
+  }
+
+  async findByHash(channelId: string, tokenHash: string): Promise<BroadcastToken | null> {
+    const [token] = selectRows(
+      this.tables.broadcastTokens,
+      (t) => t.channel_id === channelId && t.token_hash === tokenHash
+    );
+    return token ?? null;
+  }
+
+  async listByChannelId(channelId: string): Promise<BroadcastToken[]> {
+    return selectRows(this.tables.broadcastTokens, (t) => t.channel_id === channelId);
+  }
+
+  async countActive(channelId: string): Promise<number> {
+    return countRows(
+      this.tables.broadcastTokens,
+      (t) => t.channel_id === channelId && !t.revoked_at && isUnexpired(t.expires_at)
+    );
+  }
+
+  async revoke(channelId: string, tokenId: string): Promise<boolean> {
+    const token = this.tables.broadcastTokens.get(tokenId);
+    if (token?.channel_id !== channelId || token.revoked_at) return false;
+    token.revoked_at = now();
+    return true;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * In-memory device link (pairing mailbox) repository
+ */
+
+import type { DeviceLinkSession, CreateDeviceLinkData, DeviceLinkRepository } from '../device-link-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, deleteRows, isUnexpired } from './memory-store';
+
+export class MemoryDeviceLinkRepository implements DeviceLinkRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateDeviceLinkData): Promise<DeviceLinkSession> {
+    if (!this.tables.devices.has(data.device_id)) {
+      throw new DatabaseError('Failed to create device link session', new Error('device_id violates foreign key'));
+    }
+    deleteRows(this.tables.deviceLinks, (s) => s.device_id === data.device_id
+      || (s.user_id === data.user_id && s.pairing_code === data.pairing_code));
+
+    const session: DeviceLinkSession = {
+      session_id: newId(),
+      ...data,
+      bundle: null,
+      sender_device_id: null,
+      delivered_at: null,
+      created_at: now(),
+    };
+    this.tables.deviceLinks.set(session.session_id, session);
+    return copy(session);
+  }
+
+  async findById(sessionId: string): Promise<DeviceLinkSession | null> {
+    const session = this.tables.deviceLinks.get(sessionId);
+    return session ? copy(session) : null;
+  }
+
+  async findWaitingByCode(userId: string, pairingCode: string): Promise<DeviceLinkSession | null> {
+    const session = [...this.tables.deviceLinks.values()].find((s) => s.user_id === userId
+      && s.pairing_code === pairingCode && s.bundle === null && isUnexpired(s.expires_at));
+    return session ? copy(session) : null;
+  }
+
+  async deliver(sessionId: string, senderDeviceId: string, bundle: string): Promise<DeviceLinkSession | null> {
+    const session = this.tables.deviceLinks.get(sessionId);
+    if (!session || session.bundle !== null || !isUnexpired(session.expires_at)) return null;
+    session.bundle = bundle;
+    session.sender_device_id = senderDeviceId;
+    session.delivered_at = now();
+    return copy(session);
+  }
+
+  async take(sessionId: string): Promise<DeviceLinkSession | null> {
+    const session = this.tables.deviceLinks.get(sessionId);
+    if (!session || session.bundle === null) return null;
+    this.tables.deviceLinks.delete(sessionId);
+    return copy(session);
+  }
+
+  async deleteByDeviceId(deviceId: string): Promise<number> {
+    return deleteRows(this.tables.deviceLinks, (s) => s.device_id === deviceId);
+  }
+}
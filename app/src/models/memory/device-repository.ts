@@ -0,0 +1,55 @@
+/**
+ * In-memory device repository
+ */
+
+import type { Device, DeviceRepository } from '../device-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows } from './memory-store';
+
+export class MemoryDeviceRepository implements DeviceRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(userId: string, name: string): Promise<Device> {
+    if (!this.tables.users.has(userId)) {
+      throw new DatabaseError('Failed to create device', new Error('user_id violates foreign key'));
+    }
+    const timestamp = now();
+    const device: Device = {
+      device_id: newId(),
+      user_id: userId,
+      name,
+      created_at: timestamp,
+      last_seen_at: timestamp,
+      revoked_at: null,
+    };
+    this.tables.devices.set(device.device_id, device);
+    return copy(device);
+  }
+
+  async findById(deviceId: string): Promise<Device | null> {
+    const device = this.tables.devices.get(deviceId);
+    return device ? copy(device) : null;
+  }
+
+  async findByUserId(userId: string): Promise<Device[]> {
+    return selectRows(this.tables.devices, (d) => d.user_id === userId);
+  }
+
+  async countActiveByUserId(userId: string): Promise<number> {
+    return countRows(this.tables.devices, (d) => d.user_id === userId && !d.revoked_at);
+  }
+
+  async touch(deviceId: string, intervalSeconds: number): Promise<void> {
+    const device = this.tables.devices.get(deviceId);
+    if (device && !device.revoked_at && device.last_seen_at.getTime() < Date.now() - intervalSeconds * 1000) {
+      device.last_seen_at = now();
+    }
+  }
+
+  async revoke(deviceId: string): Promise<boolean> {
+    const device = this.tables.devices.get(deviceId);
+    if (!device || device.revoked_at) return false;
+    device.revoked_at = now();
+    return true;
+  }
+}
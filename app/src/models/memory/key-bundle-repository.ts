@@ -0,0 +1,45 @@
+/**
+ * In-memory key bundle repository
+ */
+
+import type { KeyBundle, SaveKeyBundleData, KeyBundleRepository } from '../key-bundle-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, copy } from './memory-store';
+
+export class MemoryKeyBundleRepository implements KeyBundleRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async findByUserId(userId: string): Promise<KeyBundle | null> {
+    const bundle = this.tables.keyBundles.get(userId);
+    return bundle ? copy(bundle) : null;
+  }
+
+  async save(userId: string, data: SaveKeyBundleData, expectedVersion: number): Promise<KeyBundle | null> {
+    if (!this.tables.users.has(userId)) {
+      throw new DatabaseError('Failed to save key bundle', new Error('user_id violates foreign key'));
+    }
+    const current = this.tables.keyBundles.get(userId);
+    if ((current?.version ?? 0) !== expectedVersion) return null;
+
+    const timestamp = now();
+    const bundle: KeyBundle = {
+      user_id: userId,
+      ciphertext: data.ciphertext,
+      salt: data.salt,
+      iv: data.iv,
+      version: expectedVersion + 1,
+      created_at: current?.created_at ?? timestamp,
+      updated_at: timestamp,
+    };
+    this.tables.keyBundles.set(userId, bundle);
+
+    for (const linkId of data.migrated_link_ids) {
+      const link = this.tables.links.get(linkId);
+      if (link?.owner_user_id !== userId) continue;
+      link.wrapped_key = undefined;
+      link.backup_salt = undefined;
+      link.backup_iv = undefined;
+    }
+    return copy(bundle);
+  }
+}
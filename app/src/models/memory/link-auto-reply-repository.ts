@@ -0,0 +1,54 @@
+/**
+ * In-memory link auto-reply repository
+ */
+
+import type {
+  LinkAutoReply, SaveLinkAutoReplyData, LinkAutoReplyRepository, PendingAutoReply,
+} from '../link-auto-reply-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, copy, selectRows } from './memory-store';
+
+export class MemoryLinkAutoReplyRepository implements LinkAutoReplyRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async upsert(data: SaveLinkAutoReplyData): Promise<LinkAutoReply> {
+    if (!this.tables.links.has(data.link_id)) {
+      throw new DatabaseError('Failed to save auto-reply', new Error('link_id violates foreign key'));
+    }
+    const existing = this.tables.linkAutoReplies.get(data.link_id);
+    const timestamp = now();
+    const reply: LinkAutoReply = {
+      ...data,
+      created_at: existing?.created_at ?? timestamp,
+      updated_at: timestamp,
+    };
+    this.tables.linkAutoReplies.set(data.link_id, reply);
+    return copy(reply);
+  }
+
+  async findByLinkId(linkId: string): Promise<LinkAutoReply | null> {
+    const reply = this.tables.linkAutoReplies.get(linkId);
+    return reply ? copy(reply) : null;
+  }
+
+  async delete(linkId: string): Promise<boolean> {
+    return this.tables.linkAutoReplies.delete(linkId);
+  }
+
+  async findPendingByOwner(ownerUserId: string, limit: number): Promise<PendingAutoReply[]> {
+    const pending: PendingAutoReply[] = [];
+    for (const thread of selectRows(this.tables.threads, (t) => Boolean(t.auto_reply_pending) && !t.burned)) {
+      const link = this.tables.links.get(thread.link_id);
+      const reply = this.tables.linkAutoReplies.get(thread.link_id);
+      if (!link || link.burned || link.owner_user_id !== ownerUserId || !reply?.enabled) continue;
+      pending.push({
+        thread_id: thread.thread_id,
+        link_id: thread.link_id,
+        sender_public_key: thread.sender_public_key ?? null,
+        template_ciphertext: reply.template_ciphertext,
+      });
+      if (pending.length === limit) break;
+    }
+    return pending;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * In-memory link repository
+ */
+
+import type { Link, CreateLinkData, LinkRepository, LinkKeyBackup, LinkPolicy } from '../link-model';
+import { DEFAULT_LINK_POLICY } from '../link-model';
+import { NotFoundError } from '../../utils/error-utils';
+import {
+  MemoryTables, now, copy, isUnexpired, insertUnique, selectRows, countRows, deleteRows,
+} from './memory-store';
+
+export class MemoryLinkRepository implements LinkRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateLinkData): Promise<Link> {
+    const timestamp = now();
+    const { policy, ...fields } = data;
+    const link: Link = {
+      ...fields,
+      ...(policy ?? DEFAULT_LINK_POLICY),
+      opsec_mode: data.opsec_mode || false,
+      created_at: timestamp,
+      updated_at: timestamp,
+      burned: false,
+      message_count: 0,
+    };
+    insertUnique(this.tables.links, data.link_id, link, 'link');
+    return copy(link);
+  }
+
+  async findById(linkId: string): Promise<Link | null> {
+    const link = this.tables.links.get(linkId);
+    return link && !link.burned && isUnexpired(link.expires_at) ? copy(link) : null;
+  }
+
+  async findByIdIncludingBurned(linkId: string): Promise<Link | null> {
+    const link = this.tables.links.get(linkId);
+    return link ? copy(link) : null;
+  }
+
+  async findByUserId(userId: string, limit: number, offset: number): Promise<Link[]> {
+    return selectRows(this.tables.links, (l) => l.owner_user_id === userId)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    return countRows(this.tables.links, (l) => l.owner_user_id === userId);
+  }
+
+  async update(linkId: string, data: Partial<Link>): Promise<Link> {
+    const link = this.tables.links.get(linkId);
+    if (!link) {
+      throw new NotFoundError('Link');
+    }
+    link.display_name = data.display_name ?? link.display_name;
+    link.description = data.description ?? link.description;
+    link.expires_at = data.expires_at ?? link.expires_at;
+    return copy(link);
+  }
+
+  async updatePolicy(linkId: string, policy: LinkPolicy): Promise<Link> {
+    const link = this.tables.links.get(linkId);
+    if (!link) {
+      throw new NotFoundError('Link');
+    }
+    Object.assign(link, policy, { updated_at: now() });
+    return copy(link);
+  }
+
+  async setPaused(linkId: string, paused: boolean): Promise<void> {
+    const link = this.tables.links.get(linkId);
+    if (link) link.paused = paused;
+  }
+
+  async getMessageCounts(userId: string): Promise<{ link_id: string; message_count: number }[]> {
+    return selectRows(this.tables.links, (l) => l.owner_user_id === userId && !l.burned)
+      .reverse()
+      .map(({ link_id, message_count }) => ({ link_id, message_count }));
+  }
+
+  async updateKeyBackup(linkId: string, wrappedKey: string, salt: string, iv: string): Promise<void> {
+    const link = this.tables.links.get(linkId);
+    if (!link) return;
+    link.wrapped_key = wrappedKey;
+    link.backup_salt = salt;
+    link.backup_iv = iv;
+  }
+
+  async getKeyBackup(
+    linkId: string,
+  ): Promise<{ wrapped_key: string; backup_salt: string; backup_iv: string } | null> {
+    const link = this.tables.links.get(linkId);
+    if (!link?.wrapped_key) return null;
+    return { wrapped_key: link.wrapped_key, backup_salt: link.backup_salt!, backup_iv: link.backup_iv! };
+  }
+
+  async findKeyBackupsByOwner(userId: string): Promise<LinkKeyBackup[]> {
+    return selectRows(this.tables.links, (l) => l.owner_user_id === userId && !l.burned && !!l.wrapped_key)
+      .map((l) => ({ link_id: l.link_id, wrapped_key: l.wrapped_key!, backup_salt: l.backup_salt!, backup_iv: l.backup_iv! }));
+  }
+
+  async burn(linkId: string): Promise<void> {
+    const threads = [...this.tables.threads.values()].filter((t) => t.link_id === linkId);
+    const threadIds = new Set(threads.map((t) => t.thread_id));
+    deleteRows(this.tables.messages, (m) => threadIds.has(m.thread_id));
+    for (const thread of threads) thread.burned = true;
+    const link = this.tables.links.get(linkId);
+    if (link) link.burned = true;
+  }
+
+  async delete(linkId: string): Promise<void> {
+    const threadIds = new Set(
+      [...this.tables.threads.values()].filter((t) => t.link_id === linkId).map((t) => t.thread_id)
+    );
+    deleteRows(this.tables.messages, (m) => threadIds.has(m.thread_id));
+    deleteRows(this.tables.threads, (t) => t.link_id === linkId);
+    const webhookIds = new Set(
+      [...this.tables.webhooks.values()].filter((w) => w.link_id === linkId).map((w) => w.webhook_id)
+    );
+    deleteRows(this.tables.webhookDeliveries, (d) => webhookIds.has(d.webhook_id));
+    deleteRows(this.tables.webhooks, (w) => w.link_id === linkId);
+    this.tables.linkAutoReplies.delete(linkId);
+    this.tables.links.delete(linkId);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Memory Store
+ * Process-local tables behind the in-memory repositories (DATA_STORE=memory).
+ * For local development and offline tests only: nothing is persisted and each
+ * PM2 worker would see its own copy. Rows are copied on the way in and out so
+ * callers can't mutate stored state, matching what pg hands back.
+ */
+
+import crypto from 'crypto';
+import type { Link } from '../link-model';
+import type { Thread } from '../thread-model';
+import type { Message } from '../message-model';
+import type { Room } from '../room-model';
+import type { RoomParticipant } from '../room-participant-model';
+import type { RoomMessage } from '../room-message-model';
+import type { RoomInvite } from '../room-invite-model';
+import type { BroadcastChannel } from '../broadcast-channel-model';
+import type { BroadcastPost } from '../broadcast-post-model';
+import type { BroadcastToken } from '../broadcast-token-model';
+import type { Attachment } from '../attachment-model';
+import type { Webhook } from '../webhook-model';
+import type { WebhookDelivery } from '../webhook-delivery-model';
+import type { LinkAutoReply } from '../link-auto-reply-model';
+import type { Device } from '../device-model';
+import type { DeviceLinkSession } from '../device-link-model';
+import type { KeyBundle } from '../key-bundle-model';
+import type { RateLimitPolicy } from '../rate-limit-model';
+import type { PassphraseAttempt } from '../passphrase-attempt-model';
+import { DatabaseError } from '../../utils/error-utils';
+
+export interface UserRow {
+  user_id: string;
+  email: string;
+  created_at: Date;
+  updated_at: Date;
+  last_login_at?: Date;
+  sessions_revoked_at?: Date;
+}
+
+export interface ParticipantKeyRow {
+  participant_id: string;
+  key_epoch: number;
+  wrapped_group_key: string;
+  wrapper_public_key?: string | null;
+  created_at: Date;
+}
+
+export interface TrustedGuestRow {
+  channel_id: string;
+  guest_key_hash: string;
+  created_at: Date;
+}
+
+export interface RateLimitHitRow {
+  hits: number;
+  reset_at: Date;
+}
+
+export interface MemoryTables {
+  users: Map<string, UserRow>;
+  links: Map<string, Link>;
+  threads: Map<string, Thread>;
+  messages: Map<string, Message>;
+  rooms: Map<string, Room>;
+  roomParticipants: Map<string, RoomParticipant>;
+  /** Keyed `${participant_id}/${key_epoch}` */
+  participantKeys: Map<string, ParticipantKeyRow>;
+  roomMessages: Map<string, RoomMessage>;
+  roomInvites: Map<string, RoomInvite>;
+  broadcastChannels: Map<string, BroadcastChannel>;
+  broadcastPosts: Map<string, BroadcastPost>;
+  /** Keyed `${channel_id}/${guest_key_hash}` */
+  broadcastTrustedGuests: Map<string, TrustedGuestRow>;
+  broadcastTokens: Map<string, BroadcastToken>;
+  attachments: Map<string, Attachment>;
+  webhooks: Map<string, Webhook>;
+  webhookDeliveries: Map<string, WebhookDelivery>;
+  /** Keyed by link_id */
+  linkAutoReplies: Map<string, LinkAutoReply>;
+  devices: Map<string, Device>;
+  deviceLinks: Map<string, DeviceLinkSession>;
+  /** Keyed by user_id */
+  keyBundles: Map<string, KeyBundle>;
+  rateLimitHits: Map<string, RateLimitHitRow>;
+  /** Keyed by limiter name */
+  rateLimitPolicies: Map<string, RateLimitPolicy>;
+  /** Keyed `${scope}/${subject_id}` */
+  passphraseAttempts: Map<string, PassphraseAttempt>;
+  /** challenge_id → expires_at */
+  spentChallenges: Map<string, Date>;
+}
+
+export function createTables(): MemoryTables {
+  return {
+    users: new Map(),
+    links: new Map(),
+    threads: new Map(),
+    messages: new Map(),
+    rooms: new Map(),
+    roomParticipants: new Map(),
+    participantKeys: new Map(),
+    roomMessages: new Map(),
+    roomInvites: new Map(),
+    broadcastChannels: new Map(),
+    broadcastPosts: new Map(),
+    broadcastTrustedGuests: new Map(),
+    broadcastTokens: new Map(),
+    attachments: new Map(),
+    webhooks: new Map(),
+    webhookDeliveries: new Map(),
+    linkAutoReplies: new Map(),
+    devices: new Map(),
+    deviceLinks: new Map(),
+    keyBundles: new Map(),
+    rateLimitHits: new Map(),
+    rateLimitPolicies: new Map(),
+    passphraseAttempts: new Map(),
+    spentChallenges: new Map(),
+  };
+}
+
+let lastTimestamp = 0;
+
+/**
+ * Strictly increasing clock, so created_at ordering is deterministic even for
+ * rows inserted within the same millisecond
+ */
+export function now(): Date {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp);
+}
+
+export function newId(): string {
+  return crypto.randomUUID();
+}
+
+export function copy<T extends object>(row: T): T {
+  return { ...row };
+}
+
+/** Equivalent of `expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP` */
+export function isUnexpired(expiresAt?: Date | null): boolean {
+  return !expiresAt || new Date(expiresAt).getTime() > Date.now();
+}
+
+/** Insert a row, failing like a primary-key/unique violation would */
+export function insertUnique<T>(table: Map<string, T>, key: string, row: T, entity: string): void {
+  if (table.has(key)) {
+    throw new DatabaseError(`Failed to create ${entity}`, new Error(`duplicate key: ${key}`));
+  }
+  table.set(key, row);
+}
+
+export function byCreatedAt<T extends { created_at: Date }>(a: T, b: T): number {
+  return a.created_at.getTime() - b.created_at.getTime();
+}
+
+/** Copies of matching rows, oldest first */
+export function selectRows<T extends { created_at: Date }>(
+  table: Map<string, T>,
+  where: (row: T) => boolean
+): T[] {
+  return [...table.values()].filter(where).sort(byCreatedAt).map(copy);
+}
+
+export function countRows<T>(table: Map<string, T>, where: (row: T) => boolean): number {
+  let count = 0;
+  for (const row of table.values()) if (where(row)) count += 1;
+  return count;
+}
+
+export function deleteRows<T>(table: Map<string, T>, where: (row: T) => boolean): number {
+  let count = 0;
+  for (const [key, row] of table) {
+    if (where(row)) {
+      table.delete(key);
+      count += 1;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,39 @@
+/**
+ * In-memory message repository
+ */
+
+import type { Message, CreateMessageData, MessageRepository } from '../message-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows, deleteRows } from './memory-store';
+
+export class MemoryMessageRepository implements MessageRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateMessageData): Promise<Message> {
+    const thread = this.tables.threads.get(data.thread_id);
+    if (!thread) {
+      throw new DatabaseError('Failed to create message', new Error('thread_id violates foreign key'));
+    }
+    const message: Message = { ...data, message_id: newId(), created_at: now() };
+    this.tables.messages.set(message.message_id, message);
+
+    // Mirrors the increment_message_count trigger
+    thread.message_count += 1;
+    const link = this.tables.links.get(thread.link_id);
+    if (link) link.message_count += 1;
+
+    return copy(message);
+  }
+
+  async findByThreadId(threadId: string, limit: number, offset: number): Promise<Message[]> {
+    return selectRows(this.tables.messages, (m) => m.thread_id === threadId).slice(offset, offset + limit);
+  }
+
+  async countByThreadId(threadId: string): Promise<number> {
+    return countRows(this.tables.messages, (m) => m.thread_id === threadId);
+  }
+
+  async deleteByThreadId(threadId: string): Promise<void> {
+    deleteRows(this.tables.messages, (m) => m.thread_id === threadId);
+  }
+}
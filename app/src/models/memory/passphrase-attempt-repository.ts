@@ -0,0 +1,40 @@
+/**
+ * In-memory passphrase attempt repository
+ */
+
+import { lockoutFor } from '../passphrase-attempt-model';
+import type {
+  AttemptReservation, LockoutPolicy, PassphraseAttempt, PassphraseAttemptRepository, PassphraseScope,
+} from '../passphrase-attempt-model';
+import { MemoryTables, now, copy } from './memory-store';
+
+export class MemoryPassphraseAttemptRepository implements PassphraseAttemptRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async find(scope: PassphraseScope, subjectId: string): Promise<PassphraseAttempt | null> {
+    const row = this.tables.passphraseAttempts.get(`${scope}/${subjectId}`);
+    return row ? copy(row) : null;
+  }
+
+  async reserve(scope: PassphraseScope, subjectId: string, policy: LockoutPolicy): Promise<AttemptReservation> {
+    const key = `${scope}/${subjectId}`;
+    const timestamp = now();
+    const row = this.tables.passphraseAttempts.get(key);
+    if (row?.locked_until && row.locked_until.getTime() > timestamp.getTime()) {
+      return { locked: true, failures: row.failures, locked_until: new Date(row.locked_until) };
+    }
+
+    const failures = !row || row.last_failed_at.getTime() < timestamp.getTime() - policy.windowMs
+      ? 1 : row.failures + 1;
+    const lockMs = lockoutFor(failures, policy);
+    const lockedUntil = lockMs > 0 ? new Date(timestamp.getTime() + lockMs) : null;
+    this.tables.passphraseAttempts.set(key, {
+      scope, subject_id: subjectId, failures, locked_until: lockedUntil, last_failed_at: timestamp,
+    });
+    return { locked: false, failures, locked_until: lockedUntil && new Date(lockedUntil) };
+  }
+
+  async clear(scope: PassphraseScope, subjectId: string): Promise<void> {
+    this.tables.passphraseAttempts.delete(`${scope}/${subjectId}`);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * In-memory rate limit repository
+ */
+
+import type { RateLimitHit, RateLimitPolicy, RateLimitRepository } from '../rate-limit-model';
+import { MemoryTables, now, copy, deleteRows } from './memory-store';
+
+/** How often a hit also clears finished windows (the reaper's job under Postgres) */
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitRepository implements RateLimitRepository {
+  private lastPrunedAt = 0;
+
+  constructor(private readonly tables: MemoryTables) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const current = Date.now();
+    if (current - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      deleteRows(this.tables.rateLimitHits, (r) => r.reset_at.getTime() <= current);
+      this.lastPrunedAt = current;
+    }
+
+    let row = this.tables.rateLimitHits.get(key);
+    if (!row || row.reset_at.getTime() <= current) {
+      row = { hits: 0, reset_at: new Date(current + windowMs) };
+      this.tables.rateLimitHits.set(key, row);
+    }
+    row.hits += 1;
+    return { total_hits: row.hits, reset_at: new Date(row.reset_at) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const row = this.tables.rateLimitHits.get(key);
+    if (row && row.reset_at.getTime() > Date.now()) row.hits = Math.max(row.hits - 1, 0);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.tables.rateLimitHits.delete(key);
+  }
+
+  async findPolicies(): Promise<RateLimitPolicy[]> {
+    return [...this.tables.rateLimitPolicies.values()].map(copy);
+  }
+
+  async savePolicy(name: string, windowSeconds: number, maxHits: number): Promise<RateLimitPolicy> {
+    const policy: RateLimitPolicy = { name, window_seconds: windowSeconds, max_hits: maxHits, updated_at: now() };
+    this.tables.rateLimitPolicies.set(name, policy);
+    return copy(policy);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * In-memory room invite repository
+ */
+
+import type { RoomInvite, CreateInviteData, RoomInviteRepository } from '../room-invite-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows } from './memory-store';
+
+export class MemoryRoomInviteRepository implements RoomInviteRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateInviteData): Promise<RoomInvite> {
+    const [invite] = await this.createMany([data]);
+    return invite;
+  }
+
+  /** All or nothing, like the single multi-row INSERT */
+  async createMany(invites: CreateInviteData[]): Promise<RoomInvite[]> {
+    const hashes = new Set<string>();
+    for (const data of invites) {
+      const duplicate = hashes.has(data.invite_token_hash)
+        || [...this.tables.roomInvites.values()].some((i) => i.invite_token_hash === data.invite_token_hash);
+      if (duplicate || !this.tables.rooms.has(data.room_id)) {
+        throw new DatabaseError('Failed to create invites', new Error('room invite violates constraint'));
+      }
+      hashes.add(data.invite_token_hash);
+    }
+
+    return invites.map((data) => {
+      const invite: RoomInvite = { ...data, invite_id: newId(), created_at: now(), revoked: false };
+      this.tables.roomInvites.set(invite.invite_id, invite);
+      return copy(invite);
+    });
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<RoomInvite | null> {
+    const invite = [...this.tables.roomInvites.values()].find((i) => i.invite_token_hash === tokenHash);
+    return invite ? copy(invite) : null;
+  }
+
+  async findValidByTokenHash(tokenHash: string): Promise<RoomInvite | null> {
+    const invite = await this.findByTokenHash(tokenHash);
+    const valid = invite && !invite.redeemed_at && !invite.revoked && invite.expires_at.getTime() > Date.now();
+    return valid ? invite : null;
+  }
+
+  async findByRoomId(roomId: string): Promise<RoomInvite[]> {
+    return selectRows(this.tables.roomInvites, (i) => i.room_id === roomId).reverse();
+  }
+
+  async redeem(inviteId: string): Promise<RoomInvite> {
+    const invite = this.tables.roomInvites.get(inviteId);
+    if (!invite || invite.redeemed_at || invite.revoked) {
+      throw new DatabaseError('Invite already redeemed or revoked');
+    }
+    invite.redeemed_at = now();
+    return copy(invite);
+  }
+
+  async revoke(inviteId: string): Promise<void> {
+    const invite = this.tables.roomInvites.get(inviteId);
+    if (invite) invite.revoked = true;
+  }
+
+  async revokeForRoom(roomId: string, inviteId: string): Promise<number> {
+    const invite = this.tables.roomInvites.get(inviteId);
+    if (!invite || invite.room_id !== roomId) return 0;
+    invite.revoked = true;
+    return 1;
+  }
+
+  async countByRoomId(roomId: string): Promise<number> {
+    return countRows(this.tables.roomInvites, (i) => i.room_id === roomId);
+  }
+}
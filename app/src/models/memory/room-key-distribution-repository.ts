@@ -0,0 +1,69 @@
+/**
+ * In-memory room key distribution repository
+ */
+
+import type { RoomParticipant } from '../room-participant-model';
+import type {
+  RoomKeyDistributionRepository, WrappedKeyBatch, EpochCheck,
+} from '../room-key-distribution-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, copy } from './memory-store';
+
+function needsKey(p: RoomParticipant): boolean {
+  return p.status === 'approved' && !p.wrapped_group_key && !p.is_creator;
+}
+
+export class MemoryRoomKeyDistributionRepository implements RoomKeyDistributionRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async claimNeedingKeys(
+    roomId: string,
+    claimantId: string,
+    limit: number,
+    leaseSeconds: number
+  ): Promise<RoomParticipant[]> {
+    const leaseStart = Date.now() - leaseSeconds * 1000;
+    const claimable = [...this.tables.roomParticipants.values()]
+      .filter((p) => p.room_id === roomId && needsKey(p) && (
+        !p.key_claimed_by || p.key_claimed_by === claimantId || p.key_claimed_at!.getTime() < leaseStart
+      ))
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+      .slice(0, limit);
+
+    const timestamp = now();
+    for (const participant of claimable) {
+      participant.key_claimed_by = claimantId;
+      participant.key_claimed_at = timestamp;
+    }
+    return claimable.map(copy);
+  }
+
+  /** Same steps as the Postgres transaction; nothing awaits, so it can't interleave */
+  async setWrappedKeys(batch: WrappedKeyBatch, check: EpochCheck): Promise<RoomParticipant[]> {
+    const room = this.tables.rooms.get(batch.room_id);
+    if (!room) {
+      throw new DatabaseError('Failed to set wrapped keys', new Error('room not found'));
+    }
+    check(room.key_epoch);
+
+    const updated: RoomParticipant[] = [];
+    for (const [participantId, wrappedGroupKey] of batch.wrapped_keys) {
+      const participant = this.tables.roomParticipants.get(participantId);
+      if (!participant || participant.room_id !== batch.room_id || !needsKey(participant)) continue;
+      participant.wrapped_group_key = wrappedGroupKey;
+      participant.key_wrapper_public_key = batch.wrapper_public_key;
+      participant.key_claimed_by = null;
+      participant.key_claimed_at = null;
+      participant.joined_at = participant.joined_at ?? now();
+      updated.push(copy(participant));
+    }
+    return updated;
+  }
+
+  async setDistributor(participantId: string, enabled: boolean): Promise<RoomParticipant | null> {
+    const participant = this.tables.roomParticipants.get(participantId);
+    if (!participant || participant.status !== 'approved' || participant.is_creator) return null;
+    participant.can_distribute_keys = enabled;
+    return copy(participant);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * In-memory room message repository
+ */
+
+import type {
+  RoomMessage, CreateRoomMessageData, EditRoomMessageData, RoomMessageWithSender, RoomMessageRepository,
+} from '../room-message-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, countRows, deleteRows } from './memory-store';
+
+/** Order by (created_at, message_id), like the row-value cursor in Postgres */
+function compareCursor(a: { created_at: Date; message_id: string }, time: Date, id: string): number {
+  const diff = a.created_at.getTime() - time.getTime();
+  if (diff !== 0) return diff;
+  return a.message_id < id ? -1 : a.message_id > id ? 1 : 0;
+}
+
+export class MemoryRoomMessageRepository implements RoomMessageRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateRoomMessageData): Promise<RoomMessage> {
+    if (!this.tables.rooms.has(data.room_id) || !this.tables.roomParticipants.has(data.participant_id)) {
+      throw new DatabaseError('Failed to create message', new Error('room message violates foreign key'));
+    }
+    const message: RoomMessage = {
+      ...data,
+      key_epoch: data.key_epoch ?? 0,
+      message_id: newId(),
+      created_at: now(),
+      edited_at: null,
+      deleted_at: null,
+    };
+    this.tables.roomMessages.set(message.message_id, message);
+    return copy(message);
+  }
+
+  /** Messages joined with their sender, ordered by (created_at, message_id) */
+  private select(where: (m: RoomMessage) => boolean): RoomMessageWithSender[] {
+    const rows: RoomMessageWithSender[] = [];
+    for (const message of this.tables.roomMessages.values()) {
+      if (!where(message)) continue;
+      const sender = this.tables.roomParticipants.get(message.participant_id);
+      if (!sender) continue;
+      rows.push({ ...message, anonymous_id: sender.anonymous_id, display_name: sender.display_name });
+    }
+    return rows.sort((a, b) => compareCursor(a, b.created_at, b.message_id));
+  }
+
+  async findByRoomId(roomId: string, limit: number, offset: number): Promise<RoomMessageWithSender[]> {
+    return this.select((m) => m.room_id === roomId).slice(offset, offset + limit);
+  }
+
+  async findAfterCursor(
+    roomId: string,
+    cursorTime: Date,
+    cursorMessageId: string,
+    limit: number = 100
+  ): Promise<RoomMessageWithSender[]> {
+    return this.select(
+      (m) => m.room_id === roomId && compareCursor(m, new Date(cursorTime), cursorMessageId) > 0
+    ).slice(0, limit);
+  }
+
+  async findSinceTimestamp(roomId: string, since: Date, limit: number = 100): Promise<RoomMessageWithSender[]> {
+    const after = new Date(since).getTime();
+    return this.select((m) => m.room_id === roomId && m.created_at.getTime() > after).slice(0, limit);
+  }
+
+  async findById(messageId: string): Promise<RoomMessageWithSender | null> {
+    return this.select((m) => m.message_id === messageId)[0] ?? null;
+  }
+
+  async countByRoomId(roomId: string): Promise<number> {
+    return countRows(this.tables.roomMessages, (m) => m.room_id === roomId);
+  }
+
+  async edit(messageId: string, data: EditRoomMessageData): Promise<RoomMessage | null> {
+    const message = this.tables.roomMessages.get(messageId);
+    if (!message || message.deleted_at) return null;
+    Object.assign(message, data, { edited_at: now() });
+    return copy(message);
+  }
+
+  async markDeleted(messageId: string): Promise<RoomMessage | null> {
+    const message = this.tables.roomMessages.get(messageId);
+    if (!message || message.deleted_at) return null;
+    Object.assign(message, { ciphertext: '', nonce: '', deleted_at: now() });
+    return copy(message);
+  }
+
+  async deleteByRoomId(roomId: string): Promise<void> {
+    deleteRows(this.tables.roomMessages, (m) => m.room_id === roomId);
+  }
+}
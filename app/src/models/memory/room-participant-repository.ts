@@ -0,0 +1,177 @@
+/**
+ * In-memory room participant repository
+ * Keeps rooms.participant_count in step the way the increment trigger does.
+ */
+
+import type {
+  RoomParticipant, CreateParticipantData, PreviousGroupKey, RoomParticipantRepository,
+  GroupKeyRotation, RotationCheck, ParticipantCursor, ParticipantStatus,
+} from '../room-participant-model';
+import { DatabaseError, NotFoundError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows, deleteRows } from './memory-store';
+
+/** Order by (created_at, participant_id), like the row-value cursor in Postgres */
+function compareCursor(a: ParticipantCursor, b: ParticipantCursor): number {
+  const diff = a.created_at.getTime() - new Date(b.created_at).getTime();
+  if (diff !== 0) return diff;
+  return a.participant_id < b.participant_id ? -1 : a.participant_id > b.participant_id ? 1 : 0;
+}
+
+export class MemoryRoomParticipantRepository implements RoomParticipantRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  /** Mirrors increment_room_participant_count: counts each participant once on approval */
+  private countApproval(roomId: string): void {
+    const room = this.tables.rooms.get(roomId);
+    if (!room) return;
+    room.participant_count += 1;
+    room.updated_at = now();
+  }
+
+  async create(data: CreateParticipantData): Promise<RoomParticipant> {
+    const clash = data.invite_id && [...this.tables.roomParticipants.values()].some(
+      (p) => p.room_id === data.room_id && p.invite_id === data.invite_id
+    );
+    if (clash || !this.tables.rooms.has(data.room_id)) {
+      throw new DatabaseError('Failed to create participant', new Error('room participant violates constraint'));
+    }
+
+    const isCreator = data.is_creator ?? false;
+    const timestamp = now();
+    const participant: RoomParticipant = {
+      ...data,
+      participant_id: newId(),
+      status: data.status ?? (isCreator ? 'approved' : 'pending'),
+      is_creator: isCreator,
+      can_distribute_keys: false,
+      joined_at: isCreator ? timestamp : undefined,
+      created_at: timestamp,
+    };
+    this.tables.roomParticipants.set(participant.participant_id, participant);
+    if (participant.status === 'approved') this.countApproval(participant.room_id);
+    return copy(participant);
+  }
+
+  async findById(participantId: string): Promise<RoomParticipant | null> {
+    const participant = this.tables.roomParticipants.get(participantId);
+    return participant ? copy(participant) : null;
+  }
+
+  async findByRoomId(roomId: string): Promise<RoomParticipant[]> {
+    return selectRows(this.tables.roomParticipants, (p) => p.room_id === roomId);
+  }
+
+  async findPageByRoomId(
+    roomId: string,
+    limit: number,
+    after?: ParticipantCursor,
+    status?: ParticipantStatus
+  ): Promise<RoomParticipant[]> {
+    return selectRows(
+      this.tables.roomParticipants,
+      (p) => p.room_id === roomId && (!status || p.status === status) && (!after || compareCursor(p, after) > 0)
+    )
+      .sort((a, b) => compareCursor(a, b))
+      .slice(0, limit);
+  }
+
+  async findApprovedByRoomId(roomId: string): Promise<RoomParticipant[]> {
+    return selectRows(this.tables.roomParticipants, (p) => p.room_id === roomId && p.status === 'approved');
+  }
+
+  async findPendingByRoomId(roomId: string): Promise<RoomParticipant[]> {
+    return selectRows(this.tables.roomParticipants, (p) => p.room_id === roomId && p.status === 'pending');
+  }
+
+  async findByAnonymousId(roomId: string, anonymousId: string): Promise<RoomParticipant | null> {
+    const [participant] = selectRows(
+      this.tables.roomParticipants,
+      (p) => p.room_id === roomId && p.anonymous_id === anonymousId
+    );
+    return participant || null;
+  }
+
+  async approve(participantId: string, wrappedGroupKey: string): Promise<RoomParticipant> {
+    const participant = this.tables.roomParticipants.get(participantId);
+    if (!participant || participant.status !== 'pending') {
+      throw new NotFoundError('Participant');
+    }
+    participant.status = 'approved';
+    participant.wrapped_group_key = wrappedGroupKey;
+    participant.joined_at = now();
+    this.countApproval(participant.room_id);
+    return copy(participant);
+  }
+
+  async reject(participantId: string): Promise<RoomParticipant> {
+    const participant = this.tables.roomParticipants.get(participantId);
+    if (!participant || participant.status !== 'pending') {
+      throw new NotFoundError('Participant');
+    }
+    participant.status = 'rejected';
+    return copy(participant);
+  }
+
+  async countApprovedByRoomId(roomId: string): Promise<number> {
+    return countRows(this.tables.roomParticipants, (p) => p.room_id === roomId && p.status === 'approved');
+  }
+
+  async getCreator(roomId: string): Promise<RoomParticipant | null> {
+    const [creator] = selectRows(this.tables.roomParticipants, (p) => p.room_id === roomId && p.is_creator);
+    return creator || null;
+  }
+
+  async findPreviousKeys(participantId: string): Promise<PreviousGroupKey[]> {
+    return [...this.tables.participantKeys.values()]
+      .filter((k) => k.participant_id === participantId)
+      .sort((a, b) => a.key_epoch - b.key_epoch)
+      .map(({ key_epoch, wrapped_group_key, wrapper_public_key }) => ({
+        key_epoch,
+        wrapped_group_key,
+        wrapper_public_key: wrapper_public_key ?? null,
+      }));
+  }
+
+  /** Same steps as the Postgres transaction; nothing awaits, so it can't interleave */
+  async rotateGroupKey(rotation: GroupKeyRotation, check: RotationCheck): Promise<boolean> {
+    const { room_id: roomId, participant_id: participantId, key_epoch: keyEpoch, wrapped_keys: wraps } = rotation;
+    const room = this.tables.rooms.get(roomId);
+    if (!room) {
+      throw new DatabaseError('Failed to rotate group key', new Error('room not found'));
+    }
+
+    const holders = [...this.tables.roomParticipants.values()].filter(
+      (p) => p.room_id === roomId && p.status === 'approved' && !p.is_creator
+        && !!p.wrapped_group_key && p.participant_id !== participantId
+    );
+    check(room.key_epoch, holders.map((p) => p.participant_id));
+
+    const removed = this.tables.roomParticipants.get(participantId);
+    if (!removed || removed.status !== 'approved') return false;
+
+    for (const holder of holders) {
+      const key = `${holder.participant_id}/${room.key_epoch}`;
+      if (!this.tables.participantKeys.has(key)) {
+        this.tables.participantKeys.set(key, {
+          participant_id: holder.participant_id,
+          key_epoch: room.key_epoch,
+          wrapped_group_key: holder.wrapped_group_key!,
+          wrapper_public_key: holder.key_wrapper_public_key ?? null,
+          created_at: now(),
+        });
+      }
+      holder.wrapped_group_key = wraps.get(holder.participant_id);
+      holder.key_wrapper_public_key = null;
+    }
+
+    removed.status = 'removed';
+    removed.wrapped_group_key = undefined;
+    removed.key_wrapper_public_key = null;
+    removed.can_distribute_keys = false;
+    deleteRows(this.tables.participantKeys, (k) => k.participant_id === participantId);
+    room.key_epoch = keyEpoch;
+    room.participant_count = Math.max(room.participant_count - 1, 0);
+    room.updated_at = now();
+    return true;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * In-memory room repository
+ */
+
+import type { Room, CreateRoomData, RoomRepository } from '../room-model';
+import { DatabaseError, NotFoundError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows, deleteRows } from './memory-store';
+
+function isActive(room: Room): boolean {
+  return !room.burned && room.expires_at.getTime() > Date.now();
+}
+
+export class MemoryRoomRepository implements RoomRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateRoomData): Promise<Room> {
+    if (!this.tables.users.has(data.creator_user_id)) {
+      throw new DatabaseError('Failed to create room', new Error('creator_user_id violates foreign key'));
+    }
+    const timestamp = now();
+    const room: Room = {
+      ...data,
+      room_id: newId(),
+      created_at: timestamp,
+      updated_at: timestamp,
+      join_window_opened_at: timestamp,
+      join_window_minutes: data.join_window_minutes ?? 15,
+      max_participants: data.max_participants ?? 10,
+      auto_approve: data.auto_approve ?? false,
+      participant_count: 0,
+      burned: false,
+      key_epoch: 0,
+    };
+    this.tables.rooms.set(room.room_id, room);
+    return copy(room);
+  }
+
+  async findById(roomId: string): Promise<Room | null> {
+    const room = this.tables.rooms.get(roomId);
+    return room ? copy(room) : null;
+  }
+
+  async findActiveById(roomId: string): Promise<Room | null> {
+    const room = this.tables.rooms.get(roomId);
+    return room && isActive(room) ? copy(room) : null;
+  }
+
+  async findByUserId(userId: string, limit: number, offset: number): Promise<Room[]> {
+    return selectRows(this.tables.rooms, (r) => r.creator_user_id === userId)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    return countRows(this.tables.rooms, (r) => r.creator_user_id === userId && isActive(r));
+  }
+
+  async lock(roomId: string): Promise<Room> {
+    const room = this.tables.rooms.get(roomId);
+    if (!room || room.locked_at) {
+      throw new NotFoundError('Room');
+    }
+    room.locked_at = now();
+    room.updated_at = room.locked_at;
+    return copy(room);
+  }
+
+  async extend(roomId: string, expiresAt: Date): Promise<Room | null> {
+    const room = this.tables.rooms.get(roomId);
+    if (!room || !isActive(room)) return null;
+    room.expires_at = new Date(expiresAt);
+    room.updated_at = now();
+    return copy(room);
+  }
+
+  async reopen(roomId: string, joinWindowMinutes: number): Promise<Room | null> {
+    const room = this.tables.rooms.get(roomId);
+    if (!room || !isActive(room)) return null;
+    const timestamp = now();
+    delete room.locked_at;
+    room.join_window_opened_at = timestamp;
+    room.join_window_minutes = joinWindowMinutes;
+    room.updated_at = timestamp;
+    return copy(room);
+  }
+
+  async burn(roomId: string): Promise<void> {
+    const participantIds = new Set(
+      [...this.tables.roomParticipants.values()].filter((p) => p.room_id === roomId).map((p) => p.participant_id)
+    );
+    deleteRows(this.tables.roomMessages, (m) => m.room_id === roomId);
+    deleteRows(this.tables.participantKeys, (k) => participantIds.has(k.participant_id));
+    deleteRows(this.tables.roomParticipants, (p) => p.room_id === roomId);
+    deleteRows(this.tables.roomInvites, (i) => i.room_id === roomId);
+    const room = this.tables.rooms.get(roomId);
+    if (room) {
+      room.burned = true;
+      room.updated_at = now();
+    }
+  }
+
+  async isLocked(roomId: string): Promise<boolean> {
+    const room = this.tables.rooms.get(roomId);
+    if (!room) return true;
+    const windowEnd = room.join_window_opened_at.getTime() + room.join_window_minutes * 60_000;
+    return !!room.locked_at || windowEnd < Date.now();
+  }
+
+  async isFull(roomId: string): Promise<boolean> {
+    const room = this.tables.rooms.get(roomId);
+    return room ? room.participant_count >= room.max_participants : true;
+  }
+}
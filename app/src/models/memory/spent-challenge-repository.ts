@@ -0,0 +1,18 @@
+/**
+ * In-memory spent challenge repository
+ */
+
+import type { SpentChallengeRepository } from '../spent-challenge-model';
+import { MemoryTables, deleteRows } from './memory-store';
+
+export class MemorySpentChallengeRepository implements SpentChallengeRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async spend(challengeId: string, expiresAt: Date): Promise<boolean> {
+    // No reaper in memory mode: expired ids go here
+    deleteRows(this.tables.spentChallenges, (expiry) => expiry.getTime() <= Date.now());
+    if (this.tables.spentChallenges.has(challengeId)) return false;
+    this.tables.spentChallenges.set(challengeId, new Date(expiresAt));
+    return true;
+  }
+}
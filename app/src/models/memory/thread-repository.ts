@@ -0,0 +1,82 @@
+/**
+ * In-memory thread repository
+ */
+
+import type { Thread, CreateThreadData, ThreadLimits, ThreadRepository } from '../thread-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows, deleteRows } from './memory-store';
+
+export class MemoryThreadRepository implements ThreadRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateThreadData): Promise<Thread> {
+    if (!this.tables.links.has(data.link_id)) {
+      throw new DatabaseError('Failed to create thread', new Error('link_id violates foreign key'));
+    }
+    const timestamp = now();
+    const thread: Thread = {
+      ...data,
+      thread_id: newId(),
+      created_at: timestamp,
+      updated_at: timestamp,
+      burned: false,
+      message_count: 0,
+      auto_reply_pending: false,
+    };
+    this.tables.threads.set(thread.thread_id, thread);
+    return copy(thread);
+  }
+
+  async createWithinLimits(data: CreateThreadData, limits: ThreadLimits): Promise<Thread | null> {
+    const since = Date.now() - 24 * 60 * 60 * 1000;
+    const threads = selectRows(this.tables.threads, (t) => t.link_id === data.link_id);
+    if ((limits.max_threads != null && threads.length >= limits.max_threads) ||
+        (limits.max_threads_per_day != null &&
+          threads.filter((t) => t.created_at.getTime() >= since).length >= limits.max_threads_per_day)) {
+      return null;
+    }
+    return this.create(data);
+  }
+
+  async findById(threadId: string): Promise<Thread | null> {
+    const thread = this.tables.threads.get(threadId);
+    return thread ? copy(thread) : null;
+  }
+
+  async findByLinkId(linkId: string, limit: number, offset: number): Promise<Thread[]> {
+    return selectRows(this.tables.threads, (t) => t.link_id === linkId)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+
+  async countByLinkId(linkId: string): Promise<number> {
+    return countRows(this.tables.threads, (t) => t.link_id === linkId);
+  }
+
+  async countByLinkIdSince(linkId: string, since: Date): Promise<number> {
+    return countRows(this.tables.threads, (t) => t.link_id === linkId && t.created_at >= since);
+  }
+
+  async burn(thread: Thread): Promise<void> {
+    deleteRows(this.tables.messages, (m) => m.thread_id === thread.thread_id);
+    const link = this.tables.links.get(thread.link_id);
+    if (link) link.message_count = Math.max(link.message_count - thread.message_count, 0);
+    const stored = this.tables.threads.get(thread.thread_id);
+    if (stored) {
+      stored.burned = true;
+      stored.message_count = 0;
+    }
+  }
+
+  async setAutoReplyPending(threadId: string, pending: boolean): Promise<void> {
+    const stored = this.tables.threads.get(threadId);
+    if (stored) stored.auto_reply_pending = pending;
+  }
+
+  async claimAutoReply(threadId: string): Promise<boolean> {
+    const stored = this.tables.threads.get(threadId);
+    if (!stored?.auto_reply_pending) return false;
+    stored.auto_reply_pending = false;
+    return true;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * In-memory user repository
+ */
+
+import type { UserRepository } from '../user-model';
+import { MemoryTables, now } from './memory-store';
+
+export class MemoryUserRepository implements UserRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async upsert(userId: string, email: string): Promise<void> {
+    const existing = this.tables.users.get(userId);
+    const timestamp = now();
+    if (existing) {
+      existing.updated_at = timestamp;
+      existing.last_login_at = timestamp;
+      return;
+    }
+    this.tables.users.set(userId, { user_id: userId, email, created_at: timestamp, updated_at: timestamp });
+  }
+
+  async revokeSessions(userId: string): Promise<void> {
+    const existing = this.tables.users.get(userId);
+    if (!existing) return;
+    existing.sessions_revoked_at = now();
+    existing.updated_at = existing.sessions_revoked_at;
+  }
+
+  async findSessionsRevokedAt(userId: string): Promise<Date | null> {
+    return this.tables.users.get(userId)?.sessions_revoked_at ?? null;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * In-memory webhook delivery repository
+ */
+
+import type {
+  WebhookDelivery, WebhookPayload, ClaimedDelivery, DeliveryAttempt, WebhookDeliveryRepository,
+} from '../webhook-delivery-model';
+import { MemoryTables, now, newId, copy, selectRows } from './memory-store';
+
+export class MemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async enqueue(webhookIds: string[], payload: WebhookPayload): Promise<WebhookDelivery[]> {
+    return webhookIds.map((webhookId) => {
+      const timestamp = now();
+      const delivery: WebhookDelivery = {
+        delivery_id: newId(),
+        webhook_id: webhookId,
+        event: payload.event,
+        payload: { ...payload },
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: timestamp,
+        last_status_code: null,
+        last_error: null,
+        created_at: timestamp,
+        delivered_at: null,
+      };
+      this.tables.webhookDeliveries.set(delivery.delivery_id, delivery);
+      return copy(delivery);
+    });
+  }
+
+  async claimDue(limit: number, leaseSeconds: number, maxAttempts: number): Promise<ClaimedDelivery[]> {
+    // Same clock as enqueue, which can run a few ms ahead of Date.now()
+    const current = now().getTime();
+    const due = [...this.tables.webhookDeliveries.values()]
+      .filter((d) => d.status === 'pending' && d.next_attempt_at.getTime() <= current && d.attempts < maxAttempts)
+      .sort((a, b) => a.next_attempt_at.getTime() - b.next_attempt_at.getTime())
+      .slice(0, limit);
+
+    return due.map((delivery) => {
+      const webhook = this.tables.webhooks.get(delivery.webhook_id)!;
+      delivery.attempts += 1;
+      delivery.next_attempt_at = new Date(current + leaseSeconds * 1000);
+      return { ...copy(delivery), url: webhook.url, secret: webhook.secret };
+    });
+  }
+
+  async recordAttempt(deliveryId: string, attempt: DeliveryAttempt): Promise<void> {
+    const delivery = this.tables.webhookDeliveries.get(deliveryId);
+    if (!delivery) return;
+    delivery.status = attempt.status;
+    delivery.last_status_code = attempt.status_code ?? null;
+    delivery.last_error = attempt.error ?? null;
+    delivery.next_attempt_at = attempt.next_attempt_at ?? delivery.next_attempt_at;
+    if (attempt.status === 'delivered') delivery.delivered_at = now();
+  }
+
+  async findByWebhookId(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return selectRows(this.tables.webhookDeliveries, (d) => d.webhook_id === webhookId)
+      .reverse()
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * In-memory webhook repository
+ */
+
+import type { Webhook, CreateWebhookData, WebhookRepository } from '../webhook-model';
+import { DatabaseError } from '../../utils/error-utils';
+import { MemoryTables, now, newId, copy, selectRows, countRows, deleteRows } from './memory-store';
+
+export class MemoryWebhookRepository implements WebhookRepository {
+  constructor(private readonly tables: MemoryTables) {}
+
+  async create(data: CreateWebhookData): Promise<Webhook> {
+    if (!this.tables.links.has(data.link_id)) {
+      throw new DatabaseError('Failed to create webhook', new Error('link_id violates foreign key'));
+    }
+    const webhook: Webhook = { webhook_id: newId(), ...data, created_at: now() };
+    this.tables.webhooks.set(webhook.webhook_id, webhook);
+    return copy(webhook);
+  }
+
+  async findById(webhookId: string): Promise<Webhook | null> {
+    const webhook = this.tables.webhooks.get(webhookId);
+    return webhook ? copy(webhook) : null;
+  }
+
+  async findByLinkId(linkId: string): Promise<Webhook[]> {
+    return selectRows(this.tables.webhooks, (w) => w.link_id === linkId);
+  }
+
+  async countByLinkId(linkId: string): Promise<number> {
+    return countRows(this.tables.webhooks, (w) => w.link_id === linkId);
+  }
+
+  async delete(webhookId: string): Promise<boolean> {
+    deleteRows(this.tables.webhookDeliveries, (d) => d.webhook_id === webhookId);
+    return this.tables.webhooks.delete(webhookId);
+  }
+}
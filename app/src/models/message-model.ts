@@ -25,7 +25,17 @@ export interface CreateMessageData {
   sender_id?: string;
 }
 
-export class MessageModel {
+/**
+ * Message storage (Postgres: MessageModel; in-memory: models/memory)
+ */
+export interface MessageRepository {
+  create(data: CreateMessageData): Promise<Message>;
+  findByThreadId(threadId: string, limit: number, offset: number): Promise<Message[]>;
+  countByThreadId(threadId: string): Promise<number>;
+  deleteByThreadId(threadId: string): Promise<void>;
+}
+
+export class MessageModel implements MessageRepository {
   private get db(): Pool {
     return getDb();
   }
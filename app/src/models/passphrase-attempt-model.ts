@@ -0,0 +1,135 @@
+/**
+ * Passphrase Attempt Model
+ * Ledger of wrong OPSEC passphrases and lockouts per thread or link
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+/** thread: POST /thread/:id/unlock; link: passphrase on the first send */
+export type PassphraseScope = 'thread' | 'link';
+
+export interface PassphraseAttempt {
+  scope: PassphraseScope;
+  subject_id: string;
+  failures: number;
+  locked_until: Date | null;
+  last_failed_at: Date;
+}
+
+/** How wrong guesses are counted and locked out */
+export interface LockoutPolicy {
+  /** The count restarts when the previous failure is older than this */
+  windowMs: number;
+  /** Failures that only count */
+  freeAttempts: number;
+  /** Lockout after the first failure past the free ones, doubling per failure */
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+/** Result of reserving a guess before it is checked */
+export interface AttemptReservation {
+  /** A lockout was running: nothing was counted, locked_until is when it ends */
+  locked: boolean;
+  /** Failures so far, counting this guess as one */
+  failures: number;
+  /** Lockout already in place in case this guess is wrong (null while free) */
+  locked_until: Date | null;
+}
+
+/**
+ * Lockout after the `failures`-th wrong guess (0 while still free)
+ */
+export function lockoutFor(failures: number, policy: LockoutPolicy): number {
+  if (failures <= policy.freeAttempts) return 0;
+  return Math.min(policy.baseLockoutMs * 2 ** (failures - policy.freeAttempts - 1), policy.maxLockoutMs);
+}
+
+/**
+ * Passphrase attempt storage (Postgres: PassphraseAttemptModel; in-memory: models/memory)
+ */
+export interface PassphraseAttemptRepository {
+  find(scope: PassphraseScope, subjectId: string): Promise<PassphraseAttempt | null>;
+  /**
+   * Count a guess as a failure before it is checked, and start the lockout it
+   * would earn, unless a lockout is running. Atomic, so concurrent guesses
+   * can't all slip in before the first one is found wrong.
+   */
+  reserve(scope: PassphraseScope, subjectId: string, policy: LockoutPolicy): Promise<AttemptReservation>;
+  clear(scope: PassphraseScope, subjectId: string): Promise<void>;
+}
+
+/** failures after this guess, inside the upsert ($3: window in ms) */
+const NEXT_FAILURES = `CASE
+  WHEN pa.last_failed_at < CURRENT_TIMESTAMP - $3 * INTERVAL '1 millisecond' THEN 1
+  ELSE pa.failures + 1
+END`;
+
+export class PassphraseAttemptModel implements PassphraseAttemptRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async find(scope: PassphraseScope, subjectId: string): Promise<PassphraseAttempt | null> {
+    try {
+      const result = await this.db.query(
+        'SELECT * FROM passphrase_attempts WHERE scope = $1 AND subject_id = $2',
+        [scope, subjectId]
+      );
+      return (result.rows[0] as PassphraseAttempt) || null;
+    } catch (error) {
+      logger.error('Failed to find passphrase attempts', { error, scope });
+      throw new DatabaseError('Failed to find passphrase attempts', error as Error);
+    }
+  }
+
+  /**
+   * Single upsert, so concurrent guesses each count exactly once, and the
+   * lockout is checked on the row it updates. Mirrors lockoutFor ($4 free,
+   * $5 base, $6 max; the exponent is capped so POWER can't overflow). A
+   * running lockout updates nothing and returns no row.
+   */
+  async reserve(scope: PassphraseScope, subjectId: string, policy: LockoutPolicy): Promise<AttemptReservation> {
+    const query = `
+      INSERT INTO passphrase_attempts AS pa (scope, subject_id, failures, locked_until)
+      VALUES ($1, $2, 1, CASE WHEN 1 > $4 THEN CURRENT_TIMESTAMP + $5 * INTERVAL '1 millisecond' END)
+      ON CONFLICT (scope, subject_id) DO UPDATE SET
+        failures = ${NEXT_FAILURES},
+        locked_until = CASE WHEN ${NEXT_FAILURES} > $4 THEN CURRENT_TIMESTAMP +
+          LEAST($5 * POWER(2, LEAST(${NEXT_FAILURES} - $4 - 1, 30)), $6) * INTERVAL '1 millisecond' END,
+        last_failed_at = CURRENT_TIMESTAMP
+      WHERE pa.locked_until IS NULL OR pa.locked_until <= CURRENT_TIMESTAMP
+      RETURNING failures, locked_until
+    `;
+
+    let reserved: { failures: number; locked_until: Date | null } | undefined;
+    try {
+      const result = await this.db.query(query, [
+        scope, subjectId, policy.windowMs, policy.freeAttempts, policy.baseLockoutMs, policy.maxLockoutMs,
+      ]);
+      reserved = result.rows[0];
+    } catch (error) {
+      logger.error('Failed to reserve passphrase attempt', { error, scope });
+      throw new DatabaseError('Failed to reserve passphrase attempt', error as Error);
+    }
+
+    if (reserved) return { locked: false, ...reserved };
+    const running = await this.find(scope, subjectId);
+    return { locked: true, failures: running?.failures ?? 0, locked_until: running?.locked_until ?? null };
+  }
+
+  async clear(scope: PassphraseScope, subjectId: string): Promise<void> {
+    try {
+      await this.db.query(
+        'DELETE FROM passphrase_attempts WHERE scope = $1 AND subject_id = $2',
+        [scope, subjectId]
+      );
+    } catch (error) {
+      logger.error('Failed to clear passphrase attempts', { error, scope });
+      throw new DatabaseError('Failed to clear passphrase attempts', error as Error);
+    }
+  }
+}
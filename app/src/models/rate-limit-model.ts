@@ -0,0 +1,115 @@
+/**
+ * Rate Limit Model
+ * Shared fixed-window hit counters and per-limiter limit overrides
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export interface RateLimitHit {
+  total_hits: number;
+  reset_at: Date;
+}
+
+/** Row in rate_limit_policies, overriding a limiter's built-in window and max */
+export interface RateLimitPolicy {
+  name: string;
+  window_seconds: number;
+  max_hits: number;
+  updated_at: Date;
+}
+
+/**
+ * Rate limit storage (Postgres: RateLimitModel; in-memory: models/memory)
+ */
+export interface RateLimitRepository {
+  /** Count a hit; starts a new window when the key's window has passed */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  decrement(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+  findPolicies(): Promise<RateLimitPolicy[]>;
+  /** Upsert an override (operators can equally edit the table with SQL) */
+  savePolicy(name: string, windowSeconds: number, maxHits: number): Promise<RateLimitPolicy>;
+}
+
+export class RateLimitModel implements RateLimitRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  /**
+   * Single upsert, so concurrent hits from any process count exactly once each
+   */
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const query = `
+      INSERT INTO rate_limit_hits (key, hits, reset_at)
+      VALUES ($1, 1, CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond')
+      ON CONFLICT (key) DO UPDATE SET
+        hits = CASE WHEN rate_limit_hits.reset_at <= CURRENT_TIMESTAMP THEN 1 ELSE rate_limit_hits.hits + 1 END,
+        reset_at = CASE WHEN rate_limit_hits.reset_at <= CURRENT_TIMESTAMP
+          THEN EXCLUDED.reset_at ELSE rate_limit_hits.reset_at END
+      RETURNING hits AS total_hits, reset_at
+    `;
+
+    try {
+      const result = await this.db.query(query, [key, windowMs]);
+      return result.rows[0] as RateLimitHit;
+    } catch (error) {
+      logger.error('Failed to count rate limit hit', { error });
+      throw new DatabaseError('Failed to count rate limit hit', error as Error);
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    try {
+      await this.db.query(
+        'UPDATE rate_limit_hits SET hits = GREATEST(hits - 1, 0) WHERE key = $1 AND reset_at > CURRENT_TIMESTAMP',
+        [key]
+      );
+    } catch (error) {
+      logger.error('Failed to decrement rate limit hit', { error });
+      throw new DatabaseError('Failed to decrement rate limit hit', error as Error);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    try {
+      await this.db.query('DELETE FROM rate_limit_hits WHERE key = $1', [key]);
+    } catch (error) {
+      logger.error('Failed to reset rate limit', { error });
+      throw new DatabaseError('Failed to reset rate limit', error as Error);
+    }
+  }
+
+  async findPolicies(): Promise<RateLimitPolicy[]> {
+    try {
+      const result = await this.db.query('SELECT * FROM rate_limit_policies');
+      return result.rows as RateLimitPolicy[];
+    } catch (error) {
+      logger.error('Failed to load rate limit policies', { error });
+      throw new DatabaseError('Failed to load rate limit policies', error as Error);
+    }
+  }
+
+  async savePolicy(name: string, windowSeconds: number, maxHits: number): Promise<RateLimitPolicy> {
+    const query = `
+      INSERT INTO rate_limit_policies (name, window_seconds, max_hits)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (name) DO UPDATE SET
+        window_seconds = EXCLUDED.window_seconds,
+        max_hits = EXCLUDED.max_hits,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [name, windowSeconds, maxHits]);
+      return result.rows[0] as RateLimitPolicy;
+    } catch (error) {
+      logger.error('Failed to save rate limit policy', { error, name });
+      throw new DatabaseError('Failed to save rate limit policy', error as Error);
+    }
+  }
+}
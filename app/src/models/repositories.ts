@@ -0,0 +1,167 @@
+/**
+ * Repositories
+ * Picks the storage backend for every model from DATA_STORE:
+ *   postgres (default) — the *Model classes over the pg pool
+ *   memory             — process-local tables in models/memory, for running
+ *                        the API and integration tests without Postgres
+ * Services take their models from getRepositories() instead of constructing
+ * them, so both backends share one code path above the model layer.
+ */
+
+import { getDb } from '../config/database';
+import { LinkModel, LinkRepository } from './link-model';
+import { ThreadModel, ThreadRepository } from './thread-model';
+import { MessageModel, MessageRepository } from './message-model';
+import { UserModel, UserRepository } from './user-model';
+import { RoomModel, RoomRepository } from './room-model';
+import { RoomParticipantModel, RoomParticipantRepository } from './room-participant-model';
+import { RoomMessageModel, RoomMessageRepository } from './room-message-model';
+import { RoomInviteModel, RoomInviteRepository } from './room-invite-model';
+import { RoomKeyDistributionModel, RoomKeyDistributionRepository } from './room-key-distribution-model';
+import { BroadcastChannelModel, BroadcastChannelRepository } from './broadcast-channel-model';
+import { BroadcastPostModel, BroadcastPostRepository } from './broadcast-post-model';
+import { BroadcastTokenModel, BroadcastTokenRepository } from './broadcast-token-model';
+import { AttachmentModel, AttachmentRepository } from './attachment-model';
+import { WebhookModel, WebhookRepository } from './webhook-model';
+import { WebhookDeliveryModel, WebhookDeliveryRepository } from './webhook-delivery-model';
+import { LinkAutoReplyModel, LinkAutoReplyRepository } from './link-auto-reply-model';
+import { DeviceModel, DeviceRepository } from './device-model';
+import { DeviceLinkModel, DeviceLinkRepository } from './device-link-model';
+import { KeyBundleModel, KeyBundleRepository } from './key-bundle-model';
+import { RateLimitModel, RateLimitRepository } from './rate-limit-model';
+import { PassphraseAttemptModel, PassphraseAttemptRepository } from './passphrase-attempt-model';
+import { SpentChallengeModel, SpentChallengeRepository } from './spent-challenge-model';
+import { createTables } from './memory/memory-store';
+import { MemoryLinkRepository } from './memory/link-repository';
+import { MemoryThreadRepository } from './memory/thread-repository';
+import { MemoryMessageRepository } from './memory/message-repository';
+import { MemoryUserRepository } from './memory/user-repository';
+import { MemoryRoomRepository } from './memory/room-repository';
+import { MemoryRoomParticipantRepository } from './memory/room-participant-repository';
+import { MemoryRoomMessageRepository } from './memory/room-message-repository';
+import { MemoryRoomInviteRepository } from './memory/room-invite-repository';
+import { MemoryRoomKeyDistributionRepository } from './memory/room-key-distribution-repository';
+import { MemoryBroadcastChannelRepository } from './memory/broadcast-channel-repository';
+import { MemoryBroadcastPostRepository } from './memory/broadcast-post-repository';
+import { MemoryBroadcastTokenRepository } from './memory/broadcast-token-repository';
+import { MemoryAttachmentRepository } from './memory/attachment-repository';
+import { MemoryWebhookRepository } from './memory/webhook-repository';
+import { MemoryWebhookDeliveryRepository } from './memory/webhook-delivery-repository';
+import { MemoryLinkAutoReplyRepository } from './memory/link-auto-reply-repository';
+import { MemoryDeviceRepository } from './memory/device-repository';
+import { MemoryDeviceLinkRepository } from './memory/device-link-repository';
+import { MemoryKeyBundleRepository } from './memory/key-bundle-repository';
+import { MemoryRateLimitRepository } from './memory/rate-limit-repository';
+import { MemoryPassphraseAttemptRepository } from './memory/passphrase-attempt-repository';
+import { MemorySpentChallengeRepository } from './memory/spent-challenge-repository';
+
+export type DataStore = 'postgres' | 'memory';
+
+export interface Repositories {
+  links: LinkRepository;
+  threads: ThreadRepository;
+  messages: MessageRepository;
+  users: UserRepository;
+  rooms: RoomRepository;
+  roomParticipants: RoomParticipantRepository;
+  roomMessages: RoomMessageRepository;
+  roomInvites: RoomInviteRepository;
+  roomKeyDistribution: RoomKeyDistributionRepository;
+  broadcastChannels: BroadcastChannelRepository;
+  broadcastPosts: BroadcastPostRepository;
+  broadcastTokens: BroadcastTokenRepository;
+  attachments: AttachmentRepository;
+  webhooks: WebhookRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+  linkAutoReplies: LinkAutoReplyRepository;
+  devices: DeviceRepository;
+  deviceLinks: DeviceLinkRepository;
+  keyBundles: KeyBundleRepository;
+  rateLimits: RateLimitRepository;
+  passphraseAttempts: PassphraseAttemptRepository;
+  spentChallenges: SpentChallengeRepository;
+  /** Rejects when the backing store is unreachable (readiness check) */
+  ping(): Promise<void>;
+}
+
+let repositories: Repositories | null = null;
+
+/** Read lazily — dotenv loads after module imports. */
+export function getDataStore(): DataStore {
+  const store = (process.env.DATA_STORE || 'postgres').toLowerCase();
+  if (store !== 'postgres' && store !== 'memory') {
+    throw new Error(`Unsupported DATA_STORE: ${store}`);
+  }
+  return store;
+}
+
+export function isMemoryStore(): boolean {
+  return getDataStore() === 'memory';
+}
+
+function createPostgresRepositories(): Repositories {
+  return {
+    links: new LinkModel(),
+    threads: new ThreadModel(),
+    messages: new MessageModel(),
+    users: new UserModel(),
+    rooms: new RoomModel(),
+    roomParticipants: new RoomParticipantModel(),
+    roomMessages: new RoomMessageModel(),
+    roomInvites: new RoomInviteModel(),
+    roomKeyDistribution: new RoomKeyDistributionModel(),
+    broadcastChannels: new BroadcastChannelModel(),
+    broadcastPosts: new BroadcastPostModel(),
+    broadcastTokens: new BroadcastTokenModel(),
+    attachments: new AttachmentModel(),
+    webhooks: new WebhookModel(),
+    webhookDeliveries: new WebhookDeliveryModel(),
+    linkAutoReplies: new LinkAutoReplyModel(),
+    devices: new DeviceModel(),
+    deviceLinks: new DeviceLinkModel(),
+    keyBundles: new KeyBundleModel(),
+    rateLimits: new RateLimitModel(),
+    passphraseAttempts: new PassphraseAttemptModel(),
+    spentChallenges: new SpentChallengeModel(),
+    ping: async () => {
+      await getDb().query('SELECT 1');
+    },
+  };
+}
+
+function createMemoryRepositories(): Repositories {
+  const tables = createTables();
+  return {
+    links: new MemoryLinkRepository(tables),
+    threads: new MemoryThreadRepository(tables),
+    messages: new MemoryMessageRepository(tables),
+    users: new MemoryUserRepository(tables),
+    rooms: new MemoryRoomRepository(tables),
+    roomParticipants: new MemoryRoomParticipantRepository(tables),
+    roomMessages: new MemoryRoomMessageRepository(tables),
+    roomInvites: new MemoryRoomInviteRepository(tables),
+    roomKeyDistribution: new MemoryRoomKeyDistributionRepository(tables),
+    broadcastChannels: new MemoryBroadcastChannelRepository(tables),
+    broadcastPosts: new MemoryBroadcastPostRepository(tables),
+    broadcastTokens: new MemoryBroadcastTokenRepository(tables),
+    attachments: new MemoryAttachmentRepository(tables),
+    webhooks: new MemoryWebhookRepository(tables),
+    webhookDeliveries: new MemoryWebhookDeliveryRepository(tables),
+    linkAutoReplies: new MemoryLinkAutoReplyRepository(tables),
+    devices: new MemoryDeviceRepository(tables),
+    deviceLinks: new MemoryDeviceLinkRepository(tables),
+    keyBundles: new MemoryKeyBundleRepository(tables),
+    rateLimits: new MemoryRateLimitRepository(tables),
+    passphraseAttempts: new MemoryPassphraseAttemptRepository(tables),
+    spentChallenges: new MemorySpentChallengeRepository(tables),
+    ping: async () => {},
+  };
+}
+
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = getDataStore() === 'memory' ? createMemoryRepositories() : createPostgresRepositories();
+  }
+  return repositories;
+}
+
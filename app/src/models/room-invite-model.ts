@@ -26,7 +26,22 @@ export interface CreateInviteData {
   expires_at: Date;
 }
 
-export class RoomInviteModel {
+/**
+ * Room invite storage (Postgres: RoomInviteModel; in-memory: models/memory)
+ */
+export interface RoomInviteRepository {
+  create(data: CreateInviteData): Promise<RoomInvite>;
+  createMany(invites: CreateInviteData[]): Promise<RoomInvite[]>;
+  findByTokenHash(tokenHash: string): Promise<RoomInvite | null>;
+  findValidByTokenHash(tokenHash: string): Promise<RoomInvite | null>;
+  findByRoomId(roomId: string): Promise<RoomInvite[]>;
+  redeem(inviteId: string): Promise<RoomInvite>;
+  revoke(inviteId: string): Promise<void>;
+  revokeForRoom(roomId: string, inviteId: string): Promise<number>;
+  countByRoomId(roomId: string): Promise<number>;
+}
+
+export class RoomInviteModel implements RoomInviteRepository {
   private get db(): Pool {
     return getDb();
   }
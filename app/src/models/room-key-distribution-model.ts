@@ -0,0 +1,144 @@
+/**
+ * Room Key Distribution Model
+ * First-key distribution for approved participants: leasing members who still
+ * need a wrapped group key to one distributor, writing wraps in batches, and
+ * delegating key-wrapping rights to approved members.
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { AppError, DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import type { RoomParticipant } from './room-participant-model';
+
+export interface WrappedKeyBatch {
+  room_id: string;
+  /** Wrapped group key per participant_id */
+  wrapped_keys: Map<string, string>;
+  /** Delegate's public key; null when wrapped with the room key */
+  wrapper_public_key: string | null;
+}
+
+/**
+ * Called with the locked room's current key epoch; throwing aborts the batch
+ * before anything is written.
+ */
+export type EpochCheck = (currentEpoch: number) => void;
+
+/**
+ * Key distribution storage (Postgres: RoomKeyDistributionModel; in-memory: models/memory)
+ */
+export interface RoomKeyDistributionRepository {
+  /**
+   * Lease up to `limit` approved participants still waiting for their first
+   * key to claimantId. Leases held by other distributors for less than
+   * leaseSeconds are skipped, so distributors split the work.
+   */
+  claimNeedingKeys(roomId: string, claimantId: string, limit: number, leaseSeconds: number): Promise<RoomParticipant[]>;
+  /**
+   * Store first keys for approved participants that have none yet (others are
+   * skipped). Returns the participants that were updated.
+   */
+  setWrappedKeys(batch: WrappedKeyBatch, check: EpochCheck): Promise<RoomParticipant[]>;
+  /** Grant or revoke key-wrapping rights; null unless an approved non-creator */
+  setDistributor(participantId: string, enabled: boolean): Promise<RoomParticipant | null>;
+}
+
+export class RoomKeyDistributionModel implements RoomKeyDistributionRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async claimNeedingKeys(
+    roomId: string,
+    claimantId: string,
+    limit: number,
+    leaseSeconds: number
+  ): Promise<RoomParticipant[]> {
+    const query = `
+      UPDATE room_participants
+      SET key_claimed_by = $2, key_claimed_at = CURRENT_TIMESTAMP
+      WHERE participant_id IN (
+        SELECT participant_id FROM room_participants
+        WHERE room_id = $1
+          AND status = 'approved'
+          AND wrapped_group_key IS NULL
+          AND is_creator = FALSE
+          AND (key_claimed_by IS NULL OR key_claimed_by = $2
+            OR key_claimed_at < CURRENT_TIMESTAMP - ($4 || ' seconds')::INTERVAL)
+        ORDER BY created_at ASC, participant_id ASC
+        LIMIT $3
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [roomId, claimantId, limit, leaseSeconds]);
+      return (result.rows as RoomParticipant[]).sort(
+        (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+      );
+    } catch (error) {
+      logger.error('Failed to claim participants needing keys', { error, room_id: roomId });
+      throw new DatabaseError('Failed to find participants', error as Error);
+    }
+  }
+
+  /**
+   * Shares the room row lock with key rotation, so a batch wrapped under the
+   * old epoch can't land after a rotation has picked its key holders.
+   */
+  async setWrappedKeys(batch: WrappedKeyBatch, check: EpochCheck): Promise<RoomParticipant[]> {
+    const { room_id: roomId, wrapped_keys: wraps, wrapper_public_key: wrapperPublicKey } = batch;
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      const locked = await client.query('SELECT key_epoch FROM rooms WHERE room_id = $1 FOR SHARE', [roomId]);
+      check(locked.rows[0].key_epoch as number);
+
+      const ids = [...wraps.keys()];
+      const result = await client.query(
+        `UPDATE room_participants p
+         SET wrapped_group_key = k.wrapped,
+             key_wrapper_public_key = $4,
+             key_claimed_by = NULL,
+             key_claimed_at = NULL,
+             joined_at = COALESCE(p.joined_at, CURRENT_TIMESTAMP)
+         FROM unnest($2::uuid[], $3::text[]) AS k(id, wrapped)
+         WHERE p.participant_id = k.id
+           AND p.room_id = $1
+           AND p.status = 'approved'
+           AND p.wrapped_group_key IS NULL
+           AND p.is_creator = FALSE
+         RETURNING p.*`,
+        [roomId, ids, ids.map((id) => wraps.get(id)), wrapperPublicKey]
+      );
+      await client.query('COMMIT');
+      return result.rows as RoomParticipant[];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof AppError) throw error;
+      logger.error('Failed to set wrapped keys', { error, room_id: roomId });
+      throw new DatabaseError('Failed to set wrapped keys', error as Error);
+    } finally {
+      client.release();
+    }
+  }
+
+  async setDistributor(participantId: string, enabled: boolean): Promise<RoomParticipant | null> {
+    const query = `
+      UPDATE room_participants
+      SET can_distribute_keys = $2
+      WHERE participant_id = $1 AND status = 'approved' AND is_creator = FALSE
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [participantId, enabled]);
+      return (result.rows[0] as RoomParticipant) || null;
+    } catch (error) {
+      logger.error('Failed to update key distributor', { error, participant_id: participantId });
+      throw new DatabaseError('Failed to update key distributor', error as Error);
+    }
+  }
+}
@@ -14,7 +14,11 @@ export interface RoomMessage {
   participant_id: string;
   ciphertext: string;
   nonce: string;
+  key_epoch: number;
   created_at: Date;
+  edited_at: Date | null;
+  /** Set when unsent; ciphertext and nonce are blanked */
+  deleted_at: Date | null;
 }
 
 export interface CreateRoomMessageData {
@@ -22,6 +26,13 @@ export interface CreateRoomMessageData {
   participant_id: string;
   ciphertext: string;
   nonce: string;
+  key_epoch?: number;
+}
+
+export interface EditRoomMessageData {
+  ciphertext: string;
+  nonce: string;
+  key_epoch: number;
 }
 
 export interface RoomMessageWithSender extends RoomMessage {
@@ -29,15 +40,37 @@ export interface RoomMessageWithSender extends RoomMessage {
   display_name?: string;
 }
 
-export class RoomMessageModel {
+/**
+ * Room message storage (Postgres: RoomMessageModel; in-memory: models/memory)
+ */
+export interface RoomMessageRepository {
+  create(data: CreateRoomMessageData): Promise<RoomMessage>;
+  findByRoomId(roomId: string, limit: number, offset: number): Promise<RoomMessageWithSender[]>;
+  findAfterCursor(
+    roomId: string,
+    cursorTime: Date,
+    cursorMessageId: string,
+    limit?: number
+  ): Promise<RoomMessageWithSender[]>;
+  findSinceTimestamp(roomId: string, since: Date, limit?: number): Promise<RoomMessageWithSender[]>;
+  findById(messageId: string): Promise<RoomMessageWithSender | null>;
+  countByRoomId(roomId: string): Promise<number>;
+  /** Replace the ciphertext of a live message; null if missing or unsent */
+  edit(messageId: string, data: EditRoomMessageData): Promise<RoomMessage | null>;
+  /** Blank a message into a tombstone; null if missing or already unsent */
+  markDeleted(messageId: string): Promise<RoomMessage | null>;
+  deleteByRoomId(roomId: string): Promise<void>;
+}
+
+export class RoomMessageModel implements RoomMessageRepository {
   private get db(): Pool {
     return getDb();
   }
 
   async create(data: CreateRoomMessageData): Promise<RoomMessage> {
     const query = `
-      INSERT INTO room_messages (room_id, participant_id, ciphertext, nonce)
-      VALUES ($1, $2, $3, $4)
+      INSERT INTO room_messages (room_id, participant_id, ciphertext, nonce, key_epoch)
+      VALUES ($1, $2, $3, $4, $5)
       RETURNING *
     `;
 
@@ -47,6 +80,7 @@ export class RoomMessageModel {
         data.participant_id,
         data.ciphertext,
         data.nonce,
+        data.key_epoch ?? 0,
       ]);
       return result.rows[0] as RoomMessage;
     } catch (error) {
@@ -133,6 +167,23 @@ export class RoomMessageModel {
     }
   }
 
+  async findById(messageId: string): Promise<RoomMessageWithSender | null> {
+    const query = `
+      SELECT m.*, p.anonymous_id, p.display_name
+      FROM room_messages m
+      JOIN room_participants p ON m.participant_id = p.participant_id
+      WHERE m.message_id = $1
+    `;
+
+    try {
+      const result = await this.db.query(query, [messageId]);
+      return (result.rows[0] as RoomMessageWithSender) || null;
+    } catch (error) {
+      logger.error('Failed to find room message', { error, message_id: messageId });
+      throw new DatabaseError('Failed to find message', error as Error);
+    }
+  }
+
   async countByRoomId(roomId: string): Promise<number> {
     const query = 'SELECT COUNT(*) as count FROM room_messages WHERE room_id = $1';
 
@@ -145,6 +196,40 @@ export class RoomMessageModel {
     }
   }
 
+  async edit(messageId: string, data: EditRoomMessageData): Promise<RoomMessage | null> {
+    const query = `
+      UPDATE room_messages
+      SET ciphertext = $2, nonce = $3, key_epoch = $4, edited_at = CURRENT_TIMESTAMP
+      WHERE message_id = $1 AND deleted_at IS NULL
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [messageId, data.ciphertext, data.nonce, data.key_epoch]);
+      return (result.rows[0] as RoomMessage) || null;
+    } catch (error) {
+      logger.error('Failed to edit room message', { error, message_id: messageId });
+      throw new DatabaseError('Failed to edit message', error as Error);
+    }
+  }
+
+  async markDeleted(messageId: string): Promise<RoomMessage | null> {
+    const query = `
+      UPDATE room_messages
+      SET ciphertext = '', nonce = '', deleted_at = CURRENT_TIMESTAMP
+      WHERE message_id = $1 AND deleted_at IS NULL
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [messageId]);
+      return (result.rows[0] as RoomMessage) || null;
+    } catch (error) {
+      logger.error('Failed to delete room message', { error, message_id: messageId });
+      throw new DatabaseError('Failed to delete message', error as Error);
+    }
+  }
+
   async deleteByRoomId(roomId: string): Promise<void> {
     const query = 'DELETE FROM room_messages WHERE room_id = $1';
 
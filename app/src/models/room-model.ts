@@ -17,12 +17,15 @@ export interface Room {
   updated_at: Date;
   expires_at: Date;
   locked_at?: Date;
+  /** Start of the current join window: creation, or the last reopen */
+  join_window_opened_at: Date;
   join_window_minutes: number;
   max_participants: number;
   participant_count: number;
   auto_approve: boolean;
   burned: boolean;
   group_public_key: string;
+  key_epoch: number;
 }
 
 export interface CreateRoomData {
@@ -36,7 +39,26 @@ export interface CreateRoomData {
   group_public_key: string;
 }
 
-export class RoomModel {
+/**
+ * Room storage (Postgres: RoomModel; in-memory: models/memory)
+ */
+export interface RoomRepository {
+  create(data: CreateRoomData): Promise<Room>;
+  findById(roomId: string): Promise<Room | null>;
+  findActiveById(roomId: string): Promise<Room | null>;
+  findByUserId(userId: string, limit: number, offset: number): Promise<Room[]>;
+  countByUserId(userId: string): Promise<number>;
+  lock(roomId: string): Promise<Room>;
+  /** Move expires_at on a live room; null if burned or already expired */
+  extend(roomId: string, expiresAt: Date): Promise<Room | null>;
+  /** Unlock and start a fresh join window; null if burned or expired */
+  reopen(roomId: string, joinWindowMinutes: number): Promise<Room | null>;
+  burn(roomId: string): Promise<void>;
+  isLocked(roomId: string): Promise<boolean>;
+  isFull(roomId: string): Promise<boolean>;
+}
+
+export class RoomModel implements RoomRepository {
   private get db(): Pool {
     return getDb();
   }
@@ -154,6 +176,43 @@ export class RoomModel {
     }
   }
 
+  async extend(roomId: string, expiresAt: Date): Promise<Room | null> {
+    const query = `
+      UPDATE rooms
+      SET expires_at = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE room_id = $1 AND burned = FALSE AND expires_at > CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [roomId, expiresAt]);
+      return (result.rows[0] as Room) || null;
+    } catch (error) {
+      logger.error('Failed to extend room', { error, room_id: roomId });
+      throw new DatabaseError('Failed to extend room', error as Error);
+    }
+  }
+
+  async reopen(roomId: string, joinWindowMinutes: number): Promise<Room | null> {
+    const query = `
+      UPDATE rooms
+      SET locked_at = NULL,
+          join_window_opened_at = CURRENT_TIMESTAMP,
+          join_window_minutes = $2,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE room_id = $1 AND burned = FALSE AND expires_at > CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [roomId, joinWindowMinutes]);
+      return (result.rows[0] as Room) || null;
+    } catch (error) {
+      logger.error('Failed to reopen room', { error, room_id: roomId });
+      throw new DatabaseError('Failed to reopen room', error as Error);
+    }
+  }
+
   async burn(roomId: string): Promise<void> {
     const client = await this.db.connect();
     try {
@@ -191,7 +250,7 @@ export class RoomModel {
   async isLocked(roomId: string): Promise<boolean> {
     const query = `
       SELECT locked_at IS NOT NULL OR
-        created_at + (join_window_minutes || ' minutes')::INTERVAL < CURRENT_TIMESTAMP
+        join_window_opened_at + (join_window_minutes || ' minutes')::INTERVAL < CURRENT_TIMESTAMP
         AS is_locked
       FROM rooms WHERE room_id = $1
     `;
@@ -5,10 +5,17 @@
 
 import { Pool } from 'pg';
 import { getDb } from '../config/database';
-import { DatabaseError, NotFoundError } from '../utils/error-utils';
+import { AppError, DatabaseError, NotFoundError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 
-export type ParticipantStatus = 'pending' | 'approved' | 'rejected';
+export type ParticipantStatus = 'pending' | 'approved' | 'rejected' | 'removed';
+
+export interface PreviousGroupKey {
+  key_epoch: number;
+  wrapped_group_key: string;
+  /** Delegate that wrapped it; null means the room key */
+  wrapper_public_key: string | null;
+}
 
 export interface RoomParticipant {
   participant_id: string;
@@ -22,9 +29,22 @@ export interface RoomParticipant {
   joined_at?: Date;
   watermark_seed: string;
   is_creator: boolean;
+  /** Delegated by the creator to wrap the group key for new members */
+  can_distribute_keys: boolean;
+  /** Delegate that wrapped wrapped_group_key; null means the room key */
+  key_wrapper_public_key?: string | null;
+  /** Distributor currently leasing this participant's first key */
+  key_claimed_by?: string | null;
+  key_claimed_at?: Date | null;
   created_at: Date;
 }
 
+/** Position in a (created_at, participant_id) ordered participant list */
+export interface ParticipantCursor {
+  created_at: Date;
+  participant_id: string;
+}
+
 export interface CreateParticipantData {
   room_id: string;
   invite_id?: string;
@@ -37,7 +57,47 @@ export interface CreateParticipantData {
   is_creator?: boolean;
 }
 
-export class RoomParticipantModel {
+export interface GroupKeyRotation {
+  room_id: string;
+  /** Participant being removed */
+  participant_id: string;
+  key_epoch: number;
+  /** New wrapped group key per remaining holder */
+  wrapped_keys: Map<string, string>;
+}
+
+/**
+ * Called with the locked room's current epoch and the members holding its key;
+ * throwing aborts the rotation before anything is written.
+ */
+export type RotationCheck = (currentEpoch: number, holderIds: string[]) => void;
+
+/**
+ * Participant storage (Postgres: RoomParticipantModel; in-memory: models/memory)
+ */
+export interface RoomParticipantRepository {
+  create(data: CreateParticipantData): Promise<RoomParticipant>;
+  findById(participantId: string): Promise<RoomParticipant | null>;
+  findByRoomId(roomId: string): Promise<RoomParticipant[]>;
+  /** Next `limit` participants after the cursor, optionally of one status */
+  findPageByRoomId(
+    roomId: string,
+    limit: number,
+    after?: ParticipantCursor,
+    status?: ParticipantStatus
+  ): Promise<RoomParticipant[]>;
+  findApprovedByRoomId(roomId: string): Promise<RoomParticipant[]>;
+  findPendingByRoomId(roomId: string): Promise<RoomParticipant[]>;
+  findByAnonymousId(roomId: string, anonymousId: string): Promise<RoomParticipant | null>;
+  approve(participantId: string, wrappedGroupKey: string): Promise<RoomParticipant>;
+  reject(participantId: string): Promise<RoomParticipant>;
+  countApprovedByRoomId(roomId: string): Promise<number>;
+  getCreator(roomId: string): Promise<RoomParticipant | null>;
+  findPreviousKeys(participantId: string): Promise<PreviousGroupKey[]>;
+  rotateGroupKey(rotation: GroupKeyRotation, check: RotationCheck): Promise<boolean>;
+}
+
+export class RoomParticipantModel implements RoomParticipantRepository {
   private get db(): Pool {
     return getDb();
   }
@@ -103,6 +163,36 @@ export class RoomParticipantModel {
     }
   }
 
+  async findPageByRoomId(
+    roomId: string,
+    limit: number,
+    after?: ParticipantCursor,
+    status?: ParticipantStatus
+  ): Promise<RoomParticipant[]> {
+    const query = `
+      SELECT * FROM room_participants
+      WHERE room_id = $1
+        AND ($2::timestamp IS NULL OR (created_at, participant_id) > ($2, $3::uuid))
+        AND ($4::varchar IS NULL OR status = $4)
+      ORDER BY created_at ASC, participant_id ASC
+      LIMIT $5
+    `;
+
+    try {
+      const result = await this.db.query(query, [
+        roomId,
+        after?.created_at ?? null,
+        after?.participant_id ?? null,
+        status ?? null,
+        limit,
+      ]);
+      return result.rows as RoomParticipant[];
+    } catch (error) {
+      logger.error('Failed to page room participants', { error, room_id: roomId });
+      throw new DatabaseError('Failed to find participants', error as Error);
+    }
+  }
+
   async findApprovedByRoomId(roomId: string): Promise<RoomParticipant[]> {
     const query = `
       SELECT * FROM room_participants
@@ -224,50 +314,95 @@ export class RoomParticipantModel {
   }
 
   /**
-   * Find approved participants who still need their group key wrapped
-   * Used for auto-approve rooms where creator must distribute keys client-side
+   * Wrapped group keys this participant held in earlier epochs
+   * Written when the creator rotates the room key
    */
-  async findApprovedNeedingKeys(roomId: string): Promise<RoomParticipant[]> {
+  async findPreviousKeys(participantId: string): Promise<PreviousGroupKey[]> {
     const query = `
-      SELECT * FROM room_participants
-      WHERE room_id = $1
-        AND status = 'approved'
-        AND wrapped_group_key IS NULL
-        AND is_creator = FALSE
-      ORDER BY created_at ASC
+      SELECT key_epoch, wrapped_group_key, wrapper_public_key FROM room_participant_keys
+      WHERE participant_id = $1
+      ORDER BY key_epoch ASC
     `;
 
     try {
-      const result = await this.db.query(query, [roomId]);
-      return result.rows as RoomParticipant[];
+      const result = await this.db.query(query, [participantId]);
+      return result.rows as PreviousGroupKey[];
     } catch (error) {
-      logger.error('Failed to find participants needing keys', { error, room_id: roomId });
-      throw new DatabaseError('Failed to find participants', error as Error);
+      logger.error('Failed to find previous group keys', { error, participant_id: participantId });
+      throw new DatabaseError('Failed to find previous keys', error as Error);
     }
   }
 
   /**
-   * Set wrapped group key for an approved participant
-   * Used after creator wraps the key client-side
+   * Atomic: lock the room, check epoch + holders, archive old wraps, swap in
+   * new ones, remove the participant and bump the room's epoch. The room row
+   * lock serializes rotations. Returns false (nothing written) if the
+   * participant was no longer approved.
    */
-  async setWrappedKey(participantId: string, wrappedGroupKey: string): Promise<RoomParticipant> {
-    const query = `
-      UPDATE room_participants
-      SET wrapped_group_key = $2, joined_at = COALESCE(joined_at, CURRENT_TIMESTAMP)
-      WHERE participant_id = $1 AND status = 'approved'
-      RETURNING *
-    `;
-
+  async rotateGroupKey(rotation: GroupKeyRotation, check: RotationCheck): Promise<boolean> {
+    const { room_id: roomId, participant_id: participantId, key_epoch: keyEpoch, wrapped_keys: wraps } = rotation;
+    const client = await this.db.connect();
     try {
-      const result = await this.db.query(query, [participantId, wrappedGroupKey]);
-      if (result.rows.length === 0) {
-        throw new NotFoundError('Participant');
+      await client.query('BEGIN');
+      const locked = await client.query(
+        'SELECT key_epoch FROM rooms WHERE room_id = $1 FOR UPDATE',
+        [roomId]
+      );
+      const currentEpoch = locked.rows[0].key_epoch as number;
+
+      // Members who hold the current key and stay in the room. The creator's client keeps
+      // its own keys; approved members still waiting for a first key get the new one later.
+      const holders = await client.query(
+        `SELECT participant_id FROM room_participants
+         WHERE room_id = $1 AND status = 'approved' AND is_creator = FALSE
+           AND wrapped_group_key IS NOT NULL AND participant_id <> $2`,
+        [roomId, participantId]
+      );
+      const holderIds: string[] = holders.rows.map((r: { participant_id: string }) => r.participant_id);
+      check(currentEpoch, holderIds);
+
+      if (holderIds.length > 0) {
+        await client.query(
+          `INSERT INTO room_participant_keys (participant_id, key_epoch, wrapped_group_key, wrapper_public_key)
+           SELECT participant_id, $2, wrapped_group_key, key_wrapper_public_key FROM room_participants
+           WHERE participant_id = ANY($1::uuid[])
+           ON CONFLICT (participant_id, key_epoch) DO NOTHING`,
+          [holderIds, currentEpoch]
+        );
+        await client.query(
+          `UPDATE room_participants p SET wrapped_group_key = k.wrapped, key_wrapper_public_key = NULL
+           FROM unnest($1::uuid[], $2::text[]) AS k(id, wrapped)
+           WHERE p.participant_id = k.id`,
+          [holderIds, holderIds.map((id) => wraps.get(id))]
+        );
       }
-      return result.rows[0] as RoomParticipant;
+
+      const removed = await client.query(
+        `UPDATE room_participants
+         SET status = 'removed', wrapped_group_key = NULL, key_wrapper_public_key = NULL,
+             can_distribute_keys = FALSE
+         WHERE participant_id = $1 AND status = 'approved'`,
+        [participantId]
+      );
+      if (removed.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+      await client.query('DELETE FROM room_participant_keys WHERE participant_id = $1', [participantId]);
+      await client.query(
+        `UPDATE rooms SET key_epoch = $2, participant_count = GREATEST(participant_count - 1, 0)
+         WHERE room_id = $1`,
+        [roomId, keyEpoch]
+      );
+      await client.query('COMMIT');
+      return true;
     } catch (error) {
-      if (error instanceof NotFoundError) throw error;
-      logger.error('Failed to set wrapped key', { error, participant_id: participantId });
-      throw new DatabaseError('Failed to set wrapped key', error as Error);
+      await client.query('ROLLBACK');
+      if (error instanceof AppError) throw error;
+      logger.error('Failed to rotate group key', { error, room_id: roomId });
+      throw new DatabaseError('Failed to rotate group key', error as Error);
+    } finally {
+      client.release();
     }
   }
 }
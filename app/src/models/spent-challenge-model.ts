@@ -0,0 +1,40 @@
+/**
+ * Spent Challenge Model
+ * Ids of proof-of-work send challenges already used, shared by every process
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+/**
+ * Spent challenge storage (Postgres: SpentChallengeModel; in-memory: models/memory)
+ */
+export interface SpentChallengeRepository {
+  /** Record the challenge as used; false when it already was */
+  spend(challengeId: string, expiresAt: Date): Promise<boolean>;
+}
+
+export class SpentChallengeModel implements SpentChallengeRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  /**
+   * Single insert, so of concurrent sends with one solution exactly one wins
+   */
+  async spend(challengeId: string, expiresAt: Date): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `INSERT INTO spent_challenges (challenge_id, expires_at) VALUES ($1, $2)
+         ON CONFLICT (challenge_id) DO NOTHING`,
+        [challengeId, expiresAt]
+      );
+      return result.rowCount === 1;
+    } catch (error) {
+      logger.error('Failed to record spent challenge', { error });
+      throw new DatabaseError('Failed to record spent challenge', error as Error);
+    }
+  }
+}
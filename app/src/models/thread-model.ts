@@ -1,12 +1,12 @@
 /**
  * Thread Model
  * Database operations for threads
- * File size: ~175 lines
+ * File size: ~250 lines
  */
 
 import { Pool } from 'pg';
 import { getDb } from '../config/database';
-import { DatabaseError, NotFoundError } from '../utils/error-utils';
+import { DatabaseError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 
 export interface Thread {
@@ -22,6 +22,7 @@ export interface Thread {
   access_token_hash?: string;
   passphrase_hash?: string;
   passphrase_salt?: string;
+  auto_reply_pending?: boolean;
 }
 
 export interface CreateThreadData {
@@ -34,7 +35,44 @@ export interface CreateThreadData {
   passphrase_salt?: string;
 }
 
-export class ThreadModel {
+/** Link caps on new threads (null: no cap) */
+export interface ThreadLimits {
+  max_threads: number | null;
+  max_threads_per_day: number | null;
+}
+
+/**
+ * Thread storage (Postgres: ThreadModel; in-memory: models/memory)
+ */
+export interface ThreadRepository {
+  create(data: CreateThreadData): Promise<Thread>;
+  /** Creates the thread unless the link is at one of its limits (null); atomic per link */
+  createWithinLimits(data: CreateThreadData, limits: ThreadLimits): Promise<Thread | null>;
+  findById(threadId: string): Promise<Thread | null>;
+  findByLinkId(linkId: string, limit: number, offset: number): Promise<Thread[]>;
+  countByLinkId(linkId: string): Promise<number>;
+  countByLinkIdSince(linkId: string, since: Date): Promise<number>;
+  burn(thread: Thread): Promise<void>;
+  setAutoReplyPending(threadId: string, pending: boolean): Promise<void>;
+  claimAutoReply(threadId: string): Promise<boolean>;
+}
+
+const INSERT_THREAD = `
+  INSERT INTO threads (link_id, sender_anonymous_id, sender_public_key,
+    expires_at, access_token_hash, passphrase_hash, passphrase_salt)
+  VALUES ($1, $2, $3, $4, $5, $6, $7)
+  RETURNING *
+`;
+
+function insertParams(data: CreateThreadData): unknown[] {
+  return [
+    data.link_id, data.sender_anonymous_id, data.sender_public_key || null,
+    data.expires_at || null, data.access_token_hash || null,
+    data.passphrase_hash || null, data.passphrase_salt || null,
+  ];
+}
+
+export class ThreadModel implements ThreadRepository {
   private get db(): Pool {
     return getDb();
   }
@@ -43,23 +81,47 @@ export class ThreadModel {
    * Create new thread
    */
   async create(data: CreateThreadData): Promise<Thread> {
-    const query = `
-      INSERT INTO threads (link_id, sender_anonymous_id, sender_public_key,
-        expires_at, access_token_hash, passphrase_hash, passphrase_salt)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING *
-    `;
+    try {
+      const result = await this.db.query(INSERT_THREAD, insertParams(data));
+      return result.rows[0] as Thread;
+    } catch (error) {
+      logger.error('Failed to create thread', { error });
+      throw new DatabaseError('Failed to create thread', error as Error);
+    }
+  }
 
+  /**
+   * Create a thread only while the link is under its limits. A per-link
+   * advisory lock serializes concurrent sends, so the counts and the insert
+   * can't interleave and a cap is never overshot.
+   */
+  async createWithinLimits(data: CreateThreadData, limits: ThreadLimits): Promise<Thread | null> {
+    const client = await this.db.connect();
     try {
-      const result = await this.db.query(query, [
-        data.link_id, data.sender_anonymous_id, data.sender_public_key || null,
-        data.expires_at || null, data.access_token_hash || null,
-        data.passphrase_hash || null, data.passphrase_salt || null,
-      ]);
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`link_threads:${data.link_id}`]);
+      const counts = await client.query(
+        `SELECT COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE created_at >= CURRENT_TIMESTAMP - INTERVAL '1 day') AS today
+         FROM threads WHERE link_id = $1`,
+        [data.link_id]
+      );
+      const { total, today } = counts.rows[0];
+      if ((limits.max_threads != null && parseInt(total, 10) >= limits.max_threads) ||
+          (limits.max_threads_per_day != null && parseInt(today, 10) >= limits.max_threads_per_day)) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const result = await client.query(INSERT_THREAD, insertParams(data));
+      await client.query('COMMIT');
       return result.rows[0] as Thread;
     } catch (error) {
+      await client.query('ROLLBACK');
       logger.error('Failed to create thread', { error });
       throw new DatabaseError('Failed to create thread', error as Error);
+    } finally {
+      client.release();
     }
   }
 
@@ -114,28 +176,75 @@ export class ThreadModel {
   }
 
   /**
-   * Burn thread (soft delete)
+   * Count threads started on a link since the given time (daily quota)
    */
-  async burn(threadId: string): Promise<Thread> {
-    const query = `
-      UPDATE threads
-      SET burned = TRUE
-      WHERE thread_id = $1
-      RETURNING *
-    `;
+  async countByLinkIdSince(linkId: string, since: Date): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM threads WHERE link_id = $1 AND created_at >= $2';
 
     try {
-      const result = await this.db.query(query, [threadId]);
-
-      if (result.rows.length === 0) {
-        throw new NotFoundError('Thread');
-      }
+      const result = await this.db.query(query, [linkId, since]);
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count recent threads', { error, link_id: linkId });
+      throw new DatabaseError('Failed to count threads', error as Error);
+    }
+  }
 
-      return result.rows[0] as Thread;
+  /**
+   * Burn thread — atomic: delete messages + mark burned + decrement link counter
+   */
+  async burn(thread: Thread): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM messages WHERE thread_id = $1', [thread.thread_id]);
+      await client.query(
+        'UPDATE links SET message_count = GREATEST(message_count - $1, 0) WHERE link_id = $2',
+        [thread.message_count, thread.link_id]
+      );
+      await client.query(
+        'UPDATE threads SET burned = TRUE, message_count = 0 WHERE thread_id = $1',
+        [thread.thread_id]
+      );
+      await client.query('COMMIT');
     } catch (error) {
-      if (error instanceof NotFoundError) throw error;
-      logger.error('Failed to burn thread', { error, thread_id: threadId });
+      await client.query('ROLLBACK');
+      logger.error('Failed to burn thread', { error, thread_id: thread.thread_id });
       throw new DatabaseError('Failed to burn thread', error as Error);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Flag (or unflag) a thread as due an auto-reply from the owner client
+   */
+  async setAutoReplyPending(threadId: string, pending: boolean): Promise<void> {
+    try {
+      await this.db.query(
+        'UPDATE threads SET auto_reply_pending = $2 WHERE thread_id = $1 AND auto_reply_pending <> $2',
+        [threadId, pending]
+      );
+    } catch (error) {
+      logger.error('Failed to update auto-reply flag', { error, thread_id: threadId });
+      throw new DatabaseError('Failed to update auto-reply flag', error as Error);
+    }
+  }
+
+  /**
+   * Clear the auto-reply flag; true only for the one caller that cleared it,
+   * so two owner devices can't both send the reply
+   */
+  async claimAutoReply(threadId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        'UPDATE threads SET auto_reply_pending = FALSE WHERE thread_id = $1 AND auto_reply_pending = TRUE',
+        [threadId]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Failed to claim auto-reply', { error, thread_id: threadId });
+      throw new DatabaseError('Failed to claim auto-reply', error as Error);
     }
   }
 }
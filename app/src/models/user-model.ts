@@ -0,0 +1,73 @@
+/**
+ * User Model
+ * Database operations for Cognito-backed users
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+/**
+ * User storage (Postgres: UserModel; in-memory: models/memory)
+ */
+export interface UserRepository {
+  upsert(userId: string, email: string): Promise<void>;
+  revokeSessions(userId: string): Promise<void>;
+  findSessionsRevokedAt(userId: string): Promise<Date | null>;
+}
+
+export class UserModel implements UserRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  /**
+   * Ensure a user row exists (FK target for rooms and channels); refreshes last login
+   */
+  async upsert(userId: string, email: string): Promise<void> {
+    const query = `
+      INSERT INTO users (user_id, email, created_at, updated_at)
+      VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (user_id) DO UPDATE SET
+        updated_at = CURRENT_TIMESTAMP,
+        last_login_at = CURRENT_TIMESTAMP
+    `;
+
+    try {
+      await this.db.query(query, [userId, email]);
+    } catch (error) {
+      logger.error('Failed to upsert user', { error, user_id: userId });
+      throw new DatabaseError('Failed to upsert user', error as Error);
+    }
+  }
+
+  /**
+   * Refuse every access token issued until now (device revoke)
+   */
+  async revokeSessions(userId: string): Promise<void> {
+    const query = `
+      UPDATE users SET sessions_revoked_at = NOW(), updated_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1
+    `;
+
+    try {
+      await this.db.query(query, [userId]);
+    } catch (error) {
+      logger.error('Failed to revoke user sessions', { error, user_id: userId });
+      throw new DatabaseError('Failed to revoke user sessions', error as Error);
+    }
+  }
+
+  async findSessionsRevokedAt(userId: string): Promise<Date | null> {
+    const query = 'SELECT sessions_revoked_at FROM users WHERE user_id = $1';
+
+    try {
+      const result = await this.db.query(query, [userId]);
+      return result.rows[0]?.sessions_revoked_at ?? null;
+    } catch (error) {
+      logger.error('Failed to read user sessions', { error, user_id: userId });
+      throw new DatabaseError('Failed to read user sessions', error as Error);
+    }
+  }
+}
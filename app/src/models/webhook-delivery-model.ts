@@ -0,0 +1,172 @@
+/**
+ * Webhook Delivery Model
+ * Retry queue and delivery log for webhook notifications
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export type WebhookEvent = 'thread.created' | 'thread.reply' | 'webhook.test';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Metadata-only body POSTed to the endpoint — never ciphertext
+ */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  link_id: string;
+  thread_id: string | null;
+  sender_type: 'anonymous' | 'owner' | null;
+  timestamp: number;
+}
+
+export interface WebhookDelivery {
+  delivery_id: string;
+  webhook_id: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+/**
+ * A delivery leased to one dispatcher, with the endpoint it goes to
+ */
+export interface ClaimedDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+}
+
+/**
+ * Outcome of one attempt. next_attempt_at is set only when a failed
+ * attempt will be retried.
+ */
+export interface DeliveryAttempt {
+  status: WebhookDeliveryStatus;
+  status_code?: number;
+  error?: string;
+  next_attempt_at?: Date;
+}
+
+/**
+ * Webhook delivery storage (Postgres: WebhookDeliveryModel; in-memory: models/memory)
+ */
+export interface WebhookDeliveryRepository {
+  enqueue(webhookIds: string[], payload: WebhookPayload): Promise<WebhookDelivery[]>;
+  claimDue(limit: number, leaseSeconds: number, maxAttempts: number): Promise<ClaimedDelivery[]>;
+  recordAttempt(deliveryId: string, attempt: DeliveryAttempt): Promise<void>;
+  findByWebhookId(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+}
+
+export class WebhookDeliveryModel implements WebhookDeliveryRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  /**
+   * Queue one delivery per webhook, due immediately
+   */
+  async enqueue(webhookIds: string[], payload: WebhookPayload): Promise<WebhookDelivery[]> {
+    if (webhookIds.length === 0) return [];
+    const query = `
+      INSERT INTO webhook_deliveries (webhook_id, event, payload)
+      SELECT id, $2, $3 FROM unnest($1::uuid[]) AS id
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [webhookIds, payload.event, JSON.stringify(payload)]);
+      return result.rows as WebhookDelivery[];
+    } catch (error) {
+      logger.error('Failed to enqueue webhook deliveries', { error, link_id: payload.link_id });
+      throw new DatabaseError('Failed to enqueue webhook deliveries', error as Error);
+    }
+  }
+
+  /**
+   * Lease due deliveries to the caller: the attempt is counted and the row is
+   * pushed leaseSeconds into the future, so other workers skip it until the
+   * attempt is recorded (or the lease runs out after a crash). Deliveries
+   * that already used maxAttempts are never leased again, even if their last
+   * attempt was never recorded.
+   */
+  async claimDue(limit: number, leaseSeconds: number, maxAttempts: number): Promise<ClaimedDelivery[]> {
+    const query = `
+      UPDATE webhook_deliveries d
+      SET attempts = d.attempts + 1,
+          next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $2)
+      FROM link_webhooks w
+      WHERE w.webhook_id = d.webhook_id
+        AND d.delivery_id IN (
+          SELECT delivery_id FROM webhook_deliveries
+          WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP AND attempts < $3
+          ORDER BY next_attempt_at ASC
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+      RETURNING d.*, w.url, w.secret
+    `;
+
+    try {
+      const result = await this.db.query(query, [limit, leaseSeconds, maxAttempts]);
+      return result.rows as ClaimedDelivery[];
+    } catch (error) {
+      logger.error('Failed to claim webhook deliveries', { error });
+      throw new DatabaseError('Failed to claim webhook deliveries', error as Error);
+    }
+  }
+
+  /**
+   * $2 is cast once so Postgres deduces a single type for the assignment and
+   * the comparison
+   */
+  async recordAttempt(deliveryId: string, attempt: DeliveryAttempt): Promise<void> {
+    const query = `
+      UPDATE webhook_deliveries
+      SET status = $2::varchar,
+          last_status_code = $3,
+          last_error = $4,
+          next_attempt_at = COALESCE($5, next_attempt_at),
+          delivered_at = CASE WHEN $2::varchar = 'delivered' THEN CURRENT_TIMESTAMP ELSE delivered_at END
+      WHERE delivery_id = $1
+    `;
+
+    try {
+      await this.db.query(query, [
+        deliveryId,
+        attempt.status,
+        attempt.status_code ?? null,
+        attempt.error ?? null,
+        attempt.next_attempt_at ?? null,
+      ]);
+    } catch (error) {
+      logger.error('Failed to record webhook delivery', { error, delivery_id: deliveryId });
+      throw new DatabaseError('Failed to record webhook delivery', error as Error);
+    }
+  }
+
+  /**
+   * Delivery log for a webhook, newest first
+   */
+  async findByWebhookId(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    try {
+      const result = await this.db.query(
+        `SELECT * FROM webhook_deliveries WHERE webhook_id = $1
+         ORDER BY created_at DESC LIMIT $2`,
+        [webhookId, limit]
+      );
+      return result.rows as WebhookDelivery[];
+    } catch (error) {
+      logger.error('Failed to find webhook deliveries', { error, webhook_id: webhookId });
+      throw new DatabaseError('Failed to find webhook deliveries', error as Error);
+    }
+  }
+}
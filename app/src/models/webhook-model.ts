@@ -0,0 +1,108 @@
+/**
+ * Webhook Model
+ * Database operations for per-link webhook endpoints
+ */
+
+import { Pool } from 'pg';
+import { getDb } from '../config/database';
+import { DatabaseError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+
+export interface Webhook {
+  webhook_id: string;
+  link_id: string;
+  url: string;
+  secret: string;
+  created_at: Date;
+}
+
+export interface CreateWebhookData {
+  link_id: string;
+  url: string;
+  secret: string;
+}
+
+/**
+ * Webhook storage (Postgres: WebhookModel; in-memory: models/memory)
+ */
+export interface WebhookRepository {
+  create(data: CreateWebhookData): Promise<Webhook>;
+  findById(webhookId: string): Promise<Webhook | null>;
+  findByLinkId(linkId: string): Promise<Webhook[]>;
+  countByLinkId(linkId: string): Promise<number>;
+  delete(webhookId: string): Promise<boolean>;
+}
+
+export class WebhookModel implements WebhookRepository {
+  private get db(): Pool {
+    return getDb();
+  }
+
+  async create(data: CreateWebhookData): Promise<Webhook> {
+    const query = `
+      INSERT INTO link_webhooks (link_id, url, secret)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [data.link_id, data.url, data.secret]);
+      return result.rows[0] as Webhook;
+    } catch (error) {
+      logger.error('Failed to create webhook', { error, link_id: data.link_id });
+      throw new DatabaseError('Failed to create webhook', error as Error);
+    }
+  }
+
+  async findById(webhookId: string): Promise<Webhook | null> {
+    try {
+      const result = await this.db.query('SELECT * FROM link_webhooks WHERE webhook_id = $1', [webhookId]);
+      return (result.rows[0] as Webhook) || null;
+    } catch (error) {
+      logger.error('Failed to find webhook', { error, webhook_id: webhookId });
+      throw new DatabaseError('Failed to find webhook', error as Error);
+    }
+  }
+
+  /**
+   * Webhooks registered on a link, oldest first
+   */
+  async findByLinkId(linkId: string): Promise<Webhook[]> {
+    try {
+      const result = await this.db.query(
+        'SELECT * FROM link_webhooks WHERE link_id = $1 ORDER BY created_at ASC',
+        [linkId]
+      );
+      return result.rows as Webhook[];
+    } catch (error) {
+      logger.error('Failed to find webhooks', { error, link_id: linkId });
+      throw new DatabaseError('Failed to find webhooks', error as Error);
+    }
+  }
+
+  async countByLinkId(linkId: string): Promise<number> {
+    try {
+      const result = await this.db.query(
+        'SELECT COUNT(*) AS count FROM link_webhooks WHERE link_id = $1',
+        [linkId]
+      );
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      logger.error('Failed to count webhooks', { error, link_id: linkId });
+      throw new DatabaseError('Failed to count webhooks', error as Error);
+    }
+  }
+
+  /**
+   * Delete a webhook; its delivery log goes with it (ON DELETE CASCADE)
+   */
+  async delete(webhookId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query('DELETE FROM link_webhooks WHERE webhook_id = $1', [webhookId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Failed to delete webhook', { error, webhook_id: webhookId });
+      throw new DatabaseError('Failed to delete webhook', error as Error);
+    }
+  }
+}
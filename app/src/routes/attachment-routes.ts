@@ -0,0 +1,50 @@
+/**
+ * Attachment Routes
+ * Public presigned upload/download tickets; object endpoints for the
+ * filesystem storage driver (registered only when STORAGE_DRIVER=fs)
+ */
+
+import express, { Router } from 'express';
+import { createAttachment, getAttachment, putObject, getObject } from '../controllers/attachment-controller';
+import { validateBody, validateParams } from '../middleware/validation-middleware';
+import { createAttachmentSchema, attachmentIdSchema } from '../validators/attachment-validators';
+import {
+  attachmentUploadRateLimiter,
+  attachmentDownloadRateLimiter,
+} from '../middleware/rate-limit-middleware';
+
+export const publicAttachmentRoutes = Router();
+
+/**
+ * Reserve an upload (link_id for threads, room_id + anonymous_id for rooms)
+ * POST /api/v1/attachments
+ */
+publicAttachmentRoutes.post(
+  '/api/v1/attachments',
+  attachmentUploadRateLimiter,
+  validateBody(createAttachmentSchema),
+  createAttachment
+);
+
+/**
+ * Presigned download URL
+ * GET /api/v1/attachments/:attachment_id
+ * Possession-based: attachment_id (UUID, unguessable) is the secret.
+ */
+publicAttachmentRoutes.get(
+  '/api/v1/attachments/:attachment_id',
+  attachmentDownloadRateLimiter,
+  validateParams(attachmentIdSchema),
+  getAttachment
+);
+
+export const fsObjectRoutes = Router();
+
+// Signed like S3 presigned URLs; the body is ciphertext, so any content type is raw
+fsObjectRoutes.put(
+  '/api/v1/objects/:bucket/*key',
+  express.raw({ type: () => true, limit: '11mb' }),
+  putObject
+);
+
+fsObjectRoutes.get('/api/v1/objects/:bucket/*key', getObject);
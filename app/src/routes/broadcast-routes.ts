@@ -1,29 +1,52 @@
 /**
  * Broadcast Routes
- * Public: create channel, get posts, add post, burn. Dashboard: list owner channels.
+ * Public: create channel, get posts, add/edit/delete/pin post, moderation
+ * queue, scoped tokens, burn. Public feeds of unencrypted channels at
+ * /b/:channel_id/feed.(atom|rss|json).
+ * Dashboard: list owner channels.
  */
 
 import { Router } from 'express';
 import {
   createChannel,
   getPosts,
+  getFeed,
   addPost,
+  updatePost,
+  deletePost,
+  getPendingPosts,
+  moderatePosts,
+  updateModeration,
+  getTokens,
+  mintToken,
+  revokeToken,
   burnChannel,
   getOwnerChannels,
   deleteChannel,
 } from '../controllers/broadcast-controller';
-import { optionalAuthenticateJWT, authenticateJWT } from '../middleware/auth-middleware';
+import { optionalAuthenticateJWT, authenticateJWT, DASHBOARD_PATH } from '../middleware/auth-middleware';
+import { identifyDevice } from '../middleware/device-middleware';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation-middleware';
 import {
   createBroadcastChannelSchema,
   channelIdSchema,
   addPostSchema,
+  postIdSchema,
+  updatePostSchema,
+  deletePostSchema,
+  moderatePostsSchema,
+  moderationSettingsSchema,
+  tokenIdSchema,
+  mintTokenSchema,
+  revokeTokenSchema,
   burnChannelSchema,
   listPostsQuerySchema,
+  feedParamsSchema,
 } from '../validators/broadcast-validators';
 import {
   broadcastPostsRateLimiter,
   broadcastChannelPostRateLimiter,
+  broadcastPostChangeRateLimiter,
   broadcastGuestIpRateLimiter,
   publicRateLimiter,
   authenticatedRateLimiter,
@@ -40,15 +63,26 @@ publicBroadcastRoutes.post(
   createChannel
 );
 
-// List posts (public, no auth; rate limit by IP; do not log identifiers)
+// List posts (public, no auth; rate limit by IP; do not log identifiers).
+// The channel token or the owner's JWT adds author labels.
 publicBroadcastRoutes.get(
   '/api/v1/broadcast/:channel_id/posts',
   broadcastPostsRateLimiter,
+  optionalAuthenticateJWT,
   validateParams(channelIdSchema),
   validateQuery(listPostsQuerySchema),
   getPosts
 );
 
+// Feeds for public_feed channels (public, conditional GET; same paging as posts)
+publicBroadcastRoutes.get(
+  '/b/:channel_id/feed.:format',
+  broadcastPostsRateLimiter,
+  validateParams(feedParamsSchema),
+  validateQuery(listPostsQuerySchema),
+  getFeed
+);
+
 // Add post (post_token in body, or guest post if channel allows)
 publicBroadcastRoutes.post(
   '/api/v1/broadcast/:channel_id/posts',
@@ -59,6 +93,82 @@ publicBroadcastRoutes.post(
   addPost
 );
 
+// Edit or pin a post (post_token in body, or the owner's JWT)
+publicBroadcastRoutes.patch(
+  '/api/v1/broadcast/:channel_id/posts/:post_id',
+  broadcastPostChangeRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(postIdSchema),
+  validateBody(updatePostSchema),
+  updatePost
+);
+
+// Delete a post (post_token in body, or the owner's JWT)
+publicBroadcastRoutes.delete(
+  '/api/v1/broadcast/:channel_id/posts/:post_id',
+  broadcastPostChangeRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(postIdSchema),
+  validateBody(deletePostSchema),
+  deletePost
+);
+
+// Moderation queue (X-Post-Token header, or the owner's JWT)
+publicBroadcastRoutes.get(
+  '/api/v1/broadcast/:channel_id/pending',
+  broadcastPostsRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(channelIdSchema),
+  getPendingPosts
+);
+
+// Bulk approve/reject (post_token in body, or the owner's JWT)
+publicBroadcastRoutes.post(
+  '/api/v1/broadcast/:channel_id/moderation',
+  broadcastPostChangeRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(channelIdSchema),
+  validateBody(moderatePostsSchema),
+  moderatePosts
+);
+
+// Moderation on/off and the auto-approve allowlist
+publicBroadcastRoutes.patch(
+  '/api/v1/broadcast/:channel_id/moderation',
+  broadcastPostChangeRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(channelIdSchema),
+  validateBody(moderationSettingsSchema),
+  updateModeration
+);
+
+// Scoped tokens (channel token, or the owner's JWT)
+publicBroadcastRoutes.get(
+  '/api/v1/broadcast/:channel_id/tokens',
+  broadcastPostsRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(channelIdSchema),
+  getTokens
+);
+
+publicBroadcastRoutes.post(
+  '/api/v1/broadcast/:channel_id/tokens',
+  broadcastPostChangeRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(channelIdSchema),
+  validateBody(mintTokenSchema),
+  mintToken
+);
+
+publicBroadcastRoutes.delete(
+  '/api/v1/broadcast/:channel_id/tokens/:token_id',
+  broadcastPostChangeRateLimiter,
+  optionalAuthenticateJWT,
+  validateParams(tokenIdSchema),
+  validateBody(revokeTokenSchema),
+  revokeToken
+);
+
 // Burn channel (post_token in body)
 publicBroadcastRoutes.post(
   '/api/v1/broadcast/:channel_id/burn',
@@ -70,8 +180,9 @@ publicBroadcastRoutes.post(
 
 // Dashboard: list channels for authenticated owner
 export const dashboardBroadcastRoutes = Router();
-dashboardBroadcastRoutes.use(authenticateJWT);
-dashboardBroadcastRoutes.use(authenticatedRateLimiter);
+dashboardBroadcastRoutes.use(DASHBOARD_PATH, authenticateJWT);
+dashboardBroadcastRoutes.use(DASHBOARD_PATH, identifyDevice);
+dashboardBroadcastRoutes.use(DASHBOARD_PATH, authenticatedRateLimiter);
 
 dashboardBroadcastRoutes.get('/api/v1/dashboard/broadcast', getOwnerChannels);
 dashboardBroadcastRoutes.delete(
@@ -1,7 +1,7 @@
 /**
  * Dashboard Routes
  * Authenticated endpoints for link owners
- * File size: ~175 lines
+ * File size: ~225 lines
  */
 
 import { Router } from 'express';
@@ -21,7 +21,23 @@ import {
   replyToThread,
 } from '../controllers/thread-controller';
 import { burnThread, burnLink } from '../controllers/burn-controller';
-import { authenticateJWT } from '../middleware/auth-middleware';
+import { getKeyBundle, saveKeyBundle } from '../controllers/key-bundle-controller';
+import {
+  listWebhooks,
+  createWebhook,
+  deleteWebhook,
+  testWebhook,
+  getWebhookDeliveries,
+} from '../controllers/webhook-controller';
+import {
+  getAutoReply,
+  saveAutoReply,
+  deleteAutoReply,
+  listPendingAutoReplies,
+  sendAutoReply,
+} from '../controllers/auto-reply-controller';
+import { authenticateJWT, DASHBOARD_PATH } from '../middleware/auth-middleware';
+import { identifyDevice } from '../middleware/device-middleware';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation-middleware';
 import {
   createLinkSchema,
@@ -36,6 +52,9 @@ import {
   burnThreadSchema,
 } from '../validators/thread-validators';
 import { replyMessageSchema } from '../validators/message-validators';
+import { createWebhookSchema, webhookParamsSchema } from '../validators/webhook-validators';
+import { saveKeyBundleSchema } from '../validators/key-bundle-validators';
+import { saveAutoReplySchema, sendAutoReplySchema } from '../validators/auto-reply-validators';
 import {
   authenticatedRateLimiter,
   strictRateLimiter,
@@ -44,10 +63,13 @@ import {
 const router = Router();
 
 // Apply authentication to all dashboard routes
-router.use(authenticateJWT);
+router.use(DASHBOARD_PATH, authenticateJWT);
+
+// Refuse revoked devices
+router.use(DASHBOARD_PATH, identifyDevice);
 
 // Apply authenticated rate limiter
-router.use(authenticatedRateLimiter);
+router.use(DASHBOARD_PATH, authenticatedRateLimiter);
 
 /**
  * Link Management
@@ -81,6 +103,8 @@ router.patch(
 // Delete link
 router.delete('/api/v1/dashboard/links/:link_id', validateParams(linkIdSchema), deleteLink);
 
+// Per-link key backups below predate the key bundle; new clients fold them into it
+
 // Upload encrypted key backup
 router.put(
   '/api/v1/dashboard/links/:link_id/key-backup',
@@ -96,6 +120,95 @@ router.get(
   getKeyBackup
 );
 
+/**
+ * Key Bundle (account-wide encrypted key backup)
+ */
+
+// Get the bundle and its ETag
+router.get('/api/v1/dashboard/key-bundle', getKeyBundle);
+
+// Store a merged bundle (If-Match required)
+router.put('/api/v1/dashboard/key-bundle', validateBody(saveKeyBundleSchema), saveKeyBundle);
+
+/**
+ * Webhooks
+ */
+
+// List webhooks for a link
+router.get(
+  '/api/v1/dashboard/links/:link_id/webhooks',
+  validateParams(linkIdSchema),
+  listWebhooks
+);
+
+// Register webhook (response includes the signing secret, once)
+router.post(
+  '/api/v1/dashboard/links/:link_id/webhooks',
+  strictRateLimiter,
+  validateParams(linkIdSchema),
+  validateBody(createWebhookSchema),
+  createWebhook
+);
+
+// Delete webhook
+router.delete(
+  '/api/v1/dashboard/links/:link_id/webhooks/:webhook_id',
+  validateParams(webhookParamsSchema),
+  deleteWebhook
+);
+
+// Send a test delivery
+router.post(
+  '/api/v1/dashboard/links/:link_id/webhooks/:webhook_id/test',
+  strictRateLimiter,
+  validateParams(webhookParamsSchema),
+  testWebhook
+);
+
+// Delivery log
+router.get(
+  '/api/v1/dashboard/links/:link_id/webhooks/:webhook_id/deliveries',
+  validateParams(webhookParamsSchema),
+  getWebhookDeliveries
+);
+
+/**
+ * Auto-Reply
+ */
+
+// Get a link's auto-reply
+router.get(
+  '/api/v1/dashboard/links/:link_id/auto-reply',
+  validateParams(linkIdSchema),
+  getAutoReply
+);
+
+// Create or replace a link's auto-reply
+router.put(
+  '/api/v1/dashboard/links/:link_id/auto-reply',
+  validateParams(linkIdSchema),
+  validateBody(saveAutoReplySchema),
+  saveAutoReply
+);
+
+// Remove a link's auto-reply
+router.delete(
+  '/api/v1/dashboard/links/:link_id/auto-reply',
+  validateParams(linkIdSchema),
+  deleteAutoReply
+);
+
+// Threads waiting for an auto-reply (owner client job)
+router.get('/api/v1/dashboard/auto-replies/pending', listPendingAutoReplies);
+
+// Send the auto-reply into a flagged thread
+router.post(
+  '/api/v1/dashboard/threads/:thread_id/auto-reply',
+  validateParams(threadIdSchema),
+  validateBody(sendAutoReplySchema),
+  sendAutoReply
+);
+
 /**
  * Thread Management
  */
@@ -0,0 +1,77 @@
+/**
+ * Device Routes
+ * Authenticated endpoints for owner devices and device linking
+ */
+
+import { Router } from 'express';
+import {
+  listDevices,
+  registerDevice,
+  revokeDevice,
+  startLink,
+  collectLink,
+  lookupPairing,
+  deliverBundle,
+} from '../controllers/device-controller';
+import { authenticateJWT, DASHBOARD_PATH } from '../middleware/auth-middleware';
+import { identifyDevice, DEVICE_REGISTRATION_PATH } from '../middleware/device-middleware';
+import { validateBody, validateParams } from '../middleware/validation-middleware';
+import {
+  registerDeviceSchema,
+  deviceIdSchema,
+  startLinkSchema,
+  linkSessionIdSchema,
+  pairingCodeSchema,
+  deliverBundleSchema,
+} from '../validators/device-validators';
+import { authenticatedRateLimiter } from '../middleware/rate-limit-middleware';
+
+const router = Router();
+
+router.use(DASHBOARD_PATH, authenticateJWT);
+router.use(DASHBOARD_PATH, identifyDevice);
+router.use(DASHBOARD_PATH, authenticatedRateLimiter);
+
+/**
+ * Devices
+ */
+
+// List devices
+router.get('/api/v1/dashboard/devices', listDevices);
+
+// Register this browser (the one dashboard route without a device)
+router.post(DEVICE_REGISTRATION_PATH, validateBody(registerDeviceSchema), registerDevice);
+
+/**
+ * Device linking (must be before /:device_id)
+ */
+
+// New device: open a link session
+router.post('/api/v1/dashboard/devices/link', validateBody(startLinkSchema), startLink);
+
+// New device: poll for the key bundle
+router.get(
+  '/api/v1/dashboard/devices/link/:session_id',
+  validateParams(linkSessionIdSchema),
+  collectLink
+);
+
+// Existing device: look up a pairing code
+router.get(
+  '/api/v1/dashboard/devices/pairing/:pairing_code',
+  validateParams(pairingCodeSchema),
+  lookupPairing
+);
+
+// Existing device: deliver the encrypted key bundle
+router.post(
+  '/api/v1/dashboard/devices/link/:session_id/bundle',
+  validateParams(linkSessionIdSchema),
+  validateBody(deliverBundleSchema),
+  deliverBundle
+);
+
+// Revoke device
+router.delete('/api/v1/dashboard/devices/:device_id', validateParams(deviceIdSchema), revokeDevice);
+
+export default router;
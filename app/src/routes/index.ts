@@ -6,8 +6,12 @@
 import { Express } from 'express';
 import publicRoutes from './public-routes';
 import dashboardRoutes from './dashboard-routes';
+import deviceRoutes from './device-routes';
 import { dashboardRoomRoutes, publicRoomRoutes } from './room-routes';
 import { publicBroadcastRoutes, dashboardBroadcastRoutes } from './broadcast-routes';
+import { publicAttachmentRoutes, fsObjectRoutes } from './attachment-routes';
+import { createMetricsRoutes } from './metrics-routes';
+import { isFsStorage } from '../services/object-store';
 import { logger } from '../config/logger';
 
 const disableRoomRoutes = process.env.DISABLE_ROOM_ROUTES === 'true';
@@ -16,12 +20,27 @@ const disableRoomRoutes = process.env.DISABLE_ROOM_ROUTES === 'true';
  * Register all routes
  */
 export function registerRoutes(app: Express): void {
+  // Prometheus scrape behind a bearer token, unless a separate internal
+  // listener serves it (METRICS_PORT); with neither, /metrics is a 404
+  const publicMetrics = Boolean(process.env.METRICS_TOKEN) && !process.env.METRICS_PORT;
+  if (publicMetrics) {
+    app.use('/', createMetricsRoutes());
+  }
+
   // Public routes (unauthenticated)
   app.use('/', publicRoutes);
 
   // Public broadcast routes (create, get posts, add post, burn)
   app.use('/', publicBroadcastRoutes);
 
+  // Encrypted attachment tickets (presigned upload/download)
+  app.use('/', publicAttachmentRoutes);
+
+  // Local object storage stands in for S3 (development and tests)
+  if (isFsStorage()) {
+    app.use('/', fsObjectRoutes);
+  }
+
   if (!disableRoomRoutes) {
     // Public room routes (anonymous)
     app.use('/', publicRoomRoutes);
@@ -32,8 +51,11 @@ export function registerRoutes(app: Express): void {
   // Dashboard routes (authenticated)
   app.use('/', dashboardRoutes);
 
+  // Owner devices and device linking
+  app.use('/', deviceRoutes);
+
   // Dashboard broadcast routes (list owner channels)
   app.use('/', dashboardBroadcastRoutes);
 
-  logger.info('Routes registered', { disableRoomRoutes });
+  logger.info('Routes registered', { disableRoomRoutes, fsStorage: isFsStorage(), publicMetrics });
 }
@@ -0,0 +1,25 @@
+/**
+ * Metrics Routes
+ * GET /metrics, served either on the public app behind METRICS_TOKEN or on
+ * the internal METRICS_PORT listener
+ */
+
+import { Router } from 'express';
+import { getMetrics } from '../controllers/metrics-controller';
+import { authenticateMetricsToken } from '../middleware/auth-middleware';
+
+/**
+ * Build the scrape router. The token is required whenever one is configured;
+ * without one the router must only be mounted on the internal port.
+ */
+export function createMetricsRoutes(): Router {
+  const router = Router();
+
+  if (process.env.METRICS_TOKEN) {
+    router.get('/metrics', authenticateMetricsToken, getMetrics);
+  } else {
+    router.get('/metrics', getMetrics);
+  }
+
+  return router;
+}
@@ -1,7 +1,7 @@
 /**
  * Public Routes
  * Unauthenticated endpoints
- * File size: ~85 lines
+ * File size: ~100 lines
  */
 
 import { Router } from 'express';
@@ -9,6 +9,7 @@ import {
   sendMessage,
   sendAnonymousReply,
   getLinkMetadata,
+  getSendChallenge,
   getThreadPublic,
   unlockThread,
   healthCheck,
@@ -18,7 +19,9 @@ import { validateBody, validateParams } from '../middleware/validation-middlewar
 import { sendMessageSchema, replyMessageSchema } from '../validators/message-validators';
 import { linkIdSchema } from '../validators/link-validators';
 import { threadIdSchema, unlockThreadSchema } from '../validators/thread-validators';
-import { publicRateLimiter, anonymousReplyRateLimiter, threadViewRateLimiter, unlockRateLimiter } from '../middleware/rate-limit-middleware';
+import {
+  publicRateLimiter, anonymousReplyRateLimiter, threadViewRateLimiter, unlockRateLimiter, challengeRateLimiter,
+} from '../middleware/rate-limit-middleware';
 
 const router = Router();
 
@@ -34,10 +37,23 @@ router.get('/health', healthCheck);
  */
 router.get('/health/ready', readinessCheck);
 
+/**
+ * Proof-of-work challenge for the next send to a link
+ * GET /api/v1/challenge/:link_id
+ * { required: false } unless SEND_CHALLENGE_ENABLED=true
+ */
+router.get(
+  '/api/v1/challenge/:link_id',
+  challengeRateLimiter,
+  validateParams(linkIdSchema),
+  getSendChallenge
+);
+
 /**
  * Send anonymous message
  * POST /api/v1/send
- * Protected by WAF rate limiting + CAPTCHA
+ * Protected by WAF rate limiting + CAPTCHA on AWS, or by the built-in
+ * proof-of-work challenge (SEND_CHALLENGE_ENABLED=true) when self-hosted
  */
 router.post(
   '/api/v1/send',
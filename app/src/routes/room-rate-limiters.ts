@@ -3,15 +3,15 @@
  * Rate limiting for room join and messaging endpoints
  */
 
-import rateLimit from 'express-rate-limit';
 import { Request } from 'express';
+import { sharedRateLimit } from '../middleware/rate-limit-store';
 
 /**
  * Rate limiter for room join attempts
  * 10 attempts per 15 minutes per room (keyed by room info in token, not IP)
  * Uses a generic key since token is in body, not params
  */
-export const roomJoinRateLimiter = rateLimit({
+export const roomJoinRateLimiter = sharedRateLimit('room_join', {
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 10, // 10 attempts per window
   standardHeaders: true,
@@ -31,7 +31,7 @@ export const roomJoinRateLimiter = rateLimit({
  * Rate limiter for room message sending
  * 60 messages per 5 minutes per room+participant (allows burst but prevents spam)
  */
-export const roomMessageRateLimiter = rateLimit({
+export const roomMessageRateLimiter = sharedRateLimit('room_message', {
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 60, // 60 messages per window
   standardHeaders: true,
@@ -50,7 +50,7 @@ export const roomMessageRateLimiter = rateLimit({
  * Rate limiter for room status polling
  * 120 requests per 5 minutes per room+participant (supports ~3 sec polling)
  */
-export const roomStatusRateLimiter = rateLimit({
+export const roomStatusRateLimiter = sharedRateLimit('room_status', {
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 120, // 120 requests per window
   standardHeaders: true,
@@ -70,7 +70,7 @@ export const roomStatusRateLimiter = rateLimit({
  * 120 requests per 5 minutes per room+participant (supports ~3 sec polling)
  * Prevents DoS via message polling endpoint
  */
-export const roomMessagesRateLimiter = rateLimit({
+export const roomMessagesRateLimiter = sharedRateLimit('room_messages', {
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 120, // 120 requests per window
   standardHeaders: true,
@@ -84,3 +84,23 @@ export const roomMessagesRateLimiter = rateLimit({
     return 'room_messages:unknown';
   },
 });
+
+/**
+ * Rate limiter for delegated key distribution (claim + set-keys)
+ * 120 requests per 5 minutes per room+delegate (~10 sec polling plus batches)
+ */
+export const roomKeyDistributionRateLimiter = sharedRateLimit('room_key_distribution', {
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 120, // 120 requests per window
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    const roomId = (req.params as { room_id?: string })?.room_id;
+    const anonymousId = (req.query as { anonymous_id?: string })?.anonymous_id
+      ?? (req.body as { anonymous_id?: string })?.anonymous_id;
+    if (roomId && anonymousId) {
+      return `room_keys:${roomId}:${anonymousId}`;
+    }
+    return 'room_keys:unknown';
+  },
+});
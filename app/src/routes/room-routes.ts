@@ -9,6 +9,8 @@ import {
   getUserRooms,
   getRoomById,
   lockRoom,
+  extendRoom,
+  reopenRoom,
   burnRoom,
   generateInvites,
   getInvites,
@@ -16,28 +18,51 @@ import {
   getPendingParticipants,
   approveParticipant,
   rejectParticipant,
+  listParticipants,
+  removeParticipant,
+} from '../controllers/room-controller';
+import {
   getParticipantsNeedingKeys,
+  setKeys,
   setParticipantKey,
-} from '../controllers/room-controller';
+  setDistributor,
+  getDelegateNeedsKeys,
+  setDelegateKeys,
+} from '../controllers/room-key-distribution-controller';
 import {
   joinRoom,
   getParticipantStatus,
   getRoomInfo,
   getMessages,
   sendMessage,
+  getMessage,
+  editMessage,
+  deleteMessage,
 } from '../controllers/room-join-controller';
-import { authenticateJWT } from '../middleware/auth-middleware';
+import { authenticateJWT, DASHBOARD_PATH } from '../middleware/auth-middleware';
+import { identifyDevice } from '../middleware/device-middleware';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation-middleware';
 import {
   createRoomSchema,
   roomIdSchema,
+  extendRoomSchema,
+  reopenRoomSchema,
+  roomMessageIdSchema,
   participantIdSchema,
   inviteIdSchema,
   generateInvitesSchema,
   approveParticipantSchema,
+  removeParticipantSchema,
+  setKeysSchema,
+  delegateSetKeysSchema,
+  needsKeysQuerySchema,
+  delegateNeedsKeysQuerySchema,
+  listParticipantsQuerySchema,
   joinRoomSchema,
   roomStatusQuerySchema,
   sendRoomMessageSchema,
+  editRoomMessageSchema,
+  roomParticipantSchema,
   getRoomMessagesQuerySchema,
 } from '../validators/room-validators';
 import { paginationSchema } from '../validators/link-validators';
@@ -45,13 +70,20 @@ import {
   authenticatedRateLimiter,
   strictRateLimiter,
 } from '../middleware/rate-limit-middleware';
-import { roomJoinRateLimiter, roomMessageRateLimiter, roomStatusRateLimiter, roomMessagesRateLimiter } from './room-rate-limiters';
+import {
+  roomJoinRateLimiter,
+  roomMessageRateLimiter,
+  roomStatusRateLimiter,
+  roomMessagesRateLimiter,
+  roomKeyDistributionRateLimiter,
+} from './room-rate-limiters';
 
 // Authenticated dashboard routes
 export const dashboardRoomRoutes = Router();
 
-dashboardRoomRoutes.use(authenticateJWT);
-dashboardRoomRoutes.use(authenticatedRateLimiter);
+dashboardRoomRoutes.use(DASHBOARD_PATH, authenticateJWT);
+dashboardRoomRoutes.use(DASHBOARD_PATH, identifyDevice);
+dashboardRoomRoutes.use(DASHBOARD_PATH, authenticatedRateLimiter);
 
 // Room CRUD
 dashboardRoomRoutes.post(
@@ -79,6 +111,21 @@ dashboardRoomRoutes.post(
   lockRoom
 );
 
+dashboardRoomRoutes.post(
+  '/api/v1/dashboard/rooms/:room_id/extend',
+  validateParams(roomIdSchema),
+  validateBody(extendRoomSchema),
+  extendRoom
+);
+
+// Unlock for a fresh join window so new invites can be generated
+dashboardRoomRoutes.post(
+  '/api/v1/dashboard/rooms/:room_id/reopen',
+  validateParams(roomIdSchema),
+  validateBody(reopenRoomSchema),
+  reopenRoom
+);
+
 dashboardRoomRoutes.post(
   '/api/v1/dashboard/rooms/:room_id/burn',
   validateParams(roomIdSchema),
@@ -112,6 +159,13 @@ dashboardRoomRoutes.get(
   getPendingParticipants
 );
 
+dashboardRoomRoutes.get(
+  '/api/v1/dashboard/rooms/:room_id/participants',
+  validateParams(roomIdSchema),
+  validateQuery(listParticipantsQuerySchema),
+  listParticipants
+);
+
 dashboardRoomRoutes.post(
   '/api/v1/dashboard/rooms/:room_id/participants/:participant_id/approve',
   validateParams(participantIdSchema),
@@ -125,13 +179,29 @@ dashboardRoomRoutes.post(
   rejectParticipant
 );
 
-// Auto-approve key distribution
+// Removal rotates the group key (client sends the next epoch's wraps)
+dashboardRoomRoutes.post(
+  '/api/v1/dashboard/rooms/:room_id/participants/:participant_id/remove',
+  validateParams(participantIdSchema),
+  validateBody(removeParticipantSchema),
+  removeParticipant
+);
+
+// Auto-approve key distribution (claims a batch; set-keys fills it)
 dashboardRoomRoutes.get(
   '/api/v1/dashboard/rooms/:room_id/needs-keys',
   validateParams(roomIdSchema),
+  validateQuery(needsKeysQuerySchema),
   getParticipantsNeedingKeys
 );
 
+dashboardRoomRoutes.post(
+  '/api/v1/dashboard/rooms/:room_id/set-keys',
+  validateParams(roomIdSchema),
+  validateBody(setKeysSchema),
+  setKeys
+);
+
 dashboardRoomRoutes.post(
   '/api/v1/dashboard/rooms/:room_id/participants/:participant_id/set-key',
   validateParams(participantIdSchema),
@@ -139,6 +209,19 @@ dashboardRoomRoutes.post(
   setParticipantKey
 );
 
+// Delegate key wrapping to an approved member
+dashboardRoomRoutes.post(
+  '/api/v1/dashboard/rooms/:room_id/participants/:participant_id/distributor',
+  validateParams(participantIdSchema),
+  setDistributor
+);
+
+dashboardRoomRoutes.delete(
+  '/api/v1/dashboard/rooms/:room_id/participants/:participant_id/distributor',
+  validateParams(participantIdSchema),
+  setDistributor
+);
+
 // Public routes (anonymous)
 export const publicRoomRoutes = Router();
 
@@ -159,6 +242,23 @@ publicRoomRoutes.get(
   getParticipantStatus
 );
 
+// Key distribution by members the creator delegated to
+publicRoomRoutes.get(
+  '/api/v1/rooms/:room_id/needs-keys',
+  roomKeyDistributionRateLimiter,
+  validateParams(roomIdSchema),
+  validateQuery(delegateNeedsKeysQuerySchema),
+  getDelegateNeedsKeys
+);
+
+publicRoomRoutes.post(
+  '/api/v1/rooms/:room_id/set-keys',
+  roomKeyDistributionRateLimiter,
+  validateParams(roomIdSchema),
+  validateBody(delegateSetKeysSchema),
+  setDelegateKeys
+);
+
 // Get room info (public, minimal)
 publicRoomRoutes.get(
   '/api/v1/rooms/:room_id/info',
@@ -183,3 +283,30 @@ publicRoomRoutes.post(
   validateBody(sendRoomMessageSchema),
   sendMessage
 );
+
+// Re-read one message after an edit/delete event
+publicRoomRoutes.get(
+  '/api/v1/rooms/:room_id/messages/:message_id',
+  roomMessagesRateLimiter,
+  validateParams(roomMessageIdSchema),
+  validateQuery(roomParticipantSchema),
+  getMessage
+);
+
+// Edit own message (author only)
+publicRoomRoutes.patch(
+  '/api/v1/rooms/:room_id/messages/:message_id',
+  roomMessageRateLimiter,
+  validateParams(roomMessageIdSchema),
+  validateBody(editRoomMessageSchema),
+  editMessage
+);
+
+// Unsend a message (author or room creator), leaving a tombstone
+publicRoomRoutes.delete(
+  '/api/v1/rooms/:room_id/messages/:message_id',
+  roomMessageRateLimiter,
+  validateParams(roomMessageIdSchema),
+  validateBody(roomParticipantSchema),
+  deleteMessage
+);
@@ -1,6 +1,6 @@
 /**
  * Express Server Setup
- * File size: ~145 lines
+ * File size: ~155 lines
  */
 
 import express, { Express } from 'express';
@@ -9,6 +9,7 @@ import cors from 'cors';
 import { requestIdMiddleware, requestLogger } from './middleware/logging-middleware';
 import { errorHandler, notFoundHandler } from './middleware/error-middleware';
 import { registerRoutes } from './routes';
+import { createMetricsRoutes } from './routes/metrics-routes';
 import { logger } from './config/logger';
 
 /**
@@ -58,8 +59,9 @@ export function createServer(): Express {
         return origins;
       })(),
       credentials: true,
-      methods: ['GET', 'POST', 'PATCH', 'DELETE'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], // PUT: local object storage uploads
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Device-Id', 'If-Match', 'X-Post-Token'],
+      exposedHeaders: ['ETag'], // Key bundle version
     })
   );
 
@@ -114,3 +116,36 @@ export function startServer(port: number = 3000): void {
     });
   });
 }
+
+/**
+ * Read the internal metrics listener settings. The port must be a valid TCP
+ * port, the listener binds to loopback unless METRICS_HOST says otherwise,
+ * and an unauthenticated scrape needs METRICS_ALLOW_NO_TOKEN=true.
+ */
+export function metricsListenOptions(env: NodeJS.ProcessEnv = process.env): { port: number; host: string } {
+  const port = Number(env.METRICS_PORT);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`METRICS_PORT must be a port number between 1 and 65535, got "${env.METRICS_PORT}"`);
+  }
+  if (!env.METRICS_TOKEN && env.METRICS_ALLOW_NO_TOKEN !== 'true') {
+    throw new Error('METRICS_PORT requires METRICS_TOKEN (set METRICS_ALLOW_NO_TOKEN=true to serve it without one)');
+  }
+  return { port, host: env.METRICS_HOST || '127.0.0.1' };
+}
+
+/**
+ * Start the internal metrics listener (METRICS_PORT). Keep this port off the
+ * ALB and out of public security group rules; PM2 workers share it, and the
+ * worker that answers sums every worker's metrics.
+ */
+export function startMetricsServer(port: number, host: string): void {
+  const app = express();
+
+  app.use(createMetricsRoutes());
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  app.listen(port, host, () => {
+    logger.info(`Metrics listening on ${host}:${port}`, { port, host });
+  });
+}
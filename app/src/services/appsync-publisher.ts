@@ -41,6 +41,39 @@ interface RoomMessageEvent {
   timestamp: number;
 }
 
+interface RoomMessageChangedEvent {
+  room_id: string;
+  message_id: string;
+  change: 'edited' | 'deleted';
+  timestamp: number;
+}
+
+interface RoomKeyRotatedEvent {
+  room_id: string;
+  key_epoch: number;
+  timestamp: number;
+}
+
+interface BroadcastPostChangedEvent {
+  channel_id: string;
+  post_id: string;
+  change: 'edited' | 'deleted' | 'pinned' | 'unpinned';
+  timestamp: number;
+}
+
+interface PassphraseAlertEvent {
+  link_id: string;
+  thread_id?: string;
+  alert: 'passphrase_locked_out' | 'thread_burned';
+  timestamp: number;
+}
+
+interface BroadcastQueueEvent {
+  channel_id: string;
+  pending: number;
+  timestamp: number;
+}
+
 export class AppSyncPublisher {
   private _lambdaClient: LambdaClient | undefined;
 
@@ -163,6 +196,49 @@ export class AppSyncPublisher {
     await this.publish(`/rooms/messages/${this.channelSafe(roomId)}`, payload);
   }
 
+  /**
+   * Notify room participants that a message was edited or unsent.
+   * Clients re-fetch that one message; the event never carries its content.
+   */
+  async publishRoomMessageChanged(
+    roomId: string,
+    messageId: string,
+    change: RoomMessageChangedEvent['change']
+  ): Promise<void> {
+    if (!this.enabled) return;
+
+    const event: RoomMessageChangedEvent = {
+      room_id: roomId,
+      message_id: messageId,
+      change,
+      timestamp: Date.now(),
+    };
+
+    const payload = JSON.stringify(event);
+
+    // Same channel as new messages — every open room view already subscribes
+    await this.publish(`/rooms/messages/${this.channelSafe(roomId)}`, payload);
+  }
+
+  /**
+   * Notify room participants that the group key moved to a new epoch.
+   * Remaining members re-fetch their wrapped key before sending again.
+   */
+  async publishRoomKeyRotated(roomId: string, keyEpoch: number): Promise<void> {
+    if (!this.enabled) return;
+
+    const event: RoomKeyRotatedEvent = {
+      room_id: roomId,
+      key_epoch: keyEpoch,
+      timestamp: Date.now(),
+    };
+
+    const payload = JSON.stringify(event);
+
+    // Same channel as messages — every open room view already subscribes
+    await this.publish(`/rooms/messages/${this.channelSafe(roomId)}`, payload);
+  }
+
   /**
    * Notify broadcast channel subscribers that a new post was added.
    * Public feed pages subscribe to receive real-time updates.
@@ -178,6 +254,66 @@ export class AppSyncPublisher {
     await this.publish(`/broadcast/channel/${this.channelSafe(channelId)}`, payload);
   }
 
+  /**
+   * Notify broadcast channel subscribers that a post was edited, deleted,
+   * pinned or unpinned. Feeds re-fetch; the event never carries content.
+   */
+  async publishBroadcastPostChanged(
+    channelId: string,
+    postId: string,
+    change: BroadcastPostChangedEvent['change']
+  ): Promise<void> {
+    if (!this.enabled) return;
+
+    const event: BroadcastPostChangedEvent = {
+      channel_id: channelId,
+      post_id: postId,
+      change,
+      timestamp: Date.now(),
+    };
+
+    await this.publish(`/broadcast/channel/${this.channelSafe(channelId)}`, JSON.stringify(event));
+  }
+
+  /**
+   * Tell the channel owner the moderation queue changed (a guest post
+   * arrived, or posts were approved or rejected). Carries only the count,
+   * on a channel of its own so readers of the feed are not woken.
+   */
+  async publishBroadcastQueue(channelId: string, pending: number): Promise<void> {
+    if (!this.enabled) return;
+
+    const event: BroadcastQueueEvent = {
+      channel_id: channelId,
+      pending,
+      timestamp: Date.now(),
+    };
+
+    await this.publish(`/broadcast/moderation/${this.channelSafe(channelId)}`, JSON.stringify(event));
+  }
+
+  /**
+   * Tell the link owner that wrong passphrases locked the link or a thread
+   * out, or burned a thread. Owner channel only; carries no guesses.
+   */
+  async publishPassphraseAlert(
+    linkId: string,
+    alert: PassphraseAlertEvent['alert'],
+    threadId?: string
+  ): Promise<void> {
+    if (!this.enabled) return;
+
+    const event: PassphraseAlertEvent = {
+      link_id: linkId,
+      thread_id: threadId,
+      alert,
+      timestamp: Date.now(),
+    };
+
+    // Same channel as new messages — the dashboard already subscribes per link
+    await this.publish(`/messages/link/${this.channelSafe(linkId)}`, JSON.stringify(event));
+  }
+
   private async publish(channel: string, eventPayload: string): Promise<void> {
     try {
       const command = new InvokeCommand({
@@ -0,0 +1,192 @@
+/**
+ * Attachment Service
+ * Presigned uploads/downloads for client-side-encrypted attachments.
+ * Browsers encrypt each file with its own AES key and PUT the ciphertext
+ * straight to the object store; the file key and attachment_id travel inside
+ * the E2EE message, so the server only ever holds opaque blobs.
+ * Attachments burn with the thread, link or room that owns them.
+ */
+
+import { AttachmentRepository, AttachmentScope } from '../models/attachment-model';
+import { LinkRepository } from '../models/link-model';
+import { RoomRepository } from '../models/room-model';
+import { RoomParticipantRepository } from '../models/room-participant-model';
+import { getRepositories } from '../models/repositories';
+import { TokenService } from './token-service';
+import { ObjectStore, getObjectStore } from './object-store';
+import { CryptoUtils } from '../utils/crypto-utils';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+
+const URL_TTL_SECONDS = 300;
+
+export interface CreateUploadInput {
+  size_bytes: number;
+  link_id?: string;
+  room_id?: string;
+  anonymous_id?: string;
+}
+
+export interface UploadTicket {
+  attachment_id: string;
+  upload_url: string;
+  expires_in: number;
+}
+
+export interface DownloadTicket {
+  download_url: string;
+  size_bytes: number;
+  expires_in: number;
+}
+
+/** Read lazily — dotenv loads after module imports. */
+export function getAttachmentStore(): ObjectStore {
+  return getObjectStore(process.env.ATTACHMENT_BUCKET || 'burnware-attachments');
+}
+
+export class AttachmentService {
+  private get attachmentModel(): AttachmentRepository {
+    return getRepositories().attachments;
+  }
+
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
+
+  private get roomModel(): RoomRepository {
+    return getRepositories().rooms;
+  }
+
+  private get participantModel(): RoomParticipantRepository {
+    return getRepositories().roomParticipants;
+  }
+
+  private get store(): ObjectStore {
+    return getAttachmentStore();
+  }
+
+  /**
+   * Reserve an attachment and return a presigned PUT for its ciphertext.
+   * Link uploads are unclaimed until a message on that link lists them;
+   * room uploads need an approved participant.
+   */
+  async createUpload(input: CreateUploadInput): Promise<UploadTicket> {
+    if (input.room_id) {
+      await this.assertRoomMember(input.room_id, input.anonymous_id);
+    } else if (input.link_id) {
+      await this.assertLinkOpen(input.link_id);
+    } else {
+      throw new ValidationError('link_id or room_id is required');
+    }
+
+    const attachment = await this.attachmentModel.create({
+      object_key: `attachments/${CryptoUtils.generateRandomString(16)}`,
+      link_id: input.room_id ? undefined : input.link_id,
+      room_id: input.room_id,
+      size_bytes: input.size_bytes,
+    });
+
+    const uploadUrl = await this.store.presignPut(attachment.object_key, input.size_bytes, URL_TTL_SECONDS);
+
+    LoggerUtils.logMetric('attachment_upload_created', 1, 'count');
+
+    return { attachment_id: attachment.attachment_id, upload_url: uploadUrl, expires_in: URL_TTL_SECONDS };
+  }
+
+  /**
+   * Presigned GET for an attachment's ciphertext.
+   * The attachment_id (UUID, unguessable) is the capability, like thread_id.
+   */
+  async getDownload(attachmentId: string): Promise<DownloadTicket> {
+    const attachment = await this.attachmentModel.findById(attachmentId);
+    if (!attachment) {
+      throw new NotFoundError('Attachment');
+    }
+
+    const downloadUrl = await this.store.presignGet(attachment.object_key, URL_TTL_SECONDS);
+    return { download_url: downloadUrl, size_bytes: attachment.size_bytes, expires_in: URL_TTL_SECONDS };
+  }
+
+  /**
+   * Check a new thread's uploads before the thread is created, so an unknown
+   * or foreign id can't leave an empty thread behind
+   */
+  async assertClaimable(attachmentIds: string[] | undefined, linkId: string): Promise<void> {
+    if (!attachmentIds?.length) return;
+    const ids = [...new Set(attachmentIds)];
+
+    if ((await this.attachmentModel.countUnclaimed(ids, linkId)) !== ids.length) {
+      throw new ValidationError('Unknown attachment');
+    }
+  }
+
+  /**
+   * Bind link uploads to the thread a message was posted in.
+   * Every id must be an unclaimed upload for this link (or already in this thread).
+   */
+  async claimForThread(attachmentIds: string[] | undefined, linkId: string, threadId: string): Promise<void> {
+    if (!attachmentIds?.length) return;
+    const ids = [...new Set(attachmentIds)];
+
+    const claimed = await this.attachmentModel.claimForThread(ids, linkId, threadId);
+    if (claimed !== ids.length) {
+      throw new ValidationError('Unknown attachment');
+    }
+  }
+
+  /** Check room message attachments were uploaded for this room */
+  async assertInRoom(attachmentIds: string[] | undefined, roomId: string): Promise<void> {
+    if (!attachmentIds?.length) return;
+    const ids = [...new Set(attachmentIds)];
+
+    if ((await this.attachmentModel.countInRoom(ids, roomId)) !== ids.length) {
+      throw new ValidationError('Unknown attachment');
+    }
+  }
+
+  /**
+   * Delete every attachment object for a burned/deleted link, thread or room.
+   * Never throws: rows whose objects couldn't be deleted are left for the reaper.
+   */
+  async purge(scope: AttachmentScope, id: string): Promise<number> {
+    try {
+      const keys = await this.attachmentModel.findObjectKeys(scope, id);
+      if (keys.length === 0) return 0;
+
+      await this.store.deleteMany(keys);
+      await this.attachmentModel.deleteByObjectKeys(keys);
+
+      LoggerUtils.logMetric('attachments_purged', keys.length, 'count');
+      logger.info('Attachments purged', { [scope]: id, count: keys.length });
+      return keys.length;
+    } catch (error) {
+      logger.error('Failed to purge attachments', { error, [scope]: id });
+      return 0;
+    }
+  }
+
+  private async assertLinkOpen(linkId: string): Promise<void> {
+    const link = await this.linkModel.findById(linkId);
+    if (!link || link.burned || !link.public_key) {
+      throw new NotFoundError('Link');
+    }
+    if (TokenService.isExpired(link.expires_at)) {
+      throw new ValidationError('Link has expired');
+    }
+  }
+
+  private async assertRoomMember(roomId: string, anonymousId?: string): Promise<void> {
+    const room = await this.roomModel.findActiveById(roomId);
+    if (!room) {
+      throw new NotFoundError('Room');
+    }
+
+    const participant = anonymousId
+      ? await this.participantModel.findByAnonymousId(roomId, anonymousId)
+      : null;
+    if (!participant || participant.status !== 'approved') {
+      throw new AuthorizationError('Not approved to send messages');
+    }
+  }
+}
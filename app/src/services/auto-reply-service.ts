@@ -0,0 +1,133 @@
+/**
+ * Auto-Reply Service
+ * Per-link auto-reply ("away message" reply). The server never sees the
+ * reply text: the owner stores it encrypted to the link's public key, and
+ * when a sender message is due a reply the thread is flagged. The owner's
+ * dashboard picks flagged threads up (AppSync link event or polling),
+ * re-encrypts the text to the thread's sender key and sends it through
+ * MessageService.sendAutoReply.
+ */
+
+import { LinkAutoReplyRepository, LinkAutoReply, PendingAutoReply } from '../models/link-auto-reply-model';
+import { LinkRepository, Link } from '../models/link-model';
+import { ThreadRepository } from '../models/thread-model';
+import { getRepositories } from '../models/repositories';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { TimeUtils } from '../utils/time-utils';
+import { logger } from '../config/logger';
+
+const PENDING_LIMIT = 50;
+
+export interface SaveAutoReplyInput {
+  enabled: boolean;
+  template_ciphertext: string;
+  first_message_only: boolean;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string;
+}
+
+/**
+ * Whether `at` falls inside the auto-reply's quiet hours (in its time zone);
+ * no quiet hours means always
+ */
+export function isWithinQuietHours(
+  reply: Pick<LinkAutoReply, 'quiet_hours_start' | 'quiet_hours_end' | 'time_zone'>,
+  at: Date = new Date()
+): boolean {
+  if (!reply.quiet_hours_start || !reply.quiet_hours_end) return true;
+  return TimeUtils.isWithinDailyWindow(reply.quiet_hours_start, reply.quiet_hours_end, reply.time_zone, at);
+}
+
+export class AutoReplyService {
+  private get autoReplyModel(): LinkAutoReplyRepository {
+    return getRepositories().linkAutoReplies;
+  }
+
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
+
+  private get threadModel(): ThreadRepository {
+    return getRepositories().threads;
+  }
+
+  /**
+   * The link's auto-reply, or null when none is set
+   */
+  async getAutoReply(linkId: string, userId: string): Promise<LinkAutoReply | null> {
+    await this.getOwnedLink(linkId, userId);
+    return this.autoReplyModel.findByLinkId(linkId);
+  }
+
+  async saveAutoReply(linkId: string, userId: string, input: SaveAutoReplyInput): Promise<LinkAutoReply> {
+    const link = await this.getOwnedLink(linkId, userId);
+    if (!link.public_key) {
+      throw new ValidationError('This link does not accept messages');
+    }
+
+    const reply = await this.autoReplyModel.upsert({ link_id: linkId, ...input });
+    logger.info('Auto-reply saved', { link_id: linkId, enabled: reply.enabled });
+    return reply;
+  }
+
+  async deleteAutoReply(linkId: string, userId: string): Promise<void> {
+    await this.getOwnedLink(linkId, userId);
+    if (!(await this.autoReplyModel.delete(linkId))) {
+      throw new NotFoundError('Auto-reply');
+    }
+    logger.info('Auto-reply deleted', { link_id: linkId });
+  }
+
+  /**
+   * Threads on the owner's links still waiting for their auto-reply, oldest first
+   */
+  async listPending(userId: string): Promise<PendingAutoReply[]> {
+    return this.autoReplyModel.findPendingByOwner(userId, PENDING_LIMIT);
+  }
+
+  /**
+   * Flag the thread when this sender message is due an auto-reply. Never
+   * throws: a failure here must not fail the message send that triggered it.
+   */
+  async onSenderMessage(linkId: string, threadId: string, isFirstMessage: boolean): Promise<void> {
+    try {
+      const reply = await this.autoReplyModel.findByLinkId(linkId);
+      if (!reply?.enabled) return;
+      if (reply.first_message_only && !isFirstMessage) return;
+      if (!isWithinQuietHours(reply)) return;
+
+      await this.threadModel.setAutoReplyPending(threadId, true);
+    } catch (error) {
+      logger.warn('Failed to flag thread for auto-reply', { link_id: linkId, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Take the thread's auto-reply flag for this owner; false when it was
+   * already cleared (another device sent it, or the owner replied)
+   */
+  async claim(threadId: string, userId: string): Promise<boolean> {
+    const thread = await this.threadModel.findById(threadId);
+    if (!thread) {
+      throw new NotFoundError('Thread');
+    }
+    const link = await this.linkModel.findById(thread.link_id);
+    if (!link || link.owner_user_id !== userId) {
+      throw new NotFoundError('Thread');
+    }
+    return this.threadModel.claimAutoReply(threadId);
+  }
+
+  private async getOwnedLink(linkId: string, userId: string): Promise<Link> {
+    const link = await this.linkModel.findById(linkId);
+    if (!link) {
+      throw new NotFoundError('Link');
+    }
+
+    if (link.owner_user_id !== userId) {
+      throw new AuthorizationError('Not authorized to manage the auto-reply for this link');
+    }
+    return link;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Broadcast Feed Service
+ * Atom, RSS 2.0 and JSON Feed 1.1 for channels created with public_feed
+ * (plaintext posts). Pages come from BroadcastPostModel.listByChannelId, so
+ * pinned posts lead the first page, and link to the next one with
+ * ?before=<post_id>. Encrypted channels have no feed and answer 404.
+ */
+
+import { BroadcastChannel, BroadcastChannelRepository } from '../models/broadcast-channel-model';
+import { BroadcastPost, BroadcastPostRepository } from '../models/broadcast-post-model';
+import { getRepositories } from '../models/repositories';
+import { CryptoUtils } from '../utils/crypto-utils';
+import { NotFoundError } from '../utils/error-utils';
+import { getReadUrlBase } from './broadcast-service';
+
+export type FeedFormat = 'atom' | 'rss' | 'json';
+
+const DEFAULT_PAGE_SIZE = 50;
+const TITLE_LENGTH = 80;
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface FeedPageInput {
+  limit?: number;
+  before?: string;
+}
+
+export interface RenderedFeed {
+  body: string;
+  content_type: string;
+  /** Strong validator over the rendered page */
+  etag: string;
+  /**
+   * The channel's feed_updated_at, which deletes, expiry and unpinning move
+   * as well as new posts and edits
+   */
+  last_modified: Date;
+}
+
+interface FeedPage {
+  title: string;
+  home_url: string;
+  self_url: string;
+  next_url: string | null;
+  updated: Date;
+  posts: BroadcastPost[];
+}
+
+/** C0 control characters other than tab, LF and CR are not allowed in XML 1.0 */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/** XML 1.0 text: escape markup and drop control characters it cannot carry */
+function xml(text: string): string {
+  return Array.from(text).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** First line of the post, shortened */
+function postTitle(content: string): string {
+  const line = content.trim().split('\n')[0].trim();
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || 'Post';
+}
+
+function postUpdated(post: BroadcastPost): Date {
+  return new Date(post.edited_at ?? post.created_at);
+}
+
+function renderAtom(page: FeedPage): string {
+  const entries = page.posts.map((p) => [
+    '  <entry>',
+    `    <id>urn:uuid:${p.post_id}</id>`,
+    `    <title>${xml(postTitle(p.content))}</title>`,
+    `    <link rel="alternate" href="${xml(page.home_url)}"/>`,
+    `    <published>${new Date(p.created_at).toISOString()}</published>`,
+    `    <updated>${postUpdated(p).toISOString()}</updated>`,
+    `    <content type="text">${xml(p.content)}</content>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${xml(page.home_url)}</id>`,
+    `  <title>${xml(page.title)}</title>`,
+    `  <updated>${page.updated.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${xml(page.self_url)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${xml(page.home_url)}"/>`,
+    ...(page.next_url ? [`  <link rel="next" href="${xml(page.next_url)}"/>`] : []),
+    `  <author><name>${xml(page.title)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function renderRss(page: FeedPage): string {
+  const items = page.posts.map((p) => [
+    '    <item>',
+    `      <guid isPermaLink="false">${p.post_id}</guid>`,
+    `      <title>${xml(postTitle(p.content))}</title>`,
+    `      <link>${xml(page.home_url)}</link>`,
+    `      <pubDate>${new Date(p.created_at).toUTCString()}</pubDate>`,
+    `      <description>${xml(p.content)}</description>`,
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${xml(page.title)}</title>`,
+    `    <link>${xml(page.home_url)}</link>`,
+    `    <description>${xml(page.title)}</description>`,
+    `    <lastBuildDate>${page.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${xml(page.self_url)}"/>`,
+    ...(page.next_url ? [`    <atom:link rel="next" href="${xml(page.next_url)}"/>`] : []),
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+function renderJson(page: FeedPage): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: page.title,
+    home_page_url: page.home_url,
+    feed_url: page.self_url,
+    ...(page.next_url ? { next_url: page.next_url } : {}),
+    items: page.posts.map((p) => ({
+      id: p.post_id,
+      url: page.home_url,
+      title: postTitle(p.content),
+      content_text: p.content,
+      date_published: new Date(p.created_at).toISOString(),
+      date_modified: postUpdated(p).toISOString(),
+    })),
+  }, null, 2);
+}
+
+const RENDERERS: Record<FeedFormat, (page: FeedPage) => string> = {
+  atom: renderAtom,
+  rss: renderRss,
+  json: renderJson,
+};
+
+export class BroadcastFeedService {
+  private get channelModel(): BroadcastChannelRepository {
+    return getRepositories().broadcastChannels;
+  }
+
+  private get postModel(): BroadcastPostRepository {
+    return getRepositories().broadcastPosts;
+  }
+
+  async getFeed(channelId: string, format: FeedFormat, input: FeedPageInput = {}): Promise<RenderedFeed> {
+    const channel = await this.channelModel.findByChannelId(channelId);
+    if (!channel || channel.burned || !channel.public_feed) {
+      throw new NotFoundError('Broadcast feed');
+    }
+
+    const limit = Math.min(input.limit ?? DEFAULT_PAGE_SIZE, 100);
+    const posts = await this.postModel.listByChannelId(channelId, limit, input.before);
+    const page = this.buildPage(channel, format, posts, limit, input.before);
+    const body = RENDERERS[format](page);
+
+    return {
+      body,
+      content_type: CONTENT_TYPES[format],
+      etag: `"${CryptoUtils.hash(body).slice(0, 32)}"`,
+      last_modified: new Date(channel.feed_updated_at),
+    };
+  }
+
+  private buildPage(
+    channel: BroadcastChannel,
+    format: FeedFormat,
+    posts: BroadcastPost[],
+    limit: number,
+    before?: string
+  ): FeedPage {
+    const homeUrl = `${getReadUrlBase()}/b/${channel.channel_id}`;
+    const feedUrl = `${homeUrl}/feed.${format}`;
+    const pageUrl = (cursor?: string): string => {
+      const params = new URLSearchParams();
+      if (cursor) params.set('before', cursor);
+      if (limit !== DEFAULT_PAGE_SIZE) params.set('limit', String(limit));
+      const query = params.toString();
+      return query ? `${feedUrl}?${query}` : feedUrl;
+    };
+
+    return {
+      title: channel.display_name,
+      home_url: homeUrl,
+      self_url: pageUrl(before),
+      next_url: posts.length === limit ? pageUrl(posts[posts.length - 1].post_id) : null,
+      updated: new Date(channel.feed_updated_at),
+      posts,
+    };
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Broadcast Moderation Service
+ * The owner's side of the guest-post queue: list pending posts, approve or
+ * reject them in bulk, trust the posting keys of approved authors, and
+ * switch moderation on or off. Access is the channel token, a token with
+ * the moderate scope, or the owner's JWT.
+ */
+
+import { BroadcastChannelRepository } from '../models/broadcast-channel-model';
+import { BroadcastPostRepository } from '../models/broadcast-post-model';
+import { getRepositories } from '../models/repositories';
+import { ValidationError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import { AppSyncPublisher } from './appsync-publisher';
+import { authorizeChannel, ChannelOwnerInput } from './broadcast-service';
+
+const PENDING_PAGE_SIZE = 100;
+
+export interface ModerateInput extends ChannelOwnerInput {
+  approve: string[];
+  reject: string[];
+  /** Add the posting keys of approved posts to the auto-approve allowlist */
+  trust_authors: boolean;
+}
+
+export interface ModerationSettingsInput extends ChannelOwnerInput {
+  moderate_guest_posts?: boolean;
+  clear_trusted_guests?: boolean;
+}
+
+export interface ModerationQueue {
+  posts: Array<{ post_id: string; content: string; created_at: Date; has_guest_key: boolean }>;
+  pending: number;
+  moderate_guest_posts: boolean;
+  trusted_guests: number;
+}
+
+export class BroadcastModerationService {
+  private publisher = new AppSyncPublisher();
+
+  private get channelModel(): BroadcastChannelRepository {
+    return getRepositories().broadcastChannels;
+  }
+
+  private get postModel(): BroadcastPostRepository {
+    return getRepositories().broadcastPosts;
+  }
+
+  /** Oldest pending posts first (up to 100), with the queue's size */
+  async listQueue(input: ChannelOwnerInput): Promise<ModerationQueue> {
+    const { channel } = await authorizeChannel(input, 'moderate');
+    const [posts, pending, trustedGuests] = await Promise.all([
+      this.postModel.listPending(input.channel_id, PENDING_PAGE_SIZE),
+      this.postModel.countPending(input.channel_id),
+      this.channelModel.countTrustedGuests(input.channel_id),
+    ]);
+
+    return {
+      posts: posts.map((p) => ({
+        post_id: p.post_id,
+        content: p.content,
+        created_at: p.created_at,
+        has_guest_key: p.guest_key_hash !== null,
+      })),
+      pending,
+      moderate_guest_posts: channel.moderate_guest_posts,
+      trusted_guests: trustedGuests,
+    };
+  }
+
+  async moderate(input: ModerateInput): Promise<{ approved: number; rejected: number; trusted: number; pending: number }> {
+    await authorizeChannel(input, 'moderate');
+    if (input.approve.some((id) => input.reject.includes(id))) {
+      throw new ValidationError('A post cannot be both approved and rejected');
+    }
+
+    const approved = input.approve.length > 0
+      ? await this.postModel.approvePending(input.channel_id, input.approve)
+      : [];
+    const rejected = input.reject.length > 0
+      ? await this.postModel.rejectPending(input.channel_id, input.reject)
+      : 0;
+
+    const keyHashes = approved.map((p) => p.guest_key_hash).filter((h): h is string => h !== null);
+    const trusted = input.trust_authors && keyHashes.length > 0
+      ? await this.channelModel.trustGuests(input.channel_id, keyHashes)
+      : 0;
+
+    const pending = await this.postModel.countPending(input.channel_id);
+    if (approved.length > 0) {
+      this.publisher.publishBroadcastPost(input.channel_id).catch(() => {});
+    }
+    if (approved.length > 0 || rejected > 0) {
+      this.publisher.publishBroadcastQueue(input.channel_id, pending).catch(() => {});
+    }
+
+    logger.info('Broadcast queue moderated', {
+      channel_id: input.channel_id,
+      approved: approved.length,
+      rejected,
+      trusted,
+    });
+    return { approved: approved.length, rejected, trusted, pending };
+  }
+
+  /**
+   * Turning moderation off leaves already-queued posts pending; the owner
+   * still approves or rejects them.
+   */
+  async updateSettings(input: ModerationSettingsInput): Promise<{ moderate_guest_posts: boolean; trusted_guests: number }> {
+    const { channel } = await authorizeChannel(input, 'moderate');
+
+    let moderate = channel.moderate_guest_posts;
+    if (input.moderate_guest_posts !== undefined && input.moderate_guest_posts !== moderate) {
+      await this.channelModel.setModeration(input.channel_id, input.moderate_guest_posts);
+      moderate = input.moderate_guest_posts;
+    }
+    if (input.clear_trusted_guests) {
+      await this.channelModel.clearTrustedGuests(input.channel_id);
+    }
+
+    logger.info('Broadcast moderation updated', {
+      channel_id: input.channel_id,
+      moderate_guest_posts: moderate,
+      cleared_trusted_guests: Boolean(input.clear_trusted_guests),
+    });
+    return {
+      moderate_guest_posts: moderate,
+      trusted_guests: await this.channelModel.countTrustedGuests(input.channel_id),
+    };
+  }
+}
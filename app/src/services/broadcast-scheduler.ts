@@ -0,0 +1,97 @@
+/**
+ * Broadcast Scheduler
+ * Publishes broadcast posts written ahead once their publish_at passes and
+ * deletes posts past their expires_at, sending the same AppSync events as a
+ * live post or a delete so open feeds refetch. Runs in-process on every PM2
+ * worker; due rows are leased with FOR UPDATE SKIP LOCKED, so each post is
+ * published or deleted by one worker only. Kept apart from the reaper, which
+ * ticks every few minutes and is off under DATA_STORE=memory.
+ */
+
+import { BroadcastPostRepository } from '../models/broadcast-post-model';
+import { getRepositories } from '../models/repositories';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+import { AppSyncPublisher } from './appsync-publisher';
+
+const DEFAULT_INTERVAL_SECONDS = 30;
+const BATCH_SIZE = 100;
+
+export interface SchedulerTickResult {
+  published: number;
+  expired: number;
+}
+
+export class BroadcastScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private publisher = new AppSyncPublisher();
+
+  private get postModel(): BroadcastPostRepository {
+    return getRepositories().broadcastPosts;
+  }
+
+  /** Read lazily — dotenv loads after module imports. */
+  private get intervalMs(): number {
+    const seconds = parseInt(process.env.BROADCAST_SCHEDULER_INTERVAL_SECONDS || '', 10);
+    return (seconds > 0 ? seconds : DEFAULT_INTERVAL_SECONDS) * 1000;
+  }
+
+  /**
+   * Start the periodic tick (no-op when BROADCAST_SCHEDULER_ENABLED=false or already started)
+   */
+  start(): void {
+    if (this.timer || process.env.BROADCAST_SCHEDULER_ENABLED === 'false') return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+    // Don't keep the process alive for the scheduler alone (graceful shutdown)
+    this.timer.unref();
+
+    logger.info('Broadcast scheduler started', { interval_ms: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish due posts and delete expired ones, one batch of each. Returns
+   * null when a tick is already running on this worker.
+   */
+  async tick(): Promise<SchedulerTickResult | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const published = await this.postModel.publishDue(BATCH_SIZE);
+      // One event per channel; feeds refetch the whole page anyway
+      for (const channelId of new Set(published.map((p) => p.channel_id))) {
+        this.publisher.publishBroadcastPost(channelId).catch(() => {});
+      }
+
+      const expired = await this.postModel.deleteExpired(BATCH_SIZE);
+      for (const post of expired) {
+        this.publisher.publishBroadcastPostChanged(post.channel_id, post.post_id, 'deleted').catch(() => {});
+      }
+
+      if (published.length > 0 || expired.length > 0) {
+        LoggerUtils.logMetric('broadcast_posts_published', published.length, 'count');
+        LoggerUtils.logMetric('broadcast_posts_expired', expired.length, 'count');
+        logger.info('Broadcast scheduler tick', { published: published.length, expired: expired.length });
+      }
+      return { published: published.length, expired: expired.length };
+    } catch (error) {
+      LoggerUtils.logError('Broadcast scheduler tick failed', error as Error);
+      return { published: 0, expired: 0 };
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const broadcastScheduler = new BroadcastScheduler();
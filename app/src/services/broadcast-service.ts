@@ -1,26 +1,37 @@
 /**
  * Broadcast Service
- * Create channel (short id + post token), add post, list posts, burn channel.
+ * Create channel (short id + post token), add/edit/delete/pin posts, list
+ * posts, burn channel. Guest posts on moderated channels wait in a queue
+ * (see broadcast-moderation-service); scoped tokens are minted in
+ * broadcast-token-service. Posts written ahead go live, and expiring posts
+ * are removed, in broadcast-scheduler.
  * Post token is hashed (SHA-256) before storage; never log or persist plaintext.
  */
 
 import crypto from 'crypto';
-import { BroadcastChannelModel } from '../models/broadcast-channel-model';
-import { BroadcastPostModel } from '../models/broadcast-post-model';
+import { BroadcastChannel, BroadcastChannelRepository } from '../models/broadcast-channel-model';
+import { BroadcastPost, BroadcastPostRepository, BroadcastPostStatus } from '../models/broadcast-post-model';
+import { BroadcastToken, BroadcastTokenRepository, BroadcastTokenScope } from '../models/broadcast-token-model';
+import { UserRepository } from '../models/user-model';
+import { getRepositories } from '../models/repositories';
 import { CryptoUtils } from '../utils/crypto-utils';
-import { ValidationError, NotFoundError } from '../utils/error-utils';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 import { AppSyncPublisher } from './appsync-publisher';
-import { getDb } from '../config/database';
 
 const CHANNEL_ID_LENGTH = 12;
 const POST_TOKEN_BYTES = 32;
+const MAX_PINNED_POSTS = 3;
+const MAX_PENDING_POSTS = 200;
+const SCHEDULED_PAGE_SIZE = 100;
 
 export interface CreateChannelInput {
   display_name: string;
   expires_at?: Date | null;
   owner_user_id?: string | null;
   allow_guest_posts?: boolean;
+  moderate_guest_posts?: boolean;
+  public_feed?: boolean;
 }
 
 export interface CreateChannelResult {
@@ -34,12 +45,105 @@ export interface ListPostsInput {
   channel_id: string;
   limit?: number;
   before?: string;
+  /** The channel token or the owner's sign-in adds author labels */
+  post_token?: string;
+  user_id?: string;
 }
 
 export interface AddPostInput {
   channel_id: string;
   post_token?: string;
   content: string;
+  /** Guest-held posting key; trusted keys skip the moderation queue */
+  guest_key?: string;
+  /** Token holders only: hold the post back until then */
+  publish_at?: Date;
+  /** Token holders only: hide and delete the post at this time */
+  expires_at?: Date;
+}
+
+/** Channel or scoped post token, or the signed-in owner */
+export interface ChannelOwnerInput {
+  channel_id: string;
+  post_token?: string;
+  user_id?: string;
+}
+
+export interface PostChangeInput extends ChannelOwnerInput {
+  post_id: string;
+}
+
+export interface UpdatePostInput extends PostChangeInput {
+  content?: string;
+  pinned?: boolean;
+}
+
+export interface PostView {
+  post_id: string;
+  content: string;
+  created_at: Date;
+  edited_at: Date | null;
+  pinned_at: Date | null;
+  expires_at: Date | null;
+  /** Label of the scoped token that added the post; owner view only */
+  author_label?: string | null;
+}
+
+/** A post written ahead, in the owner view */
+export interface ScheduledPostView extends PostView {
+  publish_at: Date;
+}
+
+function toPostView(p: BroadcastPost): PostView {
+  return {
+    post_id: p.post_id,
+    content: p.content,
+    created_at: p.created_at,
+    edited_at: p.edited_at ?? null,
+    pinned_at: p.pinned_at ?? null,
+    expires_at: p.expires_at ?? null,
+  };
+}
+
+export interface ChannelAccess {
+  channel: BroadcastChannel;
+  /** The scoped token used; null for the channel's own token or the owner */
+  token: BroadcastToken | null;
+}
+
+/**
+ * Access to a live channel. The channel's own post token and the signed-in
+ * owner may do anything; a scoped token (unrevoked, unexpired) only what its
+ * scopes allow. 'owner' admits the first two only.
+ */
+export async function authorizeChannel(
+  input: ChannelOwnerInput,
+  scope: BroadcastTokenScope | 'owner'
+): Promise<ChannelAccess> {
+  const repositories = getRepositories();
+  const channel = await repositories.broadcastChannels.findByChannelId(input.channel_id);
+  if (!channel) throw new NotFoundError('Broadcast channel');
+  if (channel.burned) throw new ValidationError('Channel has been burned');
+
+  if (input.post_token) {
+    const hash = CryptoUtils.hash(input.post_token);
+    if (hash === channel.post_token_hash) return { channel, token: null };
+
+    const token = await repositories.broadcastTokens.findByHash(input.channel_id, hash);
+    if (!token || token.revoked_at || (token.expires_at && new Date(token.expires_at).getTime() <= Date.now())) {
+      throw new ValidationError('Invalid post token');
+    }
+    if (scope === 'owner' || !token.scopes.includes(scope)) {
+      throw new AuthorizationError(scope === 'owner'
+        ? 'Only the channel token or owner can do this'
+        : `This token does not have the ${scope} scope`);
+    }
+    return { channel, token };
+  }
+  if (!input.user_id || channel.owner_user_id !== input.user_id) {
+    throw new AuthorizationError('Not authorized to manage this channel');
+  }
+  return { channel, token: null };
 }
 
 function generateChannelId(): string {
@@ -50,25 +154,31 @@ function generatePostToken(): string {
   return crypto.randomBytes(POST_TOKEN_BYTES).toString('base64url');
 }
 
-function getReadUrlBase(): string {
+export function getReadUrlBase(): string {
   return process.env.BROADCAST_READ_URL_BASE || 'https://dev.burnware.live';
 }
 
 export class BroadcastService {
-  private channelModel = new BroadcastChannelModel();
-  private postModel = new BroadcastPostModel();
   private publisher = new AppSyncPublisher();
 
+  private get channelModel(): BroadcastChannelRepository {
+    return getRepositories().broadcastChannels;
+  }
+
+  private get postModel(): BroadcastPostRepository {
+    return getRepositories().broadcastPosts;
+  }
+
+  private get tokenModel(): BroadcastTokenRepository {
+    return getRepositories().broadcastTokens;
+  }
+
+  private get userModel(): UserRepository {
+    return getRepositories().users;
+  }
+
   private async ensureUserExists(userId: string): Promise<void> {
-    const db = getDb();
-    await db.query(
-      `INSERT INTO users (user_id, email, created_at, updated_at)
-       VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-       ON CONFLICT (user_id) DO UPDATE SET
-         updated_at = CURRENT_TIMESTAMP,
-         last_login_at = CURRENT_TIMESTAMP`,
-      [userId, `${userId}@unknown.local`]
-    );
+    await this.userModel.upsert(userId, `${userId}@unknown.local`);
   }
 
   async createChannel(input: CreateChannelInput): Promise<CreateChannelResult> {
@@ -87,6 +197,8 @@ export class BroadcastService {
       expires_at: input.expires_at ?? null,
       owner_user_id: input.owner_user_id ?? null,
       allow_guest_posts: input.allow_guest_posts ?? false,
+      moderate_guest_posts: input.moderate_guest_posts ?? false,
+      public_feed: input.public_feed ?? false,
     });
 
     const base = getReadUrlBase();
@@ -100,45 +212,109 @@ export class BroadcastService {
     };
   }
 
-  private async verifyPostToken(channelId: string, postToken: string): Promise<void> {
-    const channel = await this.channelModel.findByChannelId(channelId);
-    if (!channel) {
-      throw new NotFoundError('Broadcast channel');
-    }
-    if (channel.burned) {
-      throw new ValidationError('Channel has been burned');
-    }
-    const hash = CryptoUtils.hash(postToken);
-    if (hash !== channel.post_token_hash) {
-      throw new ValidationError('Invalid post token');
+  /** Posting needs a token with the post scope, unless the channel takes guest posts */
+  private async authorizePoster(input: AddPostInput): Promise<ChannelAccess> {
+    if (input.post_token) return authorizeChannel(input, 'post');
+    if (input.publish_at || input.expires_at) {
+      throw new ValidationError('Scheduling or expiring a post requires a post token');
     }
-  }
 
-  async addPost(input: AddPostInput): Promise<{ post_id: string; created_at: Date }> {
     const channel = await this.channelModel.findByChannelId(input.channel_id);
     if (!channel) throw new NotFoundError('Broadcast channel');
     if (channel.burned) throw new ValidationError('Channel has been burned');
+    if (!channel.allow_guest_posts) throw new ValidationError('Post token is required');
+    return { channel, token: null };
+  }
+
+  /**
+   * Guest posts on a moderated channel wait for review unless their key is
+   * trusted. Returns the queue size before this post, or null if not queued.
+   */
+  private async queuedBefore(
+    input: AddPostInput,
+    channel: BroadcastChannel,
+    guestKeyHash: string | null
+  ): Promise<number | null> {
+    if (input.post_token || !channel.moderate_guest_posts) return null;
+    if (guestKeyHash && await this.channelModel.isTrustedGuest(input.channel_id, guestKeyHash)) return null;
 
-    if (input.post_token) {
-      const hash = CryptoUtils.hash(input.post_token);
-      if (hash !== channel.post_token_hash) {
-        throw new ValidationError('Invalid post token');
-      }
-    } else if (!channel.allow_guest_posts) {
-      throw new ValidationError('Post token is required');
+    const pending = await this.postModel.countPending(input.channel_id);
+    if (pending >= MAX_PENDING_POSTS) {
+      throw new ValidationError('This channel\'s review queue is full. Try again later.');
     }
+    return pending;
+  }
+
+  async addPost(input: AddPostInput): Promise<{ post_id: string; created_at: Date; status: BroadcastPostStatus }> {
+    const { channel, token: authorToken } = await this.authorizePoster(input);
 
+    const guestKeyHash = !input.post_token && input.guest_key ? CryptoUtils.hash(input.guest_key) : null;
+    const pending = await this.queuedBefore(input, channel, guestKeyHash);
+    const queued = pending !== null;
+    const scheduled = input.publish_at !== undefined && input.publish_at.getTime() > Date.now();
     const post = await this.postModel.create({
       channel_id: input.channel_id,
       content: input.content,
+      status: queued ? 'pending' : scheduled ? 'scheduled' : 'published',
+      guest_key_hash: guestKeyHash,
+      author_token_id: authorToken?.token_id ?? null,
+      publish_at: scheduled ? input.publish_at : null,
+      expires_at: input.expires_at ?? null,
     });
-    this.publisher.publishBroadcastPost(input.channel_id).catch(() => {});
-    return { post_id: post.post_id, created_at: post.created_at };
+    // A scheduled post's event is sent by the scheduler when it goes live
+    if (queued) {
+      this.publisher.publishBroadcastQueue(input.channel_id, pending + 1).catch(() => {});
+    } else if (!scheduled) {
+      this.publisher.publishBroadcastPost(input.channel_id).catch(() => {});
+    }
+    return { post_id: post.post_id, created_at: post.created_at, status: post.status };
+  }
+
+  async updatePost(input: UpdatePostInput): Promise<PostView> {
+    await authorizeChannel(input, 'moderate');
+    const current = await this.postModel.findInChannel(input.channel_id, input.post_id);
+    // Queued guest posts are approved or rejected, not edited
+    if (!current || current.status !== 'published') throw new NotFoundError('Broadcast post');
+
+    if (input.pinned && !current.pinned_at
+      && (await this.postModel.countPinned(input.channel_id)) >= MAX_PINNED_POSTS) {
+      throw new ValidationError(`At most ${MAX_PINNED_POSTS} posts can be pinned`);
+    }
+
+    const updated = await this.postModel.update(input.channel_id, input.post_id, {
+      content: input.content,
+      pinned: input.pinned,
+    });
+    if (!updated) throw new NotFoundError('Broadcast post');
+
+    if (input.content !== undefined) {
+      this.publisher.publishBroadcastPostChanged(input.channel_id, input.post_id, 'edited').catch(() => {});
+    }
+    if (input.pinned !== undefined && input.pinned !== Boolean(current.pinned_at)) {
+      this.publisher.publishBroadcastPostChanged(input.channel_id, input.post_id, input.pinned ? 'pinned' : 'unpinned')
+        .catch(() => {});
+    }
+    return toPostView(updated);
+  }
+
+  async deletePost(input: PostChangeInput): Promise<void> {
+    await authorizeChannel(input, 'moderate');
+    const deleted = await this.postModel.delete(input.channel_id, input.post_id);
+    if (!deleted) throw new NotFoundError('Broadcast post');
+    this.publisher.publishBroadcastPostChanged(input.channel_id, input.post_id, 'deleted').catch(() => {});
   }
 
   async listPosts(input: ListPostsInput): Promise<{
-    posts: Array<{ post_id: string; content: string; created_at: Date }>;
-    channel: { display_name: string; allow_guest_posts: boolean; burned: boolean };
+    posts: PostView[];
+    /** Owner view, first page only */
+    scheduled?: ScheduledPostView[];
+    channel: {
+      display_name: string;
+      allow_guest_posts: boolean;
+      moderate_guest_posts: boolean;
+      public_feed: boolean;
+      burned: boolean;
+    };
   }> {
     const channel = await this.channelModel.findByChannelId(input.channel_id);
     if (!channel) {
@@ -149,18 +325,33 @@ export class BroadcastService {
     }
     const limit = Math.min(input.limit ?? 50, 100);
     const posts = await this.postModel.listByChannelId(input.channel_id, limit, input.before);
+    // Anything short of the channel token or the owner's sign-in is just the public view
+    const ownerView = (input.post_token !== undefined && CryptoUtils.hash(input.post_token) === channel.post_token_hash)
+      || (input.user_id !== undefined && channel.owner_user_id === input.user_id);
+    const labels = ownerView
+      ? new Map((await this.tokenModel.listByChannelId(input.channel_id)).map((t) => [t.token_id, t.label]))
+      : null;
+    const withLabel = (p: BroadcastPost): PostView => (labels
+      ? { ...toPostView(p), author_label: p.author_token_id ? labels.get(p.author_token_id) ?? null : null }
+      : toPostView(p));
+    const scheduled = ownerView && !input.before
+      ? await this.postModel.listScheduled(input.channel_id, SCHEDULED_PAGE_SIZE)
+      : null;
     return {
-      posts: posts.map((p) => ({ post_id: p.post_id, content: p.content, created_at: p.created_at })),
+      posts: posts.map(withLabel),
+      ...(scheduled ? { scheduled: scheduled.map((p) => ({ ...withLabel(p), publish_at: p.publish_at! })) } : {}),
       channel: {
         display_name: channel.display_name,
         allow_guest_posts: channel.allow_guest_posts,
+        moderate_guest_posts: channel.moderate_guest_posts,
+        public_feed: channel.public_feed,
         burned: channel.burned,
       },
     };
   }
 
   async burnChannel(channelId: string, postToken: string): Promise<void> {
-    await this.verifyPostToken(channelId, postToken);
+    await authorizeChannel({ channel_id: channelId, post_token: postToken }, 'burn');
     await this.channelModel.burn(channelId);
     logger.info('Broadcast channel burned', { channel_id: channelId });
   }
@@ -180,6 +371,8 @@ export class BroadcastService {
     created_at: Date;
     burned: boolean;
     allow_guest_posts: boolean;
+    moderate_guest_posts: boolean;
+    public_feed: boolean;
   }>> {
     const channels = await this.channelModel.findByOwnerUserId(userId);
     const base = getReadUrlBase();
@@ -190,6 +383,8 @@ export class BroadcastService {
       created_at: c.created_at,
       burned: c.burned,
       allow_guest_posts: c.allow_guest_posts,
+      moderate_guest_posts: c.moderate_guest_posts,
+      public_feed: c.public_feed,
     }));
   }
 }
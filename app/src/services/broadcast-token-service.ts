@@ -0,0 +1,86 @@
+/**
+ * Broadcast Token Service
+ * Named post tokens for channels with several contributors. Each token is
+ * limited to some of post / moderate / burn, may expire, and can be revoked.
+ * Only the channel's own token or the signed-in owner manages them. The
+ * plaintext token is returned once at minting; only its hash is stored.
+ */
+
+import crypto from 'crypto';
+import { BroadcastToken, BroadcastTokenRepository, BroadcastTokenScope } from '../models/broadcast-token-model';
+import { getRepositories } from '../models/repositories';
+import { CryptoUtils } from '../utils/crypto-utils';
+import { ValidationError, NotFoundError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import { authorizeChannel, ChannelOwnerInput } from './broadcast-service';
+
+const TOKEN_BYTES = 32;
+const MAX_ACTIVE_TOKENS = 20;
+
+export interface MintTokenInput extends ChannelOwnerInput {
+  label: string;
+  scopes: BroadcastTokenScope[];
+  expires_at?: Date | null;
+}
+
+export interface RevokeTokenInput extends ChannelOwnerInput {
+  token_id: string;
+}
+
+export interface TokenView {
+  token_id: string;
+  label: string;
+  scopes: BroadcastTokenScope[];
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+function toTokenView(t: BroadcastToken): TokenView {
+  return {
+    token_id: t.token_id,
+    label: t.label,
+    scopes: t.scopes,
+    expires_at: t.expires_at,
+    revoked_at: t.revoked_at,
+    created_at: t.created_at,
+  };
+}
+
+export class BroadcastTokenService {
+  private get tokenModel(): BroadcastTokenRepository {
+    return getRepositories().broadcastTokens;
+  }
+
+  async listTokens(input: ChannelOwnerInput): Promise<TokenView[]> {
+    await authorizeChannel(input, 'owner');
+    return (await this.tokenModel.listByChannelId(input.channel_id)).map(toTokenView);
+  }
+
+  async mintToken(input: MintTokenInput): Promise<TokenView & { token: string }> {
+    await authorizeChannel(input, 'owner');
+    if ((await this.tokenModel.countActive(input.channel_id)) >= MAX_ACTIVE_TOKENS) {
+      throw new ValidationError(`A channel can have at most ${MAX_ACTIVE_TOKENS} active tokens`);
+    }
+
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    const created = await this.tokenModel.create({
+      channel_id: input.channel_id,
+      label: input.label,
+      token_hash: CryptoUtils.hash(token),
+      scopes: input.scopes,
+      expires_at: input.expires_at ?? null,
+    });
+
+    logger.info('Broadcast token minted', { channel_id: input.channel_id, scopes: input.scopes });
+    return { ...toTokenView(created), token };
+  }
+
+  async revokeToken(input: RevokeTokenInput): Promise<void> {
+    await authorizeChannel(input, 'owner');
+    if (!(await this.tokenModel.revoke(input.channel_id, input.token_id))) {
+      throw new NotFoundError('Broadcast token');
+    }
+    logger.info('Broadcast token revoked', { channel_id: input.channel_id });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Cognito Sign-Out
+ * Ends every session an owner has (AdminUserGlobalSignOut revokes their
+ * refresh tokens). Access tokens already handed out stay valid until they
+ * expire, so dashboard routes also refuse tokens issued before the owner's
+ * users.sessions_revoked_at (see DeviceService).
+ */
+
+import {
+  CognitoIdentityProviderClient,
+  AdminUserGlobalSignOutCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+
+export class CognitoSignOut {
+  private _client: CognitoIdentityProviderClient | undefined;
+
+  private get client(): CognitoIdentityProviderClient {
+    if (!this._client) {
+      this._client = new CognitoIdentityProviderClient({ region: process.env.AWS_REGION || 'us-east-1' });
+    }
+    return this._client;
+  }
+
+  /** Username takes the Cognito sub, which is our user_id */
+  async signOutEverywhere(userId: string): Promise<void> {
+    await this.client.send(new AdminUserGlobalSignOutCommand({
+      UserPoolId: process.env.COGNITO_USER_POOL_ID,
+      Username: userId,
+    }));
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Device Link Service
+ * Pairing a new device with an existing one. The new device opens a session
+ * with an ephemeral P-256 public key and shows the pairing code derived from
+ * it; the existing device looks the session up by code, checks the key hashes
+ * to that code, and drops the key bundle encrypted to it. The server only
+ * relays ciphertext, and the bundle is deleted when the new device collects it.
+ */
+
+import crypto from 'crypto';
+import { DeviceLinkRepository, DeviceLinkSession } from '../models/device-link-model';
+import { DeviceRepository } from '../models/device-model';
+import { getRepositories } from '../models/repositories';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { LoggerUtils } from '../utils/logger-utils';
+import { logger } from '../config/logger';
+
+const SESSION_TTL_MS = 10 * 60 * 1000;
+const RAW_PUBLIC_KEY_LENGTH = 65; // P-256 uncompressed point
+const PAIRING_CODE_LENGTH = 12;
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export interface LinkSessionStarted {
+  session_id: string;
+  pairing_code: string;
+  expires_at: Date;
+}
+
+export interface PairingTarget {
+  session_id: string;
+  public_key: string;
+  device_name: string;
+  expires_at: Date;
+}
+
+export type LinkSessionState =
+  | { status: 'waiting'; expires_at: Date }
+  | { status: 'delivered'; bundle: string; sender_device_id: string | null };
+
+/**
+ * Pairing code for a raw public key: SHA-256, Crockford base32, first 12
+ * characters (60 bits). The dashboard computes the same thing to check the
+ * key it encrypts to is the one the new device is showing.
+ */
+export function pairingCode(publicKeyBase64: string): string {
+  const digest = crypto.createHash('sha256').update(Buffer.from(publicKeyBase64, 'base64')).digest();
+  let code = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of digest) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5 && code.length < PAIRING_CODE_LENGTH) {
+      code += CROCKFORD_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+    if (code.length === PAIRING_CODE_LENGTH) break;
+  }
+  return code;
+}
+
+/** As typed: dashes and case dropped, look-alikes read the Crockford way */
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/-/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+}
+
+/** Pairing requests must come from a registered device (X-Device-Id) */
+function requireDevice(deviceId?: string | null): string {
+  if (!deviceId) {
+    throw new AuthorizationError('Register this device first');
+  }
+  return deviceId;
+}
+
+export class DeviceLinkService {
+  private get deviceLinkModel(): DeviceLinkRepository {
+    return getRepositories().deviceLinks;
+  }
+
+  private get deviceModel(): DeviceRepository {
+    return getRepositories().devices;
+  }
+
+  /**
+   * New device: open a session for its ephemeral public key
+   */
+  async startLink(userId: string, deviceId: string | null | undefined, publicKey: string): Promise<LinkSessionStarted> {
+    const device = requireDevice(deviceId);
+    if (Buffer.from(publicKey, 'base64').length !== RAW_PUBLIC_KEY_LENGTH) {
+      throw new ValidationError('public_key must be a raw P-256 public key');
+    }
+
+    const session = await this.deviceLinkModel.create({
+      user_id: userId,
+      device_id: device,
+      pairing_code: pairingCode(publicKey),
+      public_key: publicKey,
+      expires_at: new Date(Date.now() + SESSION_TTL_MS),
+    });
+
+    logger.info('Device link started', { user_id: userId, device_id: device, session_id: session.session_id });
+    return { session_id: session.session_id, pairing_code: session.pairing_code, expires_at: session.expires_at };
+  }
+
+  /**
+   * Existing device: find the session a pairing code belongs to
+   */
+  async lookup(userId: string, deviceId: string | null | undefined, code: string): Promise<PairingTarget> {
+    const sender = requireDevice(deviceId);
+    const session = await this.deviceLinkModel.findWaitingByCode(userId, normalizeCode(code));
+    if (!session || session.device_id === sender) {
+      throw new NotFoundError('Pairing code');
+    }
+
+    const device = await this.deviceModel.findById(session.device_id);
+    return {
+      session_id: session.session_id,
+      public_key: session.public_key,
+      device_name: device?.name ?? 'Unknown device',
+      expires_at: session.expires_at,
+    };
+  }
+
+  /**
+   * Existing device: drop the encrypted bundle into the mailbox (once)
+   */
+  async deliver(userId: string, deviceId: string | null | undefined, sessionId: string, bundle: string): Promise<void> {
+    const sender = requireDevice(deviceId);
+    const session = await this.getOwnedSession(userId, sessionId);
+    if (session.device_id === sender) {
+      throw new ValidationError('A device cannot link itself');
+    }
+
+    const delivered = await this.deviceLinkModel.deliver(sessionId, sender, bundle);
+    if (!delivered) {
+      throw new ValidationError('Link session expired or already completed');
+    }
+
+    LoggerUtils.logSecurityEvent('device_key_bundle_sent', {
+      user_id: userId,
+      device_id: session.device_id,
+      sender_device_id: sender,
+    }, 'low');
+  }
+
+  /**
+   * New device: poll for the bundle; collecting it closes the session
+   */
+  async collect(userId: string, deviceId: string | null | undefined, sessionId: string): Promise<LinkSessionState> {
+    const device = requireDevice(deviceId);
+    const session = await this.getOwnedSession(userId, sessionId);
+    if (session.device_id !== device) {
+      throw new NotFoundError('Link session');
+    }
+
+    if (session.bundle === null) {
+      if (session.expires_at.getTime() <= Date.now()) {
+        throw new NotFoundError('Link session');
+      }
+      return { status: 'waiting', expires_at: session.expires_at };
+    }
+
+    const taken = await this.deviceLinkModel.take(sessionId);
+    if (!taken?.bundle) {
+      throw new NotFoundError('Link session');
+    }
+    return { status: 'delivered', bundle: taken.bundle, sender_device_id: taken.sender_device_id };
+  }
+
+  private async getOwnedSession(userId: string, sessionId: string): Promise<DeviceLinkSession> {
+    const session = await this.deviceLinkModel.findById(sessionId);
+    if (!session || session.user_id !== userId) {
+      throw new NotFoundError('Link session');
+    }
+    return session;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Device Service
+ * The browsers an owner signs in from. Each registers once and sends its id
+ * in X-Device-Id; every other dashboard route requires an active device of
+ * the owner, and a revoked id is refused so that browser drops its keys (see
+ * middleware/device-middleware.ts). Revoking also signs the owner out of
+ * every session, so a revoked browser can't register itself again.
+ */
+
+import { DeviceRepository, Device } from '../models/device-model';
+import { DeviceLinkRepository } from '../models/device-link-model';
+import { UserRepository } from '../models/user-model';
+import { getRepositories } from '../models/repositories';
+import { CognitoSignOut } from './cognito-sign-out';
+import {
+  ValidationError,
+  NotFoundError,
+  AuthenticationError,
+  DeviceRequiredError,
+  DeviceRevokedError,
+} from '../utils/error-utils';
+import { LoggerUtils } from '../utils/logger-utils';
+import { logger } from '../config/logger';
+
+const MAX_DEVICES_PER_USER = 20;
+const LAST_SEEN_INTERVAL_SECONDS = 300;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface DeviceSummary extends Omit<Device, 'user_id'> {
+  /** The device making this request */
+  current: boolean;
+}
+
+export class DeviceService {
+  private cognitoSignOut: CognitoSignOut;
+
+  constructor() {
+    this.cognitoSignOut = new CognitoSignOut();
+  }
+
+  private get deviceModel(): DeviceRepository {
+    return getRepositories().devices;
+  }
+
+  private get deviceLinkModel(): DeviceLinkRepository {
+    return getRepositories().deviceLinks;
+  }
+
+  private get userModel(): UserRepository {
+    return getRepositories().users;
+  }
+
+  async register(userId: string, name: string, email?: string): Promise<Device> {
+    // Ensure user exists in users table (FK constraint)
+    await this.userModel.upsert(userId, email || `${userId}@unknown.local`);
+
+    if (await this.deviceModel.countActiveByUserId(userId) >= MAX_DEVICES_PER_USER) {
+      throw new ValidationError(`Maximum ${MAX_DEVICES_PER_USER} devices reached; revoke one first`);
+    }
+
+    const device = await this.deviceModel.create(userId, name);
+    logger.info('Device registered', { user_id: userId, device_id: device.device_id });
+    return device;
+  }
+
+  async listDevices(userId: string, currentDeviceId?: string | null): Promise<DeviceSummary[]> {
+    const devices = await this.deviceModel.findByUserId(userId);
+    return devices.map(({ user_id: _userId, ...device }) => ({
+      ...device,
+      current: device.device_id === currentDeviceId,
+    }));
+  }
+
+  /**
+   * Revoke a device, close any pairing session it had open and end every
+   * session of the owner (this browser's too): the revoked one can't mint
+   * fresh tokens, and tokens issued until now are refused
+   */
+  async revoke(userId: string, deviceId: string): Promise<void> {
+    const device = await this.deviceModel.findById(deviceId);
+    if (!device || device.user_id !== userId) {
+      throw new NotFoundError('Device');
+    }
+
+    await this.deviceModel.revoke(deviceId);
+    await this.deviceLinkModel.deleteByDeviceId(deviceId);
+    // A failed sign-out fails the request; revoking again retries it
+    await this.cognitoSignOut.signOutEverywhere(userId);
+    await this.userModel.revokeSessions(userId);
+
+    LoggerUtils.logSecurityEvent('device_revoked', { user_id: userId, device_id: deviceId }, 'low');
+  }
+
+  /**
+   * Refuse an access token issued (iat, seconds) before the owner's sessions
+   * were revoked; the owner signs in again
+   */
+  async assertSessionActive(userId: string, issuedAt?: number): Promise<void> {
+    const revokedAt = await this.userModel.findSessionsRevokedAt(userId);
+    if (revokedAt && (issuedAt ?? 0) * 1000 <= revokedAt.getTime()) {
+      throw new AuthenticationError('Session revoked; sign in again');
+    }
+  }
+
+  /**
+   * Resolve the X-Device-Id header to one of the owner's active devices.
+   * Absent, malformed, unknown and other owners' ids are refused with
+   * DEVICE_REQUIRED; a revoked device of this owner with DEVICE_REVOKED.
+   */
+  async identify(userId: string, header: string | undefined, issuedAt?: number): Promise<string> {
+    const device = header && UUID_PATTERN.test(header) ? await this.deviceModel.findById(header) : null;
+    if (!device || device.user_id !== userId) {
+      throw new DeviceRequiredError();
+    }
+    if (device.revoked_at) {
+      throw new DeviceRevokedError();
+    }
+    await this.assertSessionActive(userId, issuedAt);
+
+    await this.deviceModel.touch(device.device_id, LAST_SEEN_INTERVAL_SECONDS);
+    return device.device_id;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Key Bundle Service
+ * The owner's account-wide key backup. The dashboard encrypts every link, room
+ * and broadcast key under its vault passphrase and stores the result here; the
+ * server only keeps ciphertext. Writes are conditional on the version the
+ * client merged from (ETag / If-Match), so two devices backing up at once
+ * re-read and merge instead of dropping each other's keys.
+ *
+ * Per-link backups from before the bundle (links.wrapped_key) are handed out
+ * alongside it until a client folds them in and names them in
+ * migrated_link_ids.
+ */
+
+import { KeyBundleRepository, SaveKeyBundleData } from '../models/key-bundle-model';
+import { LinkRepository } from '../models/link-model';
+import { UserRepository } from '../models/user-model';
+import { getRepositories } from '../models/repositories';
+import { PreconditionFailedError, PreconditionRequiredError } from '../utils/error-utils';
+import { LoggerUtils } from '../utils/logger-utils';
+
+export interface LegacyLinkBackup {
+  link_id: string;
+  wrapped_key: string;
+  salt: string;
+  iv: string;
+}
+
+export interface KeyBundleState {
+  /** 0 until the first bundle is stored */
+  version: number;
+  bundle: { ciphertext: string; salt: string; iv: string; updated_at: Date } | null;
+  legacy_links: LegacyLinkBackup[];
+}
+
+export interface KeyBundleSaved {
+  version: number;
+  updated_at: Date;
+}
+
+/** Strong ETag for a bundle version */
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/** Version named by If-Match; anything unparseable can't match */
+export function parseIfMatch(header: string | undefined): number {
+  if (header === undefined) {
+    throw new PreconditionRequiredError();
+  }
+  const match = /^"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    throw new PreconditionFailedError();
+  }
+  return parseInt(match[1], 10);
+}
+
+export class KeyBundleService {
+  private get keyBundleModel(): KeyBundleRepository {
+    return getRepositories().keyBundles;
+  }
+
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
+
+  private get userModel(): UserRepository {
+    return getRepositories().users;
+  }
+
+  async get(userId: string): Promise<KeyBundleState> {
+    const [bundle, legacy] = await Promise.all([
+      this.keyBundleModel.findByUserId(userId),
+      this.linkModel.findKeyBackupsByOwner(userId),
+    ]);
+
+    return {
+      version: bundle?.version ?? 0,
+      bundle: bundle
+        ? { ciphertext: bundle.ciphertext, salt: bundle.salt, iv: bundle.iv, updated_at: bundle.updated_at }
+        : null,
+      legacy_links: legacy.map((b) => ({
+        link_id: b.link_id,
+        wrapped_key: b.wrapped_key,
+        salt: b.backup_salt,
+        iv: b.backup_iv,
+      })),
+    };
+  }
+
+  async save(
+    userId: string,
+    data: SaveKeyBundleData,
+    expectedVersion: number,
+    email?: string,
+  ): Promise<KeyBundleSaved> {
+    if (expectedVersion === 0) {
+      // Ensure user exists in users table (FK constraint)
+      await this.userModel.upsert(userId, email || `${userId}@unknown.local`);
+    }
+
+    const saved = await this.keyBundleModel.save(userId, data, expectedVersion);
+    if (!saved) {
+      throw new PreconditionFailedError('Key bundle changed since it was read');
+    }
+
+    LoggerUtils.logSecurityEvent('key_bundle_saved', {
+      user_id: userId,
+      version: saved.version,
+      migrated_links: data.migrated_link_ids.length,
+    }, 'low');
+
+    return { version: saved.version, updated_at: saved.updated_at };
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Link Policy Service
+ * Owner-set limits on new threads: pause/resume, a rolling 24-hour quota,
+ * a total cap that pauses the link once reached, and daily open hours.
+ * Only new threads are limited; replies in existing threads always go through.
+ */
+
+import { LinkRepository, Link, LinkPolicy } from '../models/link-model';
+import { ThreadRepository } from '../models/thread-model';
+import { getRepositories } from '../models/repositories';
+import { ValidationError, LinkPausedError, LinkQuotaExceededError } from '../utils/error-utils';
+import { TimeUtils } from '../utils/time-utils';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLICY_KEYS: (keyof LinkPolicy)[] = [
+  'paused', 'max_threads_per_day', 'max_threads', 'open_hours_start', 'open_hours_end', 'time_zone',
+];
+
+export class LinkPolicyService {
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
+
+  private get threadModel(): ThreadRepository {
+    return getRepositories().threads;
+  }
+
+  /**
+   * The policy fields present in `input`, or null when it sets none
+   */
+  static pickChanges(input: Partial<LinkPolicy>): Partial<LinkPolicy> | null {
+    const changes: Partial<LinkPolicy> = {};
+    for (const key of POLICY_KEYS) {
+      if (input[key] !== undefined) {
+        (changes as Record<string, unknown>)[key] = input[key];
+      }
+    }
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  /**
+   * Apply owner changes on top of the link's current policy. A cap that is
+   * already reached pauses the link, and resuming is refused until the cap
+   * is raised or cleared (the next thread would pause it again).
+   */
+  async updatePolicy(link: Link, changes: Partial<LinkPolicy>): Promise<Link> {
+    const policy: LinkPolicy = { ...pickPolicy(link), ...changes };
+
+    if (!policy.paused && policy.max_threads != null &&
+        await this.threadModel.countByLinkId(link.link_id) >= policy.max_threads) {
+      if (changes.paused === false) {
+        throw new ValidationError('Raise or clear the thread limit before resuming');
+      }
+      policy.paused = true;
+    }
+
+    const updated = await this.linkModel.updatePolicy(link.link_id, policy);
+    logger.info('Link policy updated', { link_id: link.link_id, paused: policy.paused });
+    return updated;
+  }
+
+  /**
+   * Throw when the link is not taking new threads right now
+   */
+  async assertAcceptingThreads(link: Link): Promise<void> {
+    if (link.paused) {
+      throw new LinkPausedError();
+    }
+
+    if (link.open_hours_start && link.open_hours_end &&
+        !TimeUtils.isWithinDailyWindow(link.open_hours_start, link.open_hours_end, link.time_zone, new Date())) {
+      throw new LinkPausedError(`This link accepts new messages from ${link.open_hours_start} to ` +
+        `${link.open_hours_end} (${link.time_zone})`);
+    }
+
+    if (link.max_threads != null && await this.threadModel.countByLinkId(link.link_id) >= link.max_threads) {
+      await this.pause(link);
+      throw new LinkPausedError();
+    }
+
+    if (link.max_threads_per_day != null) {
+      const since = new Date(Date.now() - DAY_MS);
+      if (await this.threadModel.countByLinkIdSince(link.link_id, since) >= link.max_threads_per_day) {
+        LoggerUtils.logMetric('link_quota_rejected', 1, 'count');
+        throw new LinkQuotaExceededError();
+      }
+    }
+  }
+
+  /**
+   * The error for a send that lost the link's last thread slot to a
+   * concurrent one (the insert is refused atomically, see createWithinLimits)
+   */
+  async threadLimitError(link: Link): Promise<LinkPausedError | LinkQuotaExceededError> {
+    if (link.max_threads != null && await this.threadModel.countByLinkId(link.link_id) >= link.max_threads) {
+      await this.pause(link);
+      return new LinkPausedError();
+    }
+    LoggerUtils.logMetric('link_quota_rejected', 1, 'count');
+    return new LinkQuotaExceededError();
+  }
+
+  /**
+   * Pause the link once a new thread brings it to its total cap
+   */
+  async onThreadCreated(link: Link): Promise<void> {
+    if (link.max_threads == null) return;
+    if (await this.threadModel.countByLinkId(link.link_id) >= link.max_threads) {
+      await this.pause(link);
+    }
+  }
+
+  private async pause(link: Link): Promise<void> {
+    await this.linkModel.setPaused(link.link_id, true);
+    LoggerUtils.logMetric('link_auto_paused', 1, 'count');
+    logger.info('Link paused at thread limit', { link_id: link.link_id, max_threads: link.max_threads });
+  }
+}
+
+function pickPolicy(link: Link): LinkPolicy {
+  return {
+    paused: link.paused,
+    max_threads_per_day: link.max_threads_per_day,
+    max_threads: link.max_threads,
+    open_hours_start: link.open_hours_start,
+    open_hours_end: link.open_hours_end,
+    time_zone: link.time_zone,
+  };
+}
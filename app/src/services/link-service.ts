@@ -4,18 +4,20 @@
  * File size: ~275 lines
  */
 
-import { LinkModel, Link, CreateLinkData } from '../models/link-model';
+import { LinkRepository, Link, CreateLinkData, LinkPolicy, DEFAULT_LINK_POLICY } from '../models/link-model';
+import { getRepositories } from '../models/repositories';
 import { TokenService } from './token-service';
 import { QRCodeService } from './qr-code-service';
+import { AttachmentService } from './attachment-service';
+import { LinkPolicyService } from './link-policy-service';
 import { CryptoUtils } from '../utils/crypto-utils';
 import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 import { LoggerUtils } from '../utils/logger-utils';
-import { getDb } from '../config/database';
 
 const MAX_LINKS_PER_USER = 50;
 
-export interface CreateLinkInput {
+export interface CreateLinkInput extends Partial<LinkPolicy> {
   display_name: string;
   description?: string;
   expires_in_days?: number;
@@ -26,12 +28,18 @@ export interface CreateLinkInput {
 }
 
 export class LinkService {
-  private linkModel: LinkModel;
   private qrCodeService: QRCodeService;
+  private attachmentService: AttachmentService;
+  private linkPolicyService: LinkPolicyService;
+
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
 
   constructor() {
-    this.linkModel = new LinkModel();
     this.qrCodeService = new QRCodeService();
+    this.attachmentService = new AttachmentService();
+    this.linkPolicyService = new LinkPolicyService();
   }
 
   /**
@@ -73,6 +81,7 @@ export class LinkService {
       opsec_access: input.opsec_mode ? input.opsec_access : undefined,
       opsec_passphrase_hash: opsecPassphraseHash,
       opsec_passphrase_salt: opsecPassphraseSalt,
+      policy: { ...DEFAULT_LINK_POLICY, ...LinkPolicyService.pickChanges(input) },
     };
 
     const link = await this.linkModel.create(linkData);
@@ -134,7 +143,7 @@ export class LinkService {
   }
 
   /**
-   * Update link
+   * Update link (details and/or access policy)
    */
   async updateLink(
     linkId: string,
@@ -151,6 +160,13 @@ export class LinkService {
       throw new AuthorizationError('Not authorized to update this link');
     }
 
+    const policyChanges = LinkPolicyService.pickChanges(updates);
+    const updated = policyChanges ? await this.linkPolicyService.updatePolicy(link, policyChanges) : link;
+    if (updates.display_name === undefined && updates.description === undefined &&
+        updates.expires_in_days === undefined) {
+      return updated;
+    }
+
     // Prepare update data
     const updateData: Partial<Link> = {
       display_name: updates.display_name,
@@ -183,6 +199,7 @@ export class LinkService {
 
     // Delete QR code
     await this.qrCodeService.delete(linkId);
+    await this.attachmentService.purge('link_id', linkId);
 
     LoggerUtils.logMetric('link_deleted', 1, 'count');
   }
@@ -254,12 +271,8 @@ export class LinkService {
    * Burn link and all its threads/messages — atomic transaction
    */
   async burnLink(linkId: string, userId: string): Promise<void> {
-    // Verify ownership (use raw query to include burned links)
-    const linkResult = await getDb().query(
-      'SELECT * FROM links WHERE link_id = $1',
-      [linkId]
-    );
-    const link = linkResult.rows[0];
+    // Verify ownership (include burned links)
+    const link = await this.linkModel.findByIdIncludingBurned(linkId);
 
     if (!link) {
       throw new NotFoundError('Link');
@@ -275,28 +288,10 @@ export class LinkService {
     }
 
     // Atomic: delete all messages → burn all threads → mark link burned
-    const client = await getDb().connect();
-    try {
-      await client.query('BEGIN');
-      await client.query(
-        'DELETE FROM messages WHERE thread_id IN (SELECT thread_id FROM threads WHERE link_id = $1)',
-        [linkId]
-      );
-      await client.query(
-        'UPDATE threads SET burned = TRUE WHERE link_id = $1',
-        [linkId]
-      );
-      await client.query(
-        'UPDATE links SET burned = TRUE WHERE link_id = $1',
-        [linkId]
-      );
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+    await this.linkModel.burn(linkId);
+
+    // Covers every thread on the link; leftovers are retried by the reaper
+    await this.attachmentService.purge('link_id', linkId);
 
     LoggerUtils.logMetric('link_burned', 1, 'count');
     LoggerUtils.logSecurityEvent('link_burned', {
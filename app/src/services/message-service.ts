@@ -1,12 +1,13 @@
 /**
  * Message Service
  * Business logic for message handling
- * File size: ~240 lines
+ * File size: ~280 lines
  */
 
-import { MessageModel, Message, CreateMessageData } from '../models/message-model';
-import { ThreadModel } from '../models/thread-model';
-import { LinkModel } from '../models/link-model';
+import { MessageRepository, Message, CreateMessageData } from '../models/message-model';
+import { ThreadRepository } from '../models/thread-model';
+import { LinkRepository } from '../models/link-model';
+import { getRepositories } from '../models/repositories';
 import { CryptoUtils } from '../utils/crypto-utils';
 import { TokenService } from './token-service';
 import { ThreadService } from './thread-service';
@@ -14,27 +15,55 @@ import { ValidationError, NotFoundError, AuthorizationError } from '../utils/err
 import { logger } from '../config/logger';
 import { LoggerUtils } from '../utils/logger-utils';
 import { AppSyncPublisher } from './appsync-publisher';
+import { AttachmentService } from './attachment-service';
+import { WebhookService } from './webhook-service';
+import { AutoReplyService } from './auto-reply-service';
+import { LinkPolicyService } from './link-policy-service';
+import { SendChallengeService, ChallengeSolution } from './send-challenge-service';
+import { PassphraseGuardService } from './passphrase-guard-service';
 
 export interface SendMessageInput {
   recipient_link_id: string;
   ciphertext: string;
   sender_public_key: string;
   passphrase?: string;
+  attachment_ids?: string[];
+  pow?: ChallengeSolution;
+  /** Sender's IP; keys the passphrase lockout, never stored */
+  client_ip?: string;
 }
 
 export class MessageService {
-  private messageModel: MessageModel;
-  private threadModel: ThreadModel;
-  private linkModel: LinkModel;
   private threadService: ThreadService;
   private publisher: AppSyncPublisher;
+  private attachmentService: AttachmentService;
+  private webhookService: WebhookService;
+  private autoReplyService: AutoReplyService;
+  private linkPolicyService: LinkPolicyService;
+  private sendChallengeService: SendChallengeService;
+  private passphraseGuard: PassphraseGuardService;
+
+  private get messageModel(): MessageRepository {
+    return getRepositories().messages;
+  }
+
+  private get threadModel(): ThreadRepository {
+    return getRepositories().threads;
+  }
+
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
 
   constructor() {
-    this.messageModel = new MessageModel();
-    this.threadModel = new ThreadModel();
-    this.linkModel = new LinkModel();
     this.threadService = new ThreadService();
     this.publisher = new AppSyncPublisher();
+    this.attachmentService = new AttachmentService();
+    this.webhookService = new WebhookService();
+    this.autoReplyService = new AutoReplyService();
+    this.linkPolicyService = new LinkPolicyService();
+    this.sendChallengeService = new SendChallengeService();
+    this.passphraseGuard = new PassphraseGuardService();
   }
 
   /**
@@ -49,6 +78,9 @@ export class MessageService {
   }> {
     const { recipient_link_id, ciphertext, sender_public_key } = input;
 
+    // Proof of work first: it is the cheapest check and guards everything after it
+    await this.sendChallengeService.verify(recipient_link_id, input.pow);
+
     const link = await this.linkModel.findById(recipient_link_id);
     if (!link) {
       throw new NotFoundError('Link');
@@ -65,25 +97,36 @@ export class MessageService {
       throw new ValidationError('Link is no longer active');
     }
 
-    // OPSEC: verify passphrase before allowing send
+    // Owner limits on new threads (before the costly passphrase check)
+    await this.linkPolicyService.assertAcceptingThreads(link);
+
+    // OPSEC: verify passphrase before allowing send (counted, with lockout)
     if (link.opsec_passphrase_hash) {
       if (!input.passphrase) {
         throw new ValidationError('This link requires a passphrase');
       }
-      const isValid = await CryptoUtils.pbkdf2Verify(
-        input.passphrase, link.opsec_passphrase_hash, link.opsec_passphrase_salt!
+      await this.passphraseGuard.verify(
+        { scope: 'link', link, client: input.client_ip || 'unknown' },
+        input.passphrase
       );
-      if (!isValid) {
-        throw new AuthorizationError('Incorrect passphrase');
-      }
     }
 
-    // Create new thread (OPSEC settings applied inside createThread)
-    const { thread, accessToken } = await this.threadService.createThread(recipient_link_id, sender_public_key);
+    await this.attachmentService.assertClaimable(input.attachment_ids, recipient_link_id);
+
+    // Create new thread (OPSEC settings applied inside createThread); another
+    // send may have taken the link's last slot since the check above
+    const created = await this.threadService.createThread(recipient_link_id, sender_public_key);
+    if (!created) {
+      throw await this.linkPolicyService.threadLimitError(link);
+    }
+    const { thread, accessToken } = created;
 
     if (thread.burned) {
       throw new ValidationError('Thread has been burned by the recipient');
     }
+    await this.linkPolicyService.onThreadCreated(link);
+
+    await this.attachmentService.claimForThread(input.attachment_ids, recipient_link_id, thread.thread_id);
 
     const messageData: CreateMessageData = {
       thread_id: thread.thread_id,
@@ -102,8 +145,12 @@ export class MessageService {
       message_id: newMessage.message_id,
     });
 
-    // Fire-and-forget: notify subscribers via AppSync Events
+    // Flag before the event goes out so the owner client sees it
+    await this.autoReplyService.onSenderMessage(recipient_link_id, thread.thread_id, true);
+
+    // Fire-and-forget: notify subscribers via AppSync Events and webhooks
     this.publisher.publishNewMessage(thread.thread_id, recipient_link_id, 'anonymous').catch(() => {});
+    void this.webhookService.notify('thread.created', recipient_link_id, thread.thread_id, 'anonymous');
 
     return {
       thread_id: thread.thread_id,
@@ -127,6 +174,7 @@ export class MessageService {
     threadId: string,
     content: string,
     accessToken?: string,
+    attachmentIds?: string[],
   ): Promise<Message> {
     const thread = await this.threadModel.findById(threadId);
     if (!thread) {
@@ -154,6 +202,8 @@ export class MessageService {
       throw new NotFoundError('Thread');
     }
 
+    await this.attachmentService.claimForThread(attachmentIds, link.link_id, threadId);
+
     const messageData: CreateMessageData = {
       thread_id: threadId,
       content,
@@ -165,8 +215,11 @@ export class MessageService {
     LoggerUtils.logMetric('message_sent', 1, 'count');
     LoggerUtils.logMetric('anonymous_reply_sent', 1, 'count');
 
-    // Fire-and-forget: notify subscribers via AppSync Events
+    await this.autoReplyService.onSenderMessage(link.link_id, threadId, false);
+
+    // Fire-and-forget: notify subscribers via AppSync Events and webhooks
     this.publisher.publishNewMessage(threadId, link.link_id, 'anonymous').catch(() => {});
+    void this.webhookService.notify('thread.reply', link.link_id, threadId, 'anonymous');
 
     return message;
   }
@@ -177,7 +230,8 @@ export class MessageService {
   async sendOwnerReply(
     threadId: string,
     userId: string,
-    messageContent: string
+    messageContent: string,
+    attachmentIds?: string[]
   ): Promise<Message> {
     // Get thread and verify ownership
     const thread = await this.threadModel.findById(threadId);
@@ -195,6 +249,8 @@ export class MessageService {
       throw new ValidationError('Cannot reply to burned thread');
     }
 
+    await this.attachmentService.claimForThread(attachmentIds, link.link_id, threadId);
+
     // Create message
     const messageData: CreateMessageData = {
       thread_id: threadId,
@@ -204,16 +260,39 @@ export class MessageService {
     };
 
     const message = await this.messageModel.create(messageData);
+    // The owner has answered; a pending auto-reply is no longer wanted
+    await this.threadModel.setAutoReplyPending(threadId, false);
 
     LoggerUtils.logMetric('message_sent', 1, 'count');
     LoggerUtils.logMetric('owner_reply_sent', 1, 'count');
 
-    // Fire-and-forget: notify subscribers via AppSync Events
+    // Fire-and-forget: notify subscribers via AppSync Events and webhooks
     this.publisher.publishNewMessage(threadId, link.link_id, 'owner').catch(() => {});
+    void this.webhookService.notify('thread.reply', link.link_id, threadId, 'owner');
 
     return message;
   }
 
+  /**
+   * Send the link's auto-reply (already encrypted to the sender by the owner
+   * client) into a flagged thread. Returns null when the flag was already
+   * taken; the flag is restored if the send fails.
+   */
+  async sendAutoReply(threadId: string, userId: string, ciphertext: string): Promise<Message | null> {
+    if (!(await this.autoReplyService.claim(threadId, userId))) {
+      return null;
+    }
+
+    try {
+      const message = await this.sendOwnerReply(threadId, userId, ciphertext);
+      LoggerUtils.logMetric('auto_reply_sent', 1, 'count');
+      return message;
+    } catch (error) {
+      await this.threadModel.setAutoReplyPending(threadId, true);
+      throw error;
+    }
+  }
+
   /**
    * Get messages in thread
    */
@@ -0,0 +1,216 @@
+/**
+ * Object Store
+ * Blob storage behind one interface: S3 in deployed environments, a local
+ * filesystem adapter for development and tests (STORAGE_DRIVER=fs).
+ * Presigned URLs let browsers PUT/GET objects without the API proxying bytes;
+ * the filesystem adapter signs its own URLs, served by object-routes.ts.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { CryptoUtils, getAppSecret } from '../utils/crypto-utils';
+
+export interface PutOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+export interface ObjectStore {
+  put(key: string, body: Buffer, options: PutOptions): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  deleteMany(keys: string[]): Promise<void>;
+  /** URL the browser PUTs exactly contentLength bytes to */
+  presignPut(key: string, contentLength: number, expiresInSeconds: number): Promise<string>;
+  presignGet(key: string, expiresInSeconds: number): Promise<string>;
+  /** Permanent URL for publicly readable objects (QR codes) */
+  publicUrl(key: string): string;
+}
+
+// S3 DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH = 1000;
+
+export class S3ObjectStore implements ObjectStore {
+  private s3: S3Client;
+
+  constructor(private bucketName: string) {
+    this.s3 = new S3Client({ region: process.env.AWS_REGION || 'us-east-1' });
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions): Promise<void> {
+    await this.s3.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        CacheControl: options.cacheControl,
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const result = await this.s3.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+    return Buffer.from(await result.Body!.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+      await this.s3.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucketName,
+          Delete: { Objects: keys.slice(i, i + DELETE_BATCH).map((Key) => ({ Key })), Quiet: true },
+        })
+      );
+    }
+  }
+
+  presignPut(key: string, contentLength: number, expiresInSeconds: number): Promise<string> {
+    // ContentLength is part of the signature, so S3 rejects any other size
+    return getSignedUrl(
+      this.s3,
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentLength: contentLength,
+        ContentType: 'application/octet-stream',
+      }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  presignGet(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.s3,
+      new GetObjectCommand({ Bucket: this.bucketName, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  publicUrl(key: string): string {
+    return `https://${this.bucketName}.s3.${process.env.AWS_REGION}.amazonaws.com/${key}`;
+  }
+}
+
+export type SignedMethod = 'GET' | 'PUT';
+
+/**
+ * Filesystem stand-in for S3. Objects live under <root>/<bucket>/<key>;
+ * presigned URLs are HMAC-signed (APP_SECRET) links to /api/v1/objects.
+ */
+export class FsObjectStore implements ObjectStore {
+  private root: string;
+
+  constructor(private bucketName: string, root: string = process.env.STORAGE_FS_ROOT || '.storage') {
+    this.root = path.resolve(root, bucketName);
+  }
+
+  /** Resolve a key inside the bucket directory, refusing traversal */
+  private pathFor(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error('Invalid object key');
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Buffer, _options?: PutOptions): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  get(key: string): Promise<Buffer> {
+    return fs.readFile(this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.delete(key);
+    }
+  }
+
+  presignPut(key: string, contentLength: number, expiresInSeconds: number): Promise<string> {
+    return Promise.resolve(this.sign('PUT', key, expiresInSeconds, contentLength));
+  }
+
+  presignGet(key: string, expiresInSeconds: number): Promise<string> {
+    return Promise.resolve(this.sign('GET', key, expiresInSeconds));
+  }
+
+  publicUrl(key: string): string {
+    return `${this.baseUrl}/api/v1/objects/${this.bucketName}/${key}`;
+  }
+
+  /** Check a signed request; returns the signed content length for PUTs */
+  verify(
+    method: SignedMethod,
+    key: string,
+    query: { expires?: string; length?: string; signature?: string }
+  ): { valid: boolean; contentLength?: number } {
+    const expires = parseInt(query.expires || '', 10);
+    if (!expires || !query.signature || expires < Math.floor(Date.now() / 1000)) {
+      return { valid: false };
+    }
+    const length = method === 'PUT' ? parseInt(query.length || '', 10) : undefined;
+    const payload = this.payload(method, key, expires, length);
+    return {
+      valid: CryptoUtils.verifyHMAC(payload, query.signature, getAppSecret()),
+      contentLength: length,
+    };
+  }
+
+  private sign(method: SignedMethod, key: string, expiresInSeconds: number, length?: number): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = CryptoUtils.generateHMAC(this.payload(method, key, expires, length), getAppSecret());
+    const params = new URLSearchParams({ expires: String(expires), signature });
+    if (length !== undefined) params.set('length', String(length));
+    return `${this.publicUrl(key)}?${params.toString()}`;
+  }
+
+  private payload(method: SignedMethod, key: string, expires: number, length?: number): string {
+    return [method, this.bucketName, key, expires, length ?? ''].join('\n');
+  }
+
+  /** Read lazily — dotenv loads after module imports. */
+  private get baseUrl(): string {
+    return process.env.STORAGE_FS_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+  }
+}
+
+const stores = new Map<string, ObjectStore>();
+
+/**
+ * Store for a bucket, picked by STORAGE_DRIVER ('s3' default, 'fs' for local use)
+ */
+export function getObjectStore(bucketName: string): ObjectStore {
+  let store = stores.get(bucketName);
+  if (!store) {
+    store = process.env.STORAGE_DRIVER === 'fs'
+      ? new FsObjectStore(bucketName)
+      : new S3ObjectStore(bucketName);
+    stores.set(bucketName, store);
+  }
+  return store;
+}
+
+/** True when objects are served by this API (filesystem driver) */
+export function isFsStorage(): boolean {
+  return process.env.STORAGE_DRIVER === 'fs';
+}
@@ -0,0 +1,134 @@
+/**
+ * Passphrase Guard Service
+ * Checks OPSEC passphrases for the first send to a link and for thread
+ * unlock against the passphrase_attempts ledger. The first FREE_ATTEMPTS
+ * wrong guesses only count; every one after that locks the thread or link
+ * out, starting at 30 seconds and doubling per failure up to an hour. A
+ * thread burns itself after THREAD_BURN_FAILURES, in the spirit of
+ * single_use access; a link is only ever locked, so strangers can't destroy
+ * it. The owner is alerted over AppSync when a lockout starts and when a
+ * thread burns. Counts restart after a day without failures. Each guess is
+ * reserved as a failure (and its lockout started) before the slow hash check
+ * and cleared if it was right, so parallel guesses can't outrun the lockout.
+ * Link lockouts are kept per client (HMAC of link and IP, like the shared
+ * rate-limit store), so a stranger's wrong guesses never lock other senders
+ * out of the link.
+ */
+
+import { LockoutPolicy, PassphraseAttemptRepository, lockoutFor } from '../models/passphrase-attempt-model';
+import { Thread } from '../models/thread-model';
+import { Link } from '../models/link-model';
+import { getRepositories } from '../models/repositories';
+import { CryptoUtils, getAppSecret } from '../utils/crypto-utils';
+import { InvalidPassphraseError, LockedOutError } from '../utils/error-utils';
+import { LoggerUtils } from '../utils/logger-utils';
+import { AppSyncPublisher } from './appsync-publisher';
+import { ThreadService } from './thread-service';
+
+const FREE_ATTEMPTS = 3;
+const THREAD_BURN_FAILURES = 10;
+
+const LOCKOUT_POLICY: LockoutPolicy = {
+  windowMs: 24 * 60 * 60 * 1000,
+  freeAttempts: FREE_ATTEMPTS,
+  baseLockoutMs: 30 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+};
+
+export type PassphraseSubject =
+  | { scope: 'thread'; thread: Thread }
+  | { scope: 'link'; link: Link; client: string };
+
+interface SubjectInfo {
+  id: string;
+  linkId: string;
+  hash: string;
+  salt: string;
+}
+
+function describe(subject: PassphraseSubject): SubjectInfo {
+  if (subject.scope === 'thread') {
+    const { thread } = subject;
+    return { id: thread.thread_id, linkId: thread.link_id, hash: thread.passphrase_hash!, salt: thread.passphrase_salt! };
+  }
+  const { link } = subject;
+  return {
+    id: linkAttemptKey(link.link_id, subject.client),
+    linkId: link.link_id,
+    hash: link.opsec_passphrase_hash!,
+    salt: link.opsec_passphrase_salt!,
+  };
+}
+
+/**
+ * Ledger subject for one client's first sends to a link; never stores the IP
+ */
+export function linkAttemptKey(linkId: string, client: string): string {
+  return CryptoUtils.generateHMAC(`passphrase:${linkId}:${client}`, getAppSecret());
+}
+
+/**
+ * Lockout after the `failures`-th wrong guess (0 while still free)
+ */
+export function lockoutMs(failures: number): number {
+  return lockoutFor(failures, LOCKOUT_POLICY);
+}
+
+export class PassphraseGuardService {
+  private threadService: ThreadService;
+  private publisher: AppSyncPublisher;
+
+  private get attemptModel(): PassphraseAttemptRepository {
+    return getRepositories().passphraseAttempts;
+  }
+
+  constructor() {
+    this.threadService = new ThreadService();
+    this.publisher = new AppSyncPublisher();
+  }
+
+  /**
+   * Resolve when `passphrase` opens the subject. Otherwise throws
+   * LockedOutError (during a lockout, without checking the guess, or when
+   * this guess starts one) or InvalidPassphraseError.
+   */
+  async verify(subject: PassphraseSubject, passphrase: string): Promise<void> {
+    const { scope } = subject;
+    const { id, linkId, hash, salt } = describe(subject);
+
+    const reservation = await this.attemptModel.reserve(scope, id, LOCKOUT_POLICY);
+    if (reservation.locked) {
+      const lockedMs = reservation.locked_until ? new Date(reservation.locked_until).getTime() - Date.now() : 0;
+      throw new LockedOutError(Math.max(Math.ceil(lockedMs / 1000), 1));
+    }
+
+    if (await CryptoUtils.pbkdf2Verify(passphrase, hash, salt)) {
+      await this.attemptModel.clear(scope, id);
+      return;
+    }
+
+    const { failures } = reservation;
+    LoggerUtils.logMetric('passphrase_failed', 1, 'count');
+
+    if (subject.scope === 'thread' && failures >= THREAD_BURN_FAILURES) {
+      await this.threadService.selfBurn(subject.thread, 'passphrase_attempts');
+      await this.attemptModel.clear(scope, id);
+      this.publisher.publishPassphraseAlert(linkId, 'thread_burned', id).catch(() => {});
+      throw new InvalidPassphraseError(0);
+    }
+
+    const lockMs = lockoutMs(failures);
+    const remaining = scope === 'thread' ? THREAD_BURN_FAILURES - failures : undefined;
+    if (lockMs === 0) {
+      throw new InvalidPassphraseError(remaining);
+    }
+
+    LoggerUtils.logMetric('passphrase_locked_out', 1, 'count');
+    LoggerUtils.logSecurityEvent('passphrase_locked_out', { scope, link_id: linkId, failures });
+    if (failures === FREE_ATTEMPTS + 1) {
+      const threadId = scope === 'thread' ? id : undefined;
+      this.publisher.publishPassphraseAlert(linkId, 'passphrase_locked_out', threadId).catch(() => {});
+    }
+    throw new LockedOutError(lockMs / 1000);
+  }
+}
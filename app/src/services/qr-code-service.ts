@@ -5,16 +5,14 @@
  */
 
 import QRCode from 'qrcode';
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { logger } from '../config/logger';
+import { ObjectStore, getObjectStore } from './object-store';
 
 export class QRCodeService {
-  private s3: S3Client;
-  private bucketName: string;
+  private store: ObjectStore;
 
   constructor() {
-    this.s3 = new S3Client({ region: process.env.AWS_REGION || 'us-east-1' });
-    this.bucketName = process.env.QR_CODE_BUCKET || 'burnware-qr-codes';
+    this.store = getObjectStore(process.env.QR_CODE_BUCKET || 'burnware-qr-codes');
   }
 
   /**
@@ -32,18 +30,13 @@ export class QRCodeService {
 
       // Upload to S3
       const key = `qr-codes/${linkId}.png`;
-      await this.s3.send(
-        new PutObjectCommand({
-          Bucket: this.bucketName,
-          Key: key,
-          Body: qrBuffer,
-          ContentType: 'image/png',
-          CacheControl: 'public, max-age=31536000', // 1 year
-        })
-      );
+      await this.store.put(key, qrBuffer, {
+        contentType: 'image/png',
+        cacheControl: 'public, max-age=31536000', // 1 year
+      });
 
       // Return S3 URL
-      const s3Url = `https://${this.bucketName}.s3.${process.env.AWS_REGION}.amazonaws.com/${key}`;
+      const s3Url = this.store.publicUrl(key);
 
       logger.info('QR code generated', { link_id: linkId, s3_url: s3Url });
 
@@ -75,13 +68,7 @@ export class QRCodeService {
    */
   async delete(linkId: string): Promise<void> {
     try {
-      const key = `qr-codes/${linkId}.png`;
-      await this.s3.send(
-        new DeleteObjectCommand({
-          Bucket: this.bucketName,
-          Key: key,
-        })
-      );
+      await this.store.delete(`qr-codes/${linkId}.png`);
 
       logger.info('QR code deleted', { link_id: linkId });
     } catch (error) {
@@ -0,0 +1,357 @@
+/**
+ * Reaper Service
+ * Scheduled sweep of expired links, threads, rooms and broadcast channels,
+ * old webhook delivery logs, expired device pairing sessions, rate-limit
+ * windows, stale passphrase attempt counts and expired spent challenges, plus
+ * attachment objects left behind by anything burned or deleted.
+ * Runs in-process on every PM2 worker; a transaction-scoped Postgres advisory
+ * lock elects one leader per tick so only a single worker sweeps at a time.
+ */
+
+import { PoolClient } from 'pg';
+import { getDb } from '../config/database';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+import { AttachmentModel, ORPHANED_ATTACHMENT } from '../models/attachment-model';
+import { getAttachmentStore } from './attachment-service';
+
+const JOB_NAME = 'expiry_reaper';
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+export type ReaperCounts = Record<string, number>;
+
+export interface ReaperSweepResult {
+  dry_run: boolean;
+  swept_at: Date;
+  counts: ReaperCounts;
+}
+
+export interface ReaperLastSweep {
+  last_sweep_at: Date;
+  dry_run: boolean;
+  counts: ReaperCounts;
+}
+
+interface Sweep {
+  /** Metric name emitted via LoggerUtils.logMetric */
+  metric: string;
+  /** Counts rows the sweep would touch (used for dry runs) */
+  countSql: string;
+  /** Performs the sweep inside the leader's transaction; resolves to rows affected */
+  run: (client: PoolClient) => Promise<number>;
+  /** Run under a savepoint: a failure is logged and counted as 0 instead of rolling back the tick */
+  isolated?: boolean;
+}
+
+const EXPIRED_THREAD = `burned = FALSE AND expires_at IS NOT NULL AND expires_at < CURRENT_TIMESTAMP`;
+const EXPIRED_LINK_WITH_THREADS = `
+  burned = FALSE AND expires_at IS NOT NULL AND expires_at < CURRENT_TIMESTAMP
+  AND EXISTS (SELECT 1 FROM threads t WHERE t.link_id = links.link_id AND t.burned = FALSE)`;
+const EXPIRED_ROOM = `burned = FALSE AND expires_at < CURRENT_TIMESTAMP`;
+const EXPIRED_CHANNEL = `burned = FALSE AND expires_at IS NOT NULL AND expires_at < CURRENT_TIMESTAMP`;
+const STALE_WEBHOOK_DELIVERY = `status <> 'pending' AND created_at < CURRENT_TIMESTAMP - INTERVAL '30 days'`;
+const EXPIRED_DEVICE_LINK = `expires_at < CURRENT_TIMESTAMP`;
+const EXPIRED_RATE_LIMIT = `reset_at < CURRENT_TIMESTAMP`;
+/** Past the 24h count window, and so past any lockout (an hour at most) */
+const STALE_PASSPHRASE_ATTEMPT = `last_failed_at < CURRENT_TIMESTAMP - INTERVAL '1 day'`;
+const EXPIRED_SPENT_CHALLENGE = `expires_at < CURRENT_TIMESTAMP`;
+
+const attachmentModel = new AttachmentModel();
+
+/**
+ * Sweeps run in order: ciphertext is purged before the rows that own it are
+ * deleted, so nothing relies on ON DELETE CASCADE to clear message content.
+ */
+const SWEEPS: Sweep[] = [
+  {
+    // OPSEC threads past their 24h TTL — same effect as burnThread
+    metric: 'reaper_threads_expired',
+    countSql: `SELECT COUNT(*) AS count FROM threads WHERE ${EXPIRED_THREAD}`,
+    run: async (client) => {
+      const expired = await client.query(
+        `SELECT thread_id FROM threads WHERE ${EXPIRED_THREAD} FOR UPDATE`
+      );
+      const threadIds = expired.rows.map((r) => r.thread_id as string);
+      if (threadIds.length === 0) return 0;
+
+      await client.query('DELETE FROM messages WHERE thread_id = ANY($1)', [threadIds]);
+      await client.query(
+        `UPDATE links l SET message_count = GREATEST(l.message_count - e.total, 0)
+         FROM (
+           SELECT link_id, SUM(message_count) AS total FROM threads
+           WHERE thread_id = ANY($1) GROUP BY link_id
+         ) e
+         WHERE l.link_id = e.link_id`,
+        [threadIds]
+      );
+      await client.query(
+        'UPDATE threads SET burned = TRUE, message_count = 0 WHERE thread_id = ANY($1)',
+        [threadIds]
+      );
+      return threadIds.length;
+    },
+  },
+  {
+    // Expired links are unreachable immediately; purge their ciphertext now and
+    // leave the row for cleanup_expired_links() once the 30-day grace passes
+    metric: 'reaper_links_purged',
+    countSql: `SELECT COUNT(*) AS count FROM links WHERE ${EXPIRED_LINK_WITH_THREADS}`,
+    run: async (client) => {
+      const expired = await client.query(
+        `SELECT link_id FROM links WHERE ${EXPIRED_LINK_WITH_THREADS} FOR UPDATE`
+      );
+      const linkIds = expired.rows.map((r) => r.link_id as string);
+      if (linkIds.length === 0) return 0;
+
+      await client.query(
+        'DELETE FROM messages WHERE thread_id IN (SELECT thread_id FROM threads WHERE link_id = ANY($1))',
+        [linkIds]
+      );
+      await client.query(
+        'UPDATE threads SET burned = TRUE, message_count = 0 WHERE link_id = ANY($1)',
+        [linkIds]
+      );
+      await client.query('UPDATE links SET message_count = 0 WHERE link_id = ANY($1)', [linkIds]);
+      return linkIds.length;
+    },
+  },
+  {
+    metric: 'reaper_links_deleted',
+    countSql: `SELECT COUNT(*) AS count FROM links
+      WHERE expires_at < CURRENT_TIMESTAMP - INTERVAL '30 days' AND burned = FALSE`,
+    run: async (client) => {
+      const result = await client.query('SELECT cleanup_expired_links() AS count');
+      return parseInt(result.rows[0].count, 10);
+    },
+  },
+  {
+    metric: 'reaper_rooms_locked',
+    countSql: `SELECT COUNT(*) AS count FROM rooms
+      WHERE locked_at IS NULL AND burned = FALSE
+        AND join_window_opened_at + (join_window_minutes || ' minutes')::INTERVAL < CURRENT_TIMESTAMP`,
+    run: async (client) => {
+      const result = await client.query('SELECT auto_lock_rooms() AS count');
+      return parseInt(result.rows[0].count, 10);
+    },
+  },
+  {
+    metric: 'reaper_rooms_deleted',
+    countSql: `SELECT COUNT(*) AS count FROM rooms WHERE ${EXPIRED_ROOM}`,
+    run: async (client) => {
+      await client.query(
+        `DELETE FROM room_messages WHERE room_id IN (SELECT room_id FROM rooms WHERE ${EXPIRED_ROOM})`
+      );
+      const result = await client.query('SELECT cleanup_expired_rooms() AS count');
+      return parseInt(result.rows[0].count, 10);
+    },
+  },
+  {
+    // Same end state as BroadcastService.burnChannel, plus the posts are deleted
+    metric: 'reaper_broadcast_channels_expired',
+    countSql: `SELECT COUNT(*) AS count FROM broadcast_channels WHERE ${EXPIRED_CHANNEL}`,
+    run: async (client) => {
+      const expired = await client.query(
+        `SELECT channel_id FROM broadcast_channels WHERE ${EXPIRED_CHANNEL} FOR UPDATE`
+      );
+      const channelIds = expired.rows.map((r) => r.channel_id as string);
+      if (channelIds.length === 0) return 0;
+
+      await client.query('DELETE FROM broadcast_posts WHERE channel_id = ANY($1)', [channelIds]);
+      await client.query('DELETE FROM broadcast_trusted_guests WHERE channel_id = ANY($1)', [channelIds]);
+      await client.query('DELETE FROM broadcast_tokens WHERE channel_id = ANY($1)', [channelIds]);
+      await client.query(
+        'UPDATE broadcast_channels SET burned = TRUE WHERE channel_id = ANY($1)',
+        [channelIds]
+      );
+      return channelIds.length;
+    },
+  },
+  {
+    // Webhook delivery log keeps 30 days of finished deliveries
+    metric: 'reaper_webhook_deliveries_deleted',
+    countSql: `SELECT COUNT(*) AS count FROM webhook_deliveries WHERE ${STALE_WEBHOOK_DELIVERY}`,
+    run: async (client) => {
+      const result = await client.query(`DELETE FROM webhook_deliveries WHERE ${STALE_WEBHOOK_DELIVERY}`);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    // Pairing mailboxes nobody collected, encrypted bundles included
+    metric: 'reaper_device_links_deleted',
+    countSql: `SELECT COUNT(*) AS count FROM device_link_sessions WHERE ${EXPIRED_DEVICE_LINK}`,
+    run: async (client) => {
+      const result = await client.query(`DELETE FROM device_link_sessions WHERE ${EXPIRED_DEVICE_LINK}`);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    // Finished rate-limit windows; a key's next hit starts a fresh row anyway
+    metric: 'reaper_rate_limits_deleted',
+    countSql: `SELECT COUNT(*) AS count FROM rate_limit_hits WHERE ${EXPIRED_RATE_LIMIT}`,
+    run: async (client) => {
+      const result = await client.query(`DELETE FROM rate_limit_hits WHERE ${EXPIRED_RATE_LIMIT}`);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    metric: 'reaper_passphrase_attempts_deleted',
+    countSql: `SELECT COUNT(*) AS count FROM passphrase_attempts WHERE ${STALE_PASSPHRASE_ATTEMPT}`,
+    run: async (client) => {
+      const result = await client.query(`DELETE FROM passphrase_attempts WHERE ${STALE_PASSPHRASE_ATTEMPT}`);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    // An expired challenge fails verification anyway, so its id is no longer needed
+    metric: 'reaper_spent_challenges_deleted',
+    countSql: `SELECT COUNT(*) AS count FROM spent_challenges WHERE ${EXPIRED_SPENT_CHALLENGE}`,
+    run: async (client) => {
+      const result = await client.query(`DELETE FROM spent_challenges WHERE ${EXPIRED_SPENT_CHALLENGE}`);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    // Last, so attachments of anything burned or deleted above go in the same tick.
+    // Objects are deleted before their rows; a failed delete (object store down)
+    // keeps the rows for the next tick without holding back the sweeps above.
+    metric: 'reaper_attachments_purged',
+    isolated: true,
+    countSql: `SELECT COUNT(*) AS count FROM attachments a WHERE ${ORPHANED_ATTACHMENT}`,
+    run: async (client) => {
+      const keys = await attachmentModel.findOrphanedKeys(client);
+      if (keys.length === 0) return 0;
+
+      await getAttachmentStore().deleteMany(keys);
+      return attachmentModel.deleteByObjectKeys(keys, client);
+    },
+  },
+];
+
+export class ReaperService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /** Read lazily — dotenv loads after module imports. */
+  private get dryRun(): boolean {
+    return process.env.REAPER_DRY_RUN === 'true';
+  }
+
+  private get intervalMs(): number {
+    const minutes = parseInt(process.env.REAPER_INTERVAL_MINUTES || '', 10);
+    return (minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES) * 60 * 1000;
+  }
+
+  /**
+   * Start the periodic sweep (no-op when REAPER_ENABLED=false or already started)
+   */
+  start(): void {
+    if (this.timer || process.env.REAPER_ENABLED === 'false') return;
+
+    this.timer = setInterval(() => {
+      void this.sweep();
+    }, this.intervalMs);
+    // Don't keep the process alive for the reaper alone (graceful shutdown)
+    this.timer.unref();
+
+    logger.info('Reaper scheduled', { interval_ms: this.intervalMs, dry_run: this.dryRun });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one sweep if this worker wins the advisory lock.
+   * Returns null when another worker holds the lock or a sweep is already running here.
+   */
+  async sweep(dryRun: boolean = this.dryRun): Promise<ReaperSweepResult | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    let client: PoolClient | null = null;
+    try {
+      client = await getDb().connect();
+      await client.query('BEGIN');
+
+      const lock = await client.query(
+        'SELECT pg_try_advisory_xact_lock(hashtext($1)) AS acquired',
+        [JOB_NAME]
+      );
+      if (!lock.rows[0]?.acquired) {
+        await client.query('ROLLBACK');
+        logger.debug('Reaper lock held by another worker, skipping sweep');
+        return null;
+      }
+
+      const counts: ReaperCounts = {};
+      for (const sweep of SWEEPS) {
+        if (dryRun) {
+          const result = await client.query(sweep.countSql);
+          counts[sweep.metric] = parseInt(result.rows[0].count, 10);
+        } else if (sweep.isolated) {
+          counts[sweep.metric] = await this.runIsolated(client, sweep);
+        } else {
+          counts[sweep.metric] = await sweep.run(client);
+        }
+      }
+
+      const result = await client.query(
+        `INSERT INTO reaper_runs (job_name, last_sweep_at, dry_run, counts)
+         VALUES ($1, CURRENT_TIMESTAMP, $2, $3)
+         ON CONFLICT (job_name) DO UPDATE SET
+           last_sweep_at = EXCLUDED.last_sweep_at,
+           dry_run = EXCLUDED.dry_run,
+           counts = EXCLUDED.counts
+         RETURNING last_sweep_at`,
+        [JOB_NAME, dryRun, JSON.stringify(counts)]
+      );
+
+      await client.query('COMMIT');
+
+      if (!dryRun) {
+        for (const [metric, value] of Object.entries(counts)) {
+          LoggerUtils.logMetric(metric, value, 'count');
+        }
+      }
+      logger.info(dryRun ? 'Reaper dry run completed' : 'Reaper sweep completed', { counts });
+
+      return { dry_run: dryRun, swept_at: result.rows[0].last_sweep_at, counts };
+    } catch (error) {
+      await client?.query('ROLLBACK').catch(() => {});
+      LoggerUtils.logError('Reaper sweep failed', error as Error);
+      return null;
+    } finally {
+      client?.release();
+      this.running = false;
+    }
+  }
+
+  private async runIsolated(client: PoolClient, sweep: Sweep): Promise<number> {
+    await client.query('SAVEPOINT isolated_sweep');
+    try {
+      const affected = await sweep.run(client);
+      await client.query('RELEASE SAVEPOINT isolated_sweep');
+      return affected;
+    } catch (error) {
+      await client.query('ROLLBACK TO SAVEPOINT isolated_sweep');
+      LoggerUtils.logError(`Reaper sweep ${sweep.metric} failed, retrying next tick`, error as Error);
+      return 0;
+    }
+  }
+
+  /**
+   * Most recent sweep by any worker (for /health/ready)
+   */
+  async getLastSweep(): Promise<ReaperLastSweep | null> {
+    const result = await getDb().query(
+      'SELECT last_sweep_at, dry_run, counts FROM reaper_runs WHERE job_name = $1',
+      [JOB_NAME]
+    );
+    return (result.rows[0] as ReaperLastSweep) || null;
+  }
+}
+
+export const reaperService = new ReaperService();
@@ -4,16 +4,22 @@
  */
 
 import crypto from 'crypto';
-import { RoomModel } from '../models/room-model';
-import { RoomInviteModel, RoomInvite, CreateInviteData } from '../models/room-invite-model';
-import { RoomParticipantModel, CreateParticipantData, RoomParticipant } from '../models/room-participant-model';
+import { RoomRepository } from '../models/room-model';
+import { RoomInviteRepository, RoomInvite, CreateInviteData } from '../models/room-invite-model';
+import {
+  RoomParticipantRepository,
+  CreateParticipantData,
+  RoomParticipant,
+  PreviousGroupKey,
+} from '../models/room-participant-model';
+import { getRepositories } from '../models/repositories';
 import { CryptoUtils } from '../utils/crypto-utils';
 import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 import { LoggerUtils } from '../utils/logger-utils';
 import { AppSyncPublisher } from './appsync-publisher';
 
-const MAX_INVITES_PER_ROOM = 20;
+const MAX_INVITES_PER_ROOM = 250;
 const INVITE_TOKEN_LENGTH = 32; // 256 bits
 
 export interface GenerateInvitesInput {
@@ -50,15 +56,21 @@ export interface JoinResult {
 }
 
 export class RoomInviteService {
-  private roomModel: RoomModel;
-  private inviteModel: RoomInviteModel;
-  private participantModel: RoomParticipantModel;
   private publisher: AppSyncPublisher;
 
+  private get roomModel(): RoomRepository {
+    return getRepositories().rooms;
+  }
+
+  private get inviteModel(): RoomInviteRepository {
+    return getRepositories().roomInvites;
+  }
+
+  private get participantModel(): RoomParticipantRepository {
+    return getRepositories().roomParticipants;
+  }
+
   constructor() {
-    this.roomModel = new RoomModel();
-    this.inviteModel = new RoomInviteModel();
-    this.participantModel = new RoomParticipantModel();
     this.publisher = new AppSyncPublisher();
   }
 
@@ -92,8 +104,8 @@ export class RoomInviteService {
       throw new ValidationError(`Maximum ${MAX_INVITES_PER_ROOM} invites per room`);
     }
 
-    // Calculate invite expiration (same as room lock time)
-    const expiresAt = new Date(room.created_at);
+    // Calculate invite expiration (same as room lock time, reopened windows included)
+    const expiresAt = new Date(room.join_window_opened_at);
     expiresAt.setMinutes(expiresAt.getMinutes() + room.join_window_minutes);
 
     // Generate tokens and hashes
@@ -222,8 +234,14 @@ export class RoomInviteService {
     roomId: string,
     anonymousId: string
   ): Promise<{
-    status: 'pending' | 'approved' | 'rejected';
+    status: 'pending' | 'approved' | 'rejected' | 'removed';
     wrapped_group_key?: string;
+    /** Delegate that wrapped wrapped_group_key; absent means room_public_key */
+    wrapper_public_key?: string;
+    can_distribute_keys?: boolean;
+    key_epoch?: number;
+    room_public_key?: string;
+    previous_keys?: PreviousGroupKey[];
     participants?: Array<{
       anonymous_id: string;
       display_name?: string;
@@ -241,19 +259,31 @@ export class RoomInviteService {
     }
 
     const result: {
-      status: 'pending' | 'approved' | 'rejected';
+      status: 'pending' | 'approved' | 'rejected' | 'removed';
       wrapped_group_key?: string;
+      wrapper_public_key?: string;
+      can_distribute_keys?: boolean;
+      key_epoch?: number;
+      room_public_key?: string;
+      previous_keys?: PreviousGroupKey[];
       participants?: Array<{
         anonymous_id: string;
         display_name?: string;
         public_key: string;
       }>;
     } = {
-      status: participant.status as 'pending' | 'approved' | 'rejected',
+      status: participant.status,
     };
 
     if (participant.status === 'approved') {
       result.wrapped_group_key = participant.wrapped_group_key || undefined;
+      result.wrapper_public_key = participant.key_wrapper_public_key || undefined;
+      result.can_distribute_keys = participant.can_distribute_keys;
+      result.key_epoch = room.key_epoch;
+      result.room_public_key = room.group_public_key;
+
+      // Wraps of earlier epochs' keys, for messages sent before a rotation
+      result.previous_keys = await this.participantModel.findPreviousKeys(participant.participant_id);
 
       // Include other approved participants for UI
       const approvedParticipants = await this.participantModel.findApprovedByRoomId(roomId);
@@ -0,0 +1,229 @@
+/**
+ * Room Key Distribution Service
+ * Hands approved participants their first wrapped group key. The creator or a
+ * delegated member leases a batch of waiting participants, wraps the current
+ * key for each client-side and submits the batch in one call.
+ *
+ * Delegates wrap with their own participant key pair, never the room's, so
+ * recipients unwrap using the delegate's public key (wrapper_public_key) and a
+ * revoked delegate learns nothing about later epochs.
+ */
+
+import { RoomRepository } from '../models/room-model';
+import { RoomParticipantRepository, RoomParticipant } from '../models/room-participant-model';
+import { RoomKeyDistributionRepository } from '../models/room-key-distribution-model';
+import { getRepositories } from '../models/repositories';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { LoggerUtils } from '../utils/logger-utils';
+import { AppSyncPublisher } from './appsync-publisher';
+import type { WrappedKeyInput } from './room-key-service';
+
+/** How long a claimed participant stays reserved for one distributor */
+const CLAIM_LEASE_SECONDS = 60;
+
+/** Who is wrapping keys, and with which public key recipients unwrap */
+export interface KeyDistributor {
+  room_id: string;
+  participant_id: string;
+  key_epoch: number;
+  /** null when wrapping with the room key (creator) */
+  wrapper_public_key: string | null;
+}
+
+export interface SetKeysInput {
+  key_epoch: number;
+  wrapped_keys: WrappedKeyInput[];
+}
+
+export interface SetKeysResult {
+  key_epoch: number;
+  /** Participants that received a key; the rest already had one or left */
+  participant_ids: string[];
+}
+
+export class RoomKeyDistributionService {
+  private publisher: AppSyncPublisher;
+
+  private get roomModel(): RoomRepository {
+    return getRepositories().rooms;
+  }
+
+  private get participantModel(): RoomParticipantRepository {
+    return getRepositories().roomParticipants;
+  }
+
+  private get distributionModel(): RoomKeyDistributionRepository {
+    return getRepositories().roomKeyDistribution;
+  }
+
+  constructor() {
+    this.publisher = new AppSyncPublisher();
+  }
+
+  /**
+   * The room creator, wrapping with the room key
+   */
+  async creator(roomId: string, userId: string): Promise<KeyDistributor> {
+    const room = await this.roomModel.findActiveById(roomId);
+    if (!room) {
+      throw new NotFoundError('Room');
+    }
+
+    if (room.creator_user_id !== userId) {
+      throw new AuthorizationError('Not authorized');
+    }
+
+    const creator = await this.participantModel.getCreator(roomId);
+    if (!creator) {
+      throw new NotFoundError('Participant');
+    }
+
+    return { room_id: roomId, participant_id: creator.participant_id, key_epoch: room.key_epoch, wrapper_public_key: null };
+  }
+
+  /**
+   * An approved member the creator delegated to, wrapping with their own key
+   */
+  async delegate(roomId: string, anonymousId: string): Promise<KeyDistributor> {
+    const room = await this.roomModel.findActiveById(roomId);
+    if (!room) {
+      throw new NotFoundError('Room');
+    }
+
+    const participant = await this.participantModel.findByAnonymousId(roomId, anonymousId);
+    if (!participant) {
+      throw new NotFoundError('Room');
+    }
+
+    if (participant.status !== 'approved' || !participant.can_distribute_keys) {
+      throw new AuthorizationError('Not authorized to distribute keys');
+    }
+
+    if (!participant.wrapped_group_key) {
+      throw new ValidationError('No group key to distribute yet');
+    }
+
+    return {
+      room_id: roomId,
+      participant_id: participant.participant_id,
+      key_epoch: room.key_epoch,
+      wrapper_public_key: participant.public_key,
+    };
+  }
+
+  /**
+   * Lease up to `limit` approved participants still waiting for their first key.
+   * Concurrent distributors get disjoint batches until a lease runs out.
+   */
+  async claimNeedingKeys(distributor: KeyDistributor, limit: number): Promise<RoomParticipant[]> {
+    return this.distributionModel.claimNeedingKeys(
+      distributor.room_id,
+      distributor.participant_id,
+      limit,
+      CLAIM_LEASE_SECONDS
+    );
+  }
+
+  /**
+   * Store a batch of first keys wrapped for input.key_epoch. Rejected if the
+   * room has rotated since, as those wraps would be for a retired key.
+   */
+  async setKeys(distributor: KeyDistributor, input: SetKeysInput): Promise<SetKeysResult> {
+    const wraps = new Map(input.wrapped_keys.map((k) => [k.participant_id, k.wrapped_group_key]));
+    if (wraps.size !== input.wrapped_keys.length) {
+      throw new ValidationError('Duplicate participant in wrapped_keys');
+    }
+
+    const updated = await this.distributionModel.setWrappedKeys(
+      { room_id: distributor.room_id, wrapped_keys: wraps, wrapper_public_key: distributor.wrapper_public_key },
+      (currentEpoch) => {
+        if (currentEpoch !== input.key_epoch) {
+          throw new ValidationError('Stale group key epoch', { key_epoch: currentEpoch });
+        }
+      }
+    );
+
+    this.notifyDistributed(distributor.room_id, updated);
+
+    return { key_epoch: input.key_epoch, participant_ids: updated.map((p) => p.participant_id) };
+  }
+
+  /**
+   * Set one approved participant's first key (creator, current epoch)
+   */
+  async setParticipantWrappedKey(
+    roomId: string,
+    participantId: string,
+    userId: string,
+    wrappedGroupKey: string
+  ): Promise<RoomParticipant> {
+    const distributor = await this.creator(roomId, userId);
+
+    const participant = await this.participantModel.findById(participantId);
+    if (!participant || participant.room_id !== roomId) {
+      throw new NotFoundError('Participant');
+    }
+
+    if (participant.status !== 'approved') {
+      throw new ValidationError('Participant is not approved');
+    }
+
+    if (participant.wrapped_group_key) {
+      throw new ValidationError('Participant already has a wrapped key');
+    }
+
+    const [updated] = await this.distributionModel.setWrappedKeys(
+      { room_id: roomId, wrapped_keys: new Map([[participantId, wrappedGroupKey]]), wrapper_public_key: null },
+      () => {}
+    );
+    if (!updated) {
+      throw new ValidationError('Participant already has a wrapped key');
+    }
+
+    this.notifyDistributed(distributor.room_id, [updated]);
+
+    return updated;
+  }
+
+  /**
+   * Grant or revoke an approved member's right to wrap keys for newcomers.
+   * Keys they already wrapped stay valid until the next rotation.
+   */
+  async setDistributor(
+    roomId: string,
+    participantId: string,
+    userId: string,
+    enabled: boolean
+  ): Promise<RoomParticipant> {
+    await this.creator(roomId, userId);
+
+    const participant = await this.participantModel.findById(participantId);
+    if (!participant || participant.room_id !== roomId) {
+      throw new NotFoundError('Participant');
+    }
+
+    const updated = await this.distributionModel.setDistributor(participantId, enabled);
+    if (!updated) {
+      throw new ValidationError('Only approved members can distribute keys');
+    }
+
+    LoggerUtils.logSecurityEvent(enabled ? 'room_key_distributor_added' : 'room_key_distributor_removed', {
+      room_id: roomId,
+      user_id: userId,
+      participant_id: participantId,
+    });
+
+    return updated;
+  }
+
+  private notifyDistributed(roomId: string, participants: RoomParticipant[]): void {
+    // Fire-and-forget: each recipient re-fetches its status to pick up the key
+    for (const p of participants) {
+      void this.publisher.publishKeyDistributed(roomId, p.participant_id, p.anonymous_id);
+    }
+
+    if (participants.length > 0) {
+      LoggerUtils.logMetric('room_keys_distributed', participants.length, 'count');
+    }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Room Key Service
+ * Participant removal and group key rotation (key epochs).
+ * The server never sees group keys: the creator's client generates the next
+ * epoch's key and wraps it for every remaining member. This service checks the
+ * wraps cover exactly those members and swaps them in atomically, keeping each
+ * member's previous wrap so older messages stay readable.
+ */
+
+import { RoomRepository } from '../models/room-model';
+import { RoomParticipantRepository } from '../models/room-participant-model';
+import { getRepositories } from '../models/repositories';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+import { AppSyncPublisher } from './appsync-publisher';
+
+export interface WrappedKeyInput {
+  participant_id: string;
+  wrapped_group_key: string;
+}
+
+export interface RemoveParticipantInput {
+  key_epoch: number;
+  wrapped_keys: WrappedKeyInput[];
+}
+
+export interface RemoveParticipantResult {
+  participant_id: string;
+  status: 'removed';
+  key_epoch: number;
+}
+
+export class RoomKeyService {
+  private publisher: AppSyncPublisher;
+
+  private get roomModel(): RoomRepository {
+    return getRepositories().rooms;
+  }
+
+  private get participantModel(): RoomParticipantRepository {
+    return getRepositories().roomParticipants;
+  }
+
+  constructor() {
+    this.publisher = new AppSyncPublisher();
+  }
+
+  /**
+   * Remove an approved participant and move the room to the next key epoch.
+   * input.key_epoch must be the room's current epoch + 1, so two concurrent
+   * rotations can't both succeed with different keys.
+   */
+  async removeParticipant(
+    roomId: string,
+    participantId: string,
+    userId: string,
+    input: RemoveParticipantInput
+  ): Promise<RemoveParticipantResult> {
+    await this.assertRemovable(roomId, participantId, userId);
+
+    const wraps = new Map(input.wrapped_keys.map((k) => [k.participant_id, k.wrapped_group_key]));
+    if (wraps.size !== input.wrapped_keys.length) {
+      throw new ValidationError('Duplicate participant in wrapped_keys');
+    }
+
+    // Atomic: check epoch + holders, archive old wraps, swap in new ones, remove participant
+    const rotated = await this.participantModel.rotateGroupKey(
+      { room_id: roomId, participant_id: participantId, key_epoch: input.key_epoch, wrapped_keys: wraps },
+      (currentEpoch, holderIds) => this.checkRotation(input.key_epoch, currentEpoch, holderIds, wraps)
+    );
+    if (!rotated) {
+      throw new ValidationError('Participant is not approved');
+    }
+
+    // Fire-and-forget: remaining members re-fetch their wrapped key
+    void this.publisher.publishRoomKeyRotated(roomId, input.key_epoch);
+
+    LoggerUtils.logMetric('participant_removed', 1, 'count');
+    LoggerUtils.logSecurityEvent('room_key_rotated', {
+      room_id: roomId,
+      user_id: userId,
+      participant_id: participantId,
+      key_epoch: input.key_epoch,
+    });
+
+    logger.info('Participant removed and room key rotated', {
+      room_id: roomId,
+      participant_id: participantId,
+      key_epoch: input.key_epoch,
+    });
+
+    return { participant_id: participantId, status: 'removed', key_epoch: input.key_epoch };
+  }
+
+  private async assertRemovable(roomId: string, participantId: string, userId: string): Promise<void> {
+    const room = await this.roomModel.findById(roomId);
+    if (!room || room.burned) {
+      throw new NotFoundError('Room');
+    }
+
+    if (room.creator_user_id !== userId) {
+      throw new AuthorizationError('Not authorized to remove participants');
+    }
+
+    const participant = await this.participantModel.findById(participantId);
+    if (!participant || participant.room_id !== roomId) {
+      throw new NotFoundError('Participant');
+    }
+
+    if (participant.is_creator) {
+      throw new ValidationError('The room creator cannot be removed');
+    }
+
+    if (participant.status !== 'approved') {
+      throw new ValidationError('Participant is not approved');
+    }
+  }
+
+  /** Runs inside the rotation, against the locked room's epoch and current key holders */
+  private checkRotation(
+    keyEpoch: number,
+    currentEpoch: number,
+    holderIds: string[],
+    wraps: Map<string, string>
+  ): void {
+    if (keyEpoch !== currentEpoch + 1) {
+      throw new ValidationError(`Expected key_epoch ${currentEpoch + 1}`);
+    }
+
+    const missing = holderIds.filter((id) => !wraps.has(id));
+    const unexpected = [...wraps.keys()].filter((id) => !holderIds.includes(id));
+    if (missing.length > 0 || unexpected.length > 0) {
+      throw new ValidationError('wrapped_keys must cover exactly the remaining participants', {
+        missing,
+        unexpected,
+      });
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Room Lifespan Service
+ * Creator-only extension of a room's expiry and reopening of its join window,
+ * within the deployment's room limits (config/room-limits).
+ */
+
+import { RoomRepository, Room } from '../models/room-model';
+import { getRepositories } from '../models/repositories';
+import { getRoomLimits } from '../config/room-limits';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class RoomLifespanService {
+  private get roomModel(): RoomRepository {
+    return getRepositories().rooms;
+  }
+
+  /**
+   * Push expires_at out by `hours`. The total lifespan, counted from
+   * creation, may not exceed ROOM_MAX_LIFESPAN_HOURS.
+   */
+  async extendRoom(roomId: string, userId: string, hours: number): Promise<Room> {
+    const room = await this.getOwnRoom(roomId, userId, 'extend');
+    const { maxLifespanHours } = getRoomLimits();
+
+    const expiresAt = new Date(new Date(room.expires_at).getTime() + hours * HOUR_MS);
+    const latest = new Date(new Date(room.created_at).getTime() + maxLifespanHours * HOUR_MS);
+    if (expiresAt > latest) {
+      throw new ValidationError(`Rooms can last at most ${maxLifespanHours} hours`, {
+        max_expires_at: latest.toISOString(),
+      });
+    }
+
+    const extended = await this.roomModel.extend(roomId, expiresAt);
+    if (!extended) {
+      throw new NotFoundError('Room');
+    }
+
+    LoggerUtils.logMetric('room_extended', 1, 'count');
+    logger.info('Room extended', { room_id: roomId, hours });
+
+    return extended;
+  }
+
+  /**
+   * Unlock the room and start a fresh join window so new invites can be
+   * generated. The auto-lock closes it again once the window passes.
+   */
+  async reopenJoinWindow(roomId: string, userId: string, joinWindowMinutes: number): Promise<Room> {
+    await this.getOwnRoom(roomId, userId, 'reopen');
+    const { maxJoinWindowMinutes } = getRoomLimits();
+
+    if (joinWindowMinutes > maxJoinWindowMinutes) {
+      throw new ValidationError(`Join window can be at most ${maxJoinWindowMinutes} minutes`);
+    }
+
+    const reopened = await this.roomModel.reopen(roomId, joinWindowMinutes);
+    if (!reopened) {
+      throw new NotFoundError('Room');
+    }
+
+    LoggerUtils.logMetric('room_reopened', 1, 'count');
+    LoggerUtils.logSecurityEvent('room_reopened', { room_id: roomId, user_id: userId });
+
+    return reopened;
+  }
+
+  /**
+   * Live (not burned, not expired) room owned by userId
+   */
+  private async getOwnRoom(roomId: string, userId: string, action: string): Promise<Room> {
+    const room = await this.roomModel.findActiveById(roomId);
+    if (!room) {
+      throw new NotFoundError('Room');
+    }
+
+    if (room.creator_user_id !== userId) {
+      throw new AuthorizationError(`Not authorized to ${action} this room`);
+    }
+
+    return room;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Room Message Service
+ * Editing and unsending room messages, and re-reading a single message after
+ * an edit/delete event. Sending and listing live in RoomService.
+ */
+
+import { RoomRepository, Room } from '../models/room-model';
+import { RoomParticipantRepository, RoomParticipant } from '../models/room-participant-model';
+import { RoomMessageRepository, RoomMessageWithSender } from '../models/room-message-model';
+import { getRepositories } from '../models/repositories';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+import { AppSyncPublisher } from './appsync-publisher';
+
+export class RoomMessageService {
+  private publisher: AppSyncPublisher;
+
+  private get roomModel(): RoomRepository {
+    return getRepositories().rooms;
+  }
+
+  private get participantModel(): RoomParticipantRepository {
+    return getRepositories().roomParticipants;
+  }
+
+  private get messageModel(): RoomMessageRepository {
+    return getRepositories().roomMessages;
+  }
+
+  constructor() {
+    this.publisher = new AppSyncPublisher();
+  }
+
+  async getMessage(roomId: string, messageId: string, anonymousId: string): Promise<RoomMessageWithSender> {
+    await this.getMember(roomId, anonymousId);
+    return this.getRoomMessage(roomId, messageId);
+  }
+
+  /**
+   * Replace a message's ciphertext. Only the author may edit, and the new
+   * ciphertext must be under the room's current key epoch.
+   */
+  async editMessage(
+    roomId: string,
+    messageId: string,
+    anonymousId: string,
+    data: { ciphertext: string; nonce: string; key_epoch?: number }
+  ): Promise<RoomMessageWithSender> {
+    const { room, participant } = await this.getMember(roomId, anonymousId);
+    const message = await this.getRoomMessage(roomId, messageId);
+
+    if (message.participant_id !== participant.participant_id) {
+      throw new AuthorizationError('Only the author can edit this message');
+    }
+
+    if (message.deleted_at) {
+      throw new ValidationError('Message has been deleted');
+    }
+
+    // Same rule as sending: re-encrypt under the current key before editing
+    if ((data.key_epoch ?? 0) !== room.key_epoch) {
+      throw new ValidationError('Stale group key epoch', { key_epoch: room.key_epoch });
+    }
+
+    const edited = await this.messageModel.edit(messageId, {
+      ciphertext: data.ciphertext,
+      nonce: data.nonce,
+      key_epoch: room.key_epoch,
+    });
+    if (!edited) {
+      throw new ValidationError('Message has been deleted');
+    }
+
+    LoggerUtils.logMetric('room_message_edited', 1, 'count');
+
+    // Fire-and-forget: open room views re-fetch this message
+    void this.publisher.publishRoomMessageChanged(roomId, messageId, 'edited');
+
+    return { ...edited, anonymous_id: message.anonymous_id, display_name: message.display_name };
+  }
+
+  /**
+   * Unsend a message, leaving a tombstone. Allowed for the author and for the
+   * room creator; deleting an already-deleted message is a no-op.
+   */
+  async deleteMessage(roomId: string, messageId: string, anonymousId: string): Promise<void> {
+    const { participant } = await this.getMember(roomId, anonymousId);
+    const message = await this.getRoomMessage(roomId, messageId);
+
+    if (message.participant_id !== participant.participant_id && !participant.is_creator) {
+      throw new AuthorizationError('Not authorized to delete this message');
+    }
+
+    const deleted = await this.messageModel.markDeleted(messageId);
+    if (!deleted) {
+      return;
+    }
+
+    LoggerUtils.logMetric('room_message_deleted', 1, 'count');
+    logger.info('Room message deleted', {
+      room_id: roomId,
+      message_id: messageId,
+      by_creator: message.participant_id !== participant.participant_id,
+    });
+
+    // Fire-and-forget: open room views swap in the tombstone
+    void this.publisher.publishRoomMessageChanged(roomId, messageId, 'deleted');
+  }
+
+  /**
+   * Active room and the approved participant behind anonymous_id
+   */
+  private async getMember(
+    roomId: string,
+    anonymousId: string
+  ): Promise<{ room: Room; participant: RoomParticipant }> {
+    const room = await this.roomModel.findActiveById(roomId);
+    if (!room) {
+      throw new NotFoundError('Room');
+    }
+
+    const participant = await this.participantModel.findByAnonymousId(roomId, anonymousId);
+    if (!participant || participant.status !== 'approved') {
+      throw new AuthorizationError('Not a participant of this room');
+    }
+
+    return { room, participant };
+  }
+
+  private async getRoomMessage(roomId: string, messageId: string): Promise<RoomMessageWithSender> {
+    const message = await this.messageModel.findById(messageId);
+    if (!message || message.room_id !== roomId) {
+      throw new NotFoundError('Message');
+    }
+    return message;
+  }
+}
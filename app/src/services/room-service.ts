@@ -3,23 +3,33 @@
  * Business logic for secure chat room management
  */
 
-import { RoomModel, Room, CreateRoomData } from '../models/room-model';
-import { RoomParticipantModel, CreateParticipantData, RoomParticipant } from '../models/room-participant-model';
-import { RoomMessageModel, CreateRoomMessageData, RoomMessageWithSender } from '../models/room-message-model';
+import { RoomRepository, Room, CreateRoomData } from '../models/room-model';
+import {
+  RoomParticipantRepository,
+  CreateParticipantData,
+  RoomParticipant,
+  ParticipantCursor,
+  ParticipantStatus,
+} from '../models/room-participant-model';
+import { RoomMessageRepository, CreateRoomMessageData, RoomMessageWithSender } from '../models/room-message-model';
+import { UserRepository } from '../models/user-model';
+import { getRepositories } from '../models/repositories';
 import { CryptoUtils } from '../utils/crypto-utils';
 import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 import { LoggerUtils } from '../utils/logger-utils';
-import { getDb } from '../config/database';
 import { AppSyncPublisher } from './appsync-publisher';
+import { AttachmentService } from './attachment-service';
+import { getRoomLimits } from '../config/room-limits';
 
 const MAX_ROOMS_PER_USER = 10;
-const ROOM_LIFESPAN_HOURS = 24;
 
 export interface CreateRoomInput {
   display_name: string;
   description?: string;
   join_window_minutes?: number;
+  /** Defaults to ROOM_DEFAULT_LIFESPAN_HOURS */
+  lifespan_hours?: number;
   max_participants?: number;
   auto_approve?: boolean;
   group_public_key: string;
@@ -32,31 +42,35 @@ export interface RoomWithParticipants extends Room {
 }
 
 export class RoomService {
-  private roomModel: RoomModel;
-  private participantModel: RoomParticipantModel;
-  private messageModel: RoomMessageModel;
   private publisher: AppSyncPublisher;
+  private attachmentService: AttachmentService;
+
+  private get roomModel(): RoomRepository {
+    return getRepositories().rooms;
+  }
+
+  private get participantModel(): RoomParticipantRepository {
+    return getRepositories().roomParticipants;
+  }
+
+  private get messageModel(): RoomMessageRepository {
+    return getRepositories().roomMessages;
+  }
+
+  private get userModel(): UserRepository {
+    return getRepositories().users;
+  }
 
   constructor() {
-    this.roomModel = new RoomModel();
-    this.participantModel = new RoomParticipantModel();
-    this.messageModel = new RoomMessageModel();
     this.publisher = new AppSyncPublisher();
+    this.attachmentService = new AttachmentService();
   }
 
   /**
    * Ensure user exists in users table (upsert)
    */
   private async ensureUserExists(userId: string, email?: string): Promise<void> {
-    const db = getDb();
-    await db.query(
-      `INSERT INTO users (user_id, email, created_at, updated_at)
-       VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-       ON CONFLICT (user_id) DO UPDATE SET
-         updated_at = CURRENT_TIMESTAMP,
-         last_login_at = CURRENT_TIMESTAMP`,
-      [userId, email || `${userId}@unknown.local`]
-    );
+    await this.userModel.upsert(userId, email || `${userId}@unknown.local`);
   }
 
   async createRoom(userId: string, input: CreateRoomInput, email?: string): Promise<RoomWithParticipants> {
@@ -69,9 +83,18 @@ export class RoomService {
       throw new ValidationError(`Maximum ${MAX_ROOMS_PER_USER} active rooms per user`);
     }
 
-    // Calculate expiration (24h from now)
+    const limits = getRoomLimits();
+    const lifespanHours = input.lifespan_hours ?? limits.defaultLifespanHours;
+    if (lifespanHours > limits.maxLifespanHours) {
+      throw new ValidationError(`Rooms can last at most ${limits.maxLifespanHours} hours`);
+    }
+    if ((input.join_window_minutes ?? 0) > limits.maxJoinWindowMinutes) {
+      throw new ValidationError(`Join window can be at most ${limits.maxJoinWindowMinutes} minutes`);
+    }
+
+    // Calculate expiration
     const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + ROOM_LIFESPAN_HOURS);
+    expiresAt.setHours(expiresAt.getHours() + lifespanHours);
 
     // Create room
     const roomData: CreateRoomData = {
@@ -172,6 +195,7 @@ export class RoomService {
     }
 
     await this.roomModel.burn(roomId);
+    await this.attachmentService.purge('room_id', roomId);
 
     LoggerUtils.logMetric('room_burned', 1, 'count');
     LoggerUtils.logSecurityEvent('room_burned', { room_id: roomId, user_id: userId });
@@ -193,63 +217,34 @@ export class RoomService {
   }
 
   /**
-   * Get approved participants who still need their group key wrapped
-   * Used for auto-approve rooms where client-side key wrapping is needed
-   */
-  async getParticipantsNeedingKeys(roomId: string, userId: string): Promise<RoomParticipant[]> {
-    const room = await this.roomModel.findById(roomId);
-    if (!room) {
-      throw new NotFoundError('Room');
-    }
-
-    if (room.creator_user_id !== userId) {
-      throw new AuthorizationError('Not authorized');
-    }
-
-    return this.participantModel.findApprovedNeedingKeys(roomId);
-  }
-
-  /**
-   * Set wrapped group key for an approved participant (for auto-approve key distribution)
+   * One page of the room's participants in join order. next_cursor is null on
+   * the last page.
    */
-  async setParticipantWrappedKey(
+  async listParticipants(
     roomId: string,
-    participantId: string,
     userId: string,
-    wrappedGroupKey: string
-  ): Promise<RoomParticipant> {
+    limit: number,
+    after?: ParticipantCursor,
+    status?: ParticipantStatus
+  ): Promise<{ participants: RoomParticipant[]; next_cursor: ParticipantCursor | null }> {
     const room = await this.roomModel.findById(roomId);
     if (!room) {
       throw new NotFoundError('Room');
     }
 
     if (room.creator_user_id !== userId) {
-      throw new AuthorizationError('Not authorized');
-    }
-
-    const participant = await this.participantModel.findById(participantId);
-    if (!participant || participant.room_id !== roomId) {
-      throw new NotFoundError('Participant');
-    }
-
-    if (participant.status !== 'approved') {
-      throw new ValidationError('Participant is not approved');
-    }
-
-    if (participant.wrapped_group_key) {
-      throw new ValidationError('Participant already has a wrapped key');
+      throw new AuthorizationError('Not authorized to view this room');
     }
 
-    const updated = await this.participantModel.setWrappedKey(participantId, wrappedGroupKey);
-
-    // Fire-and-forget: notify participant that their key is ready
-    void this.publisher.publishKeyDistributed(
-      roomId,
-      participantId,
-      participant.anonymous_id
-    );
+    // One extra row tells us whether another page follows
+    const rows = await this.participantModel.findPageByRoomId(roomId, limit + 1, after, status);
+    const participants = rows.slice(0, limit);
+    const last = participants[participants.length - 1];
 
-    return updated;
+    return {
+      participants,
+      next_cursor: rows.length > limit ? { created_at: last.created_at, participant_id: last.participant_id } : null,
+    };
   }
 
   async approveParticipant(
@@ -317,7 +312,7 @@ export class RoomService {
   async sendMessage(
     roomId: string,
     anonymousId: string,
-    data: { ciphertext: string; nonce: string }
+    data: { ciphertext: string; nonce: string; key_epoch?: number; attachment_ids?: string[] }
   ): Promise<RoomMessageWithSender> {
     const room = await this.roomModel.findActiveById(roomId);
     if (!room) {
@@ -334,11 +329,19 @@ export class RoomService {
       throw new AuthorizationError('Not approved to send messages');
     }
 
+    // Key was rotated since the client loaded it; it must re-fetch before sending
+    if ((data.key_epoch ?? 0) !== room.key_epoch) {
+      throw new ValidationError('Stale group key epoch', { key_epoch: room.key_epoch });
+    }
+
+    await this.attachmentService.assertInRoom(data.attachment_ids, roomId);
+
     const messageData: CreateRoomMessageData = {
       room_id: roomId,
       participant_id: participant.participant_id,
       ciphertext: data.ciphertext,
       nonce: data.nonce,
+      key_epoch: room.key_epoch,
     };
 
     const message = await this.messageModel.create(messageData);
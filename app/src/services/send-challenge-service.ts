@@ -0,0 +1,124 @@
+/**
+ * Send Challenge Service
+ * Hashcash-style proof of work for anonymous sends, for deployments without
+ * the AWS WAF CAPTCHA (SEND_CHALLENGE_ENABLED=true). A challenge is an
+ * HMAC-signed token bound to one link; the sender finds a nonce whose
+ * SHA-256("<challenge>:<nonce>") starts with `difficulty` zero bits and sends
+ * both with the message. Difficulty rises with the link's recent thread
+ * volume. No cookies, IPs or server-side session: the token carries its own
+ * state, and used token ids are recorded in spent_challenges until they
+ * expire, so a solution is accepted once across every process.
+ */
+
+import crypto from 'crypto';
+import { ThreadRepository } from '../models/thread-model';
+import { SpentChallengeRepository } from '../models/spent-challenge-model';
+import { getRepositories } from '../models/repositories';
+import { CryptoUtils, getAppSecret } from '../utils/crypto-utils';
+import { ChallengeFailedError } from '../utils/error-utils';
+import { LoggerUtils } from '../utils/logger-utils';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const BASE_DIFFICULTY = 14; // ~16k hashes: well under a second in a worker
+const MAX_DIFFICULTY = 20;
+const VOLUME_WINDOW_MS = 10 * 60 * 1000;
+/** New threads per window a link takes before difficulty starts rising */
+const QUIET_VOLUME = 5;
+
+export interface SendChallenge {
+  required: boolean;
+  challenge?: string;
+  difficulty?: number;
+  expires_at?: Date;
+}
+
+export interface ChallengeSolution {
+  challenge: string;
+  nonce: string;
+}
+
+/**
+ * Leading zero bits of SHA-256(`${challenge}:${nonce}`)
+ */
+export function proofBits(challenge: string, nonce: string): number {
+  const digest = crypto.createHash('sha256').update(`${challenge}:${nonce}`).digest();
+  let bits = 0;
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+export class SendChallengeService {
+  private get threadModel(): ThreadRepository {
+    return getRepositories().threads;
+  }
+
+  private get spentChallengeModel(): SpentChallengeRepository {
+    return getRepositories().spentChallenges;
+  }
+
+  /** Read lazily — dotenv loads after module imports. */
+  get enabled(): boolean {
+    return process.env.SEND_CHALLENGE_ENABLED === 'true';
+  }
+
+  /**
+   * Issue a challenge for a send to `linkId` ({ required: false } when disabled)
+   */
+  async issue(linkId: string): Promise<SendChallenge> {
+    if (!this.enabled) return { required: false };
+
+    const difficulty = await this.difficultyFor(linkId);
+    const expiresAt = Date.now() + CHALLENGE_TTL_MS;
+    const body = `${linkId}.${expiresAt}.${difficulty}.${crypto.randomBytes(12).toString('hex')}`;
+    const challenge = `${body}.${CryptoUtils.generateHMAC(`challenge:${body}`, getAppSecret())}`;
+
+    return { required: true, challenge, difficulty, expires_at: new Date(expiresAt) };
+  }
+
+  /**
+   * Throw unless `solution` is a valid, unexpired, unused solved challenge
+   * for `linkId`; marks it used. No-op when disabled.
+   */
+  async verify(linkId: string, solution: ChallengeSolution | undefined): Promise<void> {
+    if (!this.enabled) return;
+    if (!solution) {
+      throw new ChallengeFailedError('Proof-of-work challenge required');
+    }
+
+    const parts = solution.challenge.split('.');
+    const [challengeLink, expiresStr, difficultyStr, id, hmac] = parts;
+    const body = parts.slice(0, 4).join('.');
+    const expiresAt = Number(expiresStr);
+    const now = Date.now();
+
+    if (parts.length !== 5 || !CryptoUtils.verifyHMAC(`challenge:${body}`, hmac, getAppSecret()) ||
+        challengeLink !== linkId || !(expiresAt > now) ||
+        proofBits(solution.challenge, solution.nonce) < Number(difficultyStr)) {
+      LoggerUtils.logMetric('send_challenge_failed', 1, 'count');
+      throw new ChallengeFailedError();
+    }
+
+    if (!await this.spentChallengeModel.spend(id, new Date(expiresAt))) {
+      LoggerUtils.logMetric('send_challenge_failed', 1, 'count');
+      throw new ChallengeFailedError('Proof-of-work challenge already used');
+    }
+  }
+
+  /**
+   * One extra bit (twice the work) per doubling of the link's recent volume
+   * above QUIET_VOLUME, capped at MAX_DIFFICULTY
+   */
+  private async difficultyFor(linkId: string): Promise<number> {
+    const recent = await this.threadModel.countByLinkIdSince(linkId, new Date(Date.now() - VOLUME_WINDOW_MS));
+    if (recent < QUIET_VOLUME) return BASE_DIFFICULTY;
+    const extra = Math.floor(Math.log2(recent / QUIET_VOLUME)) + 1;
+    return Math.min(BASE_DIFFICULTY + extra, MAX_DIFFICULTY);
+  }
+}
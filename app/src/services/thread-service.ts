@@ -1,37 +1,47 @@
 /**
  * Thread Service
  * Business logic for thread management
- * File size: ~215 lines
+ * File size: ~235 lines
  */
 
-import { ThreadModel, Thread, CreateThreadData } from '../models/thread-model';
-import { MessageModel, Message } from '../models/message-model';
-import { LinkModel } from '../models/link-model';
+import { ThreadRepository, Thread, CreateThreadData } from '../models/thread-model';
+import { MessageRepository, Message } from '../models/message-model';
+import { LinkRepository } from '../models/link-model';
+import { getRepositories } from '../models/repositories';
 import { CryptoUtils } from '../utils/crypto-utils';
 import { NotFoundError, AuthorizationError } from '../utils/error-utils';
 import { logger } from '../config/logger';
 import { LoggerUtils } from '../utils/logger-utils';
-import { getDb } from '../config/database';
+import { AttachmentService } from './attachment-service';
 
 export class ThreadService {
-  private threadModel: ThreadModel;
-  private messageModel: MessageModel;
-  private linkModel: LinkModel;
+  private attachmentService: AttachmentService;
+
+  private get threadModel(): ThreadRepository {
+    return getRepositories().threads;
+  }
+
+  private get messageModel(): MessageRepository {
+    return getRepositories().messages;
+  }
+
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
 
   constructor() {
-    this.threadModel = new ThreadModel();
-    this.messageModel = new MessageModel();
-    this.linkModel = new LinkModel();
+    this.attachmentService = new AttachmentService();
   }
 
   /**
    * Create new thread (when anonymous user sends first message).
    * For OPSEC links: sets 24h expiry, generates access token, copies passphrase settings.
+   * Null when the link reached its thread limits first (checked atomically with the insert).
    */
   async createThread(
     linkId: string,
     senderPublicKey?: string,
-  ): Promise<{ thread: Thread; accessToken?: string }> {
+  ): Promise<{ thread: Thread; accessToken?: string } | null> {
     // Verify link exists and is active
     const link = await this.linkModel.findById(linkId);
     if (!link) {
@@ -59,7 +69,8 @@ export class ThreadService {
       passphrase_salt: link.opsec_mode ? link.opsec_passphrase_salt : undefined,
     };
 
-    const thread = await this.threadModel.create(threadData);
+    const thread = await this.threadModel.createWithinLimits(threadData, link);
+    if (!thread) return null;
 
     LoggerUtils.logMetric('thread_created', 1, 'count');
 
@@ -159,25 +170,7 @@ export class ThreadService {
       return;
     }
 
-    // Atomic: delete messages + mark burned + decrement link counter in single transaction
-    const client = await getDb().connect();
-    try {
-      await client.query('BEGIN');
-      await client.query('DELETE FROM messages WHERE thread_id = $1', [threadId]);
-      await client.query(
-        'UPDATE links SET message_count = GREATEST(message_count - $1, 0) WHERE link_id = $2',
-        [thread.message_count, thread.link_id]
-      );
-      await client.query('UPDATE threads SET burned = TRUE, message_count = 0 WHERE thread_id = $1', [threadId]);
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
-
-    LoggerUtils.logMetric('thread_burned', 1, 'count');
+    await this.destroy(thread);
     LoggerUtils.logSecurityEvent('thread_burned', {
       thread_id: threadId,
       user_id: userId,
@@ -189,4 +182,28 @@ export class ThreadService {
       user_id: userId,
     });
   }
+
+  /**
+   * Burn without an owner (OPSEC self-destruct, e.g. too many wrong passphrases)
+   */
+  async selfBurn(thread: Thread, reason: string): Promise<void> {
+    if (thread.burned) return;
+
+    await this.destroy(thread);
+    LoggerUtils.logSecurityEvent('thread_self_burned', {
+      thread_id: thread.thread_id,
+      link_id: thread.link_id,
+      reason,
+    }, 'high');
+  }
+
+  private async destroy(thread: Thread): Promise<void> {
+    // Atomic: delete messages + mark burned + decrement link counter
+    await this.threadModel.burn(thread);
+
+    // Storage can't join the transaction; leftovers are retried by the reaper
+    await this.attachmentService.purge('thread_id', thread.thread_id);
+
+    LoggerUtils.logMetric('thread_burned', 1, 'count');
+  }
 }
@@ -0,0 +1,150 @@
+/**
+ * Webhook Dispatcher
+ * Drains the webhook_deliveries queue: POSTs each due delivery, then marks it
+ * delivered, schedules a retry with exponential backoff, or gives up after
+ * the last attempt. Runs in-process on every PM2 worker; deliveries are
+ * leased row by row (FOR UPDATE SKIP LOCKED), so workers never send the same
+ * attempt twice.
+ */
+
+import { WebhookDeliveryRepository, ClaimedDelivery, DeliveryAttempt } from '../models/webhook-delivery-model';
+import { getRepositories } from '../models/repositories';
+import { CryptoUtils } from '../utils/crypto-utils';
+import { logger } from '../config/logger';
+import { LoggerUtils } from '../utils/logger-utils';
+import { WebhookSender } from './webhook-sender';
+
+const DEFAULT_INTERVAL_SECONDS = 15;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_BASE_SECONDS = 30;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const BATCH_SIZE = 20;
+/** Longer than the sender's request timeout, so a lease only lapses if the worker died */
+const LEASE_SECONDS = 60;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Signature header value: HMAC-SHA256 over `${timestamp}.${body}`.
+ * Receivers recompute it with their secret and reject stale timestamps.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${CryptoUtils.generateHMAC(`${timestamp}.${body}`, secret)}`;
+}
+
+/**
+ * Delay before the next attempt: base, 2x base, 4x base, ... capped at 6 hours
+ */
+export function retryDelayMs(attempts: number, baseSeconds: number): number {
+  return Math.min(baseSeconds * 1000 * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private sender = new WebhookSender();
+
+  private get deliveryModel(): WebhookDeliveryRepository {
+    return getRepositories().webhookDeliveries;
+  }
+
+  /** Read lazily — dotenv loads after module imports. */
+  private get intervalMs(): number {
+    const seconds = parseInt(process.env.WEBHOOK_DISPATCH_INTERVAL_SECONDS || '', 10);
+    return (seconds > 0 ? seconds : DEFAULT_INTERVAL_SECONDS) * 1000;
+  }
+
+  private get maxAttempts(): number {
+    const attempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '', 10);
+    return attempts > 0 ? attempts : DEFAULT_MAX_ATTEMPTS;
+  }
+
+  private get retryBaseSeconds(): number {
+    const seconds = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '', 10);
+    return seconds > 0 ? seconds : DEFAULT_RETRY_BASE_SECONDS;
+  }
+
+  /**
+   * Start the periodic drain (no-op when WEBHOOKS_ENABLED=false or already started)
+   */
+  start(): void {
+    if (this.timer || process.env.WEBHOOKS_ENABLED === 'false') return;
+
+    this.timer = setInterval(() => {
+      void this.dispatch();
+    }, this.intervalMs);
+    // Don't keep the process alive for the dispatcher alone (graceful shutdown)
+    this.timer.unref();
+
+    logger.info('Webhook dispatcher scheduled', { interval_ms: this.intervalMs, max_attempts: this.maxAttempts });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send every due delivery once. Returns how many were attempted, or null
+   * when a drain is already running on this worker.
+   */
+  async dispatch(): Promise<number | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const claimed = await this.deliveryModel.claimDue(BATCH_SIZE, LEASE_SECONDS, this.maxAttempts);
+      await Promise.all(claimed.map((delivery) => this.deliver(delivery)));
+      return claimed.length;
+    } catch (error) {
+      LoggerUtils.logError('Webhook dispatch failed', error as Error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(delivery: ClaimedDelivery): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await this.sender.send({
+      url: delivery.url,
+      body,
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'BurnWare-Webhooks/1.0',
+        'x-burnware-event': delivery.event,
+        'x-burnware-delivery': delivery.delivery_id,
+        'x-burnware-timestamp': String(timestamp),
+        'x-burnware-signature': signWebhook(delivery.secret, timestamp, body),
+      },
+    });
+
+    const ok = response.status_code !== undefined && response.status_code >= 200 && response.status_code < 300;
+    const attempt: DeliveryAttempt = {
+      status: ok ? 'delivered' : delivery.attempts >= this.maxAttempts ? 'failed' : 'pending',
+      status_code: response.status_code,
+      error: ok ? undefined : (response.error || `HTTP ${response.status_code}`).slice(0, MAX_ERROR_LENGTH),
+    };
+    if (attempt.status === 'pending') {
+      attempt.next_attempt_at = new Date(Date.now() + retryDelayMs(delivery.attempts, this.retryBaseSeconds));
+    }
+
+    await this.deliveryModel.recordAttempt(delivery.delivery_id, attempt);
+
+    if (attempt.status !== 'pending') {
+      LoggerUtils.logMetric(ok ? 'webhook_delivered' : 'webhook_failed', 1, 'count');
+    }
+    logger.debug('Webhook attempt recorded', {
+      delivery_id: delivery.delivery_id,
+      webhook_id: delivery.webhook_id,
+      attempts: delivery.attempts,
+      status: attempt.status,
+      status_code: response.status_code,
+    });
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
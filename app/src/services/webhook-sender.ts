@@ -0,0 +1,127 @@
+/**
+ * Webhook Sender
+ * Performs the outbound HTTPS POST for a webhook delivery.
+ * EC2 has no internet egress (NAT-free VPC), so in AWS the request goes
+ * through a Lambda proxy outside the VPC (WEBHOOK_DELIVERY_FN_ARN), the same
+ * pattern AppSyncPublisher uses. Without it (self-hosted, local development)
+ * the request is sent directly, to an address resolved up front and checked
+ * against private, loopback and link-local ranges, then pinned for the
+ * connection so a second DNS answer can't redirect it. Redirects are never
+ * followed.
+ */
+
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** Everything that isn't a public unicast address */
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export interface WebhookRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * status_code is set when the endpoint answered; error when it didn't
+ * (DNS, TLS, timeout) or the proxy failed
+ */
+export interface WebhookResponse {
+  status_code?: number;
+  error?: string;
+}
+
+export class WebhookSender {
+  private _lambdaClient: LambdaClient | undefined;
+
+  /** Read lazily — dotenv loads after module imports. */
+  private get deliveryFnArn(): string | undefined {
+    return process.env.WEBHOOK_DELIVERY_FN_ARN;
+  }
+
+  private get lambdaClient(): LambdaClient {
+    if (!this._lambdaClient) {
+      this._lambdaClient = new LambdaClient({ region: process.env.AWS_REGION || 'us-east-1' });
+    }
+    return this._lambdaClient;
+  }
+
+  async send(request: WebhookRequest): Promise<WebhookResponse> {
+    try {
+      return this.deliveryFnArn ? await this.sendViaLambda(request) : await this.sendDirect(request);
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+  }
+
+  private async sendViaLambda(request: WebhookRequest): Promise<WebhookResponse> {
+    const result = await this.lambdaClient.send(new InvokeCommand({
+      FunctionName: this.deliveryFnArn,
+      InvocationType: 'RequestResponse',
+      Payload: Buffer.from(JSON.stringify({ ...request, timeout_ms: REQUEST_TIMEOUT_MS })),
+    }));
+
+    const payload = result.Payload ? Buffer.from(result.Payload).toString() : '';
+    if (result.FunctionError) {
+      return { error: `Delivery proxy error: ${payload || 'unknown'}` };
+    }
+    return JSON.parse(payload) as WebhookResponse;
+  }
+
+  private async sendDirect(request: WebhookRequest): Promise<WebhookResponse> {
+    const target = new URL(request.url);
+    if (target.protocol !== 'https:') return { error: 'Only https URLs are allowed' };
+
+    // Every answer must be public: picking one would let a rebinding host pass
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+      return { error: 'Endpoint resolves to a non-public address' };
+    }
+    const { address, family } = addresses[0];
+
+    return new Promise((resolve) => {
+      const req = https.request(target, {
+        method: 'POST',
+        headers: { ...request.headers, 'content-length': Buffer.byteLength(request.body) },
+        timeout: REQUEST_TIMEOUT_MS,
+        agent: false,
+        // Connect to the checked address; TLS still verifies the hostname
+        lookup: (_host, options, callback) => {
+          if (options.all) callback(null, [{ address, family }]);
+          else callback(null, address, family);
+        },
+      }, (res) => {
+        // The body itself is ignored
+        res.resume();
+        res.on('end', () => resolve({ status_code: res.statusCode }));
+      });
+      req.on('timeout', () => req.destroy(new Error('Request timed out')));
+      req.on('error', (err) => resolve({ error: err.message }));
+      req.end(request.body);
+    });
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Webhook Service
+ * Owner-managed webhook endpoints per link, and queuing a delivery to each
+ * of them when a thread gets a new message
+ */
+
+import { WebhookRepository, Webhook } from '../models/webhook-model';
+import { WebhookDeliveryRepository, WebhookDelivery, WebhookEvent } from '../models/webhook-delivery-model';
+import { LinkRepository } from '../models/link-model';
+import { getRepositories } from '../models/repositories';
+import { CryptoUtils } from '../utils/crypto-utils';
+import { ValidationError, NotFoundError, AuthorizationError } from '../utils/error-utils';
+import { logger } from '../config/logger';
+import { webhookDispatcher } from './webhook-dispatcher';
+
+const MAX_WEBHOOKS_PER_LINK = 5;
+const DELIVERY_LOG_LIMIT = 50;
+
+/** Webhook as returned to the owner; the secret is only shown on creation */
+export type WebhookSummary = Omit<Webhook, 'secret'>;
+
+export class WebhookService {
+  private get webhookModel(): WebhookRepository {
+    return getRepositories().webhooks;
+  }
+
+  private get deliveryModel(): WebhookDeliveryRepository {
+    return getRepositories().webhookDeliveries;
+  }
+
+  private get linkModel(): LinkRepository {
+    return getRepositories().links;
+  }
+
+  /**
+   * Register an endpoint; the response carries the signing secret once
+   */
+  async createWebhook(linkId: string, userId: string, url: string): Promise<Webhook> {
+    await this.getOwnedLink(linkId, userId);
+
+    if (await this.webhookModel.countByLinkId(linkId) >= MAX_WEBHOOKS_PER_LINK) {
+      throw new ValidationError(`A link can have at most ${MAX_WEBHOOKS_PER_LINK} webhooks`);
+    }
+
+    const webhook = await this.webhookModel.create({
+      link_id: linkId,
+      url,
+      secret: CryptoUtils.generateRandomString(32),
+    });
+
+    logger.info('Webhook created', { link_id: linkId, webhook_id: webhook.webhook_id });
+    return webhook;
+  }
+
+  async listWebhooks(linkId: string, userId: string): Promise<WebhookSummary[]> {
+    await this.getOwnedLink(linkId, userId);
+    const webhooks = await this.webhookModel.findByLinkId(linkId);
+    return webhooks.map(({ secret: _secret, ...summary }) => summary);
+  }
+
+  async deleteWebhook(linkId: string, webhookId: string, userId: string): Promise<void> {
+    await this.getOwnedWebhook(linkId, webhookId, userId);
+    await this.webhookModel.delete(webhookId);
+    logger.info('Webhook deleted', { link_id: linkId, webhook_id: webhookId });
+  }
+
+  /**
+   * Queue a webhook.test delivery to one endpoint and start sending it now
+   */
+  async sendTest(linkId: string, webhookId: string, userId: string): Promise<WebhookDelivery> {
+    await this.getOwnedWebhook(linkId, webhookId, userId);
+
+    const [delivery] = await this.deliveryModel.enqueue([webhookId], {
+      event: 'webhook.test',
+      link_id: linkId,
+      thread_id: null,
+      sender_type: null,
+      timestamp: Date.now(),
+    });
+    void webhookDispatcher.dispatch();
+    return delivery;
+  }
+
+  async getDeliveries(linkId: string, webhookId: string, userId: string): Promise<WebhookDelivery[]> {
+    await this.getOwnedWebhook(linkId, webhookId, userId);
+    return this.deliveryModel.findByWebhookId(webhookId, DELIVERY_LOG_LIMIT);
+  }
+
+  /**
+   * Queue a delivery to every endpoint on the link. Never throws: a failure
+   * here must not fail the message send that triggered it.
+   */
+  async notify(
+    event: Exclude<WebhookEvent, 'webhook.test'>,
+    linkId: string,
+    threadId: string,
+    senderType: 'anonymous' | 'owner'
+  ): Promise<void> {
+    try {
+      const webhooks = await this.webhookModel.findByLinkId(linkId);
+      if (webhooks.length === 0) return;
+
+      await this.deliveryModel.enqueue(webhooks.map((w) => w.webhook_id), {
+        event,
+        link_id: linkId,
+        thread_id: threadId,
+        sender_type: senderType,
+        timestamp: Date.now(),
+      });
+      void webhookDispatcher.dispatch();
+    } catch (error) {
+      logger.warn('Failed to queue webhook deliveries', { link_id: linkId, error: (error as Error).message });
+    }
+  }
+
+  private async getOwnedLink(linkId: string, userId: string): Promise<void> {
+    const link = await this.linkModel.findById(linkId);
+    if (!link) {
+      throw new NotFoundError('Link');
+    }
+
+    if (link.owner_user_id !== userId) {
+      throw new AuthorizationError('Not authorized to manage webhooks for this link');
+    }
+  }
+
+  private async getOwnedWebhook(linkId: string, webhookId: string, userId: string): Promise<Webhook> {
+    await this.getOwnedLink(linkId, userId);
+
+    const webhook = await this.webhookModel.findById(webhookId);
+    if (!webhook || webhook.link_id !== linkId) {
+      throw new NotFoundError('Webhook');
+    }
+    return webhook;
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Error Utilities
  * Custom error classes for application
- * File size: ~95 lines
+ * File size: ~145 lines
  */
 
 export class AppError extends Error {
@@ -61,3 +61,96 @@ export class InternalError extends AppError {
     super(message, 500, 'INTERNAL_ERROR', false);
   }
 }
+
+/**
+ * The X-Device-Id on the request names a device the owner revoked;
+ * clients wipe their local keys and sign out on this code
+ */
+export class DeviceRevokedError extends AppError {
+  constructor(message: string = 'This device has been revoked') {
+    super(message, 403, 'DEVICE_REVOKED');
+  }
+}
+
+/**
+ * Dashboard request without one of the owner's registered devices in
+ * X-Device-Id; clients register (again) on this code
+ */
+export class DeviceRequiredError extends AppError {
+  constructor(message: string = 'Register this device first') {
+    super(message, 403, 'DEVICE_REQUIRED');
+  }
+}
+
+/**
+ * If-Match named a version that is no longer current; re-read, merge and retry
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string = 'Resource changed since it was read') {
+    super(message, 412, 'PRECONDITION_FAILED');
+  }
+}
+
+/**
+ * A conditional write was sent without If-Match
+ */
+export class PreconditionRequiredError extends AppError {
+  constructor(message: string = 'If-Match header required') {
+    super(message, 428, 'PRECONDITION_REQUIRED');
+  }
+}
+
+/**
+ * The link is paused by its owner, has reached its thread limit, or is
+ * outside its open hours; senders are told to try again later
+ */
+export class LinkPausedError extends AppError {
+  constructor(message: string = 'This link is not accepting new messages right now') {
+    super(message, 403, 'LINK_PAUSED');
+  }
+}
+
+/**
+ * The link's new-thread allowance for the last 24 hours is used up
+ */
+export class LinkQuotaExceededError extends AppError {
+  constructor(message: string = 'This link has received too many new messages today') {
+    super(message, 429, 'LINK_QUOTA_EXCEEDED');
+  }
+}
+
+/**
+ * The send's proof-of-work solution is missing, wrong, expired or already
+ * used; the client fetches a fresh challenge and solves it again
+ */
+export class ChallengeFailedError extends AppError {
+  constructor(message: string = 'Proof-of-work challenge missing or invalid') {
+    super(message, 403, 'CHALLENGE_FAILED');
+  }
+}
+
+/**
+ * Wrong OPSEC passphrase (first send or thread unlock); `attempts_remaining`
+ * says how many more a thread allows before it burns itself
+ */
+export class InvalidPassphraseError extends AppError {
+  constructor(attemptsRemaining?: number) {
+    super('Incorrect passphrase', 401, 'INVALID_PASSPHRASE');
+    Object.defineProperty(this, 'details', {
+      value: attemptsRemaining === undefined ? undefined : { attempts_remaining: attemptsRemaining },
+    });
+  }
+}
+
+/**
+ * Too many wrong passphrases; no guesses are checked until the backoff ends
+ */
+export class LockedOutError extends AppError {
+  public readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super('Too many incorrect passphrases. Try again later.', 429, 'LOCKED_OUT');
+    this.retryAfterSeconds = retryAfterSeconds;
+    Object.defineProperty(this, 'details', { value: { retry_after: retryAfterSeconds } });
+  }
+}
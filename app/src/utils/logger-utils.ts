@@ -5,6 +5,7 @@
  */
 
 import { logger } from '../config/logger';
+import { metrics } from '../config/metrics';
 import { Request } from 'express';
 
 export interface LogContext {
@@ -76,9 +77,10 @@ export class LoggerUtils {
   }
 
   /**
-   * Log business metric
+   * Log business metric (CloudWatch metric filters) and count it for /metrics
    */
   static logMetric(metricName: string, value: number, unit: string): void {
+    metrics.increment(metricName, value);
     logger.info('Business metric', {
       metric_name: metricName,
       metric_value: value,
@@ -0,0 +1,39 @@
+/**
+ * Time Utilities
+ * Daily HH:MM windows evaluated in an owner's IANA time zone
+ */
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export class TimeUtils {
+  /**
+   * Minutes past midnight at `at` on the wall clock of `timeZone`
+   */
+  static localMinutes(timeZone: string, at: Date = new Date()): number {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const part = (type: string): number => Number(parts.find((p) => p.type === type)?.value ?? 0);
+    return part('hour') * 60 + part('minute');
+  }
+
+  /**
+   * Whether `at` falls inside the daily window start–end (HH:MM) in
+   * `timeZone`. Equal start and end mean all day; an end before the start
+   * runs past midnight.
+   */
+  static isWithinDailyWindow(start: string, end: string, timeZone: string, at: Date = new Date()): boolean {
+    const from = toMinutes(start);
+    const to = toMinutes(end);
+    if (from === to) return true;
+
+    const current = TimeUtils.localMinutes(timeZone, at);
+    return from < to ? current >= from && current < to : current >= from || current < to;
+  }
+}
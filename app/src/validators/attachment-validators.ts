@@ -0,0 +1,37 @@
+/**
+ * Attachment Validators
+ * Joi schemas for encrypted attachment uploads
+ */
+
+import Joi from 'joi';
+
+/** Largest ciphertext accepted per attachment (10 MiB) */
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+/**
+ * Attachment ids a message claims (shared by thread and room message schemas)
+ */
+export const attachmentIdsField = Joi.array()
+  .items(Joi.string().uuid())
+  .max(MAX_ATTACHMENTS_PER_MESSAGE)
+  .unique()
+  .optional();
+
+/**
+ * Schema for reserving an upload: link-scoped (anonymous sender or owner
+ * replying) or room-scoped (approved participant)
+ */
+export const createAttachmentSchema = Joi.object({
+  size_bytes: Joi.number().integer().min(1).max(MAX_ATTACHMENT_BYTES).required(),
+  link_id: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).min(8).max(16),
+  room_id: Joi.string().uuid(),
+  anonymous_id: Joi.string().min(8).max(64).when('room_id', { is: Joi.exist(), then: Joi.required() }),
+}).xor('link_id', 'room_id');
+
+/**
+ * Schema for attachment ID parameter
+ */
+export const attachmentIdSchema = Joi.object({
+  attachment_id: Joi.string().uuid().required(),
+});
@@ -0,0 +1,29 @@
+/**
+ * Auto-Reply Validators
+ * Joi schemas for per-link auto-replies
+ */
+
+import Joi from 'joi';
+import { clockTimeField, timeZoneField, bothOrNeither, windowMessages } from './time-validators';
+
+/**
+ * Schema for setting a link's auto-reply. The template is E2EE ciphertext
+ * (encrypted to the link public key); quiet hours are both set or both null.
+ */
+export const saveAutoReplySchema = Joi.object({
+  enabled: Joi.boolean().default(true),
+  template_ciphertext: Joi.string().min(1).max(10000).required(),
+  first_message_only: Joi.boolean().default(true),
+  quiet_hours_start: clockTimeField.allow(null).default(null),
+  quiet_hours_end: clockTimeField.allow(null).default(null),
+  time_zone: timeZoneField.default('UTC'),
+})
+  .custom(bothOrNeither('quiet_hours_start', 'quiet_hours_end'))
+  .messages(windowMessages);
+
+/**
+ * Schema for sending the auto-reply into a flagged thread
+ */
+export const sendAutoReplySchema = Joi.object({
+  ciphertext: Joi.string().min(1).max(10000).required(),
+});
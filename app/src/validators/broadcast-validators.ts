@@ -9,6 +9,8 @@ export const createBroadcastChannelSchema = Joi.object({
   display_name: Joi.string().min(1).max(100).required().trim(),
   expires_at: Joi.date().iso().optional().allow(null),
   allow_guest_posts: Joi.boolean().optional().default(false),
+  moderate_guest_posts: Joi.boolean().optional().default(false),
+  public_feed: Joi.boolean().optional().default(false),
 });
 
 export const channelIdSchema = Joi.object({
@@ -18,6 +20,61 @@ export const channelIdSchema = Joi.object({
 export const addPostSchema = Joi.object({
   post_token: Joi.string().min(1).max(256).optional(),
   content: Joi.string().min(1).max(10000).required().trim(),
+  guest_key: Joi.string().min(16).max(128).pattern(/^[A-Za-z0-9_-]+$/).optional(),
+  publish_at: Joi.date().iso().greater('now').optional(),
+  expires_at: Joi.date().iso().greater('now').optional()
+    .when('publish_at', { is: Joi.exist(), then: Joi.date().greater(Joi.ref('publish_at')) }),
+});
+
+export const postIdSchema = Joi.object({
+  channel_id: Joi.string().min(1).max(16).pattern(/^[A-Za-z0-9_-]+$/).required(),
+  post_id: Joi.string().uuid().required(),
+});
+
+export const updatePostSchema = Joi.object({
+  post_token: Joi.string().min(1).max(256).optional(),
+  content: Joi.string().min(1).max(10000).optional().trim(),
+  pinned: Joi.boolean().optional(),
+}).or('content', 'pinned');
+
+export const deletePostSchema = Joi.object({
+  post_token: Joi.string().min(1).max(256).optional(),
+});
+
+const postIdList = Joi.array().items(Joi.string().uuid()).max(100).unique().default([]);
+
+export const moderatePostsSchema = Joi.object({
+  post_token: Joi.string().min(1).max(256).optional(),
+  approve: postIdList,
+  reject: postIdList,
+  trust_authors: Joi.boolean().optional().default(false),
+});
+
+export const moderationSettingsSchema = Joi.object({
+  post_token: Joi.string().min(1).max(256).optional(),
+  moderate_guest_posts: Joi.boolean().optional(),
+  clear_trusted_guests: Joi.boolean().optional(),
+}).or('moderate_guest_posts', 'clear_trusted_guests');
+
+export const tokenIdSchema = Joi.object({
+  channel_id: Joi.string().min(1).max(16).pattern(/^[A-Za-z0-9_-]+$/).required(),
+  token_id: Joi.string().uuid().required(),
+});
+
+export const mintTokenSchema = Joi.object({
+  post_token: Joi.string().min(1).max(256).optional(),
+  label: Joi.string().min(1).max(50).required().trim(),
+  scopes: Joi.array().items(Joi.string().valid('post', 'moderate', 'burn')).min(1).unique().required(),
+  expires_at: Joi.date().iso().greater('now').optional().allow(null),
+});
+
+export const revokeTokenSchema = Joi.object({
+  post_token: Joi.string().min(1).max(256).optional(),
+});
+
+export const feedParamsSchema = Joi.object({
+  channel_id: Joi.string().min(1).max(16).pattern(/^[A-Za-z0-9_-]+$/).required(),
+  format: Joi.string().valid('atom', 'rss', 'json').required(),
 });
 
 export const burnChannelSchema = Joi.object({
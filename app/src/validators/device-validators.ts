@@ -0,0 +1,51 @@
+/**
+ * Device Validators
+ * Joi schemas for owner devices and device linking
+ */
+
+import Joi from 'joi';
+
+/** Encrypted key bundles are base64 ECIES ciphertext; 1 MB leaves room for every link, room and channel key */
+const MAX_BUNDLE_LENGTH = 1_000_000;
+
+/**
+ * Schema for registering a device
+ */
+export const registerDeviceSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+});
+
+/**
+ * Schema for the device ID parameter
+ */
+export const deviceIdSchema = Joi.object({
+  device_id: Joi.string().uuid().required(),
+});
+
+/**
+ * Schema for opening a link session (new device's ephemeral public key)
+ */
+export const startLinkSchema = Joi.object({
+  public_key: Joi.string().base64().max(100).required(),
+});
+
+/**
+ * Schema for the link session ID parameter
+ */
+export const linkSessionIdSchema = Joi.object({
+  session_id: Joi.string().uuid().required(),
+});
+
+/**
+ * Schema for the pairing code parameter (dashes and lowercase allowed)
+ */
+export const pairingCodeSchema = Joi.object({
+  pairing_code: Joi.string().pattern(/^[0-9A-Za-z-]{12,14}$/).required(),
+});
+
+/**
+ * Schema for delivering the encrypted key bundle
+ */
+export const deliverBundleSchema = Joi.object({
+  bundle: Joi.string().base64().max(MAX_BUNDLE_LENGTH).required(),
+});
@@ -0,0 +1,23 @@
+/**
+ * Key Bundle Validators
+ * Joi schemas for the account-wide encrypted key backup
+ */
+
+import Joi from 'joi';
+
+/** Base64 AES-GCM ciphertext of the JSON bundle; sized like the device-link bundle */
+const MAX_CIPHERTEXT_LENGTH = 1_000_000;
+
+/**
+ * Schema for storing the bundle (If-Match carries the version it was merged from)
+ */
+export const saveKeyBundleSchema = Joi.object({
+  ciphertext: Joi.string().base64().max(MAX_CIPHERTEXT_LENGTH).required(),
+  salt: Joi.string().hex().max(128).required(),
+  iv: Joi.string().hex().max(128).required(),
+  migrated_link_ids: Joi.array()
+    .items(Joi.string().pattern(/^[A-Za-z0-9_-]+$/).min(8).max(16))
+    .max(100)
+    .unique()
+    .default([]),
+});
@@ -1,10 +1,23 @@
 /**
  * Link Validators
  * Joi schemas for link validation
- * File size: ~85 lines
+ * File size: ~100 lines
  */
 
 import Joi from 'joi';
+import { clockTimeField, timeZoneField, bothOrNeither, windowMessages } from './time-validators';
+
+/**
+ * Access policy fields shared by create and update; null clears a limit
+ */
+const linkPolicyFields = {
+  paused: Joi.boolean().optional(),
+  max_threads_per_day: Joi.number().integer().min(1).max(10000).allow(null).optional(),
+  max_threads: Joi.number().integer().min(1).max(100000).allow(null).optional(),
+  open_hours_start: clockTimeField.allow(null).optional(),
+  open_hours_end: clockTimeField.allow(null).optional(),
+  time_zone: timeZoneField.optional(),
+};
 
 /**
  * Schema for creating a new link
@@ -18,7 +31,8 @@ export const createLinkSchema = Joi.object({
   opsec_access: Joi.string().valid('device_bound', 'single_use')
     .when('opsec_mode', { is: true, then: Joi.required(), otherwise: Joi.optional() }),
   opsec_passphrase: Joi.string().min(4).max(128).optional(),
-});
+  ...linkPolicyFields,
+}).custom(bothOrNeither('open_hours_start', 'open_hours_end')).messages(windowMessages);
 
 /**
  * Schema for updating a link
@@ -27,7 +41,9 @@ export const updateLinkSchema = Joi.object({
   display_name: Joi.string().min(1).max(100).optional().trim(),
   description: Joi.string().max(500).optional().allow('').trim(),
   expires_in_days: Joi.number().integer().min(1).max(365).optional(),
-}).min(1); // At least one field required
+  ...linkPolicyFields,
+}).min(1) // At least one field required
+  .custom(bothOrNeither('open_hours_start', 'open_hours_end')).messages(windowMessages);
 
 /**
  * Schema for link ID parameter
@@ -5,6 +5,7 @@
  */
 
 import Joi from 'joi';
+import { attachmentIdsField } from './attachment-validators';
 
 /**
  * Schema for sending anonymous message (E2EE only)
@@ -15,6 +16,12 @@ export const sendMessageSchema = Joi.object({
   sender_public_key: Joi.string().min(1).max(500).required(),
   captcha_token: Joi.string().optional(), // WAF CAPTCHA token
   passphrase: Joi.string().min(1).max(128), // OPSEC passphrase (required for passphrase-gated links)
+  attachment_ids: attachmentIdsField,
+  // Solved proof-of-work challenge (required when SEND_CHALLENGE_ENABLED=true)
+  pow: Joi.object({
+    challenge: Joi.string().max(200).required(),
+    nonce: Joi.string().pattern(/^\d{1,16}$/).required(),
+  }).optional(),
 });
 
 /**
@@ -22,6 +29,7 @@ export const sendMessageSchema = Joi.object({
  */
 export const replyMessageSchema = Joi.object({
   ciphertext: Joi.string().min(1).max(10000).required(),
+  attachment_ids: attachmentIdsField,
 });
 
 /**
@@ -4,22 +4,38 @@
  */
 
 import Joi from 'joi';
+import { attachmentIdsField } from './attachment-validators';
 
 export const createRoomSchema = Joi.object({
   display_name: Joi.string().min(1).max(100).required().trim(),
   description: Joi.string().max(500).optional().allow('').trim(),
-  join_window_minutes: Joi.number().integer().min(5).max(60).optional().default(15),
-  max_participants: Joi.number().integer().min(2).max(10).optional().default(10),
+  // Upper bounds are the database ceilings; the deployment's limits apply in RoomService
+  join_window_minutes: Joi.number().integer().min(5).max(1440).optional().default(15),
+  lifespan_hours: Joi.number().integer().min(1).max(720).optional(),
+  max_participants: Joi.number().integer().min(2).max(200).optional().default(10),
   auto_approve: Joi.boolean().optional().default(false),
   group_public_key: Joi.string().min(1).max(500).required(),
   creator_public_key: Joi.string().min(1).max(500).required(),
   creator_wrapped_group_key: Joi.string().min(1).max(4096).required(),
 });
 
+export const extendRoomSchema = Joi.object({
+  hours: Joi.number().integer().min(1).max(720).required(),
+});
+
+export const reopenRoomSchema = Joi.object({
+  join_window_minutes: Joi.number().integer().min(5).max(1440).optional().default(15),
+});
+
 export const roomIdSchema = Joi.object({
   room_id: Joi.string().uuid().required(),
 });
 
+export const roomMessageIdSchema = Joi.object({
+  room_id: Joi.string().uuid().required(),
+  message_id: Joi.string().uuid().required(),
+});
+
 export const participantIdSchema = Joi.object({
   room_id: Joi.string().uuid().required(),
   participant_id: Joi.string().uuid().required(),
@@ -31,7 +47,7 @@ export const inviteIdSchema = Joi.object({
 });
 
 export const generateInvitesSchema = Joi.object({
-  count: Joi.number().integer().min(1).max(10).required(),
+  count: Joi.number().integer().min(1).max(50).required(),
   labels: Joi.array().items(Joi.string().max(50)).optional(),
 });
 
@@ -39,6 +55,45 @@ export const approveParticipantSchema = Joi.object({
   wrapped_group_key: Joi.string().min(1).max(4096).required(),
 });
 
+/** Wrapped group keys for up to a full room of participants */
+const wrappedKeysField = Joi.array()
+  .items(
+    Joi.object({
+      participant_id: Joi.string().uuid().required(),
+      wrapped_group_key: Joi.string().min(1).max(4096).required(),
+    })
+  )
+  .max(200);
+
+export const removeParticipantSchema = Joi.object({
+  key_epoch: Joi.number().integer().min(1).required(),
+  wrapped_keys: wrappedKeysField.required(),
+});
+
+export const setKeysSchema = Joi.object({
+  key_epoch: Joi.number().integer().min(0).required(),
+  wrapped_keys: wrappedKeysField.min(1).required(),
+});
+
+/** Same batch submitted by a delegated member */
+export const delegateSetKeysSchema = setKeysSchema.keys({
+  anonymous_id: Joi.string().min(8).max(64).required(),
+});
+
+export const needsKeysQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
+export const delegateNeedsKeysQuerySchema = needsKeysQuerySchema.keys({
+  anonymous_id: Joi.string().min(8).max(64).required(),
+});
+
+export const listParticipantsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  cursor: Joi.string().pattern(/^[^_]+_[0-9a-f-]{36}$/i).optional(), // created_at_participantId
+  status: Joi.string().valid('pending', 'approved', 'rejected', 'removed').optional(),
+});
+
 export const joinRoomSchema = Joi.object({
   invite_token: Joi.string().min(1).max(128).required(),
   public_key: Joi.string().min(1).max(500).required(),
@@ -53,6 +108,20 @@ export const sendRoomMessageSchema = Joi.object({
   anonymous_id: Joi.string().min(8).max(64).required(),
   ciphertext: Joi.string().min(1).max(20000).required(),
   nonce: Joi.string().min(24).max(32).required(),
+  key_epoch: Joi.number().integer().min(0).optional().default(0),
+  attachment_ids: attachmentIdsField,
+});
+
+export const editRoomMessageSchema = Joi.object({
+  anonymous_id: Joi.string().min(8).max(64).required(),
+  ciphertext: Joi.string().min(1).max(20000).required(),
+  nonce: Joi.string().min(24).max(32).required(),
+  key_epoch: Joi.number().integer().min(0).optional().default(0),
+});
+
+/** Identifies the acting participant (body of DELETE, query of single-message GET) */
+export const roomParticipantSchema = Joi.object({
+  anonymous_id: Joi.string().min(8).max(64).required(),
 });
 
 export const getRoomMessagesQuerySchema = Joi.object({
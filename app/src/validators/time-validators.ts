@@ -0,0 +1,38 @@
+/**
+ * Time Validators
+ * Shared Joi fields for daily HH:MM windows and IANA time zones
+ */
+
+import Joi from 'joi';
+
+/** 24-hour HH:MM */
+export const clockTimeField = Joi.string()
+  .pattern(/^([01]\d|2[0-3]):[0-5]\d$/)
+  .messages({ 'string.pattern.base': '{{#label}} must be a 24-hour HH:MM time' });
+
+/** IANA zone names the runtime can resolve, e.g. Europe/Berlin */
+export const timeZoneField = Joi.string()
+  .max(64)
+  .custom((value: string, helpers) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return value;
+    } catch {
+      return helpers.error('any.invalid');
+    }
+  }, 'IANA time zone')
+  .messages({ 'any.invalid': '{{#label}} must be an IANA time zone' });
+
+/**
+ * Object-level rule for a daily window: start and end are sent together and
+ * are both times or both null. Pair with windowMessages.
+ */
+export function bothOrNeither(start: string, end: string): Joi.CustomValidator<Record<string, unknown>> {
+  return (value, helpers) => {
+    const sentTogether = (start in value) === (end in value);
+    const setTogether = (value[start] == null) === (value[end] == null);
+    return sentTogether && setTogether ? value : helpers.error('object.window', { start, end });
+  };
+}
+
+export const windowMessages = { 'object.window': '{{#start}} and {{#end}} must be set together' };
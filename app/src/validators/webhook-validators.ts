@@ -0,0 +1,38 @@
+/**
+ * Webhook Validators
+ * Joi schemas for per-link webhook endpoints
+ */
+
+import Joi from 'joi';
+import net from 'net';
+
+/**
+ * Public HTTPS endpoints only: no IP literals or local hostnames, so a
+ * webhook can't be pointed at whatever the delivery proxy can reach
+ */
+const webhookUrl = Joi.string()
+  .uri({ scheme: ['https'] })
+  .max(2048)
+  .custom((value: string, helpers) => {
+    const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (net.isIP(hostname) || hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)) {
+      return helpers.error('any.invalid');
+    }
+    return value;
+  }, 'public host')
+  .messages({ 'any.invalid': '{{#label}} must be a public https URL' });
+
+/**
+ * Schema for registering a webhook
+ */
+export const createWebhookSchema = Joi.object({
+  url: webhookUrl.required(),
+});
+
+/**
+ * Schema for link + webhook ID parameters
+ */
+export const webhookParamsSchema = Joi.object({
+  link_id: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).min(8).max(16).required(),
+  webhook_id: Joi.string().uuid().required(),
+});
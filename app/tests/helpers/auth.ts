@@ -0,0 +1,31 @@
+/**
+ * Test Identities
+ * tests/setup.ts swaps Cognito's verifier for this one in every suite, so the
+ * two bearer tokens below sign in offline (no user pool JWKS fetch). Any
+ * other token is rejected like a bad signature.
+ */
+
+export const OWNER_ID = 'test-owner';
+export const OTHER_ID = 'someone-else';
+
+export const OWNER: Record<string, string> = { Authorization: 'Bearer owner-token' };
+export const OTHER: Record<string, string> = { Authorization: 'Bearer other-token' };
+
+/** iat of the tokens the verifier hands out; move it forward to sign in again */
+export const session = { issuedAt: Math.floor(Date.now() / 1000) };
+
+const IDENTITIES: Record<string, { sub: string; email: string }> = {
+  'owner-token': { sub: OWNER_ID, email: 'owner@example.com' },
+  'other-token': { sub: OTHER_ID, email: 'other@example.com' },
+};
+
+/** Stand-in for aws-jwt-verify's CognitoJwtVerifier */
+export const TestJwtVerifier = {
+  create: () => ({
+    verify: async (token: string) => {
+      const identity = IDENTITIES[token];
+      if (!identity) throw new Error('Invalid token');
+      return { ...identity, iat: session.issuedAt };
+    },
+  }),
+};
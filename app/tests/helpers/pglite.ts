@@ -0,0 +1,72 @@
+/**
+ * PGlite Test Database
+ * Real Postgres (PGlite in a child process) with every migration applied,
+ * handed to the models through the same pool accessor they use in production
+ */
+
+import { fork, ChildProcess } from 'child_process';
+import path from 'path';
+import { Pool } from 'pg';
+import { databaseConfig } from '../../src/config/database';
+
+interface WorkerReply {
+  id?: number;
+  ready?: boolean;
+  rows?: Record<string, unknown>[];
+  rowCount?: number;
+  error?: { message: string; code?: string };
+}
+
+export interface TestDatabase {
+  query: (text: string, params?: unknown[]) => Promise<{ rows: Record<string, unknown>[]; rowCount: number }>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a fresh database and point getDb() at it until close()
+ */
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const worker: ChildProcess = fork(path.join(__dirname, 'pglite-worker.js'), [], {
+    serialization: 'advanced',
+    stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+  });
+  const pending = new Map<number, { resolve: (reply: WorkerReply) => void }>();
+  let nextId = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    worker.once('message', (reply: WorkerReply) =>
+      reply.ready ? resolve() : reject(new Error(reply.error?.message || 'PGlite failed to start'))
+    );
+    worker.once('error', reject);
+  });
+  worker.on('message', (reply: WorkerReply) => {
+    if (reply.id === undefined) return;
+    pending.get(reply.id)?.resolve(reply);
+    pending.delete(reply.id);
+  });
+
+  const query: TestDatabase['query'] = async (text, params = []) => {
+    const id = nextId++;
+    const reply = await new Promise<WorkerReply>((resolve) => {
+      pending.set(id, { resolve });
+      worker.send({ id, text, params });
+    });
+    if (reply.error) {
+      throw Object.assign(new Error(reply.error.message), { code: reply.error.code });
+    }
+    return { rows: reply.rows ?? [], rowCount: reply.rowCount ?? 0 };
+  };
+
+  const pool = { query, connect: async () => ({ query, release: () => undefined }) } as unknown as Pool;
+  const getPool = jest.spyOn(databaseConfig, 'getPool').mockReturnValue(pool);
+
+  return {
+    query,
+    close: async () => {
+      getPool.mockRestore();
+      const exited = new Promise((resolve) => worker.once('exit', resolve));
+      worker.disconnect();
+      await exited;
+    },
+  };
+}
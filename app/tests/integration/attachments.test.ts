@@ -0,0 +1,123 @@
+/**
+ * Attachment Integration Tests
+ * Filesystem object store (S3 stand-in) and attachment claiming/purging
+ * against a mocked pg client
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../src/config/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    log: jest.fn(),
+  },
+}));
+
+const mockQuery = jest.fn();
+jest.mock('../../src/config/database', () => ({
+  getDb: jest.fn(() => ({ query: mockQuery })),
+}));
+
+const storageRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'burnware-objects-'));
+process.env.STORAGE_DRIVER = 'fs';
+process.env.STORAGE_FS_ROOT = storageRoot;
+process.env.ATTACHMENT_BUCKET = 'test-attachments';
+
+import { FsObjectStore } from '../../src/services/object-store';
+import { AttachmentService, getAttachmentStore } from '../../src/services/attachment-service';
+import { ValidationError } from '../../src/utils/error-utils';
+
+const LINK = 'abcdefgh1234';
+const THREAD = '123e4567-e89b-12d3-a456-426614174000';
+const A1 = '123e4567-e89b-12d3-a456-426614174001';
+const A2 = '123e4567-e89b-12d3-a456-426614174002';
+
+/** Query string of a signed URL as a plain object */
+function signedQuery(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url).searchParams.entries());
+}
+
+afterAll(() => {
+  fs.rmSync(storageRoot, { recursive: true, force: true });
+});
+
+describe('FsObjectStore', () => {
+  const store = new FsObjectStore('test-bucket', storageRoot);
+
+  it('stores, reads and deletes objects', async () => {
+    await store.put('attachments/one', Buffer.from('ciphertext'), { contentType: 'application/octet-stream' });
+    expect((await store.get('attachments/one')).toString()).toBe('ciphertext');
+
+    await store.deleteMany(['attachments/one', 'attachments/missing']);
+    await expect(store.get('attachments/one')).rejects.toThrow();
+  });
+
+  it('refuses keys that escape the bucket directory', async () => {
+    await expect(store.put('../outside', Buffer.from('x'))).rejects.toThrow('Invalid object key');
+  });
+
+  it('signs PUT URLs for one method, key and content length', async () => {
+    const url = await store.presignPut('attachments/two', 42, 300);
+    const query = signedQuery(url);
+
+    expect(store.verify('PUT', 'attachments/two', query)).toEqual({ valid: true, contentLength: 42 });
+    expect(store.verify('GET', 'attachments/two', query).valid).toBe(false);
+    expect(store.verify('PUT', 'attachments/other', query).valid).toBe(false);
+    expect(store.verify('PUT', 'attachments/two', { ...query, length: '43' }).valid).toBe(false);
+  });
+
+  it('rejects expired URLs', async () => {
+    const query = signedQuery(await store.presignGet('attachments/three', -1));
+    expect(store.verify('GET', 'attachments/three', query).valid).toBe(false);
+  });
+});
+
+describe('AttachmentService', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('claims link uploads for a thread and rejects ids it could not claim', async () => {
+    const service = new AttachmentService();
+
+    mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 2 });
+    await service.claimForThread([A1, A2, A1], LINK, THREAD);
+    expect(mockQuery.mock.calls[0][1]).toEqual([[A1, A2], LINK, THREAD]);
+
+    mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+    await expect(service.claimForThread([A1, A2], LINK, THREAD)).rejects.toThrow(ValidationError);
+
+    await service.claimForThread(undefined, LINK, THREAD);
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('purges objects before deleting their rows', async () => {
+    const store = getAttachmentStore();
+    await store.put('attachments/burn-me', Buffer.from('x'), { contentType: 'application/octet-stream' });
+
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('SELECT object_key')) return { rows: [{ object_key: 'attachments/burn-me' }] };
+      return { rows: [], rowCount: 1 };
+    });
+
+    const purged = await new AttachmentService().purge('thread_id', THREAD);
+
+    expect(purged).toBe(1);
+    await expect(store.get('attachments/burn-me')).rejects.toThrow();
+    const [, del] = mockQuery.mock.calls;
+    expect(del[0]).toContain('DELETE FROM attachments');
+    expect(del[1]).toEqual([['attachments/burn-me']]);
+  });
+
+  it('keeps rows for the reaper when the object store fails', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ object_key: '../escape' }] });
+
+    expect(await new AttachmentService().purge('room_id', THREAD)).toBe(0);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
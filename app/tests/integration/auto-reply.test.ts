@@ -0,0 +1,146 @@
+/**
+ * Link Auto-Reply Integration Tests
+ * New threads are flagged for the owner client, which claims the flag and
+ * posts the (client-encrypted) reply once; quiet hours and first-message-only
+ * decide which sender messages are due one
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import { isWithinQuietHours } from '../../src/services/auto-reply-service';
+import { OWNER, OTHER, OWNER_ID } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+const LINK = 'awaylink1234';
+const PENDING = '/api/v1/dashboard/auto-replies/pending';
+
+describe('Link auto-reply', () => {
+  const app = createServer();
+  const base = `/api/v1/dashboard/links/${LINK}/auto-reply`;
+
+  // Dashboard routes need one of the owner's registered devices
+  beforeAll(async () => {
+    for (const auth of [OWNER, OTHER]) {
+      const device = await request(app).post('/api/v1/dashboard/devices').set(auth).send({ name: 'Test browser' });
+      auth['X-Device-Id'] = device.body.data.device_id;
+    }
+  });
+
+  async function send(): Promise<string> {
+    const sent = await request(app).post('/api/v1/send').send({
+      recipient_link_id: LINK,
+      ciphertext: 'hello-ciphertext',
+      sender_public_key: 'sender-pk',
+    });
+    expect(sent.status).toBe(201);
+    return sent.body.data.thread_id;
+  }
+
+  async function pendingThreads(): Promise<string[]> {
+    const response = await request(app).get(PENDING).set(OWNER);
+    return response.body.data.map((p: { thread_id: string }) => p.thread_id);
+  }
+
+  beforeAll(async () => {
+    await getRepositories().links.create({
+      link_id: LINK,
+      owner_user_id: OWNER_ID,
+      display_name: 'Away',
+      public_key: 'pk',
+    });
+  });
+
+  it('keeps the auto-reply to the link owner and validates quiet hours', async () => {
+    expect((await request(app).get(base).set(OWNER)).body.data).toBeNull();
+    expect((await request(app).put(base).set(OTHER).send({ template_ciphertext: 'x' })).status).toBe(403);
+    expect((await request(app).put(base).set(OWNER)
+      .send({ template_ciphertext: 'x', quiet_hours_start: '22:00' })).status).toBe(400);
+    expect((await request(app).put(base).set(OWNER)
+      .send({ template_ciphertext: 'x', quiet_hours_start: '25:00', quiet_hours_end: '07:00' })).status).toBe(400);
+    expect((await request(app).put(base).set(OWNER)
+      .send({ template_ciphertext: 'x', time_zone: 'Mars/Olympus' })).status).toBe(400);
+  });
+
+  it('flags a new thread and lets exactly one owner device send the reply', async () => {
+    const saved = await request(app).put(base).set(OWNER).send({ template_ciphertext: 'away-template' });
+    expect(saved.status).toBe(200);
+    expect(saved.body.data).toMatchObject({ enabled: true, first_message_only: true, time_zone: 'UTC' });
+
+    const threadId = await send();
+    const pending = await request(app).get(PENDING).set(OWNER);
+    expect(pending.body.data).toEqual([{
+      thread_id: threadId,
+      link_id: LINK,
+      sender_public_key: 'sender-pk',
+      template_ciphertext: 'away-template',
+    }]);
+    expect((await request(app).get(PENDING).set(OTHER)).body.data).toEqual([]);
+
+    const url = `/api/v1/dashboard/threads/${threadId}/auto-reply`;
+    expect((await request(app).post(url).set(OTHER).send({ ciphertext: 'reply' })).status).toBe(404);
+    const first = await request(app).post(url).set(OWNER).send({ ciphertext: 'reply-for-sender' });
+    expect(first.status).toBe(201);
+    expect(first.body.data.sent).toBe(true);
+    const second = await request(app).post(url).set(OWNER).send({ ciphertext: 'reply-for-sender' });
+    expect(second.status).toBe(200);
+    expect(second.body.data).toEqual({ sent: false });
+
+    const messages = await getRepositories().messages.findByThreadId(threadId, 10, 0);
+    expect(messages.filter((m) => m.sender_type === 'owner').map((m) => m.content)).toEqual(['reply-for-sender']);
+    expect(await pendingThreads()).toEqual([]);
+
+    // First message only: the follow-up gets no second auto-reply
+    await request(app).post(`/api/v1/thread/${threadId}/reply`).send({ ciphertext: 'follow-up' }).expect(201);
+    expect(await pendingThreads()).toEqual([]);
+  });
+
+  it('replies to follow-ups too when first_message_only is off, until the owner answers', async () => {
+    await request(app).put(base).set(OWNER)
+      .send({ template_ciphertext: 'away-template', first_message_only: false }).expect(200);
+    const threadId = await send();
+    await request(app).post(`/api/v1/dashboard/threads/${threadId}/auto-reply`).set(OWNER)
+      .send({ ciphertext: 'auto' }).expect(201);
+
+    await request(app).post(`/api/v1/thread/${threadId}/reply`).send({ ciphertext: 'follow-up' }).expect(201);
+    expect(await pendingThreads()).toEqual([threadId]);
+
+    await request(app).post(`/api/v1/dashboard/threads/${threadId}/reply`).set(OWNER)
+      .send({ ciphertext: 'typed by hand' }).expect(201);
+    expect(await pendingThreads()).toEqual([]);
+  });
+
+  it('only flags threads inside quiet hours, and nothing once disabled or removed', async () => {
+    const hour = new Date().getUTCHours();
+    const outside = `${String((hour + 2) % 24).padStart(2, '0')}:00`;
+    const outsideEnd = `${String((hour + 3) % 24).padStart(2, '0')}:00`;
+    await request(app).put(base).set(OWNER).send({
+      template_ciphertext: 'away-template', quiet_hours_start: outside, quiet_hours_end: outsideEnd,
+    }).expect(200);
+    await send();
+    expect(await pendingThreads()).toEqual([]);
+
+    await request(app).put(base).set(OWNER)
+      .send({ template_ciphertext: 'away-template', enabled: false }).expect(200);
+    await send();
+    expect(await pendingThreads()).toEqual([]);
+
+    await request(app).delete(base).set(OWNER).expect(204);
+    await request(app).delete(base).set(OWNER).expect(404);
+    await send();
+    expect(await pendingThreads()).toEqual([]);
+  });
+
+  it('evaluates quiet hours in the configured time zone, across midnight', () => {
+    const at = new Date('2026-01-15T23:30:00Z');
+    const overnight = { quiet_hours_start: '22:00', quiet_hours_end: '07:00' };
+
+    expect(isWithinQuietHours({ ...overnight, time_zone: 'UTC' }, at)).toBe(true);
+    expect(isWithinQuietHours({ ...overnight, time_zone: 'Asia/Tokyo' }, at)).toBe(false); // 08:30
+    expect(isWithinQuietHours({ ...overnight, time_zone: 'America/New_York' }, at)).toBe(false); // 18:30
+    expect(isWithinQuietHours({ quiet_hours_start: '08:00', quiet_hours_end: '09:00', time_zone: 'Asia/Tokyo' }, at))
+      .toBe(true);
+    expect(isWithinQuietHours({ quiet_hours_start: null, quiet_hours_end: null, time_zone: 'UTC' }, at)).toBe(true);
+  });
+});
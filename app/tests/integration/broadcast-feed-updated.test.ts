@@ -0,0 +1,62 @@
+/**
+ * Broadcast Feed Last-Modified Tests
+ * The 027 trigger moves broadcast_channels.feed_updated_at on every change to
+ * a published post, against real SQL in PGlite
+ */
+
+import { startTestDatabase, TestDatabase } from '../helpers/pglite';
+import { BroadcastChannelModel } from '../../src/models/broadcast-channel-model';
+import { BroadcastPostModel } from '../../src/models/broadcast-post-model';
+
+const CHANNEL = 'sqlfeedchan1';
+
+describe('broadcast_channels.feed_updated_at (Postgres)', () => {
+  const channels = new BroadcastChannelModel();
+  const posts = new BroadcastPostModel();
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+    await channels.create({ channel_id: CHANNEL, post_token_hash: 'hash', display_name: 'SQL', public_feed: true });
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  async function feedUpdatedAt(): Promise<number> {
+    return (await channels.findByChannelId(CHANNEL))!.feed_updated_at.getTime();
+  }
+
+  /** Whether running the change moved feed_updated_at */
+  async function touches(change: () => Promise<unknown>): Promise<boolean> {
+    const before = await feedUpdatedAt();
+    await change();
+    return (await feedUpdatedAt()) > before;
+  }
+
+  it('moves on publishing, editing, pinning, unpinning and deleting a post', async () => {
+    let postId = '';
+    expect(await touches(async () => {
+      postId = (await posts.create({ channel_id: CHANNEL, content: 'one' })).post_id;
+    })).toBe(true);
+    expect(await touches(() => posts.update(CHANNEL, postId, { content: 'one, edited' }))).toBe(true);
+    expect(await touches(() => posts.update(CHANNEL, postId, { pinned: true }))).toBe(true);
+    expect(await touches(() => posts.update(CHANNEL, postId, { pinned: false }))).toBe(true);
+    expect(await touches(() => posts.delete(CHANNEL, postId))).toBe(true);
+  });
+
+  it('moves when a pending post is approved or an expired post is deleted, not before', async () => {
+    let pendingId = '';
+    expect(await touches(async () => {
+      pendingId = (await posts.create({ channel_id: CHANNEL, content: 'guest', status: 'pending' })).post_id;
+    })).toBe(false);
+    expect(await touches(() => posts.approvePending(CHANNEL, [pendingId]))).toBe(true);
+
+    await database.query(
+      "UPDATE broadcast_posts SET expires_at = CURRENT_TIMESTAMP - INTERVAL '1 minute' WHERE post_id = $1",
+      [pendingId]
+    );
+    expect(await touches(() => posts.deleteExpired(100))).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Broadcast Feed Integration Tests
+ * Unencrypted (public_feed) channels serve Atom, RSS and JSON Feed with
+ * conditional GET (ETag and Last-Modified) and ?before= paging
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+
+process.env.DATA_STORE = 'memory';
+process.env.BROADCAST_READ_URL_BASE = 'https://feeds.example';
+
+describe('Broadcast feeds', () => {
+  const app = createServer();
+  let channelId: string;
+  let postToken: string;
+
+  async function createChannel(publicFeed: boolean): Promise<{ channel_id: string; post_token: string }> {
+    const created = await request(app).post('/api/v1/broadcast')
+      .send({ display_name: 'Road <closures> & detours', public_feed: publicFeed });
+    expect(created.status).toBe(201);
+    return created.body.data;
+  }
+
+  async function post(content: string): Promise<string> {
+    const response = await request(app).post(`/api/v1/broadcast/${channelId}/posts`)
+      .send({ post_token: postToken, content });
+    expect(response.status).toBe(201);
+    return response.body.data.post_id;
+  }
+
+  beforeAll(async () => {
+    ({ channel_id: channelId, post_token: postToken } = await createChannel(true));
+    for (const content of ['one', 'two', 'three']) await post(content);
+  });
+
+  it('serves escaped Atom and RSS and a JSON Feed', async () => {
+    await post('Main St closed\n<b>until</b> 5pm & later');
+
+    const atom = await request(app).get(`/b/${channelId}/feed.atom`);
+    expect(atom.status).toBe(200);
+    expect(atom.headers['content-type']).toContain('application/atom+xml');
+    expect(atom.text).toContain('<title>Road &lt;closures&gt; &amp; detours</title>');
+    expect(atom.text).toContain('<title>Main St closed</title>');
+    expect(atom.text).toContain('&lt;b&gt;until&lt;/b&gt; 5pm &amp; later');
+    expect(atom.text).toContain(`href="https://feeds.example/b/${channelId}/feed.atom"`);
+
+    const rss = await request(app).get(`/b/${channelId}/feed.rss`);
+    expect(rss.headers['content-type']).toContain('application/rss+xml');
+    expect(rss.text.match(/<item>/g)).toHaveLength(4);
+
+    const json = await request(app).get(`/b/${channelId}/feed.json`);
+    expect(json.headers['content-type']).toContain('application/feed+json');
+    const feed = JSON.parse(json.text);
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.items[0].content_text).toBe('Main St closed\n<b>until</b> 5pm & later');
+    expect(feed.items.map((i: { title: string }) => i.title)).toEqual(['Main St closed', 'three', 'two', 'one']);
+  });
+
+  it('answers 304 to a matching ETag until the channel changes', async () => {
+    const first = await request(app).get(`/b/${channelId}/feed.atom`);
+    const etag = first.headers.etag;
+    expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(new Date(first.headers['last-modified']).getTime()).not.toBeNaN();
+
+    expect((await request(app).get(`/b/${channelId}/feed.atom`).set('If-None-Match', etag)).status).toBe(304);
+    expect((await request(app).get(`/b/${channelId}/feed.atom`)
+      .set('If-Modified-Since', new Date(Date.now() - 60_000).toUTCString())).status).toBe(200);
+
+    await post('four');
+    expect((await request(app).get(`/b/${channelId}/feed.atom`).set('If-None-Match', etag)).status).toBe(200);
+
+    // Deleting the newest post brings back an older page, which must not match either
+    const extra = await post('five');
+    const withExtra = await request(app).get(`/b/${channelId}/feed.atom`);
+    await request(app).delete(`/api/v1/broadcast/${channelId}/posts/${extra}`).send({ post_token: postToken }).expect(200);
+    expect((await request(app).get(`/b/${channelId}/feed.atom`).set('If-None-Match', withExtra.headers.etag)).status)
+      .toBe(200);
+  });
+
+  it('answers 304 to If-Modified-Since until a post is edited, pinned, unpinned or deleted', async () => {
+    let clock = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    const feedUrl = `/b/${channelId}/feed.rss`;
+    const postUrl = `/api/v1/broadcast/${channelId}/posts/${await post('six')}`;
+    const lastModified = async (): Promise<string> => {
+      const page = await request(app).get(feedUrl);
+      clock += 2000; // HTTP dates have whole seconds
+      return page.headers['last-modified'];
+    };
+    const status = async (since: string): Promise<number> =>
+      (await request(app).get(feedUrl).set('If-Modified-Since', since)).status;
+
+    try {
+      for (const change of [
+        () => request(app).patch(postUrl).send({ post_token: postToken, content: 'six, edited' }),
+        () => request(app).patch(postUrl).send({ post_token: postToken, pinned: true }),
+        () => request(app).patch(postUrl).send({ post_token: postToken, pinned: false }),
+        () => request(app).delete(postUrl).send({ post_token: postToken }),
+      ]) {
+        const since = await lastModified();
+        expect(await status(since)).toBe(304);
+        await change().expect(200);
+        expect(await status(since)).toBe(200);
+      }
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('pages with a next link built on the post cursor', async () => {
+    const firstPage = JSON.parse((await request(app).get(`/b/${channelId}/feed.json`).query({ limit: 2 })).text);
+    expect(firstPage.items).toHaveLength(2);
+    const next = new URL(firstPage.next_url);
+    expect(next.searchParams.get('before')).toBe(firstPage.items[1].id);
+    expect(next.searchParams.get('limit')).toBe('2');
+
+    const secondPage = JSON.parse((await request(app).get(`/b/${channelId}/feed.json`)
+      .query(Object.fromEntries(next.searchParams))).text);
+    expect(secondPage.items.map((i: { title: string }) => i.title)).toEqual(['three', 'two']);
+  });
+
+  it('has no feed for encrypted channels or unknown formats', async () => {
+    const encrypted = await createChannel(false);
+    expect((await request(app).get(`/b/${encrypted.channel_id}/feed.atom`)).status).toBe(404);
+    expect((await request(app).get(`/b/${channelId}/feed.xml`)).status).toBe(400);
+
+    await request(app).post(`/api/v1/broadcast/${channelId}/burn`).send({ post_token: postToken }).expect(200);
+    expect((await request(app).get(`/b/${channelId}/feed.rss`)).status).toBe(404);
+  });
+});
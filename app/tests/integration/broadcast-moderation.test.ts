@@ -0,0 +1,94 @@
+/**
+ * Broadcast Moderation Integration Tests
+ * Guest posts on a moderated channel wait for the owner; approved authors'
+ * posting keys can skip the queue
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { OWNER, OTHER } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+const GUEST_KEY = 'guest-key-aaaaaaaaaaaaaaaa';
+
+describe('Broadcast guest-post moderation', () => {
+  const app = createServer();
+  let channelId: string;
+  let postToken: string;
+  let base: string;
+
+  async function guestPost(content: string, guestKey?: string): Promise<{ post_id: string; status: string }> {
+    const response = await request(app).post(`${base}/posts`).send({ content, guest_key: guestKey });
+    expect(response.status).toBe(201);
+    return response.body.data;
+  }
+
+  async function feed(): Promise<string[]> {
+    return (await request(app).get(`${base}/posts`)).body.data.posts.map((p: { content: string }) => p.content);
+  }
+
+  beforeAll(async () => {
+    const created = await request(app).post('/api/v1/broadcast').set(OWNER)
+      .send({ display_name: 'Letters', allow_guest_posts: true, moderate_guest_posts: true });
+    expect(created.status).toBe(201);
+    channelId = created.body.data.channel_id;
+    postToken = created.body.data.post_token;
+    base = `/api/v1/broadcast/${channelId}`;
+  });
+
+  it('queues guest posts out of the feed and shows the queue only to the owner', async () => {
+    const queued = await guestPost('hello');
+    expect(queued.status).toBe('pending');
+    const own = await request(app).post(`${base}/posts`).send({ post_token: postToken, content: 'from owner' });
+    expect(own.body.data.status).toBe('published');
+    expect(await feed()).toEqual(['from owner']);
+
+    expect((await request(app).get(`${base}/pending`)).status).toBe(403);
+    expect((await request(app).get(`${base}/pending`).set(OTHER)).status).toBe(403);
+    expect((await request(app).get(`${base}/pending`).set('X-Post-Token', 'wrong')).status).toBe(400);
+
+    const byToken = await request(app).get(`${base}/pending`).set('X-Post-Token', postToken);
+    expect(byToken.status).toBe(200);
+    expect(byToken.body.data.pending).toBe(1);
+    expect(byToken.body.data.posts[0]).toMatchObject({ post_id: queued.post_id, content: 'hello' });
+
+    const byOwner = await request(app).get(`${base}/pending`).set(OWNER);
+    expect(byOwner.body.data.moderate_guest_posts).toBe(true);
+
+    expect((await request(app).patch(`${base}/posts/${queued.post_id}`).set(OWNER).send({ pinned: true })).status)
+      .toBe(404);
+  });
+
+  it('approves and rejects in bulk and trusts approved posting keys', async () => {
+    const keep = await guestPost('keep me', GUEST_KEY);
+    const drop = await guestPost('spam');
+
+    const both = await request(app).post(`${base}/moderation`).set(OWNER)
+      .send({ approve: [keep.post_id], reject: [keep.post_id] });
+    expect(both.status).toBe(400);
+
+    const moderated = await request(app).post(`${base}/moderation`).send({
+      post_token: postToken, approve: [keep.post_id], reject: [drop.post_id], trust_authors: true,
+    });
+    expect(moderated.status).toBe(200);
+    expect(moderated.body.data).toMatchObject({ approved: 1, rejected: 1, trusted: 1 });
+    expect(await feed()).toContain('keep me');
+    expect(await feed()).not.toContain('spam');
+
+    const trusted = await guestPost('straight through', GUEST_KEY);
+    expect(trusted.status).toBe('published');
+    expect(await feed()).toContain('straight through');
+
+    const settings = await request(app).patch(`${base}/moderation`).set(OWNER).send({ clear_trusted_guests: true });
+    expect(settings.body.data).toEqual({ moderate_guest_posts: true, trusted_guests: 0 });
+    expect((await guestPost('queued again', GUEST_KEY)).status).toBe('pending');
+  });
+
+  it('publishes guest posts directly once moderation is off', async () => {
+    expect((await request(app).patch(`${base}/moderation`).set(OTHER).send({ moderate_guest_posts: false })).status)
+      .toBe(403);
+    await request(app).patch(`${base}/moderation`).set(OWNER).send({ moderate_guest_posts: false }).expect(200);
+    expect((await guestPost('open mic')).status).toBe('published');
+  });
+});
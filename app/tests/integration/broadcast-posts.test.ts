@@ -0,0 +1,77 @@
+/**
+ * Broadcast Post Edit/Delete/Pin Integration Tests
+ * Post token or channel owner may change a post; pinned posts lead the feed.
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { OWNER, OTHER } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+describe('Broadcast post changes', () => {
+  const app = createServer();
+  let channelId: string;
+  let postToken: string;
+  let base: string;
+
+  async function post(content: string): Promise<string> {
+    const response = await request(app).post(base).send({ post_token: postToken, content });
+    expect(response.status).toBe(201);
+    return response.body.data.post_id;
+  }
+
+  async function feed(): Promise<Array<{ post_id: string; content: string; pinned_at: string | null }>> {
+    return (await request(app).get(base)).body.data.posts;
+  }
+
+  beforeAll(async () => {
+    const created = await request(app).post('/api/v1/broadcast').set(OWNER).send({ display_name: 'News' });
+    expect(created.status).toBe(201);
+    channelId = created.body.data.channel_id;
+    postToken = created.body.data.post_token;
+    base = `/api/v1/broadcast/${channelId}/posts`;
+  });
+
+  it('edits and deletes with the post token or as the owner, and refuses anyone else', async () => {
+    const postId = await post('typo');
+
+    const edited = await request(app).patch(`${base}/${postId}`).send({ post_token: postToken, content: 'fixed' });
+    expect(edited.status).toBe(200);
+    expect(edited.body.data.content).toBe('fixed');
+    expect(edited.body.data.edited_at).not.toBeNull();
+
+    expect((await request(app).patch(`${base}/${postId}`).send({ post_token: 'wrong', content: 'x' })).status)
+      .toBe(400);
+    expect((await request(app).patch(`${base}/${postId}`).set(OTHER).send({ content: 'x' })).status).toBe(403);
+    expect((await request(app).delete(`${base}/${postId}`)).status).toBe(403);
+    expect((await request(app).patch(`${base}/${postId}`).send({ post_token: postToken })).status).toBe(400);
+
+    const deleted = await request(app).delete(`${base}/${postId}`).set(OWNER);
+    expect(deleted.status).toBe(200);
+    expect((await feed()).map((p) => p.post_id)).not.toContain(postId);
+    expect((await request(app).delete(`${base}/${postId}`).set(OWNER)).status).toBe(404);
+  });
+
+  it('lists pinned posts first, caps pins and keeps pages after a cursor unpinned', async () => {
+    const [first, second, third, fourth] = [
+      await post('one'), await post('two'), await post('three'), await post('four'),
+    ];
+    await post('five');
+
+    for (const id of [first, second, third]) {
+      await request(app).patch(`${base}/${id}`).set(OWNER).send({ pinned: true }).expect(200);
+    }
+    const tooMany = await request(app).patch(`${base}/${fourth}`).set(OWNER).send({ pinned: true });
+    expect(tooMany.status).toBe(400);
+
+    expect((await feed()).map((p) => p.content)).toEqual(['three', 'two', 'one', 'five', 'four']);
+
+    const page = await request(app).get(base).query({ limit: 4 });
+    const next = await request(app).get(base).query({ limit: 4, before: page.body.data.posts[3].post_id });
+    expect(next.body.data.posts.map((p: { content: string }) => p.content)).toEqual(['four']);
+
+    await request(app).patch(`${base}/${first}`).send({ post_token: postToken, pinned: false }).expect(200);
+    expect((await feed()).map((p) => p.content)).toEqual(['three', 'two', 'five', 'four', 'one']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Broadcast Scheduled/Expiring Post Integration Tests
+ * Posts written ahead stay hidden until the scheduler publishes them;
+ * expiring posts leave the feed and are deleted on the next tick.
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { broadcastScheduler } from '../../src/services/broadcast-scheduler';
+import { AppSyncPublisher } from '../../src/services/appsync-publisher';
+import { OWNER } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+describe('Broadcast scheduled and expiring posts', () => {
+  const app = createServer();
+  let base: string;
+  let postToken: string;
+
+  async function feed(): Promise<string[]> {
+    return (await request(app).get(base)).body.data.posts.map((p: { content: string }) => p.content);
+  }
+
+  async function later<T>(ms: number, fn: () => Promise<T>): Promise<T> {
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + ms);
+    try {
+      return await fn();
+    } finally {
+      clock.mockRestore();
+    }
+  }
+
+  beforeAll(async () => {
+    const created = await request(app).post('/api/v1/broadcast').set(OWNER)
+      .send({ display_name: 'Schedule', allow_guest_posts: true });
+    expect(created.status).toBe(201);
+    postToken = created.body.data.post_token;
+    base = `/api/v1/broadcast/${created.body.data.channel_id}/posts`;
+  });
+
+  it('holds a scheduled post back until the scheduler publishes it at the top of the feed', async () => {
+    const publishAt = new Date(Date.now() + 60_000);
+    const scheduled = await request(app).post(base)
+      .send({ post_token: postToken, content: 'embargoed', publish_at: publishAt.toISOString() });
+    expect(scheduled.status).toBe(201);
+    expect(scheduled.body.data.status).toBe('scheduled');
+    await request(app).post(base).send({ post_token: postToken, content: 'now' }).expect(201);
+
+    expect(await feed()).toEqual(['now']);
+    const ownerView = (await request(app).get(base).set(OWNER)).body.data;
+    expect(ownerView.scheduled.map((p: { content: string }) => p.content)).toEqual(['embargoed']);
+    expect(new Date(ownerView.scheduled[0].publish_at).getTime()).toBe(publishAt.getTime());
+    expect((await request(app).get(base)).body.data).not.toHaveProperty('scheduled');
+
+    expect(await broadcastScheduler.tick()).toEqual({ published: 0, expired: 0 });
+
+    const event = jest.spyOn(AppSyncPublisher.prototype, 'publishBroadcastPost');
+    try {
+      expect(await later(61_000, () => broadcastScheduler.tick())).toEqual({ published: 1, expired: 0 });
+      expect(event).toHaveBeenCalledTimes(1);
+    } finally {
+      event.mockRestore();
+    }
+    expect(await feed()).toEqual(['embargoed', 'now']);
+    expect((await request(app).get(base).set(OWNER)).body.data.scheduled).toEqual([]);
+  });
+
+  it('hides a post at expires_at and deletes it on the next tick', async () => {
+    const expiring = await request(app).post(base)
+      .send({ post_token: postToken, content: 'flash', expires_at: new Date(Date.now() + 60_000).toISOString() });
+    expect(expiring.status).toBe(201);
+    expect(expiring.body.data.status).toBe('published');
+    expect(await feed()).toContain('flash');
+
+    expect(await later(61_000, feed)).not.toContain('flash');
+    const event = jest.spyOn(AppSyncPublisher.prototype, 'publishBroadcastPostChanged');
+    try {
+      expect(await later(61_000, () => broadcastScheduler.tick())).toEqual({ published: 0, expired: 1 });
+      expect(event).toHaveBeenCalledWith(expect.any(String), expiring.body.data.post_id, 'deleted');
+    } finally {
+      event.mockRestore();
+    }
+    expect((await request(app).delete(`${base}/${expiring.body.data.post_id}`).set(OWNER)).status).toBe(404);
+  });
+
+  it('rejects past times, expiry before publishing and scheduling by guests', async () => {
+    const past = new Date(Date.now() - 1000).toISOString();
+    const soon = new Date(Date.now() + 60_000).toISOString();
+    const sooner = new Date(Date.now() + 30_000).toISOString();
+
+    expect((await request(app).post(base).send({ post_token: postToken, content: 'x', publish_at: past })).status)
+      .toBe(400);
+    expect((await request(app).post(base).send({ post_token: postToken, content: 'x', expires_at: past })).status)
+      .toBe(400);
+    expect((await request(app).post(base)
+      .send({ post_token: postToken, content: 'x', publish_at: soon, expires_at: sooner })).status).toBe(400);
+    expect((await request(app).post(base).send({ content: 'x', publish_at: soon })).status).toBe(400);
+    expect((await request(app).post(base).send({ content: 'guest' })).status).toBe(201);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Broadcast Scoped Token Integration Tests
+ * Owners mint named tokens limited to post / moderate / burn; revoked and
+ * expired tokens stop working; only the owner sees which token wrote a post.
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { OWNER, OTHER } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+describe('Broadcast scoped tokens', () => {
+  const app = createServer();
+  let channelId: string;
+  let channelToken: string;
+  let base: string;
+
+  async function mint(label: string, scopes: string[], extra: Record<string, unknown> = {}): Promise<{
+    token_id: string; token: string;
+  }> {
+    const response = await request(app).post(`${base}/tokens`).set(OWNER).send({ label, scopes, ...extra });
+    expect(response.status).toBe(201);
+    return response.body.data;
+  }
+
+  beforeAll(async () => {
+    const created = await request(app).post('/api/v1/broadcast').set(OWNER).send({ display_name: 'Newsroom' });
+    expect(created.status).toBe(201);
+    channelId = created.body.data.channel_id;
+    channelToken = created.body.data.post_token;
+    base = `/api/v1/broadcast/${channelId}`;
+  });
+
+  it('limits each token to its scopes and keeps token management with the owner', async () => {
+    const reporter = await mint('Reporter', ['post']);
+    const editor = await mint('Editor', ['moderate']);
+
+    const posted = await request(app).post(`${base}/posts`).send({ post_token: reporter.token, content: 'scoop' });
+    expect(posted.status).toBe(201);
+    const postId = posted.body.data.post_id;
+
+    expect((await request(app).patch(`${base}/posts/${postId}`).send({ post_token: reporter.token, pinned: true }))
+      .status).toBe(403);
+    expect((await request(app).post(`${base}/burn`).send({ post_token: reporter.token })).status).toBe(403);
+    expect((await request(app).post(`${base}/posts`).send({ post_token: editor.token, content: 'x' })).status)
+      .toBe(403);
+    await request(app).patch(`${base}/posts/${postId}`).send({ post_token: editor.token, pinned: true }).expect(200);
+
+    expect((await request(app).post(`${base}/tokens`).send({ post_token: editor.token, label: 'x', scopes: ['post'] }))
+      .status).toBe(403);
+    expect((await request(app).get(`${base}/tokens`).set(OTHER)).status).toBe(403);
+    const listed = await request(app).get(`${base}/tokens`).set('X-Post-Token', channelToken);
+    expect(listed.status).toBe(200);
+    expect(listed.body.data.tokens.map((t: { label: string }) => t.label)).toEqual(['Reporter', 'Editor']);
+    expect(JSON.stringify(listed.body)).not.toContain(reporter.token);
+  });
+
+  it('shows author labels to the owner only', async () => {
+    const desk = await mint('Night desk', ['post']);
+    await request(app).post(`${base}/posts`).send({ post_token: desk.token, content: 'late news' }).expect(201);
+    await request(app).post(`${base}/posts`).send({ post_token: channelToken, content: 'from the channel' })
+      .expect(201);
+
+    const publicPosts = (await request(app).get(`${base}/posts`)).body.data.posts;
+    expect(publicPosts.every((p: object) => !('author_label' in p))).toBe(true);
+    expect((await request(app).get(`${base}/posts`).set(OTHER)).body.data.posts[0]).not.toHaveProperty('author_label');
+
+    const ownerPosts = (await request(app).get(`${base}/posts`).set(OWNER)).body.data.posts;
+    const labelOf = (content: string) =>
+      ownerPosts.find((p: { content: string }) => p.content === content).author_label;
+    expect(labelOf('late news')).toBe('Night desk');
+    expect(labelOf('from the channel')).toBeNull();
+
+    const asContributor = await request(app).get(`${base}/posts`).set('X-Post-Token', desk.token);
+    expect(asContributor.body.data.posts[0]).not.toHaveProperty('author_label');
+  });
+
+  it('rejects revoked and expired tokens, and burns with a burn-scoped token', async () => {
+    const temp = await mint('Temp', ['post']);
+    await request(app).delete(`${base}/tokens/${temp.token_id}`).send({ post_token: channelToken }).expect(200);
+    expect((await request(app).delete(`${base}/tokens/${temp.token_id}`).set(OWNER)).status).toBe(404);
+    expect((await request(app).post(`${base}/posts`).send({ post_token: temp.token, content: 'x' })).status)
+      .toBe(400);
+
+    const soon = await mint('Soon', ['post'], { expires_at: new Date(Date.now() + 60_000).toISOString() });
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 120_000);
+    try {
+      expect((await request(app).post(`${base}/posts`).send({ post_token: soon.token, content: 'x' })).status)
+        .toBe(400);
+    } finally {
+      clock.mockRestore();
+    }
+
+    const burner = await mint('Kill switch', ['burn']);
+    await request(app).post(`${base}/burn`).send({ post_token: burner.token }).expect(200);
+    expect((await request(app).get(`${base}/posts`)).status).toBe(404);
+  });
+});
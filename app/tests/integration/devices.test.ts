@@ -0,0 +1,158 @@
+/**
+ * Device Integration Tests
+ * Device registration and revocation (which signs the owner out everywhere),
+ * and the pairing mailbox that relays an encrypted key bundle from an
+ * existing device to a new one
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { pairingCode } from '../../src/services/device-link-service';
+import { OWNER, OTHER, OWNER_ID, session } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+const mockGlobalSignOut = jest.fn();
+
+jest.mock('@aws-sdk/client-cognito-identity-provider', () => ({
+  CognitoIdentityProviderClient: jest.fn(() => ({
+    send: async (command: { input: unknown }) => mockGlobalSignOut(command.input),
+  })),
+  AdminUserGlobalSignOutCommand: jest.fn((input: unknown) => ({ input })),
+}));
+
+/** New tokens, issued after any revoke so far */
+function signInAgain(): void {
+  session.issuedAt = Math.floor(Date.now() / 1000) + 2;
+}
+
+/** Raw uncompressed P-256 point shape: 0x04 then 64 bytes */
+function rawPublicKey(seed: number): string {
+  const key = Buffer.alloc(65, seed);
+  key[0] = 4;
+  return key.toString('base64');
+}
+
+describe('Devices', () => {
+  const app = createServer();
+  const base = '/api/v1/dashboard/devices';
+
+  async function registerDevice(name: string, auth = OWNER): Promise<string> {
+    const response = await request(app).post(base).set(auth).send({ name });
+    expect(response.status).toBe(201);
+    return response.body.data.device_id as string;
+  }
+
+  it('derives the pairing code from the public key bytes', () => {
+    const key = Buffer.alloc(65);
+    key[0] = 4;
+    for (let i = 1; i < 65; i++) key[i] = i;
+    expect(pairingCode(key.toString('base64'))).toBe('1V9TDAWNFZVF');
+  });
+
+  it('lists devices with the current one marked, and refuses revoked devices', async () => {
+    const laptop = await registerDevice('Firefox on Linux');
+    const phone = await registerDevice('Safari on iOS');
+
+    const list = await request(app).get(base).set(OWNER).set('X-Device-Id', laptop);
+    expect(list.status).toBe(200);
+    const devices = list.body.data.devices as { device_id: string; current: boolean }[];
+    expect(devices.find((d) => d.device_id === laptop)?.current).toBe(true);
+    expect(devices.find((d) => d.device_id === phone)?.current).toBe(false);
+
+    expect((await request(app).delete(`${base}/${phone}`).set(OTHER).set('X-Device-Id', laptop)).status).toBe(403);
+    const other = await registerDevice('Edge on Windows', OTHER);
+    expect((await request(app).delete(`${base}/${phone}`).set(OTHER).set('X-Device-Id', other)).status).toBe(404);
+    expect((await request(app).delete(`${base}/${phone}`).set(OWNER).set('X-Device-Id', laptop)).status).toBe(204);
+    expect(mockGlobalSignOut).toHaveBeenCalledWith({ UserPoolId: 'test-pool', Username: OWNER_ID });
+
+    // Revoked on every dashboard router, not just the device routes
+    const refused = await request(app).get('/api/v1/dashboard/links').set(OWNER).set('X-Device-Id', phone);
+    expect(refused.status).toBe(403);
+    expect(refused.body.error.code).toBe('DEVICE_REVOKED');
+
+    // Every session issued before the revoke is over, this browser's too, and
+    // the revoked browser can't register itself again with its old token
+    expect((await request(app).get(base).set(OWNER).set('X-Device-Id', laptop)).status).toBe(401);
+    expect((await request(app).post(base).set(OWNER).send({ name: 'Safari on iOS' })).status).toBe(401);
+    signInAgain();
+    expect((await request(app).get(base).set(OWNER).set('X-Device-Id', laptop)).status).toBe(200);
+  });
+
+  it('requires one of the owner\'s registered devices', async () => {
+    const laptop = await registerDevice('Chrome on Linux');
+    const other = await registerDevice('Chrome on ChromeOS', OTHER);
+
+    for (const deviceId of [undefined, 'not-a-uuid', '00000000-0000-4000-8000-000000000000', other]) {
+      const req = request(app).get('/api/v1/dashboard/links').set(OWNER);
+      const response = deviceId ? await req.set('X-Device-Id', deviceId) : await req;
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('DEVICE_REQUIRED');
+    }
+    expect((await request(app).get('/api/v1/dashboard/links').set(OWNER).set('X-Device-Id', laptop)).status)
+      .toBe(200);
+  });
+
+  it('relays the bundle once from the old device to the new one', async () => {
+    const oldDevice = await registerDevice('Chrome on macOS');
+    const newDevice = await registerDevice('Chrome on Windows');
+    const publicKey = rawPublicKey(7);
+
+    // Pairing needs a registered device on the request
+    expect((await request(app).post(`${base}/link`).set(OWNER).send({ public_key: publicKey })).status).toBe(403);
+    const bad = await request(app).post(`${base}/link`).set(OWNER).set('X-Device-Id', newDevice)
+      .send({ public_key: Buffer.alloc(32).toString('base64') });
+    expect(bad.status).toBe(400);
+
+    const started = await request(app).post(`${base}/link`).set(OWNER).set('X-Device-Id', newDevice)
+      .send({ public_key: publicKey });
+    expect(started.status).toBe(201);
+    const { session_id, pairing_code } = started.body.data as { session_id: string; pairing_code: string };
+    expect(pairing_code).toBe(pairingCode(publicKey));
+
+    const waiting = await request(app).get(`${base}/link/${session_id}`).set(OWNER).set('X-Device-Id', newDevice);
+    expect(waiting.body.data.status).toBe('waiting');
+
+    // Typed with dashes and in lowercase; other owners and the new device itself can't see it
+    const typed = `${pairing_code.slice(0, 4)}-${pairing_code.slice(4, 8)}-${pairing_code.slice(8)}`.toLowerCase();
+    const otherDevice = await registerDevice('Edge on Windows', OTHER);
+    expect((await request(app).get(`${base}/pairing/${typed}`).set(OTHER).set('X-Device-Id', otherDevice)).status)
+      .toBe(404);
+    expect((await request(app).get(`${base}/pairing/${typed}`).set(OWNER).set('X-Device-Id', newDevice)).status)
+      .toBe(404);
+
+    const lookup = await request(app).get(`${base}/pairing/${typed}`).set(OWNER).set('X-Device-Id', oldDevice);
+    expect(lookup.status).toBe(200);
+    expect(lookup.body.data).toMatchObject({ session_id, public_key: publicKey, device_name: 'Chrome on Windows' });
+
+    const bundle = Buffer.from('ciphertext').toString('base64');
+    const delivered = await request(app).post(`${base}/link/${session_id}/bundle`).set(OWNER)
+      .set('X-Device-Id', oldDevice).send({ bundle });
+    expect(delivered.status).toBe(204);
+    const again = await request(app).post(`${base}/link/${session_id}/bundle`).set(OWNER)
+      .set('X-Device-Id', oldDevice).send({ bundle });
+    expect(again.status).toBe(400);
+
+    // Only the device that opened the session collects, and only once
+    expect((await request(app).get(`${base}/link/${session_id}`).set(OWNER).set('X-Device-Id', oldDevice)).status)
+      .toBe(404);
+    const collected = await request(app).get(`${base}/link/${session_id}`).set(OWNER).set('X-Device-Id', newDevice);
+    expect(collected.body.data).toEqual({ status: 'delivered', bundle, sender_device_id: oldDevice });
+    expect((await request(app).get(`${base}/link/${session_id}`).set(OWNER).set('X-Device-Id', newDevice)).status)
+      .toBe(404);
+  });
+
+  it('closes the pairing session when its device is revoked', async () => {
+    const oldDevice = await registerDevice('Firefox on Windows');
+    const newDevice = await registerDevice('Firefox on Android');
+    const started = await request(app).post(`${base}/link`).set(OWNER).set('X-Device-Id', newDevice)
+      .send({ public_key: rawPublicKey(9) });
+
+    await request(app).delete(`${base}/${newDevice}`).set(OWNER).set('X-Device-Id', oldDevice).expect(204);
+    signInAgain();
+
+    const lookup = await request(app).get(`${base}/pairing/${started.body.data.pairing_code}`)
+      .set(OWNER).set('X-Device-Id', oldDevice);
+    expect(lookup.status).toBe(404);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Key Bundle Integration Tests
+ * The account-wide encrypted key backup: ETag / If-Match versioning, and
+ * folding the older per-link backups into it
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { OWNER, OTHER } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+function bundleBody(text: string, migrated_link_ids?: string[]) {
+  return {
+    ciphertext: Buffer.from(text).toString('base64'),
+    salt: 'a1'.repeat(16),
+    iv: 'b2'.repeat(12),
+    migrated_link_ids,
+  };
+}
+
+describe('Key bundle', () => {
+  const app = createServer();
+  const url = '/api/v1/dashboard/key-bundle';
+
+  // Dashboard routes need one of the owner's registered devices
+  beforeAll(async () => {
+    for (const auth of [OWNER, OTHER]) {
+      const device = await request(app).post('/api/v1/dashboard/devices').set(auth).send({ name: 'Test browser' });
+      auth['X-Device-Id'] = device.body.data.device_id;
+    }
+  });
+
+  it('versions writes with ETag and refuses stale or missing If-Match', async () => {
+    const empty = await request(app).get(url).set(OWNER);
+    expect(empty.status).toBe(200);
+    expect(empty.headers.etag).toBe('"0"');
+    expect(empty.body.data).toEqual({ version: 0, bundle: null, legacy_links: [] });
+
+    expect((await request(app).put(url).set(OWNER).send(bundleBody('first'))).status).toBe(428);
+
+    const first = await request(app).put(url).set(OWNER).set('If-Match', '"0"').send(bundleBody('first'));
+    expect(first.status).toBe(200);
+    expect(first.headers.etag).toBe('"1"');
+
+    // A second device that read version 0 has to re-read and merge
+    const stale = await request(app).put(url).set(OWNER).set('If-Match', '"0"').send(bundleBody('other'));
+    expect(stale.status).toBe(412);
+    expect(stale.body.error.code).toBe('PRECONDITION_FAILED');
+
+    const merged = await request(app).put(url).set(OWNER).set('If-Match', first.headers.etag).send(bundleBody('merged'));
+    expect(merged.status).toBe(200);
+    expect(merged.body.data.version).toBe(2);
+
+    const read = await request(app).get(url).set(OWNER);
+    expect(read.headers.etag).toBe('"2"');
+    expect(Buffer.from(read.body.data.bundle.ciphertext, 'base64').toString()).toBe('merged');
+
+    // Bundles are per owner
+    expect((await request(app).get(url).set(OTHER)).body.data.bundle).toBeNull();
+  });
+
+  it('hands out per-link backups until a write names them as migrated', async () => {
+    const created = await request(app).post('/api/v1/dashboard/links').set(OWNER)
+      .send({ display_name: 'Tips', public_key: 'pk' });
+    expect(created.status).toBe(201);
+    const linkId = created.body.data.link_id as string;
+
+    await request(app).put(`/api/v1/dashboard/links/${linkId}/key-backup`).set(OWNER)
+      .send({ wrapped_key: 'd3JhcHBlZA==', salt: 'c3'.repeat(16), iv: 'd4'.repeat(12) })
+      .expect(200);
+
+    const before = await request(app).get(url).set(OWNER);
+    expect(before.body.data.legacy_links).toEqual([
+      { link_id: linkId, wrapped_key: 'd3JhcHBlZA==', salt: 'c3'.repeat(16), iv: 'd4'.repeat(12) },
+    ]);
+
+    // A lost race leaves the per-link backup in place
+    const lost = await request(app).put(url).set(OWNER).set('If-Match', '"1"').send(bundleBody('x', [linkId]));
+    expect(lost.status).toBe(412);
+    expect((await request(app).get(`/api/v1/dashboard/links/${linkId}/key-backup`).set(OWNER)).body.data)
+      .not.toBeNull();
+
+    await request(app).put(url).set(OWNER).set('If-Match', before.headers.etag).send(bundleBody('folded', [linkId]))
+      .expect(200);
+
+    const after = await request(app).get(url).set(OWNER);
+    expect(after.body.data.legacy_links).toEqual([]);
+    expect((await request(app).get(`/api/v1/dashboard/links/${linkId}/key-backup`).set(OWNER)).body.data)
+      .toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Link Access Policy Integration Tests
+ * Owners pause links, cap new threads per day and in total, and set open
+ * hours; senders get LINK_PAUSED / LINK_QUOTA_EXCEEDED while replies in
+ * existing threads still go through
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import { MessageService } from '../../src/services/message-service';
+import { OWNER, OWNER_ID } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+describe('Link access policies', () => {
+  const app = createServer();
+
+  // Dashboard routes need one of the owner's registered devices
+  beforeAll(async () => {
+    for (const auth of [OWNER]) {
+      const device = await request(app).post('/api/v1/dashboard/devices').set(auth).send({ name: 'Test browser' });
+      auth['X-Device-Id'] = device.body.data.device_id;
+    }
+  });
+  let linkCount = 0;
+
+  async function createLink(policy: Record<string, unknown> = {}): Promise<string> {
+    linkCount += 1;
+    const link_id = `policylink${String(linkCount).padStart(2, '0')}`;
+    await getRepositories().links.create({
+      link_id,
+      owner_user_id: OWNER_ID,
+      display_name: 'Policy',
+      public_key: 'pk',
+    });
+    if (Object.keys(policy).length > 0) {
+      await request(app).patch(`/api/v1/dashboard/links/${link_id}`).set(OWNER).send(policy).expect(200);
+    }
+    return link_id;
+  }
+
+  function send(linkId: string) {
+    return request(app).post('/api/v1/send').send({
+      recipient_link_id: linkId,
+      ciphertext: 'hello-ciphertext',
+      sender_public_key: 'sender-pk',
+    });
+  }
+
+  it('validates policy fields and returns them on the link', async () => {
+    const linkId = await createLink();
+    const url = `/api/v1/dashboard/links/${linkId}`;
+
+    expect((await request(app).patch(url).set(OWNER).send({ open_hours_start: '09:00' })).status).toBe(400);
+    expect((await request(app).patch(url).set(OWNER).send({ max_threads: 0 })).status).toBe(400);
+    expect((await request(app).patch(url).set(OWNER).send({ time_zone: 'Mars/Olympus' })).status).toBe(400);
+
+    const updated = await request(app).patch(url).set(OWNER)
+      .send({ max_threads_per_day: 5, open_hours_start: '09:00', open_hours_end: '17:00', time_zone: 'Europe/Berlin' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data).toMatchObject({
+      paused: false, max_threads_per_day: 5, max_threads: null,
+      open_hours_start: '09:00', open_hours_end: '17:00', time_zone: 'Europe/Berlin',
+    });
+
+    const cleared = await request(app).patch(url).set(OWNER)
+      .send({ max_threads_per_day: null, open_hours_start: null, open_hours_end: null });
+    expect(cleared.body.data).toMatchObject({ max_threads_per_day: null, open_hours_start: null, display_name: 'Policy' });
+  });
+
+  it('rejects new threads while paused but still accepts replies', async () => {
+    const linkId = await createLink();
+    const threadId = (await send(linkId).expect(201)).body.data.thread_id;
+
+    await request(app).patch(`/api/v1/dashboard/links/${linkId}`).set(OWNER).send({ paused: true }).expect(200);
+    const rejected = await send(linkId);
+    expect(rejected.status).toBe(403);
+    expect(rejected.body.error.code).toBe('LINK_PAUSED');
+    await request(app).post(`/api/v1/thread/${threadId}/reply`).send({ ciphertext: 'follow-up' }).expect(201);
+
+    await request(app).patch(`/api/v1/dashboard/links/${linkId}`).set(OWNER).send({ paused: false }).expect(200);
+    await send(linkId).expect(201);
+  });
+
+  it('enforces the rolling daily quota', async () => {
+    const linkId = await createLink({ max_threads_per_day: 2 });
+    await send(linkId).expect(201);
+    await send(linkId).expect(201);
+
+    const rejected = await send(linkId);
+    expect(rejected.status).toBe(429);
+    expect(rejected.body.error.code).toBe('LINK_QUOTA_EXCEEDED');
+
+    const tomorrow = Date.now() + 25 * 60 * 60 * 1000;
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(tomorrow);
+    try {
+      await send(linkId).expect(201);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('pauses itself at max_threads and only resumes once the cap is raised', async () => {
+    const linkId = await createLink({ max_threads: 2 });
+    const url = `/api/v1/dashboard/links/${linkId}`;
+    await send(linkId).expect(201);
+    await send(linkId).expect(201);
+
+    expect((await getRepositories().links.findById(linkId))?.paused).toBe(true);
+    expect((await send(linkId)).body.error.code).toBe('LINK_PAUSED');
+
+    expect((await request(app).patch(url).set(OWNER).send({ paused: false })).status).toBe(400);
+    const resumed = await request(app).patch(url).set(OWNER).send({ paused: false, max_threads: 3 });
+    expect(resumed.body.data).toMatchObject({ paused: false, max_threads: 3 });
+    await send(linkId).expect(201);
+    expect((await send(linkId)).body.error.code).toBe('LINK_PAUSED');
+  });
+
+  it('never lets concurrent sends overshoot a cap', async () => {
+    const daily = await createLink({ max_threads_per_day: 2 });
+    const capped = await createLink({ max_threads: 2 });
+    const messages = new MessageService();
+
+    // Straight to the service so all five pass the early check before any insert
+    for (const [linkId, code] of [[daily, 'LINK_QUOTA_EXCEEDED'], [capped, 'LINK_PAUSED']]) {
+      const results = await Promise.allSettled([1, 2, 3, 4, 5].map(() => messages.sendAnonymousMessage({
+        recipient_link_id: linkId, ciphertext: 'hello-ciphertext', sender_public_key: 'sender-pk',
+      })));
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(2);
+      expect(results.flatMap((r) => (r.status === 'rejected' ? [r.reason.code] : []))).toEqual([code, code, code]);
+      expect(await getRepositories().threads.countByLinkId(linkId)).toBe(2);
+    }
+    expect((await getRepositories().links.findById(capped))?.paused).toBe(true);
+  });
+
+  it('only opens new threads during open hours', async () => {
+    const hour = new Date().getUTCHours();
+    const closedStart = `${String((hour + 2) % 24).padStart(2, '0')}:00`;
+    const closedEnd = `${String((hour + 3) % 24).padStart(2, '0')}:00`;
+    const linkId = await createLink({ open_hours_start: closedStart, open_hours_end: closedEnd });
+
+    const rejected = await send(linkId);
+    expect(rejected.status).toBe(403);
+    expect(rejected.body.error.code).toBe('LINK_PAUSED');
+    expect(rejected.body.error.message).toContain(closedStart);
+
+    await request(app).patch(`/api/v1/dashboard/links/${linkId}`).set(OWNER)
+      .send({ open_hours_start: `${String(hour).padStart(2, '0')}:00`, open_hours_end: closedEnd }).expect(200);
+    await send(linkId).expect(201);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * In-Memory Store Tests
+ * The memory repositories mirror the Postgres triggers, cascades and
+ * transactions that services rely on (DATA_STORE=memory)
+ */
+
+import { getRepositories } from '../../src/models/repositories';
+import { RoomKeyService } from '../../src/services/room-key-service';
+
+process.env.DATA_STORE = 'memory';
+
+const OWNER = 'room-owner';
+
+async function createRoom() {
+  const repos = getRepositories();
+  await repos.users.upsert(OWNER, 'owner@example.com');
+  const room = await repos.rooms.create({
+    creator_user_id: OWNER,
+    display_name: 'Room',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    group_public_key: 'group-pk',
+  });
+  const participant = (anonymousId: string, isCreator = false) =>
+    repos.roomParticipants.create({
+      room_id: room.room_id,
+      anonymous_id: anonymousId,
+      public_key: `${anonymousId}-pk`,
+      wrapped_group_key: isCreator ? 'creator-wrap' : undefined,
+      watermark_seed: 'seed',
+      is_creator: isCreator,
+    });
+  return { room, participant };
+}
+
+describe('In-memory repositories', () => {
+  const repos = getRepositories();
+
+  it('counts participants once, on approval', async () => {
+    const { room, participant } = await createRoom();
+    await participant('creator', true);
+    const alice = await participant('alice');
+    const bob = await participant('bob');
+
+    expect((await repos.rooms.findById(room.room_id))?.participant_count).toBe(1);
+
+    await repos.roomParticipants.approve(alice.participant_id, 'alice-wrap-0');
+    await repos.roomParticipants.reject(bob.participant_id);
+    await expect(repos.roomParticipants.approve(alice.participant_id, 'again')).rejects.toThrow('Participant not found');
+
+    expect((await repos.rooms.findById(room.room_id))?.participant_count).toBe(2);
+  });
+
+  it('rotates the group key through RoomKeyService', async () => {
+    const { room, participant } = await createRoom();
+    await participant('creator', true);
+    const alice = await participant('alice');
+    const bob = await participant('bob');
+    await repos.roomParticipants.approve(alice.participant_id, 'alice-wrap-0');
+    await repos.roomParticipants.approve(bob.participant_id, 'bob-wrap-0');
+
+    const service = new RoomKeyService();
+    await expect(
+      service.removeParticipant(room.room_id, bob.participant_id, OWNER, {
+        key_epoch: 2,
+        wrapped_keys: [{ participant_id: alice.participant_id, wrapped_group_key: 'alice-wrap-1' }],
+      })
+    ).rejects.toThrow('Expected key_epoch 1');
+    expect((await repos.roomParticipants.findById(bob.participant_id))?.status).toBe('approved');
+
+    const result = await service.removeParticipant(room.room_id, bob.participant_id, OWNER, {
+      key_epoch: 1,
+      wrapped_keys: [{ participant_id: alice.participant_id, wrapped_group_key: 'alice-wrap-1' }],
+    });
+
+    expect(result).toEqual({ participant_id: bob.participant_id, status: 'removed', key_epoch: 1 });
+    expect(await repos.rooms.findById(room.room_id)).toMatchObject({ key_epoch: 1, participant_count: 2 });
+    expect((await repos.roomParticipants.findById(alice.participant_id))?.wrapped_group_key).toBe('alice-wrap-1');
+    expect(await repos.roomParticipants.findPreviousKeys(alice.participant_id)).toEqual([
+      { key_epoch: 0, wrapped_group_key: 'alice-wrap-0', wrapper_public_key: null },
+    ]);
+    expect(await repos.roomParticipants.findById(bob.participant_id)).toMatchObject({
+      status: 'removed',
+      wrapped_group_key: undefined,
+    });
+  });
+
+  it('burns a room with its messages, participants and invites', async () => {
+    const { room, participant } = await createRoom();
+    const creator = await participant('creator', true);
+    await repos.roomMessages.create({
+      room_id: room.room_id,
+      participant_id: creator.participant_id,
+      ciphertext: 'ct',
+      nonce: 'n',
+    });
+    await repos.roomInvites.create({
+      room_id: room.room_id,
+      invite_token_hash: `hash-${room.room_id}`,
+      expires_at: new Date(Date.now() + 60_000),
+    });
+
+    await repos.rooms.burn(room.room_id);
+
+    expect(await repos.rooms.findActiveById(room.room_id)).toBeNull();
+    expect(await repos.roomMessages.countByRoomId(room.room_id)).toBe(0);
+    expect(await repos.roomParticipants.findByRoomId(room.room_id)).toEqual([]);
+    expect(await repos.roomInvites.countByRoomId(room.room_id)).toBe(0);
+  });
+
+  it('pages room messages by cursor and joins the sender', async () => {
+    const { room, participant } = await createRoom();
+    const creator = await participant('creator', true);
+    const sent = [];
+    for (const ciphertext of ['one', 'two', 'three']) {
+      sent.push(await repos.roomMessages.create({
+        room_id: room.room_id,
+        participant_id: creator.participant_id,
+        ciphertext,
+        nonce: 'n',
+      }));
+    }
+
+    const after = await repos.roomMessages.findAfterCursor(room.room_id, sent[0].created_at, sent[0].message_id);
+    expect(after.map((m) => m.ciphertext)).toEqual(['two', 'three']);
+    expect(after[0].anonymous_id).toBe('creator');
+  });
+
+  it('pages broadcast posts newest first with a before cursor', async () => {
+    await repos.broadcastChannels.create({ channel_id: 'chan12345678', post_token_hash: 'h', display_name: 'News' });
+    for (const content of ['a', 'b', 'c']) {
+      await repos.broadcastPosts.create({ channel_id: 'chan12345678', content });
+    }
+
+    const newest = await repos.broadcastPosts.listByChannelId('chan12345678', 2);
+    expect(newest.map((p) => p.content)).toEqual(['c', 'b']);
+    const older = await repos.broadcastPosts.listByChannelId('chan12345678', 2, newest[1].post_id);
+    expect(older.map((p) => p.content)).toEqual(['a']);
+
+    await expect(
+      repos.broadcastChannels.create({ channel_id: 'chan12345678', post_token_hash: 'h2', display_name: 'Dup' })
+    ).rejects.toThrow('Failed to create channel');
+  });
+});
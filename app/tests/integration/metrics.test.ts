@@ -0,0 +1,220 @@
+/**
+ * Metrics Integration Tests
+ * Token-protected Prometheus scrape summed over PM2 workers (PM2 mocked)
+ */
+
+import { EventEmitter } from 'events';
+import request from 'supertest';
+import { createServer, metricsListenOptions } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import { metrics, MetricsSnapshot } from '../../src/config/metrics';
+import { answerMetricsRequests, collectMetricsSnapshots } from '../../src/config/metrics-cluster';
+
+const mockBus = new EventEmitter();
+const mockWorkers: Record<number, { status: string; snapshot?: MetricsSnapshot }> = {};
+jest.mock('pm2', () => ({
+  connect: (cb: (err: Error | null) => void) => cb(null),
+  launchBus: (cb: (err: Error | null, bus: EventEmitter) => void) => cb(null, mockBus),
+  list: (cb: (err: Error | null, list: unknown[]) => void) =>
+    cb(null, Object.entries(mockWorkers).map(([pmId, worker]) => ({
+      name: 'burnware-api',
+      pm_id: Number(pmId),
+      pm2_env: { status: worker.status },
+    }))),
+  // Each mocked worker answers over the bus like answerMetricsRequests does
+  sendDataToProcessId: (
+    pmId: number,
+    packet: { data: { request_id: string } },
+    cb: (err: Error | null) => void
+  ) => {
+    cb(null);
+    const { snapshot } = mockWorkers[pmId];
+    if (snapshot) {
+      setImmediate(() => mockBus.emit('burnware:metrics:snapshot', {
+        process: { pm_id: pmId },
+        data: { request_id: packet.data.request_id, snapshot },
+      }));
+    }
+  },
+}));
+
+process.env.DATA_STORE = 'memory';
+
+const LINK = 'metriclink12';
+const TOKEN = 'scrape-token';
+
+/** Value of an unlabelled series in a scrape */
+function sample(body: string, series: string): number {
+  const line = body.split('\n').find((l) => l.startsWith(`${series} `));
+  return line ? Number(line.split(' ').pop()) : NaN;
+}
+
+describe('Prometheus metrics', () => {
+  afterEach(() => {
+    delete process.env.METRICS_TOKEN;
+    delete process.env.METRICS_PORT;
+  });
+
+  it('is not served without a token or an internal port', async () => {
+    const response = await request(createServer()).get('/metrics');
+    expect(response.status).toBe(404);
+  });
+
+  it('is not served on the public app when METRICS_PORT is set', async () => {
+    process.env.METRICS_TOKEN = TOKEN;
+    process.env.METRICS_PORT = '9464';
+    const response = await request(createServer()).get('/metrics').set('Authorization', `Bearer ${TOKEN}`);
+    expect(response.status).toBe(404);
+  });
+
+  it('requires the scrape token', async () => {
+    process.env.METRICS_TOKEN = TOKEN;
+    const app = createServer();
+
+    expect((await request(app).get('/metrics')).status).toBe(401);
+    expect((await request(app).get('/metrics').set('Authorization', 'Bearer wrong')).status).toBe(401);
+  });
+
+  it('counts business events and request latency without identifiers', async () => {
+    process.env.METRICS_TOKEN = TOKEN;
+    const app = createServer();
+    await getRepositories().links.create({
+      link_id: LINK,
+      owner_user_id: 'metrics-owner',
+      display_name: 'Measured',
+      public_key: 'pk',
+    });
+
+    const scrape = async () => {
+      const response = await request(app).get('/metrics').set('Authorization', `Bearer ${TOKEN}`);
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+      return response.text;
+    };
+
+    const before = await scrape();
+    expect(before).toContain('# TYPE burnware_room_created_total counter');
+    expect(sample(before, 'burnware_room_created_total')).toBe(0);
+
+    const sent = await request(app).post('/api/v1/send').send({
+      recipient_link_id: LINK,
+      ciphertext: 'ciphertext',
+      sender_public_key: 'sender-pk',
+    });
+    expect(sent.status).toBe(201);
+    await request(app).get(`/api/v1/link/${LINK}/metadata`);
+
+    const after = await scrape();
+    expect(sample(after, 'burnware_thread_created_total') - sample(before, 'burnware_thread_created_total')).toBe(1);
+    expect(after).toMatch(
+      /burnware_http_request_duration_seconds_count\{method="POST",route="\/api\/v1\/send",status_code="201"\} 1/
+    );
+    expect(after).toContain('route="/api/v1/link/:link_id/metadata"');
+    expect(after).toContain('le="+Inf"');
+    expect(after).not.toContain(LINK);
+    expect(after).not.toContain(sent.body.data.thread_id);
+  });
+
+  it('binds the internal listener to loopback and refuses bad settings', () => {
+    expect(metricsListenOptions({ METRICS_PORT: '9464', METRICS_TOKEN: TOKEN })).toEqual({
+      port: 9464,
+      host: '127.0.0.1',
+    });
+    expect(metricsListenOptions({ METRICS_PORT: '9464', METRICS_HOST: '10.0.1.5', METRICS_ALLOW_NO_TOKEN: 'true' }))
+      .toEqual({ port: 9464, host: '10.0.1.5' });
+
+    expect(() => metricsListenOptions({ METRICS_PORT: '9464' })).toThrow(/METRICS_TOKEN/);
+    for (const port of ['abc', '0', '65536', '94.64']) {
+      expect(() => metricsListenOptions({ METRICS_PORT: port, METRICS_TOKEN: TOKEN })).toThrow(/METRICS_PORT/);
+    }
+  });
+
+  it('leaves out pool gauges when no pg pool exists', () => {
+    expect(metrics.render()).not.toContain('burnware_db_pool_connections');
+  });
+});
+
+describe('Prometheus metrics under PM2', () => {
+  const worker = (threads: number, sends: number): MetricsSnapshot => ({
+    counters: { thread_created: threads },
+    requests: [{
+      labels: { method: 'POST', route: '/api/v1/send', status_code: '201' },
+      buckets: Array(11).fill(sends),
+      sum: sends * 0.01,
+      count: sends,
+    }],
+    pool: { total: 2, idle: 1, waiting: 0 },
+  });
+
+  beforeEach(() => {
+    process.env.pm_id = '0';
+    process.env.name = 'burnware-api';
+  });
+
+  afterEach(() => {
+    delete process.env.pm_id;
+    delete process.env.name;
+    for (const pmId of Object.keys(mockWorkers)) delete mockWorkers[Number(pmId)];
+  });
+
+  it('serves the sum of every online worker', async () => {
+    mockWorkers[0] = { status: 'online' };
+    mockWorkers[1] = { status: 'online', snapshot: worker(3, 4) };
+    mockWorkers[2] = { status: 'online', snapshot: worker(5, 6) };
+    mockWorkers[3] = { status: 'stopped', snapshot: worker(100, 100) };
+
+    const own = metrics.snapshot();
+    const body = metrics.render(await collectMetricsSnapshots());
+
+    expect(sample(body, 'burnware_thread_created_total')).toBe((own.counters.thread_created || 0) + 8);
+    const ownSends = own.requests.find((s) => s.labels.route === '/api/v1/send' && s.labels.status_code === '201');
+    expect(body).toContain(
+      `burnware_http_request_duration_seconds_count{method="POST",route="/api/v1/send",status_code="201"} ${(ownSends?.count || 0) + 10}`
+    );
+    expect(sample(body, 'burnware_db_pool_connections')).toBe(4);
+    expect(body).not.toContain('worker=');
+  });
+
+  it('serves the workers that answered when one stays silent', async () => {
+    mockWorkers[1] = { status: 'online', snapshot: worker(3, 4) };
+    mockWorkers[2] = { status: 'online' };
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    try {
+      let collected: MetricsSnapshot[] | null = null;
+      void collectMetricsSnapshots().then((snapshots) => {
+        collected = snapshots;
+      });
+      // Let the request go out, then run the clock past the collect timeout
+      for (let i = 0; i < 10 && !collected; i++) {
+        await new Promise((resolve) => setImmediate(resolve));
+        jest.advanceTimersByTime(500);
+      }
+      expect(collected).toHaveLength(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("answers a sibling's request with this worker's snapshot", () => {
+    const send = jest.fn();
+    const originalSend = process.send;
+    process.send = send;
+    const listeners = process.listeners('message');
+    try {
+      answerMetricsRequests();
+      process.emit('message', { topic: 'burnware:metrics:request', data: { request_id: 'r1' } }, undefined);
+      process.emit('message', { topic: 'something-else', data: { request_id: 'r2' } }, undefined);
+    } finally {
+      process.send = originalSend;
+      for (const listener of process.listeners('message')) {
+        if (!listeners.includes(listener)) process.off('message', listener);
+      }
+    }
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toMatchObject({
+      type: 'burnware:metrics:snapshot',
+      data: { request_id: 'r1', snapshot: { counters: expect.any(Object) } },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Migration Runner Integration Tests
+ * Ledger, checksum drift and rollback against a temp directory and mocked pg client
+ */
+
+jest.mock('../../src/config/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    log: jest.fn(),
+  },
+}));
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Pool } from 'pg';
+import { MigrationRunner } from '../../src/config/migration-runner';
+
+const mockQuery = jest.fn();
+const mockRelease = jest.fn();
+const pool = {
+  connect: jest.fn().mockResolvedValue({ query: mockQuery, release: mockRelease }),
+} as unknown as Pool;
+
+let dir: string;
+let ledger: { version: string; name: string; checksum: string; applied_at: Date }[];
+
+function statements(): string[] {
+  return mockQuery.mock.calls.map((c) => (c[0] as string).trim());
+}
+
+describe('MigrationRunner', () => {
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'bw-migrations-'));
+    writeFileSync(path.join(dir, '001_initial.sql'), 'CREATE TABLE a (id INT);');
+    writeFileSync(path.join(dir, '001_initial.down.sql'), 'DROP TABLE a;');
+    writeFileSync(path.join(dir, '002_second.sql'), 'CREATE TABLE b (id INT);');
+    writeFileSync(path.join(dir, 'README.md'), 'ignored');
+
+    ledger = [];
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.includes('FROM schema_migrations') ? { rows: ledger } : { rows: [] }
+    );
+    mockRelease.mockReset();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies pending files in order under the advisory lock', async () => {
+    const applied = await new MigrationRunner(pool, dir).up();
+
+    expect(applied).toEqual(['001', '002']);
+    const sql = statements();
+    expect(sql[0]).toBe('BEGIN');
+    expect(sql[1]).toContain('pg_advisory_xact_lock');
+    expect(sql.indexOf('CREATE TABLE a (id INT);')).toBeLessThan(sql.indexOf('CREATE TABLE b (id INT);'));
+    expect(sql[sql.length - 1]).toBe('COMMIT');
+
+    const inserts = mockQuery.mock.calls.filter((c) => (c[0] as string).startsWith('INSERT INTO schema_migrations'));
+    expect(inserts.map((c) => c[1][0])).toEqual(['001', '002']);
+    expect(inserts[0][1][2]).toBe(MigrationRunner.checksum('CREATE TABLE a (id INT);'));
+    expect(mockRelease).toHaveBeenCalled();
+  });
+
+  it('skips applied versions and refuses to run when a file has drifted', async () => {
+    ledger = [{ version: '001', name: 'initial', checksum: MigrationRunner.checksum('CREATE TABLE a (id INT);'), applied_at: new Date() }];
+    expect(await new MigrationRunner(pool, dir).up()).toEqual(['002']);
+
+    mockQuery.mockClear();
+    ledger[0].checksum = 'stale';
+    await expect(new MigrationRunner(pool, dir).up()).rejects.toThrow('Checksum mismatch');
+    expect(statements()).toContain('ROLLBACK');
+    expect(statements()).not.toContain('CREATE TABLE b (id INT);');
+  });
+
+  it('ignores CRLF vs LF differences in the checksum', () => {
+    expect(MigrationRunner.checksum('SELECT 1;\r\nSELECT 2;')).toBe(MigrationRunner.checksum('SELECT 1;\nSELECT 2;'));
+  });
+
+  it('reverts the latest migrations with their down files', async () => {
+    ledger = [{ version: '001', name: 'initial', checksum: 'x', applied_at: new Date() }];
+    const reverted = await new MigrationRunner(pool, dir).down(1);
+
+    expect(reverted).toEqual(['001']);
+    expect(statements()).toContain('DROP TABLE a;');
+    expect(mockQuery).toHaveBeenCalledWith('DELETE FROM schema_migrations WHERE version = $1', ['001']);
+  });
+
+  it('refuses to roll back when a down file is missing', async () => {
+    ledger = [
+      { version: '001', name: 'initial', checksum: 'x', applied_at: new Date() },
+      { version: '002', name: 'second', checksum: 'y', applied_at: new Date() },
+    ];
+    await expect(new MigrationRunner(pool, dir).down(2)).rejects.toThrow('No down migration for: 002_second');
+    expect(statements()).not.toContain('DROP TABLE a;');
+  });
+
+  it('reports drifted and missing migrations from verify', async () => {
+    ledger = [
+      { version: '001', name: 'initial', checksum: 'stale', applied_at: new Date() },
+      { version: '000', name: 'deleted', checksum: 'z', applied_at: new Date() },
+    ];
+    const problems = await new MigrationRunner(pool, dir).verify();
+
+    expect(problems.map((p) => [p.version, p.state])).toEqual([
+      ['000', 'missing'],
+      ['001', 'drifted'],
+    ]);
+  });
+});
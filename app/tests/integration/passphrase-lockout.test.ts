@@ -0,0 +1,138 @@
+/**
+ * Passphrase Lockout Integration Tests
+ * Wrong OPSEC passphrases on first send and thread unlock are counted, lock
+ * the link or thread out with exponential backoff (even for guesses made in
+ * parallel), and burn a thread that keeps failing
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import { CryptoUtils } from '../../src/utils/crypto-utils';
+import { AppSyncPublisher } from '../../src/services/appsync-publisher';
+import { PassphraseGuardService, lockoutMs, linkAttemptKey } from '../../src/services/passphrase-guard-service';
+
+process.env.DATA_STORE = 'memory';
+
+const PASSPHRASE = 'correct horse';
+const MINUTE = 60 * 1000;
+const SENDER_IP = '198.51.100.7';
+
+describe('Passphrase lockout', () => {
+  const app = createServer();
+  let clock = Date.now();
+  let linkCount = 0;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    // PBKDF2 at 600k iterations is too slow to run dozens of times here
+    jest.spyOn(CryptoUtils, 'pbkdf2Verify').mockImplementation(async (passphrase) => passphrase === PASSPHRASE);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function createLink(): Promise<string> {
+    linkCount += 1;
+    const link_id = `lockoutlink${String(linkCount).padStart(2, '0')}`;
+    await getRepositories().links.create({
+      link_id,
+      owner_user_id: 'lockout-owner',
+      display_name: 'Lockout',
+      public_key: 'pk',
+      opsec_mode: true,
+      opsec_access: 'device_bound',
+      opsec_passphrase_hash: 'hash',
+      opsec_passphrase_salt: 'salt',
+    });
+    return link_id;
+  }
+
+  function send(linkId: string, passphrase: string, ip = SENDER_IP) {
+    return request(app).post('/api/v1/send').set('X-Forwarded-For', ip).send({
+      recipient_link_id: linkId,
+      ciphertext: 'hello-ciphertext',
+      sender_public_key: 'sender-pk',
+      passphrase,
+    });
+  }
+
+  it('backs off exponentially after the free attempts', () => {
+    expect([1, 2, 3, 4, 5, 6].map(lockoutMs)).toEqual([0, 0, 0, 30_000, 60_000, 120_000]);
+    expect(lockoutMs(20)).toBe(60 * MINUTE);
+  });
+
+  it('locks a link out of first sends and clears the count on success', async () => {
+    const linkId = await createLink();
+    for (let i = 0; i < 3; i++) {
+      const wrong = await send(linkId, 'guess');
+      expect(wrong.status).toBe(401);
+      expect(wrong.body.error.code).toBe('INVALID_PASSPHRASE');
+    }
+
+    const locked = await send(linkId, 'guess');
+    expect(locked.status).toBe(429);
+    expect(locked.body.error).toMatchObject({ code: 'LOCKED_OUT', details: { retry_after: 30 } });
+    expect(locked.headers['retry-after']).toBe('30');
+
+    // Not even the right passphrase is checked during the lockout
+    expect((await send(linkId, PASSPHRASE)).body.error.code).toBe('LOCKED_OUT');
+
+    clock += 31 * 1000;
+    await send(linkId, PASSPHRASE).expect(201);
+    expect(await getRepositories().passphraseAttempts.find('link', linkAttemptKey(linkId, SENDER_IP))).toBeNull();
+  });
+
+  it("keeps one client's link lockout from blocking other senders", async () => {
+    const linkId = await createLink();
+    for (let i = 0; i < 4; i++) await send(linkId, 'guess');
+    expect((await send(linkId, PASSPHRASE)).body.error.code).toBe('LOCKED_OUT');
+
+    await send(linkId, PASSPHRASE, '203.0.113.9').expect(201);
+    expect((await send(linkId, PASSPHRASE)).body.error.code).toBe('LOCKED_OUT');
+  });
+
+  it('counts parallel guesses before checking them, so none outrun the lockout', async () => {
+    const link = (await getRepositories().links.findById(await createLink()))!;
+    const guard = new PassphraseGuardService();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => guard.verify({ scope: 'link', link, client: SENDER_IP }, 'guess'))
+    );
+    expect(results.map((r) => r.status === 'rejected' && r.reason.code)).toEqual([
+      'INVALID_PASSPHRASE', 'INVALID_PASSPHRASE', 'INVALID_PASSPHRASE',
+      ...Array(7).fill('LOCKED_OUT'),
+    ]);
+    // Only the guess that started the lockout counted past the free ones
+    expect((await getRepositories().passphraseAttempts.find('link', linkAttemptKey(link.link_id, SENDER_IP)))?.failures).toBe(4);
+  });
+
+  it('burns a thread after too many wrong unlocks and alerts the owner', async () => {
+    const alert = jest.spyOn(AppSyncPublisher.prototype, 'publishPassphraseAlert').mockResolvedValue();
+    const linkId = await createLink();
+    const threadId = (await send(linkId, PASSPHRASE).expect(201)).body.data.thread_id;
+    const unlock = (passphrase: string) =>
+      request(app).post(`/api/v1/thread/${threadId}/unlock`).send({ passphrase });
+
+    const first = await unlock('guess');
+    expect(first.status).toBe(401);
+    expect(first.body.error).toMatchObject({ code: 'INVALID_PASSPHRASE', details: { attempts_remaining: 9 } });
+
+    // Wait out each lockout (and the unlock rate limit) between guesses
+    const codes: string[] = [];
+    for (let i = 2; i <= 10; i++) {
+      clock += 17 * MINUTE;
+      codes.push((await unlock('guess')).body.error.code);
+    }
+    expect(codes).toEqual([
+      'INVALID_PASSPHRASE', 'INVALID_PASSPHRASE', 'LOCKED_OUT', 'LOCKED_OUT',
+      'LOCKED_OUT', 'LOCKED_OUT', 'LOCKED_OUT', 'LOCKED_OUT', 'INVALID_PASSPHRASE',
+    ]);
+
+    expect((await getRepositories().threads.findById(threadId))?.burned).toBe(true);
+    await unlock(PASSPHRASE).expect(404);
+    expect(alert).toHaveBeenCalledWith(linkId, 'passphrase_locked_out', threadId);
+    expect(alert).toHaveBeenCalledWith(linkId, 'thread_burned', threadId);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Shared Rate Limit Store Integration Tests
+ * Limiters count in the repository rather than per process, under hashed
+ * keys, and pick up rate_limit_policies overrides without a restart; the
+ * in-memory store drops finished windows itself.
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import { SharedRateLimitStore, sharedRateLimit } from '../../src/middleware/rate-limit-store';
+import { CryptoUtils, getAppSecret } from '../../src/utils/crypto-utils';
+import { createTables } from '../../src/models/memory/memory-store';
+import { MemoryRateLimitRepository } from '../../src/models/memory/rate-limit-repository';
+
+process.env.DATA_STORE = 'memory';
+
+describe('Shared rate limit store', () => {
+  const app = createServer();
+
+  function unlock(threadId: string) {
+    return request(app).post(`/api/v1/thread/${threadId}/unlock`).send({ passphrase: 'guess' });
+  }
+
+  it('shares counts between limiter instances with the same name', async () => {
+    const threadId = crypto.randomUUID();
+    for (let i = 0; i < 5; i++) {
+      expect((await unlock(threadId)).status).not.toBe(429);
+    }
+
+    // A second instance, as another API process would build it
+    const other = express();
+    other.post('/unlock/:thread_id', sharedRateLimit('unlock', {
+      windowMs: 15 * 60 * 1000,
+      max: 5,
+      keyGenerator: (req) => `unlock:${req.params.thread_id}`,
+    }), (_req, res) => {
+      res.status(204).end();
+    });
+
+    await request(other).post(`/unlock/${threadId}`).expect(429);
+    await request(other).post(`/unlock/${crypto.randomUUID()}`).expect(204);
+  });
+
+  it('stores HMACs of keys, never the keys themselves', async () => {
+    await new SharedRateLimitStore('unlock').increment('unlock:some-thread');
+
+    const hashed = CryptoUtils.generateHMAC('unlock:unlock:some-thread', getAppSecret());
+    expect((await getRepositories().rateLimits.hit(hashed, 60_000)).total_hits).toBe(2);
+    expect((await getRepositories().rateLimits.hit('unlock:some-thread', 60_000)).total_hits).toBe(1);
+  });
+
+  it('drops finished windows from the in-memory store', async () => {
+    const tables = createTables();
+    const rateLimits = new MemoryRateLimitRepository(tables);
+    await rateLimits.hit('prune:short', 1000);
+    await rateLimits.hit('prune:long', 60 * 60 * 1000);
+
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+    try {
+      await rateLimits.hit('prune:other', 1000);
+    } finally {
+      spy.mockRestore();
+    }
+    expect([...tables.rateLimitHits.keys()].sort()).toEqual(['prune:long', 'prune:other']);
+  });
+
+  it('applies a policy override once the cache refreshes', async () => {
+    const threadId = crypto.randomUUID();
+    await getRepositories().rateLimits.savePolicy('thread_view', 300, 2);
+
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+    try {
+      await request(app).get(`/api/v1/thread/${threadId}`).expect(404);
+      await request(app).get(`/api/v1/thread/${threadId}`).expect(404);
+      const limited = await request(app).get(`/api/v1/thread/${threadId}`);
+      expect(limited.status).toBe(429);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('refuses unlocks but lets other requests through when the store fails', async () => {
+    const hit = jest.spyOn(getRepositories().rateLimits, 'hit').mockRejectedValue(new Error('store down'));
+    try {
+      expect((await unlock(crypto.randomUUID())).status).toBe(500);
+      await request(app).get(`/api/v1/thread/${crypto.randomUUID()}`).expect(404);
+    } finally {
+      hit.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Reaper Integration Tests
+ * Leader election, dry-run and sweep ordering against a mocked pg client
+ */
+
+jest.mock('../../src/config/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    log: jest.fn(),
+  },
+}));
+
+const mockQuery = jest.fn();
+const mockRelease = jest.fn();
+jest.mock('../../src/config/database', () => ({
+  getDb: jest.fn(() => ({
+    connect: jest.fn().mockResolvedValue({ query: mockQuery, release: mockRelease }),
+    query: mockQuery,
+  })),
+}));
+
+const mockDeleteObjects = jest.fn();
+jest.mock('../../src/services/attachment-service', () => ({
+  getAttachmentStore: () => ({ deleteMany: mockDeleteObjects }),
+}));
+
+import { getDb } from '../../src/config/database';
+import { ReaperService } from '../../src/services/reaper-service';
+import { LoggerUtils } from '../../src/utils/logger-utils';
+
+let lockAcquired = true;
+
+/** Route fake responses by SQL text */
+function respond(sql: string): { rows: Record<string, unknown>[]; rowCount?: number } {
+  if (sql.includes('pg_try_advisory_xact_lock')) return { rows: [{ acquired: lockAcquired }] };
+  if (sql.includes('COUNT(*)')) return { rows: [{ count: '2' }] };
+  if (sql.startsWith('SELECT thread_id FROM threads')) return { rows: [{ thread_id: 't1' }] };
+  if (sql.trim().startsWith('SELECT link_id FROM links')) return { rows: [] };
+  if (sql.includes('FROM broadcast_channels')) return { rows: [{ channel_id: 'c1' }, { channel_id: 'c2' }] };
+  if (sql.includes('cleanup_expired_links')) return { rows: [{ count: 3 }] };
+  if (sql.includes('auto_lock_rooms')) return { rows: [{ count: 1 }] };
+  if (sql.includes('cleanup_expired_rooms')) return { rows: [{ count: 0 }] };
+  if (sql.includes('SELECT object_key FROM attachments')) return { rows: [{ object_key: 'attachments/a1' }] };
+  if (sql.includes('DELETE FROM attachments')) return { rows: [], rowCount: 1 };
+  if (sql.includes('INSERT INTO reaper_runs')) return { rows: [{ last_sweep_at: new Date(0) }] };
+  return { rows: [] };
+}
+
+describe('ReaperService', () => {
+  beforeEach(() => {
+    lockAcquired = true;
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (sql: string) => respond(sql));
+    mockRelease.mockReset();
+    mockDeleteObjects.mockReset();
+  });
+
+  it('skips the sweep when another worker holds the advisory lock', async () => {
+    lockAcquired = false;
+    const result = await new ReaperService().sweep(false);
+
+    expect(result).toBeNull();
+    const statements = mockQuery.mock.calls.map((c) => c[0] as string);
+    expect(statements).toContain('ROLLBACK');
+    expect(statements.some((s) => s.includes('DELETE'))).toBe(false);
+    expect(mockRelease).toHaveBeenCalled();
+  });
+
+  it('counts without deleting in dry-run mode', async () => {
+    const metricSpy = jest.spyOn(LoggerUtils, 'logMetric');
+    const result = await new ReaperService().sweep(true);
+
+    expect(result?.dry_run).toBe(true);
+    expect(result?.counts).toEqual({
+      reaper_threads_expired: 2,
+      reaper_links_purged: 2,
+      reaper_links_deleted: 2,
+      reaper_rooms_locked: 2,
+      reaper_rooms_deleted: 2,
+      reaper_broadcast_channels_expired: 2,
+      reaper_webhook_deliveries_deleted: 2,
+      reaper_device_links_deleted: 2,
+      reaper_rate_limits_deleted: 2,
+      reaper_passphrase_attempts_deleted: 2,
+      reaper_spent_challenges_deleted: 2,
+      reaper_attachments_purged: 2,
+    });
+    const statements = mockQuery.mock.calls
+      .map((c) => c[0] as string)
+      .filter((s) => !s.includes('INSERT INTO reaper_runs'));
+    expect(statements.some((s) => /DELETE|UPDATE|cleanup_|auto_lock/.test(s))).toBe(false);
+    expect(statements).toContain('COMMIT');
+    expect(metricSpy).not.toHaveBeenCalled();
+    expect(mockDeleteObjects).not.toHaveBeenCalled();
+    metricSpy.mockRestore();
+  });
+
+  it('purges ciphertext and emits a metric per sweep', async () => {
+    const metricSpy = jest.spyOn(LoggerUtils, 'logMetric');
+    const result = await new ReaperService().sweep(false);
+
+    expect(result?.counts).toEqual({
+      reaper_threads_expired: 1,
+      reaper_links_purged: 0,
+      reaper_links_deleted: 3,
+      reaper_rooms_locked: 1,
+      reaper_rooms_deleted: 0,
+      reaper_broadcast_channels_expired: 2,
+      reaper_webhook_deliveries_deleted: 0,
+      reaper_device_links_deleted: 0,
+      reaper_rate_limits_deleted: 0,
+      reaper_passphrase_attempts_deleted: 0,
+      reaper_spent_challenges_deleted: 0,
+      reaper_attachments_purged: 1,
+    });
+
+    const statements = mockQuery.mock.calls.map((c) => c[0] as string);
+    const roomMessagesDelete = statements.findIndex((s) => s.includes('DELETE FROM room_messages'));
+    const roomsCleanup = statements.findIndex((s) => s.includes('cleanup_expired_rooms'));
+    expect(roomMessagesDelete).toBeGreaterThan(-1);
+    expect(roomMessagesDelete).toBeLessThan(roomsCleanup);
+    expect(statements).toContain('DELETE FROM messages WHERE thread_id = ANY($1)');
+    expect(statements).toContain('DELETE FROM broadcast_posts WHERE channel_id = ANY($1)');
+    expect(mockDeleteObjects).toHaveBeenCalledWith(['attachments/a1']);
+    expect(statements.findIndex((s) => s.includes('DELETE FROM attachments')))
+      .toBeGreaterThan(statements.findIndex((s) => s.includes('cleanup_expired_rooms')));
+
+    expect(metricSpy).toHaveBeenCalledWith('reaper_threads_expired', 1, 'count');
+    expect(metricSpy).toHaveBeenCalledWith('reaper_broadcast_channels_expired', 2, 'count');
+    metricSpy.mockRestore();
+  });
+
+  it('rolls back and reports no result when a sweep fails', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('cleanup_expired_links')) throw new Error('boom');
+      return respond(sql);
+    });
+
+    const result = await new ReaperService().sweep(false);
+
+    expect(result).toBeNull();
+    const statements = mockQuery.mock.calls.map((c) => c[0] as string);
+    expect(statements).toContain('ROLLBACK');
+    expect(statements).not.toContain('COMMIT');
+    expect(mockRelease).toHaveBeenCalled();
+  });
+
+  it('keeps expiring when the object store is down', async () => {
+    mockDeleteObjects.mockRejectedValue(new Error('S3 unavailable'));
+
+    const result = await new ReaperService().sweep(false);
+
+    expect(result?.counts).toMatchObject({ reaper_threads_expired: 1, reaper_attachments_purged: 0 });
+    const statements = mockQuery.mock.calls.map((c) => c[0] as string);
+    expect(statements).toContain('ROLLBACK TO SAVEPOINT isolated_sweep');
+    expect(statements.some((s) => s.includes('DELETE FROM attachments'))).toBe(false);
+    expect(statements).toContain('COMMIT');
+  });
+
+  it('sweeps again after failing to connect', async () => {
+    (getDb as jest.Mock).mockReturnValueOnce({ connect: jest.fn().mockRejectedValue(new Error('no connection')) });
+    const reaper = new ReaperService();
+
+    expect(await reaper.sweep(false)).toBeNull();
+    expect(mockRelease).not.toHaveBeenCalled();
+    expect(await reaper.sweep(false)).not.toBeNull();
+  });
+});
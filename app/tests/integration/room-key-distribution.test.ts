@@ -0,0 +1,148 @@
+/**
+ * Room Key Distribution Integration Tests
+ * Large rooms, batched first-key distribution, claim leases, delegated
+ * distributors and participant paging
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { OWNER, OTHER } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+
+interface Member {
+  participant_id: string;
+  anonymous_id: string;
+}
+
+describe('Room key distribution', () => {
+  const app = createServer();
+  const base = '/api/v1/dashboard/rooms';
+
+  // Dashboard routes need one of the owner's registered devices
+  beforeAll(async () => {
+    for (const auth of [OWNER, OTHER]) {
+      const device = await request(app).post('/api/v1/dashboard/devices').set(auth).send({ name: 'Test browser' });
+      auth['X-Device-Id'] = device.body.data.device_id;
+    }
+  });
+
+  async function createRoom(fields: Record<string, unknown> = {}) {
+    return request(app).post(base).set(OWNER).send({
+      display_name: 'Town hall',
+      auto_approve: true,
+      group_public_key: 'room-pub',
+      creator_public_key: 'creator-pub',
+      creator_wrapped_group_key: 'creator-wrap',
+      ...fields,
+    });
+  }
+
+  /** Auto-approved room with `count` joined members still waiting for keys */
+  async function roomWithMembers(count: number): Promise<{ roomId: string; members: Member[] }> {
+    const roomId = (await createRoom({ max_participants: 200 })).body.data.room_id as string;
+    const invites = await request(app).post(`${base}/${roomId}/invites`).set(OWNER).send({ count });
+
+    const members: Member[] = [];
+    for (const [i, invite] of (invites.body.data.invites as { token: string }[]).entries()) {
+      const joined = await request(app)
+        .post('/api/v1/rooms/join')
+        .send({ invite_token: invite.token, public_key: `member-pub-${i}`, display_name: `m${i}` });
+      expect(joined.status).toBe(201);
+      members.push({ participant_id: joined.body.data.participant_id, anonymous_id: joined.body.data.anonymous_id });
+    }
+    return { roomId, members };
+  }
+
+  function wraps(...members: Member[]) {
+    return members.map((m) => ({ participant_id: m.participant_id, wrapped_group_key: `wrap-${m.participant_id}` }));
+  }
+
+  it('accepts rooms of up to 200 participants', async () => {
+    expect((await createRoom({ max_participants: 200 })).status).toBe(201);
+    expect((await createRoom({ max_participants: 201 })).status).toBe(400);
+  });
+
+  it('leases disjoint batches and stores wraps in one call', async () => {
+    const { roomId, members } = await roomWithMembers(3);
+
+    const first = await request(app).get(`${base}/${roomId}/needs-keys?limit=2`).set(OWNER);
+    expect(first.status).toBe(200);
+    expect(first.body.data.key_epoch).toBe(0);
+    expect(first.body.data.participants.map((p: Member) => p.participant_id))
+      .toEqual([members[0].participant_id, members[1].participant_id]);
+
+    const set = await request(app).post(`${base}/${roomId}/set-keys`).set(OWNER)
+      .send({ key_epoch: 0, wrapped_keys: wraps(members[0], members[1]) });
+    expect(set.status).toBe(200);
+    expect(set.body.data.participant_ids).toEqual([members[0].participant_id, members[1].participant_id]);
+
+    // Resubmitting is harmless: members that already have a key are skipped
+    const again = await request(app).post(`${base}/${roomId}/set-keys`).set(OWNER)
+      .send({ key_epoch: 0, wrapped_keys: wraps(members[0]) });
+    expect(again.body.data.participant_ids).toEqual([]);
+
+    const stale = await request(app).post(`${base}/${roomId}/set-keys`).set(OWNER)
+      .send({ key_epoch: 1, wrapped_keys: wraps(members[2]) });
+    expect(stale.status).toBe(400);
+    expect(stale.body.error.details).toEqual({ key_epoch: 0 });
+
+    const status = await request(app).get(`/api/v1/rooms/${roomId}/status?anonymous_id=${members[0].anonymous_id}`);
+    expect(status.body.data.wrapped_group_key).toBe(`wrap-${members[0].participant_id}`);
+    expect(status.body.data.wrapper_public_key).toBeUndefined();
+  });
+
+  it('lets a delegated member wrap keys with their own key pair', async () => {
+    const { roomId, members } = await roomWithMembers(3);
+    const [delegate, second, third] = members;
+    const delegateNeeds = `/api/v1/rooms/${roomId}/needs-keys?anonymous_id=${delegate.anonymous_id}`;
+
+    await request(app).post(`${base}/${roomId}/set-keys`).set(OWNER)
+      .send({ key_epoch: 0, wrapped_keys: wraps(delegate) }).expect(200);
+
+    expect((await request(app).get(delegateNeeds)).status).toBe(403);
+    const grantUrl = `${base}/${roomId}/participants/${delegate.participant_id}/distributor`;
+    expect((await request(app).post(grantUrl).set(OTHER)).status).toBe(403);
+    const granted = await request(app).post(grantUrl).set(OWNER);
+    expect(granted.body.data).toEqual({ participant_id: delegate.participant_id, can_distribute_keys: true });
+
+    // The creator holds a lease on `second`, so the delegate only gets `third`
+    await request(app).get(`${base}/${roomId}/needs-keys?limit=1`).set(OWNER).expect(200);
+    const claimed = await request(app).get(delegateNeeds);
+    expect(claimed.status).toBe(200);
+    expect(claimed.body.data.participants.map((p: Member) => p.participant_id)).toEqual([third.participant_id]);
+
+    const set = await request(app).post(`/api/v1/rooms/${roomId}/set-keys`)
+      .send({ anonymous_id: delegate.anonymous_id, key_epoch: 0, wrapped_keys: wraps(third) });
+    expect(set.body.data.participant_ids).toEqual([third.participant_id]);
+
+    const status = await request(app).get(`/api/v1/rooms/${roomId}/status?anonymous_id=${third.anonymous_id}`);
+    expect(status.body.data.wrapper_public_key).toBe('member-pub-0');
+
+    const forged = await request(app).post(`/api/v1/rooms/${roomId}/set-keys`)
+      .send({ anonymous_id: second.anonymous_id, key_epoch: 0, wrapped_keys: wraps(second) });
+    expect(forged.status).toBe(403);
+
+    await request(app).delete(grantUrl).set(OWNER).expect(200);
+    expect((await request(app).get(delegateNeeds)).status).toBe(403);
+  });
+
+  it('pages through participants with a cursor', async () => {
+    const { roomId, members } = await roomWithMembers(4);
+    const url = `${base}/${roomId}/participants`;
+
+    const first = await request(app).get(`${url}?limit=3`).set(OWNER);
+    expect(first.status).toBe(200);
+    expect(first.body.data.participants).toHaveLength(3);
+    expect(first.body.data.participants[0].is_creator).toBe(true);
+    expect(first.body.data.next_cursor).toEqual(expect.any(String));
+
+    const second = await request(app).get(`${url}?limit=3&cursor=${first.body.data.next_cursor}`).set(OWNER);
+    expect(second.body.data.participants.map((p: Member) => p.participant_id))
+      .toEqual([members[2].participant_id, members[3].participant_id]);
+    expect(second.body.data.next_cursor).toBeNull();
+
+    expect((await request(app).get(`${url}?cursor=nonsense`).set(OWNER)).status).toBe(400);
+    expect((await request(app).get(url).set(OTHER)).status).toBe(403);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Room Key Rotation Integration Tests
+ * Participant removal, epoch checks and wrap coverage against a mocked pg client
+ */
+
+jest.mock('../../src/config/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    log: jest.fn(),
+  },
+}));
+
+const mockQuery = jest.fn();
+const mockRelease = jest.fn();
+jest.mock('../../src/config/database', () => ({
+  getDb: jest.fn(() => ({
+    connect: jest.fn().mockResolvedValue({ query: mockQuery, release: mockRelease }),
+    query: mockQuery,
+  })),
+}));
+
+import { RoomKeyService } from '../../src/services/room-key-service';
+import { ValidationError, AuthorizationError } from '../../src/utils/error-utils';
+
+const ROOM = '123e4567-e89b-12d3-a456-426614174000';
+const TARGET = '123e4567-e89b-12d3-a456-426614174001';
+const ALICE = '123e4567-e89b-12d3-a456-426614174002';
+const BOB = '123e4567-e89b-12d3-a456-426614174003';
+
+let target: Record<string, unknown>;
+let holders: string[];
+
+/** Route fake responses by SQL text */
+function respond(sql: string): { rows: Record<string, unknown>[]; rowCount?: number } {
+  if (sql.includes('SELECT * FROM rooms')) {
+    return { rows: [{ room_id: ROOM, creator_user_id: 'owner', burned: false, key_epoch: 0 }] };
+  }
+  if (sql.includes('SELECT * FROM room_participants WHERE participant_id')) return { rows: [target] };
+  if (sql.includes('FOR UPDATE')) return { rows: [{ key_epoch: 0 }] };
+  if (sql.includes('SELECT participant_id FROM room_participants')) {
+    return { rows: holders.map((participant_id) => ({ participant_id })) };
+  }
+  if (sql.includes("SET status = 'removed'")) return { rows: [], rowCount: target.status === 'approved' ? 1 : 0 };
+  return { rows: [] };
+}
+
+function statements(): string[] {
+  return mockQuery.mock.calls.map((c) => (c[0] as string).trim());
+}
+
+describe('RoomKeyService.removeParticipant', () => {
+  beforeEach(() => {
+    target = { participant_id: TARGET, room_id: ROOM, status: 'approved', is_creator: false };
+    holders = [ALICE, BOB];
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (sql: string) => respond(sql));
+    mockRelease.mockReset();
+  });
+
+  it('archives old wraps, swaps in the new epoch and removes the participant', async () => {
+    const result = await new RoomKeyService().removeParticipant(ROOM, TARGET, 'owner', {
+      key_epoch: 1,
+      wrapped_keys: [
+        { participant_id: ALICE, wrapped_group_key: 'wrap-a' },
+        { participant_id: BOB, wrapped_group_key: 'wrap-b' },
+      ],
+    });
+
+    expect(result).toEqual({ participant_id: TARGET, status: 'removed', key_epoch: 1 });
+
+    const archive = mockQuery.mock.calls.find((c) => (c[0] as string).includes('INSERT INTO room_participant_keys'));
+    expect(archive?.[1]).toEqual([[ALICE, BOB], 0]);
+    const swap = mockQuery.mock.calls.find((c) => (c[0] as string).includes('unnest'));
+    expect(swap?.[1]).toEqual([[ALICE, BOB], ['wrap-a', 'wrap-b']]);
+    const bump = mockQuery.mock.calls.find((c) => (c[0] as string).startsWith('UPDATE rooms SET key_epoch'));
+    expect(bump?.[1]).toEqual([ROOM, 1]);
+
+    const sql = statements();
+    expect(sql.indexOf('BEGIN')).toBeLessThan(sql.findIndex((s) => s.includes('unnest')));
+    expect(sql[sql.length - 1]).toBe('COMMIT');
+    expect(mockRelease).toHaveBeenCalled();
+  });
+
+  it('rolls back when wraps are missing for a remaining participant', async () => {
+    const promise = new RoomKeyService().removeParticipant(ROOM, TARGET, 'owner', {
+      key_epoch: 1,
+      wrapped_keys: [{ participant_id: ALICE, wrapped_group_key: 'wrap-a' }],
+    });
+
+    await expect(promise).rejects.toThrow(ValidationError);
+    expect(statements()).toContain('ROLLBACK');
+    expect(statements().some((s) => s.includes('unnest'))).toBe(false);
+  });
+
+  it('rejects a wrap for the participant being removed', async () => {
+    holders = [ALICE];
+    const promise = new RoomKeyService().removeParticipant(ROOM, TARGET, 'owner', {
+      key_epoch: 1,
+      wrapped_keys: [
+        { participant_id: ALICE, wrapped_group_key: 'wrap-a' },
+        { participant_id: TARGET, wrapped_group_key: 'wrap-t' },
+      ],
+    });
+
+    await expect(promise).rejects.toThrow('wrapped_keys must cover exactly the remaining participants');
+  });
+
+  it('rejects a stale key epoch', async () => {
+    const promise = new RoomKeyService().removeParticipant(ROOM, TARGET, 'owner', {
+      key_epoch: 3,
+      wrapped_keys: [],
+    });
+
+    await expect(promise).rejects.toThrow('Expected key_epoch 1');
+    expect(statements()).toContain('ROLLBACK');
+  });
+
+  it('only lets the creator remove approved, non-creator participants', async () => {
+    const service = new RoomKeyService();
+    const input = { key_epoch: 1, wrapped_keys: [] };
+
+    await expect(service.removeParticipant(ROOM, TARGET, 'someone-else', input)).rejects.toThrow(AuthorizationError);
+
+    target = { ...target, status: 'pending' };
+    await expect(service.removeParticipant(ROOM, TARGET, 'owner', input)).rejects.toThrow('Participant is not approved');
+
+    target = { ...target, status: 'approved', is_creator: true };
+    await expect(service.removeParticipant(ROOM, TARGET, 'owner', input)).rejects.toThrow('The room creator cannot be removed');
+    expect(statements()).not.toContain('BEGIN');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Room Lifespan Integration Tests
+ * Per-room lifespan at creation, creator-only extension and reopening the join
+ * window
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import { OWNER, OTHER } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+process.env.ROOM_MAX_LIFESPAN_HOURS = '72';
+process.env.ROOM_MAX_JOIN_WINDOW_MINUTES = '120';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Room lifespan', () => {
+  const app = createServer();
+  const base = '/api/v1/dashboard/rooms';
+
+  // Dashboard routes need one of the owner's registered devices
+  beforeAll(async () => {
+    for (const auth of [OWNER, OTHER]) {
+      const device = await request(app).post('/api/v1/dashboard/devices').set(auth).send({ name: 'Test browser' });
+      auth['X-Device-Id'] = device.body.data.device_id;
+    }
+  });
+
+  async function createRoom(fields: Record<string, unknown> = {}) {
+    return request(app).post(base).set(OWNER).send({
+      display_name: 'War room',
+      group_public_key: 'gpk',
+      creator_public_key: 'cpk',
+      creator_wrapped_group_key: 'wrap',
+      ...fields,
+    });
+  }
+
+  function hoursBetween(from: string | Date, to: string | Date): number {
+    return Math.round((new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS);
+  }
+
+  it('uses the chosen lifespan, capped by the deployment limit', async () => {
+    const standard = await createRoom();
+    expect(standard.status).toBe(201);
+    expect(hoursBetween(standard.body.data.created_at, standard.body.data.expires_at)).toBe(24);
+
+    const long = await createRoom({ lifespan_hours: 48, join_window_minutes: 90 });
+    expect(long.status).toBe(201);
+    expect(hoursBetween(long.body.data.created_at, long.body.data.expires_at)).toBe(48);
+
+    expect((await createRoom({ lifespan_hours: 96 })).status).toBe(400);
+    expect((await createRoom({ join_window_minutes: 180 })).status).toBe(400);
+    expect((await createRoom({ lifespan_hours: 721 })).status).toBe(400);
+  });
+
+  it('lets only the creator extend, up to the maximum lifespan', async () => {
+    const { room_id, created_at } = (await createRoom()).body.data;
+
+    expect((await request(app).post(`${base}/${room_id}/extend`).set(OTHER).send({ hours: 1 })).status).toBe(403);
+
+    const extended = await request(app).post(`${base}/${room_id}/extend`).set(OWNER).send({ hours: 24 });
+    expect(extended.status).toBe(200);
+    expect(hoursBetween(created_at, extended.body.data.expires_at)).toBe(48);
+
+    const tooLong = await request(app).post(`${base}/${room_id}/extend`).set(OWNER).send({ hours: 25 });
+    expect(tooLong.status).toBe(400);
+    expect(tooLong.body.error.details).toEqual({ max_expires_at: expect.any(String) });
+  });
+
+  it('reopens a locked room so invites can be generated again', async () => {
+    const { room_id } = (await createRoom()).body.data;
+    await request(app).post(`${base}/${room_id}/lock`).set(OWNER).expect(200);
+
+    const blocked = await request(app).post(`${base}/${room_id}/invites`).set(OWNER).send({ count: 1 });
+    expect(blocked.status).toBe(400);
+
+    expect((await request(app).post(`${base}/${room_id}/reopen`).set(OTHER).send({})).status).toBe(403);
+    const tooLong = await request(app).post(`${base}/${room_id}/reopen`).set(OWNER).send({ join_window_minutes: 180 });
+    expect(tooLong.status).toBe(400);
+
+    const reopened = await request(app).post(`${base}/${room_id}/reopen`).set(OWNER).send({ join_window_minutes: 30 });
+    expect(reopened.status).toBe(200);
+    expect(reopened.body.data).toMatchObject({ locked_at: null, join_window_minutes: 30 });
+
+    const invites = await request(app).post(`${base}/${room_id}/invites`).set(OWNER).send({ count: 1 });
+    expect(invites.status).toBe(201);
+    const inviteExpiry = new Date(invites.body.data.invites[0].expires_at).getTime();
+    expect(inviteExpiry - new Date(reopened.body.data.join_window_opened_at).getTime()).toBe(30 * 60 * 1000);
+  });
+
+  it('does not extend or reopen an expired room', async () => {
+    const { room_id } = (await createRoom({ lifespan_hours: 1 })).body.data;
+    const room = await getRepositories().rooms.findById(room_id);
+    const later = new Date(room!.expires_at).getTime() + 1000;
+
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(later);
+    try {
+      expect((await request(app).post(`${base}/${room_id}/extend`).set(OWNER).send({ hours: 1 })).status).toBe(404);
+      expect((await request(app).post(`${base}/${room_id}/reopen`).set(OWNER).send({})).status).toBe(404);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Room Message Edit/Unsend Integration Tests
+ * Author edits, author/creator unsend and tombstones
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+
+process.env.DATA_STORE = 'memory';
+
+const NONCE = 'a'.repeat(24);
+const CREATOR = 'creator-anon-id';
+const ALICE = 'alice-anon-id';
+const BOB = 'bob-anon-id';
+
+describe('Room message edits and unsend', () => {
+  const app = createServer();
+  let roomId: string;
+  let base: string;
+
+  async function send(anonymousId: string, ciphertext: string): Promise<string> {
+    const response = await request(app)
+      .post(base)
+      .send({ anonymous_id: anonymousId, ciphertext, nonce: NONCE, key_epoch: 0 });
+    expect(response.status).toBe(201);
+    return response.body.data.message_id;
+  }
+
+  beforeAll(async () => {
+    const repos = getRepositories();
+    await repos.users.upsert('room-owner', 'owner@example.com');
+    const room = await repos.rooms.create({
+      creator_user_id: 'room-owner',
+      display_name: 'Edits',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      group_public_key: 'gpk',
+    });
+    roomId = room.room_id;
+    base = `/api/v1/rooms/${roomId}/messages`;
+
+    for (const [anonymous_id, is_creator] of [[CREATOR, true], [ALICE, false], [BOB, false]] as const) {
+      await repos.roomParticipants.create({
+        room_id: roomId,
+        anonymous_id,
+        public_key: 'pk',
+        watermark_seed: 'seed',
+        wrapped_group_key: 'wrap',
+        status: 'approved',
+        is_creator,
+      });
+    }
+  });
+
+  it('lets the author replace the ciphertext and marks it edited', async () => {
+    const messageId = await send(ALICE, 'original');
+
+    const edited = await request(app)
+      .patch(`${base}/${messageId}`)
+      .send({ anonymous_id: ALICE, ciphertext: 'rewritten', nonce: 'b'.repeat(24), key_epoch: 0 });
+    expect(edited.status).toBe(200);
+    expect(edited.body.data).toMatchObject({ ciphertext: 'rewritten', anonymous_id: ALICE, deleted_at: null });
+    expect(edited.body.data.edited_at).toEqual(expect.any(String));
+
+    const fetched = await request(app).get(`${base}/${messageId}`).query({ anonymous_id: BOB });
+    expect(fetched.body.data).toMatchObject({ ciphertext: 'rewritten', nonce: 'b'.repeat(24) });
+  });
+
+  it('keeps edits to the author, under the current key epoch', async () => {
+    const messageId = await send(ALICE, 'mine');
+    const edit = (anonymous_id: string, key_epoch = 0) => request(app)
+      .patch(`${base}/${messageId}`)
+      .send({ anonymous_id, ciphertext: 'changed', nonce: NONCE, key_epoch });
+
+    expect((await edit(BOB)).status).toBe(403);
+    expect((await edit(CREATOR)).status).toBe(403);
+
+    const stale = await edit(ALICE, 1);
+    expect(stale.status).toBe(400);
+    expect(stale.body.error.details).toEqual({ key_epoch: 0 });
+  });
+
+  it('lets the author or the creator unsend, leaving a tombstone', async () => {
+    const own = await send(BOB, 'oops');
+    const other = await send(ALICE, 'off-topic');
+
+    const denied = await request(app).delete(`${base}/${other}`).send({ anonymous_id: BOB });
+    expect(denied.status).toBe(403);
+
+    await request(app).delete(`${base}/${own}`).send({ anonymous_id: BOB }).expect(204);
+    await request(app).delete(`${base}/${other}`).send({ anonymous_id: CREATOR }).expect(204);
+    // Unsending twice is a no-op
+    await request(app).delete(`${base}/${own}`).send({ anonymous_id: BOB }).expect(204);
+
+    const listed = await request(app).get(base).query({ anonymous_id: ALICE });
+    const tombstones = listed.body.data.filter((m: { message_id: string }) => [own, other].includes(m.message_id));
+    expect(tombstones).toHaveLength(2);
+    for (const message of tombstones) {
+      expect(message).toMatchObject({ ciphertext: '', nonce: '', deleted_at: expect.any(String) });
+    }
+
+    const edit = await request(app)
+      .patch(`${base}/${own}`)
+      .send({ anonymous_id: BOB, ciphertext: 'back again', nonce: NONCE, key_epoch: 0 });
+    expect(edit.status).toBe(400);
+  });
+
+  it('404s for an unknown message', async () => {
+    const response = await request(app)
+      .delete(`${base}/123e4567-e89b-12d3-a456-426614174999`)
+      .send({ anonymous_id: ALICE });
+    expect(response.status).toBe(404);
+  });
+});
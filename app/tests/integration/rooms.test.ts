@@ -288,6 +288,25 @@ describe('BurnWare Room API Integration Tests', () => {
       });
     });
 
+    describe('POST /api/v1/dashboard/rooms/:room_id/participants/:participant_id/remove', () => {
+      it('should reject request without auth token', async () => {
+        const response = await request(app)
+          .post('/api/v1/dashboard/rooms/123e4567-e89b-12d3-a456-426614174000/participants/123e4567-e89b-12d3-a456-426614174001/remove')
+          .send({ key_epoch: 1, wrapped_keys: [] });
+
+        expect(response.status).toBe(401);
+      });
+
+      it('should require key_epoch and wrapped_keys', async () => {
+        const response = await request(app)
+          .post('/api/v1/dashboard/rooms/123e4567-e89b-12d3-a456-426614174000/participants/123e4567-e89b-12d3-a456-426614174001/remove')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({});
+
+        expect([400, 401]).toContain(response.status);
+      });
+    });
+
     describe('POST /api/v1/dashboard/rooms/:room_id/lock', () => {
       it('should reject request without auth token', async () => {
         const response = await request(app)
@@ -0,0 +1,110 @@
+/**
+ * Send Proof-of-Work Integration Tests
+ * With SEND_CHALLENGE_ENABLED, a send needs a solved, unexpired, unused
+ * challenge for its own link; used ids are shared by every process, and
+ * difficulty rises with the link's recent volume
+ */
+
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import { proofBits } from '../../src/services/send-challenge-service';
+
+process.env.DATA_STORE = 'memory';
+
+const LINK = 'powlink12345';
+const OTHER_LINK = 'powlink67890';
+
+interface Challenge {
+  challenge: string;
+  difficulty: number;
+}
+
+function solve({ challenge, difficulty }: Challenge): { challenge: string; nonce: string } {
+  let nonce = 0;
+  while (proofBits(challenge, String(nonce)) < difficulty) nonce += 1;
+  return { challenge, nonce: String(nonce) };
+}
+
+describe('Send proof-of-work challenge', () => {
+  const app = createServer();
+
+  async function getChallenge(linkId = LINK): Promise<Challenge> {
+    const response = await request(app).get(`/api/v1/challenge/${linkId}`).expect(200);
+    return response.body.data;
+  }
+
+  function send(pow?: { challenge: string; nonce: string }, linkId = LINK) {
+    return request(app).post('/api/v1/send').send({
+      recipient_link_id: linkId,
+      ciphertext: 'hello-ciphertext',
+      sender_public_key: 'sender-pk',
+      ...(pow && { pow }),
+    });
+  }
+
+  beforeAll(async () => {
+    for (const link_id of [LINK, OTHER_LINK]) {
+      await getRepositories().links.create({ link_id, owner_user_id: 'pow-owner', display_name: 'PoW', public_key: 'pk' });
+    }
+  });
+
+  afterEach(() => {
+    delete process.env.SEND_CHALLENGE_ENABLED;
+  });
+
+  it('is not required unless enabled', async () => {
+    expect((await request(app).get(`/api/v1/challenge/${LINK}`)).body.data).toEqual({ required: false });
+    await send().expect(201);
+  });
+
+  it('accepts a solved challenge once, for its own link only', async () => {
+    process.env.SEND_CHALLENGE_ENABLED = 'true';
+
+    const missing = await send();
+    expect(missing.status).toBe(403);
+    expect(missing.body.error.code).toBe('CHALLENGE_FAILED');
+
+    const challenge = await getChallenge();
+    expect(challenge).toMatchObject({ required: true, difficulty: 14 });
+    expect((await send({ challenge: challenge.challenge, nonce: '0' }, OTHER_LINK)).status).toBe(403);
+
+    const solution = solve(challenge);
+    await send(solution).expect(201);
+    expect((await send(solution)).body.error.code).toBe('CHALLENGE_FAILED');
+
+    // Spent in the shared store, so no other worker takes it either
+    const [, expiresAt, , id] = challenge.challenge.split('.');
+    expect(await getRepositories().spentChallenges.spend(id, new Date(Number(expiresAt)))).toBe(false);
+  });
+
+  it('rejects unsolved, tampered and expired challenges', async () => {
+    process.env.SEND_CHALLENGE_ENABLED = 'true';
+    const challenge = await getChallenge();
+    const solution = solve(challenge);
+
+    // Lowering the difficulty breaks the signature
+    const parts = challenge.challenge.split('.');
+    parts[2] = '0';
+    expect((await send({ challenge: parts.join('.'), nonce: '0' })).status).toBe(403);
+
+    let unsolved = 0;
+    while (proofBits(challenge.challenge, String(unsolved)) >= challenge.difficulty) unsolved += 1;
+    expect((await send({ challenge: challenge.challenge, nonce: String(unsolved) })).status).toBe(403);
+
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 6 * 60 * 1000);
+    try {
+      expect((await send(solution)).status).toBe(403);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  it('raises the difficulty with the link volume', async () => {
+    for (let i = 0; i < 10; i += 1) {
+      await send(undefined, OTHER_LINK).expect(201);
+    }
+    process.env.SEND_CHALLENGE_ENABLED = 'true';
+    expect((await getChallenge(OTHER_LINK)).difficulty).toBe(16);
+  });
+});
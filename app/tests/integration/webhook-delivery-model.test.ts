@@ -0,0 +1,85 @@
+/**
+ * Webhook Delivery Model Tests
+ * The Postgres queue (lease, attempt cap, attempt log) against real SQL in PGlite
+ */
+
+import { startTestDatabase, TestDatabase } from '../helpers/pglite';
+import { LinkModel } from '../../src/models/link-model';
+import { WebhookModel } from '../../src/models/webhook-model';
+import { WebhookDeliveryModel, WebhookPayload } from '../../src/models/webhook-delivery-model';
+
+const LINK = 'sqlhooklink1';
+const PAYLOAD: WebhookPayload = {
+  event: 'thread.created',
+  link_id: LINK,
+  thread_id: null,
+  sender_type: 'anonymous',
+  timestamp: 1700000000,
+};
+
+describe('WebhookDeliveryModel (Postgres)', () => {
+  const deliveries = new WebhookDeliveryModel();
+  let database: TestDatabase;
+  let webhookId: string;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+    await new LinkModel().create({ link_id: LINK, owner_user_id: 'sql-owner', display_name: 'SQL' });
+    const webhook = await new WebhookModel().create({
+      link_id: LINK,
+      url: 'https://hooks.example.com/in',
+      secret: 'whsec',
+    });
+    webhookId = webhook.webhook_id;
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  beforeEach(async () => {
+    await database.query('DELETE FROM webhook_deliveries');
+  });
+
+  it('leases a due delivery once and records a successful attempt', async () => {
+    const [queued] = await deliveries.enqueue([webhookId], PAYLOAD);
+
+    const [claimed] = await deliveries.claimDue(10, 60, 3);
+    expect(claimed).toMatchObject({ delivery_id: queued.delivery_id, attempts: 1, url: 'https://hooks.example.com/in' });
+    expect(await deliveries.claimDue(10, 60, 3)).toHaveLength(0);
+
+    await deliveries.recordAttempt(queued.delivery_id, { status: 'delivered', status_code: 204 });
+
+    const [logged] = await deliveries.findByWebhookId(webhookId, 1);
+    expect(logged).toMatchObject({ status: 'delivered', attempts: 1, last_status_code: 204 });
+    expect(logged.delivered_at).not.toBeNull();
+  });
+
+  it('schedules a retry for a failed attempt without marking it delivered', async () => {
+    const [queued] = await deliveries.enqueue([webhookId], PAYLOAD);
+    await deliveries.claimDue(10, 60, 3);
+
+    await deliveries.recordAttempt(queued.delivery_id, {
+      status: 'pending',
+      status_code: 500,
+      error: 'HTTP 500',
+      next_attempt_at: new Date(Date.now() - 1000),
+    });
+
+    const [logged] = await deliveries.findByWebhookId(webhookId, 1);
+    expect(logged).toMatchObject({ status: 'pending', last_status_code: 500, last_error: 'HTTP 500' });
+    expect(logged.delivered_at).toBeNull();
+    expect(await deliveries.claimDue(10, 60, 3)).toHaveLength(1);
+  });
+
+  it('never leases a delivery again once it used its last attempt', async () => {
+    await deliveries.enqueue([webhookId], PAYLOAD);
+    await deliveries.claimDue(10, 60, 1);
+
+    // The worker died mid-attempt: the lease has lapsed but nothing was recorded
+    await database.query(`UPDATE webhook_deliveries SET next_attempt_at = CURRENT_TIMESTAMP - INTERVAL '1 second'`);
+
+    expect(await deliveries.claimDue(10, 60, 1)).toHaveLength(0);
+    expect(await deliveries.claimDue(10, 60, 2)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Webhook Integration Tests
+ * Registration, signed metadata-only deliveries and retry backoff with the
+ * sender stubbed out; the sender's own address checks run with DNS and
+ * https stubbed
+ */
+
+import dns from 'dns';
+import https from 'https';
+import { EventEmitter } from 'events';
+import request from 'supertest';
+import { createServer } from '../../src/server';
+import { getRepositories } from '../../src/models/repositories';
+import type { WebhookDelivery } from '../../src/models/webhook-delivery-model';
+import { webhookDispatcher, signWebhook, retryDelayMs } from '../../src/services/webhook-dispatcher';
+import { WebhookService } from '../../src/services/webhook-service';
+import { WebhookSender, WebhookRequest, isPublicAddress } from '../../src/services/webhook-sender';
+import { OWNER, OTHER, OWNER_ID } from '../helpers/auth';
+
+process.env.DATA_STORE = 'memory';
+process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+
+const LINK = 'hooklink1234';
+
+const sendMock = jest.spyOn(WebhookSender.prototype, 'send');
+const notify = jest.spyOn(WebhookService.prototype, 'notify');
+const dispatch = jest.spyOn(webhookDispatcher, 'dispatch');
+
+/** Await the fire-and-forget notify/dispatch chain, then return the latest attempt */
+async function recordedDelivery(webhookId: string): Promise<WebhookDelivery> {
+  await Promise.all(notify.mock.results.map((result) => result.value));
+  await Promise.all(dispatch.mock.results.map((result) => result.value));
+  const [latest] = await getRepositories().webhookDeliveries.findByWebhookId(webhookId, 1);
+  return latest;
+}
+
+function respondWith(status: number): void {
+  sendMock.mockResolvedValue({ status_code: status });
+}
+
+describe('Link webhooks', () => {
+  const app = createServer();
+  const base = `/api/v1/dashboard/links/${LINK}/webhooks`;
+
+  // Dashboard routes need one of the owner's registered devices
+  beforeAll(async () => {
+    for (const auth of [OWNER, OTHER]) {
+      const device = await request(app).post('/api/v1/dashboard/devices').set(auth).send({ name: 'Test browser' });
+      auth['X-Device-Id'] = device.body.data.device_id;
+    }
+  });
+
+  beforeAll(async () => {
+    await getRepositories().links.create({
+      link_id: LINK,
+      owner_user_id: OWNER_ID,
+      display_name: 'Hooked',
+      public_key: 'pk',
+    });
+  });
+
+  beforeEach(() => {
+    notify.mockClear();
+    dispatch.mockClear();
+    sendMock.mockReset();
+    respondWith(204);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('only accepts public https endpoints', async () => {
+    for (const url of ['http://example.com/hook', 'https://10.0.0.5/hook', 'https://localhost/hook']) {
+      const response = await request(app).post(base).set(OWNER).send({ url });
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('keeps webhooks to their link owner', async () => {
+    const response = await request(app).post(base).set(OTHER).send({ url: 'https://example.com/hook' });
+    expect(response.status).toBe(403);
+  });
+
+  it('shows the secret once and signs a metadata-only payload', async () => {
+    const created = await request(app).post(base).set(OWNER).send({ url: 'https://example.com/hook' });
+    expect(created.status).toBe(201);
+    const { webhook_id, secret } = created.body.data;
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+
+    const listed = await request(app).get(base).set(OWNER);
+    expect(listed.body.data).toEqual([expect.not.objectContaining({ secret: expect.anything() })]);
+
+    const sent = await request(app).post('/api/v1/send').send({
+      recipient_link_id: LINK,
+      ciphertext: 'top-secret-ciphertext',
+      sender_public_key: 'sender-pk',
+    });
+    expect(sent.status).toBe(201);
+    const delivery = await recordedDelivery(webhook_id);
+
+    expect(sendMock).toHaveBeenCalledTimes(1);
+    const [{ url, headers, body }] = sendMock.mock.calls[0] as [WebhookRequest];
+    expect(url).toBe('https://example.com/hook');
+    expect(body).not.toContain('top-secret-ciphertext');
+    expect(JSON.parse(body)).toEqual({
+      event: 'thread.created',
+      link_id: LINK,
+      thread_id: sent.body.data.thread_id,
+      sender_type: 'anonymous',
+      timestamp: expect.any(Number),
+    });
+    expect(headers['x-burnware-event']).toBe('thread.created');
+    expect(headers['x-burnware-signature'])
+      .toBe(signWebhook(secret, Number(headers['x-burnware-timestamp']), body));
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, last_status_code: 204 });
+    const log = await request(app).get(`${base}/${webhook_id}/deliveries`).set(OWNER);
+    expect(log.body.data.map((d: WebhookDelivery) => d.delivery_id)).toEqual([delivery.delivery_id]);
+
+    await request(app).delete(`${base}/${webhook_id}`).set(OWNER).expect(204);
+  });
+
+  it('retries with backoff, then gives up after the last attempt', async () => {
+    respondWith(500);
+    const created = await request(app).post(base).set(OWNER).send({ url: 'https://example.com/flaky' });
+    const { webhook_id } = created.body.data;
+
+    const queued = await request(app).post(`${base}/${webhook_id}/test`).set(OWNER);
+    expect(queued.status).toBe(202);
+    expect(queued.body.data).toMatchObject({ event: 'webhook.test', status: 'pending' });
+    const first = await recordedDelivery(webhook_id);
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, last_error: 'HTTP 500' });
+    expect(first.next_attempt_at.getTime() - Date.now()).toBeGreaterThan(25_000);
+
+    // Not due yet: nothing is sent
+    expect(await webhookDispatcher.dispatch()).toBe(0);
+
+    const later = Date.now() + 60_000;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(later);
+    try {
+      expect(await webhookDispatcher.dispatch()).toBe(1);
+    } finally {
+      clock.mockRestore();
+    }
+
+    const [last] = await getRepositories().webhookDeliveries.findByWebhookId(webhook_id, 1);
+    expect(last).toMatchObject({ status: 'failed', attempts: 2, last_status_code: 500 });
+    expect(sendMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('deletes the delivery log with the webhook', async () => {
+    const [webhook] = await getRepositories().webhooks.findByLinkId(LINK);
+
+    await request(app).delete(`${base}/${webhook.webhook_id}`).set(OWNER).expect(204);
+
+    expect(await getRepositories().webhookDeliveries.findByWebhookId(webhook.webhook_id, 10)).toEqual([]);
+    const missing = await request(app).get(`${base}/${webhook.webhook_id}/deliveries`).set(OWNER);
+    expect(missing.status).toBe(404);
+  });
+
+  it('doubles the retry delay up to a cap', () => {
+    expect([1, 2, 3].map((n) => retryDelayMs(n, 30))).toEqual([30_000, 60_000, 120_000]);
+    expect(retryDelayMs(20, 30)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('WebhookSender (direct)', () => {
+  const sender = new WebhookSender();
+  const hook = { url: 'https://hooks.example.com/in', headers: {}, body: '{}' };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function resolveTo(...addresses: string[]): void {
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue(
+      addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })) as never
+    );
+  }
+
+  it('classifies private, loopback and link-local addresses', () => {
+    const blocked = [
+      '10.0.0.5', '127.0.0.1', '169.254.169.254', '172.20.1.1', '192.168.1.1',
+      '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1',
+    ];
+    expect(blocked.filter(isPublicAddress)).toEqual([]);
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:4700::1111')).toBe(true);
+  });
+
+  it('refuses hosts that resolve to a non-public address', async () => {
+    const connect = jest.spyOn(https, 'request');
+    resolveTo('93.184.216.34', '169.254.169.254');
+
+    expect(await sender.send(hook)).toEqual({ error: 'Endpoint resolves to a non-public address' });
+    expect(connect).not.toHaveBeenCalled();
+  });
+
+  it('connects to the address it checked', async () => {
+    let pinned: unknown;
+    jest.spyOn(https, 'request').mockImplementation(((_url: URL, options: https.RequestOptions) => {
+      options.lookup!('hooks.example.com', {}, (_err, address) => {
+        pinned = address;
+      });
+      const req = Object.assign(new EventEmitter(), {
+        end: () => req.emit('error', new Error('offline')),
+        destroy: () => undefined,
+      });
+      return req;
+    }) as never);
+    resolveTo('93.184.216.34');
+
+    expect(await sender.send(hook)).toEqual({ error: 'offline' });
+    expect(pinned).toBe('93.184.216.34');
+  });
+});
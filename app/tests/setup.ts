@@ -1,6 +1,8 @@
 /**
  * Test Setup
- * Configuration for test environment
+ * Configuration for test environment. Suites that set DATA_STORE=memory run
+ * offline against the in-memory repositories; suites on real SQL start PGlite
+ * (helpers/pglite.ts).
  */
 
 // Set test environment variables before any app code loads
@@ -15,4 +17,9 @@ process.env.APP_SECRET = 'test-secret-key-for-testing-only';
 process.env.BASE_URL = 'https://test.example.com';
 process.env.LOG_TO_STDOUT = 'true';
 
+// Accept the test identities (helpers/auth.ts) instead of fetching Cognito's JWKS
+jest.mock('aws-jwt-verify', () => ({
+  CognitoJwtVerifier: jest.requireActual('./helpers/auth').TestJwtVerifier,
+}));
+
 // Extend Jest matchers if needed
@@ -100,10 +100,14 @@ const appStack = new AppStack(app, `BurnWare-App-${environmentName}`, {
   dbEndpoint: dataStack.dbEndpoint,
   dbPort: dataStack.dbPort,
   deploymentBucket: dataStack.deploymentBucket,
+  attachmentBucket: dataStack.attachmentBucket,
   deployBackendArtifact: app.node.tryGetContext('deployBackend') !== 'false',
   appSyncHttpDns: appSyncStack.httpDns,
   appSyncApiKey: appSyncStack.apiKey,
   appSyncPublishFnArn: appSyncStack.publishFn.functionArn,
+  roomDefaultLifespanHours: config.roomDefaultLifespanHours,
+  roomMaxLifespanHours: config.roomMaxLifespanHours,
+  roomMaxJoinWindowMinutes: config.roomMaxJoinWindowMinutes,
   description: 'ALB, Auto Scaling Group, CodeDeploy',
 });
 appStack.addDependency(networkStack);
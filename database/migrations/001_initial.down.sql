@@ -0,0 +1,11 @@
+-- 001 down: drop core tables (destroys ALL link/thread/message data)
+
+DROP TRIGGER IF EXISTS increment_thread_message_count ON messages;
+DROP FUNCTION IF EXISTS cleanup_expired_links();
+DROP FUNCTION IF EXISTS increment_message_count();
+DROP FUNCTION IF EXISTS update_updated_at_column();
+
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS threads;
+DROP TABLE IF EXISTS links;
+DROP TABLE IF EXISTS users;
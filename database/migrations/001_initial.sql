@@ -0,0 +1,123 @@
+-- 001: Core tables (users, links, threads, messages)
+-- Previously created inline by DatabaseConfig.runMigrations() on boot.
+-- Every statement is idempotent so databases bootstrapped by the old inline
+-- SQL or by schema.sql can record this version without changes.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+CREATE TABLE IF NOT EXISTS users (
+  user_id VARCHAR(128) PRIMARY KEY,  -- Cognito sub
+  email VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_login_at TIMESTAMP,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE
+);
+
+CREATE TABLE IF NOT EXISTS links (
+  link_id VARCHAR(64) PRIMARY KEY,
+  owner_user_id VARCHAR(128) NOT NULL,
+  display_name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  burned BOOLEAN NOT NULL DEFAULT FALSE,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  qr_code_url VARCHAR(512)
+);
+
+CREATE TABLE IF NOT EXISTS threads (
+  thread_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id VARCHAR(64) NOT NULL REFERENCES links(link_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  burned BOOLEAN NOT NULL DEFAULT FALSE,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  sender_anonymous_id VARCHAR(128) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  message_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES threads(thread_id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sender_type VARCHAR(16) NOT NULL CHECK (sender_type IN ('anonymous', 'owner')),
+  sender_id VARCHAR(128)
+);
+
+CREATE INDEX IF NOT EXISTS idx_links_owner ON links(owner_user_id);
+CREATE INDEX IF NOT EXISTS idx_threads_link ON threads(link_id);
+CREATE INDEX IF NOT EXISTS idx_messages_thread ON messages(thread_id);
+
+-- OPSEC columns
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_mode BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_access VARCHAR(20);
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_passphrase_hash VARCHAR(256);
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_passphrase_salt VARCHAR(64);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS access_token_hash VARCHAR(64);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS passphrase_hash VARCHAR(256);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS passphrase_salt VARCHAR(64);
+CREATE INDEX IF NOT EXISTS idx_threads_expires_at ON threads(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Key backup columns (encrypted private key stored server-side)
+ALTER TABLE links ADD COLUMN IF NOT EXISTS wrapped_key TEXT;
+ALTER TABLE links ADD COLUMN IF NOT EXISTS backup_salt VARCHAR(128);
+ALTER TABLE links ADD COLUMN IF NOT EXISTS backup_iv VARCHAR(128);
+
+-- Function to update updated_at timestamp (used by room triggers in 003)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = CURRENT_TIMESTAMP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to auto-increment message_count on threads and links
+CREATE OR REPLACE FUNCTION increment_message_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE threads SET message_count = message_count + 1 WHERE thread_id = NEW.thread_id;
+  UPDATE links SET message_count = message_count + 1
+    WHERE link_id = (SELECT link_id FROM threads WHERE thread_id = NEW.thread_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER increment_thread_message_count
+  AFTER INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION increment_message_count();
+
+-- Function to clean up expired links (called by the expiry reaper)
+CREATE OR REPLACE FUNCTION cleanup_expired_links()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM links
+  WHERE expires_at < CURRENT_TIMESTAMP - INTERVAL '30 days'
+    AND burned = FALSE;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fix any existing message counts that are out of sync
+UPDATE threads t SET message_count = (
+  SELECT COUNT(*) FROM messages m WHERE m.thread_id = t.thread_id
+) WHERE t.message_count = 0 AND EXISTS (
+  SELECT 1 FROM messages m WHERE m.thread_id = t.thread_id
+);
+
+UPDATE links l SET message_count = (
+  SELECT COUNT(*) FROM messages m
+  JOIN threads t ON t.thread_id = m.thread_id
+  WHERE t.link_id = l.link_id
+) WHERE l.message_count = 0 AND EXISTS (
+  SELECT 1 FROM threads t
+  JOIN messages m ON m.thread_id = t.thread_id
+  WHERE t.link_id = l.link_id
+);
@@ -0,0 +1,5 @@
+-- 002 down: remove E2EE key columns and the message length constraint
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS chk_message_length;
+ALTER TABLE threads DROP COLUMN IF EXISTS sender_public_key;
+ALTER TABLE links DROP COLUMN IF EXISTS public_key;
@@ -0,0 +1,11 @@
+-- 003 down: drop secure chat rooms (destroys all room data)
+
+DROP FUNCTION IF EXISTS cleanup_expired_rooms();
+DROP FUNCTION IF EXISTS auto_lock_rooms();
+
+DROP TABLE IF EXISTS room_messages;
+DROP TABLE IF EXISTS room_participants;
+DROP TABLE IF EXISTS room_invites;
+DROP TABLE IF EXISTS rooms;
+
+DROP FUNCTION IF EXISTS increment_room_participant_count();
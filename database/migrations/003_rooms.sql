@@ -2,7 +2,7 @@
 -- Creates rooms, room_invites, room_participants, room_messages tables
 
 -- Rooms table (secure multi-party chat rooms)
-CREATE TABLE rooms (
+CREATE TABLE IF NOT EXISTS rooms (
   room_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   creator_user_id VARCHAR(128) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
   display_name VARCHAR(100) NOT NULL,
@@ -22,12 +22,12 @@ CREATE TABLE rooms (
   CONSTRAINT chk_join_window CHECK (join_window_minutes >= 5 AND join_window_minutes <= 60)
 );
 
-CREATE INDEX idx_rooms_creator ON rooms(creator_user_id);
-CREATE INDEX idx_rooms_expires_at ON rooms(expires_at) WHERE burned = FALSE;
-CREATE INDEX idx_rooms_burned ON rooms(burned) WHERE burned = FALSE;
+CREATE INDEX IF NOT EXISTS idx_rooms_creator ON rooms(creator_user_id);
+CREATE INDEX IF NOT EXISTS idx_rooms_expires_at ON rooms(expires_at) WHERE burned = FALSE;
+CREATE INDEX IF NOT EXISTS idx_rooms_burned ON rooms(burned) WHERE burned = FALSE;
 
 -- Room invites table (one-time tokens)
-CREATE TABLE room_invites (
+CREATE TABLE IF NOT EXISTS room_invites (
   invite_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   room_id UUID NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
   invite_token_hash VARCHAR(64) NOT NULL UNIQUE,  -- SHA-256(token)
@@ -38,12 +38,12 @@ CREATE TABLE room_invites (
   revoked BOOLEAN NOT NULL DEFAULT FALSE
 );
 
-CREATE INDEX idx_room_invites_room ON room_invites(room_id);
-CREATE INDEX idx_room_invites_token_hash ON room_invites(invite_token_hash);
-CREATE INDEX idx_room_invites_expires ON room_invites(expires_at) WHERE redeemed_at IS NULL AND revoked = FALSE;
+CREATE INDEX IF NOT EXISTS idx_room_invites_room ON room_invites(room_id);
+CREATE INDEX IF NOT EXISTS idx_room_invites_token_hash ON room_invites(invite_token_hash);
+CREATE INDEX IF NOT EXISTS idx_room_invites_expires ON room_invites(expires_at) WHERE redeemed_at IS NULL AND revoked = FALSE;
 
 -- Room participants table
-CREATE TABLE room_participants (
+CREATE TABLE IF NOT EXISTS room_participants (
   participant_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   room_id UUID NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
   invite_id UUID REFERENCES room_invites(invite_id),
@@ -60,13 +60,13 @@ CREATE TABLE room_participants (
   CONSTRAINT chk_anonymous_id_length CHECK (char_length(anonymous_id) >= 8)
 );
 
-CREATE INDEX idx_room_participants_room ON room_participants(room_id);
-CREATE INDEX idx_room_participants_status ON room_participants(room_id, status);
-CREATE INDEX idx_room_participants_anonymous ON room_participants(room_id, anonymous_id);
-CREATE UNIQUE INDEX idx_room_participants_room_invite ON room_participants(room_id, invite_id) WHERE invite_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_room_participants_room ON room_participants(room_id);
+CREATE INDEX IF NOT EXISTS idx_room_participants_status ON room_participants(room_id, status);
+CREATE INDEX IF NOT EXISTS idx_room_participants_anonymous ON room_participants(room_id, anonymous_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_room_participants_room_invite ON room_participants(room_id, invite_id) WHERE invite_id IS NOT NULL;
 
 -- Room messages table
-CREATE TABLE room_messages (
+CREATE TABLE IF NOT EXISTS room_messages (
   message_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   room_id UUID NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
   participant_id UUID NOT NULL REFERENCES room_participants(participant_id),
@@ -77,11 +77,11 @@ CREATE TABLE room_messages (
   CONSTRAINT chk_nonce_length CHECK (char_length(nonce) >= 24)
 );
 
-CREATE INDEX idx_room_messages_room ON room_messages(room_id);
-CREATE INDEX idx_room_messages_created ON room_messages(room_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_room_messages_room ON room_messages(room_id);
+CREATE INDEX IF NOT EXISTS idx_room_messages_created ON room_messages(room_id, created_at);
 
 -- Trigger for rooms updated_at
-CREATE TRIGGER update_rooms_updated_at BEFORE UPDATE ON rooms
+CREATE OR REPLACE TRIGGER update_rooms_updated_at BEFORE UPDATE ON rooms
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Function to increment room participant count
@@ -95,7 +95,7 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE TRIGGER increment_room_participants AFTER INSERT OR UPDATE ON room_participants
+CREATE OR REPLACE TRIGGER increment_room_participants AFTER INSERT OR UPDATE ON room_participants
   FOR EACH ROW EXECUTE FUNCTION increment_room_participant_count();
 
 -- Function to auto-lock rooms after join window
@@ -0,0 +1,4 @@
+-- 004 down: drop broadcast channels and posts
+
+DROP TABLE IF EXISTS broadcast_posts;
+DROP TABLE IF EXISTS broadcast_channels;
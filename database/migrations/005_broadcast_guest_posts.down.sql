@@ -0,0 +1,3 @@
+-- 005 down: disable guest posting column
+
+ALTER TABLE broadcast_channels DROP COLUMN IF EXISTS allow_guest_posts;
@@ -2,4 +2,4 @@
 -- Non-blocking in PG 11+ (DEFAULT stored in catalog, no table rewrite)
 
 ALTER TABLE broadcast_channels
-  ADD COLUMN allow_guest_posts BOOLEAN NOT NULL DEFAULT FALSE;
+  ADD COLUMN IF NOT EXISTS allow_guest_posts BOOLEAN NOT NULL DEFAULT FALSE;
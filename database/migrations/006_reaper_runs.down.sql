@@ -0,0 +1,3 @@
+-- 006 down: drop reaper bookkeeping
+
+DROP TABLE IF EXISTS reaper_runs;
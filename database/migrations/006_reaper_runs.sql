@@ -0,0 +1,11 @@
+-- 006: Bookkeeping for the in-process expiry reaper
+-- One row per job; updated by whichever worker holds the advisory lock
+
+CREATE TABLE IF NOT EXISTS reaper_runs (
+  job_name VARCHAR(64) PRIMARY KEY,
+  last_sweep_at TIMESTAMPTZ NOT NULL,
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  counts JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+COMMENT ON TABLE reaper_runs IS 'Last sweep per reaper job (exposed on /health/ready)';
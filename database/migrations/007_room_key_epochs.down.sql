@@ -0,0 +1,11 @@
+-- 007 down: drop group key epochs
+
+DROP TABLE IF EXISTS room_participant_keys;
+
+UPDATE room_participants SET status = 'rejected' WHERE status = 'removed';
+ALTER TABLE room_participants DROP CONSTRAINT IF EXISTS chk_status;
+ALTER TABLE room_participants ADD CONSTRAINT chk_status
+  CHECK (status IN ('pending', 'approved', 'rejected'));
+
+ALTER TABLE room_messages DROP COLUMN IF EXISTS key_epoch;
+ALTER TABLE rooms DROP COLUMN IF EXISTS key_epoch;
@@ -0,0 +1,20 @@
+-- 007: Group key epochs for rooms
+-- Removing a participant bumps rooms.key_epoch; each message records the epoch
+-- it was encrypted under, and participants keep wraps of the keys they held before
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS key_epoch INT NOT NULL DEFAULT 0;
+ALTER TABLE room_messages ADD COLUMN IF NOT EXISTS key_epoch INT NOT NULL DEFAULT 0;
+
+ALTER TABLE room_participants DROP CONSTRAINT IF EXISTS chk_status;
+ALTER TABLE room_participants ADD CONSTRAINT chk_status
+  CHECK (status IN ('pending', 'approved', 'rejected', 'removed'));
+
+CREATE TABLE IF NOT EXISTS room_participant_keys (
+  participant_id UUID NOT NULL REFERENCES room_participants(participant_id) ON DELETE CASCADE,
+  key_epoch INT NOT NULL,
+  wrapped_group_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (participant_id, key_epoch)
+);
+
+COMMENT ON TABLE room_participant_keys IS 'Wrapped group keys from earlier epochs, so members can still read older messages';
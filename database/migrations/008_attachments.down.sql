@@ -0,0 +1,3 @@
+-- 008 down: drop encrypted attachments (objects must be purged from storage separately)
+
+DROP TABLE IF EXISTS attachments;
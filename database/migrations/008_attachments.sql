@@ -0,0 +1,22 @@
+-- 008: Encrypted attachments
+-- Objects hold client-side-encrypted blobs only; the per-file key travels inside
+-- the E2EE message. No foreign keys: rows outlive their parent so the reaper can
+-- still find and delete the object after a link, thread or room row is gone.
+
+CREATE TABLE IF NOT EXISTS attachments (
+  attachment_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_key VARCHAR(255) NOT NULL UNIQUE,
+  link_id VARCHAR(64),
+  thread_id UUID,
+  room_id UUID,
+  size_bytes INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_attachment_scope CHECK ((link_id IS NULL) <> (room_id IS NULL)),
+  CONSTRAINT chk_attachment_size CHECK (size_bytes > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_link_id ON attachments(link_id) WHERE link_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_thread_id ON attachments(thread_id) WHERE thread_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_room_id ON attachments(room_id) WHERE room_id IS NOT NULL;
+
+COMMENT ON TABLE attachments IS 'Encrypted attachment objects; thread_id is set when a message claims a link-scoped upload';
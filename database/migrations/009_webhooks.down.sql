@@ -0,0 +1,4 @@
+-- 009 down: drop link webhooks and their delivery log
+
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS link_webhooks;
@@ -0,0 +1,36 @@
+-- 009: Per-link webhooks
+-- Owners register HTTPS endpoints on a link; new threads and replies queue a
+-- metadata-only delivery (never ciphertext) signed with the webhook's secret.
+-- The secret is stored as-is because the server must sign with it.
+
+CREATE TABLE IF NOT EXISTS link_webhooks (
+  webhook_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id VARCHAR(64) NOT NULL REFERENCES links(link_id) ON DELETE CASCADE,
+  url VARCHAR(2048) NOT NULL,
+  secret VARCHAR(128) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_webhook_url_https CHECK (url LIKE 'https://%')
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_webhooks_link_id ON link_webhooks(link_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  delivery_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES link_webhooks(webhook_id) ON DELETE CASCADE,
+  event VARCHAR(32) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending',
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_status_code INT,
+  last_error VARCHAR(500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  delivered_at TIMESTAMPTZ,
+  CONSTRAINT chk_webhook_delivery_status CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+COMMENT ON TABLE link_webhooks IS 'Owner-registered HTTPS endpoints notified of new threads and replies on a link';
+COMMENT ON TABLE webhook_deliveries IS 'Retry queue and delivery log; payloads carry ids, sender type and timestamp only';
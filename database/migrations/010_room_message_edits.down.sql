@@ -0,0 +1,13 @@
+-- 010 down: drop room message edits and unsend (tombstones are removed)
+
+DELETE FROM room_messages WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE room_messages DROP CONSTRAINT IF EXISTS chk_nonce_length;
+ALTER TABLE room_messages ADD CONSTRAINT chk_nonce_length CHECK (char_length(nonce) >= 24);
+
+ALTER TABLE room_messages DROP CONSTRAINT IF EXISTS chk_ciphertext_length;
+ALTER TABLE room_messages ADD CONSTRAINT chk_ciphertext_length
+  CHECK (char_length(ciphertext) >= 1 AND char_length(ciphertext) <= 20000);
+
+ALTER TABLE room_messages DROP COLUMN IF EXISTS deleted_at;
+ALTER TABLE room_messages DROP COLUMN IF EXISTS edited_at;
@@ -0,0 +1,15 @@
+-- 010: Room message edits and unsend
+-- Authors can replace a message's ciphertext (edited_at records when). Unsending
+-- blanks the ciphertext and nonce and sets deleted_at, leaving a tombstone so
+-- every client can show "message deleted" in place.
+
+ALTER TABLE room_messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+ALTER TABLE room_messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+ALTER TABLE room_messages DROP CONSTRAINT IF EXISTS chk_ciphertext_length;
+ALTER TABLE room_messages ADD CONSTRAINT chk_ciphertext_length
+  CHECK (char_length(ciphertext) <= 20000 AND (deleted_at IS NOT NULL OR char_length(ciphertext) >= 1));
+
+ALTER TABLE room_messages DROP CONSTRAINT IF EXISTS chk_nonce_length;
+ALTER TABLE room_messages ADD CONSTRAINT chk_nonce_length
+  CHECK (deleted_at IS NOT NULL OR char_length(nonce) >= 24);
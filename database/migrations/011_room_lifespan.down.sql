@@ -0,0 +1,30 @@
+-- 011 down: back to fixed 24h rooms and a single join window from creation
+-- Rooms living past 24h are cut short; reopened windows close at their original time.
+
+UPDATE rooms SET expires_at = LEAST(expires_at, created_at + INTERVAL '24 hours');
+UPDATE rooms SET join_window_minutes = LEAST(join_window_minutes, 60);
+
+CREATE OR REPLACE FUNCTION auto_lock_rooms()
+RETURNS INTEGER AS $$
+DECLARE
+  locked_count INTEGER;
+BEGIN
+  UPDATE rooms
+  SET locked_at = CURRENT_TIMESTAMP
+  WHERE locked_at IS NULL
+    AND burned = FALSE
+    AND created_at + (join_window_minutes || ' minutes')::INTERVAL < CURRENT_TIMESTAMP;
+  GET DIAGNOSTICS locked_count = ROW_COUNT;
+  RETURN locked_count;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_lifespan;
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_join_window;
+ALTER TABLE rooms ADD CONSTRAINT chk_join_window
+  CHECK (join_window_minutes >= 5 AND join_window_minutes <= 60);
+
+ALTER TABLE rooms DROP COLUMN IF EXISTS join_window_opened_at;
+
+COMMENT ON TABLE rooms IS 'Secure multi-party chat rooms with 24h auto-expiry';
@@ -0,0 +1,37 @@
+-- 011: Configurable room lifespan, extension and reopened join windows
+-- Rooms live 1 hour to 30 days (the app enforces the per-deployment limit
+-- below this ceiling) and the creator can push expires_at out later.
+-- join_window_opened_at is when the current join window started: creation,
+-- or the last time the creator reopened a locked room to new invites.
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS join_window_opened_at TIMESTAMP;
+UPDATE rooms SET join_window_opened_at = created_at WHERE join_window_opened_at IS NULL;
+ALTER TABLE rooms ALTER COLUMN join_window_opened_at SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE rooms ALTER COLUMN join_window_opened_at SET NOT NULL;
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_join_window;
+ALTER TABLE rooms ADD CONSTRAINT chk_join_window
+  CHECK (join_window_minutes >= 5 AND join_window_minutes <= 1440);
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_lifespan;
+ALTER TABLE rooms ADD CONSTRAINT chk_lifespan
+  CHECK (expires_at > created_at AND expires_at <= created_at + INTERVAL '30 days');
+
+-- Lock once the current join window (not the original one) has passed
+CREATE OR REPLACE FUNCTION auto_lock_rooms()
+RETURNS INTEGER AS $$
+DECLARE
+  locked_count INTEGER;
+BEGIN
+  UPDATE rooms
+  SET locked_at = CURRENT_TIMESTAMP
+  WHERE locked_at IS NULL
+    AND burned = FALSE
+    AND join_window_opened_at + (join_window_minutes || ' minutes')::INTERVAL < CURRENT_TIMESTAMP;
+  GET DIAGNOSTICS locked_count = ROW_COUNT;
+  RETURN locked_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE rooms IS 'Secure multi-party chat rooms with a per-room lifespan (1h to 30 days)';
+COMMENT ON COLUMN rooms.join_window_opened_at IS 'Start of the current join window (creation or last reopen)';
@@ -0,0 +1,21 @@
+-- 012 down: back to 10-participant rooms with creator-only key distribution
+-- Delegate-wrapped keys can't be unwrapped without the wrapper's public key,
+-- so they are cleared and the creator wraps those members again.
+
+UPDATE room_participants SET wrapped_group_key = NULL WHERE key_wrapper_public_key IS NOT NULL;
+DELETE FROM room_participant_keys WHERE wrapper_public_key IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_room_participants_needs_key;
+DROP INDEX IF EXISTS idx_room_participants_cursor;
+
+ALTER TABLE room_participant_keys DROP COLUMN IF EXISTS wrapper_public_key;
+
+ALTER TABLE room_participants DROP COLUMN IF EXISTS key_claimed_at;
+ALTER TABLE room_participants DROP COLUMN IF EXISTS key_claimed_by;
+ALTER TABLE room_participants DROP COLUMN IF EXISTS key_wrapper_public_key;
+ALTER TABLE room_participants DROP COLUMN IF EXISTS can_distribute_keys;
+
+UPDATE rooms SET max_participants = LEAST(max_participants, 10);
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_max_participants;
+ALTER TABLE rooms ADD CONSTRAINT chk_max_participants
+  CHECK (max_participants >= 2 AND max_participants <= 10);
@@ -0,0 +1,26 @@
+-- 012: Large rooms (up to 200 participants) and delegated key distribution
+-- Approved members can be given key-wrapping rights so the creator doesn't
+-- have to stay online. A delegate wraps the group key with its own ECDH key,
+-- so each wrap records the wrapper's public key (NULL = the room key).
+-- key_claimed_by/at lease a participant to one distributor for a short time,
+-- splitting the work between the creator and delegates.
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_max_participants;
+ALTER TABLE rooms ADD CONSTRAINT chk_max_participants
+  CHECK (max_participants >= 2 AND max_participants <= 200);
+
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS can_distribute_keys BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS key_wrapper_public_key TEXT;
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS key_claimed_by UUID;
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS key_claimed_at TIMESTAMP;
+
+ALTER TABLE room_participant_keys ADD COLUMN IF NOT EXISTS wrapper_public_key TEXT;
+
+-- Cursor pagination over (created_at, participant_id)
+CREATE INDEX IF NOT EXISTS idx_room_participants_cursor ON room_participants(room_id, created_at, participant_id);
+-- Participants still waiting for their first wrapped key
+CREATE INDEX IF NOT EXISTS idx_room_participants_needs_key ON room_participants(room_id, created_at)
+  WHERE status = 'approved' AND wrapped_group_key IS NULL AND is_creator = FALSE;
+
+COMMENT ON COLUMN room_participants.can_distribute_keys IS 'Delegated by the creator to wrap the group key for new members';
+COMMENT ON COLUMN room_participants.key_wrapper_public_key IS 'Public key that wrapped wrapped_group_key; NULL means the room key';
@@ -0,0 +1,4 @@
+-- 013 down: drop device linking
+
+DROP TABLE IF EXISTS device_link_sessions;
+DROP TABLE IF EXISTS user_devices;
@@ -0,0 +1,37 @@
+-- 013: Owner devices and device linking
+-- Each browser an owner signs in from registers as a device. A new device is
+-- linked by an existing one: the new device posts an ephemeral ECDH public key,
+-- the old device encrypts its key bundle (link, room and broadcast keys) to it
+-- and the server relays the ciphertext through a short-lived mailbox row. The
+-- pairing code is derived from that public key, so both sides can check the
+-- server didn't swap it.
+
+CREATE TABLE IF NOT EXISTS user_devices (
+  device_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(128) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user_id ON user_devices(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS device_link_sessions (
+  session_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(128) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES user_devices(device_id) ON DELETE CASCADE,
+  pairing_code VARCHAR(12) NOT NULL,
+  public_key TEXT NOT NULL,
+  bundle TEXT,
+  sender_device_id UUID REFERENCES user_devices(device_id) ON DELETE SET NULL,
+  delivered_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_link_sessions_code ON device_link_sessions(user_id, pairing_code);
+CREATE INDEX IF NOT EXISTS idx_device_link_sessions_expires ON device_link_sessions(expires_at);
+
+COMMENT ON TABLE user_devices IS 'Browsers an owner uses; revoked devices are refused on dashboard routes';
+COMMENT ON TABLE device_link_sessions IS 'Pairing mailbox: new device ephemeral key plus the encrypted key bundle, cleared on pickup';
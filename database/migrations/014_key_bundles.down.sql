@@ -0,0 +1,3 @@
+-- 014 down: drop the account key bundle (per-link backups already folded in are not restored)
+
+DROP TABLE IF EXISTS user_key_bundles;
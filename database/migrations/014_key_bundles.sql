@@ -0,0 +1,22 @@
+-- 014: Account-wide encrypted key backup
+-- One bundle per owner holding every link, room and broadcast key, encrypted
+-- in the browser under a key derived from the vault passphrase (PBKDF2 with
+-- the salt stored here, AES-GCM). The server never sees the passphrase or the
+-- keys. `version` goes up on every write; clients send it back as If-Match so
+-- two devices merging at once can't overwrite each other.
+--
+-- The per-link backups in links.wrapped_key are folded into the bundle by the
+-- dashboard (only the passphrase can open them); it clears them in the same
+-- write that stores the merged bundle.
+
+CREATE TABLE IF NOT EXISTS user_key_bundles (
+  user_id VARCHAR(128) PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+  ciphertext TEXT NOT NULL,
+  salt VARCHAR(128) NOT NULL,
+  iv VARCHAR(128) NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE user_key_bundles IS 'Passphrase-encrypted backup of all of an owner''s keys; version is the ETag';
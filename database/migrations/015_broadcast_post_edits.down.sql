@@ -0,0 +1,6 @@
+-- 015 down: drop broadcast post edit and pin columns
+
+DROP INDEX IF EXISTS idx_broadcast_posts_pinned;
+
+ALTER TABLE broadcast_posts DROP COLUMN IF EXISTS pinned_at;
+ALTER TABLE broadcast_posts DROP COLUMN IF EXISTS edited_at;
@@ -0,0 +1,10 @@
+-- 015: Broadcast post edit, delete and pin
+-- Holders of the post token (or the owning user) can replace a post's content
+-- (edited_at records when) or delete it outright. pinned_at marks pinned posts,
+-- which lead the first page of the feed.
+
+ALTER TABLE broadcast_posts ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+ALTER TABLE broadcast_posts ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_pinned
+  ON broadcast_posts(channel_id, pinned_at DESC) WHERE pinned_at IS NOT NULL;
@@ -0,0 +1,11 @@
+-- 016 down: drop broadcast guest-post moderation (pending posts are removed)
+
+DROP TABLE IF EXISTS broadcast_trusted_guests;
+
+DELETE FROM broadcast_posts WHERE status = 'pending';
+DROP INDEX IF EXISTS idx_broadcast_posts_pending;
+ALTER TABLE broadcast_posts DROP CONSTRAINT IF EXISTS chk_broadcast_post_status;
+ALTER TABLE broadcast_posts DROP COLUMN IF EXISTS guest_key_hash;
+ALTER TABLE broadcast_posts DROP COLUMN IF EXISTS status;
+
+ALTER TABLE broadcast_channels DROP COLUMN IF EXISTS moderate_guest_posts;
@@ -0,0 +1,29 @@
+-- 016: Broadcast guest-post moderation
+-- With moderate_guest_posts on, guest posts are stored as 'pending' and only
+-- the channel owner (post token or owner JWT) sees them until approved.
+-- Rejected posts are deleted. Guests may send a random posting key they keep
+-- in their browser; approving a post can trust that key's hash, and later
+-- guest posts carrying a trusted key are published straight away.
+
+ALTER TABLE broadcast_channels
+  ADD COLUMN IF NOT EXISTS moderate_guest_posts BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE broadcast_posts
+  ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'published',
+  ADD COLUMN IF NOT EXISTS guest_key_hash VARCHAR(64);
+
+ALTER TABLE broadcast_posts DROP CONSTRAINT IF EXISTS chk_broadcast_post_status;
+ALTER TABLE broadcast_posts ADD CONSTRAINT chk_broadcast_post_status
+  CHECK (status IN ('published', 'pending'));
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_pending
+  ON broadcast_posts(channel_id, created_at) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS broadcast_trusted_guests (
+  channel_id VARCHAR(16) NOT NULL REFERENCES broadcast_channels(channel_id) ON DELETE CASCADE,
+  guest_key_hash VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (channel_id, guest_key_hash)
+);
+
+COMMENT ON TABLE broadcast_trusted_guests IS 'Guest posting keys (SHA-256) whose posts skip the moderation queue';
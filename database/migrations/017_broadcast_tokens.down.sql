@@ -0,0 +1,5 @@
+-- 017 down: drop scoped broadcast tokens
+
+ALTER TABLE broadcast_posts DROP COLUMN IF EXISTS author_token_id;
+
+DROP TABLE IF EXISTS broadcast_tokens;
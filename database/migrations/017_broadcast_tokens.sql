@@ -0,0 +1,27 @@
+-- 017: Scoped broadcast tokens
+-- The channel's own post token still grants everything. Owners can also mint
+-- named tokens limited to some of: post (add posts), moderate (edit, delete,
+-- pin, review queue) and burn. Tokens may expire and are revoked in place so
+-- the label of past posts stays known. Only SHA-256 hashes are stored.
+-- Posts record the token that authored them; only the owner sees the label.
+
+CREATE TABLE IF NOT EXISTS broadcast_tokens (
+  token_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id VARCHAR(16) NOT NULL REFERENCES broadcast_channels(channel_id) ON DELETE CASCADE,
+  label VARCHAR(50) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_broadcast_token_scopes
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['post', 'moderate', 'burn']::TEXT[])
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_tokens_channel ON broadcast_tokens(channel_id, created_at);
+
+ALTER TABLE broadcast_posts
+  ADD COLUMN IF NOT EXISTS author_token_id UUID REFERENCES broadcast_tokens(token_id) ON DELETE SET NULL;
+
+COMMENT ON TABLE broadcast_tokens IS 'Named, scoped post tokens for broadcast channels (hash only)';
+COMMENT ON COLUMN broadcast_posts.author_token_id IS 'Scoped token that added the post; NULL for the channel token or guests';
@@ -0,0 +1,3 @@
+-- 018 down: drop public broadcast feeds
+
+ALTER TABLE broadcast_channels DROP COLUMN IF EXISTS public_feed;
@@ -0,0 +1,10 @@
+-- 018: Public broadcast feeds
+-- A channel created with public_feed = TRUE skips fragment-key encryption:
+-- posts are stored as plaintext and the server can serve them as Atom,
+-- RSS and JSON Feed at /b/:channel_id/feed.{atom,rss,json}. Chosen at
+-- creation only; encrypted channels never get a feed.
+
+ALTER TABLE broadcast_channels
+  ADD COLUMN IF NOT EXISTS public_feed BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN broadcast_channels.public_feed IS 'Unencrypted channel with Atom/RSS/JSON feeds';
@@ -0,0 +1,12 @@
+-- 019 down: drop scheduled and expiring broadcast posts (scheduled posts are removed)
+
+DELETE FROM broadcast_posts WHERE status = 'scheduled';
+DROP INDEX IF EXISTS idx_broadcast_posts_expiring;
+DROP INDEX IF EXISTS idx_broadcast_posts_scheduled;
+
+ALTER TABLE broadcast_posts DROP CONSTRAINT IF EXISTS chk_broadcast_post_status;
+ALTER TABLE broadcast_posts ADD CONSTRAINT chk_broadcast_post_status
+  CHECK (status IN ('published', 'pending'));
+
+ALTER TABLE broadcast_posts DROP COLUMN IF EXISTS expires_at;
+ALTER TABLE broadcast_posts DROP COLUMN IF EXISTS publish_at;
@@ -0,0 +1,22 @@
+-- 019: Scheduled and expiring broadcast posts
+-- A post written with a future publish_at is stored as 'scheduled' and is
+-- seen only by the owner until the broadcast scheduler publishes it; going
+-- live resets created_at so the post lands at the top of the feed. A post
+-- with expires_at drops out of the feed at that time and the scheduler
+-- deletes it on its next tick.
+
+ALTER TABLE broadcast_posts
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+
+ALTER TABLE broadcast_posts DROP CONSTRAINT IF EXISTS chk_broadcast_post_status;
+ALTER TABLE broadcast_posts ADD CONSTRAINT chk_broadcast_post_status
+  CHECK (status IN ('published', 'pending', 'scheduled'));
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_scheduled
+  ON broadcast_posts(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_expiring
+  ON broadcast_posts(expires_at) WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN broadcast_posts.publish_at IS 'When a scheduled post goes live; NULL for posts published on creation';
+COMMENT ON COLUMN broadcast_posts.expires_at IS 'When the post is hidden and deleted; NULL = kept';
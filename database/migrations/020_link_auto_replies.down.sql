@@ -0,0 +1,5 @@
+-- 020 down: drop link auto-replies
+
+DROP INDEX IF EXISTS idx_threads_auto_reply_pending;
+ALTER TABLE threads DROP COLUMN IF EXISTS auto_reply_pending;
+DROP TABLE IF EXISTS link_auto_replies;
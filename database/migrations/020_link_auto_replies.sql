@@ -0,0 +1,29 @@
+-- 020: Link auto-responder ("away message" reply)
+-- The reply text is encrypted in the browser to the link's own public key,
+-- so the server stores only ciphertext and any of the owner's devices can
+-- open it. When a sender message arrives inside the owner's quiet hours (or
+-- at any time when none are set), the thread is flagged auto_reply_pending;
+-- the owner's dashboard claims the flag, re-encrypts the text to the
+-- thread's sender key and posts it as an ordinary owner reply.
+
+CREATE TABLE IF NOT EXISTS link_auto_replies (
+  link_id VARCHAR(64) PRIMARY KEY REFERENCES links(link_id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  template_ciphertext TEXT NOT NULL,
+  first_message_only BOOLEAN NOT NULL DEFAULT TRUE,
+  quiet_hours_start VARCHAR(5),
+  quiet_hours_end VARCHAR(5),
+  time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_auto_reply_quiet_hours CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS auto_reply_pending BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_threads_auto_reply_pending
+  ON threads(link_id) WHERE auto_reply_pending = TRUE;
+
+COMMENT ON TABLE link_auto_replies IS 'Per-link auto-reply; template_ciphertext is encrypted to the link public key';
+COMMENT ON COLUMN link_auto_replies.quiet_hours_start IS 'HH:MM in time_zone; NULL with quiet_hours_end = reply at any time';
+COMMENT ON COLUMN threads.auto_reply_pending IS 'Set when a sender message is due an auto-reply; cleared by the owner client or any owner reply';
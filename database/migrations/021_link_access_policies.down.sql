@@ -0,0 +1,12 @@
+-- 021 down: drop per-link access policies
+
+DROP INDEX IF EXISTS idx_threads_link_created;
+ALTER TABLE links DROP CONSTRAINT IF EXISTS chk_link_open_hours;
+
+ALTER TABLE links
+  DROP COLUMN IF EXISTS time_zone,
+  DROP COLUMN IF EXISTS open_hours_end,
+  DROP COLUMN IF EXISTS open_hours_start,
+  DROP COLUMN IF EXISTS max_threads,
+  DROP COLUMN IF EXISTS max_threads_per_day,
+  DROP COLUMN IF EXISTS paused;
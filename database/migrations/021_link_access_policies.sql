@@ -0,0 +1,26 @@
+-- 021: Per-link access policies
+-- Owners can pause a link, cap new threads per rolling 24 hours and in total,
+-- and accept new threads only during daily open hours (HH:MM in time_zone,
+-- may run past midnight). Reaching max_threads pauses the link; the owner
+-- raises or clears the cap to resume. Replies in existing threads are not
+-- affected.
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS paused BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS max_threads_per_day INTEGER,
+  ADD COLUMN IF NOT EXISTS max_threads INTEGER,
+  ADD COLUMN IF NOT EXISTS open_hours_start VARCHAR(5),
+  ADD COLUMN IF NOT EXISTS open_hours_end VARCHAR(5),
+  ADD COLUMN IF NOT EXISTS time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE links DROP CONSTRAINT IF EXISTS chk_link_open_hours;
+ALTER TABLE links ADD CONSTRAINT chk_link_open_hours
+  CHECK ((open_hours_start IS NULL) = (open_hours_end IS NULL));
+
+-- Threads created on a link in the last 24 hours
+CREATE INDEX IF NOT EXISTS idx_threads_link_created ON threads(link_id, created_at);
+
+COMMENT ON COLUMN links.paused IS 'Owner pause, or auto-pause on reaching max_threads; no new threads while set';
+COMMENT ON COLUMN links.max_threads_per_day IS 'New threads allowed per rolling 24 hours; NULL = unlimited';
+COMMENT ON COLUMN links.max_threads IS 'Threads before the link pauses itself; NULL = unlimited';
+COMMENT ON COLUMN links.open_hours_start IS 'HH:MM in time_zone; NULL with open_hours_end = always open';
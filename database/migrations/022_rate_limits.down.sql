@@ -0,0 +1,5 @@
+-- 022 down: drop shared rate-limit counters and limits
+
+DROP TABLE IF EXISTS rate_limit_policies;
+DROP INDEX IF EXISTS idx_rate_limit_hits_reset_at;
+DROP TABLE IF EXISTS rate_limit_hits;
@@ -0,0 +1,26 @@
+-- 022: Shared rate-limit counters and tunable limits
+-- Every API instance and PM2 worker counts against the same fixed-window
+-- counters, so limits hold across the ASG. Keys are HMACs of the limiter
+-- name and its key (link, thread, room or IP), so no identifier is stored.
+-- UNLOGGED: counters are short-lived and may be lost on a crash.
+
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limit_hits (
+  key VARCHAR(64) PRIMARY KEY,
+  hits INTEGER NOT NULL,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_reset_at ON rate_limit_hits(reset_at);
+
+-- Overrides for the limits compiled into the app, by limiter name; picked up
+-- by running instances within a minute, no redeploy needed
+CREATE TABLE IF NOT EXISTS rate_limit_policies (
+  name VARCHAR(64) PRIMARY KEY,
+  window_seconds INTEGER NOT NULL CHECK (window_seconds > 0),
+  max_hits INTEGER NOT NULL CHECK (max_hits >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE rate_limit_hits IS 'Fixed-window hit counters shared by all API processes';
+COMMENT ON COLUMN rate_limit_hits.key IS 'HMAC-SHA256(limiter name + key), hex';
+COMMENT ON TABLE rate_limit_policies IS 'Per-limiter window and max overriding the built-in defaults';
@@ -0,0 +1,4 @@
+-- 023 down: drop the passphrase attempt ledger
+
+DROP INDEX IF EXISTS idx_passphrase_attempts_last_failed_at;
+DROP TABLE IF EXISTS passphrase_attempts;
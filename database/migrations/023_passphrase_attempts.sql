@@ -0,0 +1,19 @@
+-- 023: Passphrase attempt ledger
+-- Wrong OPSEC passphrases per thread (unlock) and per link (first send).
+-- Failures past the free allowance lock the subject out with exponential
+-- backoff; a thread that keeps failing burns itself. The count restarts
+-- after 24 hours without a failure, and the reaper deletes those rows.
+
+CREATE TABLE IF NOT EXISTS passphrase_attempts (
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('thread', 'link')),
+  subject_id VARCHAR(64) NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (scope, subject_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_passphrase_attempts_last_failed_at ON passphrase_attempts(last_failed_at);
+
+COMMENT ON TABLE passphrase_attempts IS 'Wrong passphrase guesses and lockouts per OPSEC thread or link';
+COMMENT ON COLUMN passphrase_attempts.subject_id IS 'thread_id (scope thread) or link_id (scope link)';
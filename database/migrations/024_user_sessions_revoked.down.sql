@@ -0,0 +1,3 @@
+-- 024 down: stop tracking revoked owner sessions
+
+ALTER TABLE users DROP COLUMN IF EXISTS sessions_revoked_at;
@@ -0,0 +1,9 @@
+-- 024: Revoked owner sessions
+-- Revoking a device signs the owner out everywhere (Cognito global sign-out
+-- ends refresh tokens); access tokens issued before sessions_revoked_at are
+-- refused on dashboard routes, so a revoked browser cannot keep its session
+-- or register itself again until the owner signs in anew.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN users.sessions_revoked_at IS 'Access tokens issued before this are refused (set on device revoke)';
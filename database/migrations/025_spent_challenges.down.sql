@@ -0,0 +1,4 @@
+-- 025 down: drop the spent challenge ledger
+
+DROP INDEX IF EXISTS idx_spent_challenges_expires_at;
+DROP TABLE IF EXISTS spent_challenges;
@@ -0,0 +1,15 @@
+-- 025: Spent proof-of-work challenges
+-- A solved send challenge is accepted once: its id is recorded here with a
+-- single INSERT ... ON CONFLICT DO NOTHING, so every API instance and PM2
+-- worker refuses a replay. Rows are only needed until the challenge expires
+-- (5 minutes); the reaper deletes them after that.
+
+CREATE TABLE IF NOT EXISTS spent_challenges (
+  challenge_id VARCHAR(64) PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_spent_challenges_expires_at ON spent_challenges(expires_at);
+
+COMMENT ON TABLE spent_challenges IS 'Send challenges already used, kept until they expire';
+COMMENT ON COLUMN spent_challenges.challenge_id IS 'Random id from the signed challenge token';
@@ -0,0 +1,5 @@
+-- 026 down: key link lockouts by link_id again
+
+DELETE FROM passphrase_attempts WHERE scope = 'link';
+
+COMMENT ON COLUMN passphrase_attempts.subject_id IS 'thread_id (scope thread) or link_id (scope link)';
@@ -0,0 +1,9 @@
+-- 026: Per-client link passphrase lockouts
+-- Link-scope rows are now keyed by HMAC(link_id, client IP) instead of the
+-- link_id, so one sender's wrong guesses only lock that sender out. Rows
+-- keyed the old way would never be read again; drop them now rather than
+-- waiting a day for the reaper.
+
+DELETE FROM passphrase_attempts WHERE scope = 'link';
+
+COMMENT ON COLUMN passphrase_attempts.subject_id IS 'thread_id (scope thread) or HMAC of link_id and client IP (scope link)';
@@ -0,0 +1,5 @@
+-- 027 down: drop the broadcast feed Last-Modified column
+
+DROP TRIGGER IF EXISTS touch_broadcast_feed ON broadcast_posts;
+DROP FUNCTION IF EXISTS touch_broadcast_feed();
+ALTER TABLE broadcast_channels DROP COLUMN IF EXISTS feed_updated_at;
@@ -0,0 +1,26 @@
+-- 027: Broadcast feed Last-Modified
+-- feed_updated_at moves whenever the set of published posts of a channel
+-- changes: a post is published (directly, by approval or by the scheduler),
+-- edited, pinned or unpinned, or deleted (by the owner or on expiry). Public
+-- feeds send it as Last-Modified. A trigger keeps it current for every
+-- writer, including the scheduler and channel burns.
+
+ALTER TABLE broadcast_channels
+  ADD COLUMN IF NOT EXISTS feed_updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+CREATE OR REPLACE FUNCTION touch_broadcast_feed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.status = 'published' THEN
+    UPDATE broadcast_channels SET feed_updated_at = CURRENT_TIMESTAMP WHERE channel_id = OLD.channel_id;
+  ELSIF TG_OP <> 'DELETE' AND NEW.status = 'published' THEN
+    UPDATE broadcast_channels SET feed_updated_at = CURRENT_TIMESTAMP WHERE channel_id = NEW.channel_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER touch_broadcast_feed AFTER INSERT OR UPDATE OR DELETE ON broadcast_posts
+  FOR EACH ROW EXECUTE FUNCTION touch_broadcast_feed();
+
+COMMENT ON COLUMN broadcast_channels.feed_updated_at IS 'Last change to the published posts (feed Last-Modified)';
@@ -1,13 +1,24 @@
 -- BurnWare Database Schema
 -- PostgreSQL 15.4
 -- Reference: https://docs.aws.amazon.com/prescriptive-guidance/latest/encryption-best-practices/rds.html
+--
+-- Flattened snapshot of database/migrations 001-027, for reading the full
+-- schema in one place. The migrations are the source of truth: MigrationRunner
+-- applies them on boot (or `npm run migrate -- up`) and records each version in
+-- schema_migrations. Regenerate this file when adding a migration; do not apply
+-- it to a database the runner manages.
+
+-- ======== 001_initial.sql ========
+
+-- 001: Core tables (users, links, threads, messages)
+-- Previously created inline by DatabaseConfig.runMigrations() on boot.
+-- Every statement is idempotent so databases bootstrapped by the old inline
+-- SQL or by schema.sql can record this version without changes.
 
--- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
--- Users table (stores Cognito user metadata)
-CREATE TABLE users (
+CREATE TABLE IF NOT EXISTS users (
   user_id VARCHAR(128) PRIMARY KEY,  -- Cognito sub
   email VARCHAR(255) NOT NULL UNIQUE,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -16,92 +27,59 @@ CREATE TABLE users (
   is_active BOOLEAN NOT NULL DEFAULT TRUE
 );
 
-CREATE INDEX idx_users_email ON users(email);
-CREATE INDEX idx_users_created_at ON users(created_at);
-
--- Links table (owner-created short links/QR codes)
-CREATE TABLE links (
-  link_id VARCHAR(16) PRIMARY KEY,  -- Cryptographically secure random token
-  owner_user_id VARCHAR(128) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
-  display_name VARCHAR(100) NOT NULL,
-  description VARCHAR(500),
-  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  expires_at TIMESTAMP,
+CREATE TABLE IF NOT EXISTS links (
+  link_id VARCHAR(64) PRIMARY KEY,
+  owner_user_id VARCHAR(128) NOT NULL,
+  display_name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
   burned BOOLEAN NOT NULL DEFAULT FALSE,
   message_count INTEGER NOT NULL DEFAULT 0,
-  qr_code_url VARCHAR(500),  -- S3 signed URL or path
-  public_key TEXT,  -- ECDH P-256 public key (base64 raw), required for E2EE
-  opsec_mode BOOLEAN NOT NULL DEFAULT FALSE,
-  opsec_access VARCHAR(20),  -- 'device_bound' | 'single_use' (NULL when opsec_mode = FALSE)
-  opsec_passphrase_hash VARCHAR(256),  -- PBKDF2 hash (hex), NULL if no passphrase
-  opsec_passphrase_salt VARCHAR(64),   -- PBKDF2 salt (hex)
-  CONSTRAINT chk_display_name_length CHECK (char_length(display_name) >= 1),
-  CONSTRAINT chk_link_id_format CHECK (link_id ~ '^[A-Za-z0-9_-]+$')
+  qr_code_url VARCHAR(512)
 );
 
-CREATE INDEX idx_links_owner ON links(owner_user_id);
-CREATE INDEX idx_links_expires_at ON links(expires_at) WHERE expires_at IS NOT NULL;
-CREATE INDEX idx_links_burned ON links(burned) WHERE burned = FALSE;
-CREATE INDEX idx_links_created_at ON links(created_at);
-
--- Threads table (conversation threads)
-CREATE TABLE threads (
-  thread_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  link_id VARCHAR(16) NOT NULL REFERENCES links(link_id) ON DELETE CASCADE,
-  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+CREATE TABLE IF NOT EXISTS threads (
+  thread_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id VARCHAR(64) NOT NULL REFERENCES links(link_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   burned BOOLEAN NOT NULL DEFAULT FALSE,
   message_count INTEGER NOT NULL DEFAULT 0,
-  sender_anonymous_id VARCHAR(64) NOT NULL,  -- Random per-thread identifier (not derived from sender data)
-  sender_public_key TEXT,  -- Sender's ECDH P-256 ephemeral public key (base64 raw), for E2EE replies
-  expires_at TIMESTAMP,            -- OPSEC: 24h from creation (NULL for non-OPSEC threads)
-  access_token_hash VARCHAR(64),   -- OPSEC: SHA-256 hash of access token (for device-bound/single-use)
-  passphrase_hash VARCHAR(256),    -- OPSEC: PBKDF2 hash copied from link (for passphrase-protected threads)
-  passphrase_salt VARCHAR(64),     -- OPSEC: PBKDF2 salt copied from link
-  CONSTRAINT chk_sender_id_length CHECK (char_length(sender_anonymous_id) >= 8)
-);
-
-CREATE INDEX idx_threads_link_id ON threads(link_id);
-CREATE INDEX idx_threads_created_at ON threads(created_at);
-CREATE INDEX idx_threads_burned ON threads(burned) WHERE burned = FALSE;
-CREATE INDEX idx_threads_expires_at ON threads(expires_at) WHERE expires_at IS NOT NULL;
--- Removed: idx_threads_sender index — sender_anonymous_id is random per-thread,
--- cross-thread sender lookups are intentionally not supported for anonymity.
-
--- Messages table (individual messages in threads)
-CREATE TABLE messages (
-  message_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sender_anonymous_id VARCHAR(128) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  message_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   thread_id UUID NOT NULL REFERENCES threads(thread_id) ON DELETE CASCADE,
   content TEXT NOT NULL,
-  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  sender_type VARCHAR(20) NOT NULL CHECK (sender_type IN ('anonymous', 'owner')),
-  sender_id VARCHAR(128),  -- Cognito sub for owner, NULL for anonymous
-  CONSTRAINT chk_message_length CHECK (char_length(content) >= 1 AND char_length(content) <= 10000)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sender_type VARCHAR(16) NOT NULL CHECK (sender_type IN ('anonymous', 'owner')),
+  sender_id VARCHAR(128)
 );
 
-CREATE INDEX idx_messages_thread_id ON messages(thread_id);
-CREATE INDEX idx_messages_created_at ON messages(created_at);
-CREATE INDEX idx_messages_sender_type ON messages(sender_type);
+CREATE INDEX IF NOT EXISTS idx_links_owner ON links(owner_user_id);
+CREATE INDEX IF NOT EXISTS idx_threads_link ON threads(link_id);
+CREATE INDEX IF NOT EXISTS idx_messages_thread ON messages(thread_id);
 
--- Audit log table (for compliance and security)
-CREATE TABLE audit_log (
-  audit_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  event_type VARCHAR(50) NOT NULL,  -- 'link_created', 'thread_burned', etc.
-  user_id VARCHAR(128),
-  resource_type VARCHAR(50),
-  resource_id VARCHAR(128),
-  event_data JSONB,
-  -- ip_address column removed — storing raw IPs undermines sender anonymity
-  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
-);
+-- OPSEC columns
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_mode BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_access VARCHAR(20);
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_passphrase_hash VARCHAR(256);
+ALTER TABLE links ADD COLUMN IF NOT EXISTS opsec_passphrase_salt VARCHAR(64);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS access_token_hash VARCHAR(64);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS passphrase_hash VARCHAR(256);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS passphrase_salt VARCHAR(64);
+CREATE INDEX IF NOT EXISTS idx_threads_expires_at ON threads(expires_at) WHERE expires_at IS NOT NULL;
 
-CREATE INDEX idx_audit_event_type ON audit_log(event_type);
-CREATE INDEX idx_audit_user_id ON audit_log(user_id);
-CREATE INDEX idx_audit_created_at ON audit_log(created_at);
-CREATE INDEX idx_audit_resource ON audit_log(resource_type, resource_id);
+-- Key backup columns (encrypted private key stored server-side)
+ALTER TABLE links ADD COLUMN IF NOT EXISTS wrapped_key TEXT;
+ALTER TABLE links ADD COLUMN IF NOT EXISTS backup_salt VARCHAR(128);
+ALTER TABLE links ADD COLUMN IF NOT EXISTS backup_iv VARCHAR(128);
 
--- Function to update updated_at timestamp
+-- Function to update updated_at timestamp (used by room triggers in 003)
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
 BEGIN
@@ -110,31 +88,22 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
--- Triggers for updated_at
-CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-
-CREATE TRIGGER update_links_updated_at BEFORE UPDATE ON links
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-
-CREATE TRIGGER update_threads_updated_at BEFORE UPDATE ON threads
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-
--- Function to increment message count
+-- Trigger to auto-increment message_count on threads and links
 CREATE OR REPLACE FUNCTION increment_message_count()
 RETURNS TRIGGER AS $$
 BEGIN
   UPDATE threads SET message_count = message_count + 1 WHERE thread_id = NEW.thread_id;
-  UPDATE links SET message_count = message_count + 1 
+  UPDATE links SET message_count = message_count + 1
     WHERE link_id = (SELECT link_id FROM threads WHERE thread_id = NEW.thread_id);
   RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE TRIGGER increment_thread_message_count AFTER INSERT ON messages
+CREATE OR REPLACE TRIGGER increment_thread_message_count
+  AFTER INSERT ON messages
   FOR EACH ROW EXECUTE FUNCTION increment_message_count();
 
--- Function to clean up expired links (call daily)
+-- Function to clean up expired links (called by the expiry reaper)
 CREATE OR REPLACE FUNCTION cleanup_expired_links()
 RETURNS INTEGER AS $$
 DECLARE
@@ -148,9 +117,770 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Fix any existing message counts that are out of sync
+UPDATE threads t SET message_count = (
+  SELECT COUNT(*) FROM messages m WHERE m.thread_id = t.thread_id
+) WHERE t.message_count = 0 AND EXISTS (
+  SELECT 1 FROM messages m WHERE m.thread_id = t.thread_id
+);
+
+UPDATE links l SET message_count = (
+  SELECT COUNT(*) FROM messages m
+  JOIN threads t ON t.thread_id = m.thread_id
+  WHERE t.link_id = l.link_id
+) WHERE l.message_count = 0 AND EXISTS (
+  SELECT 1 FROM threads t
+  JOIN messages m ON m.thread_id = t.thread_id
+  WHERE t.link_id = l.link_id
+);
+
+-- ======== 002_e2ee.sql ========
+
+-- Migration: Add E2EE support
+-- Adds public_key to links, sender_public_key to threads, increases message content limit
+
+ALTER TABLE links ADD COLUMN IF NOT EXISTS public_key TEXT;
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS sender_public_key TEXT;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS chk_message_length;
+ALTER TABLE messages ADD CONSTRAINT chk_message_length
+  CHECK (char_length(content) >= 1 AND char_length(content) <= 10000);
+
+-- ======== 003_rooms.sql ========
+
+-- Migration: Add secure chat rooms
+-- Creates rooms, room_invites, room_participants, room_messages tables
+
+-- Rooms table (secure multi-party chat rooms)
+CREATE TABLE IF NOT EXISTS rooms (
+  room_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  creator_user_id VARCHAR(128) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  display_name VARCHAR(100) NOT NULL,
+  description VARCHAR(500),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,  -- 24h from creation
+  locked_at TIMESTAMP,            -- Set after join window closes
+  join_window_minutes INTEGER NOT NULL DEFAULT 15,
+  max_participants INTEGER NOT NULL DEFAULT 10,
+  participant_count INTEGER NOT NULL DEFAULT 0,  -- Trigger handles incrementing
+  auto_approve BOOLEAN NOT NULL DEFAULT FALSE,
+  burned BOOLEAN NOT NULL DEFAULT FALSE,
+  group_public_key TEXT NOT NULL,  -- Room's ECDH P-256 public key
+  CONSTRAINT chk_display_name_length CHECK (char_length(display_name) >= 1),
+  CONSTRAINT chk_max_participants CHECK (max_participants >= 2 AND max_participants <= 10),
+  CONSTRAINT chk_join_window CHECK (join_window_minutes >= 5 AND join_window_minutes <= 60)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rooms_creator ON rooms(creator_user_id);
+CREATE INDEX IF NOT EXISTS idx_rooms_expires_at ON rooms(expires_at) WHERE burned = FALSE;
+CREATE INDEX IF NOT EXISTS idx_rooms_burned ON rooms(burned) WHERE burned = FALSE;
+
+-- Room invites table (one-time tokens)
+CREATE TABLE IF NOT EXISTS room_invites (
+  invite_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
+  invite_token_hash VARCHAR(64) NOT NULL UNIQUE,  -- SHA-256(token)
+  label VARCHAR(50),              -- "Alice", "Bob" for creator reference
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,  -- Same as room lock time
+  redeemed_at TIMESTAMP,          -- Set on first use
+  revoked BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_invites_room ON room_invites(room_id);
+CREATE INDEX IF NOT EXISTS idx_room_invites_token_hash ON room_invites(invite_token_hash);
+CREATE INDEX IF NOT EXISTS idx_room_invites_expires ON room_invites(expires_at) WHERE redeemed_at IS NULL AND revoked = FALSE;
+
+-- Room participants table
+CREATE TABLE IF NOT EXISTS room_participants (
+  participant_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
+  invite_id UUID REFERENCES room_invites(invite_id),
+  anonymous_id VARCHAR(64) NOT NULL,  -- Random per-room identifier
+  display_name VARCHAR(50),
+  public_key TEXT NOT NULL,           -- Participant's ECDH public key
+  wrapped_group_key TEXT,             -- Group key encrypted for this participant
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',  -- pending/approved/rejected
+  joined_at TIMESTAMP,
+  watermark_seed VARCHAR(64) NOT NULL,  -- Per-user invisible watermark
+  is_creator BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_status CHECK (status IN ('pending', 'approved', 'rejected')),
+  CONSTRAINT chk_anonymous_id_length CHECK (char_length(anonymous_id) >= 8)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_participants_room ON room_participants(room_id);
+CREATE INDEX IF NOT EXISTS idx_room_participants_status ON room_participants(room_id, status);
+CREATE INDEX IF NOT EXISTS idx_room_participants_anonymous ON room_participants(room_id, anonymous_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_room_participants_room_invite ON room_participants(room_id, invite_id) WHERE invite_id IS NOT NULL;
+
+-- Room messages table
+CREATE TABLE IF NOT EXISTS room_messages (
+  message_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID NOT NULL REFERENCES rooms(room_id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES room_participants(participant_id),
+  ciphertext TEXT NOT NULL,       -- AES-256-GCM encrypted
+  nonce VARCHAR(32) NOT NULL,     -- 12-byte nonce (24 hex chars)
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_ciphertext_length CHECK (char_length(ciphertext) >= 1 AND char_length(ciphertext) <= 20000),
+  CONSTRAINT chk_nonce_length CHECK (char_length(nonce) >= 24)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_messages_room ON room_messages(room_id);
+CREATE INDEX IF NOT EXISTS idx_room_messages_created ON room_messages(room_id, created_at);
+
+-- Trigger for rooms updated_at
+CREATE OR REPLACE TRIGGER update_rooms_updated_at BEFORE UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to increment room participant count
+CREATE OR REPLACE FUNCTION increment_room_participant_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'approved' AND (OLD IS NULL OR OLD.status != 'approved') THEN
+    UPDATE rooms SET participant_count = participant_count + 1 WHERE room_id = NEW.room_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER increment_room_participants AFTER INSERT OR UPDATE ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION increment_room_participant_count();
+
+-- Function to auto-lock rooms after join window
+CREATE OR REPLACE FUNCTION auto_lock_rooms()
+RETURNS INTEGER AS $$
+DECLARE
+  locked_count INTEGER;
+BEGIN
+  UPDATE rooms
+  SET locked_at = CURRENT_TIMESTAMP
+  WHERE locked_at IS NULL
+    AND burned = FALSE
+    AND created_at + (join_window_minutes || ' minutes')::INTERVAL < CURRENT_TIMESTAMP;
+  GET DIAGNOSTICS locked_count = ROW_COUNT;
+  RETURN locked_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to cleanup expired rooms (24h TTL)
+CREATE OR REPLACE FUNCTION cleanup_expired_rooms()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  -- Delete expired rooms (cascades to invites, participants, messages)
+  DELETE FROM rooms
+  WHERE expires_at < CURRENT_TIMESTAMP
+    AND burned = FALSE;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fix any rooms with incorrect participant_count (from DEFAULT 1 bug)
+UPDATE rooms r SET participant_count = (
+  SELECT COUNT(*) FROM room_participants p
+  WHERE p.room_id = r.room_id AND p.status = 'approved'
+);
+
 -- Comments for documentation
-COMMENT ON TABLE users IS 'Stores Cognito user metadata';
-COMMENT ON TABLE links IS 'Owner-created short links/QR codes for anonymous inbox';
-COMMENT ON TABLE threads IS 'Conversation threads initiated by anonymous senders';
-COMMENT ON TABLE messages IS 'Individual messages within threads';
-COMMENT ON TABLE audit_log IS 'Audit trail for compliance and security monitoring';
+COMMENT ON TABLE rooms IS 'Secure multi-party chat rooms with 24h auto-expiry';
+COMMENT ON TABLE room_invites IS 'One-time invite tokens (SHA-256 hash stored)';
+COMMENT ON TABLE room_participants IS 'Room participants with E2E encryption keys';
+COMMENT ON TABLE room_messages IS 'AES-256-GCM encrypted room messages';
+
+-- ======== 004_broadcast.sql ========
+
+-- Migration: Add broadcast channels and posts
+-- Creates broadcast_channels and broadcast_posts tables (no participant/invite tables)
+
+-- Broadcast channels (read URL = /b/:channel_id; post token stored as hash)
+CREATE TABLE IF NOT EXISTS broadcast_channels (
+  channel_id VARCHAR(16) PRIMARY KEY,
+  post_token_hash VARCHAR(64) NOT NULL,
+  display_name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP,
+  burned BOOLEAN NOT NULL DEFAULT FALSE,
+  owner_user_id VARCHAR(128) REFERENCES users(user_id) ON DELETE SET NULL,
+  qr_code_url VARCHAR(500),
+  CONSTRAINT chk_broadcast_display_name_length CHECK (char_length(display_name) >= 1),
+  CONSTRAINT chk_broadcast_channel_id_format CHECK (channel_id ~ '^[A-Za-z0-9_-]+$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_channels_owner ON broadcast_channels(owner_user_id) WHERE owner_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_broadcast_channels_expires ON broadcast_channels(expires_at) WHERE expires_at IS NOT NULL AND burned = FALSE;
+CREATE INDEX IF NOT EXISTS idx_broadcast_channels_burned ON broadcast_channels(burned) WHERE burned = FALSE;
+
+-- Broadcast posts (plaintext content per design)
+CREATE TABLE IF NOT EXISTS broadcast_posts (
+  post_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  channel_id VARCHAR(16) NOT NULL REFERENCES broadcast_channels(channel_id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_broadcast_content_length CHECK (char_length(content) >= 1 AND char_length(content) <= 10000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_channel_created ON broadcast_posts(channel_id, created_at DESC);
+
+COMMENT ON TABLE broadcast_channels IS 'Broadcast channels: read URL /b/:channel_id; post token hashed for add/burn';
+COMMENT ON TABLE broadcast_posts IS 'Plaintext posts in a broadcast channel; newest first';
+
+-- ======== 005_broadcast_guest_posts.sql ========
+
+-- 005: Allow guest posting on broadcast channels
+-- Non-blocking in PG 11+ (DEFAULT stored in catalog, no table rewrite)
+
+ALTER TABLE broadcast_channels
+  ADD COLUMN IF NOT EXISTS allow_guest_posts BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ======== 006_reaper_runs.sql ========
+
+-- 006: Bookkeeping for the in-process expiry reaper
+-- One row per job; updated by whichever worker holds the advisory lock
+
+CREATE TABLE IF NOT EXISTS reaper_runs (
+  job_name VARCHAR(64) PRIMARY KEY,
+  last_sweep_at TIMESTAMPTZ NOT NULL,
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  counts JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+COMMENT ON TABLE reaper_runs IS 'Last sweep per reaper job (exposed on /health/ready)';
+
+-- ======== 007_room_key_epochs.sql ========
+
+-- 007: Group key epochs for rooms
+-- Removing a participant bumps rooms.key_epoch; each message records the epoch
+-- it was encrypted under, and participants keep wraps of the keys they held before
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS key_epoch INT NOT NULL DEFAULT 0;
+ALTER TABLE room_messages ADD COLUMN IF NOT EXISTS key_epoch INT NOT NULL DEFAULT 0;
+
+ALTER TABLE room_participants DROP CONSTRAINT IF EXISTS chk_status;
+ALTER TABLE room_participants ADD CONSTRAINT chk_status
+  CHECK (status IN ('pending', 'approved', 'rejected', 'removed'));
+
+CREATE TABLE IF NOT EXISTS room_participant_keys (
+  participant_id UUID NOT NULL REFERENCES room_participants(participant_id) ON DELETE CASCADE,
+  key_epoch INT NOT NULL,
+  wrapped_group_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (participant_id, key_epoch)
+);
+
+COMMENT ON TABLE room_participant_keys IS 'Wrapped group keys from earlier epochs, so members can still read older messages';
+
+-- ======== 008_attachments.sql ========
+
+-- 008: Encrypted attachments
+-- Objects hold client-side-encrypted blobs only; the per-file key travels inside
+-- the E2EE message. No foreign keys: rows outlive their parent so the reaper can
+-- still find and delete the object after a link, thread or room row is gone.
+
+CREATE TABLE IF NOT EXISTS attachments (
+  attachment_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_key VARCHAR(255) NOT NULL UNIQUE,
+  link_id VARCHAR(64),
+  thread_id UUID,
+  room_id UUID,
+  size_bytes INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_attachment_scope CHECK ((link_id IS NULL) <> (room_id IS NULL)),
+  CONSTRAINT chk_attachment_size CHECK (size_bytes > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_link_id ON attachments(link_id) WHERE link_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_thread_id ON attachments(thread_id) WHERE thread_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_room_id ON attachments(room_id) WHERE room_id IS NOT NULL;
+
+COMMENT ON TABLE attachments IS 'Encrypted attachment objects; thread_id is set when a message claims a link-scoped upload';
+
+-- ======== 009_webhooks.sql ========
+
+-- 009: Per-link webhooks
+-- Owners register HTTPS endpoints on a link; new threads and replies queue a
+-- metadata-only delivery (never ciphertext) signed with the webhook's secret.
+-- The secret is stored as-is because the server must sign with it.
+
+CREATE TABLE IF NOT EXISTS link_webhooks (
+  webhook_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id VARCHAR(64) NOT NULL REFERENCES links(link_id) ON DELETE CASCADE,
+  url VARCHAR(2048) NOT NULL,
+  secret VARCHAR(128) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_webhook_url_https CHECK (url LIKE 'https://%')
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_webhooks_link_id ON link_webhooks(link_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  delivery_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES link_webhooks(webhook_id) ON DELETE CASCADE,
+  event VARCHAR(32) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending',
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_status_code INT,
+  last_error VARCHAR(500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  delivered_at TIMESTAMPTZ,
+  CONSTRAINT chk_webhook_delivery_status CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+COMMENT ON TABLE link_webhooks IS 'Owner-registered HTTPS endpoints notified of new threads and replies on a link';
+COMMENT ON TABLE webhook_deliveries IS 'Retry queue and delivery log; payloads carry ids, sender type and timestamp only';
+
+-- ======== 010_room_message_edits.sql ========
+
+-- 010: Room message edits and unsend
+-- Authors can replace a message's ciphertext (edited_at records when). Unsending
+-- blanks the ciphertext and nonce and sets deleted_at, leaving a tombstone so
+-- every client can show "message deleted" in place.
+
+ALTER TABLE room_messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+ALTER TABLE room_messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+ALTER TABLE room_messages DROP CONSTRAINT IF EXISTS chk_ciphertext_length;
+ALTER TABLE room_messages ADD CONSTRAINT chk_ciphertext_length
+  CHECK (char_length(ciphertext) <= 20000 AND (deleted_at IS NOT NULL OR char_length(ciphertext) >= 1));
+
+ALTER TABLE room_messages DROP CONSTRAINT IF EXISTS chk_nonce_length;
+ALTER TABLE room_messages ADD CONSTRAINT chk_nonce_length
+  CHECK (deleted_at IS NOT NULL OR char_length(nonce) >= 24);
+
+-- ======== 011_room_lifespan.sql ========
+
+-- 011: Configurable room lifespan, extension and reopened join windows
+-- Rooms live 1 hour to 30 days (the app enforces the per-deployment limit
+-- below this ceiling) and the creator can push expires_at out later.
+-- join_window_opened_at is when the current join window started: creation,
+-- or the last time the creator reopened a locked room to new invites.
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS join_window_opened_at TIMESTAMP;
+UPDATE rooms SET join_window_opened_at = created_at WHERE join_window_opened_at IS NULL;
+ALTER TABLE rooms ALTER COLUMN join_window_opened_at SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE rooms ALTER COLUMN join_window_opened_at SET NOT NULL;
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_join_window;
+ALTER TABLE rooms ADD CONSTRAINT chk_join_window
+  CHECK (join_window_minutes >= 5 AND join_window_minutes <= 1440);
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_lifespan;
+ALTER TABLE rooms ADD CONSTRAINT chk_lifespan
+  CHECK (expires_at > created_at AND expires_at <= created_at + INTERVAL '30 days');
+
+-- Lock once the current join window (not the original one) has passed
+CREATE OR REPLACE FUNCTION auto_lock_rooms()
+RETURNS INTEGER AS $$
+DECLARE
+  locked_count INTEGER;
+BEGIN
+  UPDATE rooms
+  SET locked_at = CURRENT_TIMESTAMP
+  WHERE locked_at IS NULL
+    AND burned = FALSE
+    AND join_window_opened_at + (join_window_minutes || ' minutes')::INTERVAL < CURRENT_TIMESTAMP;
+  GET DIAGNOSTICS locked_count = ROW_COUNT;
+  RETURN locked_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE rooms IS 'Secure multi-party chat rooms with a per-room lifespan (1h to 30 days)';
+COMMENT ON COLUMN rooms.join_window_opened_at IS 'Start of the current join window (creation or last reopen)';
+
+-- ======== 012_large_rooms.sql ========
+
+-- 012: Large rooms (up to 200 participants) and delegated key distribution
+-- Approved members can be given key-wrapping rights so the creator doesn't
+-- have to stay online. A delegate wraps the group key with its own ECDH key,
+-- so each wrap records the wrapper's public key (NULL = the room key).
+-- key_claimed_by/at lease a participant to one distributor for a short time,
+-- splitting the work between the creator and delegates.
+
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS chk_max_participants;
+ALTER TABLE rooms ADD CONSTRAINT chk_max_participants
+  CHECK (max_participants >= 2 AND max_participants <= 200);
+
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS can_distribute_keys BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS key_wrapper_public_key TEXT;
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS key_claimed_by UUID;
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS key_claimed_at TIMESTAMP;
+
+ALTER TABLE room_participant_keys ADD COLUMN IF NOT EXISTS wrapper_public_key TEXT;
+
+-- Cursor pagination over (created_at, participant_id)
+CREATE INDEX IF NOT EXISTS idx_room_participants_cursor ON room_participants(room_id, created_at, participant_id);
+-- Participants still waiting for their first wrapped key
+CREATE INDEX IF NOT EXISTS idx_room_participants_needs_key ON room_participants(room_id, created_at)
+  WHERE status = 'approved' AND wrapped_group_key IS NULL AND is_creator = FALSE;
+
+COMMENT ON COLUMN room_participants.can_distribute_keys IS 'Delegated by the creator to wrap the group key for new members';
+COMMENT ON COLUMN room_participants.key_wrapper_public_key IS 'Public key that wrapped wrapped_group_key; NULL means the room key';
+
+-- ======== 013_devices.sql ========
+
+-- 013: Owner devices and device linking
+-- Each browser an owner signs in from registers as a device. A new device is
+-- linked by an existing one: the new device posts an ephemeral ECDH public key,
+-- the old device encrypts its key bundle (link, room and broadcast keys) to it
+-- and the server relays the ciphertext through a short-lived mailbox row. The
+-- pairing code is derived from that public key, so both sides can check the
+-- server didn't swap it.
+
+CREATE TABLE IF NOT EXISTS user_devices (
+  device_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(128) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user_id ON user_devices(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS device_link_sessions (
+  session_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(128) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES user_devices(device_id) ON DELETE CASCADE,
+  pairing_code VARCHAR(12) NOT NULL,
+  public_key TEXT NOT NULL,
+  bundle TEXT,
+  sender_device_id UUID REFERENCES user_devices(device_id) ON DELETE SET NULL,
+  delivered_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_link_sessions_code ON device_link_sessions(user_id, pairing_code);
+CREATE INDEX IF NOT EXISTS idx_device_link_sessions_expires ON device_link_sessions(expires_at);
+
+COMMENT ON TABLE user_devices IS 'Browsers an owner uses; revoked devices are refused on dashboard routes';
+COMMENT ON TABLE device_link_sessions IS 'Pairing mailbox: new device ephemeral key plus the encrypted key bundle, cleared on pickup';
+
+-- ======== 014_key_bundles.sql ========
+
+-- 014: Account-wide encrypted key backup
+-- One bundle per owner holding every link, room and broadcast key, encrypted
+-- in the browser under a key derived from the vault passphrase (PBKDF2 with
+-- the salt stored here, AES-GCM). The server never sees the passphrase or the
+-- keys. `version` goes up on every write; clients send it back as If-Match so
+-- two devices merging at once can't overwrite each other.
+--
+-- The per-link backups in links.wrapped_key are folded into the bundle by the
+-- dashboard (only the passphrase can open them); it clears them in the same
+-- write that stores the merged bundle.
+
+CREATE TABLE IF NOT EXISTS user_key_bundles (
+  user_id VARCHAR(128) PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+  ciphertext TEXT NOT NULL,
+  salt VARCHAR(128) NOT NULL,
+  iv VARCHAR(128) NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE user_key_bundles IS 'Passphrase-encrypted backup of all of an owner''s keys; version is the ETag';
+
+-- ======== 015_broadcast_post_edits.sql ========
+
+-- 015: Broadcast post edit, delete and pin
+-- Holders of the post token (or the owning user) can replace a post's content
+-- (edited_at records when) or delete it outright. pinned_at marks pinned posts,
+-- which lead the first page of the feed.
+
+ALTER TABLE broadcast_posts ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+ALTER TABLE broadcast_posts ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_pinned
+  ON broadcast_posts(channel_id, pinned_at DESC) WHERE pinned_at IS NOT NULL;
+
+-- ======== 016_broadcast_moderation.sql ========
+
+-- 016: Broadcast guest-post moderation
+-- With moderate_guest_posts on, guest posts are stored as 'pending' and only
+-- the channel owner (post token or owner JWT) sees them until approved.
+-- Rejected posts are deleted. Guests may send a random posting key they keep
+-- in their browser; approving a post can trust that key's hash, and later
+-- guest posts carrying a trusted key are published straight away.
+
+ALTER TABLE broadcast_channels
+  ADD COLUMN IF NOT EXISTS moderate_guest_posts BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE broadcast_posts
+  ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'published',
+  ADD COLUMN IF NOT EXISTS guest_key_hash VARCHAR(64);
+
+ALTER TABLE broadcast_posts DROP CONSTRAINT IF EXISTS chk_broadcast_post_status;
+ALTER TABLE broadcast_posts ADD CONSTRAINT chk_broadcast_post_status
+  CHECK (status IN ('published', 'pending'));
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_pending
+  ON broadcast_posts(channel_id, created_at) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS broadcast_trusted_guests (
+  channel_id VARCHAR(16) NOT NULL REFERENCES broadcast_channels(channel_id) ON DELETE CASCADE,
+  guest_key_hash VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (channel_id, guest_key_hash)
+);
+
+COMMENT ON TABLE broadcast_trusted_guests IS 'Guest posting keys (SHA-256) whose posts skip the moderation queue';
+
+-- ======== 017_broadcast_tokens.sql ========
+
+-- 017: Scoped broadcast tokens
+-- The channel's own post token still grants everything. Owners can also mint
+-- named tokens limited to some of: post (add posts), moderate (edit, delete,
+-- pin, review queue) and burn. Tokens may expire and are revoked in place so
+-- the label of past posts stays known. Only SHA-256 hashes are stored.
+-- Posts record the token that authored them; only the owner sees the label.
+
+CREATE TABLE IF NOT EXISTS broadcast_tokens (
+  token_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id VARCHAR(16) NOT NULL REFERENCES broadcast_channels(channel_id) ON DELETE CASCADE,
+  label VARCHAR(50) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_broadcast_token_scopes
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['post', 'moderate', 'burn']::TEXT[])
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_tokens_channel ON broadcast_tokens(channel_id, created_at);
+
+ALTER TABLE broadcast_posts
+  ADD COLUMN IF NOT EXISTS author_token_id UUID REFERENCES broadcast_tokens(token_id) ON DELETE SET NULL;
+
+COMMENT ON TABLE broadcast_tokens IS 'Named, scoped post tokens for broadcast channels (hash only)';
+COMMENT ON COLUMN broadcast_posts.author_token_id IS 'Scoped token that added the post; NULL for the channel token or guests';
+
+-- ======== 018_broadcast_public_feed.sql ========
+
+-- 018: Public broadcast feeds
+-- A channel created with public_feed = TRUE skips fragment-key encryption:
+-- posts are stored as plaintext and the server can serve them as Atom,
+-- RSS and JSON Feed at /b/:channel_id/feed.{atom,rss,json}. Chosen at
+-- creation only; encrypted channels never get a feed.
+
+ALTER TABLE broadcast_channels
+  ADD COLUMN IF NOT EXISTS public_feed BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN broadcast_channels.public_feed IS 'Unencrypted channel with Atom/RSS/JSON feeds';
+
+-- ======== 019_broadcast_post_schedule.sql ========
+
+-- 019: Scheduled and expiring broadcast posts
+-- A post written with a future publish_at is stored as 'scheduled' and is
+-- seen only by the owner until the broadcast scheduler publishes it; going
+-- live resets created_at so the post lands at the top of the feed. A post
+-- with expires_at drops out of the feed at that time and the scheduler
+-- deletes it on its next tick.
+
+ALTER TABLE broadcast_posts
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+
+ALTER TABLE broadcast_posts DROP CONSTRAINT IF EXISTS chk_broadcast_post_status;
+ALTER TABLE broadcast_posts ADD CONSTRAINT chk_broadcast_post_status
+  CHECK (status IN ('published', 'pending', 'scheduled'));
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_scheduled
+  ON broadcast_posts(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_broadcast_posts_expiring
+  ON broadcast_posts(expires_at) WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN broadcast_posts.publish_at IS 'When a scheduled post goes live; NULL for posts published on creation';
+COMMENT ON COLUMN broadcast_posts.expires_at IS 'When the post is hidden and deleted; NULL = kept';
+
+-- ======== 020_link_auto_replies.sql ========
+
+-- 020: Link auto-responder ("away message" reply)
+-- The reply text is encrypted in the browser to the link's own public key,
+-- so the server stores only ciphertext and any of the owner's devices can
+-- open it. When a sender message arrives inside the owner's quiet hours (or
+-- at any time when none are set), the thread is flagged auto_reply_pending;
+-- the owner's dashboard claims the flag, re-encrypts the text to the
+-- thread's sender key and posts it as an ordinary owner reply.
+
+CREATE TABLE IF NOT EXISTS link_auto_replies (
+  link_id VARCHAR(64) PRIMARY KEY REFERENCES links(link_id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  template_ciphertext TEXT NOT NULL,
+  first_message_only BOOLEAN NOT NULL DEFAULT TRUE,
+  quiet_hours_start VARCHAR(5),
+  quiet_hours_end VARCHAR(5),
+  time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_auto_reply_quiet_hours CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS auto_reply_pending BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_threads_auto_reply_pending
+  ON threads(link_id) WHERE auto_reply_pending = TRUE;
+
+COMMENT ON TABLE link_auto_replies IS 'Per-link auto-reply; template_ciphertext is encrypted to the link public key';
+COMMENT ON COLUMN link_auto_replies.quiet_hours_start IS 'HH:MM in time_zone; NULL with quiet_hours_end = reply at any time';
+COMMENT ON COLUMN threads.auto_reply_pending IS 'Set when a sender message is due an auto-reply; cleared by the owner client or any owner reply';
+
+-- ======== 021_link_access_policies.sql ========
+
+-- 021: Per-link access policies
+-- Owners can pause a link, cap new threads per rolling 24 hours and in total,
+-- and accept new threads only during daily open hours (HH:MM in time_zone,
+-- may run past midnight). Reaching max_threads pauses the link; the owner
+-- raises or clears the cap to resume. Replies in existing threads are not
+-- affected.
+
+ALTER TABLE links
+  ADD COLUMN IF NOT EXISTS paused BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS max_threads_per_day INTEGER,
+  ADD COLUMN IF NOT EXISTS max_threads INTEGER,
+  ADD COLUMN IF NOT EXISTS open_hours_start VARCHAR(5),
+  ADD COLUMN IF NOT EXISTS open_hours_end VARCHAR(5),
+  ADD COLUMN IF NOT EXISTS time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE links DROP CONSTRAINT IF EXISTS chk_link_open_hours;
+ALTER TABLE links ADD CONSTRAINT chk_link_open_hours
+  CHECK ((open_hours_start IS NULL) = (open_hours_end IS NULL));
+
+-- Threads created on a link in the last 24 hours
+CREATE INDEX IF NOT EXISTS idx_threads_link_created ON threads(link_id, created_at);
+
+COMMENT ON COLUMN links.paused IS 'Owner pause, or auto-pause on reaching max_threads; no new threads while set';
+COMMENT ON COLUMN links.max_threads_per_day IS 'New threads allowed per rolling 24 hours; NULL = unlimited';
+COMMENT ON COLUMN links.max_threads IS 'Threads before the link pauses itself; NULL = unlimited';
+COMMENT ON COLUMN links.open_hours_start IS 'HH:MM in time_zone; NULL with open_hours_end = always open';
+
+-- ======== 022_rate_limits.sql ========
+
+-- 022: Shared rate-limit counters and tunable limits
+-- Every API instance and PM2 worker counts against the same fixed-window
+-- counters, so limits hold across the ASG. Keys are HMACs of the limiter
+-- name and its key (link, thread, room or IP), so no identifier is stored.
+-- UNLOGGED: counters are short-lived and may be lost on a crash.
+
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limit_hits (
+  key VARCHAR(64) PRIMARY KEY,
+  hits INTEGER NOT NULL,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_reset_at ON rate_limit_hits(reset_at);
+
+-- Overrides for the limits compiled into the app, by limiter name; picked up
+-- by running instances within a minute, no redeploy needed
+CREATE TABLE IF NOT EXISTS rate_limit_policies (
+  name VARCHAR(64) PRIMARY KEY,
+  window_seconds INTEGER NOT NULL CHECK (window_seconds > 0),
+  max_hits INTEGER NOT NULL CHECK (max_hits >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE rate_limit_hits IS 'Fixed-window hit counters shared by all API processes';
+COMMENT ON COLUMN rate_limit_hits.key IS 'HMAC-SHA256(limiter name + key), hex';
+COMMENT ON TABLE rate_limit_policies IS 'Per-limiter window and max overriding the built-in defaults';
+
+-- ======== 023_passphrase_attempts.sql ========
+
+-- 023: Passphrase attempt ledger
+-- Wrong OPSEC passphrases per thread (unlock) and per link (first send).
+-- Failures past the free allowance lock the subject out with exponential
+-- backoff; a thread that keeps failing burns itself. The count restarts
+-- after 24 hours without a failure, and the reaper deletes those rows.
+
+CREATE TABLE IF NOT EXISTS passphrase_attempts (
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('thread', 'link')),
+  subject_id VARCHAR(64) NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (scope, subject_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_passphrase_attempts_last_failed_at ON passphrase_attempts(last_failed_at);
+
+COMMENT ON TABLE passphrase_attempts IS 'Wrong passphrase guesses and lockouts per OPSEC thread or link';
+COMMENT ON COLUMN passphrase_attempts.subject_id IS 'thread_id (scope thread) or link_id (scope link)';
+
+-- ======== 024_user_sessions_revoked.sql ========
+
+-- 024: Revoked owner sessions
+-- Revoking a device signs the owner out everywhere (Cognito global sign-out
+-- ends refresh tokens); access tokens issued before sessions_revoked_at are
+-- refused on dashboard routes, so a revoked browser cannot keep its session
+-- or register itself again until the owner signs in anew.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN users.sessions_revoked_at IS 'Access tokens issued before this are refused (set on device revoke)';
+
+-- ======== 025_spent_challenges.sql ========
+
+-- 025: Spent proof-of-work challenges
+-- A solved send challenge is accepted once: its id is recorded here with a
+-- single INSERT ... ON CONFLICT DO NOTHING, so every API instance and PM2
+-- worker refuses a replay. Rows are only needed until the challenge expires
+-- (5 minutes); the reaper deletes them after that.
+
+CREATE TABLE IF NOT EXISTS spent_challenges (
+  challenge_id VARCHAR(64) PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_spent_challenges_expires_at ON spent_challenges(expires_at);
+
+COMMENT ON TABLE spent_challenges IS 'Send challenges already used, kept until they expire';
+COMMENT ON COLUMN spent_challenges.challenge_id IS 'Random id from the signed challenge token';
+
+-- ======== 026_passphrase_attempt_clients.sql ========
+
+-- 026: Per-client link passphrase lockouts
+-- Link-scope rows are now keyed by HMAC(link_id, client IP) instead of the
+-- link_id, so one sender's wrong guesses only lock that sender out. Rows
+-- keyed the old way would never be read again; drop them now rather than
+-- waiting a day for the reaper.
+
+DELETE FROM passphrase_attempts WHERE scope = 'link';
+
+COMMENT ON COLUMN passphrase_attempts.subject_id IS 'thread_id (scope thread) or HMAC of link_id and client IP (scope link)';
+
+-- ======== 027_broadcast_feed_updated_at.sql ========
+
+-- 027: Broadcast feed Last-Modified
+-- feed_updated_at moves whenever the set of published posts of a channel
+-- changes: a post is published (directly, by approval or by the scheduler),
+-- edited, pinned or unpinned, or deleted (by the owner or on expiry). Public
+-- feeds send it as Last-Modified. A trigger keeps it current for every
+-- writer, including the scheduler and channel burns.
+
+ALTER TABLE broadcast_channels
+  ADD COLUMN IF NOT EXISTS feed_updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+CREATE OR REPLACE FUNCTION touch_broadcast_feed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.status = 'published' THEN
+    UPDATE broadcast_channels SET feed_updated_at = CURRENT_TIMESTAMP WHERE channel_id = OLD.channel_id;
+  ELSIF TG_OP <> 'DELETE' AND NEW.status = 'published' THEN
+    UPDATE broadcast_channels SET feed_updated_at = CURRENT_TIMESTAMP WHERE channel_id = NEW.channel_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER touch_broadcast_feed AFTER INSERT OR UPDATE OR DELETE ON broadcast_posts
+  FOR EACH ROW EXECUTE FUNCTION touch_broadcast_feed();
+
+COMMENT ON COLUMN broadcast_channels.feed_updated_at IS 'Last change to the published posts (feed Last-Modified)';
@@ -0,0 +1,201 @@
+/**
+ * Attachments Components
+ * Attach button and pending-file chips for compose boxes, and the decrypted
+ * attachment list shown under messages. Files are fetched and decrypted only
+ * when the reader asks (images auto-load as a preview).
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { Button98 } from './Button98';
+import { aimTheme } from '../../theme/aim-theme';
+import {
+  decodeMessage, decryptFile, isPreviewableImage, formatBytes,
+  MAX_ATTACHMENTS, type AttachmentRef,
+} from '../../utils/attachments';
+
+const Chips = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${aimTheme.spacing.sm};
+  padding: 0 ${aimTheme.spacing.sm};
+`;
+
+const Chip = styled.span`
+  font-size: ${aimTheme.fonts.size.small};
+  background: ${aimTheme.colors.white};
+  box-shadow: var(--border-field);
+  padding: 1px ${aimTheme.spacing.sm};
+  max-width: 180px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const RemoveChip = styled.button`
+  border: none;
+  background: none;
+  cursor: pointer;
+  padding: 0 0 0 ${aimTheme.spacing.sm};
+  font-size: ${aimTheme.fonts.size.small};
+`;
+
+const FileLink = styled.button`
+  display: block;
+  border: none;
+  background: none;
+  padding: 0;
+  margin-top: ${aimTheme.spacing.xs};
+  color: ${aimTheme.colors.blue};
+  text-decoration: underline;
+  cursor: pointer;
+  font-size: ${aimTheme.fonts.size.small};
+  text-align: left;
+`;
+
+const Preview = styled.img`
+  display: block;
+  max-width: 220px;
+  max-height: 160px;
+  margin-top: ${aimTheme.spacing.xs};
+  box-shadow: var(--border-field);
+`;
+
+/** Fetch an attachment's ciphertext and decrypt it into a typed Blob */
+async function loadAttachment(ref: AttachmentRef): Promise<Blob> {
+  const res = await apiClient.get(endpoints.public.attachment(ref.id));
+  const blob = await fetch(res.data.data.download_url as string);
+  if (!blob.ok) throw new Error(`Download failed (${blob.status})`);
+  const plaintext = await decryptFile(await blob.arrayBuffer(), ref);
+  return new Blob([plaintext], { type: ref.type });
+}
+
+function saveBlob(blob: Blob, name: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const AttachmentItem: React.FC<{ attachment: AttachmentRef }> = ({ attachment }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [state, setState] = useState<'idle' | 'loading' | 'error'>('idle');
+  const previewable = isPreviewableImage(attachment.type);
+
+  useEffect(() => {
+    if (!previewable) return;
+    let url: string | null = null;
+    let cancelled = false;
+    loadAttachment(attachment)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+      })
+      .catch(() => { if (!cancelled) setState('error'); });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, previewable]);
+
+  const handleDownload = async () => {
+    setState('loading');
+    try {
+      saveBlob(await loadAttachment(attachment), attachment.name);
+      setState('idle');
+    } catch {
+      setState('error');
+    }
+  };
+
+  return (
+    <div>
+      {previewUrl && <Preview src={previewUrl} alt={attachment.name} />}
+      <FileLink type="button" onClick={handleDownload} disabled={state === 'loading'}>
+        📎 {attachment.name} ({formatBytes(attachment.size)})
+        {state === 'loading' && ' — decrypting...'}
+        {state === 'error' && ' — unavailable'}
+      </FileLink>
+    </div>
+  );
+};
+
+export const AttachmentList: React.FC<{ attachments: AttachmentRef[] }> = ({ attachments }) => (
+  <>
+    {attachments.map((a) => <AttachmentItem key={a.id} attachment={a} />)}
+  </>
+);
+
+interface MessageBodyProps {
+  content: string;
+  /** Applied to the text only (e.g. watermarking), never to the envelope */
+  formatText?: (text: string) => string;
+}
+
+/**
+ * Decrypted message body: text plus any attachments from the envelope
+ */
+export const MessageBody: React.FC<MessageBodyProps> = ({ content, formatText }) => {
+  // Memoized so polling re-renders don't re-fetch image previews
+  const { text, attachments } = useMemo(() => decodeMessage(content), [content]);
+  return (
+    <>
+      {formatText ? formatText(text) : text}
+      {attachments.length > 0 && <AttachmentList attachments={attachments} />}
+    </>
+  );
+};
+
+interface AttachButtonProps {
+  count: number;
+  onAdd: (files: FileList) => void;
+  disabled?: boolean;
+}
+
+/** Attach button for a compose box's button bar */
+export const AttachButton: React.FC<AttachButtonProps> = ({ count, onAdd, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <Button98
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || count >= MAX_ATTACHMENTS}
+        title="Attach files (encrypted before upload)"
+      >
+        📎 Attach
+      </Button98>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        hidden
+        onChange={(e) => {
+          if (e.target.files) onAdd(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+};
+
+/** Chips for files waiting to be sent */
+export const PendingFiles: React.FC<{ files: File[]; onRemove: (index: number) => void }> = ({ files, onRemove }) => {
+  if (files.length === 0) return null;
+  return (
+    <Chips>
+      {files.map((f, i) => (
+        <Chip key={`${f.name}-${i}`} title={f.name}>
+          {f.name} ({formatBytes(f.size)})
+          <RemoveChip type="button" onClick={() => onRemove(i)} aria-label={`Remove ${f.name}`}>✕</RemoveChip>
+        </Chip>
+      ))}
+    </Chips>
+  );
+};
@@ -1,6 +1,8 @@
 /**
  * Broadcast Channel Window
- * Read URL, QR, add post form, link to public feed
+ * Read URL, QR, add post form (optionally scheduled or expiring), guest-post review queue, post list
+ * (pin/edit/delete), contributor tokens, link to public feed. Public-feed
+ * channels post plaintext and list their Atom/RSS/JSON feed URLs.
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
@@ -16,6 +18,12 @@ import { endpoints } from '../../config/api-endpoints';
 import { encryptBroadcast } from '../../utils/broadcast-e2ee';
 import { getBroadcastKey, saveBroadcastKey } from '../../utils/broadcast-key-store';
 import { useAppSyncEvents } from '../../hooks/useAppSyncEvents';
+import { BroadcastPostList } from './BroadcastPostList';
+import { BroadcastModerationQueue } from './BroadcastModerationQueue';
+import { BroadcastTokenManager } from './BroadcastTokenManager';
+import {
+  BroadcastScheduleFields, BroadcastSchedule, EMPTY_SCHEDULE, scheduleFields,
+} from './BroadcastScheduleFields';
 
 interface BroadcastChannelWindowProps {
   channelId: string;
@@ -23,6 +31,8 @@ interface BroadcastChannelWindowProps {
   readUrl: string;
   postToken?: string;
   encryptionKey?: string; // AES-256 key for E2EE
+  allowGuestPosts?: boolean; // shows the review queue
+  publicFeed?: boolean; // unencrypted channel with feeds, no key needed
   onClose: () => void;
   onNewPost?: () => void; // called when a real-time post event arrives
   initialX?: number;
@@ -34,6 +44,7 @@ const Content = styled.div`
   display: flex;
   flex-direction: column;
   height: 100%;
+  overflow-y: auto;
   background: ${aimTheme.colors.gray};
   padding: ${aimTheme.spacing.sm};
 `;
@@ -93,6 +104,8 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
   readUrl,
   postToken: initialPostToken,
   encryptionKey: initialEncryptionKey,
+  allowGuestPosts = false,
+  publicFeed = false,
   onClose,
   onNewPost,
   initialX = 380,
@@ -102,6 +115,8 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
   const [postToken, setPostToken] = useState(initialPostToken ?? '');
   const [content, setContent] = useState('');
   const [posting, setPosting] = useState(false);
+  const [schedule, setSchedule] = useState<BroadcastSchedule>(EMPTY_SCHEDULE);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [recoveredKey, setRecoveredKey] = useState(() => {
     if (initialEncryptionKey) return '';
     try {
@@ -109,11 +124,12 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
       return stored[channelId] || '';
     } catch { return ''; }
   });
-  const encryptionKey = initialEncryptionKey || recoveredKey || undefined;
+  const encryptionKey = publicFeed ? undefined : initialEncryptionKey || recoveredKey || undefined;
+  const canPost = publicFeed || Boolean(encryptionKey);
 
   // Recover key when we have it: from readUrl fragment, or from localStorage (e.g. parent state was stale)
   useEffect(() => {
-    if (initialEncryptionKey || recoveredKey) return;
+    if (publicFeed || initialEncryptionKey || recoveredKey) return;
     const hashIdx = readUrl.indexOf('#');
     if (hashIdx >= 0) {
       const key = readUrl.slice(hashIdx + 1).trim();
@@ -126,17 +142,17 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
         } catch { /* ignore */ }
       }
     }
-  }, [readUrl, channelId, initialEncryptionKey, recoveredKey]);
+  }, [readUrl, channelId, publicFeed, initialEncryptionKey, recoveredKey]);
 
   // Vault fallback: recover key from IndexedDB vault if localStorage is empty
   useEffect(() => {
-    if (initialEncryptionKey || recoveredKey) return;
+    if (publicFeed || initialEncryptionKey || recoveredKey) return;
     let cancelled = false;
     getBroadcastKey(channelId).then((key) => {
       if (key && !cancelled) setRecoveredKey(key);
     }).catch(() => {});
     return () => { cancelled = true; };
-  }, [channelId, initialEncryptionKey, recoveredKey]);
+  }, [channelId, publicFeed, initialEncryptionKey, recoveredKey]);
 
   const handleRecoverKey = (urlOrKey: string) => {
     const trimmed = urlOrKey.trim();
@@ -162,6 +178,7 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
   // Real-time: subscribe to broadcast channel events
   const broadcastChannel = `/broadcast/channel/${channelId.replace(/_/g, '-')}`;
   const handleBroadcastEvent = useCallback(() => {
+    setRefreshKey((k) => k + 1);
     onNewPost?.();
   }, [onNewPost]);
   useAppSyncEvents(broadcastChannel, handleBroadcastEvent);
@@ -173,7 +190,7 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
 
   const handleCopyLink = () => {
     navigator.clipboard.writeText(fullReadUrl);
-    toast.success('Read link copied (with encryption key)');
+    toast.success(encryptionKey ? 'Read link copied (with encryption key)' : 'Read link copied');
   };
 
   const handleAddPost = async (e: React.FormEvent) => {
@@ -182,23 +199,31 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
       toast.error('Enter post content and post token');
       return;
     }
-    if (!encryptionKey) {
+    if (!canPost) {
       toast.error('Missing encryption key - cannot post securely');
       return;
     }
     setPosting(true);
     try {
-      // Encrypt content client-side before sending
-      const encryptedContent = await encryptBroadcast(content.trim(), encryptionKey);
-      await apiClient.post(
+      // Encrypt content client-side before sending; public feeds stay plaintext
+      const postContent = encryptionKey ? await encryptBroadcast(content.trim(), encryptionKey) : content.trim();
+      const response = await apiClient.post(
         endpoints.public.broadcastAddPost(channelId),
-        { post_token: tokenToUse, content: encryptedContent }
+        { post_token: tokenToUse, content: postContent, ...scheduleFields(schedule) }
       );
-      toast.success('Post added (encrypted)');
+      if (response.data.data?.status === 'scheduled') {
+        toast.success(`Post scheduled for ${new Date(schedule.publishAt).toLocaleString()}`);
+      } else {
+        toast.success(encryptionKey ? 'Post added (encrypted)' : 'Post added');
+      }
       setContent('');
+      setSchedule(EMPTY_SCHEDULE);
+      setRefreshKey((k) => k + 1);
     } catch (error) {
       console.error('Failed to add post:', error);
-      toast.error('Failed to add post');
+      const message = (error as { response?: { data?: { error?: { message?: string } } } })
+        ?.response?.data?.error?.message;
+      toast.error(message || 'Failed to add post');
     } finally {
       setPosting(false);
     }
@@ -212,7 +237,7 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
     <WindowFrame
       title={`📡 ${channelName}`}
       width={420}
-      height={560}
+      height={640}
       initialX={initialX}
       initialY={initialY}
       zIndex={zIndex}
@@ -228,6 +253,26 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
           </ButtonRow>
         </Section>
 
+        {publicFeed && (
+          <Section>
+            <Label>Feeds (Atom, RSS, JSON Feed)</Label>
+            <UrlBlock>{`${readUrl}/feed.atom`}</UrlBlock>
+            <ButtonRow>
+              {(['atom', 'rss', 'json'] as const).map((format) => (
+                <Button98
+                  key={format}
+                  onClick={() => {
+                    navigator.clipboard.writeText(`${readUrl}/feed.${format}`);
+                    toast.success(`${format.toUpperCase()} feed URL copied`);
+                  }}
+                >
+                  Copy {format.toUpperCase()}
+                </Button98>
+              ))}
+            </ButtonRow>
+          </Section>
+        )}
+
         <Section>
           <Label>QR for read URL</Label>
           <QRWrap>
@@ -237,7 +282,7 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
 
         <Section>
           <Label>Add post</Label>
-          {!encryptionKey && (
+          {!canPost && (
             <div style={{ marginBottom: '8px' }}>
               <div style={{ color: '#c00', fontSize: aimTheme.fonts.size.small, marginBottom: '4px' }}>
                 Encryption key not available. To add posts you need the full read link that includes the key (the part after #). If you saved that link when you created the channel, paste it below:
@@ -250,15 +295,15 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
               />
             </div>
           )}
-          {!initialPostToken && encryptionKey && (
+          {!initialPostToken && canPost && (
             <Input
               type="text"
-              placeholder="Post token (from when you created the channel)"
+              placeholder="Post token (the channel's, or a contributor token)"
               value={postToken}
               onChange={(e) => setPostToken(e.target.value)}
             />
           )}
-          {encryptionKey && (
+          {canPost && (
             <form onSubmit={handleAddPost}>
               <TextArea
                 placeholder="Post content..."
@@ -267,12 +312,47 @@ export const BroadcastChannelWindow: React.FC<BroadcastChannelWindowProps> = ({
                 maxLength={10000}
               />
               <CharCounter current={content.length} max={10000} />
+              <BroadcastScheduleFields
+                idPrefix={`post-${channelId}`}
+                value={schedule}
+                onChange={setSchedule}
+                disabled={posting}
+              />
               <Button98 type="submit" disabled={posting || !content.trim() || !tokenToUse.trim()}>
-                {posting ? 'Posting…' : 'Add post'}
+                {posting ? 'Posting…' : schedule.publishAt ? 'Schedule post' : 'Add post'}
               </Button98>
             </form>
           )}
         </Section>
+
+        {canPost && allowGuestPosts && (
+          <Section>
+            <Label>Guest posts awaiting review</Label>
+            <BroadcastModerationQueue
+              channelId={channelId}
+              encryptionKey={encryptionKey}
+              postToken={tokenToUse.trim() || undefined}
+              onApproved={() => setRefreshKey((k) => k + 1)}
+            />
+          </Section>
+        )}
+
+        {canPost && (
+          <Section>
+            <Label>Posts</Label>
+            <BroadcastPostList
+              channelId={channelId}
+              encryptionKey={encryptionKey}
+              postToken={tokenToUse.trim() || undefined}
+              refreshKey={refreshKey}
+            />
+          </Section>
+        )}
+
+        <Section>
+          <Label>Contributor tokens</Label>
+          <BroadcastTokenManager channelId={channelId} postToken={tokenToUse.trim() || undefined} />
+        </Section>
       </Content>
     </WindowFrame>
   );
@@ -0,0 +1,227 @@
+/**
+ * Broadcast Moderation Queue
+ * Guest posts waiting for review in the owner's window: select several and
+ * approve, reject, or approve and trust their authors so later posts from
+ * the same browser skip the queue. Refreshes on the channel's queue event.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { toast } from 'sonner';
+import { Button98 } from './Button98';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import { decryptBroadcast } from '../../utils/broadcast-e2ee';
+import { useAppSyncEvents } from '../../hooks/useAppSyncEvents';
+import type { BroadcastModerationQueue as QueueData } from '../../types';
+
+interface BroadcastModerationQueueProps {
+  channelId: string;
+  /** Omitted for public-feed channels, whose posts are plaintext */
+  encryptionKey?: string;
+  postToken?: string;
+  /** Called after approving so the post list picks up the new posts */
+  onApproved: () => void;
+}
+
+interface PendingPost {
+  post_id: string;
+  text: string;
+  created_at: string;
+  has_guest_key: boolean;
+}
+
+const List = styled.div`
+  max-height: 160px;
+  overflow-y: auto;
+  background: ${aimTheme.colors.white};
+  box-shadow: var(--border-field);
+  padding: ${aimTheme.spacing.sm};
+  margin-bottom: 4px;
+`;
+
+const PendingRow = styled.label`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  align-items: flex-start;
+  padding: ${aimTheme.spacing.sm} 0;
+  border-bottom: 1px solid ${aimTheme.colors.lightGray};
+`;
+
+const PendingText = styled.div`
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+const Meta = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  flex-wrap: wrap;
+  margin-bottom: 4px;
+
+  & > button {
+    min-width: 0;
+    padding: 2px 8px;
+  }
+`;
+
+export const BroadcastModerationQueue: React.FC<BroadcastModerationQueueProps> = ({
+  channelId,
+  encryptionKey,
+  postToken,
+  onApproved,
+}) => {
+  const [posts, setPosts] = useState<PendingPost[]>([]);
+  const [pending, setPending] = useState(0);
+  const [moderated, setModerated] = useState(false);
+  const [trustedGuests, setTrustedGuests] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  /** Post token when this window has it; the owner's JWT either way */
+  const authHeaders = useCallback(async (): Promise<Record<string, string>> => ({
+    Authorization: `Bearer ${await getAccessToken()}`,
+    ...(postToken ? { 'X-Post-Token': postToken } : {}),
+  }), [postToken]);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await apiClient.get(endpoints.public.broadcastPending(channelId), {
+        headers: await authHeaders(),
+      });
+      const queue: QueueData = response.data.data;
+      setPending(queue.pending);
+      setModerated(queue.moderate_guest_posts);
+      setTrustedGuests(queue.trusted_guests);
+      setPosts(await Promise.all(queue.posts.map(async (post) => {
+        if (!encryptionKey) return { ...post, text: post.content };
+        try {
+          return { ...post, text: await decryptBroadcast(post.content, encryptionKey) };
+        } catch {
+          return { ...post, text: '[Decryption failed]' };
+        }
+      })));
+      setSelected((prev) => new Set([...prev].filter((id) => queue.posts.some((p) => p.post_id === id))));
+    } catch (err) {
+      console.error('Failed to fetch moderation queue:', err);
+    }
+  }, [channelId, encryptionKey, authHeaders]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  useAppSyncEvents(`/broadcast/moderation/${channelId.replace(/_/g, '-')}`, fetchQueue);
+
+  const send = async (method: 'post' | 'patch', body: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const response = await apiClient.request({
+        url: endpoints.public.broadcastModeration(channelId),
+        method,
+        data: { ...body, ...(postToken ? { post_token: postToken } : {}) },
+        headers: { Authorization: `Bearer ${await getAccessToken()}` },
+      });
+      await fetchQueue();
+      return response.data.data;
+    } catch (err: unknown) {
+      const message = (err as { response?: { data?: { error?: { message?: string } } } })
+        ?.response?.data?.error?.message;
+      toast.error(message || 'Failed to update the review queue');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const moderate = async (action: 'approve' | 'reject', trustAuthors = false) => {
+    const ids = [...selected];
+    if (ids.length === 0) return;
+    const result = await send('post', {
+      approve: action === 'approve' ? ids : [],
+      reject: action === 'reject' ? ids : [],
+      trust_authors: trustAuthors,
+    });
+    if (!result) return;
+    setSelected(new Set());
+    if (result.approved > 0) onApproved();
+    toast.success(action === 'approve'
+      ? `Approved ${result.approved}${result.trusted ? `, trusted ${result.trusted} author(s)` : ''}`
+      : `Rejected ${result.rejected}`);
+  };
+
+  const toggle = (postId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(postId)) next.delete(postId); else next.add(postId);
+      return next;
+    });
+  };
+
+  const allSelected = posts.length > 0 && selected.size === posts.length;
+
+  return (
+    <>
+      <div className="field-row">
+        <input
+          id={`moderate-${channelId}`}
+          type="checkbox"
+          checked={moderated}
+          disabled={busy}
+          onChange={(e) => send('patch', { moderate_guest_posts: e.target.checked })}
+        />
+        <label htmlFor={`moderate-${channelId}`}>Review guest posts before they appear</label>
+      </div>
+      <Meta>{pending} waiting · {trustedGuests} trusted author(s)</Meta>
+      {trustedGuests > 0 && (
+        <Actions>
+          <Button98 onClick={() => send('patch', { clear_trusted_guests: true })} disabled={busy}>
+            Forget trusted authors
+          </Button98>
+        </Actions>
+      )}
+      {posts.length > 0 && (
+        <>
+          <List>
+            {posts.map((post) => (
+              <PendingRow key={post.post_id}>
+                <input type="checkbox" checked={selected.has(post.post_id)} onChange={() => toggle(post.post_id)} />
+                <div>
+                  <Meta>
+                    {new Date(post.created_at).toLocaleString()}
+                    {!post.has_guest_key && ' · no posting key'}
+                  </Meta>
+                  <PendingText>{post.text}</PendingText>
+                </div>
+              </PendingRow>
+            ))}
+          </List>
+          <Actions>
+            <Button98
+              onClick={() => setSelected(allSelected ? new Set() : new Set(posts.map((p) => p.post_id)))}
+              disabled={busy}
+            >
+              {allSelected ? 'Select none' : 'Select all'}
+            </Button98>
+            <Button98 onClick={() => moderate('approve')} disabled={busy || selected.size === 0}>Approve</Button98>
+            <Button98
+              onClick={() => moderate('approve', true)}
+              disabled={busy || selected.size === 0}
+              title="Approve, and publish future posts from these authors without review"
+            >
+              Approve &amp; trust
+            </Button98>
+            <Button98 onClick={() => moderate('reject')} disabled={busy || selected.size === 0}>Reject</Button98>
+          </Actions>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,229 @@
+/**
+ * Broadcast Post List
+ * The channel's posts in the owner's window, with pin, edit and delete.
+ * Changes are authorised by the post token when this window has it,
+ * otherwise by the owner's sign-in. The owner also sees which contributor
+ * token wrote each post, and posts scheduled to go live later (delete only
+ * until then).
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { toast } from 'sonner';
+import { Button98 } from './Button98';
+import { ConfirmDialog } from './ConfirmDialog';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import { encryptBroadcast, decryptBroadcast } from '../../utils/broadcast-e2ee';
+import type { BroadcastPost, BroadcastPostsResponse } from '../../types';
+
+interface BroadcastPostListProps {
+  channelId: string;
+  /** Omitted for public-feed channels, whose posts are plaintext */
+  encryptionKey?: string;
+  postToken?: string;
+  /** Bumped by the window on a channel event or after posting */
+  refreshKey: number;
+}
+
+interface DecryptedPost extends BroadcastPost {
+  text: string;
+}
+
+const List = styled.div`
+  max-height: 180px;
+  overflow-y: auto;
+  background: ${aimTheme.colors.white};
+  box-shadow: var(--border-field);
+  padding: ${aimTheme.spacing.sm};
+`;
+
+const PostRow = styled.div<{ $pinned: boolean }>`
+  padding: ${aimTheme.spacing.sm} 0;
+  border-bottom: 1px solid ${aimTheme.colors.lightGray};
+  background: ${(p) => (p.$pinned ? aimTheme.colors.lightYellow : 'transparent')};
+`;
+
+const PostMeta = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+`;
+
+const PostText = styled.div`
+  white-space: pre-wrap;
+  word-break: break-word;
+  margin: 2px 0 4px;
+`;
+
+const EditArea = styled.textarea`
+  width: 100%;
+  min-height: 48px;
+  border: none;
+  resize: vertical;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+
+  & > button {
+    min-width: 0;
+    padding: 2px 8px;
+  }
+`;
+
+const Empty = styled.div`
+  color: ${aimTheme.colors.darkGray};
+  font-size: ${aimTheme.fonts.size.small};
+`;
+
+export const BroadcastPostList: React.FC<BroadcastPostListProps> = ({
+  channelId,
+  encryptionKey,
+  postToken,
+  refreshKey,
+}) => {
+  const [posts, setPosts] = useState<DecryptedPost[]>([]);
+  const [scheduled, setScheduled] = useState<DecryptedPost[]>([]);
+  const [editing, setEditing] = useState<{ postId: string; text: string } | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchPosts = useCallback(async () => {
+    try {
+      const response = await apiClient.get(endpoints.public.broadcastPosts(channelId), {
+        params: { limit: 50 },
+        headers: {
+          Authorization: `Bearer ${await getAccessToken()}`,
+          ...(postToken ? { 'X-Post-Token': postToken } : {}),
+        },
+      });
+      const data: Partial<BroadcastPostsResponse> = response.data.data ?? {};
+      const decrypt = (raw: BroadcastPost[]) => Promise.all(raw.map(async (post): Promise<DecryptedPost> => {
+        if (!encryptionKey) return { ...post, text: post.content };
+        try {
+          return { ...post, text: await decryptBroadcast(post.content, encryptionKey) };
+        } catch {
+          return { ...post, text: '[Decryption failed]' };
+        }
+      }));
+      setPosts(await decrypt(data.posts ?? []));
+      setScheduled(await decrypt(data.scheduled ?? []));
+    } catch (err) {
+      console.error('Failed to fetch broadcast posts:', err);
+    }
+  }, [channelId, encryptionKey, postToken]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts, refreshKey]);
+
+  /** Post token in the body when we have it; the owner's JWT either way */
+  const changePost = async (postId: string, method: 'patch' | 'delete', body: Record<string, unknown> = {}) => {
+    setBusy(true);
+    try {
+      await apiClient.request({
+        url: endpoints.public.broadcastPost(channelId, postId),
+        method,
+        data: { ...body, ...(postToken ? { post_token: postToken } : {}) },
+        headers: { Authorization: `Bearer ${await getAccessToken()}` },
+      });
+      await fetchPosts();
+      return true;
+    } catch (err: unknown) {
+      const message = (err as { response?: { data?: { error?: { message?: string } } } })
+        ?.response?.data?.error?.message;
+      toast.error(message || 'Failed to update post');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !editing.text.trim()) return;
+    const text = editing.text.trim();
+    const content = encryptionKey ? await encryptBroadcast(text, encryptionKey) : text;
+    if (await changePost(editing.postId, 'patch', { content })) setEditing(null);
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return;
+    const postId = deleteTarget;
+    setDeleteTarget(null);
+    if (await changePost(postId, 'delete')) toast.success('Post deleted');
+  };
+
+  return (
+    <>
+      <List>
+        {scheduled.map((post) => (
+          <PostRow key={post.post_id} $pinned={false}>
+            <PostMeta>
+              ⏰ Goes live {new Date(post.publish_at!).toLocaleString()}
+              {post.expires_at && ` · expires ${new Date(post.expires_at).toLocaleString()}`}
+              {post.author_label && ` · by ${post.author_label}`}
+            </PostMeta>
+            <PostText>{post.text}</PostText>
+            <Actions>
+              <Button98 onClick={() => setDeleteTarget(post.post_id)} disabled={busy}>Delete</Button98>
+            </Actions>
+          </PostRow>
+        ))}
+        {posts.length === 0 && <Empty>No posts yet.</Empty>}
+        {posts.map((post) => (
+          <PostRow key={post.post_id} $pinned={Boolean(post.pinned_at)}>
+            <PostMeta>
+              {post.pinned_at && '📌 Pinned · '}
+              {new Date(post.created_at).toLocaleString()}
+              {post.edited_at && ' (edited)'}
+              {post.expires_at && ` · expires ${new Date(post.expires_at).toLocaleString()}`}
+              {post.author_label && ` · by ${post.author_label}`}
+            </PostMeta>
+            {editing?.postId === post.post_id ? (
+              <EditArea
+                value={editing.text}
+                onChange={(e) => setEditing({ postId: post.post_id, text: e.target.value })}
+                maxLength={10000}
+                autoFocus
+              />
+            ) : (
+              <PostText>{post.text}</PostText>
+            )}
+            <Actions>
+              {editing?.postId === post.post_id ? (
+                <>
+                  <Button98 onClick={saveEdit} disabled={busy || !editing.text.trim()}>Save</Button98>
+                  <Button98 onClick={() => setEditing(null)} disabled={busy}>Cancel</Button98>
+                </>
+              ) : (
+                <>
+                  <Button98 onClick={() => changePost(post.post_id, 'patch', { pinned: !post.pinned_at })} disabled={busy}>
+                    {post.pinned_at ? 'Unpin' : 'Pin'}
+                  </Button98>
+                  <Button98 onClick={() => setEditing({ postId: post.post_id, text: post.text })} disabled={busy}>
+                    Edit
+                  </Button98>
+                  <Button98 onClick={() => setDeleteTarget(post.post_id)} disabled={busy}>Delete</Button98>
+                </>
+              )}
+            </Actions>
+          </PostRow>
+        ))}
+      </List>
+
+      {deleteTarget && (
+        <ConfirmDialog
+          title="Delete Post"
+          message="Delete this post for everyone reading the channel?"
+          icon="⚠️"
+          confirmText="Delete"
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleteTarget(null)}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,88 @@
+/**
+ * Broadcast Schedule Fields
+ * Optional "publish at" and "expires at" pickers for a broadcast post.
+ * Values are datetime-local strings in the browser's time zone; empty
+ * means publish now / keep the post.
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { aimTheme } from '../../theme/aim-theme';
+
+export interface BroadcastSchedule {
+  publishAt: string;
+  expiresAt: string;
+}
+
+export const EMPTY_SCHEDULE: BroadcastSchedule = { publishAt: '', expiresAt: '' };
+
+/** Request fields for POST /posts; only the times that were picked */
+export function scheduleFields(schedule: BroadcastSchedule): { publish_at?: string; expires_at?: string } {
+  return {
+    ...(schedule.publishAt ? { publish_at: new Date(schedule.publishAt).toISOString() } : {}),
+    ...(schedule.expiresAt ? { expires_at: new Date(schedule.expiresAt).toISOString() } : {}),
+  };
+}
+
+interface BroadcastScheduleFieldsProps {
+  idPrefix: string;
+  value: BroadcastSchedule;
+  onChange: (value: BroadcastSchedule) => void;
+  disabled?: boolean;
+}
+
+const Row = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  flex-wrap: wrap;
+  margin-bottom: 4px;
+  font-size: ${aimTheme.fonts.size.small};
+
+  & > label {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+  }
+`;
+
+/** datetime-local wants local time without seconds */
+function localNow(): string {
+  const d = new Date(Date.now() - new Date().getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 16);
+}
+
+export const BroadcastScheduleFields: React.FC<BroadcastScheduleFieldsProps> = ({
+  idPrefix,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const min = localNow();
+
+  return (
+    <Row>
+      <label htmlFor={`${idPrefix}-publish-at`}>
+        Publish at (optional)
+        <input
+          id={`${idPrefix}-publish-at`}
+          type="datetime-local"
+          min={min}
+          value={value.publishAt}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, publishAt: e.target.value })}
+        />
+      </label>
+      <label htmlFor={`${idPrefix}-expires-at`}>
+        Expires at (optional)
+        <input
+          id={`${idPrefix}-expires-at`}
+          type="datetime-local"
+          min={value.publishAt || min}
+          value={value.expiresAt}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, expiresAt: e.target.value })}
+        />
+      </label>
+    </Row>
+  );
+};
@@ -0,0 +1,262 @@
+/**
+ * Broadcast Token Manager
+ * Contributor tokens for a channel: mint a named token limited to posting,
+ * moderating and/or burning, copy it once, revoke it later. Only the
+ * channel's own token or the owner's sign-in can manage tokens; with a
+ * contributor token in this window the section explains that instead.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { toast } from 'sonner';
+import { Button98 } from './Button98';
+import { ConfirmDialog } from './ConfirmDialog';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import type { BroadcastToken, BroadcastTokenScope } from '../../types';
+
+interface BroadcastTokenManagerProps {
+  channelId: string;
+  postToken?: string;
+}
+
+const SCOPES: Array<{ scope: BroadcastTokenScope; label: string }> = [
+  { scope: 'post', label: 'Post' },
+  { scope: 'moderate', label: 'Edit, pin & review' },
+  { scope: 'burn', label: 'Burn channel' },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never expires' },
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const List = styled.div`
+  max-height: 120px;
+  overflow-y: auto;
+  background: ${aimTheme.colors.white};
+  box-shadow: var(--border-field);
+  padding: ${aimTheme.spacing.sm};
+  margin-bottom: 4px;
+`;
+
+const TokenRow = styled.div<{ $inactive: boolean }>`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${aimTheme.spacing.sm};
+  padding: 2px 0;
+  color: ${(p) => (p.$inactive ? aimTheme.colors.darkGray : aimTheme.colors.black)};
+
+  & > button {
+    min-width: 0;
+    padding: 2px 8px;
+  }
+`;
+
+const Meta = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+`;
+
+const Row = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  flex-wrap: wrap;
+  align-items: center;
+  margin-bottom: 4px;
+`;
+
+const Input = styled.input`
+  flex: 1;
+  min-width: 120px;
+  border: none;
+  padding: ${aimTheme.spacing.sm};
+`;
+
+const Secret = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  word-break: break-all;
+  padding: ${aimTheme.spacing.sm};
+  background: ${aimTheme.colors.lightYellow};
+  box-shadow: var(--border-field);
+  margin-bottom: 4px;
+`;
+
+function describe(token: BroadcastToken): string {
+  const scopes = token.scopes.join(', ');
+  if (token.revoked_at) return `${scopes} · revoked`;
+  if (token.expires_at && new Date(token.expires_at).getTime() <= Date.now()) return `${scopes} · expired`;
+  if (token.expires_at) return `${scopes} · until ${new Date(token.expires_at).toLocaleDateString()}`;
+  return scopes;
+}
+
+export const BroadcastTokenManager: React.FC<BroadcastTokenManagerProps> = ({ channelId, postToken }) => {
+  const [tokens, setTokens] = useState<BroadcastToken[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+  const [label, setLabel] = useState('');
+  const [scopes, setScopes] = useState<BroadcastTokenScope[]>(['post']);
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [minted, setMinted] = useState<BroadcastToken | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<BroadcastToken | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await apiClient.get(endpoints.public.broadcastTokens(channelId), {
+        headers: {
+          Authorization: `Bearer ${await getAccessToken()}`,
+          ...(postToken ? { 'X-Post-Token': postToken } : {}),
+        },
+      });
+      setTokens(response.data.data?.tokens ?? []);
+      setUnavailable(false);
+    } catch {
+      setUnavailable(true);
+    }
+  }, [channelId, postToken]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  /** Channel token in the body when we have it; the owner's JWT either way */
+  const send = async (method: 'post' | 'delete', url: string, body: Record<string, unknown> = {}) => {
+    setBusy(true);
+    try {
+      const response = await apiClient.request({
+        url,
+        method,
+        data: { ...body, ...(postToken ? { post_token: postToken } : {}) },
+        headers: { Authorization: `Bearer ${await getAccessToken()}` },
+      });
+      await fetchTokens();
+      return response.data.data;
+    } catch (err: unknown) {
+      const message = (err as { response?: { data?: { error?: { message?: string } } } })
+        ?.response?.data?.error?.message;
+      toast.error(message || 'Failed to update tokens');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim() || scopes.length === 0) return;
+    const expiresAt = expiryDays ? new Date(Date.now() + expiryDays * 86_400_000).toISOString() : null;
+    const created = await send('post', endpoints.public.broadcastTokens(channelId), {
+      label: label.trim(),
+      scopes,
+      expires_at: expiresAt,
+    });
+    if (created) {
+      setMinted(created);
+      setLabel('');
+    }
+  };
+
+  const confirmRevoke = async () => {
+    if (!revokeTarget) return;
+    const target = revokeTarget;
+    setRevokeTarget(null);
+    if (await send('delete', endpoints.public.broadcastToken(channelId, target.token_id))) {
+      toast.success(`Revoked "${target.label}"`);
+    }
+  };
+
+  const toggleScope = (scope: BroadcastTokenScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  if (unavailable) {
+    return <Meta>Sign in as the owner or enter the channel&apos;s own post token to manage contributor tokens.</Meta>;
+  }
+
+  return (
+    <>
+      {tokens.length > 0 && (
+        <List>
+          {tokens.map((token) => {
+            const inactive = Boolean(token.revoked_at)
+              || (token.expires_at !== null && new Date(token.expires_at).getTime() <= Date.now());
+            return (
+              <TokenRow key={token.token_id} $inactive={inactive}>
+                <div>
+                  <div>{token.label}</div>
+                  <Meta>{describe(token)}</Meta>
+                </div>
+                {!token.revoked_at && (
+                  <Button98 onClick={() => setRevokeTarget(token)} disabled={busy}>Revoke</Button98>
+                )}
+              </TokenRow>
+            );
+          })}
+        </List>
+      )}
+
+      {minted?.token && (
+        <>
+          <Meta>Token for &quot;{minted.label}&quot; — copy it now, it won&apos;t be shown again:</Meta>
+          <Secret>{minted.token}</Secret>
+          <Row>
+            <Button98
+              onClick={() => {
+                navigator.clipboard.writeText(minted.token!);
+                toast.success('Token copied');
+              }}
+            >
+              Copy token
+            </Button98>
+            <Button98 onClick={() => setMinted(null)}>Done</Button98>
+          </Row>
+        </>
+      )}
+
+      <form onSubmit={handleMint}>
+        <Row>
+          <Input
+            type="text"
+            placeholder="Contributor name, e.g. Night desk"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={50}
+          />
+          <select value={expiryDays} onChange={(e) => setExpiryDays(Number(e.target.value))}>
+            {EXPIRY_OPTIONS.map((o) => <option key={o.days} value={o.days}>{o.label}</option>)}
+          </select>
+        </Row>
+        <Row>
+          {SCOPES.map(({ scope, label: scopeLabel }) => (
+            <div className="field-row" key={scope}>
+              <input
+                id={`scope-${channelId}-${scope}`}
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              <label htmlFor={`scope-${channelId}-${scope}`}>{scopeLabel}</label>
+            </div>
+          ))}
+        </Row>
+        <Button98 type="submit" disabled={busy || !label.trim() || scopes.length === 0}>Create token</Button98>
+      </form>
+
+      {revokeTarget && (
+        <ConfirmDialog
+          title="Revoke Token"
+          message={`Revoke "${revokeTarget.label}"? Anyone using it can no longer post or manage the channel.`}
+          icon="⚠️"
+          confirmText="Revoke"
+          onConfirm={confirmRevoke}
+          onCancel={() => setRevokeTarget(null)}
+        />
+      )}
+    </>
+  );
+};
@@ -15,6 +15,12 @@ interface ContextMenuProps {
   onOpenSendPage?: () => void;
   onGetBuddyInfo: () => void;
   onEditDescription: () => void;
+  onManageWebhooks?: () => void;
+  onManageAutoReply?: () => void;
+  /** Link is not taking new threads (owner pause or thread limit) */
+  paused?: boolean;
+  onTogglePause?: () => void;
+  onManageLimits?: () => void;
   onDelete: () => void;
   onClose: () => void;
 }
@@ -74,6 +80,11 @@ export const BuddyContextMenu: React.FC<ContextMenuProps> = ({
   onOpenSendPage,
   onGetBuddyInfo,
   onEditDescription,
+  onManageWebhooks,
+  onManageAutoReply,
+  paused,
+  onTogglePause,
+  onManageLimits,
   onDelete,
   onClose,
 }) => {
@@ -155,6 +166,26 @@ export const BuddyContextMenu: React.FC<ContextMenuProps> = ({
         <MenuItem role="menuitem" onClick={() => { onEditDescription(); onClose(); }}>
           Edit Away Message
         </MenuItem>
+        {onManageAutoReply && (
+          <MenuItem role="menuitem" onClick={() => { onManageAutoReply(); onClose(); }}>
+            Auto-Reply...
+          </MenuItem>
+        )}
+        {onTogglePause && (
+          <MenuItem role="menuitem" onClick={() => { onTogglePause(); onClose(); }}>
+            {paused ? 'Resume New Messages' : 'Pause New Messages'}
+          </MenuItem>
+        )}
+        {onManageLimits && (
+          <MenuItem role="menuitem" onClick={() => { onManageLimits(); onClose(); }}>
+            Link Limits...
+          </MenuItem>
+        )}
+        {onManageWebhooks && (
+          <MenuItem role="menuitem" onClick={() => { onManageWebhooks(); onClose(); }}>
+            Webhooks...
+          </MenuItem>
+        )}
         <MenuDivider />
         <MenuItem role="menuitem" onClick={() => { onDelete(); onClose(); }}>
           Delete Buddy
@@ -12,6 +12,11 @@ import { CharCounter } from './CharCounter';
 import { Button98, BurnButton as BurnBtn } from './Button98';
 import { aimTheme } from '../../theme/aim-theme';
 import { useAIMSounds } from '../../hooks/useAIMSounds';
+import { useAttachments } from '../../hooks/useAttachments';
+import { encodeMessage } from '../../utils/attachments';
+import { AttachButton, PendingFiles, MessageBody } from './Attachments';
+import { ExportTranscriptButton } from './TranscriptExport';
+import type { Transcript } from '../../utils/transcript-archive';
 import type { Message } from '../../types';
 
 interface ChatWindowProps {
@@ -19,9 +24,16 @@ interface ChatWindowProps {
   linkName: string;
   senderAnonymousId: string;
   messages: Message[];
-  onSendMessage: (message: string) => void | Promise<void>;
+  /** Link the thread belongs to; enables attachments (uploads are link-scoped) */
+  linkId?: string;
+  /** Message to scroll to and highlight (search result) */
+  highlightMessageId?: string;
+  /** message is the plaintext envelope (text + attachment refs) to encrypt */
+  onSendMessage: (message: string, attachmentIds: string[]) => void | Promise<void>;
   onBurn: () => void;
   onClose: () => void;
+  /** Builds the decrypted transcript; enables the Export button */
+  getTranscript?: () => Transcript;
   initialX?: number;
   initialY?: number;
   zIndex?: number;
@@ -45,10 +57,11 @@ const MessageArea = styled.div`
   margin: ${aimTheme.spacing.sm};
 `;
 
-const MessageBubble = styled.div<{ isOwner: boolean }>`
+const MessageBubble = styled.div<{ isOwner: boolean; $highlighted?: boolean }>`
   margin: ${aimTheme.spacing.sm} 0;
   padding: ${aimTheme.spacing.sm} 0;
   word-wrap: break-word;
+  background: ${(props) => (props.$highlighted ? aimTheme.colors.lightYellow : 'transparent')};
 `;
 
 const Timestamp = styled.span`
@@ -113,9 +126,12 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   linkName,
   senderAnonymousId,
   messages,
+  linkId,
+  highlightMessageId,
   onSendMessage,
   onBurn,
   onClose,
+  getTranscript,
   initialX = 320,
   initialY = 50,
   zIndex = 101,
@@ -125,18 +141,27 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   const [isSending, setIsSending] = useState(false);
   const [showBurnConfirm, setShowBurnConfirm] = useState(false);
   const messageEndRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
   const { playFireIgnite } = useAIMSounds();
+  const { files, addFiles, removeFile, clearFiles, uploadFiles } = useAttachments();
+  const canSend = (!!inputValue.trim() || files.length > 0) && !isSending;
 
   useEffect(() => {
-    messageEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (highlightRef.current) {
+      highlightRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      messageEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, highlightMessageId]);
 
   const handleSend = async () => {
-    if (!inputValue.trim() || isSending) return;
+    if (!canSend) return;
     setIsSending(true);
     try {
-      await onSendMessage(inputValue);
+      const refs = linkId ? await uploadFiles({ link_id: linkId }) : [];
+      await onSendMessage(encodeMessage(inputValue, refs), refs.map((r) => r.id));
       setInputValue('');
+      clearFiles();
       playFireIgnite();
     } finally {
       setIsSending(false);
@@ -173,14 +198,19 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
             </div>
           ) : (
             messages.map((msg) => (
-              <MessageBubble key={msg.message_id} isOwner={msg.sender_type === 'owner'}>
+              <MessageBubble
+                key={msg.message_id}
+                ref={msg.message_id === highlightMessageId ? highlightRef : undefined}
+                isOwner={msg.sender_type === 'owner'}
+                $highlighted={msg.message_id === highlightMessageId}
+              >
                 <div>
                   <Timestamp>{formatTime(msg.created_at)}</Timestamp>
                   <Sender isOwner={msg.sender_type === 'owner'}>
                     {msg.sender_type === 'owner' ? 'You' : senderAnonymousId}:
                   </Sender>
                 </div>
-                <MessageContent>{msg.content}</MessageContent>
+                <MessageContent><MessageBody content={msg.content} /></MessageContent>
               </MessageBubble>
             ))
           )}
@@ -199,10 +229,13 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
           <div style={{ padding: `0 ${aimTheme.spacing.sm}` }}>
             <CharCounter current={inputValue.length} max={5000} />
           </div>
+          <PendingFiles files={files} onRemove={removeFile} />
           <ButtonBar>
-            <Button98 style={{ fontWeight: 'bold' }} onClick={handleSend} disabled={!inputValue.trim() || isSending}>
+            <Button98 style={{ fontWeight: 'bold' }} onClick={handleSend} disabled={!canSend}>
               {isSending ? 'Sending...' : 'Send'}
             </Button98>
+            {linkId && <AttachButton count={files.length} onAdd={addFiles} disabled={isSending} />}
+            {getTranscript && <ExportTranscriptButton getTranscript={getTranscript} disabled={messages.length === 0} />}
             <BurnBtn onClick={handleBurnClick}>🔥 Burn</BurnBtn>
             <Button98 onClick={onClose}>Close</Button98>
           </ButtonBar>
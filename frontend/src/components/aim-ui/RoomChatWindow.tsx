@@ -1,7 +1,7 @@
 /**
  * Room Chat Window Component
  * Multi-party E2E encrypted chat with AIM styling
- * Features: blur on tab switch, watermarking, real-time polling
+ * Features: blur on tab switch, watermarking, real-time polling, edit/unsend, transcript export
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
@@ -9,14 +9,24 @@ import styled from 'styled-components';
 import { toast } from 'sonner';
 import { WindowFrame } from './WindowFrame';
 import { PrimaryButton } from './Button98';
+import { ConfirmDialog } from './ConfirmDialog';
 import { aimTheme } from '../../theme/aim-theme';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import { getRoomKey, RoomKeyData } from '../../utils/key-store';
 import { isVaultConfigured, isVaultUnlocked } from '../../utils/key-vault';
-import { encryptGroupMessage, decryptGroupMessage } from '../../utils/room-e2ee';
+import { encryptGroupMessage } from '../../utils/room-e2ee';
+import { currentEpoch, isStaleEpochError } from '../../utils/room-epochs';
+import { decryptRoomMessage, type DecryptedRoomMessage } from '../../utils/room-messages';
 import { embedWatermark } from '../../utils/watermark';
+import { encodeMessage, decodeMessage } from '../../utils/attachments';
+import { roomTranscript } from '../../utils/transcript-archive';
 import { useAppSyncEvents } from '../../hooks/useAppSyncEvents';
+import { useAttachments } from '../../hooks/useAttachments';
+import { useRoomMessageEdits } from '../../hooks/useRoomMessageEdits';
+import { AttachButton, PendingFiles } from './Attachments';
+import { RoomMessageContent, RoomMessageActions, EditingBanner } from './RoomMessageParts';
+import { ExportTranscriptButton } from './TranscriptExport';
 import type { RoomMessage } from '../../types';
 
 interface RoomChatWindowProps {
@@ -28,11 +38,6 @@ interface RoomChatWindowProps {
   zIndex?: number;
 }
 
-interface DecryptedMessage extends RoomMessage {
-  plaintext: string;
-  isOwn: boolean;
-}
-
 const Content = styled.div`
   display: flex;
   flex-direction: column;
@@ -104,7 +109,6 @@ const TextInput = styled.input`
   }
 `;
 
-
 const StatusBar = styled.div`
   padding: 2px ${aimTheme.spacing.sm};
   font-size: ${aimTheme.fonts.size.small};
@@ -144,18 +148,21 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
   initialY = 80,
   zIndex = 200,
 }) => {
-  const [messages, setMessages] = useState<DecryptedMessage[]>([]);
+  const [messages, setMessages] = useState<DecryptedRoomMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [sending, setSending] = useState(false);
   const [roomKeys, setRoomKeys] = useState<RoomKeyData | null>(null);
   const [keysError, setKeysError] = useState<'vault_locked' | 'not_found' | null>(null);
   const [isBlurred, setIsBlurred] = useState(false);
+  const [editing, setEditing] = useState<DecryptedRoomMessage | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<DecryptedRoomMessage | null>(null);
   const [participants] = useState<Array<{ anonymous_id: string; display_name?: string }>>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const lastCursorRef = useRef<{ time: string; messageId: string } | null>(null); // Cursor for pagination
   const sendingRef = useRef(false); // Synchronous guard against race conditions
   const fetchingRef = useRef(false); // Prevent concurrent fetches
   const refetchPendingRef = useRef(false); // Queue refetch if one is in progress
+  const { files, addFiles, removeFile, clearFiles, uploadFiles } = useAttachments();
 
   // Load room keys
   useEffect(() => {
@@ -210,36 +217,16 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
       const response = await apiClient.get(url);
       const rawMessages: RoomMessage[] = response.data.data?.messages || response.data.data || [];
 
-      // Decrypt new messages
-      const decrypted: DecryptedMessage[] = await Promise.all(
-        rawMessages.map(async (msg) => {
-          try {
-            let plaintext = await decryptGroupMessage(
-              msg.ciphertext,
-              msg.nonce,
-              roomKeys.groupKey
-            );
-
-            // Embed watermark for display (unique to this viewer)
-            if (roomKeys.watermarkSeed) {
-              plaintext = embedWatermark(plaintext, roomKeys.watermarkSeed);
-            }
-
-            return {
-              ...msg,
-              plaintext,
-              isOwn: msg.anonymous_id === roomKeys.anonymousId,
-            };
-          } catch (err) {
-            console.error('Failed to decrypt message:', err);
-            return {
-              ...msg,
-              plaintext: '[Decryption failed]',
-              isOwn: false,
-            };
-          }
-        })
-      );
+      // Newer epoch than ours: the key was rotated elsewhere, re-read it from the vault
+      let keys = roomKeys;
+      if (rawMessages.some((msg) => (msg.key_epoch ?? 0) > currentEpoch(keys))) {
+        keys = (await getRoomKey(roomId)) || keys;
+      }
+
+      // Decrypt new messages (tombstones of unsent ones stay blank)
+      const decrypted = await Promise.all(rawMessages.map((msg) => decryptRoomMessage(msg, keys)));
+
+      if (keys !== roomKeys) setRoomKeys(keys);
 
       if (cursor && decrypted.length > 0) {
         // Append new messages (cursor-based pagination already ensures no duplicates)
@@ -269,11 +256,17 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
     }
   }, [roomId, roomKeys]);
 
+  // Edits and unsends by the creator here or by participants; rotated keys come from the vault
+  const rereadVault = useCallback(() => getRoomKey(roomId), [roomId]);
+  const { handleChangeEvent, editMessage, deleteMessage } =
+    useRoomMessageEdits(roomId, roomKeys, setMessages, rereadVault);
+
   // Subscribe to AppSync Events for real-time message notifications
-  const handleMessageEvent = useCallback(() => {
-    // New message event — fetch immediately
+  const handleMessageEvent = useCallback((data: unknown) => {
+    handleChangeEvent(data);
+    // Also fetch new messages: events are debounced, so one may have been folded in
     void fetchMessages();
-  }, [fetchMessages]);
+  }, [fetchMessages, handleChangeEvent]);
 
   // AppSync channel for room messages
   const messageChannel = roomKeys ? `rooms/messages/${roomId}` : null;
@@ -308,24 +301,48 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
 
   const handleSend = async () => {
     // Use ref for synchronous check (state updates are async)
-    if (!inputText.trim() || !roomKeys || sendingRef.current) return;
+    if ((!inputText.trim() && files.length === 0) || !roomKeys || sendingRef.current) return;
 
     sendingRef.current = true;
     setSending(true);
     try {
-      const { ciphertext, nonce } = await encryptGroupMessage(inputText.trim(), roomKeys.groupKey);
+      if (editing) {
+        const keys = await editMessage(editing, inputText.trim());
+        if (keys !== roomKeys) setRoomKeys(keys);
+        setEditing(null);
+        setInputText('');
+        return;
+      }
 
-      await apiClient.post(endpoints.public.roomMessages(roomId), {
-        anonymous_id: roomKeys.anonymousId,
-        ciphertext,
-        nonce,
-      });
+      const refs = await uploadFiles({ room_id: roomId, anonymous_id: roomKeys.anonymousId });
+      const plaintext = encodeMessage(inputText.trim(), refs);
+      const post = async (keys: RoomKeyData) => {
+        const { ciphertext, nonce } = await encryptGroupMessage(plaintext, keys.groupKey);
+        await apiClient.post(endpoints.public.roomMessages(roomId), {
+          anonymous_id: keys.anonymousId,
+          ciphertext,
+          nonce,
+          key_epoch: currentEpoch(keys),
+          ...(refs.length ? { attachment_ids: refs.map((r) => r.id) } : {}),
+        });
+      };
+
+      try {
+        await post(roomKeys);
+      } catch (err) {
+        // Rotated in another window: retry once with the vault's current key
+        const latest = isStaleEpochError(err) ? await getRoomKey(roomId) : null;
+        if (!latest) throw err;
+        setRoomKeys(latest);
+        await post(latest);
+      }
 
       setInputText('');
+      clearFiles();
       await fetchMessages();
     } catch (err) {
       console.error('Failed to send message:', err);
-      toast.error('Failed to send message');
+      toast.error(editing ? 'Failed to edit message' : 'Failed to send message');
     } finally {
       sendingRef.current = false;
       setSending(false);
@@ -336,9 +353,40 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && editing) {
+      cancelEdit();
+    }
+  };
+
+  const startEdit = (msg: DecryptedRoomMessage) => {
+    setEditing(msg);
+    setInputText(decodeMessage(msg.plaintext).text);
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setInputText('');
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return;
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    try {
+      await deleteMessage(target);
+      if (editing?.message_id === target.message_id) cancelEdit();
+    } catch (err) {
+      console.error('Failed to delete message:', err);
+      toast.error('Failed to delete message');
     }
   };
 
+  // Watermark the decoded text only (unique to this viewer); the envelope must stay parseable
+  const watermark = useCallback(
+    (text: string) => (roomKeys?.watermarkSeed ? embedWatermark(text, roomKeys.watermarkSeed) : text),
+    [roomKeys]
+  );
+
   const formatTime = (dateStr: string) => {
     const date = new Date(dateStr);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -389,8 +437,14 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
               <Message key={msg.message_id} $isOwn={msg.isOwn}>
                 <MessageHeader>
                   {msg.display_name || 'Anonymous'} • {formatTime(msg.created_at)}
+                  <RoomMessageActions
+                    message={msg}
+                    isCreator={roomKeys.isCreator}
+                    onEdit={startEdit}
+                    onDelete={setDeleteTarget}
+                  />
                 </MessageHeader>
-                <MessageText>{msg.plaintext}</MessageText>
+                <MessageText><RoomMessageContent message={msg} formatText={watermark} /></MessageText>
               </Message>
             ))
           )}
@@ -399,7 +453,10 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
 
         {isBlurred && <BlurOverlay>🔒 Return to this tab to view</BlurOverlay>}
 
+        <PendingFiles files={files} onRemove={removeFile} />
+        {editing && <EditingBanner onCancel={cancelEdit} />}
         <InputArea>
+          <AttachButton count={files.length} onAdd={addFiles} disabled={isBlurred || !!editing} />
           <TextInput
             type="text"
             value={inputText}
@@ -409,9 +466,13 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
             disabled={isBlurred || !roomKeys}
             autoFocus
           />
-          <PrimaryButton onClick={handleSend} disabled={!inputText.trim() || sending || isBlurred}>
-            Send
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={(!inputText.trim() && (files.length === 0 || !!editing)) || sending || isBlurred}
+          >
+            {editing ? 'Save' : 'Send'}
           </PrimaryButton>
+          <ExportTranscriptButton getTranscript={() => roomTranscript(roomName, messages)} disabled={!messages.length || isBlurred} />
         </InputArea>
 
         <StatusBar>
@@ -421,6 +482,17 @@ export const RoomChatWindow: React.FC<RoomChatWindowProps> = ({
           </>
         )}
       </Content>
+
+      {deleteTarget && (
+        <ConfirmDialog
+          title="Delete Message"
+          message="Delete this message for everyone in the room?"
+          icon="⚠️"
+          confirmText="Delete"
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleteTarget(null)}
+        />
+      )}
     </WindowFrame>
   );
 };
@@ -0,0 +1,84 @@
+/**
+ * Room Message Parts
+ * Message body with "(edited)" / "message deleted" markers, the per-message
+ * Edit/Delete links, and the compose-box banner shown while editing.
+ * Used by both the dashboard room window and the participant room page.
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { aimTheme } from '../../theme/aim-theme';
+import { MessageBody } from './Attachments';
+import type { DecryptedRoomMessage } from '../../utils/room-messages';
+
+const Marker = styled.span`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+  font-style: italic;
+`;
+
+const Actions = styled.span`
+  margin-left: ${aimTheme.spacing.sm};
+`;
+
+const ActionLink = styled.button`
+  border: none;
+  background: none;
+  padding: 0 2px;
+  cursor: pointer;
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.blue};
+  text-decoration: underline;
+`;
+
+const Banner = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 2px ${aimTheme.spacing.sm};
+  font-size: ${aimTheme.fonts.size.small};
+  background: ${aimTheme.colors.lightYellow};
+  border-top: 1px solid ${aimTheme.colors.lightGray};
+`;
+
+interface RoomMessageContentProps {
+  message: DecryptedRoomMessage;
+  /** Applied to the text only (e.g. watermarking) */
+  formatText?: (text: string) => string;
+}
+
+export const RoomMessageContent: React.FC<RoomMessageContentProps> = ({ message, formatText }) => {
+  if (message.deleted_at) return <Marker>🗑 message deleted</Marker>;
+  return (
+    <>
+      <MessageBody content={message.plaintext} formatText={formatText} />
+      {message.edited_at && <Marker> (edited)</Marker>}
+    </>
+  );
+};
+
+interface RoomMessageActionsProps {
+  message: DecryptedRoomMessage;
+  /** The room creator may unsend anyone's message */
+  isCreator: boolean;
+  onEdit: (message: DecryptedRoomMessage) => void;
+  onDelete: (message: DecryptedRoomMessage) => void;
+}
+
+/** Edit (author only) and Delete (author or creator); nothing on tombstones */
+export const RoomMessageActions: React.FC<RoomMessageActionsProps> = ({ message, isCreator, onEdit, onDelete }) => {
+  if (message.deleted_at || (!message.isOwn && !isCreator)) return null;
+  return (
+    <Actions>
+      {message.isOwn && <ActionLink onClick={() => onEdit(message)}>Edit</ActionLink>}
+      <ActionLink onClick={() => onDelete(message)}>Delete</ActionLink>
+    </Actions>
+  );
+};
+
+export const EditingBanner: React.FC<{ onCancel: () => void }> = ({ onCancel }) => (
+  <Banner>
+    <span>✏️ Editing message</span>
+    <ActionLink onClick={onCancel}>Cancel</ActionLink>
+  </Banner>
+);
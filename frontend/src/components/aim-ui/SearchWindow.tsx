@@ -0,0 +1,205 @@
+/**
+ * Search Window Component
+ * "Find" over decrypted thread history (AIM Find-a-Buddy style).
+ * Searches the local vault-encrypted index; the query never leaves the device.
+ * Before hits are shown, the thread list of each matching link is fetched so
+ * threads burned or expired since they were indexed are pruned, not shown.
+ */
+
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import axios from 'axios';
+import { WindowFrame } from './WindowFrame';
+import { Button98 } from './Button98';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import { searchIndex, pruneLinkThreads, pruneListedThreads } from '../../utils/search-index';
+import type { SearchHit } from '../../utils/search-match';
+
+interface SearchWindowProps {
+  onOpenResult: (hit: SearchHit) => void;
+  onClose: () => void;
+  initialX?: number;
+  initialY?: number;
+  zIndex?: number;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+const THREAD_LIST_LIMIT = 100; // Server maximum per page
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.sm};
+  gap: ${aimTheme.spacing.sm};
+`;
+
+const QueryInput = styled.input`
+  width: 100%;
+  border: none;
+  box-shadow: var(--border-field);
+  padding: ${aimTheme.spacing.sm};
+
+  &:focus {
+    outline: 1px dotted black;
+    outline-offset: -2px;
+  }
+`;
+
+const Results = styled.div`
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  background: ${aimTheme.colors.white};
+  box-shadow: var(--border-field);
+`;
+
+const ResultRow = styled.button`
+  display: block;
+  width: 100%;
+  border: none;
+  border-bottom: 1px solid ${aimTheme.colors.lightGray};
+  background: none;
+  padding: ${aimTheme.spacing.sm};
+  text-align: left;
+  cursor: pointer;
+  font-family: ${aimTheme.fonts.primary};
+
+  &:hover,
+  &:focus {
+    background: ${aimTheme.colors.menuHover};
+    color: ${aimTheme.colors.white};
+  }
+`;
+
+const ResultMeta = styled.div`
+  font-size: ${aimTheme.fonts.size.tiny};
+  font-weight: ${aimTheme.fonts.weight.bold};
+`;
+
+const ResultSnippet = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const Notice = styled.div`
+  padding: ${aimTheme.spacing.md};
+  color: ${aimTheme.colors.darkGray};
+  font-style: italic;
+  text-align: center;
+`;
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Prune the index against the live thread list of every link with a hit and
+ * drop the hits that were pruned. A link that no longer exists loses all its
+ * threads; a link whose list can't be fetched keeps its hits.
+ */
+async function liveHits(hits: SearchHit[]): Promise<SearchHit[]> {
+  const headers = { Authorization: `Bearer ${await getAccessToken()}` };
+  const pruned = new Set<string>();
+
+  await Promise.all([...new Set(hits.map((h) => h.link_id))].map(async (linkId) => {
+    try {
+      const response = await apiClient.get(endpoints.dashboard.threads(linkId), {
+        headers,
+        params: { limit: THREAD_LIST_LIMIT },
+      });
+      const dropped = await pruneListedThreads(linkId, response.data.data || [], response.data.pagination?.total);
+      for (const threadId of dropped) pruned.add(threadId);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        for (const threadId of await pruneLinkThreads(linkId, [])) pruned.add(threadId);
+      } else {
+        console.error('Failed to check search hits:', err);
+      }
+    }
+  }));
+  return hits.filter((h) => !pruned.has(h.thread_id));
+}
+
+export const SearchWindow: React.FC<SearchWindowProps> = ({
+  onOpenResult,
+  onClose,
+  initialX = 240,
+  initialY = 90,
+  zIndex = 300,
+}) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [locked, setLocked] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      return;
+    }
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const results = await searchIndex(query);
+        const live = results && results.length > 0 ? await liveHits(results) : results;
+        if (cancelled) return;
+        setLocked(results === null);
+        setHits(live || []);
+      } catch (err) {
+        console.error('Search failed:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [query]);
+
+  const renderResults = () => {
+    if (locked) return <Notice>Unlock your vault to search message history.</Notice>;
+    if (!query.trim()) return <Notice>Search decrypted threads on this device.</Notice>;
+    if (hits.length === 0) return <Notice>No matches.</Notice>;
+    return hits.map((hit) => (
+      <ResultRow key={`${hit.thread_id}/${hit.message_id}`} type="button" onClick={() => onOpenResult(hit)}>
+        <ResultMeta>
+          {hit.link_name} • {hit.sender_type === 'owner' ? 'You' : hit.sender_anonymous_id} • {formatDate(hit.created_at)}
+        </ResultMeta>
+        <ResultSnippet>{hit.snippet}</ResultSnippet>
+      </ResultRow>
+    ));
+  };
+
+  return (
+    <WindowFrame
+      title="Find Messages"
+      icon="🔍"
+      width={400}
+      height={380}
+      initialX={initialX}
+      initialY={initialY}
+      zIndex={zIndex}
+      onClose={onClose}
+    >
+      <Container>
+        <QueryInput
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search messages..."
+          aria-label="Search messages"
+          autoFocus
+        />
+        <Results>{renderResults()}</Results>
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <Button98 onClick={onClose}>Close</Button98>
+        </div>
+      </Container>
+    </WindowFrame>
+  );
+};
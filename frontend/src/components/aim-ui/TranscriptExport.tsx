@@ -0,0 +1,134 @@
+/**
+ * Transcript Export
+ * "Export" button for chat windows: asks for an archive passphrase, seals the
+ * decrypted transcript (utils/transcript-archive.ts) and saves it locally
+ */
+
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { WindowFrame } from './WindowFrame';
+import { Button98, PrimaryButton } from './Button98';
+import { FieldLabel, HelpText, ButtonBar, FullInput } from './FormField';
+import { aimTheme } from '../../theme/aim-theme';
+import { toast } from 'sonner';
+import {
+  exportTranscriptArchive, archiveFilename, downloadFile, type Transcript,
+} from '../../utils/transcript-archive';
+
+interface ExportTranscriptButtonProps {
+  /** Read when the export runs, so the archive holds what is on screen then */
+  getTranscript: () => Transcript;
+  disabled?: boolean;
+}
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.md};
+`;
+
+const Message = styled.p`
+  margin: 0 0 ${aimTheme.spacing.md};
+  font-size: ${aimTheme.fonts.size.normal};
+  line-height: 1.4;
+`;
+
+const InputWithMargin = styled(FullInput)`
+  margin-bottom: ${aimTheme.spacing.md};
+`;
+
+const ErrorText = styled.p`
+  color: ${aimTheme.colors.fireRed};
+  font-size: ${aimTheme.fonts.size.small};
+  margin: 0 0 ${aimTheme.spacing.sm};
+`;
+
+const ExportDialog: React.FC<{ transcript: Transcript; onClose: () => void }> = ({ transcript, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setError('');
+    if (passphrase.length < 8) {
+      setError('Passphrase must be at least 8 characters.');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const archive = await exportTranscriptArchive(transcript, passphrase);
+      downloadFile(archiveFilename(transcript), JSON.stringify(archive), 'application/json');
+      toast.success(`Exported ${transcript.messages.length} message${transcript.messages.length !== 1 ? 's' : ''}.`);
+      onClose();
+    } catch (err) {
+      console.error('Transcript export failed:', err);
+      setError('Export failed. Please try again.');
+      setExporting(false);
+    }
+  };
+
+  return (
+    <WindowFrame
+      title={`Export - ${transcript.title}`}
+      width={400}
+      height={330}
+      initialX={180}
+      initialY={100}
+      zIndex={1003}
+      onClose={onClose}
+    >
+      <Container>
+        <Message>
+          Saves the {transcript.messages.length} decrypted message{transcript.messages.length !== 1 ? 's' : ''} to
+          an encrypted file on this computer. Open it later from the Start menu (Open Archive).
+        </Message>
+        <FieldLabel>Archive Passphrase</FieldLabel>
+        <InputWithMargin
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          disabled={exporting}
+          autoFocus
+        />
+        <FieldLabel>Confirm Passphrase</FieldLabel>
+        <InputWithMargin
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && !exporting) handleExport(); }}
+          disabled={exporting}
+        />
+        <HelpText>Attachments are listed by name only. The passphrase cannot be recovered.</HelpText>
+        {error && <ErrorText>{error}</ErrorText>}
+        <ButtonBar>
+          <Button98 onClick={onClose} disabled={exporting}>Cancel</Button98>
+          <PrimaryButton onClick={handleExport} disabled={exporting || !passphrase}>
+            {exporting ? 'Encrypting...' : 'Export'}
+          </PrimaryButton>
+        </ButtonBar>
+      </Container>
+    </WindowFrame>
+  );
+};
+
+export const ExportTranscriptButton: React.FC<ExportTranscriptButtonProps> = ({ getTranscript, disabled }) => {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+
+  return (
+    <>
+      <Button98 onClick={() => setTranscript(getTranscript())} disabled={disabled} title="Export an encrypted transcript">
+        💾 Export
+      </Button98>
+      {transcript && <ExportDialog transcript={transcript} onClose={() => setTranscript(null)} />}
+    </>
+  );
+};
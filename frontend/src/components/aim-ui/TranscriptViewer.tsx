@@ -0,0 +1,193 @@
+/**
+ * Transcript Viewer
+ * Opens an exported transcript archive read-only. The file is read and
+ * decrypted in the browser; nothing is sent to the server.
+ */
+
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { WindowFrame } from './WindowFrame';
+import { Button98, PrimaryButton } from './Button98';
+import { FieldLabel, HelpText, ButtonBar, FullInput } from './FormField';
+import { aimTheme } from '../../theme/aim-theme';
+import {
+  openTranscriptArchive, renderTranscriptHtml, downloadFile, ARCHIVE_EXTENSION, type OpenedArchive,
+} from '../../utils/transcript-archive';
+
+interface TranscriptViewerProps {
+  onClose: () => void;
+  initialX?: number;
+  initialY?: number;
+  zIndex?: number;
+}
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.md};
+`;
+
+const InputWithMargin = styled(FullInput)`
+  margin-bottom: ${aimTheme.spacing.md};
+`;
+
+const ErrorText = styled.p`
+  color: ${aimTheme.colors.fireRed};
+  font-size: ${aimTheme.fonts.size.small};
+  margin: ${aimTheme.spacing.sm} 0;
+`;
+
+const Manifest = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  margin-bottom: ${aimTheme.spacing.sm};
+  word-break: break-all;
+`;
+
+const MessageArea = styled.div`
+  flex: 1;
+  min-height: 0;
+  background: ${aimTheme.colors.white};
+  box-shadow: var(--border-field);
+  padding: ${aimTheme.spacing.md};
+  overflow-y: auto;
+  margin-bottom: ${aimTheme.spacing.sm};
+`;
+
+const MessageRow = styled.div`
+  margin: ${aimTheme.spacing.sm} 0;
+  word-wrap: break-word;
+`;
+
+const Timestamp = styled.span`
+  font-size: ${aimTheme.fonts.size.tiny};
+  color: #666;
+  margin-right: ${aimTheme.spacing.sm};
+`;
+
+const Sender = styled.span<{ $own: boolean }>`
+  font-weight: ${aimTheme.fonts.weight.bold};
+  color: ${(p) => (p.$own ? aimTheme.colors.fireRed : aimTheme.colors.blue)};
+`;
+
+const MessageText = styled.div<{ $unsent?: boolean }>`
+  margin-top: 2px;
+  line-height: 1.4;
+  white-space: pre-wrap;
+  color: ${(p) => (p.$unsent ? aimTheme.colors.darkGray : aimTheme.colors.black)};
+  font-style: ${(p) => (p.$unsent ? 'italic' : 'normal')};
+`;
+
+const FileName = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+`;
+
+const ArchiveView: React.FC<{ archive: OpenedArchive }> = ({ archive }) => (
+  <>
+    <Manifest>
+      ✔ Integrity verified · {archive.manifest.kind} · {archive.manifest.message_count} messages ·
+      exported {new Date(archive.manifest.exported_at).toLocaleString()}
+      <br />
+      SHA-256 {archive.manifest.transcript_sha256}
+    </Manifest>
+    <MessageArea>
+      {archive.transcript.messages.map((m, i) => (
+        <MessageRow key={i}>
+          <Timestamp>{new Date(m.sent_at).toLocaleString()}</Timestamp>
+          <Sender $own={m.own}>{m.sender}:</Sender>
+          {m.edited && <Timestamp> (edited)</Timestamp>}
+          <MessageText $unsent={m.unsent}>{m.unsent ? 'Message unsent' : m.text}</MessageText>
+          {m.attachments.map((name) => <FileName key={name}>📎 {name} (not included)</FileName>)}
+        </MessageRow>
+      ))}
+    </MessageArea>
+  </>
+);
+
+export const TranscriptViewer: React.FC<TranscriptViewerProps> = ({
+  onClose,
+  initialX = 200,
+  initialY = 60,
+  zIndex = 400,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [opening, setOpening] = useState(false);
+  const [archive, setArchive] = useState<OpenedArchive | null>(null);
+
+  const handleOpen = async () => {
+    if (!file) return;
+    setError('');
+    setOpening(true);
+    try {
+      setArchive(await openTranscriptArchive(await file.text(), passphrase));
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open archive.');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const saveHtml = () => {
+    if (!archive || !file) return;
+    // Rendered from the hash-checked transcript, not the html sealed in the file
+    const html = renderTranscriptHtml(archive.transcript, archive.manifest);
+    downloadFile(file.name.replace(ARCHIVE_EXTENSION, '') + '.html', html, 'text/html');
+  };
+
+  return (
+    <WindowFrame
+      title={archive ? `📂 ${archive.manifest.title} (read-only)` : '📂 Open Archive'}
+      width={460}
+      height={archive ? 480 : 300}
+      initialX={initialX}
+      initialY={initialY}
+      zIndex={zIndex}
+      onClose={onClose}
+    >
+      <Container>
+        {archive ? (
+          <>
+            <ArchiveView archive={archive} />
+            <ButtonBar>
+              <Button98 onClick={saveHtml} title="Save the decrypted HTML view (unencrypted)">Save HTML</Button98>
+              <Button98 onClick={() => setArchive(null)}>Open Another</Button98>
+              <PrimaryButton onClick={onClose}>Close</PrimaryButton>
+            </ButtonBar>
+          </>
+        ) : (
+          <>
+            <FieldLabel>Archive File</FieldLabel>
+            <InputWithMargin
+              type="file"
+              accept={`${ARCHIVE_EXTENSION},application/json`}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              disabled={opening}
+            />
+            <FieldLabel>Archive Passphrase</FieldLabel>
+            <InputWithMargin
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !opening) handleOpen(); }}
+              disabled={opening}
+            />
+            <HelpText>The archive is decrypted in this browser and never uploaded.</HelpText>
+            {error && <ErrorText>{error}</ErrorText>}
+            <ButtonBar>
+              <Button98 onClick={onClose} disabled={opening}>Cancel</Button98>
+              <PrimaryButton onClick={handleOpen} disabled={opening || !file || !passphrase}>
+                {opening ? 'Decrypting...' : 'Open'}
+              </PrimaryButton>
+            </ButtonBar>
+          </>
+        )}
+      </Container>
+    </WindowFrame>
+  );
+};
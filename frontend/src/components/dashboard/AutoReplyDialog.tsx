@@ -0,0 +1,222 @@
+/**
+ * Auto-Reply Dialog Component
+ * Set a link's auto-reply: the text is encrypted here to the link's public
+ * key, and the dashboard (useAutoResponder) sends it into new threads,
+ * optionally only during quiet hours and only for a thread's first message
+ */
+
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { toast } from 'sonner';
+import { WindowFrame } from '../aim-ui/WindowFrame';
+import { Button98, PrimaryButton } from '../aim-ui/Button98';
+import { ButtonBar } from '../aim-ui/FormField';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import { encrypt, decrypt } from '../../utils/e2ee';
+import { getLinkKey } from '../../utils/key-store';
+import { browserTimeZone } from './LinkPolicyFields';
+import type { Link, LinkAutoReply } from '../../types';
+
+interface AutoReplyDialogProps {
+  link: Link;
+  onClose: () => void;
+}
+
+interface QuietHours {
+  start: string;
+  end: string;
+}
+
+const MAX_LENGTH = 500;
+const DEFAULT_QUIET_HOURS: QuietHours = { start: '22:00', end: '08:00' };
+
+const DialogContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.md};
+`;
+
+const Label = styled.label`
+  font-weight: ${aimTheme.fonts.weight.bold};
+  margin-bottom: ${aimTheme.spacing.sm};
+  display: block;
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  height: 100px;
+  border: none;
+  padding: ${aimTheme.spacing.sm};
+  resize: none;
+  margin-bottom: ${aimTheme.spacing.sm};
+`;
+
+const Row = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  align-items: center;
+  flex-wrap: wrap;
+  margin-bottom: ${aimTheme.spacing.sm};
+`;
+
+const Hint = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+  margin-bottom: ${aimTheme.spacing.md};
+`;
+
+async function authHeaders() {
+  return { headers: { Authorization: `Bearer ${await getAccessToken()}` } };
+}
+
+const QuietHoursFields: React.FC<{
+  linkId: string;
+  value: QuietHours | null;
+  onChange: (value: QuietHours | null) => void;
+  timeZone: string;
+}> = ({ linkId, value, onChange, timeZone }) => (
+  <>
+    <div className="field-row">
+      <input
+        id={`quiet-${linkId}`}
+        type="checkbox"
+        checked={value !== null}
+        onChange={(e) => onChange(e.target.checked ? DEFAULT_QUIET_HOURS : null)}
+      />
+      <label htmlFor={`quiet-${linkId}`}>Only during quiet hours</label>
+    </div>
+    {value && (
+      <Row>
+        <input type="time" aria-label="Quiet hours start" value={value.start}
+          onChange={(e) => onChange({ ...value, start: e.target.value })} />
+        <span>to</span>
+        <input type="time" aria-label="Quiet hours end" value={value.end}
+          onChange={(e) => onChange({ ...value, end: e.target.value })} />
+        <Hint style={{ margin: 0 }}>{timeZone}</Hint>
+      </Row>
+    )}
+  </>
+);
+
+export const AutoReplyDialog: React.FC<AutoReplyDialogProps> = ({ link, onClose }) => {
+  const [existing, setExisting] = useState<LinkAutoReply | null>(null);
+  const [text, setText] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [firstMessageOnly, setFirstMessageOnly] = useState(true);
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await apiClient.get(endpoints.dashboard.autoReply(link.link_id), await authHeaders());
+        const reply: LinkAutoReply | null = response.data.data;
+        if (!reply) return;
+        setExisting(reply);
+        setEnabled(reply.enabled);
+        setFirstMessageOnly(reply.first_message_only);
+        if (reply.quiet_hours_start && reply.quiet_hours_end) {
+          setQuietHours({ start: reply.quiet_hours_start, end: reply.quiet_hours_end });
+        }
+        const linkKey = await getLinkKey(link.link_id);
+        if (linkKey) setText(await decrypt(reply.template_ciphertext, linkKey));
+      } catch (error) {
+        console.error('Failed to load auto-reply:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [link.link_id]);
+
+  const handleSave = async () => {
+    if (!link.public_key || !text.trim()) return;
+    setSaving(true);
+    try {
+      const { ciphertext } = await encrypt(text.trim(), link.public_key);
+      await apiClient.put(endpoints.dashboard.autoReply(link.link_id), {
+        enabled,
+        template_ciphertext: ciphertext,
+        first_message_only: firstMessageOnly,
+        quiet_hours_start: quietHours?.start ?? null,
+        quiet_hours_end: quietHours?.end ?? null,
+        // Quiet hours follow the zone of whichever device saved them last
+        time_zone: browserTimeZone(),
+      }, await authHeaders());
+      toast.success(enabled ? 'Auto-reply on' : 'Auto-reply saved (off)');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save auto-reply:', error);
+      toast.error('Failed to save auto-reply');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    try {
+      await apiClient.delete(endpoints.dashboard.autoReply(link.link_id), await authHeaders());
+      toast.success('Auto-reply removed');
+      onClose();
+    } catch (error) {
+      console.error('Failed to remove auto-reply:', error);
+      toast.error('Failed to remove auto-reply');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <WindowFrame
+      title={`💬 Auto-Reply - ${link.display_name}`}
+      width={420}
+      height={440}
+      initialX={180}
+      initialY={90}
+      zIndex={1002}
+      onClose={onClose}
+    >
+      <DialogContainer>
+        <Label htmlFor={`auto-reply-${link.link_id}`}>Reply sent into new conversations:</Label>
+        <TextArea
+          id={`auto-reply-${link.link_id}`}
+          value={text}
+          onChange={(e) => setText(e.target.value.slice(0, MAX_LENGTH))}
+          placeholder={loading ? 'Loading…' : "e.g. 'Thanks! I'm away right now and will reply tomorrow.'"}
+          maxLength={MAX_LENGTH}
+          disabled={loading}
+        />
+        <Hint>
+          Encrypted before it leaves this browser. Replies are sent by your open dashboard — a device that holds
+          this link&apos;s key must be signed in for them to go out.
+        </Hint>
+        <div className="field-row">
+          <input id={`enabled-${link.link_id}`} type="checkbox" checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)} />
+          <label htmlFor={`enabled-${link.link_id}`}>Auto-reply on</label>
+        </div>
+        <div className="field-row">
+          <input id={`first-only-${link.link_id}`} type="checkbox" checked={firstMessageOnly}
+            onChange={(e) => setFirstMessageOnly(e.target.checked)} />
+          <label htmlFor={`first-only-${link.link_id}`}>First message only (not follow-ups)</label>
+        </div>
+        <QuietHoursFields linkId={link.link_id} value={quietHours} onChange={setQuietHours}
+          timeZone={browserTimeZone()} />
+        <ButtonBar>
+          <PrimaryButton onClick={handleSave} disabled={saving || loading || !text.trim() || !link.public_key}>
+            Save
+          </PrimaryButton>
+          {existing && <Button98 onClick={handleRemove} disabled={saving}>Remove</Button98>}
+          <Button98 onClick={onClose}>Cancel</Button98>
+        </ButtonBar>
+      </DialogContainer>
+    </WindowFrame>
+  );
+};
@@ -1,6 +1,7 @@
 /**
  * Backup Setup Dialog
  * Prompts user to set a recovery passphrase and backs up all existing keys
+ * into the account key backup (utils/key-backup.ts)
  */
 
 import React, { useState } from 'react';
@@ -10,15 +11,11 @@ import { Button98, PrimaryButton } from '../aim-ui/Button98';
 import { FieldLabel, ButtonBar, FullInput } from '../aim-ui/FormField';
 import { aimTheme } from '../../theme/aim-theme';
 import { toast } from 'sonner';
-import apiClient from '../../utils/api-client';
-import { endpoints } from '../../config/api-endpoints';
-import { getAccessToken } from '../../config/cognito-config';
-import { wrapPrivateKey } from '../../utils/e2ee';
-import { getAllLinkKeys, migrateKeysToVault } from '../../utils/key-store';
+import { migrateKeysToVault } from '../../utils/key-store';
 import { isVaultConfigured, setupVault } from '../../utils/key-vault';
+import { syncKeyBackup } from '../../utils/key-backup';
 
 interface BackupSetupDialogProps {
-  linkIds: string[];
   onComplete: () => void;
   onClose: () => void;
 }
@@ -56,7 +53,6 @@ const ProgressText = styled.p`
 `;
 
 export const BackupSetupDialog: React.FC<BackupSetupDialogProps> = ({
-  linkIds,
   onComplete,
   onClose,
 }) => {
@@ -79,37 +75,28 @@ export const BackupSetupDialog: React.FC<BackupSetupDialogProps> = ({
 
     setBacking(true);
     try {
-      const allKeys = await getAllLinkKeys();
-      const token = await getAccessToken();
-      const keysToBackup = linkIds.filter((id) => allKeys.has(id));
-      let backed = 0;
-
-      for (const id of keysToBackup) {
-        const jwk = allKeys.get(id)!;
-        setProgress(`Backing up key ${backed + 1} of ${keysToBackup.length}...`);
-        const wrapped = await wrapPrivateKey(jwk, passphrase);
-        await apiClient.put(
-          endpoints.dashboard.keyBackup(id),
-          { wrapped_key: wrapped.wrappedKey, salt: wrapped.salt, iv: wrapped.iv },
-          { headers: { Authorization: `Bearer ${token}` } },
-        );
-        backed++;
-      }
-
-      localStorage.setItem('bw:backup-configured', 'true');
-
-      // Also initialize the local vault with the same passphrase
+      // Initialize the local vault with the same passphrase first, so
+      // vault-encrypted keys are readable and the backup key can be kept
       const vaultConfigured = await isVaultConfigured();
       if (!vaultConfigured) {
+        setProgress('Creating vault...');
         await setupVault(passphrase);
         await migrateKeysToVault();
       }
 
+      setProgress('Encrypting and uploading backup...');
+      const summary = await syncKeyBackup(passphrase);
+      const backed = summary ? summary.links + summary.rooms + summary.broadcasts : 0;
+
+      localStorage.setItem('bw:backup-configured', 'true');
       toast.success(`${backed} key${backed !== 1 ? 's' : ''} backed up successfully.`);
       onComplete();
     } catch (err) {
       console.error('Backup failed:', err);
-      setError('Backup failed. Please try again.');
+      setError(err instanceof Error && err.message === 'Incorrect passphrase'
+        ? 'This passphrase does not open your existing backup. Use the one you set up first.'
+        : 'Backup failed. Please try again.');
+      setProgress('');
       setBacking(false);
     }
   };
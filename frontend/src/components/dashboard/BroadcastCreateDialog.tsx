@@ -1,6 +1,8 @@
 /**
  * Broadcast Create Dialog
- * Create channel → show read URL, post token, QR for read URL
+ * Create channel → show read URL, post token, QR for read URL. Public-feed
+ * channels skip the fragment key and show their Atom/RSS/JSON feed URLs.
+ * An optional first post can be scheduled and/or set to expire.
  */
 
 import React, { useState } from 'react';
@@ -9,12 +11,15 @@ import { QRCodeSVG } from 'qrcode.react';
 import { toast } from 'sonner';
 import { WindowFrame } from '../aim-ui/WindowFrame';
 import { Button98 } from '../aim-ui/Button98';
-import { Field, FieldLabel, FullInput, ButtonBar, HelpText } from '../aim-ui/FormField';
+import { Field, FieldLabel, FullInput, FullTextArea, ButtonBar, HelpText } from '../aim-ui/FormField';
+import {
+  BroadcastScheduleFields, BroadcastSchedule, EMPTY_SCHEDULE, scheduleFields,
+} from '../aim-ui/BroadcastScheduleFields';
 import { aimTheme } from '../../theme/aim-theme';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import { getAccessToken } from '../../config/cognito-config';
-import { generateBroadcastKey } from '../../utils/broadcast-e2ee';
+import { generateBroadcastKey, encryptBroadcast } from '../../utils/broadcast-e2ee';
 import { saveBroadcastKey } from '../../utils/broadcast-key-store';
 import type { CreateBroadcastChannelResult } from '../../types';
 
@@ -58,20 +63,45 @@ export const BroadcastCreateDialog: React.FC<BroadcastCreateDialogProps> = ({
 }) => {
   const [displayName, setDisplayName] = useState('');
   const [allowGuestPosts, setAllowGuestPosts] = useState(false);
+  const [moderateGuestPosts, setModerateGuestPosts] = useState(false);
+  const [publicFeed, setPublicFeed] = useState(false);
+  const [firstPost, setFirstPost] = useState('');
+  const [schedule, setSchedule] = useState<BroadcastSchedule>(EMPTY_SCHEDULE);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<CreateBroadcastChannelResult | null>(null);
 
+  /** The channel exists either way; a failed first post is only reported */
+  const sendFirstPost = async (data: CreateBroadcastChannelResult, encryptionKey?: string) => {
+    const text = firstPost.trim();
+    if (!text) return;
+    try {
+      await apiClient.post(endpoints.public.broadcastAddPost(data.channel_id), {
+        post_token: data.post_token,
+        content: encryptionKey ? await encryptBroadcast(text, encryptionKey) : text,
+        ...scheduleFields(schedule),
+      });
+    } catch (error) {
+      console.error('Failed to add first post:', error);
+      toast.error('Channel created, but the first post failed. Add it from the channel window.');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!displayName.trim()) return;
     setLoading(true);
     try {
-      // Generate E2EE key client-side before API call
-      const encryptionKey = await generateBroadcastKey();
+      // Generate E2EE key client-side before API call; public feeds have none
+      const encryptionKey = publicFeed ? undefined : await generateBroadcastKey();
       const token = await getAccessToken();
       const response = await apiClient.post(
         endpoints.public.broadcastCreate(),
-        { display_name: displayName.trim(), allow_guest_posts: allowGuestPosts },
+        {
+          display_name: displayName.trim(),
+          allow_guest_posts: allowGuestPosts,
+          moderate_guest_posts: allowGuestPosts && moderateGuestPosts,
+          public_feed: publicFeed,
+        },
         { headers: { Authorization: `Bearer ${token}` } }
       );
       const raw = response.data;
@@ -84,6 +114,13 @@ export const BroadcastCreateDialog: React.FC<BroadcastCreateDialogProps> = ({
         console.error('Unexpected API response:', raw);
         throw new Error('Invalid response from server');
       }
+      await sendFirstPost(data, encryptionKey);
+      if (!encryptionKey) {
+        setResult({ ...data, public_feed: true });
+        navigator.clipboard.writeText(data.read_url).catch(() => {});
+        toast.success('Read link copied to clipboard — share it so people can view the feed');
+        return;
+      }
       // Attach encryption key and modify read_url to include fragment
       const resultWithKey: CreateBroadcastChannelResult = {
         ...data,
@@ -158,6 +195,16 @@ export const BroadcastCreateDialog: React.FC<BroadcastCreateDialogProps> = ({
             </FieldLabel>
             <UrlBlock style={{ wordBreak: 'break-all' }}>{result.post_token}</UrlBlock>
           </Field>
+          {result.public_feed && (
+            <Field>
+              <FieldLabel style={{ fontSize: aimTheme.fonts.size.small }}>
+                Feeds (for feed readers):
+              </FieldLabel>
+              {['atom', 'rss', 'json'].map((format) => (
+                <UrlBlock key={format}>{`${result.read_url}/feed.${format}`}</UrlBlock>
+              ))}
+            </Field>
+          )}
           <QRContainer>
             <QRCodeSVG value={result.read_url} size={200} level="H" />
           </QRContainer>
@@ -175,7 +222,7 @@ export const BroadcastCreateDialog: React.FC<BroadcastCreateDialogProps> = ({
     <WindowFrame
       title="New broadcast channel"
       width={400}
-      height={360}
+      height={560}
       initialX={180}
       initialY={120}
       zIndex={1002}
@@ -204,7 +251,48 @@ export const BroadcastCreateDialog: React.FC<BroadcastCreateDialogProps> = ({
               />
               <label htmlFor="allow-guest-posts">Allow anyone with the link to post</label>
             </div>
-            <HelpText>Guests with the read URL can add posts. Posts are still end-to-end encrypted.</HelpText>
+            <HelpText>
+              Guests with the read URL can add posts.
+              {publicFeed ? '' : ' Posts are still end-to-end encrypted.'}
+            </HelpText>
+            {allowGuestPosts && (
+              <div className="field-row">
+                <input
+                  id="moderate-guest-posts"
+                  type="checkbox"
+                  checked={moderateGuestPosts}
+                  onChange={(e) => setModerateGuestPosts(e.target.checked)}
+                />
+                <label htmlFor="moderate-guest-posts">Review guest posts before they appear</label>
+              </div>
+            )}
+          </Field>
+          <Field>
+            <div className="field-row">
+              <input
+                id="public-feed"
+                type="checkbox"
+                checked={publicFeed}
+                onChange={(e) => setPublicFeed(e.target.checked)}
+              />
+              <label htmlFor="public-feed">Public channel with RSS, Atom and JSON feeds</label>
+            </div>
+            {publicFeed && (
+              <HelpText>Posts are not encrypted, so anyone with the link or a feed reader can read them.</HelpText>
+            )}
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="first-post">First post (optional)</FieldLabel>
+            <FullTextArea
+              id="first-post"
+              value={firstPost}
+              onChange={(e) => setFirstPost(e.target.value)}
+              maxLength={10000}
+              rows={3}
+            />
+            {firstPost.trim() && (
+              <BroadcastScheduleFields idPrefix="first-post" value={schedule} onChange={setSchedule} disabled={loading} />
+            )}
           </Field>
           <ButtonBar>
             <Button98 type="submit" disabled={loading || !displayName.trim()}>
@@ -1,7 +1,7 @@
 /**
  * Create Link Dialog Component
  * Dialog for creating new anonymous links
- * File size: ~180 lines
+ * File size: ~220 lines
  */
 
 import React, { useState } from 'react';
@@ -12,6 +12,8 @@ import { Button98, PrimaryButton } from '../aim-ui/Button98';
 import { Field, FieldLabel, FullInput, FullTextArea, FullSelect, ButtonBar } from '../aim-ui/FormField';
 import { CharCounter } from '../aim-ui/CharCounter';
 import { aimTheme } from '../../theme/aim-theme';
+import { LinkPolicyFields, NO_LIMITS, policyFields } from './LinkPolicyFields';
+import type { LinkPolicy } from '../../types';
 
 interface CreateLinkDialogProps {
   onSave: (data: {
@@ -21,7 +23,7 @@ interface CreateLinkDialogProps {
     opsec_mode?: boolean;
     opsec_access?: 'device_bound' | 'single_use';
     opsec_passphrase?: string;
-  }) => void;
+  } & Partial<LinkPolicy>) => void;
   onClose: () => void;
 }
 
@@ -69,6 +71,7 @@ export const CreateLinkDialog: React.FC<CreateLinkDialogProps> = ({ onSave, onCl
   const [opsecAccess, setOpsecAccess] = useState<'device_bound' | 'single_use'>('device_bound');
   const [opsecPassphrase, setOpsecPassphrase] = useState('');
   const [showPassphrase, setShowPassphrase] = useState(false);
+  const [limits, setLimits] = useState(NO_LIMITS);
 
   const handleCreate = () => {
     if (!displayName.trim()) {
@@ -89,6 +92,7 @@ export const CreateLinkDialog: React.FC<CreateLinkDialogProps> = ({ onSave, onCl
         opsec_access: opsecAccess,
         opsec_passphrase: opsecPassphrase || undefined,
       }),
+      ...policyFields(limits),
     });
   };
 
@@ -200,6 +204,11 @@ export const CreateLinkDialog: React.FC<CreateLinkDialogProps> = ({ onSave, onCl
           )}
         </Fieldset>
 
+        <Fieldset>
+          <Legend>Limits (optional)</Legend>
+          <LinkPolicyFields idPrefix="create-link" value={limits} onChange={setLimits} />
+        </Fieldset>
+
         <ButtonBar>
           <PrimaryButton onClick={handleCreate} disabled={!displayName.trim()}>
             🔥 Create
@@ -0,0 +1,381 @@
+/**
+ * Devices Dialog Component
+ * The owner's devices (revoke any of them), and device linking: this browser
+ * either shows a pairing code to receive keys, or sends its keys to the device
+ * showing one. See utils/device-link.ts for the bundle and the code check.
+ * Without another device at hand, keys come back from the account backup.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import { WindowFrame } from '../aim-ui/WindowFrame';
+import { ConfirmDialog } from '../aim-ui/ConfirmDialog';
+import { KeyRecoveryDialog } from './KeyRecoveryDialog';
+import { Button98, PrimaryButton } from '../aim-ui/Button98';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken, signOut } from '../../config/cognito-config';
+import { generateKeyPair } from '../../utils/e2ee';
+import { isVaultConfigured, isVaultUnlocked } from '../../utils/key-vault';
+import {
+  pairingCode, formatPairingCode, normalizePairingCode,
+  collectKeyBundle, sealKeyBundle, openKeyBundle, importKeyBundle,
+} from '../../utils/device-link';
+import { handOffOwnerSessions } from '../../utils/thread-ratchet';
+import type { Device, DeviceLinkStart, DeviceLinkState, PairingTarget } from '../../types';
+
+interface DevicesDialogProps {
+  /** Pairing code from a scanned QR (#pair=...): opens straight into sending keys */
+  initialPairingCode?: string;
+  onClose: () => void;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const DialogContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.md};
+`;
+
+const Section = styled.div`
+  margin-bottom: ${aimTheme.spacing.lg};
+`;
+
+const SectionTitle = styled.div`
+  font-weight: ${aimTheme.fonts.weight.bold};
+  margin-bottom: ${aimTheme.spacing.sm};
+  border-bottom: 1px solid ${aimTheme.colors.darkGray};
+  padding-bottom: 4px;
+`;
+
+const List = styled.div`
+  box-shadow: var(--border-field);
+  border: none;
+  background: ${aimTheme.colors.white};
+  padding: ${aimTheme.spacing.sm};
+`;
+
+const Item = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${aimTheme.spacing.sm};
+  padding: ${aimTheme.spacing.sm};
+  border-bottom: 1px solid ${aimTheme.colors.lightGray};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const Meta = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+`;
+
+const Code = styled.div`
+  font-family: monospace;
+  font-size: 20px;
+  font-weight: ${aimTheme.fonts.weight.bold};
+  letter-spacing: 2px;
+  text-align: center;
+  margin: ${aimTheme.spacing.sm} 0;
+`;
+
+const QRContainer = styled.div`
+  display: flex;
+  justify-content: center;
+  background: ${aimTheme.colors.white};
+  padding: ${aimTheme.spacing.md};
+`;
+
+const Input = styled.input`
+  flex: 1;
+  border: none;
+  padding: 4px ${aimTheme.spacing.sm};
+  font-family: monospace;
+  text-transform: uppercase;
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  margin-top: ${aimTheme.spacing.sm};
+`;
+
+const Hint = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+  margin-top: ${aimTheme.spacing.sm};
+`;
+
+async function authHeaders() {
+  return { headers: { Authorization: `Bearer ${await getAccessToken()}` } };
+}
+
+export const DevicesDialog: React.FC<DevicesDialogProps> = ({ initialPairingCode, onClose }) => {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [revokeTarget, setRevokeTarget] = useState<Device | null>(null);
+  // Receiving: our ephemeral key pair and the open session
+  const [receiving, setReceiving] = useState<{ session: DeviceLinkStart; privateKeyJwk: JsonWebKey } | null>(null);
+  // Sending: the code typed in and the device it belongs to
+  const [codeInput, setCodeInput] = useState(initialPairingCode ?? '');
+  const [target, setTarget] = useState<PairingTarget | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [vaultLocked, setVaultLocked] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchDevices = useCallback(async () => {
+    try {
+      const response = await apiClient.get(endpoints.dashboard.devices(), await authHeaders());
+      setDevices(response.data.data?.devices || []);
+    } catch (error) {
+      console.error('Failed to fetch devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDevices();
+    isVaultConfigured().then((configured) => setVaultLocked(configured && !isVaultUnlocked()));
+  }, [fetchDevices]);
+
+  // New device: poll the mailbox until the bundle arrives or the session expires
+  useEffect(() => {
+    if (!receiving) return;
+    let cancelled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const response = await apiClient.get(
+          endpoints.dashboard.deviceLinkSession(receiving.session.session_id),
+          await authHeaders()
+        );
+        const state: DeviceLinkState = response.data.data;
+        if (state.status === 'delivered') {
+          const bundle = await openKeyBundle(state.bundle, receiving.privateKeyJwk);
+          const result = await importKeyBundle(bundle);
+          setReceiving(null);
+          toast.success(
+            `Imported ${result.links} link, ${result.rooms} room and ${result.broadcasts} channel key(s)`
+            + ` and ${result.ratchets} thread session(s)`
+          );
+          if (result.skippedRooms > 0) {
+            toast.info(`${result.skippedRooms} room key(s) need an unlocked vault — set one up and link again`);
+          }
+          setTimeout(() => window.location.reload(), 1500);
+          return;
+        }
+      } catch (error) {
+        console.error('Device link poll failed:', error);
+        toast.error('Pairing expired or failed. Start again.');
+        setReceiving(null);
+        return;
+      }
+      if (!cancelled) timeoutId = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    timeoutId = setTimeout(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      if (timeoutId) clearTimeout(timeoutId);
+    };
+  }, [receiving]);
+
+  const startReceiving = async () => {
+    setBusy(true);
+    try {
+      const { publicKeyBase64, privateKeyJwk } = await generateKeyPair();
+      const response = await apiClient.post(
+        endpoints.dashboard.deviceLink(),
+        { public_key: publicKeyBase64 },
+        await authHeaders()
+      );
+      setReceiving({ session: response.data.data, privateKeyJwk });
+    } catch (error) {
+      console.error('Failed to start device link:', error);
+      toast.error('Could not start pairing. Reload and try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const lookupCode = async () => {
+    setBusy(true);
+    try {
+      const code = normalizePairingCode(codeInput);
+      const response = await apiClient.get(endpoints.dashboard.devicePairing(code), await authHeaders());
+      const found: PairingTarget = response.data.data;
+      // The code is a fingerprint of the new device's key: refuse a key the server swapped in
+      if (await pairingCode(found.public_key) !== code) {
+        toast.error('Pairing code does not match the device key. Keys were not sent.');
+        return;
+      }
+      setTarget(found);
+    } catch (error) {
+      console.error('Failed to look up pairing code:', error);
+      toast.error('No device is waiting with that code');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendKeys = async () => {
+    if (!target) return;
+    const pairing = target;
+    setTarget(null);
+    setBusy(true);
+    try {
+      const bundle = await collectKeyBundle({ ratchets: true });
+      const sealed = await sealKeyBundle(bundle, pairing.public_key);
+      await apiClient.post(endpoints.dashboard.deviceLinkBundle(pairing.session_id), { bundle: sealed }, await authHeaders());
+      // The new device owns these thread sessions now; this one keeps their history
+      await handOffOwnerSessions(bundle.ratchets ?? {});
+      toast.success(`Keys sent to ${pairing.device_name}`);
+      setCodeInput('');
+      await fetchDevices();
+    } catch (error) {
+      console.error('Failed to send keys:', error);
+      toast.error('Failed to send keys');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmRevoke = async () => {
+    if (!revokeTarget) return;
+    const device = revokeTarget;
+    setRevokeTarget(null);
+    try {
+      await apiClient.delete(endpoints.dashboard.device(device.device_id), await authHeaders());
+      // Revoking ends every session, this browser's too
+      toast.success(`${device.name} revoked. Sign in again to continue.`);
+      await signOut().catch(() => {});
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error) {
+      console.error('Failed to revoke device:', error);
+      toast.error('Failed to revoke device');
+    }
+  };
+
+  const pairUrl = receiving ? `${window.location.origin}/dashboard#pair=${receiving.session.pairing_code}` : '';
+
+  return (
+    <WindowFrame
+      title="💻 Devices"
+      width={460}
+      height={600}
+      initialX={180}
+      initialY={60}
+      zIndex={1002}
+      onClose={onClose}
+    >
+      <DialogContainer>
+        <Section>
+          <SectionTitle>Your Devices</SectionTitle>
+          <List>
+            {devices.map((d) => (
+              <Item key={d.device_id}>
+                <div>
+                  <div>{d.name}{d.current && ' (this device)'}</div>
+                  <Meta>
+                    {d.revoked_at
+                      ? `Revoked ${new Date(d.revoked_at).toLocaleDateString()}`
+                      : `Last seen ${new Date(d.last_seen_at).toLocaleString()}`}
+                  </Meta>
+                </div>
+                {!d.revoked_at && <Button98 onClick={() => setRevokeTarget(d)}>Revoke</Button98>}
+              </Item>
+            ))}
+          </List>
+        </Section>
+
+        <Section>
+          <SectionTitle>Receive Keys on This Device</SectionTitle>
+          {receiving ? (
+            <>
+              <Code>{formatPairingCode(receiving.session.pairing_code)}</Code>
+              <QRContainer>
+                <QRCodeSVG value={pairUrl} size={160} level="M" />
+              </QRContainer>
+              <Hint>
+                On a device that has your keys, open Devices and enter this code (or scan it).
+                Waiting until {new Date(receiving.session.expires_at).toLocaleTimeString()}…
+              </Hint>
+              <ButtonRow>
+                <Button98 onClick={() => setReceiving(null)}>Cancel</Button98>
+              </ButtonRow>
+            </>
+          ) : (
+            <>
+              <PrimaryButton onClick={startReceiving} disabled={busy}>Show pairing code</PrimaryButton>
+              <Hint>Keys already on this device are kept; ones with the same id are replaced.</Hint>
+            </>
+          )}
+        </Section>
+
+        <Section>
+          <SectionTitle>Send Keys to Another Device</SectionTitle>
+          <ButtonRow>
+            <Input
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX"
+              maxLength={14}
+            />
+            <Button98 onClick={lookupCode} disabled={busy || normalizePairingCode(codeInput).length !== 12}>
+              Next
+            </Button98>
+          </ButtonRow>
+          <Hint>
+            Sends every link, room and broadcast key on this device, encrypted to the other device only.
+            {vaultLocked && ' Unlock your vault first, or vault-protected keys are left out.'}
+          </Hint>
+        </Section>
+
+        <Section>
+          <SectionTitle>Restore from Backup</SectionTitle>
+          <Button98 onClick={() => setRestoring(true)} disabled={busy}>Restore keys…</Button98>
+          <Hint>Brings back keys from your account backup using your recovery passphrase.</Hint>
+        </Section>
+      </DialogContainer>
+
+      {restoring && (
+        <KeyRecoveryDialog
+          onRecovered={() => window.location.reload()}
+          onClose={() => setRestoring(false)}
+        />
+      )}
+
+      {target && (
+        <ConfirmDialog
+          title="Send Keys"
+          message={`Send all your keys to ${target.device_name}? Only do this for a device you are signing in on right now.`}
+          icon="❓"
+          confirmText="Send"
+          onConfirm={sendKeys}
+          onCancel={() => setTarget(null)}
+        />
+      )}
+
+      {revokeTarget && (
+        <ConfirmDialog
+          title="Revoke Device"
+          message={`Revoke ${revokeTarget.name}? It loses its local keys the next time it reaches BurnWare, and every browser (this one too) has to sign in again.`}
+          icon="⚠️"
+          confirmText="Revoke"
+          onConfirm={confirmRevoke}
+          onCancel={() => setRevokeTarget(null)}
+        />
+      )}
+    </WindowFrame>
+  );
+};
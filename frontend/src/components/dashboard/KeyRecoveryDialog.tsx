@@ -1,24 +1,26 @@
 /**
  * Key Recovery Dialog
- * Passphrase-based recovery of encrypted private keys from server backup
+ * Passphrase-based restore from the account key backup (utils/key-backup.ts),
+ * then a report of which links, rooms and channels came back. Opened for one
+ * link whose key is missing, or from Devices to restore everything.
  */
 
 import React, { useState } from 'react';
 import styled from 'styled-components';
 import { WindowFrame } from '../aim-ui/WindowFrame';
 import { Button98, PrimaryButton } from '../aim-ui/Button98';
-import { ButtonBar, FullInput } from '../aim-ui/FormField';
+import { ButtonBar, FieldLabel, FullInput } from '../aim-ui/FormField';
 import { aimTheme } from '../../theme/aim-theme';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import { getAccessToken } from '../../config/cognito-config';
-import { unwrapPrivateKey } from '../../utils/e2ee';
-import { saveLinkKey } from '../../utils/key-store';
+import { openKeyBackup, applyKeyBackup, type RestoreReport } from '../../utils/key-backup';
 import { isVaultConfigured, isVaultUnlocked, setupVault, initializeVault } from '../../utils/key-vault';
 
 interface KeyRecoveryDialogProps {
-  linkId: string;
-  linkName: string;
+  /** The link whose key is missing; omit to restore everything */
+  linkId?: string;
+  linkName?: string;
   onRecovered: () => void;
   onClose: () => void;
 }
@@ -49,6 +51,32 @@ const ErrorText = styled.p`
   margin: 0 0 ${aimTheme.spacing.sm};
 `;
 
+const List = styled.ul`
+  margin: 0 0 ${aimTheme.spacing.md};
+  padding: ${aimTheme.spacing.sm} ${aimTheme.spacing.sm} ${aimTheme.spacing.sm} 24px;
+  box-shadow: var(--border-field);
+  background: ${aimTheme.colors.white};
+  font-size: ${aimTheme.fonts.size.small};
+`;
+
+/** Display names for the owner's links, rooms and channels; missing ones fall back to the id */
+async function resourceNames(): Promise<Record<string, string>> {
+  const config = { headers: { Authorization: `Bearer ${await getAccessToken()}` } };
+  const [links, rooms, channels] = await Promise.allSettled([
+    apiClient.get(endpoints.dashboard.links(), config),
+    apiClient.get(endpoints.dashboard.rooms(), config),
+    apiClient.get(endpoints.dashboard.broadcastChannels(), config),
+  ]);
+  const names: Record<string, string> = {};
+  const add = (items: Record<string, string>[] | undefined, idKey: string) => {
+    for (const item of items ?? []) names[item[idKey]] = item.display_name;
+  };
+  if (links.status === 'fulfilled') add(links.value.data.data, 'link_id');
+  if (rooms.status === 'fulfilled') add(rooms.value.data.data, 'room_id');
+  if (channels.status === 'fulfilled') add(channels.value.data.data?.channels, 'channel_id');
+  return names;
+}
+
 export const KeyRecoveryDialog: React.FC<KeyRecoveryDialogProps> = ({
   linkId,
   linkName,
@@ -58,6 +86,8 @@ export const KeyRecoveryDialog: React.FC<KeyRecoveryDialogProps> = ({
   const [passphrase, setPassphrase] = useState('');
   const [error, setError] = useState('');
   const [recovering, setRecovering] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
 
   const handleRecover = async () => {
     if (!passphrase) return;
@@ -65,26 +95,9 @@ export const KeyRecoveryDialog: React.FC<KeyRecoveryDialogProps> = ({
     setRecovering(true);
 
     try {
-      const token = await getAccessToken();
-      const res = await apiClient.get(endpoints.dashboard.keyBackup(linkId), {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      const backup = res.data?.data;
-      if (!backup) {
-        setError('No backup found for this link.');
-        setRecovering(false);
-        return;
-      }
-
-      const recoveredJwk = await unwrapPrivateKey(
-        backup.wrapped_key,
-        passphrase,
-        backup.salt,
-        backup.iv,
-      );
+      const opened = await openKeyBackup(passphrase);
 
-      // Ensure vault is unlocked so the recovered key gets stored encrypted
+      // Ensure vault is unlocked so recovered keys get stored encrypted
       if (!isVaultUnlocked()) {
         const configured = await isVaultConfigured();
         if (configured) {
@@ -94,45 +107,85 @@ export const KeyRecoveryDialog: React.FC<KeyRecoveryDialogProps> = ({
         }
       }
 
-      await saveLinkKey(linkId, recoveredJwk);
-      onRecovered();
-    } catch {
-      setError('Incorrect recovery passphrase. Please try again.');
+      const restored = await applyKeyBackup(opened);
+      setNames(await resourceNames());
+      setReport(restored);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : '';
+      setError(msg === 'No key backup found'
+        ? 'No backup found for this account.'
+        : 'Incorrect recovery passphrase. Please try again.');
+    } finally {
       setRecovering(false);
     }
   };
 
+  const renderList = (label: string, ids: string[]) => ids.length > 0 && (
+    <>
+      <FieldLabel>{label} ({ids.length})</FieldLabel>
+      <List>
+        {ids.map((id) => <li key={id}>{names[id] ?? `${id.slice(0, 8)}… (not on the dashboard)`}</li>)}
+      </List>
+    </>
+  );
+
+  const recoveredCount = report ? report.links.length + report.rooms.length + report.broadcasts.length : 0;
+
   return (
     <WindowFrame
-      title={`Key Recovery - ${linkName}`}
+      title={linkName ? `Key Recovery - ${linkName}` : 'Restore Keys'}
       width={420}
-      height={320}
+      height={report ? 440 : 320}
       initialX={160}
       initialY={120}
       zIndex={1002}
-      onClose={onClose}
+      onClose={report ? onRecovered : onClose}
     >
       <Container>
-        <Message>
-          Your encryption key for <strong>{linkName}</strong> is missing from this browser.
-          Enter your recovery passphrase to restore it.
-        </Message>
-        <InputWithMargin
-          type="password"
-          value={passphrase}
-          onChange={(e) => setPassphrase(e.target.value)}
-          placeholder="Recovery passphrase"
-          onKeyDown={(e) => e.key === 'Enter' && handleRecover()}
-          autoFocus
-          disabled={recovering}
-        />
-        {error && <ErrorText>{error}</ErrorText>}
-        <ButtonBar>
-          <PrimaryButton onClick={handleRecover} disabled={!passphrase || recovering}>
-            {recovering ? 'Recovering...' : 'Recover Key'}
-          </PrimaryButton>
-          <Button98 onClick={onClose}>Cancel</Button98>
-        </ButtonBar>
+        {report ? (
+          <>
+            <Message>
+              {recoveredCount > 0
+                ? `Recovered ${recoveredCount} key${recoveredCount !== 1 ? 's' : ''} from your backup.`
+                : 'This browser already had every key in your backup.'}
+              {linkId && !report.links.includes(linkId) && ` The key for ${linkName ?? 'this link'} was not recovered.`}
+            </Message>
+            {renderList('Links', report.links)}
+            {renderList('Rooms', report.rooms)}
+            {renderList('Channels', report.broadcasts)}
+            {report.skippedRooms.length > 0 && (
+              <ErrorText>{report.skippedRooms.length} room key(s) need an unlocked vault and were skipped.</ErrorText>
+            )}
+            <ButtonBar>
+              <PrimaryButton onClick={onRecovered}>Done</PrimaryButton>
+            </ButtonBar>
+          </>
+        ) : (
+          <>
+            <Message>
+              {linkName
+                ? <>Your encryption key for <strong>{linkName}</strong> is missing from this browser. </>
+                : 'Restore every link, room and channel key from your account backup. '}
+              Enter your recovery passphrase to continue.
+            </Message>
+            <InputWithMargin
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Recovery passphrase"
+              onKeyDown={(e) => e.key === 'Enter' && handleRecover()}
+              autoFocus
+              disabled={recovering}
+            />
+            {error && <ErrorText>{error}</ErrorText>}
+            <ButtonBar>
+              <PrimaryButton onClick={handleRecover} disabled={!passphrase || recovering}>
+                {recovering ? 'Recovering...' : 'Recover Keys'}
+              </PrimaryButton>
+              <Button98 onClick={onClose}>Cancel</Button98>
+            </ButtonBar>
+          </>
+        )}
       </Container>
     </WindowFrame>
   );
@@ -0,0 +1,98 @@
+/**
+ * Link Limits Dialog Component
+ * Pause a link or change its limits on new conversations. Replies in
+ * existing conversations are never limited.
+ */
+
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { WindowFrame } from '../aim-ui/WindowFrame';
+import { Button98, PrimaryButton } from '../aim-ui/Button98';
+import { ButtonBar, HelpText } from '../aim-ui/FormField';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import { LinkPolicyFields, limitsFromLink, policyFields } from './LinkPolicyFields';
+import type { Link, LinkPolicy } from '../../types';
+
+interface LinkLimitsDialogProps {
+  link: Link;
+  onClose: () => void;
+  onSaved: () => Promise<void>;
+}
+
+const DialogContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.md};
+`;
+
+/**
+ * PATCH the link's policy. Throws with the server's reason, e.g. resuming
+ * while the total cap is still reached.
+ */
+export async function updateLinkPolicy(linkId: string, changes: Partial<LinkPolicy>): Promise<void> {
+  try {
+    await apiClient.patch(endpoints.dashboard.link(linkId), changes, {
+      headers: { Authorization: `Bearer ${await getAccessToken()}` },
+    });
+  } catch (error) {
+    const reason = axios.isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+    throw new Error(reason || 'Failed to update link');
+  }
+}
+
+export const LinkLimitsDialog: React.FC<LinkLimitsDialogProps> = ({ link, onClose, onSaved }) => {
+  const [paused, setPaused] = useState(link.paused ?? false);
+  const [limits, setLimits] = useState(() => limitsFromLink(link));
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateLinkPolicy(link.link_id, { paused, ...policyFields(limits) });
+      await onSaved();
+      toast.success(paused ? 'Link paused' : 'Link limits saved');
+      onClose();
+    } catch (error) {
+      toast.error((error as Error).message);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <WindowFrame
+      title={`🚦 Link Limits - ${link.display_name}`}
+      width={420}
+      height={340}
+      initialX={180}
+      initialY={90}
+      zIndex={1002}
+      onClose={onClose}
+    >
+      <DialogContainer>
+        <div className="field-row" style={{ marginBottom: aimTheme.spacing.md }}>
+          <input id={`paused-${link.link_id}`} type="checkbox" checked={paused}
+            onChange={(e) => setPaused(e.target.checked)} />
+          <label htmlFor={`paused-${link.link_id}`}>Paused (no new conversations)</label>
+        </div>
+        <LinkPolicyFields idPrefix={`limits-${link.link_id}`} value={limits} onChange={setLimits} />
+        <HelpText>
+          Senders see a &quot;not accepting messages&quot; notice while a limit applies. Replies in existing
+          conversations always go through.
+        </HelpText>
+        <ButtonBar>
+          <PrimaryButton onClick={handleSave} disabled={saving}>Save</PrimaryButton>
+          <Button98 onClick={onClose}>Cancel</Button98>
+        </ButtonBar>
+      </DialogContainer>
+    </WindowFrame>
+  );
+};
@@ -0,0 +1,107 @@
+/**
+ * Link Policy Fields
+ * Limits on new conversations for a link: a daily cap, a total cap (the
+ * link pauses itself when reached) and open hours in the browser's time
+ * zone. Empty caps mean unlimited.
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { aimTheme } from '../../theme/aim-theme';
+import type { Link, LinkPolicy } from '../../types';
+
+export interface LinkLimits {
+  maxPerDay: string;
+  maxTotal: string;
+  openHours: { start: string; end: string } | null;
+}
+
+export const NO_LIMITS: LinkLimits = { maxPerDay: '', maxTotal: '', openHours: null };
+
+const DEFAULT_OPEN_HOURS = { start: '09:00', end: '17:00' };
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function limitsFromLink(link: Link): LinkLimits {
+  return {
+    maxPerDay: link.max_threads_per_day ? String(link.max_threads_per_day) : '',
+    maxTotal: link.max_threads ? String(link.max_threads) : '',
+    openHours: link.open_hours_start && link.open_hours_end
+      ? { start: link.open_hours_start, end: link.open_hours_end }
+      : null,
+  };
+}
+
+/** Request fields for create/PATCH; open hours follow the saving device's zone */
+export function policyFields(limits: LinkLimits): Omit<LinkPolicy, 'paused'> {
+  return {
+    max_threads_per_day: Number(limits.maxPerDay) || null,
+    max_threads: Number(limits.maxTotal) || null,
+    open_hours_start: limits.openHours?.start ?? null,
+    open_hours_end: limits.openHours?.end ?? null,
+    time_zone: browserTimeZone(),
+  };
+}
+
+interface LinkPolicyFieldsProps {
+  idPrefix: string;
+  value: LinkLimits;
+  onChange: (value: LinkLimits) => void;
+}
+
+const Row = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  align-items: center;
+  flex-wrap: wrap;
+  margin-bottom: ${aimTheme.spacing.sm};
+`;
+
+const NumberInput = styled.input`
+  width: 70px;
+`;
+
+const Hint = styled.span`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+`;
+
+/** Digits only, so the field can be emptied back to "unlimited" */
+const digits = (raw: string) => raw.replace(/\D/g, '').slice(0, 6);
+
+export const LinkPolicyFields: React.FC<LinkPolicyFieldsProps> = ({ idPrefix, value, onChange }) => (
+  <>
+    <Row>
+      <label htmlFor={`${idPrefix}-per-day`}>New conversations per day:</label>
+      <NumberInput id={`${idPrefix}-per-day`} type="text" inputMode="numeric" placeholder="No limit"
+        value={value.maxPerDay} onChange={(e) => onChange({ ...value, maxPerDay: digits(e.target.value) })} />
+    </Row>
+    <Row>
+      <label htmlFor={`${idPrefix}-total`}>Pause after:</label>
+      <NumberInput id={`${idPrefix}-total`} type="text" inputMode="numeric" placeholder="No limit"
+        value={value.maxTotal} onChange={(e) => onChange({ ...value, maxTotal: digits(e.target.value) })} />
+      <Hint>conversations</Hint>
+    </Row>
+    <div className="field-row">
+      <input
+        id={`${idPrefix}-open-hours`}
+        type="checkbox"
+        checked={value.openHours !== null}
+        onChange={(e) => onChange({ ...value, openHours: e.target.checked ? DEFAULT_OPEN_HOURS : null })}
+      />
+      <label htmlFor={`${idPrefix}-open-hours`}>Only accept new conversations during open hours</label>
+    </div>
+    {value.openHours && (
+      <Row>
+        <input type="time" aria-label="Open hours start" value={value.openHours.start}
+          onChange={(e) => onChange({ ...value, openHours: { ...value.openHours!, start: e.target.value } })} />
+        <span>to</span>
+        <input type="time" aria-label="Open hours end" value={value.openHours.end}
+          onChange={(e) => onChange({ ...value, openHours: { ...value.openHours!, end: e.target.value } })} />
+        <Hint>{browserTimeZone()}</Hint>
+      </Row>
+    )}
+  </>
+);
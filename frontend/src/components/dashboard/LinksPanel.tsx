@@ -10,6 +10,9 @@ import { BuddyContextMenu } from '../aim-ui/BuddyContextMenu';
 import { AwayMessageDialog } from '../aim-ui/AwayMessageDialog';
 import { CreateLinkDialog } from './CreateLinkDialog';
 import { QRCodeDialog } from './QRCodeDialog';
+import { WebhooksDialog } from './WebhooksDialog';
+import { AutoReplyDialog } from './AutoReplyDialog';
+import { LinkLimitsDialog, updateLinkPolicy } from './LinkLimitsDialog';
 import { BroadcastCreateDialog } from './BroadcastCreateDialog';
 import { BroadcastChannelContextMenu } from './BroadcastChannelContextMenu';
 import { ConfirmDialog } from '../aim-ui/ConfirmDialog';
@@ -21,7 +24,7 @@ import { useAIMSounds } from '../../hooks/useAIMSounds';
 import { generateKeyPair } from '../../utils/e2ee';
 import { saveLinkKey } from '../../utils/key-store';
 import { saveBroadcastKey, deleteBroadcastKey } from '../../utils/broadcast-key-store';
-import type { Link, BroadcastChannel } from '../../types';
+import type { Link, LinkPolicy, BroadcastChannel } from '../../types';
 import type { CreateBroadcastChannelResult } from '../../types';
 
 interface LinksPanelProps {
@@ -29,7 +32,10 @@ interface LinksPanelProps {
   loading: boolean;
   newMessageLinkIds: Set<string>;
   onOpenThreads: (linkId: string, linkName: string) => void;
-  onOpenChannel: (channelId: string, channelName: string, readUrl: string, postToken?: string, encryptionKey?: string) => void;
+  onOpenChannel: (
+    channelId: string, channelName: string, readUrl: string, postToken?: string, encryptionKey?: string,
+    allowGuestPosts?: boolean, publicFeed?: boolean,
+  ) => void;
   onLinksChanged: () => Promise<void>;
   zIndex?: number;
   onFocus?: () => void;
@@ -54,6 +60,9 @@ export const LinksPanel: React.FC<LinksPanelProps> = ({
   const [selectedLink, setSelectedLink] = useState<Link | null>(null);
   const [showDescDialog, setShowDescDialog] = useState(false);
   const [showQRDialog, setShowQRDialog] = useState(false);
+  const [webhooksLink, setWebhooksLink] = useState<Link | null>(null);
+  const [autoReplyLink, setAutoReplyLink] = useState<Link | null>(null);
+  const [limitsLink, setLimitsLink] = useState<Link | null>(null);
   const [contextMenu, setContextMenu] = useState<{ linkId: string; x: number; y: number } | null>(null);
 
   // Broadcast channels
@@ -155,7 +164,7 @@ export const LinksPanel: React.FC<LinksPanelProps> = ({
     opsec_mode?: boolean;
     opsec_access?: 'device_bound' | 'single_use';
     opsec_passphrase?: string;
-  }) => {
+  } & Partial<LinkPolicy>) => {
     try {
       const { publicKeyBase64, privateKeyJwk } = await generateKeyPair();
 
@@ -222,7 +231,10 @@ export const LinksPanel: React.FC<LinksPanelProps> = ({
   const handleChannelClick = (channelId: string) => {
     const ch = channels.find((c) => c.channel_id === channelId);
     if (!ch || ch.burned) return;
-    onOpenChannel(ch.channel_id, ch.display_name, ch.read_url, channelPostTokens[ch.channel_id], channelEncryptionKeys[ch.channel_id]);
+    onOpenChannel(
+      ch.channel_id, ch.display_name, ch.read_url, channelPostTokens[ch.channel_id], channelEncryptionKeys[ch.channel_id],
+      ch.allow_guest_posts, ch.public_feed,
+    );
   };
 
   const handleChannelContextMenu = (channelId: string, e: React.MouseEvent) => {
@@ -382,6 +394,15 @@ export const LinksPanel: React.FC<LinksPanelProps> = ({
         />
       )}
 
+      {webhooksLink && (
+        <WebhooksDialog link={webhooksLink} onClose={() => setWebhooksLink(null)} />
+      )}
+
+      {autoReplyLink && <AutoReplyDialog link={autoReplyLink} onClose={() => setAutoReplyLink(null)} />}
+      {limitsLink && (
+        <LinkLimitsDialog link={limitsLink} onClose={() => setLimitsLink(null)} onSaved={onLinksChanged} />
+      )}
+
       {showBroadcastCreateDialog && (
         <BroadcastCreateDialog
           onSave={handleBroadcastCreated}
@@ -419,6 +440,12 @@ export const LinksPanel: React.FC<LinksPanelProps> = ({
               setSelectedLink(ctxLink);
               setShowDescDialog(true);
             }}
+            onManageWebhooks={() => setWebhooksLink(ctxLink)}
+            onManageAutoReply={() => setAutoReplyLink(ctxLink)}
+            paused={ctxLink.paused}
+            onTogglePause={() => updateLinkPolicy(ctxLink.link_id, { paused: !ctxLink.paused })
+              .then(onLinksChanged, (error: Error) => toast.error(error.message))}
+            onManageLimits={() => setLimitsLink(ctxLink)}
             onDelete={() => handleDeleteLink(ctxLink.link_id)}
             onClose={() => setContextMenu(null)}
           />
@@ -435,7 +462,10 @@ export const LinksPanel: React.FC<LinksPanelProps> = ({
             y={channelContextMenu.y}
             channel={ctxCh}
             postToken={postToken}
-            onOpen={() => onOpenChannel(ctxCh.channel_id, ctxCh.display_name, ctxCh.read_url, postToken, channelEncryptionKeys[ctxCh.channel_id])}
+            onOpen={() => onOpenChannel(
+              ctxCh.channel_id, ctxCh.display_name, ctxCh.read_url, postToken, channelEncryptionKeys[ctxCh.channel_id],
+              ctxCh.allow_guest_posts, ctxCh.public_feed,
+            )}
             onCopyLink={() => {
               navigator.clipboard.writeText(ctxCh.read_url);
               toast.success('Read link copied');
@@ -1,6 +1,7 @@
 /**
  * Room Approval Dialog Component
- * Approve or reject pending room participants
+ * Approve or reject pending room participants, and remove approved members.
+ * Removing a member rotates the group key (see utils/room-epochs.ts).
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -13,8 +14,10 @@ import { aimTheme } from '../../theme/aim-theme';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import { getAccessToken } from '../../config/cognito-config';
-import { getRoomKey } from '../../utils/key-store';
+import { getRoomKey, saveRoomKey, type RoomKeyData } from '../../utils/key-store';
+import { isVaultConfigured, isVaultUnlocked } from '../../utils/key-vault';
 import { wrapGroupKey } from '../../utils/room-e2ee';
+import { rotateGroupKey, settlePendingEpoch } from '../../utils/room-epochs';
 import type { Room, RoomParticipant } from '../../types';
 
 interface RoomApprovalDialogProps {
@@ -82,23 +85,47 @@ const EmptyState = styled.div`
   color: ${aimTheme.colors.darkGray};
 `;
 
+const SectionLabel = styled.div`
+  font-weight: ${aimTheme.fonts.weight.bold};
+  margin: ${aimTheme.spacing.md} 0 ${aimTheme.spacing.sm};
+`;
+
 const RefreshBtn = styled(Button98)`
   margin-top: ${aimTheme.spacing.md};
 `;
 
+/** Every approved participant, following the paged list's cursor */
+async function fetchApproved(roomId: string, headers: Record<string, string>): Promise<RoomParticipant[]> {
+  const all: RoomParticipant[] = [];
+  let cursor: string | null = null;
+  do {
+    const params: Record<string, string | number> = { status: 'approved', limit: 100 };
+    if (cursor) params.cursor = cursor;
+    const response = await apiClient.get(endpoints.dashboard.roomParticipants(roomId), { headers, params });
+    all.push(...(response.data.data?.participants || []));
+    cursor = response.data.data?.next_cursor ?? null;
+  } while (cursor);
+  return all;
+}
+
 export const RoomApprovalDialog: React.FC<RoomApprovalDialogProps> = ({ room, onClose }) => {
   const [pending, setPending] = useState<RoomParticipant[]>([]);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState<string | null>(null);
   const [rejectTarget, setRejectTarget] = useState<RoomParticipant | null>(null);
+  const [members, setMembers] = useState<RoomParticipant[]>([]);
+  const [removeTarget, setRemoveTarget] = useState<RoomParticipant | null>(null);
 
   const fetchPending = useCallback(async () => {
     try {
       const token = await getAccessToken();
-      const response = await apiClient.get(endpoints.dashboard.roomPending(room.room_id), {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      setPending(response.data.data?.pending || []);
+      const headers = { Authorization: `Bearer ${token}` };
+      const [pendingRes, approved] = await Promise.all([
+        apiClient.get(endpoints.dashboard.roomPending(room.room_id), { headers }),
+        fetchApproved(room.room_id, headers),
+      ]);
+      setPending(pendingRes.data.data?.pending || []);
+      setMembers(approved.filter((p) => !p.is_creator));
     } catch (error) {
       console.error('Failed to fetch pending:', error);
       toast.error('Failed to load pending participants');
@@ -111,12 +138,26 @@ export const RoomApprovalDialog: React.FC<RoomApprovalDialogProps> = ({ room, on
     fetchPending();
   }, [fetchPending]);
 
+  // A rotation saved as pending but never confirmed locally: ask the server which epoch won
+  const loadCreatorKeys = async (headers: Record<string, string>): Promise<RoomKeyData | null> => {
+    const stored = await getRoomKey(room.room_id);
+    if (!stored?.pendingEpoch) return stored;
+
+    const response = await apiClient.get(endpoints.dashboard.room(room.room_id), { headers });
+    const settled = settlePendingEpoch(stored, (response.data.data as Room).key_epoch ?? 0);
+    await saveRoomKey(room.room_id, settled);
+    return settled;
+  };
+
   const handleApprove = async (participant: RoomParticipant) => {
     setProcessing(participant.participant_id);
 
     try {
+      const token = await getAccessToken();
+      const headers = { Authorization: `Bearer ${token}` };
+
       // Get room keys from local storage
-      const roomKeys = await getRoomKey(room.room_id);
+      const roomKeys = await loadCreatorKeys(headers);
       if (!roomKeys) {
         toast.error('Room keys not found. You may need to rejoin as creator.');
         return;
@@ -129,11 +170,10 @@ export const RoomApprovalDialog: React.FC<RoomApprovalDialogProps> = ({ room, on
         participant.public_key
       );
 
-      const token = await getAccessToken();
       await apiClient.post(
         endpoints.dashboard.roomApprove(room.room_id, participant.participant_id),
         { wrapped_group_key: wrappedGroupKey },
-        { headers: { Authorization: `Bearer ${token}` } }
+        { headers }
       );
 
       toast.success(`${participant.display_name || 'Participant'} approved!`);
@@ -174,6 +214,76 @@ export const RoomApprovalDialog: React.FC<RoomApprovalDialogProps> = ({ room, on
     }
   };
 
+  // Removal: new group key for everyone who stays, so the removed member can't read what comes next
+  const confirmRemove = async () => {
+    if (!removeTarget) return;
+    const participant = removeTarget;
+    setRemoveTarget(null);
+    setProcessing(participant.participant_id);
+
+    try {
+      if (await isVaultConfigured() && !isVaultUnlocked()) {
+        toast.error('Unlock your vault to remove participants');
+        return;
+      }
+
+      const token = await getAccessToken();
+      const headers = { Authorization: `Bearer ${token}` };
+      const roomKeys = await loadCreatorKeys(headers);
+      if (!roomKeys) {
+        toast.error('Room keys not found. You may need to rejoin as creator.');
+        return;
+      }
+
+      const recipients = members.filter(
+        (p) => p.participant_id !== participant.participant_id && p.has_group_key
+      );
+      const { pending, keys, body } = await rotateGroupKey(roomKeys, recipients);
+
+      // Saved before the server can switch epochs, so the new key is never only in memory
+      await saveRoomKey(room.room_id, pending);
+      await apiClient.post(
+        endpoints.dashboard.roomRemove(room.room_id, participant.participant_id),
+        body,
+        { headers }
+      );
+      await saveRoomKey(room.room_id, keys);
+
+      toast.success(`${participant.display_name || 'Participant'} removed — room key rotated`);
+      await fetchPending();
+    } catch (error) {
+      console.error('Failed to remove:', error);
+      toast.error('Failed to remove participant');
+      await fetchPending();
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  // Delegates wrap the key for newcomers with their own key pair while we're offline
+  const toggleDistributor = async (participant: RoomParticipant) => {
+    setProcessing(participant.participant_id);
+    try {
+      const token = await getAccessToken();
+      const url = endpoints.dashboard.roomDistributor(room.room_id, participant.participant_id);
+      const config = { headers: { Authorization: `Bearer ${token}` } };
+      if (participant.can_distribute_keys) {
+        await apiClient.delete(url, config);
+      } else {
+        await apiClient.post(url, {}, config);
+      }
+      toast.success(participant.can_distribute_keys
+        ? 'No longer distributes keys'
+        : `${participant.display_name || 'Participant'} can now hand out keys`);
+      await fetchPending();
+    } catch (error) {
+      console.error('Failed to update distributor:', error);
+      toast.error('Failed to update key distribution');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
   const formatTime = (dateStr: string) => {
     const date = new Date(dateStr);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -233,6 +343,43 @@ export const RoomApprovalDialog: React.FC<RoomApprovalDialogProps> = ({ room, on
           )}
         </ParticipantList>
 
+        {members.length > 0 && (
+          <>
+            <SectionLabel>Members</SectionLabel>
+            <ParticipantList>
+              {members.map((p) => (
+                <ParticipantItem key={p.participant_id}>
+                  <ParticipantInfo>
+                    <ParticipantName>{p.display_name || 'Anonymous'}</ParticipantName>
+                    <ParticipantMeta>
+                      {p.has_group_key ? 'Has room key' : 'Waiting for key'}
+                      {p.can_distribute_keys && ' · hands out keys'}
+                    </ParticipantMeta>
+                  </ParticipantInfo>
+                  <Actions>
+                    {room.auto_approve && p.has_group_key && (
+                      <Button98
+                        onClick={() => toggleDistributor(p)}
+                        disabled={!!processing}
+                        title={p.can_distribute_keys ? 'Stop handing out keys' : 'Let this member hand out keys'}
+                      >
+                        {p.can_distribute_keys ? '🔑✗' : '🔑'}
+                      </Button98>
+                    )}
+                    <RejectButton
+                      onClick={() => setRemoveTarget(p)}
+                      disabled={!!processing}
+                      aria-label="Remove"
+                    >
+                      {processing === p.participant_id ? '...' : '✗'}
+                    </RejectButton>
+                  </Actions>
+                </ParticipantItem>
+              ))}
+            </ParticipantList>
+          </>
+        )}
+
         <RefreshBtn onClick={fetchPending} disabled={loading}>
           🔄 Refresh
         </RefreshBtn>
@@ -248,6 +395,17 @@ export const RoomApprovalDialog: React.FC<RoomApprovalDialogProps> = ({ room, on
           onCancel={() => setRejectTarget(null)}
         />
       )}
+
+      {removeTarget && (
+        <ConfirmDialog
+          title="Remove Participant"
+          message={`Remove ${removeTarget.display_name || 'this participant'}? The room key is rotated so they can't read new messages.`}
+          icon="⚠️"
+          confirmText="Remove"
+          onConfirm={confirmRemove}
+          onCancel={() => setRemoveTarget(null)}
+        />
+      )}
     </WindowFrame>
   );
 };
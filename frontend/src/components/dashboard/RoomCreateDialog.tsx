@@ -17,6 +17,7 @@ import { getAccessToken } from '../../config/cognito-config';
 import { generateGroupKey, generateECDHKeyPair, wrapGroupKey } from '../../utils/room-e2ee';
 import { saveRoomKey } from '../../utils/key-store';
 import { isVaultConfigured, isVaultUnlocked } from '../../utils/key-vault';
+import { LIFESPAN_OPTIONS, JOIN_WINDOW_OPTIONS, limitErrorMessage } from '../../utils/room-lifespan';
 import type { Room } from '../../types';
 
 interface RoomCreateDialogProps {
@@ -46,6 +47,7 @@ export const RoomCreateDialog: React.FC<RoomCreateDialogProps> = ({ onSave, onCl
   const [displayName, setDisplayName] = useState('');
   const [description, setDescription] = useState('');
   const [joinWindow, setJoinWindow] = useState(15);
+  const [lifespanHours, setLifespanHours] = useState(24);
   const [maxParticipants, setMaxParticipants] = useState(10);
   const [autoApprove, setAutoApprove] = useState(false);
   const [creating, setCreating] = useState(false);
@@ -84,6 +86,7 @@ export const RoomCreateDialog: React.FC<RoomCreateDialogProps> = ({ onSave, onCl
           display_name: displayName.trim(),
           description: description.trim() || undefined,
           join_window_minutes: joinWindow,
+          lifespan_hours: lifespanHours,
           max_participants: maxParticipants,
           auto_approve: autoApprove,
           group_public_key: roomPublicKey,
@@ -116,7 +119,7 @@ export const RoomCreateDialog: React.FC<RoomCreateDialogProps> = ({ onSave, onCl
         return;
       }
       console.error('Failed to create room:', error);
-      toast.error('Failed to create room. Please try again.');
+      toast.error(limitErrorMessage(error, 'Failed to create room. Please try again.'));
     } finally {
       setCreating(false);
     }
@@ -126,7 +129,7 @@ export const RoomCreateDialog: React.FC<RoomCreateDialogProps> = ({ onSave, onCl
     <WindowFrame
       title="🔒 Create Secure Room"
       width={440}
-      height={540}
+      height={600}
       initialX={140}
       initialY={60}
       zIndex={1001}
@@ -134,7 +137,7 @@ export const RoomCreateDialog: React.FC<RoomCreateDialogProps> = ({ onSave, onCl
     >
       <DialogContainer>
         <InfoBox>
-          Rooms auto-delete after 24 hours. All messages are end-to-end encrypted.
+          Rooms auto-delete when their lifespan ends. All messages are end-to-end encrypted.
         </InfoBox>
 
         <Field>
@@ -161,13 +164,22 @@ export const RoomCreateDialog: React.FC<RoomCreateDialogProps> = ({ onSave, onCl
           <CharCounter current={description.length} max={500} />
         </Field>
 
+        <Field>
+          <FieldLabel>Lifespan</FieldLabel>
+          <FullSelect value={lifespanHours} onChange={(e) => setLifespanHours(Number(e.target.value))}>
+            {LIFESPAN_OPTIONS.map((o) => (
+              <option key={o.hours} value={o.hours}>{o.label}</option>
+            ))}
+          </FullSelect>
+          <HelpText>You can extend the room later from the dashboard</HelpText>
+        </Field>
+
         <Field>
           <FieldLabel>Join Window</FieldLabel>
           <FullSelect value={joinWindow} onChange={(e) => setJoinWindow(Number(e.target.value))}>
-            <option value="5">5 minutes</option>
-            <option value="15">15 minutes</option>
-            <option value="30">30 minutes</option>
-            <option value="60">1 hour</option>
+            {JOIN_WINDOW_OPTIONS.map((o) => (
+              <option key={o.minutes} value={o.minutes}>{o.label}</option>
+            ))}
           </FullSelect>
           <HelpText>Room locks to new participants after this time</HelpText>
         </Field>
@@ -178,6 +190,10 @@ export const RoomCreateDialog: React.FC<RoomCreateDialogProps> = ({ onSave, onCl
             <option value="2">2</option>
             <option value="5">5</option>
             <option value="10">10</option>
+            <option value="25">25</option>
+            <option value="50">50</option>
+            <option value="100">100</option>
+            <option value="200">200</option>
           </FullSelect>
         </Field>
 
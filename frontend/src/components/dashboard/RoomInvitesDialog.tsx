@@ -14,6 +14,7 @@ import { aimTheme } from '../../theme/aim-theme';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import { getAccessToken } from '../../config/cognito-config';
+import { isRoomLocked } from '../../utils/room-lifespan';
 import type { Room, RoomInvite, GeneratedInvite } from '../../types';
 
 interface RoomInvitesDialogProps {
@@ -228,7 +229,7 @@ export const RoomInvitesDialog: React.FC<RoomInvitesDialogProps> = ({ room, onCl
     }
   };
 
-  const isLocked = room.locked_at || new Date() > new Date(new Date(room.created_at).getTime() + room.join_window_minutes * 60 * 1000);
+  const isLocked = isRoomLocked(room);
 
   return (
     <WindowFrame
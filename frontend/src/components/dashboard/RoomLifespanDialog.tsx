@@ -0,0 +1,144 @@
+/**
+ * Room Lifespan Dialog Component
+ * Extend a room's expiry or reopen its join window so new invites can be made
+ */
+
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { toast } from 'sonner';
+import { WindowFrame } from '../aim-ui/WindowFrame';
+import { Button98 } from '../aim-ui/Button98';
+import { Field, FieldLabel, HelpText, FullSelect, ButtonBar } from '../aim-ui/FormField';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import {
+  EXTEND_OPTIONS,
+  JOIN_WINDOW_OPTIONS,
+  isRoomLocked,
+  formatTimeRemaining,
+  limitErrorMessage,
+} from '../../utils/room-lifespan';
+import type { Room } from '../../types';
+
+interface RoomLifespanDialogProps {
+  room: Room;
+  onChange: () => void;
+  onClose: () => void;
+}
+
+const DialogContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.md};
+`;
+
+const Status = styled.div`
+  background: ${aimTheme.colors.white};
+  box-shadow: var(--border-field);
+  padding: ${aimTheme.spacing.sm};
+  font-size: ${aimTheme.fonts.size.small};
+  margin-bottom: ${aimTheme.spacing.lg};
+`;
+
+async function authHeaders() {
+  return { headers: { Authorization: `Bearer ${await getAccessToken()}` } };
+}
+
+export const RoomLifespanDialog: React.FC<RoomLifespanDialogProps> = ({ room, onChange, onClose }) => {
+  const [current, setCurrent] = useState<Room>(room);
+  const [extendHours, setExtendHours] = useState(24);
+  const [joinWindow, setJoinWindow] = useState(15);
+  const [saving, setSaving] = useState(false);
+
+  const locked = isRoomLocked(current);
+
+  const handleExtend = async () => {
+    setSaving(true);
+    try {
+      const response = await apiClient.post(
+        endpoints.dashboard.roomExtend(room.room_id),
+        { hours: extendHours },
+        await authHeaders()
+      );
+      setCurrent((r) => ({ ...r, expires_at: response.data.data.expires_at }));
+      toast.success('Room extended');
+      onChange();
+    } catch (error) {
+      console.error('Failed to extend room:', error);
+      toast.error(limitErrorMessage(error, 'Failed to extend room'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    setSaving(true);
+    try {
+      const response = await apiClient.post(
+        endpoints.dashboard.roomReopen(room.room_id),
+        { join_window_minutes: joinWindow },
+        await authHeaders()
+      );
+      const { join_window_opened_at, join_window_minutes } = response.data.data;
+      setCurrent((r) => ({ ...r, locked_at: undefined, join_window_opened_at, join_window_minutes }));
+      toast.success('Join window reopened — you can send new invites');
+      onChange();
+    } catch (error) {
+      console.error('Failed to reopen room:', error);
+      toast.error(limitErrorMessage(error, 'Failed to reopen room'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <WindowFrame
+      title={`⏳ Lifespan - ${room.display_name}`}
+      width={360}
+      height={400}
+      initialX={160}
+      initialY={80}
+      zIndex={1002}
+      onClose={onClose}
+    >
+      <DialogContainer>
+        <Status>
+          Expires in {formatTimeRemaining(current.expires_at)} ({new Date(current.expires_at).toLocaleString()})
+          <br />
+          {locked ? '🔐 Locked to new participants' : '🚪 Open to new participants'}
+        </Status>
+
+        <Field>
+          <FieldLabel>Extend by</FieldLabel>
+          <FullSelect value={extendHours} onChange={(e) => setExtendHours(Number(e.target.value))}>
+            {EXTEND_OPTIONS.map((o) => (
+              <option key={o.hours} value={o.hours}>{o.label}</option>
+            ))}
+          </FullSelect>
+          <ButtonBar>
+            <Button98 onClick={handleExtend} disabled={saving}>Extend</Button98>
+          </ButtonBar>
+        </Field>
+
+        <Field>
+          <FieldLabel>Reopen join window for</FieldLabel>
+          <FullSelect value={joinWindow} onChange={(e) => setJoinWindow(Number(e.target.value))}>
+            {JOIN_WINDOW_OPTIONS.map((o) => (
+              <option key={o.minutes} value={o.minutes}>{o.label}</option>
+            ))}
+          </FullSelect>
+          <HelpText>Unlocks the room so new invites work; it locks again when the window ends</HelpText>
+          <ButtonBar>
+            <Button98 onClick={handleReopen} disabled={saving}>Reopen</Button98>
+          </ButtonBar>
+        </Field>
+      </DialogContainer>
+    </WindowFrame>
+  );
+};
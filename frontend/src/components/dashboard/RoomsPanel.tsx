@@ -12,10 +12,12 @@ import { ConfirmDialog } from '../aim-ui/ConfirmDialog';
 import { RoomCreateDialog } from './RoomCreateDialog';
 import { RoomInvitesDialog } from './RoomInvitesDialog';
 import { RoomApprovalDialog } from './RoomApprovalDialog';
+import { RoomLifespanDialog } from './RoomLifespanDialog';
 import { aimTheme } from '../../theme/aim-theme';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import { getAccessToken } from '../../config/cognito-config';
+import { isRoomLocked, formatTimeRemaining } from '../../utils/room-lifespan';
 import type { Room } from '../../types';
 
 interface RoomsPanelProps {
@@ -124,6 +126,7 @@ export const RoomsPanel: React.FC<RoomsPanelProps> = ({ onOpenRoom, zIndex }) =>
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
   const [showInvitesDialog, setShowInvitesDialog] = useState(false);
   const [showApprovalDialog, setShowApprovalDialog] = useState(false);
+  const [showLifespanDialog, setShowLifespanDialog] = useState(false);
   const [autoGenerateInvite, setAutoGenerateInvite] = useState(false);
   const [burnRoom, setBurnRoom] = useState<Room | null>(null);
 
@@ -181,23 +184,6 @@ export const RoomsPanel: React.FC<RoomsPanelProps> = ({ onOpenRoom, zIndex }) =>
     }
   };
 
-  const formatTimeRemaining = (expiresAt: string) => {
-    const now = new Date();
-    const expires = new Date(expiresAt);
-    const diff = expires.getTime() - now.getTime();
-    if (diff <= 0) return 'Expired';
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
-  };
-
-  const isLocked = (room: Room) => {
-    if (room.locked_at) return true;
-    const created = new Date(room.created_at);
-    const lockTime = new Date(created.getTime() + room.join_window_minutes * 60 * 1000);
-    return new Date() > lockTime;
-  };
-
   return (
     <>
       <WindowFrame
@@ -226,7 +212,7 @@ export const RoomsPanel: React.FC<RoomsPanelProps> = ({ onOpenRoom, zIndex }) =>
                   $hasActivity={room.participant_count > 1}
                   onClick={() => onOpenRoom(room.room_id, room.display_name)}
                 >
-                  <RoomIcon>{isLocked(room) ? '🔐' : '🚪'}</RoomIcon>
+                  <RoomIcon>{isRoomLocked(room) ? '🔐' : '🚪'}</RoomIcon>
                   <RoomInfo>
                     <RoomName>{room.display_name}</RoomName>
                     <RoomMeta>
@@ -254,6 +240,16 @@ export const RoomsPanel: React.FC<RoomsPanelProps> = ({ onOpenRoom, zIndex }) =>
                     >
                       👥 Pending
                     </SmallButton>
+                    <SmallButton
+                      onClick={() => {
+                        setSelectedRoom(room);
+                        setShowLifespanDialog(true);
+                      }}
+                      aria-label="Extend or reopen room"
+                      title="Lifespan"
+                    >
+                      ⏳
+                    </SmallButton>
                     <SmallButton
                       onClick={() => handleBurnRoom(room)}
                       aria-label="Burn room"
@@ -299,6 +295,17 @@ export const RoomsPanel: React.FC<RoomsPanelProps> = ({ onOpenRoom, zIndex }) =>
         />
       )}
 
+      {showLifespanDialog && selectedRoom && (
+        <RoomLifespanDialog
+          room={selectedRoom}
+          onChange={fetchRooms}
+          onClose={() => {
+            setShowLifespanDialog(false);
+            setSelectedRoom(null);
+          }}
+        />
+      )}
+
       {burnRoom && (
         <ConfirmDialog
           title="Burn Room"
@@ -11,8 +11,13 @@ import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import { getAccessToken } from '../../config/cognito-config';
 import { useAIMSounds } from '../../hooks/useAIMSounds';
-import { decrypt, encrypt } from '../../utils/e2ee';
+import { decryptSenderMessages, encryptOwnerReply, forgetOwnerSession } from '../../utils/thread-ratchet';
 import { getLinkKey, getReplyPlaintexts, saveReplyPlaintext } from '../../utils/key-store';
+import { indexThreads, pruneListedThreads, removeThreadFromIndex } from '../../utils/search-index';
+import { decodeMessage } from '../../utils/attachments';
+import { threadTranscript } from '../../utils/transcript-archive';
+import type { IndexedMessage, IndexedThread } from '../../utils/search-match';
+import { hasKeyBackup } from '../../utils/key-backup';
 import { KeyRecoveryDialog } from './KeyRecoveryDialog';
 import { useAppSyncEvents } from '../../hooks/useAppSyncEvents';
 import type { Message } from '../../types';
@@ -25,6 +30,9 @@ interface ThreadsPanelProps {
   initialY?: number;
   zIndex?: number;
   onFocus?: () => void;
+  /** Search result to bring forward and highlight */
+  focusThreadId?: string;
+  focusMessageId?: string;
 }
 
 interface ThreadData {
@@ -38,6 +46,17 @@ interface ThreadData {
 
 const POLL_INTERVAL_MS = 30000; // Fallback only; AppSync Events provides instant updates
 
+/** Searchable text of a decrypted message: its text plus attachment file names */
+function toIndexedMessage(msg: Message, plaintext: string): IndexedMessage {
+  const { text, attachments } = decodeMessage(plaintext);
+  return {
+    message_id: msg.message_id,
+    sender_type: msg.sender_type,
+    created_at: msg.created_at,
+    text: [text, ...attachments.map((a) => a.name)].join(' ').trim(),
+  };
+}
+
 export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
   linkId,
   linkName,
@@ -46,6 +65,8 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
   initialY = 50,
   zIndex,
   onFocus,
+  focusThreadId,
+  focusMessageId,
 }) => {
   const [threads, setThreads] = useState<ThreadData[]>([]);
   const [loading, setLoading] = useState(true);
@@ -73,7 +94,11 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
         { headers, signal }
       );
 
-      const threadList: { thread_id: string }[] = listResponse.data.data || [];
+      const threadList: { thread_id: string; burned?: boolean }[] = listResponse.data.data || [];
+
+      // Burned/expired threads drop out of the list: purge them from the search index
+      void pruneListedThreads(linkId, threadList, listResponse.data.pagination?.total)
+        .catch((err) => console.error('Failed to prune search index:', err));
 
       // Step 2: Fetch messages for each thread (partial failure tolerant)
       const results = await Promise.allSettled(
@@ -103,34 +128,41 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
       // E2EE: decrypt messages client-side
       const linkKey = await getLinkKey(linkId);
       if (!linkKey && activeThreads.some((t) => t.messages.length > 0)) {
-        // Key missing — check if server has a backup
+        // Key missing — check if the account has a backup
         try {
-          const token = await getAccessToken();
-          const backupRes = await apiClient.get(
-            endpoints.dashboard.keyBackup(linkId),
-            { headers: { Authorization: `Bearer ${token}` }, signal },
-          );
-          if (backupRes.data?.data) setNeedsRecovery(true);
+          if (await hasKeyBackup()) setNeedsRecovery(true);
         } catch {
           // No backup available — nothing to recover
         }
       }
+      const searchable: IndexedThread[] = [];
       for (const thread of activeThreads) {
         const replyCache = await getReplyPlaintexts(thread.thread_id);
+        const plaintexts = linkKey
+          ? await decryptSenderMessages(thread.thread_id, thread.sender_public_key, linkKey, thread.messages)
+          : {};
+        const readable: IndexedMessage[] = [];
         for (const msg of thread.messages) {
+          const plaintext = msg.sender_type === 'owner' ? replyCache[msg.message_id] : plaintexts[msg.message_id];
+          if (plaintext !== undefined) readable.push(toIndexedMessage(msg, plaintext));
+
           if (msg.sender_type === 'anonymous' && linkKey) {
-            try {
-              msg.content = await decrypt(msg.content, linkKey);
-            } catch {
-              msg.content = '[Unable to decrypt]';
-            }
+            msg.content = plaintexts[msg.message_id] ?? '[Unable to decrypt]';
           } else if (msg.sender_type === 'anonymous' && !linkKey) {
             msg.content = '[Key missing — recovery required]';
           } else if (msg.sender_type === 'owner') {
             msg.content = replyCache[msg.message_id] || '[Your reply]';
           }
         }
+        searchable.push({
+          link_id: linkId,
+          link_name: linkName,
+          thread_id: thread.thread_id,
+          sender_anonymous_id: thread.sender_anonymous_id,
+          messages: readable,
+        });
       }
+      void indexThreads(searchable).catch((err) => console.error('Failed to update search index:', err));
 
       // Detect new messages by comparing total message count
       const totalMessages = activeThreads.reduce((sum, t) => sum + t.messages.length, 0);
@@ -154,7 +186,7 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
         void fetchThreads(); // one more run without signal (e.g. after poll + AppSync coalesced)
       }
     }
-  }, [linkId, playMessageSend]);
+  }, [linkId, linkName, playMessageSend]);
 
   // Recursive setTimeout polling: avoids overlapping requests unlike setInterval
   useEffect(() => {
@@ -186,7 +218,7 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
   // In classic AIM, closing IM windows is explicit (user clicks X).
   // No auto-close on empty threads.
 
-  const handleSendMessage = async (threadId: string, message: string) => {
+  const handleSendMessage = async (threadId: string, message: string, attachmentIds: string[]) => {
     try {
       const thread = threads.find((t) => t.thread_id === threadId);
       if (!thread?.sender_public_key) {
@@ -194,11 +226,11 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
         return;
       }
       const token = await getAccessToken();
-      const { ciphertext } = await encrypt(message, thread.sender_public_key);
+      const ciphertext = await encryptOwnerReply(threadId, thread.sender_public_key, message);
 
       const res = await apiClient.post(
         endpoints.dashboard.threadReply(threadId),
-        { ciphertext },
+        { ciphertext, ...(attachmentIds.length > 0 && { attachment_ids: attachmentIds }) },
         { headers: { Authorization: `Bearer ${token}` } }
       );
 
@@ -223,6 +255,8 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
         {},
         { headers: { Authorization: `Bearer ${token}` } }
       );
+      await forgetOwnerSession(threadId);
+      await removeThreadFromIndex(linkId, threadId);
 
       playFireExtinguish();
       await fetchThreads();
@@ -277,12 +311,15 @@ export const ThreadsPanel: React.FC<ThreadsPanelProps> = ({
           linkName={linkName}
           senderAnonymousId={thread.sender_anonymous_id}
           messages={thread.messages}
-          onSendMessage={(msg) => handleSendMessage(thread.thread_id, msg)}
+          linkId={linkId}
+          highlightMessageId={thread.thread_id === focusThreadId ? focusMessageId : undefined}
+          onSendMessage={(msg, attachmentIds) => handleSendMessage(thread.thread_id, msg, attachmentIds)}
           onBurn={() => handleBurn(thread.thread_id)}
           onClose={onClose}
+          getTranscript={() => threadTranscript(linkName, thread.sender_anonymous_id, thread.messages)}
           initialX={initialX + index * 30}
           initialY={initialY + index * 30}
-          zIndex={zIndex ? zIndex + index : undefined}
+          zIndex={zIndex ? zIndex + (thread.thread_id === focusThreadId ? threads.length : index) : undefined}
           onFocus={onFocus}
         />
       ))}
@@ -14,6 +14,7 @@ import { aimTheme } from '../../theme/aim-theme';
 import { toast } from 'sonner';
 import { setupVault, initializeVault } from '../../utils/key-vault';
 import { migrateKeysToVault } from '../../utils/key-store';
+import { syncKeyBackup } from '../../utils/key-backup';
 
 interface VaultUnlockDialogProps {
   mode: 'setup' | 'unlock';
@@ -90,6 +91,10 @@ export const VaultUnlockDialog: React.FC<VaultUnlockDialogProps> = ({
         setProgress('Unlocking vault...');
         await initializeVault(passphrase);
         toast.success('Vault unlocked.');
+        // Fold older per-link backups into the account backup and add new keys
+        if (localStorage.getItem('bw:backup-configured') !== 'skipped') {
+          syncKeyBackup(passphrase).catch((err) => console.warn('Key backup sync failed:', err));
+        }
       }
       onUnlocked();
     } catch (err) {
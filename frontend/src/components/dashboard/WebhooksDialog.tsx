@@ -0,0 +1,344 @@
+/**
+ * Webhooks Dialog Component
+ * Register webhook endpoints on a link, send test deliveries, view the delivery log
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { toast } from 'sonner';
+import { WindowFrame } from '../aim-ui/WindowFrame';
+import { ConfirmDialog } from '../aim-ui/ConfirmDialog';
+import { Button98, PrimaryButton } from '../aim-ui/Button98';
+import { aimTheme } from '../../theme/aim-theme';
+import apiClient from '../../utils/api-client';
+import { endpoints } from '../../config/api-endpoints';
+import { getAccessToken } from '../../config/cognito-config';
+import type { Link, LinkWebhook, WebhookDelivery } from '../../types';
+
+interface WebhooksDialogProps {
+  link: Link;
+  onClose: () => void;
+}
+
+/** Give the dispatcher a moment before reloading the log after a test */
+const TEST_REFRESH_DELAY_MS = 2000;
+
+const DialogContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  background: ${aimTheme.colors.gray};
+  padding: ${aimTheme.spacing.md};
+`;
+
+const Section = styled.div`
+  margin-bottom: ${aimTheme.spacing.lg};
+`;
+
+const SectionTitle = styled.div`
+  font-weight: ${aimTheme.fonts.weight.bold};
+  margin-bottom: ${aimTheme.spacing.sm};
+  border-bottom: 1px solid ${aimTheme.colors.darkGray};
+  padding-bottom: 4px;
+`;
+
+const AddForm = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  align-items: flex-end;
+`;
+
+const Field = styled.div`
+  flex: 1;
+`;
+
+const Label = styled.label`
+  display: block;
+  font-size: ${aimTheme.fonts.size.small};
+  margin-bottom: 2px;
+`;
+
+const Input = styled.input`
+  width: 100%;
+  border: none;
+  padding: 4px ${aimTheme.spacing.sm};
+`;
+
+const List = styled.div`
+  box-shadow: var(--border-field);
+  border: none;
+  background: ${aimTheme.colors.white};
+  padding: ${aimTheme.spacing.sm};
+`;
+
+const Item = styled.div<{ $selected?: boolean }>`
+  padding: ${aimTheme.spacing.sm};
+  border-bottom: 1px solid ${aimTheme.colors.lightGray};
+  background: ${(p) => (p.$selected ? aimTheme.colors.lightYellow : 'transparent')};
+  cursor: pointer;
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const Url = styled.div`
+  font-family: monospace;
+  font-size: ${aimTheme.fonts.size.small};
+  word-break: break-all;
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: ${aimTheme.spacing.sm};
+  margin-top: ${aimTheme.spacing.sm};
+`;
+
+const SecretBox = styled.div`
+  background: ${aimTheme.colors.flameYellow};
+  padding: ${aimTheme.spacing.md};
+  margin-bottom: ${aimTheme.spacing.md};
+`;
+
+const Secret = styled.div`
+  font-family: monospace;
+  font-size: ${aimTheme.fonts.size.small};
+  word-break: break-all;
+  background: ${aimTheme.colors.white};
+  padding: ${aimTheme.spacing.sm};
+  box-shadow: var(--border-field);
+  margin: ${aimTheme.spacing.sm} 0;
+`;
+
+const DeliveryRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: ${aimTheme.spacing.sm};
+  font-size: ${aimTheme.fonts.size.small};
+  padding: 2px 0;
+`;
+
+const DeliveryStatus = styled.span<{ $status: WebhookDelivery['status'] }>`
+  color: ${(p) => (p.$status === 'delivered' ? aimTheme.colors.green
+    : p.$status === 'failed' ? aimTheme.colors.fireRed : aimTheme.colors.darkGray)};
+`;
+
+const Hint = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  color: ${aimTheme.colors.darkGray};
+  margin-top: ${aimTheme.spacing.sm};
+`;
+
+const EmptyState = styled.div`
+  text-align: center;
+  padding: ${aimTheme.spacing.lg};
+  color: ${aimTheme.colors.darkGray};
+`;
+
+async function authHeaders() {
+  return { headers: { Authorization: `Bearer ${await getAccessToken()}` } };
+}
+
+function describeDelivery(d: WebhookDelivery): string {
+  if (d.status === 'delivered') return `✅ ${d.last_status_code}`;
+  if (d.status === 'failed') return `❌ ${d.last_error || 'Failed'}`;
+  return d.attempts > 0 ? `⏳ Retrying (${d.last_error || 'no response'})` : '⏳ Queued';
+}
+
+export const WebhooksDialog: React.FC<WebhooksDialogProps> = ({ link, onClose }) => {
+  const [webhooks, setWebhooks] = useState<LinkWebhook[]>([]);
+  const [url, setUrl] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [newWebhook, setNewWebhook] = useState<LinkWebhook | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const response = await apiClient.get(endpoints.dashboard.webhooks(link.link_id), await authHeaders());
+      setWebhooks(response.data.data || []);
+    } catch (error) {
+      console.error('Failed to fetch webhooks:', error);
+    }
+  }, [link.link_id]);
+
+  const fetchDeliveries = useCallback(async (webhookId: string) => {
+    try {
+      const response = await apiClient.get(
+        endpoints.dashboard.webhookDeliveries(link.link_id, webhookId),
+        await authHeaders()
+      );
+      setDeliveries(response.data.data || []);
+    } catch (error) {
+      console.error('Failed to fetch webhook deliveries:', error);
+    }
+  }, [link.link_id]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  useEffect(() => {
+    if (selectedId) fetchDeliveries(selectedId);
+    else setDeliveries([]);
+  }, [selectedId, fetchDeliveries]);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      const response = await apiClient.post(
+        endpoints.dashboard.webhooks(link.link_id),
+        { url: url.trim() },
+        await authHeaders()
+      );
+      setNewWebhook(response.data.data);
+      setUrl('');
+      await fetchWebhooks();
+    } catch (error) {
+      console.error('Failed to add webhook:', error);
+      toast.error('Failed to add webhook. Use a public https:// URL.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleTest = async (webhookId: string) => {
+    try {
+      await apiClient.post(endpoints.dashboard.webhookTest(link.link_id, webhookId), {}, await authHeaders());
+      toast.success('Test delivery queued');
+      setSelectedId(webhookId);
+      await fetchDeliveries(webhookId);
+      setTimeout(() => fetchDeliveries(webhookId), TEST_REFRESH_DELAY_MS);
+    } catch (error) {
+      console.error('Failed to send test webhook:', error);
+      toast.error('Failed to send test');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteId) return;
+    const webhookId = deleteId;
+    setDeleteId(null);
+
+    try {
+      await apiClient.delete(endpoints.dashboard.webhook(link.link_id, webhookId), await authHeaders());
+      toast.success('Webhook deleted');
+      if (selectedId === webhookId) setSelectedId(null);
+      if (newWebhook?.webhook_id === webhookId) setNewWebhook(null);
+      await fetchWebhooks();
+    } catch (error) {
+      console.error('Failed to delete webhook:', error);
+      toast.error('Failed to delete webhook');
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Secret copied!');
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  return (
+    <WindowFrame
+      title={`🔔 Webhooks - ${link.display_name}`}
+      width={480}
+      height={580}
+      initialX={160}
+      initialY={70}
+      zIndex={1002}
+      onClose={onClose}
+    >
+      <DialogContainer>
+        {newWebhook?.secret && (
+          <SecretBox>
+            <strong>Signing secret</strong>
+            <Secret>{newWebhook.secret}</Secret>
+            <ButtonRow>
+              <PrimaryButton onClick={() => handleCopySecret(newWebhook.secret!)}>📋 Copy Secret</PrimaryButton>
+            </ButtonRow>
+            <Hint>
+              ⚠️ Shown once. Verify X-BurnWare-Signature: sha256=HMAC(secret, timestamp + "." + body).
+            </Hint>
+          </SecretBox>
+        )}
+
+        <Section>
+          <SectionTitle>Add Webhook</SectionTitle>
+          <AddForm>
+            <Field>
+              <Label>Endpoint URL</Label>
+              <Input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/burnware"
+                maxLength={2048}
+              />
+            </Field>
+            <Button98 onClick={handleAdd} disabled={adding || !url.trim()}>
+              {adding ? '...' : 'Add'}
+            </Button98>
+          </AddForm>
+          <Hint>Payloads carry link, thread, sender type and time only — never message content.</Hint>
+        </Section>
+
+        <Section>
+          <SectionTitle>Endpoints</SectionTitle>
+          <List>
+            {webhooks.length === 0 ? (
+              <EmptyState>No webhooks yet</EmptyState>
+            ) : (
+              webhooks.map((w) => (
+                <Item key={w.webhook_id} $selected={w.webhook_id === selectedId} onClick={() => setSelectedId(w.webhook_id)}>
+                  <Url>{w.url}</Url>
+                  <ButtonRow>
+                    <Button98 onClick={(e) => { e.stopPropagation(); handleTest(w.webhook_id); }}>Send test</Button98>
+                    <Button98 onClick={(e) => { e.stopPropagation(); setDeleteId(w.webhook_id); }}>Delete</Button98>
+                  </ButtonRow>
+                </Item>
+              ))
+            )}
+          </List>
+        </Section>
+
+        {selectedId && (
+          <Section>
+            <SectionTitle>Recent Deliveries</SectionTitle>
+            <List>
+              {deliveries.length === 0 ? (
+                <EmptyState>No deliveries yet</EmptyState>
+              ) : (
+                deliveries.map((d) => (
+                  <DeliveryRow key={d.delivery_id}>
+                    <span>{new Date(d.created_at).toLocaleString()} · {d.event}</span>
+                    <DeliveryStatus $status={d.status}>{describeDelivery(d)}</DeliveryStatus>
+                  </DeliveryRow>
+                ))
+              )}
+            </List>
+            <ButtonRow>
+              <Button98 onClick={() => fetchDeliveries(selectedId)}>Refresh</Button98>
+            </ButtonRow>
+          </Section>
+        )}
+      </DialogContainer>
+
+      {deleteId && (
+        <ConfirmDialog
+          title="Delete Webhook"
+          message="Delete this webhook? Queued deliveries and its log are removed."
+          icon="⚠️"
+          confirmText="Delete"
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleteId(null)}
+        />
+      )}
+    </WindowFrame>
+  );
+};
@@ -2,6 +2,7 @@
  * Send Message Window Component
  * Anonymous message sending interface (AIM style).
  * After the first message, transforms into a live ChatWindow-style conversation.
+ * Attachments are encrypted per file and referenced inside the E2EE message.
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
@@ -14,9 +15,15 @@ import axios from 'axios';
 import { toast } from 'sonner';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
-import { encrypt, decrypt } from '../../utils/e2ee';
+import { encryptFirstMessage, encryptSenderMessage, decryptOwnerReply } from '../../utils/thread-ratchet';
 import { saveSenderKey, getSenderKey, addSentMessage, saveAccessToken, getAccessToken } from '../../utils/key-store';
 import { useAppSyncEvents } from '../../hooks/useAppSyncEvents';
+import { useAttachments } from '../../hooks/useAttachments';
+import { encodeMessage } from '../../utils/attachments';
+import { getSendProof } from '../../utils/send-challenge';
+import { passphraseErrorMessage } from '../../utils/passphrase-errors';
+import { AttachButton, PendingFiles, MessageBody } from '../aim-ui/Attachments';
+import { ThreadLinkBar } from './ThreadLinkBar';
 import type { Message } from '../../types';
 
 interface SendMessageWindowProps {
@@ -133,15 +140,6 @@ const ChatInput = styled.textarea`
   &:focus { outline: none; }
 `;
 
-const BookmarkBar = styled.div`
-  font-size: ${aimTheme.fonts.size.tiny};
-  color: #666;
-  text-align: center;
-  padding: 2px ${aimTheme.spacing.sm};
-  border-top: 1px solid ${aimTheme.colors.darkGray};
-  a { color: ${aimTheme.colors.blue}; }
-`;
-
 const MAX_LENGTH = 5000;
 const CHAR_COUNT_WARN = 4500;
 const WINDOW_WIDTH = 520;
@@ -183,6 +181,8 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
   const { playMatchStrike, playMessageSend } = useAIMSounds();
   const prevMessageCountRef = useRef<number>(0);
   const center = useCenteredPosition(WINDOW_WIDTH, WINDOW_HEIGHT);
+  const { files, addFiles, removeFile, clearFiles, uploadFiles } = useAttachments();
+  const canSend = (!!message.trim() || files.length > 0) && !sending;
 
   // Auto-scroll on new messages
   useEffect(() => {
@@ -228,7 +228,7 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
           anonIndex++;
         } else if (msg.sender_type === 'owner' && senderData?.privateKeyJwk) {
           try {
-            msg.content = await decrypt(msg.content, senderData.privateKeyJwk);
+            msg.content = await decryptOwnerReply(sentThreadId, msg.message_id, msg.content);
           } catch {
             msg.content = '[Unable to decrypt]';
           }
@@ -271,16 +271,23 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
 
   // First message send (E2EE only)
   const handleFirstSend = async () => {
-    if (!message.trim() || sending || !linkInfo?.public_key) return;
+    if (!canSend || !linkInfo?.public_key) return;
     setSending(true);
     try {
-      const { ciphertext, ephemeralPublicKeyBase64, ephemeralPrivateKeyJwk } =
-        await encrypt(message.trim(), linkInfo.public_key);
-      const body = { recipient_link_id: linkId, ciphertext, sender_public_key: ephemeralPublicKeyBase64, ...(passphrase && { passphrase }) };
+      const refs = await uploadFiles({ link_id: linkId });
+      const plaintext = encodeMessage(message.trim(), refs);
+      const { ciphertext, senderPublicKeyBase64, senderData } =
+        await encryptFirstMessage(plaintext, linkInfo.public_key);
+      const pow = await getSendProof(linkId);
+      const body = {
+        recipient_link_id: linkId, ciphertext, sender_public_key: senderPublicKeyBase64,
+        ...(passphrase && { passphrase }), ...(refs.length > 0 && { attachment_ids: refs.map((r) => r.id) }),
+        ...(pow && { pow }),
+      };
       const res = await apiClient.post(endpoints.public.send(), body);
       const threadId = (res.data?.data as { thread_id?: string })?.thread_id;
       if (threadId) {
-        saveSenderKey(threadId, { privateKeyJwk: ephemeralPrivateKeyJwk, sentMessages: [message.trim()] });
+        saveSenderKey(threadId, { ...senderData, sentMessages: [plaintext] });
         setSentThreadId(threadId);
       }
       // OPSEC: store access token if present
@@ -292,13 +299,22 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
       }
       playMatchStrike();
       setMessage('');
+      clearFiles();
     } catch (error) {
       console.error('Failed to send message:', error);
-      const errCode = axios.isAxiosError(error) && error.response?.data?.error?.code;
+      const errBody = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      const errCode = errBody?.code;
       if (errCode === 'VALIDATION_ERROR' && linkInfo?.opsec?.passphrase_required) {
         toast.error('Passphrase is required to send a message.');
-      } else if (errCode === 'AUTHORIZATION_ERROR') {
-        toast.error('Incorrect passphrase. Please try again.');
+      } else if (passphraseErrorMessage(errBody)) {
+        toast.error(passphraseErrorMessage(errBody));
+      } else if (errCode === 'LINK_PAUSED') {
+        // The server message names the open hours when that is the reason
+        toast.error(errBody?.message || 'This link is not accepting new messages right now.');
+      } else if (errCode === 'CHALLENGE_FAILED') {
+        toast.error('Anti-spam check expired. Please send again.');
+      } else if (errCode === 'LINK_QUOTA_EXCEEDED') {
+        toast.error('This link has received too many new messages today. Please try again later.');
       } else {
         toast.error('Failed to send message. Please try again.');
       }
@@ -309,17 +325,21 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
 
   // Follow-up message send (E2EE only)
   const handleFollowUp = async () => {
-    if (!message.trim() || sending || !sentThreadId || !linkInfo?.public_key) return;
+    if (!canSend || !sentThreadId || !linkInfo?.public_key) return;
     setSending(true);
     try {
-      const { ciphertext } = await encrypt(message.trim(), linkInfo.public_key);
+      const refs = await uploadFiles({ link_id: linkId });
+      const plaintext = encodeMessage(message.trim(), refs);
+      const ciphertext = await encryptSenderMessage(sentThreadId, plaintext, linkInfo.public_key);
       const replyHeaders: Record<string, string> = {};
       const replyAccessToken = getAccessToken(sentThreadId);
       if (replyAccessToken) replyHeaders['X-Access-Token'] = replyAccessToken;
-      await apiClient.post(endpoints.public.threadReply(sentThreadId), { ciphertext }, { headers: replyHeaders });
-      addSentMessage(sentThreadId, message.trim());
+      const body = { ciphertext, ...(refs.length > 0 && { attachment_ids: refs.map((r) => r.id) }) };
+      await apiClient.post(endpoints.public.threadReply(sentThreadId), body, { headers: replyHeaders });
+      addSentMessage(sentThreadId, plaintext);
       playMatchStrike();
       setMessage('');
+      clearFiles();
       await fetchMessages();
     } catch (error) {
       console.error('Failed to send reply:', error);
@@ -336,8 +356,6 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
     }
   };
 
-  const threadUrl = sentThreadId ? `${window.location.origin}/thread/${sentThreadId}` : '';
-
   if (loading) {
     return (
       <WindowFrame title="Loading..." width={WINDOW_WIDTH} height={WINDOW_HEIGHT} initialX={center.x} initialY={center.y}>
@@ -373,7 +391,7 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
                       {msg.sender_type === 'owner' ? 'Recipient' : 'You'}:
                     </Sender>
                   </div>
-                  <MessageContent>{msg.content}</MessageContent>
+                  <MessageContent><MessageBody content={msg.content} /></MessageContent>
                 </MessageBubble>
               ))
             )}
@@ -392,43 +410,15 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
                 {message.length.toLocaleString()} / {MAX_LENGTH.toLocaleString()}
               </div>
             )}
+            <PendingFiles files={files} onRemove={removeFile} />
             <ButtonBar>
-              <Button98 style={{ fontWeight: 'bold' }} onClick={handleFollowUp} disabled={!message.trim() || sending}>
+              <Button98 style={{ fontWeight: 'bold' }} onClick={handleFollowUp} disabled={!canSend}>
                 {sending ? 'Sending...' : 'Send'}
               </Button98>
+              <AttachButton count={files.length} onAdd={addFiles} disabled={sending} />
             </ButtonBar>
           </InputArea>
-          {opsecInfo && (
-            <BookmarkBar style={{ background: '#FFFFCC', borderTop: '1px solid #E0E000' }}>
-              OPSEC: {opsecInfo.access_mode === 'single_use' ? 'Session-only' : 'Device-bound'}
-              {opsecInfo.expires_at && ` — expires ${new Date(opsecInfo.expires_at).toLocaleString()}`}
-            </BookmarkBar>
-          )}
-          {opsecInfo?.access_mode !== 'single_use' && (
-            <BookmarkBar>
-              Bookmark to return later: <a href={threadUrl} target="_blank" rel="noopener noreferrer">{threadUrl}</a>
-              {' · '}
-              <button
-                type="button"
-                onClick={() => {
-                  navigator.clipboard.writeText(threadUrl);
-                  toast.success('Thread link copied');
-                }}
-                style={{
-                  background: 'none',
-                  border: 'none',
-                  color: aimTheme.colors.blue,
-                  cursor: 'pointer',
-                  fontFamily: 'inherit',
-                  fontSize: 'inherit',
-                  padding: 0,
-                  textDecoration: 'underline',
-                }}
-              >
-                Copy link
-              </button>
-            </BookmarkBar>
-          )}
+          <ThreadLinkBar threadId={sentThreadId} opsecInfo={opsecInfo} />
         </Container>
       </WindowFrame>
     );
@@ -488,10 +478,12 @@ export const SendMessageWindow: React.FC<SendMessageWindowProps> = ({ linkId })
               />
             </div>
           )}
+          <PendingFiles files={files} onRemove={removeFile} />
           <ButtonBar>
-            <Button98 style={{ fontWeight: 'bold' }} onClick={handleFirstSend} disabled={!linkInfo?.public_key || !message.trim() || sending || (!!linkInfo?.opsec?.passphrase_required && !passphrase)}>
+            <Button98 style={{ fontWeight: 'bold' }} onClick={handleFirstSend} disabled={!linkInfo?.public_key || !canSend || (!!linkInfo?.opsec?.passphrase_required && !passphrase)}>
               {sending ? 'Sending...' : 'Send Message'}
             </Button98>
+            <AttachButton count={files.length} onAdd={addFiles} disabled={sending || !linkInfo?.public_key} />
           </ButtonBar>
         </ComposeSection>
       </Container>
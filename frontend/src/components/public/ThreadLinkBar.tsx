@@ -0,0 +1,65 @@
+/**
+ * Thread Link Bar
+ * Footer for the sender's live chat: OPSEC status and the bookmark link
+ * for returning to the thread later.
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { toast } from 'sonner';
+import { aimTheme } from '../../theme/aim-theme';
+
+interface ThreadLinkBarProps {
+  threadId: string;
+  opsecInfo: { access_mode?: string; expires_at?: string } | null;
+}
+
+const BookmarkBar = styled.div`
+  font-size: ${aimTheme.fonts.size.tiny};
+  color: #666;
+  text-align: center;
+  padding: 2px ${aimTheme.spacing.sm};
+  border-top: 1px solid ${aimTheme.colors.darkGray};
+  a { color: ${aimTheme.colors.blue}; }
+`;
+
+const CopyButton = styled.button`
+  background: none;
+  border: none;
+  color: ${aimTheme.colors.blue};
+  cursor: pointer;
+  font-family: inherit;
+  font-size: inherit;
+  padding: 0;
+  text-decoration: underline;
+`;
+
+export const ThreadLinkBar: React.FC<ThreadLinkBarProps> = ({ threadId, opsecInfo }) => {
+  const threadUrl = `${window.location.origin}/thread/${threadId}`;
+
+  return (
+    <>
+      {opsecInfo && (
+        <BookmarkBar style={{ background: '#FFFFCC', borderTop: '1px solid #E0E000' }}>
+          OPSEC: {opsecInfo.access_mode === 'single_use' ? 'Session-only' : 'Device-bound'}
+          {opsecInfo.expires_at && ` — expires ${new Date(opsecInfo.expires_at).toLocaleString()}`}
+        </BookmarkBar>
+      )}
+      {opsecInfo?.access_mode !== 'single_use' && (
+        <BookmarkBar>
+          Bookmark to return later: <a href={threadUrl} target="_blank" rel="noopener noreferrer">{threadUrl}</a>
+          {' · '}
+          <CopyButton
+            type="button"
+            onClick={() => {
+              navigator.clipboard.writeText(threadUrl);
+              toast.success('Thread link copied');
+            }}
+          >
+            Copy link
+          </CopyButton>
+        </BookmarkBar>
+      )}
+    </>
+  );
+};
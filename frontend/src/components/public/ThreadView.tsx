@@ -11,8 +11,10 @@ import { aimTheme } from '../../theme/aim-theme';
 import apiClient from '../../utils/api-client';
 import { endpoints } from '../../config/api-endpoints';
 import axios from 'axios';
-import { decrypt } from '../../utils/e2ee';
+import { decryptOwnerReply } from '../../utils/thread-ratchet';
 import { getSenderKey, getAccessToken, getUnlockToken, saveUnlockToken } from '../../utils/key-store';
+import { MessageBody } from '../aim-ui/Attachments';
+import { passphraseErrorMessage } from '../../utils/passphrase-errors';
 import type { Message } from '../../types/message';
 
 interface ThreadViewProps {
@@ -122,7 +124,7 @@ export const ThreadView: React.FC<ThreadViewProps> = ({ threadId, compact = fals
           anonIndex++;
         } else if (msg.sender_type === 'owner' && senderData?.privateKeyJwk) {
           try {
-            msg.content = await decrypt(msg.content, senderData.privateKeyJwk);
+            msg.content = await decryptOwnerReply(threadId, msg.message_id, msg.content);
           } catch {
             msg.content = '[Unable to decrypt]';
           }
@@ -171,8 +173,13 @@ export const ThreadView: React.FC<ThreadViewProps> = ({ threadId, compact = fals
         setPassphrase('');
       }
     } catch (err: unknown) {
-      const status = (err as { response?: { status?: number } })?.response?.status;
-      setUnlockError(status === 401 ? 'Incorrect passphrase.' : 'Failed to unlock. Try again.');
+      const errBody = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      // Too many wrong guesses burn the thread
+      if (errBody?.details?.attempts_remaining === 0 || errBody?.code === 'NOT_FOUND') {
+        setNotFound(true);
+        return;
+      }
+      setUnlockError(passphraseErrorMessage(errBody) ?? 'Failed to unlock. Try again.');
     } finally {
       setUnlocking(false);
     }
@@ -276,7 +283,7 @@ export const ThreadView: React.FC<ThreadViewProps> = ({ threadId, compact = fals
                 </SenderLabel>
                 <Timestamp>{formatTime(msg.created_at)}</Timestamp>
               </div>
-              <div style={{ marginTop: 4 }}>{msg.content}</div>
+              <div style={{ marginTop: 4 }}><MessageBody content={msg.content} /></div>
             </MessageBubble>
           ))
         )}
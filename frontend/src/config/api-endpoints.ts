@@ -14,10 +14,24 @@ export const endpoints = {
     threadReply: (threadId: string) => `${API_BASE}/dashboard/threads/${threadId}/reply`,
     threadBurn: (threadId: string) => `${API_BASE}/dashboard/threads/${threadId}/burn`,
     keyBackup: (linkId: string) => `${API_BASE}/dashboard/links/${linkId}/key-backup`,
+    keyBundle: () => `${API_BASE}/dashboard/key-bundle`,
+    // Link webhooks
+    webhooks: (linkId: string) => `${API_BASE}/dashboard/links/${linkId}/webhooks`,
+    webhook: (linkId: string, webhookId: string) => `${API_BASE}/dashboard/links/${linkId}/webhooks/${webhookId}`,
+    webhookTest: (linkId: string, webhookId: string) =>
+      `${API_BASE}/dashboard/links/${linkId}/webhooks/${webhookId}/test`,
+    webhookDeliveries: (linkId: string, webhookId: string) =>
+      `${API_BASE}/dashboard/links/${linkId}/webhooks/${webhookId}/deliveries`,
+    // Link auto-reply (settings + owner client job)
+    autoReply: (linkId: string) => `${API_BASE}/dashboard/links/${linkId}/auto-reply`,
+    autoRepliesPending: () => `${API_BASE}/dashboard/auto-replies/pending`,
+    threadAutoReply: (threadId: string) => `${API_BASE}/dashboard/threads/${threadId}/auto-reply`,
     // Room management (creator endpoints)
     rooms: () => `${API_BASE}/dashboard/rooms`,
     room: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}`,
     roomLock: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/lock`,
+    roomExtend: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/extend`,
+    roomReopen: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/reopen`,
     roomBurn: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/burn`,
     roomInvites: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/invites`,
     roomInvite: (roomId: string, inviteId: string) => `${API_BASE}/dashboard/rooms/${roomId}/invites/${inviteId}`,
@@ -26,17 +40,29 @@ export const endpoints = {
       `${API_BASE}/dashboard/rooms/${roomId}/participants/${participantId}/approve`,
     roomReject: (roomId: string, participantId: string) =>
       `${API_BASE}/dashboard/rooms/${roomId}/participants/${participantId}/reject`,
+    roomRemove: (roomId: string, participantId: string) =>
+      `${API_BASE}/dashboard/rooms/${roomId}/participants/${participantId}/remove`,
+    roomParticipants: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/participants`,
+    roomDistributor: (roomId: string, participantId: string) =>
+      `${API_BASE}/dashboard/rooms/${roomId}/participants/${participantId}/distributor`,
     // Auto-approve key distribution
     roomNeedsKeys: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/needs-keys`,
-    roomSetKey: (roomId: string, participantId: string) =>
-      `${API_BASE}/dashboard/rooms/${roomId}/participants/${participantId}/set-key`,
+    roomSetKeys: (roomId: string) => `${API_BASE}/dashboard/rooms/${roomId}/set-keys`,
     // Broadcast (owner channels list)
     broadcastChannels: () => `${API_BASE}/dashboard/broadcast`,
     broadcastChannel: (channelId: string) => `${API_BASE}/dashboard/broadcast/${channelId}`,
+    // Owner devices and device linking
+    devices: () => `${API_BASE}/dashboard/devices`,
+    device: (deviceId: string) => `${API_BASE}/dashboard/devices/${deviceId}`,
+    deviceLink: () => `${API_BASE}/dashboard/devices/link`,
+    deviceLinkSession: (sessionId: string) => `${API_BASE}/dashboard/devices/link/${sessionId}`,
+    deviceLinkBundle: (sessionId: string) => `${API_BASE}/dashboard/devices/link/${sessionId}/bundle`,
+    devicePairing: (pairingCode: string) => `${API_BASE}/dashboard/devices/pairing/${pairingCode}`,
   },
   public: {
     linkMetadata: (linkId: string) => `${API_BASE}/link/${linkId}/metadata`,
     send: () => `${API_BASE}/send`,
+    challenge: (linkId: string) => `${API_BASE}/challenge/${linkId}`,
     thread: (threadId: string) => `${API_BASE}/thread/${threadId}`,
     threadReply: (threadId: string) => `${API_BASE}/thread/${threadId}/reply`,
     threadUnlock: (threadId: string) => `${API_BASE}/thread/${threadId}/unlock`,
@@ -45,10 +71,22 @@ export const endpoints = {
     roomStatus: (roomId: string) => `${API_BASE}/rooms/${roomId}/status`,
     roomInfo: (roomId: string) => `${API_BASE}/rooms/${roomId}/info`,
     roomMessages: (roomId: string) => `${API_BASE}/rooms/${roomId}/messages`,
+    roomMessage: (roomId: string, messageId: string) => `${API_BASE}/rooms/${roomId}/messages/${messageId}`,
+    // Key distribution by delegated members
+    roomNeedsKeys: (roomId: string) => `${API_BASE}/rooms/${roomId}/needs-keys`,
+    roomSetKeys: (roomId: string) => `${API_BASE}/rooms/${roomId}/set-keys`,
     // Broadcast (public)
     broadcastCreate: () => `${API_BASE}/broadcast`,
     broadcastPosts: (channelId: string) => `${API_BASE}/broadcast/${channelId}/posts`,
     broadcastAddPost: (channelId: string) => `${API_BASE}/broadcast/${channelId}/posts`,
+    broadcastPost: (channelId: string, postId: string) => `${API_BASE}/broadcast/${channelId}/posts/${postId}`,
+    broadcastPending: (channelId: string) => `${API_BASE}/broadcast/${channelId}/pending`,
+    broadcastModeration: (channelId: string) => `${API_BASE}/broadcast/${channelId}/moderation`,
+    broadcastTokens: (channelId: string) => `${API_BASE}/broadcast/${channelId}/tokens`,
+    broadcastToken: (channelId: string, tokenId: string) => `${API_BASE}/broadcast/${channelId}/tokens/${tokenId}`,
     broadcastBurn: (channelId: string) => `${API_BASE}/broadcast/${channelId}/burn`,
+    // Encrypted attachments (presigned upload/download)
+    attachments: () => `${API_BASE}/attachments`,
+    attachment: (attachmentId: string) => `${API_BASE}/attachments/${attachmentId}`,
   },
 };
@@ -0,0 +1,81 @@
+/**
+ * Attachments Hook
+ * Pending files for a compose box, and the encrypt → reserve → PUT upload flow.
+ * Link-scoped uploads (threads) are claimed by the message that lists them;
+ * room-scoped uploads need the participant's anonymous_id.
+ */
+
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import apiClient from '../utils/api-client';
+import { endpoints } from '../config/api-endpoints';
+import { encryptFile, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS, type AttachmentRef } from '../utils/attachments';
+
+export type AttachmentScope =
+  | { link_id: string }
+  | { room_id: string; anonymous_id: string };
+
+interface UploadTicket {
+  attachment_id: string;
+  upload_url: string;
+}
+
+async function uploadFile(file: File, scope: AttachmentScope): Promise<AttachmentRef> {
+  const { ciphertext, key, iv } = await encryptFile(await file.arrayBuffer());
+
+  const res = await apiClient.post(endpoints.public.attachments(), {
+    ...scope,
+    size_bytes: ciphertext.byteLength,
+  });
+  const ticket = res.data.data as UploadTicket;
+
+  // Straight to the object store; the presigned URL is the only auth
+  const put = await fetch(ticket.upload_url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: ciphertext,
+  });
+  if (!put.ok) throw new Error(`Upload failed (${put.status})`);
+
+  return {
+    id: ticket.attachment_id,
+    key,
+    iv,
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+  };
+}
+
+export function useAttachments() {
+  const [files, setFiles] = useState<File[]>([]);
+
+  const addFiles = useCallback((picked: FileList | File[]) => {
+    const accepted = [...picked].filter((f) => {
+      if (f.size > MAX_ATTACHMENT_BYTES) {
+        toast.error(`${f.name} is larger than 10 MB`);
+        return false;
+      }
+      return f.size > 0;
+    });
+    setFiles((prev) => {
+      const next = [...prev, ...accepted];
+      if (next.length > MAX_ATTACHMENTS) toast.error(`Up to ${MAX_ATTACHMENTS} files per message`);
+      return next.slice(0, MAX_ATTACHMENTS);
+    });
+  }, []);
+
+  const removeFile = useCallback((index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const clearFiles = useCallback(() => setFiles([]), []);
+
+  /** Encrypt and upload the pending files; resolves to refs for the message envelope */
+  const uploadFiles = useCallback(
+    (scope: AttachmentScope): Promise<AttachmentRef[]> => Promise.all(files.map((f) => uploadFile(f, scope))),
+    [files],
+  );
+
+  return { files, addFiles, removeFile, clearFiles, uploadFiles };
+}
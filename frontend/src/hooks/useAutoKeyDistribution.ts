@@ -6,12 +6,11 @@
 
 import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { toast } from 'sonner';
-import apiClient from '../utils/api-client';
 import { endpoints } from '../config/api-endpoints';
 import { getAccessToken } from '../config/cognito-config';
 import { getAllRoomKeys, RoomKeyData } from '../utils/key-store';
 import { isVaultConfigured, isVaultUnlocked } from '../utils/key-vault';
-import { wrapGroupKey } from '../utils/room-e2ee';
+import { distributePendingKeys } from '../utils/room-key-distribution';
 import { useAppSyncMultiChannelEvents } from './useAppSyncEvents';
 
 interface KeyNeededEvent {
@@ -23,13 +22,6 @@ interface KeyNeededEvent {
   timestamp: number;
 }
 
-interface ParticipantNeedingKey {
-  participant_id: string;
-  anonymous_id: string;
-  display_name?: string;
-  public_key: string;
-}
-
 // Fallback polling interval (much longer since we have real-time events)
 const FALLBACK_POLL_INTERVAL = 30000; // 30 seconds
 
@@ -69,7 +61,7 @@ export function useAutoKeyDistribution() {
     return Array.from(roomKeys.keys()).map((roomId) => `rooms/room/${roomId}`);
   }, [roomKeys]);
 
-  // Handle real-time key needed event from AppSync
+  // Handle real-time key needed event from AppSync: claim and fill the room's whole backlog
   const handleKeyNeededEvent = useCallback(async (data: unknown, _channel: string) => {
     const event = data as KeyNeededEvent;
     console.info('[AutoKeyDist] Real-time key request received:', event.room_id, event.participant_id);
@@ -84,31 +76,16 @@ export function useAutoKeyDistribution() {
       const token = await getAccessToken();
       if (!token) return;
 
-      const publicKey = (event.public_key ?? '').trim();
-      if (!publicKey) {
-        console.error('[AutoKeyDist] Event has no public_key');
-        toast.error('Key distribution failed: invalid participant key');
-        return;
+      const count = await distributeKeysForRoom(event.room_id, keyData, token);
+      if (count > 0) {
+        console.info(`[AutoKeyDist] Distributed ${count} key(s) in room ${event.room_id}`);
+        toast.success(count === 1
+          ? `Key distributed to ${event.display_name || 'participant'}`
+          : `Keys distributed to ${count} participants`);
       }
-
-      console.debug(`[AutoKeyDist] Wrapping key for ${event.participant_id}`);
-      const wrappedKey = await wrapGroupKey(
-        keyData.groupKey,
-        keyData.privateKeyJwk,
-        publicKey
-      );
-
-      await apiClient.post(
-        endpoints.dashboard.roomSetKey(event.room_id, event.participant_id),
-        { wrapped_group_key: wrappedKey },
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
-
-      console.info(`[AutoKeyDist] Successfully distributed key to ${event.participant_id}`);
-      toast.success(`Key distributed to ${event.display_name || 'participant'}`);
     } catch (err: unknown) {
       const error = err as { response?: { status?: number; data?: unknown }; message?: string };
-      console.error(`[AutoKeyDist] Failed to wrap/set key:`, error);
+      console.error(`[AutoKeyDist] Failed to wrap/set keys:`, error);
       toast.error(
         error.response?.data != null
           ? `Key distribution failed: ${JSON.stringify(error.response.data)}`
@@ -134,7 +111,11 @@ export function useAutoKeyDistribution() {
       if (keys.size === 0) return;
 
       for (const [roomId, keyData] of keys) {
-        await distributeKeysForRoom(roomId, keyData, token);
+        try {
+          await distributeKeysForRoom(roomId, keyData, token);
+        } catch (err) {
+          console.debug(`[AutoKeyDist] Room ${roomId} check failed:`, err);
+        }
       }
     } catch (err) {
       console.debug('[AutoKeyDist] Fallback poll failed:', err);
@@ -161,45 +142,10 @@ export function useAutoKeyDistribution() {
   }, [distributeKeysFallback]);
 }
 
-async function distributeKeysForRoom(
-  roomId: string,
-  keyData: RoomKeyData,
-  token: string
-): Promise<void> {
-  try {
-    const response = await apiClient.get(endpoints.dashboard.roomNeedsKeys(roomId), {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-
-    const participants: ParticipantNeedingKey[] =
-      response.data?.data?.participants ?? response.data?.participants ?? [];
-    if (participants.length === 0) return;
-
-    for (const participant of participants) {
-      try {
-        const publicKey = (participant.public_key ?? '').trim();
-        if (!publicKey) {
-          console.error(`[AutoKeyDist] Participant ${participant.participant_id} has no public_key`);
-          continue;
-        }
-        const wrappedKey = await wrapGroupKey(
-          keyData.groupKey,
-          keyData.privateKeyJwk,
-          publicKey
-        );
-
-        await apiClient.post(
-          endpoints.dashboard.roomSetKey(roomId, participant.participant_id),
-          { wrapped_group_key: wrappedKey },
-          { headers: { Authorization: `Bearer ${token}` } }
-        );
-
-        console.debug(`[AutoKeyDist] Fallback: distributed key to ${participant.participant_id}`);
-      } catch (wrapErr) {
-        console.error(`[AutoKeyDist] Failed to wrap/set key for ${participant.participant_id}:`, wrapErr);
-      }
-    }
-  } catch (err) {
-    console.debug(`[AutoKeyDist] Room ${roomId} check failed:`, err);
-  }
+function distributeKeysForRoom(roomId: string, keyData: RoomKeyData, token: string): Promise<number> {
+  return distributePendingKeys(keyData, {
+    needsKeys: endpoints.dashboard.roomNeedsKeys(roomId),
+    setKeys: endpoints.dashboard.roomSetKeys(roomId),
+    config: { headers: { Authorization: `Bearer ${token}` } },
+  });
 }
@@ -0,0 +1,110 @@
+/**
+ * Auto Responder Hook
+ * Owner-client job for link auto-replies. The API flags a thread when a
+ * sender message is due the link's auto-reply; on the link's AppSync event
+ * (or the fallback poll) this opens the reply text with the link key,
+ * encrypts it to the thread's sender and posts it. The server only ever
+ * sees ciphertext, and when several devices race only one reply is sent.
+ */
+
+import { useEffect, useRef, useCallback, useMemo } from 'react';
+import apiClient from '../utils/api-client';
+import { endpoints } from '../config/api-endpoints';
+import { getAccessToken } from '../config/cognito-config';
+import { decrypt } from '../utils/e2ee';
+import { encryptOwnerReply } from '../utils/thread-ratchet';
+import { getLinkKey, saveReplyPlaintext } from '../utils/key-store';
+import { useAppSyncMultiChannelEvents } from './useAppSyncEvents';
+import type { Link, PendingAutoReply } from '../types';
+
+// Safety net for missed events (threads stay flagged until someone sends)
+const FALLBACK_POLL_INTERVAL = 30000; // 30 seconds
+
+export function useAutoResponder(links: Link[]): void {
+  const runningRef = useRef(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const sendPending = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const count = await sendPendingAutoReplies(token);
+      if (count > 0) console.info(`[AutoResponder] Sent ${count} auto-repl${count === 1 ? 'y' : 'ies'}`);
+    } catch (err) {
+      console.debug('[AutoResponder] Pending check failed:', err);
+    } finally {
+      runningRef.current = false;
+    }
+  }, []);
+
+  const linkChannels = useMemo(
+    () => links.filter((l) => !l.burned).map((l) => `messages/link/${l.link_id.replace(/_/g, '-')}`),
+    [links]
+  );
+
+  // Only sender messages can be due an auto-reply
+  const handleMessageEvent = useCallback((data: unknown) => {
+    if ((data as { sender_type?: string } | null)?.sender_type !== 'anonymous') return;
+    void sendPending();
+  }, [sendPending]);
+
+  useAppSyncMultiChannelEvents(linkChannels, handleMessageEvent);
+
+  useEffect(() => {
+    const poll = () => {
+      void sendPending();
+      timeoutRef.current = setTimeout(poll, FALLBACK_POLL_INTERVAL);
+    };
+
+    // Start after initial delay to let AppSync connect first
+    timeoutRef.current = setTimeout(poll, 5000);
+
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+    };
+  }, [sendPending]);
+}
+
+/**
+ * Send every flagged thread's auto-reply this device can open (it needs the
+ * link key, so links whose key lives elsewhere or behind a locked vault are
+ * left for another device). Returns how many were sent.
+ */
+async function sendPendingAutoReplies(token: string): Promise<number> {
+  const config = { headers: { Authorization: `Bearer ${token}` } };
+  const response = await apiClient.get(endpoints.dashboard.autoRepliesPending(), config);
+  const pending: PendingAutoReply[] = response.data.data ?? [];
+
+  const templates = new Map<string, string>();
+  let sent = 0;
+  for (const item of pending) {
+    if (!item.sender_public_key) continue;
+    try {
+      let plaintext = templates.get(item.link_id);
+      if (plaintext === undefined) {
+        const linkKey = await getLinkKey(item.link_id);
+        if (!linkKey) continue;
+        plaintext = await decrypt(item.template_ciphertext, linkKey);
+        templates.set(item.link_id, plaintext);
+      }
+
+      const ciphertext = await encryptOwnerReply(item.thread_id, item.sender_public_key, plaintext);
+      const result = await apiClient.post(endpoints.dashboard.threadAutoReply(item.thread_id), { ciphertext }, config);
+      const { sent: delivered, message_id } = result.data.data ?? {};
+      if (delivered && message_id) {
+        // Replies are encrypted to the sender, so keep our own copy readable
+        await saveReplyPlaintext(item.thread_id, message_id, plaintext);
+        sent += 1;
+      }
+    } catch (err) {
+      console.debug(`[AutoResponder] Thread ${item.thread_id} failed:`, err);
+    }
+  }
+  return sent;
+}
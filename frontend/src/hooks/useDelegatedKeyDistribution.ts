@@ -0,0 +1,52 @@
+/**
+ * Delegated Key Distribution Hook
+ * Lets a member the creator delegated to hand newcomers their group key, so
+ * large auto-approve rooms don't depend on the creator being online.
+ * Members without the right get 403 and check back less often.
+ */
+
+import { useEffect } from 'react';
+import axios from 'axios';
+import { endpoints } from '../config/api-endpoints';
+import { getRoomKey } from '../utils/key-store';
+import { distributePendingKeys } from '../utils/room-key-distribution';
+
+const POLL_INTERVAL = 10000; // 10 seconds while delegated
+const NOT_DELEGATED_INTERVAL = 60000; // Delegation can be granted at any time
+
+export function useDelegatedKeyDistribution(roomId: string): void {
+  useEffect(() => {
+    if (!roomId) return;
+    let cancelled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      let delay = POLL_INTERVAL;
+      try {
+        // Re-read each time: a rotation replaces the stored key
+        const keys = await getRoomKey(roomId);
+        if (!keys || keys.isCreator) return; // The creator distributes from the dashboard
+
+        const count = await distributePendingKeys(keys, {
+          needsKeys: endpoints.public.roomNeedsKeys(roomId),
+          setKeys: endpoints.public.roomSetKeys(roomId),
+          anonymousId: keys.anonymousId,
+        });
+        if (count > 0) console.info(`[DelegatedKeyDist] Distributed ${count} key(s)`);
+      } catch (err) {
+        const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+        if (status === 404) return; // Room is gone
+        if (status === 403) delay = NOT_DELEGATED_INTERVAL;
+        else console.debug('[DelegatedKeyDist] Poll failed:', err);
+      }
+
+      if (!cancelled) timeoutId = setTimeout(poll, delay);
+    };
+
+    timeoutId = setTimeout(poll, 2000);
+    return () => {
+      cancelled = true;
+      if (timeoutId) clearTimeout(timeoutId);
+    };
+  }, [roomId]);
+}
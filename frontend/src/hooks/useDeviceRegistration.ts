@@ -0,0 +1,38 @@
+/**
+ * Device Registration Hook
+ * Registers this browser as one of the owner's devices when the dashboard
+ * opens (once; the id is kept in localStorage and sent as X-Device-Id, see
+ * api-client.ts), and handles revocation: when the API answers
+ * DEVICE_REVOKED, every local key is wiped and the owner signed out.
+ */
+
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { onDeviceRevoked, ensureDeviceId } from '../utils/api-client';
+import { getAccessToken, signOut } from '../config/cognito-config';
+import { getDeviceId, wipeLocalKeys } from '../utils/device-link';
+
+export function useDeviceRegistration(): void {
+  useEffect(() => {
+    let revoked = false;
+    onDeviceRevoked(() => {
+      if (revoked) return;
+      revoked = true;
+      toast.error('This device was revoked. Local keys have been removed.');
+      wipeLocalKeys()
+        .catch((err) => console.error('[Devices] Failed to wipe keys:', err))
+        .finally(async () => {
+          await signOut().catch(() => {});
+          setTimeout(() => window.location.reload(), 1500);
+        });
+    });
+
+    if (!getDeviceId()) {
+      getAccessToken()
+        .then((token) => token && ensureDeviceId(`Bearer ${token}`))
+        .catch((err) => console.debug('[Devices] Registration failed:', err));
+    }
+
+    return () => onDeviceRevoked(null);
+  }, []);
+}
@@ -12,10 +12,12 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import axios from 'axios';
+import { toast } from 'sonner';
 import apiClient from '../utils/api-client';
 import { endpoints } from '../config/api-endpoints';
 import { getAccessToken } from '../config/cognito-config';
 import { useAppSyncMultiChannelEvents } from './useAppSyncEvents';
+import { pruneLinks, removeThreadFromIndex } from '../utils/search-index';
 import type { Link } from '../types';
 
 // Fallback polling intervals (much longer since AppSync is primary)
@@ -38,6 +40,7 @@ export const useMessagePolling = (): MessagePollingResult => {
 
   // Track link IDs for AppSync subscriptions
   const linkIdsRef = useRef<string[]>([]);
+  const linkNamesRef = useRef<Map<string, string>>(new Map());
 
   // Fetch full link data
   const fetchLinks = useCallback(async (signal?: AbortSignal) => {
@@ -53,6 +56,15 @@ export const useMessagePolling = (): MessagePollingResult => {
 
       // Update link IDs for subscriptions
       linkIdsRef.current = fetchedLinks.map((l) => l.link_id);
+      linkNamesRef.current = new Map(fetchedLinks.map((l) => [l.link_id, l.display_name]));
+
+      // Burned/deleted links: drop their threads from the local search index
+      // (only when the page holds every link, or older ones would look deleted)
+      const total: number | undefined = response.data.pagination?.total;
+      if (total !== undefined && fetchedLinks.length >= total) {
+        void pruneLinks(fetchedLinks.filter((l) => !l.burned).map((l) => l.link_id))
+          .catch((err) => console.error('Failed to prune search index:', err));
+      }
     } catch (error) {
       if (!axios.isCancel(error)) {
         console.error('Failed to fetch links:', error);
@@ -76,6 +88,21 @@ export const useMessagePolling = (): MessagePollingResult => {
     }
     if (!linkId) return;
 
+    // Wrong-passphrase alerts share the channel but are not new messages
+    const { alert, thread_id: threadId } = (data as { alert?: string; thread_id?: string } | null) ?? {};
+    if (alert) {
+      if (alert === 'thread_burned' && threadId) {
+        void removeThreadFromIndex(linkId, threadId)
+          .catch((err) => console.error('Failed to prune search index:', err));
+      }
+      const name = linkNamesRef.current.get(linkId) ?? 'one of your links';
+      toast.warning(alert === 'thread_burned'
+        ? `A conversation on ${name} was destroyed after too many wrong passphrases.`
+        : `Someone is guessing the passphrase for ${name}; it is temporarily locked.`);
+      void fetchLinks();
+      return;
+    }
+
     console.info('[MessagePolling] Real-time message event for link:', linkId);
 
     // Mark link as having new messages
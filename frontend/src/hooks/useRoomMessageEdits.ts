@@ -0,0 +1,62 @@
+/**
+ * useRoomMessageEdits Hook
+ * Edit, unsend and re-read single room messages, swapping the result into an
+ * already-loaded message list. Used by the dashboard room window and by
+ * useRoomPolling (participant room page).
+ */
+
+import { useCallback, type Dispatch, type SetStateAction } from 'react';
+import type { RoomKeyData } from '../utils/key-store';
+import {
+  decryptRoomMessage, replaceRoomMessage, fetchRoomMessage, editRoomMessage, deleteRoomMessage,
+  isRoomMessageChange, type DecryptedRoomMessage,
+} from '../utils/room-messages';
+
+interface UseRoomMessageEditsResult {
+  /** Re-read a message after an edit/delete event or action */
+  refreshMessage: (messageId: string, keys?: RoomKeyData) => Promise<void>;
+  /** Handle an AppSync event on the room channel; true if it was an edit/delete */
+  handleChangeEvent: (data: unknown) => boolean;
+  /** Resolves with the keys used (rotated ones if the epoch was stale) */
+  editMessage: (message: DecryptedRoomMessage, text: string) => Promise<RoomKeyData>;
+  deleteMessage: (message: DecryptedRoomMessage) => Promise<void>;
+}
+
+export function useRoomMessageEdits(
+  roomId: string,
+  roomKeys: RoomKeyData | null,
+  setMessages: Dispatch<SetStateAction<DecryptedRoomMessage[]>>,
+  refreshKeys: (keys: RoomKeyData) => Promise<RoomKeyData | null>
+): UseRoomMessageEditsResult {
+  const refreshMessage = useCallback(async (messageId: string, keys: RoomKeyData | null = roomKeys) => {
+    if (!keys) return;
+    try {
+      const updated = await fetchRoomMessage(roomId, messageId, keys.anonymousId);
+      const decrypted = await decryptRoomMessage(updated, keys);
+      setMessages((prev) => replaceRoomMessage(prev, decrypted));
+    } catch (err) {
+      console.error('Failed to refresh message:', err);
+    }
+  }, [roomId, roomKeys, setMessages]);
+
+  const handleChangeEvent = useCallback((data: unknown) => {
+    if (!isRoomMessageChange(data)) return false;
+    void refreshMessage(data.message_id);
+    return true;
+  }, [refreshMessage]);
+
+  const editMessage = useCallback(async (message: DecryptedRoomMessage, text: string) => {
+    if (!roomKeys) throw new Error('Room keys not loaded');
+    const keys = await editRoomMessage(roomId, message, text, roomKeys, refreshKeys);
+    await refreshMessage(message.message_id, keys);
+    return keys;
+  }, [roomId, roomKeys, refreshKeys, refreshMessage]);
+
+  const deleteMessage = useCallback(async (message: DecryptedRoomMessage) => {
+    if (!roomKeys) throw new Error('Room keys not loaded');
+    await deleteRoomMessage(roomId, message.message_id, roomKeys.anonymousId);
+    await refreshMessage(message.message_id);
+  }, [roomId, roomKeys, refreshMessage]);
+
+  return { refreshMessage, handleChangeEvent, editMessage, deleteMessage };
+}
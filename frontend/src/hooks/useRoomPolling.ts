@@ -2,26 +2,26 @@
  * useRoomPolling Hook
  * Subscribes to room messages via AppSync Events with polling fallback.
  * AppSync provides near-instant message delivery; polling is a safety net.
+ * Edit/unsend events re-read just the changed message.
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import apiClient from '../utils/api-client';
 import { endpoints } from '../config/api-endpoints';
-import { getRoomKey, RoomKeyData } from '../utils/key-store';
-import { decryptGroupMessage } from '../utils/room-e2ee';
+import { getRoomKey, saveRoomKey, RoomKeyData } from '../utils/key-store';
+import { currentEpoch, applyKeyStatus, isStaleEpochError } from '../utils/room-epochs';
+import { decryptRoomMessage, type DecryptedRoomMessage } from '../utils/room-messages';
 import { useAppSyncEvents } from './useAppSyncEvents';
-import type { RoomMessage } from '../types';
-
-interface DecryptedMessage extends RoomMessage {
-  plaintext: string;
-  isOwn: boolean;
-}
+import { useRoomMessageEdits } from './useRoomMessageEdits';
+import type { RoomMessage, ParticipantStatus } from '../types';
 
 interface UseRoomPollingResult {
-  messages: DecryptedMessage[];
+  messages: DecryptedRoomMessage[];
   loading: boolean;
   error: string | null;
-  sendMessage: (plaintext: string) => Promise<void>;
+  sendMessage: (plaintext: string, attachmentIds?: string[]) => Promise<void>;
+  editMessage: (message: DecryptedRoomMessage, text: string) => Promise<void>;
+  deleteMessage: (message: DecryptedRoomMessage) => Promise<void>;
   refresh: () => Promise<void>;
 }
 
@@ -29,7 +29,7 @@ export function useRoomPolling(
   roomId: string,
   pollIntervalMs: number = 3000
 ): UseRoomPollingResult {
-  const [messages, setMessages] = useState<DecryptedMessage[]>([]);
+  const [messages, setMessages] = useState<DecryptedRoomMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [roomKeys, setRoomKeys] = useState<RoomKeyData | null>(null);
@@ -59,6 +59,21 @@ export function useRoomPolling(
     };
   }, [roomId]);
 
+  // Pick up a rotated group key: participants re-fetch their wrap, the creator re-reads the vault
+  const refreshKeys = useCallback(async (keys: RoomKeyData): Promise<RoomKeyData> => {
+    if (keys.isCreator) return (await getRoomKey(roomId)) || keys;
+
+    const response = await apiClient.get(
+      `${endpoints.public.roomStatus(roomId)}?anonymous_id=${keys.anonymousId}`
+    );
+    const status: ParticipantStatus = response.data?.data ?? response.data;
+    if (status.status !== 'approved') throw new Error('No longer a member of this room');
+
+    const next = await applyKeyStatus(keys, status);
+    await saveRoomKey(roomId, next);
+    return next;
+  }, [roomId]);
+
   // Fetch and decrypt messages using cursor-based pagination
   const fetchMessages = useCallback(async () => {
     if (!roomKeys) return;
@@ -88,31 +103,17 @@ export function useRoomPolling(
         return;
       }
 
-      // Decrypt messages
-      const decrypted: DecryptedMessage[] = await Promise.all(
-        rawMessages.map(async (msg) => {
-          try {
-            const plaintext = await decryptGroupMessage(
-              msg.ciphertext,
-              msg.nonce,
-              roomKeys.groupKey
-            );
-            return {
-              ...msg,
-              plaintext,
-              isOwn: msg.anonymous_id === roomKeys.anonymousId,
-            };
-          } catch {
-            return {
-              ...msg,
-              plaintext: '[Decryption failed]',
-              isOwn: false,
-            };
-          }
-        })
-      );
+      // A message from a newer key epoch means the key rotated — fetch it before decrypting
+      let keys = roomKeys;
+      if (rawMessages.some((msg) => (msg.key_epoch ?? 0) > currentEpoch(keys))) {
+        keys = await refreshKeys(keys);
+      }
+
+      // Decrypt messages (tombstones of unsent ones stay blank)
+      const decrypted = await Promise.all(rawMessages.map((msg) => decryptRoomMessage(msg, keys)));
 
       if (!isMountedRef.current) return;
+      if (keys !== roomKeys) setRoomKeys(keys);
 
       if (cursor) {
         // Append new messages (cursor-based pagination already ensures no duplicates)
@@ -146,14 +147,19 @@ export function useRoomPolling(
         void fetchMessages();
       }
     }
-  }, [roomId, roomKeys]);
+  }, [roomId, roomKeys, refreshKeys]);
+
+  const { handleChangeEvent, editMessage: editWithKeys, deleteMessage } =
+    useRoomMessageEdits(roomId, roomKeys, setMessages, refreshKeys);
 
   // Subscribe to AppSync Events for real-time message notifications
   // When a new message event arrives, fetch immediately instead of waiting for poll
-  const handleMessageEvent = useCallback(() => {
-    // Event received means new message — trigger fetch immediately
+  const handleMessageEvent = useCallback((data: unknown) => {
+    // Edit/unsend: re-read that message. Always fetch new ones too, since
+    // debouncing may have folded a new-message event into this one.
+    handleChangeEvent(data);
     void fetchMessages();
-  }, [fetchMessages]);
+  }, [fetchMessages, handleChangeEvent]);
 
   // AppSync channel for room messages: /rooms/messages/{roomId}
   const messageChannel = roomKeys ? `rooms/messages/${roomId}` : null;
@@ -184,27 +190,45 @@ export function useRoomPolling(
 
   // Send message function
   const sendMessage = useCallback(
-    async (plaintext: string) => {
+    async (plaintext: string, attachmentIds?: string[]) => {
       if (!roomKeys) {
         throw new Error('Room keys not loaded');
       }
 
       const { encryptGroupMessage } = await import('../utils/room-e2ee');
-      const { ciphertext, nonce } = await encryptGroupMessage(
-        plaintext,
-        roomKeys.groupKey
-      );
-
-      await apiClient.post(endpoints.public.roomMessages(roomId), {
-        anonymous_id: roomKeys.anonymousId,
-        ciphertext,
-        nonce,
-      });
+      const post = async (keys: RoomKeyData) => {
+        const { ciphertext, nonce } = await encryptGroupMessage(plaintext, keys.groupKey);
+        await apiClient.post(endpoints.public.roomMessages(roomId), {
+          anonymous_id: keys.anonymousId,
+          ciphertext,
+          nonce,
+          key_epoch: currentEpoch(keys),
+          ...(attachmentIds?.length ? { attachment_ids: attachmentIds } : {}),
+        });
+      };
+
+      try {
+        await post(roomKeys);
+      } catch (err) {
+        // Key rotated since we loaded it: re-encrypt once under the new key
+        if (!isStaleEpochError(err)) throw err;
+        const keys = await refreshKeys(roomKeys);
+        setRoomKeys(keys);
+        await post(keys);
+      }
 
       // Fetch new messages immediately after sending
       await fetchMessages();
     },
-    [roomId, roomKeys, fetchMessages]
+    [roomId, roomKeys, fetchMessages, refreshKeys]
+  );
+
+  const editMessage = useCallback(
+    async (message: DecryptedRoomMessage, text: string) => {
+      const keys = await editWithKeys(message, text);
+      if (keys !== roomKeys) setRoomKeys(keys);
+    },
+    [editWithKeys, roomKeys]
   );
 
   const refresh = useCallback(async () => {
@@ -216,6 +240,8 @@ export function useRoomPolling(
     loading,
     error,
     sendMessage,
+    editMessage,
+    deleteMessage,
     refresh,
   };
 }
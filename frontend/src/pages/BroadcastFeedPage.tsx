@@ -1,6 +1,10 @@
 /**
  * Broadcast Feed Page
- * Public read-only feed at /b/:channelId — no auth
+ * Public read-only feed at /b/:channelId — no auth. Pinned posts come first;
+ * edits, deletes and pins arrive as channel events and trigger a refetch.
+ * Guest posts carry a per-channel posting key kept in this browser, so an
+ * owner who trusts the author can let later posts skip review. Public-feed
+ * channels are plaintext, need no fragment key and link their feeds.
  */
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
@@ -10,7 +14,9 @@ import { toast } from 'sonner';
 import apiClient from '../utils/api-client';
 import { endpoints } from '../config/api-endpoints';
 import { aimTheme } from '../theme/aim-theme';
-import { extractKeyFromFragment, decryptBroadcast, encryptBroadcast } from '../utils/broadcast-e2ee';
+import {
+  extractKeyFromFragment, decryptBroadcast, encryptBroadcast, generateBroadcastKey,
+} from '../utils/broadcast-e2ee';
 import { useAppSyncEvents } from '../hooks/useAppSyncEvents';
 import { Button98 } from '../components/aim-ui/Button98';
 import { CharCounter } from '../components/aim-ui/CharCounter';
@@ -43,8 +49,8 @@ const PostList = styled.div`
   gap: ${aimTheme.spacing.md};
 `;
 
-const Post = styled.div`
-  background: ${aimTheme.colors.white};
+const Post = styled.div<{ $pinned?: boolean }>`
+  background: ${(p) => (p.$pinned ? aimTheme.colors.lightYellow : aimTheme.colors.white)};
   box-shadow: var(--border-field);
   border: none;
   padding: ${aimTheme.spacing.md};
@@ -92,6 +98,15 @@ const PostTextArea = styled.textarea`
   }
 `;
 
+const FeedLinks = styled.div`
+  font-size: ${aimTheme.fonts.size.small};
+  margin: -${aimTheme.spacing.sm} 0 ${aimTheme.spacing.md};
+
+  & > a {
+    margin-right: ${aimTheme.spacing.md};
+  }
+`;
+
 const PostFormFooter = styled.div`
   display: flex;
   justify-content: space-between;
@@ -99,6 +114,21 @@ const PostFormFooter = styled.div`
 `;
 
 const POST_MAX_LENGTH = 10000;
+const GUEST_KEYS_STORAGE = 'bw:bc:guestKeys';
+
+/** This browser's posting key for a channel, created on first guest post */
+async function getGuestPostingKey(channelId: string): Promise<string | undefined> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_KEYS_STORAGE) || '{}');
+    if (!stored[channelId]) {
+      stored[channelId] = await generateBroadcastKey();
+      localStorage.setItem(GUEST_KEYS_STORAGE, JSON.stringify(stored));
+    }
+    return stored[channelId];
+  } catch {
+    return undefined;
+  }
+}
 
 // Post with decrypted content for display
 interface DecryptedPost extends BroadcastPost {
@@ -112,7 +142,9 @@ export const BroadcastFeedPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [guestPostsAllowed, setGuestPostsAllowed] = useState(false);
+  const [guestPostsModerated, setGuestPostsModerated] = useState(false);
   const [channelName, setChannelName] = useState('');
+  const [publicFeed, setPublicFeed] = useState(false);
   const [newPostContent, setNewPostContent] = useState('');
   const [posting, setPosting] = useState(false);
 
@@ -131,16 +163,19 @@ export const BroadcastFeedPage: React.FC = () => {
       });
       const responseData = response.data.data ?? response.data;
       const rawPosts: BroadcastPost[] = responseData?.posts ?? [];
+      const plaintext = Boolean(responseData?.channel?.public_feed);
       if (responseData?.channel) {
         setGuestPostsAllowed(responseData.channel.allow_guest_posts ?? false);
+        setGuestPostsModerated(responseData.channel.moderate_guest_posts ?? false);
         setChannelName(responseData.channel.display_name ?? '');
+        setPublicFeed(plaintext);
       }
 
       // Decrypt posts if we have a key
       const decryptedPosts = await Promise.all(
         rawPosts.map(async (post): Promise<DecryptedPost> => {
-          if (!encryptionKey) {
-            // No key - show ciphertext indicator
+          if (plaintext || !encryptionKey) {
+            // Public feed is plaintext; otherwise no key - show ciphertext indicator
             return { ...post, decryptedContent: post.content, decryptionFailed: false };
           }
           try {
@@ -173,14 +208,24 @@ export const BroadcastFeedPage: React.FC = () => {
 
   const handleGuestPost = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newPostContent.trim() || !encryptionKey || !channelId) return;
+    if (!newPostContent.trim() || !(encryptionKey || publicFeed) || !channelId) return;
     setPosting(true);
     try {
-      const encrypted = await encryptBroadcast(newPostContent.trim(), encryptionKey);
-      await apiClient.post(endpoints.public.broadcastAddPost(channelId), { content: encrypted });
-      toast.success('Post added');
+      const encrypted = publicFeed || !encryptionKey
+        ? newPostContent.trim()
+        : await encryptBroadcast(newPostContent.trim(), encryptionKey);
+      const guestKey = await getGuestPostingKey(channelId);
+      const response = await apiClient.post(endpoints.public.broadcastAddPost(channelId), {
+        content: encrypted,
+        ...(guestKey ? { guest_key: guestKey } : {}),
+      });
       setNewPostContent('');
-      await fetchPosts();
+      if (response.data.data?.status === 'pending') {
+        toast.success('Post submitted — it will appear once the channel owner approves it');
+      } else {
+        toast.success('Post added');
+        await fetchPosts();
+      }
     } catch (err: unknown) {
       const status = (err as { response?: { status?: number } })?.response?.status;
       if (status === 429) {
@@ -205,34 +250,34 @@ export const BroadcastFeedPage: React.FC = () => {
     );
   }
 
-  if (!encryptionKey) {
+  if (loading) {
     return (
       <Page>
         <Container>
           <Title>Broadcast feed</Title>
-          <ErrorMsg>Missing decryption key. Make sure you have the full URL including the # fragment.</ErrorMsg>
+          <LoadingMsg>Loading…</LoadingMsg>
         </Container>
       </Page>
     );
   }
 
-  if (loading) {
+  if (error) {
     return (
       <Page>
         <Container>
           <Title>Broadcast feed</Title>
-          <LoadingMsg>Loading…</LoadingMsg>
+          <ErrorMsg>{error}</ErrorMsg>
         </Container>
       </Page>
     );
   }
 
-  if (error) {
+  if (!encryptionKey && !publicFeed) {
     return (
       <Page>
         <Container>
           <Title>Broadcast feed</Title>
-          <ErrorMsg>{error}</ErrorMsg>
+          <ErrorMsg>Missing decryption key. Make sure you have the full URL including the # fragment.</ErrorMsg>
         </Container>
       </Page>
     );
@@ -242,8 +287,20 @@ export const BroadcastFeedPage: React.FC = () => {
     <Page>
       <Container>
         <Title>{channelName || 'Broadcast feed'}</Title>
-        {guestPostsAllowed && encryptionKey && (
+        {publicFeed && (
+          <FeedLinks>
+            {(['atom', 'rss', 'json'] as const).map((format) => (
+              <a key={format} href={`/b/${channelId}/feed.${format}`} target="_blank" rel="noopener noreferrer">
+                {format === 'json' ? 'JSON Feed' : format.toUpperCase()}
+              </a>
+            ))}
+          </FeedLinks>
+        )}
+        {guestPostsAllowed && (encryptionKey || publicFeed) && (
           <PostForm onSubmit={handleGuestPost}>
+            {guestPostsModerated && (
+              <PostTime>The channel owner reviews guest posts before they appear.</PostTime>
+            )}
             <PostTextArea
               placeholder="Add a post…"
               value={newPostContent}
@@ -266,8 +323,12 @@ export const BroadcastFeedPage: React.FC = () => {
             </div>
           )}
           {posts.map((post) => (
-            <Post key={post.post_id}>
-              <PostTime>{new Date(post.created_at).toLocaleString()}</PostTime>
+            <Post key={post.post_id} $pinned={Boolean(post.pinned_at)}>
+              <PostTime>
+                {post.pinned_at && '📌 Pinned · '}
+                {new Date(post.created_at).toLocaleString()}
+                {post.edited_at && ' (edited)'}
+              </PostTime>
               <div style={post.decryptionFailed ? { color: '#c00', fontStyle: 'italic' } : undefined}>
                 {post.decryptedContent}
               </div>
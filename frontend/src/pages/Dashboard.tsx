@@ -10,18 +10,23 @@ import { SkiFreeWindow } from '../components/skifree/SkiFreeWindow';
 import { ThreadsPanel } from '../components/dashboard/ThreadsPanel';
 import { BackupSetupDialog } from '../components/dashboard/BackupSetupDialog';
 import { VaultUnlockDialog } from '../components/dashboard/VaultUnlockDialog';
+import { DevicesDialog } from '../components/dashboard/DevicesDialog';
 import { BroadcastChannelWindow } from '../components/aim-ui/BroadcastChannelWindow';
 import { ConfirmDialog } from '../components/aim-ui/ConfirmDialog';
+import { SearchWindow } from '../components/aim-ui/SearchWindow';
+import { TranscriptViewer } from '../components/aim-ui/TranscriptViewer';
 import { WindowManager } from '../components/aim-ui/WindowManager';
 import { SoundManager } from '../components/aim-ui/SoundManager';
 import { useAIMSounds } from '../hooks/useAIMSounds';
 import { useMessagePolling } from '../hooks/useMessagePolling';
+import { useDeviceRegistration } from '../hooks/useDeviceRegistration';
+import { useAutoResponder } from '../hooks/useAutoResponder';
 import { aimTheme } from '../theme/aim-theme';
-import { signOut, getAccessToken } from '../config/cognito-config';
-import apiClient from '../utils/api-client';
-import { endpoints } from '../config/api-endpoints';
+import { signOut } from '../config/cognito-config';
 import { getAllLinkKeys, hasCleartextKeys } from '../utils/key-store';
 import { isVaultConfigured, isVaultUnlocked, tryRestoreVaultFromSession } from '../utils/key-vault';
+import { hasKeyBackup, syncKeyBackup } from '../utils/key-backup';
+import type { SearchHit } from '../utils/search-match';
 
 const Desktop = styled.div`
   width: 100vw;
@@ -107,6 +112,8 @@ interface OpenChannel {
   readUrl: string;
   postToken?: string;
   encryptionKey?: string;
+  allowGuestPosts?: boolean;
+  publicFeed?: boolean;
 }
 
 export const Dashboard: React.FC = () => {
@@ -115,14 +122,21 @@ export const Dashboard: React.FC = () => {
   const [openChannels, setOpenChannels] = useState<Map<string, OpenChannel>>(new Map());
   const [showStartMenu, setShowStartMenu] = useState(false);
   const [showSkiFree, setShowSkiFree] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [searchFocus, setSearchFocus] = useState<SearchHit | null>(null);
   const [showSignOutConfirm, setShowSignOutConfirm] = useState(false);
   const [showBackupSetup, setShowBackupSetup] = useState(false);
-  const [unbackedLinkIds, setUnbackedLinkIds] = useState<string[]>([]);
+  // A scanned pairing QR lands on /dashboard#pair=CODE
+  const [pairCode, setPairCode] = useState(() => /^#pair=([0-9A-Z]{12})$/i.exec(window.location.hash)?.[1]);
+  const [showDevices, setShowDevices] = useState(() => pairCode !== undefined);
   const [time, setTime] = useState(new Date());
   const [vaultState, setVaultState] = useState<'loading' | 'needs_setup' | 'needs_unlock' | 'unlocked'>('loading');
   const { setMuted, playBuddyOut, playYouvGotMail } = useAIMSounds();
   const { links, loading, newMessageLinkIds, acknowledgeLink, refreshLinks } = useMessagePolling();
   const prevNewIdsRef = useRef<Set<string>>(new Set());
+  useDeviceRegistration();
+  useAutoResponder(links);
 
   React.useEffect(() => {
     const timer = setInterval(() => setTime(new Date()), 1000);
@@ -158,11 +172,11 @@ export const Dashboard: React.FC = () => {
     checkVault();
   }, []);
 
-  // Check if backup setup is needed (once after links load; re-run only when link set changes)
+  // Once links load (and whenever the link set changes): merge new keys into the
+  // account backup, or offer setup if this browser holds keys with no backup at all
   const checkedLinkIdsRef = useRef<string | null>(null);
   useEffect(() => {
     if (loading || links.length === 0) return;
-    if (localStorage.getItem('bw:backup-configured')) return;
 
     const linkIdsKey = links.map((l) => l.link_id).sort().join(',');
     if (checkedLinkIdsRef.current === linkIdsKey) return;
@@ -170,28 +184,13 @@ export const Dashboard: React.FC = () => {
 
     const checkBackup = async () => {
       try {
+        if (localStorage.getItem('bw:backup-configured')) {
+          await syncKeyBackup(); // No-op without the backup key kept under the vault
+          return;
+        }
         const localKeys = await getAllLinkKeys();
         if (localKeys.size === 0) return;
-
-        const token = await getAccessToken();
-        const toCheck = links.filter((l) => localKeys.has(l.link_id));
-        const results = await Promise.allSettled(
-          toCheck.map((link) =>
-            apiClient.get(endpoints.dashboard.keyBackup(link.link_id), {
-              headers: { Authorization: `Bearer ${token}` },
-            })
-          )
-        );
-        const needsBackup: string[] = [];
-        toCheck.forEach((link, i) => {
-          const r = results[i];
-          if (r.status === 'rejected') needsBackup.push(link.link_id);
-          else if (r.status === 'fulfilled' && r.value?.data?.data == null) needsBackup.push(link.link_id);
-        });
-        if (needsBackup.length > 0) {
-          setUnbackedLinkIds(needsBackup);
-          setShowBackupSetup(true);
-        }
+        if (!(await hasKeyBackup())) setShowBackupSetup(true);
       } catch {
         // Non-critical — don't block dashboard
       }
@@ -242,6 +241,11 @@ export const Dashboard: React.FC = () => {
     });
   }, []);
 
+  const handleOpenSearchResult = useCallback((hit: SearchHit) => {
+    setSearchFocus(hit);
+    handleOpenThreads(hit.link_id, hit.link_name);
+  }, [handleOpenThreads]);
+
   const handleCloseThreads = useCallback((linkId: string) => {
     setOpenLinks((prev) => {
       const next = new Map(prev);
@@ -263,10 +267,15 @@ export const Dashboard: React.FC = () => {
     setTimeout(() => window.location.reload(), 500);
   };
 
-  const handleOpenChannel = useCallback((channelId: string, channelName: string, readUrl: string, postToken?: string, encryptionKey?: string) => {
+  const handleOpenChannel = useCallback((
+    channelId: string, channelName: string, readUrl: string, postToken?: string, encryptionKey?: string,
+    allowGuestPosts?: boolean, publicFeed?: boolean,
+  ) => {
     setOpenChannels((prev) => {
       const next = new Map(prev);
-      next.set(channelId, { channelId, channelName, readUrl, postToken, encryptionKey });
+      next.set(channelId, {
+        channelId, channelName, readUrl, postToken, encryptionKey, allowGuestPosts, publicFeed,
+      });
       return next;
     });
   }, []);
@@ -309,7 +318,6 @@ export const Dashboard: React.FC = () => {
 
           {showBackupSetup && (
             <BackupSetupDialog
-              linkIds={unbackedLinkIds}
               onComplete={() => setShowBackupSetup(false)}
               onClose={() => {
                 setShowBackupSetup(false);
@@ -327,6 +335,8 @@ export const Dashboard: React.FC = () => {
               initialX={320 + index * 30}
               initialY={50 + index * 30}
               zIndex={101 + index}
+              focusThreadId={searchFocus?.link_id === ol.linkId ? searchFocus.thread_id : undefined}
+              focusMessageId={searchFocus?.link_id === ol.linkId ? searchFocus.message_id : undefined}
             />
           ))}
 
@@ -338,6 +348,8 @@ export const Dashboard: React.FC = () => {
               readUrl={oc.readUrl}
               postToken={oc.postToken}
               encryptionKey={oc.encryptionKey}
+              allowGuestPosts={oc.allowGuestPosts}
+              publicFeed={oc.publicFeed}
               onClose={() => handleCloseChannel(oc.channelId)}
               initialX={380 + index * 30}
               initialY={80 + index * 30}
@@ -345,6 +357,26 @@ export const Dashboard: React.FC = () => {
             />
           ))}
 
+          {showDevices && (
+            <DevicesDialog
+              initialPairingCode={pairCode}
+              onClose={() => {
+                setShowDevices(false);
+                setPairCode(undefined);
+                if (window.location.hash) window.history.replaceState(null, '', window.location.pathname);
+              }}
+            />
+          )}
+
+          {showSearch && (
+            <SearchWindow
+              onOpenResult={handleOpenSearchResult}
+              onClose={() => setShowSearch(false)}
+            />
+          )}
+
+          {showArchive && <TranscriptViewer onClose={() => setShowArchive(false)} />}
+
           {showSkiFree && (
             <SkiFreeWindow
               onClose={() => setShowSkiFree(false)}
@@ -362,6 +394,7 @@ export const Dashboard: React.FC = () => {
             <TaskbarSeparator />
             <TaskbarButton>My Anonymous Links</TaskbarButton>
             <TaskbarButton>📡 Broadcast ({openChannelsArray.length})</TaskbarButton>
+            <TaskbarButton onClick={() => setShowSearch(true)}>🔍 Find</TaskbarButton>
             <SoundManager muted={soundsMuted} onToggleMute={() => setSoundsMuted(!soundsMuted)} />
             <Clock>{time.toLocaleTimeString()}</Clock>
           </Taskbar>
@@ -404,6 +437,36 @@ export const Dashboard: React.FC = () => {
               >
                 🐕 SkiFree
               </button>
+              <button
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  border: 'none',
+                  background: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+                onClick={() => { setShowDevices(true); setShowStartMenu(false); }}
+                onMouseEnter={(e) => { e.currentTarget.style.background = '#000080'; e.currentTarget.style.color = '#fff'; }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; e.currentTarget.style.color = 'inherit'; }}
+              >
+                💻 Devices
+              </button>
+              <button
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  border: 'none',
+                  background: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+                onClick={() => { setShowArchive(true); setShowStartMenu(false); }}
+                onMouseEnter={(e) => { e.currentTarget.style.background = '#000080'; e.currentTarget.style.color = '#fff'; }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; e.currentTarget.style.color = 'inherit'; }}
+              >
+                📂 Open Archive
+              </button>
               <hr style={{ margin: 0, border: 'none', borderTop: '1px solid #808080', borderBottom: '1px solid #fff' }} />
               <button
                 style={{
@@ -134,7 +134,7 @@ export const RoomJoinPage: React.FC = () => {
             const groupKey = await unwrapGroupKey(
               status.wrapped_group_key,
               keys.privateKeyJwk,
-              joinResult.room_public_key
+              status.wrapper_public_key ?? joinResult.room_public_key
             );
 
             await saveRoomKey(joinResult.room_id, {
@@ -145,6 +145,7 @@ export const RoomJoinPage: React.FC = () => {
               anonymousId: joinResult.anonymous_id,
               watermarkSeed: joinResult.watermark_seed,
               isCreator: false,
+              keyEpoch: status.key_epoch,
             });
 
             sessionStorage.removeItem(`bw:room:${joinResult.room_id}:pending`);
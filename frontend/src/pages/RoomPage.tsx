@@ -10,8 +10,14 @@ import { toast } from 'sonner';
 import { Button98, PrimaryButton } from '../components/aim-ui/Button98';
 import { aimTheme } from '../theme/aim-theme';
 import { useRoomPolling } from '../hooks/useRoomPolling';
+import { useDelegatedKeyDistribution } from '../hooks/useDelegatedKeyDistribution';
 import { getRoomKey } from '../utils/key-store';
 import { embedWatermark } from '../utils/watermark';
+import { encodeMessage, decodeMessage } from '../utils/attachments';
+import type { DecryptedRoomMessage } from '../utils/room-messages';
+import { useAttachments } from '../hooks/useAttachments';
+import { AttachButton, PendingFiles } from '../components/aim-ui/Attachments';
+import { RoomMessageContent, RoomMessageActions, EditingBanner } from '../components/aim-ui/RoomMessageParts';
 
 const PageContainer = styled.div`
   min-height: 100vh;
@@ -148,12 +154,17 @@ export const RoomPage: React.FC = () => {
   const [sending, setSending] = useState(false);
   const [isBlurred, setIsBlurred] = useState(false);
   const [watermarkSeed, setWatermarkSeed] = useState('');
+  const [anonymousId, setAnonymousId] = useState('');
+  const [isCreator, setIsCreator] = useState(false);
+  const [editing, setEditing] = useState<DecryptedRoomMessage | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const sendingRef = useRef(false); // Synchronous guard against race conditions
 
-  const { messages, loading, error, sendMessage } = useRoomPolling(roomId || '');
+  const { messages, loading, error, sendMessage, editMessage, deleteMessage } = useRoomPolling(roomId || '');
+  const { files, addFiles, removeFile, clearFiles, uploadFiles } = useAttachments();
+  useDelegatedKeyDistribution(roomId || '');
 
-  // Load watermark seed
+  // Load watermark seed and participant id (needed for attachment uploads)
   useEffect(() => {
     const loadWatermark = async () => {
       if (!roomId) return;
@@ -161,6 +172,10 @@ export const RoomPage: React.FC = () => {
       if (keys?.watermarkSeed) {
         setWatermarkSeed(keys.watermarkSeed);
       }
+      if (keys?.anonymousId) {
+        setAnonymousId(keys.anonymousId);
+      }
+      setIsCreator(!!keys?.isCreator);
     };
     loadWatermark();
   }, [roomId]);
@@ -181,26 +196,60 @@ export const RoomPage: React.FC = () => {
 
   const handleSend = useCallback(async () => {
     // Use ref for synchronous check (state updates are async)
-    if (!inputText.trim() || sendingRef.current) return;
+    if ((!inputText.trim() && files.length === 0) || sendingRef.current) return;
 
     sendingRef.current = true;
     setSending(true);
     try {
-      await sendMessage(inputText.trim());
+      if (editing) {
+        await editMessage(editing, inputText.trim());
+        setEditing(null);
+        setInputText('');
+        return;
+      }
+
+      const refs = files.length > 0 && roomId
+        ? await uploadFiles({ room_id: roomId, anonymous_id: anonymousId })
+        : [];
+      await sendMessage(encodeMessage(inputText.trim(), refs), refs.map((r) => r.id));
       setInputText('');
+      clearFiles();
     } catch (err) {
       console.error('Send error:', err);
-      toast.error('Failed to send message');
+      toast.error(editing ? 'Failed to edit message' : 'Failed to send message');
     } finally {
       sendingRef.current = false;
       setSending(false);
     }
-  }, [inputText, sendMessage]);
+  }, [inputText, files, roomId, anonymousId, editing, uploadFiles, sendMessage, editMessage, clearFiles]);
+
+  const startEdit = (msg: DecryptedRoomMessage) => {
+    setEditing(msg);
+    setInputText(decodeMessage(msg.plaintext).text);
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setInputText('');
+  };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && editing) {
+      cancelEdit();
+    }
+  };
+
+  const handleDelete = async (msg: DecryptedRoomMessage) => {
+    if (!window.confirm('Delete this message for everyone in the room?')) return;
+    try {
+      await deleteMessage(msg);
+      if (editing?.message_id === msg.message_id) cancelEdit();
+    } catch (err) {
+      console.error('Delete error:', err);
+      toast.error('Failed to delete message');
     }
   };
 
@@ -261,8 +310,9 @@ export const RoomPage: React.FC = () => {
                 <MessageSender>
                   {msg.display_name || 'Anonymous'}
                   <MessageTime>{formatTime(msg.created_at)}</MessageTime>
+                  <RoomMessageActions message={msg} isCreator={isCreator} onEdit={startEdit} onDelete={handleDelete} />
                 </MessageSender>
-                {getDisplayText(msg.plaintext)}
+                <RoomMessageContent message={msg} formatText={getDisplayText} />
               </Message>
             ))
           )}
@@ -271,7 +321,14 @@ export const RoomPage: React.FC = () => {
 
         {isBlurred && <BlurNotice>🔒 Return to this tab to view messages</BlurNotice>}
 
+        <PendingFiles files={files} onRemove={removeFile} />
+        {editing && <EditingBanner onCancel={cancelEdit} />}
         <InputContainer>
+          <AttachButton
+            count={files.length}
+            onAdd={addFiles}
+            disabled={isBlurred || loading || !anonymousId || !!editing}
+          />
           <ChatInput
             type="text"
             value={inputText}
@@ -281,8 +338,11 @@ export const RoomPage: React.FC = () => {
             disabled={isBlurred || loading}
             autoFocus
           />
-          <PrimaryButton onClick={handleSend} disabled={!inputText.trim() || sending || isBlurred}>
-            {sending ? '...' : 'Send'}
+          <PrimaryButton
+            onClick={handleSend}
+            disabled={(!inputText.trim() && (files.length === 0 || !!editing)) || sending || isBlurred}
+          >
+            {sending ? '...' : editing ? 'Save' : 'Send'}
           </PrimaryButton>
         </InputContainer>
       </ChatContainer>
@@ -9,12 +9,32 @@ export interface BroadcastChannel {
   created_at: string;
   burned: boolean;
   allow_guest_posts: boolean;
+  moderate_guest_posts?: boolean;
+  public_feed?: boolean; // Plaintext posts with Atom/RSS/JSON feeds, no fragment key
 }
 
 export interface BroadcastPost {
   post_id: string;
   content: string;
   created_at: string;
+  edited_at?: string | null;
+  pinned_at?: string | null; // Pinned posts come first
+  author_label?: string | null; // Scoped token that wrote it; owner view only
+  expires_at?: string | null; // Leaves the feed then
+  publish_at?: string | null; // Scheduled posts (owner view) go live then
+}
+
+export type BroadcastTokenScope = 'post' | 'moderate' | 'burn';
+
+/** Named contributor token; the secret itself is shown once at minting */
+export interface BroadcastToken {
+  token_id: string;
+  label: string;
+  scopes: BroadcastTokenScope[];
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  token?: string;
 }
 
 export interface CreateBroadcastChannelResult {
@@ -23,9 +43,25 @@ export interface CreateBroadcastChannelResult {
   post_token: string;
   display_name: string;
   encryption_key?: string; // Client-generated AES-256 key, stored in URL fragment
+  public_feed?: boolean;
 }
 
 export interface BroadcastPostsResponse {
   posts: BroadcastPost[];
-  channel: { display_name: string; allow_guest_posts: boolean; burned: boolean };
+  scheduled?: BroadcastPost[]; // Owner view, first page only
+  channel: {
+    display_name: string;
+    allow_guest_posts: boolean;
+    moderate_guest_posts?: boolean;
+    public_feed?: boolean;
+    burned: boolean;
+  };
+}
+
+/** Owner-only view of guest posts waiting for review */
+export interface BroadcastModerationQueue {
+  posts: Array<{ post_id: string; content: string; created_at: string; has_guest_key: boolean }>;
+  pending: number;
+  moderate_guest_posts: boolean;
+  trusted_guests: number;
 }
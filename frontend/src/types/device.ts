@@ -0,0 +1,31 @@
+/**
+ * Shared types for owner devices and device linking
+ */
+
+export interface Device {
+  device_id: string;
+  name: string;
+  created_at: string;
+  last_seen_at: string;
+  revoked_at: string | null;
+  /** The browser making the request */
+  current: boolean;
+}
+
+export interface DeviceLinkStart {
+  session_id: string;
+  pairing_code: string;
+  expires_at: string;
+}
+
+export type DeviceLinkState =
+  | { status: 'waiting'; expires_at: string }
+  | { status: 'delivered'; bundle: string; sender_device_id: string | null };
+
+/** What the existing device sees when it looks up a pairing code */
+export interface PairingTarget {
+  session_id: string;
+  public_key: string;
+  device_name: string;
+  expires_at: string;
+}
@@ -2,7 +2,7 @@
  * Shared type definitions for BurnWare frontend
  */
 
-export type { Link } from './link';
+export type { Link, LinkPolicy, LinkWebhook, WebhookDelivery, LinkAutoReply, PendingAutoReply } from './link';
 export type { Message } from './message';
 export type { Thread } from './thread';
 export type { StatusType } from './status';
@@ -14,5 +14,11 @@ export type {
   RoomMessage,
   JoinRoomResult,
   ParticipantStatus,
+  ParticipantNeedingKey,
+  NeedsKeysBatch,
 } from './room';
-export type { BroadcastChannel, BroadcastPost, CreateBroadcastChannelResult, BroadcastPostsResponse } from './broadcast';
\ No newline at end of file
+export type {
+  BroadcastChannel, BroadcastPost, CreateBroadcastChannelResult, BroadcastPostsResponse,
+  BroadcastModerationQueue, BroadcastToken, BroadcastTokenScope,
+} from './broadcast';
+export type { Device, DeviceLinkStart, DeviceLinkState, PairingTarget } from './device';
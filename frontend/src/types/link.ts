@@ -2,7 +2,17 @@
  * Shared types for BurnWare links (dashboard / buddy list)
  */
 
-export interface Link {
+/** Owner limits on new threads; a null cap is unlimited */
+export interface LinkPolicy {
+  paused: boolean;
+  max_threads_per_day: number | null;
+  max_threads: number | null;
+  open_hours_start: string | null;
+  open_hours_end: string | null;
+  time_zone: string;
+}
+
+export interface Link extends Partial<LinkPolicy> {
   link_id: string;
   display_name: string;
   description?: string;
@@ -12,3 +22,45 @@ export interface Link {
   qr_code_url?: string;
   public_key?: string;
 }
+
+/** Owner webhook on a link; the secret is only present in the create response */
+export interface LinkWebhook {
+  webhook_id: string;
+  link_id: string;
+  url: string;
+  created_at: string;
+  secret?: string;
+}
+
+export interface WebhookDelivery {
+  delivery_id: string;
+  webhook_id: string;
+  event: 'thread.created' | 'thread.reply' | 'webhook.test';
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+/** Owner auto-reply on a link; the text is encrypted to the link public key */
+export interface LinkAutoReply {
+  link_id: string;
+  enabled: boolean;
+  template_ciphertext: string;
+  first_message_only: boolean;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string;
+  updated_at: string;
+}
+
+/** A thread waiting for its auto-reply (owner client job) */
+export interface PendingAutoReply {
+  thread_id: string;
+  link_id: string;
+  sender_public_key: string | null;
+  template_ciphertext: string;
+}
@@ -9,11 +9,15 @@ export interface Room {
   created_at: string;
   expires_at: string;
   locked_at?: string;
+  /** Start of the current join window: creation, or the last reopen */
+  join_window_opened_at?: string;
   join_window_minutes: number;
   max_participants: number;
   participant_count: number;
   auto_approve: boolean;
   burned: boolean;
+  /** Current group key epoch (dashboard responses) */
+  key_epoch?: number;
 }
 
 export interface RoomParticipant {
@@ -21,11 +25,29 @@ export interface RoomParticipant {
   anonymous_id: string;
   display_name?: string;
   public_key: string;
-  status: 'pending' | 'approved' | 'rejected';
+  wrapped_group_key?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'removed';
   is_creator: boolean;
+  /** Paged participant list only: holds the current group key */
+  has_group_key?: boolean;
+  can_distribute_keys?: boolean;
   created_at: string;
 }
 
+/** Approved member still waiting for a wrapped group key */
+export interface ParticipantNeedingKey {
+  participant_id: string;
+  anonymous_id: string;
+  display_name?: string;
+  public_key: string;
+}
+
+/** Batch leased by GET .../needs-keys; wrap for key_epoch and submit via set-keys */
+export interface NeedsKeysBatch {
+  key_epoch: number;
+  participants: ParticipantNeedingKey[];
+}
+
 export interface RoomInvite {
   invite_id: string;
   label?: string;
@@ -49,7 +71,10 @@ export interface RoomMessage {
   display_name?: string;
   ciphertext: string;
   nonce: string;
+  key_epoch?: number;
   created_at: string;
+  edited_at?: string | null;
+  deleted_at?: string | null; // Unsent: ciphertext and nonce are blank
 }
 
 export interface JoinRoomResult {
@@ -68,8 +93,15 @@ export interface JoinRoomResult {
 }
 
 export interface ParticipantStatus {
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'removed';
   wrapped_group_key?: string;
+  /** Delegate that wrapped wrapped_group_key; absent means room_public_key */
+  wrapper_public_key?: string;
+  /** The creator let this member wrap keys for newcomers */
+  can_distribute_keys?: boolean;
+  key_epoch?: number;
+  room_public_key?: string;
+  previous_keys?: Array<{ key_epoch: number; wrapped_group_key: string; wrapper_public_key?: string | null }>;
   participants?: Array<{
     anonymous_id: string;
     display_name?: string;
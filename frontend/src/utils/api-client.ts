@@ -1,11 +1,22 @@
 /**
  * API Client
- * Axios instance with retry logic for resilient API calls
+ * Axios instance with retry logic for resilient API calls.
+ * Dashboard requests carry this browser's X-Device-Id, registering the
+ * browser first when it has none (the API refuses them without one); a
+ * DEVICE_REVOKED answer goes to the handler the dashboard registers.
  */
 
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
 import axiosRetry from 'axios-retry';
 import { awsConfig } from '../config/aws-config';
+import { endpoints } from '../config/api-endpoints';
+import { getDeviceId, setDeviceId, clearDeviceId, describeDevice } from './device-link';
+
+let deviceRevokedHandler: (() => void) | null = null;
+
+export function onDeviceRevoked(handler: (() => void) | null): void {
+  deviceRevokedHandler = handler;
+}
 
 function isHtmlResponse(data: unknown): boolean {
   if (typeof data !== 'string') return false;
@@ -17,6 +28,47 @@ const apiClient = axios.create({
   baseURL: awsConfig.api.baseUrl,
 });
 
+let registration: Promise<string | null> | null = null;
+
+/**
+ * This browser's device id, registering it once if needed (concurrent
+ * dashboard requests share one registration); null when that fails
+ */
+export function ensureDeviceId(authorization: string): Promise<string | null> {
+  const deviceId = getDeviceId();
+  if (deviceId) return Promise.resolve(deviceId);
+
+  registration ??= apiClient
+    .post(endpoints.dashboard.devices(), { name: describeDevice() }, { headers: { Authorization: authorization } })
+    .then((response) => {
+      const registered: string = response.data.data.device_id;
+      setDeviceId(registered);
+      return registered;
+    })
+    .catch((err) => {
+      console.debug('[Devices] Registration failed:', err);
+      return null;
+    })
+    .finally(() => { registration = null; });
+  return registration;
+}
+
+function isRegistration(config: InternalAxiosRequestConfig): boolean {
+  return config.method === 'post' && config.url === endpoints.dashboard.devices();
+}
+
+// Only owner routes: public (sender, room) requests must not be linkable to a device
+apiClient.interceptors.request.use(async (config) => {
+  if (!config.url?.includes('/dashboard/') || isRegistration(config)) return config;
+
+  const authorization = config.headers.get('Authorization');
+  const deviceId = typeof authorization === 'string' ? await ensureDeviceId(authorization) : getDeviceId();
+  if (deviceId) {
+    config.headers.set('X-Device-Id', deviceId);
+  }
+  return config;
+});
+
 apiClient.interceptors.response.use(
   (response) => {
     if (isHtmlResponse(response.data)) {
@@ -27,7 +79,13 @@ apiClient.interceptors.response.use(
     }
     return response;
   },
-  (error) => Promise.reject(error)
+  (error) => {
+    const code = error.response?.data?.error?.code;
+    if (code === 'DEVICE_REVOKED') deviceRevokedHandler?.();
+    // Unknown to the server: register again on the next dashboard request
+    if (code === 'DEVICE_REQUIRED' && error.config?.headers?.get('X-Device-Id') === getDeviceId()) clearDeviceId();
+    return Promise.reject(error);
+  }
 );
 
 axiosRetry(apiClient, {
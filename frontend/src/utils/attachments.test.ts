@@ -0,0 +1,60 @@
+/**
+ * Attachments Module Tests
+ * File encryption round trips and the message envelope (Node Web Crypto)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encryptFile, decryptFile, encodeMessage, decodeMessage, isPreviewableImage,
+  type AttachmentRef,
+} from './attachments';
+
+const bytes = (s: string) => new TextEncoder().encode(s).buffer as ArrayBuffer;
+const text = (b: ArrayBuffer) => new TextDecoder().decode(b);
+
+function ref(id: string): AttachmentRef {
+  return { id, key: 'a2V5', iv: 'aXY=', name: `${id}.png`, type: 'image/png', size: 3 };
+}
+
+describe('encryptFile / decryptFile', () => {
+  it('round trips file contents under a fresh key', async () => {
+    const enc = await encryptFile(bytes('hello file'));
+    expect(enc.ciphertext.byteLength).toBe('hello file'.length + 16);
+    expect(text(await decryptFile(enc.ciphertext, enc))).toBe('hello file');
+  });
+
+  it('fails with another file\'s key', async () => {
+    const a = await encryptFile(bytes('a'));
+    const b = await encryptFile(bytes('b'));
+    await expect(decryptFile(a.ciphertext, b)).rejects.toThrow();
+  });
+});
+
+describe('encodeMessage / decodeMessage', () => {
+  it('leaves plain messages unchanged', () => {
+    expect(encodeMessage('just text', [])).toBe('just text');
+    expect(decodeMessage('just text')).toEqual({ text: 'just text', attachments: [] });
+  });
+
+  it('round trips text and attachment refs', () => {
+    const refs = [ref('one'), ref('two')];
+    expect(decodeMessage(encodeMessage('see attached', refs))).toEqual({ text: 'see attached', attachments: refs });
+  });
+
+  it('treats a malformed envelope as text', () => {
+    const broken = encodeMessage('x', [ref('one')]).slice(0, -2);
+    expect(decodeMessage(broken)).toEqual({ text: broken, attachments: [] });
+  });
+
+  it('never lets a message carry more refs than the send limit', () => {
+    const refs = ['1', '2', '3', '4', '5', '6'].map(ref);
+    expect(decodeMessage(encodeMessage('', refs)).attachments).toHaveLength(4);
+  });
+});
+
+describe('isPreviewableImage', () => {
+  it('previews raster images but not SVG', () => {
+    expect(isPreviewableImage('image/png')).toBe(true);
+    expect(isPreviewableImage('image/svg+xml')).toBe(false);
+  });
+});
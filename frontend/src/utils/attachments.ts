@@ -0,0 +1,95 @@
+/**
+ * Encrypted Attachments
+ * Each file is encrypted with its own AES-256-GCM key before upload; the
+ * server stores only ciphertext. The key, IV and file metadata ride inside
+ * the E2EE message as an envelope, so only message readers can open files.
+ *
+ * Envelope format (plaintext before message encryption):
+ *   messages without attachments: the text as-is
+ *   with attachments: ENVELOPE_PREFIX + JSON { text, attachments: AttachmentRef[] }
+ */
+
+const AES_ALGO: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+const IV_LENGTH = 12;
+const ENVELOPE_PREFIX = '\u0000bw-attach:1\u0000';
+
+/** Mirrors the server's ciphertext cap (10 MiB) minus the GCM tag */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024 - 16;
+export const MAX_ATTACHMENTS = 4;
+
+export interface AttachmentRef {
+  id: string;
+  key: string; // base64 raw AES key
+  iv: string; // base64
+  name: string;
+  type: string;
+  size: number; // plaintext bytes
+}
+
+export interface DecodedMessage {
+  text: string;
+  attachments: AttachmentRef[];
+}
+
+function bufferToBase64(buf: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buf)));
+}
+
+function base64ToBuffer(b64: string): ArrayBuffer {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+/**
+ * Encrypt file contents with a fresh key. Returns the ciphertext to upload
+ * and the key material for the message envelope.
+ */
+export async function encryptFile(data: ArrayBuffer): Promise<{ ciphertext: ArrayBuffer; key: string; iv: string }> {
+  const key = await crypto.subtle.generateKey(AES_ALGO, true, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  return {
+    ciphertext,
+    key: bufferToBase64(await crypto.subtle.exportKey('raw', key)),
+    iv: bufferToBase64(iv),
+  };
+}
+
+/** Decrypt a downloaded attachment. Throws when the key or ciphertext is wrong. */
+export async function decryptFile(ciphertext: ArrayBuffer, ref: Pick<AttachmentRef, 'key' | 'iv'>): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey('raw', base64ToBuffer(ref.key), AES_ALGO, false, ['decrypt']);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(base64ToBuffer(ref.iv)) }, key, ciphertext);
+}
+
+/** Build the plaintext to encrypt as the message body */
+export function encodeMessage(text: string, attachments: AttachmentRef[]): string {
+  if (attachments.length === 0) return text;
+  return ENVELOPE_PREFIX + JSON.stringify({ text, attachments });
+}
+
+/** Split a decrypted message body into text and attachment refs */
+export function decodeMessage(plaintext: string): DecodedMessage {
+  if (!plaintext.startsWith(ENVELOPE_PREFIX)) return { text: plaintext, attachments: [] };
+  try {
+    const parsed = JSON.parse(plaintext.slice(ENVELOPE_PREFIX.length)) as Partial<DecodedMessage>;
+    return {
+      text: typeof parsed.text === 'string' ? parsed.text : '',
+      attachments: Array.isArray(parsed.attachments) ? parsed.attachments.slice(0, MAX_ATTACHMENTS) : [],
+    };
+  } catch {
+    return { text: plaintext, attachments: [] };
+  }
+}
+
+/** Only raster images are previewed inline (no SVG: it can carry script) */
+export function isPreviewableImage(type: string): boolean {
+  return /^image\/(png|jpeg|gif|webp)$/.test(type);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -7,12 +7,12 @@
 import { isVaultUnlocked, encryptForVault, decryptFromVault } from './key-vault';
 import {
   BROADCAST_KEYS_STORE,
-  idbGet, idbPut, idbDelete,
+  idbGet, idbPut, idbDelete, idbEntries,
   isVaultWrapped,
   type VaultWrappedEntry,
 } from './key-store-db';
 
-interface BroadcastKeyEntry {
+export interface BroadcastKeyEntry {
   encryptionKey: string;   // base64url AES-256 key
   postToken?: string;
   createdAt: number;
@@ -89,3 +89,19 @@ export async function deleteBroadcastKey(channelId: string): Promise<void> {
     await idbDelete(BROADCAST_KEYS_STORE, channelId);
   } catch { /* ignore if IDB fails */ }
 }
+
+/** Every channel key this browser holds (vault-encrypted entries only while unlocked). */
+export async function getAllBroadcastKeys(): Promise<Map<string, BroadcastKeyEntry>> {
+  const keys = new Map<string, BroadcastKeyEntry>();
+  for (const [channelId, stored] of await idbEntries<BroadcastKeyEntry | VaultWrappedEntry>(BROADCAST_KEYS_STORE)) {
+    if (isVaultWrapped(stored)) {
+      if (!isVaultUnlocked()) continue;
+      try {
+        keys.set(channelId, JSON.parse(await decryptFromVault(stored.ct, stored.iv)) as BroadcastKeyEntry);
+      } catch { /* skip unreadable entries */ }
+    } else {
+      keys.set(channelId, stored);
+    }
+  }
+  return keys;
+}
@@ -3,10 +3,14 @@
  * Shared ECDH-to-AES key derivation with optional HKDF extract-and-expand step.
  * V1 (legacy): direct ECDH → AES key (non-uniform, kept for backward compat)
  * V2: ECDH → HKDF-SHA256 → AES key (uniform, per NIST SP 800-56C / RFC 5869)
+ * Passphrase: PBKDF2-SHA256 → AES key, for files sealed outside the key store
  */
 
 const AES_ALGO: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
 
+/** OWASP 2023 guidance for PBKDF2-SHA256 */
+export const PASSPHRASE_KDF_ITERATIONS = 600_000;
+
 /**
  * Derive an AES-256-GCM key from an ECDH key agreement.
  *
@@ -56,3 +60,33 @@ export async function deriveAESKeyFromECDH(
     usages,
   );
 }
+
+/**
+ * Derive a non-extractable AES-256-GCM key from a user-chosen passphrase.
+ *
+ * @param passphrase - The passphrase as typed
+ * @param salt       - Random per-file salt (16 bytes), stored alongside the ciphertext
+ * @param usages     - AES key usages
+ * @param iterations - PBKDF2 rounds; callers opening a file pass the count it was sealed with
+ */
+export async function deriveAESKeyFromPassphrase(
+  passphrase: string,
+  salt: Uint8Array,
+  usages: KeyUsage[],
+  iterations: number = PASSPHRASE_KDF_ITERATIONS,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt.buffer as ArrayBuffer, iterations, hash: 'SHA-256' },
+    baseKey,
+    AES_ALGO,
+    false,
+    usages,
+  );
+}
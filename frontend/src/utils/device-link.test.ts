@@ -0,0 +1,40 @@
+/**
+ * Device Link Tests
+ * Pairing codes match the server's derivation; a sealed bundle opens only with
+ * the new device's key.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPair } from './e2ee';
+import {
+  pairingCode, formatPairingCode, normalizePairingCode, sealKeyBundle, openKeyBundle, type KeyBundle,
+} from './device-link';
+
+describe('device-link', () => {
+  it('derives the same pairing code as the server', async () => {
+    const key = new Uint8Array(65).map((_, i) => i);
+    key[0] = 4;
+    const code = await pairingCode(btoa(String.fromCharCode(...key)));
+
+    // Same vector as app/tests/integration/devices.test.ts
+    expect(code).toBe('1V9TDAWNFZVF');
+    expect(formatPairingCode(code)).toBe('1V9T-DAWN-FZVF');
+    expect(normalizePairingCode('1v9t-dawn-fzvf')).toBe(code);
+    expect(normalizePairingCode('IV9T DAWN FZVF')).toBe(code);
+  });
+
+  it('seals the bundle to the new device only', async () => {
+    const newDevice = await generateKeyPair();
+    const stranger = await generateKeyPair();
+    const bundle: KeyBundle = {
+      version: 1,
+      links: { abcdefgh: { kty: 'EC', crv: 'P-256', d: 'd', x: 'x', y: 'y' } },
+      rooms: {},
+      broadcasts: { c1: { encryptionKey: 'k1', postToken: 't1' }, c2: { postToken: 't2' } },
+    };
+
+    const sealed = await sealKeyBundle(bundle, newDevice.publicKeyBase64);
+    expect(await openKeyBundle(sealed, newDevice.privateKeyJwk)).toEqual(bundle);
+    await expect(openKeyBundle(sealed, stranger.privateKeyJwk)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Device Link
+ * Moves this browser's keys to another of the owner's devices. The new device
+ * shows a pairing code derived from an ephemeral public key; the old device
+ * checks the key the server hands it hashes to that code, then seals the whole
+ * bundle (link, creator room and broadcast keys, and the thread ratchet
+ * sessions it owns) to it with ECIES (e2ee.ts). The server only relays the
+ * ciphertext. The new device takes over those sessions; the old one keeps
+ * their history (thread-ratchet.ts).
+ */
+
+import { encrypt, decrypt } from './e2ee';
+import { getAllLinkKeys, saveLinkKey, getAllRoomKeys, saveRoomKey, type RoomKeyData } from './key-store';
+import { getAllBroadcastKeys, saveBroadcastKey } from './broadcast-key-store';
+import { idbClearAll } from './key-store-db';
+import { isVaultUnlocked, lockVault } from './key-vault';
+import { exportOwnerSessions, importOwnerSessions, type OwnerSession } from './thread-ratchet';
+
+const DEVICE_ID_KEY = 'bw:device-id';
+const POST_TOKENS_KEY = 'bw:bc:postTokens'; // Kept by LinksPanel, also for unencrypted channels
+const BUNDLE_VERSION = 1;
+const PAIRING_CODE_LENGTH = 12;
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export interface KeyBundle {
+  version: typeof BUNDLE_VERSION;
+  links: Record<string, JsonWebKey>;
+  rooms: Record<string, RoomKeyData>;
+  broadcasts: Record<string, { encryptionKey?: string; postToken?: string }>;
+  /** Owner ratchet sessions by thread id; device links only, never the account backup */
+  ratchets?: Record<string, OwnerSession>;
+}
+
+export interface ImportResult {
+  links: number;
+  rooms: number;
+  broadcasts: number;
+  ratchets: number;
+  /** Creator room keys left out because the vault is locked */
+  skippedRooms: number;
+}
+
+// ── Device identity (sent as X-Device-Id on dashboard requests) ──
+
+export function getDeviceId(): string | null {
+  try { return localStorage.getItem(DEVICE_ID_KEY); }
+  catch { return null; }
+}
+
+export function setDeviceId(deviceId: string): void {
+  localStorage.setItem(DEVICE_ID_KEY, deviceId);
+}
+
+/** The server no longer knows this id (another account, or a reset store) */
+export function clearDeviceId(): void {
+  localStorage.removeItem(DEVICE_ID_KEY);
+}
+
+/** e.g. "Firefox on macOS", shown in the devices list */
+export function describeDevice(userAgent: string = navigator.userAgent): string {
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+}
+
+// ── Pairing code ──
+
+/**
+ * SHA-256 of the raw public key, Crockford base32, first 12 characters.
+ * Must match pairingCode() in app/src/services/device-link-service.ts.
+ */
+export async function pairingCode(publicKeyBase64: string): Promise<string> {
+  const raw = Uint8Array.from(atob(publicKeyBase64), (c) => c.charCodeAt(0));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  let code = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of digest) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5 && code.length < PAIRING_CODE_LENGTH) {
+      code += CROCKFORD_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+    if (code.length === PAIRING_CODE_LENGTH) break;
+  }
+  return code;
+}
+
+/** XXXX-XXXX-XXXX for display */
+export function formatPairingCode(code: string): string {
+  return code.match(/.{1,4}/g)?.join('-') ?? code;
+}
+
+/** As typed: dashes, spaces and case dropped, look-alikes read the Crockford way */
+export function normalizePairingCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+}
+
+// ── Bundle ──
+
+function readPostTokens(): Record<string, string> {
+  try { return JSON.parse(localStorage.getItem(POST_TOKENS_KEY) || '{}'); }
+  catch { return {}; }
+}
+
+/**
+ * Everything this browser can read right now (vault-encrypted entries need the
+ * vault unlocked). With ratchets, the owner sessions it holds are included for
+ * a device link; hand them off once delivered.
+ */
+export async function collectKeyBundle({ ratchets = false } = {}): Promise<KeyBundle> {
+  const [links, rooms, channelKeys] = await Promise.all([getAllLinkKeys(), getAllRoomKeys(), getAllBroadcastKeys()]);
+  const broadcasts: KeyBundle['broadcasts'] = {};
+  for (const [channelId, postToken] of Object.entries(readPostTokens())) {
+    broadcasts[channelId] = { postToken };
+  }
+  for (const [channelId, { encryptionKey, postToken }] of channelKeys) {
+    broadcasts[channelId] = { encryptionKey, postToken: postToken ?? broadcasts[channelId]?.postToken };
+  }
+  const bundle: KeyBundle = {
+    version: BUNDLE_VERSION, links: Object.fromEntries(links), rooms: Object.fromEntries(rooms), broadcasts,
+  };
+  if (ratchets) bundle.ratchets = await exportOwnerSessions();
+  return bundle;
+}
+
+export async function sealKeyBundle(bundle: KeyBundle, recipientPublicKeyBase64: string): Promise<string> {
+  const { ciphertext } = await encrypt(JSON.stringify(bundle), recipientPublicKeyBase64);
+  return ciphertext;
+}
+
+export async function openKeyBundle(ciphertext: string, privateKeyJwk: JsonWebKey): Promise<KeyBundle> {
+  const bundle = JSON.parse(await decrypt(ciphertext, privateKeyJwk)) as KeyBundle;
+  if (bundle.version !== BUNDLE_VERSION) throw new Error('Unsupported key bundle version');
+  return bundle;
+}
+
+/** Store a received bundle; existing keys for the same ids are replaced. Reload so panels re-read storage. */
+export async function importKeyBundle(bundle: KeyBundle): Promise<ImportResult> {
+  const result: ImportResult = { links: 0, rooms: 0, broadcasts: 0, ratchets: 0, skippedRooms: 0 };
+
+  for (const [linkId, jwk] of Object.entries(bundle.links)) {
+    await saveLinkKey(linkId, jwk);
+    result.links++;
+  }
+  for (const [roomId, data] of Object.entries(bundle.rooms)) {
+    // Creator room keys are never stored in the clear (saveRoomKey throws VAULT_LOCKED)
+    if (data.isCreator && !isVaultUnlocked()) {
+      result.skippedRooms++;
+      continue;
+    }
+    await saveRoomKey(roomId, data);
+    result.rooms++;
+  }
+  const postTokens = readPostTokens();
+  for (const [channelId, { encryptionKey, postToken }] of Object.entries(bundle.broadcasts)) {
+    if (encryptionKey) await saveBroadcastKey(channelId, encryptionKey, postToken);
+    if (postToken) postTokens[channelId] = postToken;
+    result.broadcasts++;
+  }
+  localStorage.setItem(POST_TOKENS_KEY, JSON.stringify(postTokens));
+  if (bundle.ratchets) result.ratchets = await importOwnerSessions(bundle.ratchets);
+  return result;
+}
+
+/** Revoked: drop every key, vault and device id this browser holds */
+export async function wipeLocalKeys(): Promise<void> {
+  lockVault();
+  await idbClearAll();
+  for (const storage of [localStorage, sessionStorage]) {
+    const keys = Array.from({ length: storage.length }, (_, i) => storage.key(i))
+      .filter((key): key is string => !!key?.startsWith('bw:'));
+    for (const key of keys) storage.removeItem(key);
+  }
+}
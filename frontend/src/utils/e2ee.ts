@@ -8,6 +8,7 @@
  *
  * V1 (0x01): ECDH shared secret used directly as AES key (legacy)
  * V2 (0x02): ECDH → HKDF-SHA256 → AES key (per NIST SP 800-56C / RFC 5869)
+ * V3 (0x03): forward-secret ratchet for link threads — see ratchet.ts
  */
 
 import { deriveAESKeyFromECDH } from './crypto-kdf';
@@ -0,0 +1,74 @@
+/**
+ * Key Backup Tests
+ * Merging never drops another browser's keys and keeps the newer room epoch;
+ * the sealed backup opens only with the passphrase it was made under.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  mergeKeyBundles, keyBundleDelta, deriveBackupKey, sealBackup, openBackup, newBackupSalt,
+} from './key-backup';
+import type { KeyBundle } from './device-link';
+import type { RoomKeyData } from './key-store';
+
+// The API client and Cognito config read env at import; these tests make no requests
+vi.mock('./api-client', () => ({ default: {} }));
+vi.mock('../config/cognito-config', () => ({ getAccessToken: async () => '' }));
+
+function room(roomId: string, keyEpoch: number, groupKey: string, epochKeys?: Record<number, string>): RoomKeyData {
+  return {
+    roomId,
+    groupKey,
+    privateKeyJwk: { kty: 'EC' },
+    publicKeyBase64: 'pub',
+    anonymousId: 'anon',
+    watermarkSeed: 'seed',
+    isCreator: true,
+    keyEpoch,
+    epochKeys,
+  };
+}
+
+describe('key-backup', () => {
+  it('merges as a union, keeping the newer room epoch and both sides\' old epochs', () => {
+    const remote: KeyBundle = {
+      version: 1,
+      links: { linkA: { kty: 'EC', d: 'a' } },
+      rooms: { room1: room('room1', 2, 'k2', { 0: 'k0', 1: 'k1' }) },
+      broadcasts: { chan1: { encryptionKey: 'enc1' } },
+    };
+    const local: KeyBundle = {
+      version: 1,
+      links: { linkB: { kty: 'EC', d: 'b' } },
+      rooms: { room1: room('room1', 1, 'k1', { 0: 'k0' }) },
+      broadcasts: { chan1: { postToken: 'tok1' } },
+    };
+
+    const merged = mergeKeyBundles(remote, local);
+
+    expect(Object.keys(merged.links).sort()).toEqual(['linkA', 'linkB']);
+    expect(merged.rooms.room1.groupKey).toBe('k2');
+    expect(merged.rooms.room1.epochKeys).toEqual({ 0: 'k0', 1: 'k1' });
+    expect(merged.broadcasts.chan1).toEqual({ encryptionKey: 'enc1', postToken: 'tok1' });
+
+    // Only what the remote side lacked would be written back
+    const delta = keyBundleDelta(remote, merged);
+    expect(Object.keys(delta.links)).toEqual(['linkB']);
+    expect(delta.rooms).toEqual({});
+    expect(Object.keys(delta.broadcasts)).toEqual(['chan1']);
+    expect(keyBundleDelta(merged, mergeKeyBundles(merged, local))).toEqual({
+      version: 1, links: {}, rooms: {}, broadcasts: {},
+    });
+  });
+
+  it('opens the sealed backup only with the same passphrase and salt', async () => {
+    const bundle: KeyBundle = { version: 1, links: { linkA: { kty: 'EC' } }, rooms: {}, broadcasts: {} };
+    const salt = newBackupSalt();
+    const sealed = await sealBackup(bundle, await deriveBackupKey('correct horse', salt));
+
+    expect(await openBackup(sealed.ciphertext, sealed.iv, await deriveBackupKey('correct horse', salt)))
+      .toEqual(bundle);
+    await expect(openBackup(sealed.ciphertext, sealed.iv, await deriveBackupKey('wrong', salt)))
+      .rejects.toThrow('Incorrect passphrase');
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Key Backup
+ * One encrypted backup of every link, room and broadcast key on the account
+ * (GET/PUT /dashboard/key-bundle). The contents are the device-link KeyBundle,
+ * AES-GCM encrypted under PBKDF2(vault passphrase, bundle salt); the server
+ * stores the ciphertext and a version. A write names the version it merged
+ * from (If-Match); on 412 we re-read, merge again and retry, so two browsers
+ * backing up at once keep each other's keys.
+ *
+ * The derived backup key is kept vault-encrypted in IndexedDB, so later
+ * backups run without the passphrase while the vault is unlocked. Per-link
+ * backups from before the bundle are folded in whenever the passphrase is
+ * at hand.
+ */
+
+import { isAxiosError } from 'axios';
+import apiClient from './api-client';
+import { endpoints } from '../config/api-endpoints';
+import { getAccessToken } from '../config/cognito-config';
+import { unwrapPrivateKey } from './e2ee';
+import { collectKeyBundle, importKeyBundle, type KeyBundle } from './device-link';
+import type { RoomKeyData } from './key-store';
+import { isVaultUnlocked, encryptForVault, decryptFromVault } from './key-vault';
+import { idbGet, idbPut, VAULT_META_STORE } from './key-store-db';
+
+const AES_ALGO: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+const BACKUP_ITERATIONS = 600_000; // Same as the vault and per-link backups
+const IV_LENGTH = 12;
+const MAX_ATTEMPTS = 3;
+const BACKUP_KEY_META = 'backupKey';
+
+interface KeyBundleState {
+  version: number;
+  bundle: { ciphertext: string; salt: string; iv: string; updated_at: string } | null;
+  legacy_links: { link_id: string; wrapped_key: string; salt: string; iv: string }[];
+}
+
+interface StoredBackupKey {
+  salt: string;
+  ct: string;
+  iv: string;
+}
+
+export interface BackupSummary {
+  links: number;
+  rooms: number;
+  broadcasts: number;
+  /** Per-link backups folded into the bundle by this run */
+  migratedLinks: number;
+}
+
+export interface RestoreReport {
+  links: string[];
+  rooms: string[];
+  broadcasts: string[];
+  /** Creator room keys left out because the vault is locked */
+  skippedRooms: string[];
+}
+
+// ── Encoding helpers ──
+
+function bufferToBase64(buf: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buf)));
+}
+
+function base64ToBuffer(b64: string): ArrayBuffer {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0)).buffer;
+}
+
+function bufferToHex(buf: ArrayBuffer): string {
+  return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function hexToBuffer(hex: string): ArrayBuffer {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  return bytes.buffer;
+}
+
+// ── Bundle encryption ──
+
+export function newBackupSalt(): string {
+  return bufferToHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+}
+
+/** Extractable so it can be kept under the vault key between backups */
+export async function deriveBackupKey(passphrase: string, saltHex: string): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: hexToBuffer(saltHex), iterations: BACKUP_ITERATIONS, hash: 'SHA-256' },
+    keyMaterial,
+    AES_ALGO,
+    true,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function sealBackup(bundle: KeyBundle, key: CryptoKey): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(bundle)));
+  return { ciphertext: bufferToBase64(ct), iv: bufferToHex(iv.buffer) };
+}
+
+/** Throws 'Incorrect passphrase' when the key doesn't open it */
+export async function openBackup(ciphertext: string, ivHex: string, key: CryptoKey): Promise<KeyBundle> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: hexToBuffer(ivHex) }, key, base64ToBuffer(ciphertext));
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+  const bundle = JSON.parse(new TextDecoder().decode(plaintext)) as KeyBundle;
+  if (bundle.version !== 1) throw new Error('Unsupported key bundle version');
+  return bundle;
+}
+
+// ── Merging ──
+
+function emptyBundle(): KeyBundle {
+  return { version: 1, links: {}, rooms: {}, broadcasts: {} };
+}
+
+/** The newer epoch wins; older epoch keys from both sides are kept for old messages */
+function mergeRoom(a: RoomKeyData, b: RoomKeyData): RoomKeyData {
+  const [older, newer] = (a.keyEpoch ?? 0) > (b.keyEpoch ?? 0) ? [b, a] : [a, b];
+  const epochKeys = { ...older.epochKeys, ...newer.epochKeys };
+  return Object.keys(epochKeys).length > 0 ? { ...newer, epochKeys } : newer;
+}
+
+/**
+ * Union of two bundles. `incoming` wins for links and fills in channel fields;
+ * rooms keep the higher key epoch. Nothing is ever dropped.
+ */
+export function mergeKeyBundles(base: KeyBundle, incoming: KeyBundle): KeyBundle {
+  const rooms = { ...base.rooms };
+  for (const [roomId, data] of Object.entries(incoming.rooms)) {
+    rooms[roomId] = rooms[roomId] ? mergeRoom(rooms[roomId], data) : data;
+  }
+  const broadcasts = { ...base.broadcasts };
+  for (const [channelId, entry] of Object.entries(incoming.broadcasts)) {
+    const current = broadcasts[channelId];
+    broadcasts[channelId] = {
+      encryptionKey: entry.encryptionKey ?? current?.encryptionKey,
+      postToken: entry.postToken ?? current?.postToken,
+    };
+  }
+  return { version: 1, links: { ...base.links, ...incoming.links }, rooms, broadcasts };
+}
+
+/** Entries of `next` that `base` lacks or holds differently */
+export function keyBundleDelta(base: KeyBundle, next: KeyBundle): KeyBundle {
+  const changed = <T>(from: Record<string, T>, to: Record<string, T>) =>
+    Object.fromEntries(Object.entries(to).filter(([id, value]) => JSON.stringify(from[id]) !== JSON.stringify(value)));
+  return {
+    version: 1,
+    links: changed(base.links, next.links),
+    rooms: changed(base.rooms, next.rooms),
+    broadcasts: changed(base.broadcasts, next.broadcasts),
+  };
+}
+
+function isEmptyBundle(bundle: KeyBundle): boolean {
+  return Object.keys(bundle.links).length + Object.keys(bundle.rooms).length + Object.keys(bundle.broadcasts).length === 0;
+}
+
+// ── Server ──
+
+async function authHeaders() {
+  return { Authorization: `Bearer ${await getAccessToken()}` };
+}
+
+async function fetchRemote(): Promise<{ state: KeyBundleState; etag: string }> {
+  const response = await apiClient.get(endpoints.dashboard.keyBundle(), { headers: await authHeaders() });
+  const state: KeyBundleState = response.data.data;
+  return { state, etag: response.headers.etag ?? `"${state.version}"` };
+}
+
+/** The cached backup key, if it belongs to this salt and the vault is unlocked */
+async function loadStoredKey(salt: string): Promise<CryptoKey | null> {
+  if (!isVaultUnlocked()) return null;
+  try {
+    const stored = await idbGet<StoredBackupKey>(VAULT_META_STORE, BACKUP_KEY_META);
+    if (stored?.salt !== salt) return null;
+    const raw = base64ToBuffer(await decryptFromVault(stored.ct, stored.iv));
+    return await crypto.subtle.importKey('raw', raw, AES_ALGO, true, ['encrypt', 'decrypt']);
+  } catch {
+    return null;
+  }
+}
+
+async function storeKey(salt: string, key: CryptoKey): Promise<void> {
+  if (!isVaultUnlocked()) return;
+  const { ct, iv } = await encryptForVault(bufferToBase64(await crypto.subtle.exportKey('raw', key)));
+  await idbPut(VAULT_META_STORE, BACKUP_KEY_META, { salt, ct, iv } as StoredBackupKey);
+}
+
+/**
+ * Open the server's bundle; with the passphrase, also fold in the per-link
+ * backups it can unwrap (ones under another passphrase are left alone)
+ */
+async function readRemote(
+  state: KeyBundleState,
+  key: CryptoKey,
+  passphrase?: string,
+): Promise<{ bundle: KeyBundle; migrated: string[] }> {
+  const bundle = state.bundle ? await openBackup(state.bundle.ciphertext, state.bundle.iv, key) : emptyBundle();
+  const migrated: string[] = [];
+  if (passphrase) {
+    for (const legacy of state.legacy_links) {
+      try {
+        const jwk = await unwrapPrivateKey(legacy.wrapped_key, passphrase, legacy.salt, legacy.iv);
+        bundle.links[legacy.link_id] ??= jwk;
+        migrated.push(legacy.link_id);
+      } catch { /* another passphrase */ }
+    }
+  }
+  return { bundle, migrated };
+}
+
+/** Whether the account has a bundle or per-link backups to restore from */
+export async function hasKeyBackup(): Promise<boolean> {
+  const { state } = await fetchRemote();
+  return state.bundle !== null || state.legacy_links.length > 0;
+}
+
+/**
+ * Merge this browser's keys into the account backup. Without a passphrase
+ * this uses the cached backup key and returns null when there is none (or
+ * no bundle yet). Throws 'Incorrect passphrase' if the passphrase doesn't
+ * open the existing bundle.
+ */
+export async function syncKeyBackup(passphrase?: string): Promise<BackupSummary | null> {
+  const local = await collectKeyBundle();
+
+  for (let attempt = 1; ; attempt++) {
+    const { state, etag } = await fetchRemote();
+    const salt = state.bundle?.salt ?? newBackupSalt();
+    const key = passphrase
+      ? await deriveBackupKey(passphrase, salt)
+      : state.bundle && await loadStoredKey(salt);
+    if (!key) return null;
+
+    const remote = await readRemote(state, key, passphrase);
+    const merged = mergeKeyBundles(remote.bundle, local);
+    const summary: BackupSummary = {
+      links: Object.keys(merged.links).length,
+      rooms: Object.keys(merged.rooms).length,
+      broadcasts: Object.keys(merged.broadcasts).length,
+      migratedLinks: remote.migrated.length,
+    };
+
+    const unchanged = isEmptyBundle(keyBundleDelta(remote.bundle, merged)) && remote.migrated.length === 0;
+    if (unchanged && (state.bundle || isEmptyBundle(merged))) {
+      await storeKey(salt, key);
+      return summary;
+    }
+
+    const sealed = await sealBackup(merged, key);
+    try {
+      await apiClient.put(
+        endpoints.dashboard.keyBundle(),
+        { ciphertext: sealed.ciphertext, salt, iv: sealed.iv, migrated_link_ids: remote.migrated },
+        { headers: { ...(await authHeaders()), 'If-Match': etag } },
+      );
+      await storeKey(salt, key);
+      return summary;
+    } catch (error) {
+      // Another browser wrote first: re-read and merge on top of its version
+      if (attempt < MAX_ATTEMPTS && isAxiosError(error) && error.response?.status === 412) continue;
+      throw error;
+    }
+  }
+}
+
+/** The account backup opened with the passphrase, ready to apply */
+export interface OpenedBackup {
+  bundle: KeyBundle;
+  salt: string | null;
+  key: CryptoKey;
+}
+
+/**
+ * Decrypt the account backup (and any per-link backups under the same
+ * passphrase). Throws 'Incorrect passphrase' when nothing opens.
+ */
+export async function openKeyBackup(passphrase: string): Promise<OpenedBackup> {
+  const { state } = await fetchRemote();
+  const salt = state.bundle?.salt ?? null;
+  const key = await deriveBackupKey(passphrase, salt ?? newBackupSalt());
+  const remote = await readRemote(state, key, passphrase);
+  if (!state.bundle && remote.migrated.length === 0) {
+    throw new Error(state.legacy_links.length > 0 ? 'Incorrect passphrase' : 'No key backup found');
+  }
+  return { bundle: remote.bundle, salt, key };
+}
+
+/**
+ * Store every key in the backup that this browser lacks (or holds at an older
+ * room epoch). Unlock the vault first so creator room keys aren't skipped;
+ * reload afterwards so panels re-read storage.
+ */
+export async function applyKeyBackup(opened: OpenedBackup): Promise<RestoreReport> {
+  const local = await collectKeyBundle();
+  const recovered = keyBundleDelta(local, mergeKeyBundles(local, opened.bundle));
+  const skippedRooms = Object.entries(recovered.rooms)
+    .filter(([, data]) => data.isCreator && !isVaultUnlocked())
+    .map(([roomId]) => roomId);
+  await importKeyBundle(recovered);
+  if (opened.salt) await storeKey(opened.salt, opened.key);
+
+  return {
+    links: Object.keys(recovered.links),
+    rooms: Object.keys(recovered.rooms).filter((roomId) => !skippedRooms.includes(roomId)),
+    broadcasts: Object.keys(recovered.broadcasts),
+    skippedRooms,
+  };
+}
@@ -3,12 +3,14 @@
  */
 
 export const DB_NAME = 'burnware-keys';
-export const DB_VERSION = 5; // Bumped to add broadcastKeys store
+export const DB_VERSION = 7; // Bumped to add searchIndex store
 export const LINK_KEYS_STORE = 'linkKeys';
 export const REPLY_CACHE_STORE = 'replyCache';
 export const ROOM_KEYS_STORE = 'roomKeys';
 export const VAULT_META_STORE = 'vaultMeta';
 export const BROADCAST_KEYS_STORE = 'broadcastKeys';
+export const RATCHET_STORE = 'ratchetSessions';
+export const SEARCH_INDEX_STORE = 'searchIndex';
 
 export interface VaultWrappedEntry {
   _vault: true;
@@ -31,6 +33,8 @@ export function openDb(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(ROOM_KEYS_STORE)) db.createObjectStore(ROOM_KEYS_STORE);
       if (!db.objectStoreNames.contains(VAULT_META_STORE)) db.createObjectStore(VAULT_META_STORE);
       if (!db.objectStoreNames.contains(BROADCAST_KEYS_STORE)) db.createObjectStore(BROADCAST_KEYS_STORE);
+      if (!db.objectStoreNames.contains(RATCHET_STORE)) db.createObjectStore(RATCHET_STORE);
+      if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE)) db.createObjectStore(SEARCH_INDEX_STORE);
     };
     req.onsuccess = () => resolve(req.result);
     req.onerror = () => reject(req.error);
@@ -72,3 +76,53 @@ export function idbDelete(store: string, key: string): Promise<void> {
       }),
   );
 }
+
+/** All [key, value] pairs in a store, optionally limited to a key range */
+export function idbEntries<T>(store: string, range?: IDBKeyRange): Promise<Array<[string, T]>> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(store, 'readonly');
+        const entries: Array<[string, T]> = [];
+        const req = tx.objectStore(store).openCursor(range);
+        req.onsuccess = () => {
+          const cursor = req.result;
+          if (cursor) {
+            entries.push([cursor.key as string, cursor.value as T]);
+            cursor.continue();
+          } else {
+            resolve(entries);
+          }
+        };
+        req.onerror = () => reject(req.error);
+      }),
+  );
+}
+
+export function idbDeleteMany(store: string, keys: string[]): Promise<void> {
+  if (keys.length === 0) return Promise.resolve();
+  return openDb().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(store, 'readwrite');
+        const os = tx.objectStore(store);
+        for (const key of keys) os.delete(key);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      }),
+  );
+}
+
+/** Empty every key store (device revoked): connections stay open, so deleteDatabase would block */
+export function idbClearAll(): Promise<void> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const stores = Array.from(db.objectStoreNames);
+        const tx = db.transaction(stores, 'readwrite');
+        for (const store of stores) tx.objectStore(store).clear();
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      }),
+  );
+}
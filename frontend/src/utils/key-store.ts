@@ -15,6 +15,7 @@ import {
   openDb, idbGet, idbPut,
   isVaultWrapped, type VaultWrappedEntry,
 } from './key-store-db';
+import type { RatchetState } from './ratchet';
 
 // ── Link private keys (IndexedDB, persistent, vault-encrypted when available) ──
 
@@ -43,6 +44,10 @@ export async function getLinkKey(linkId: string): Promise<JsonWebKey | undefined
 export interface SenderThreadData {
   privateKeyJwk: JsonWebKey;
   sentMessages: string[];
+  /** V3 ratchet session; absent for threads started by older clients */
+  ratchet?: RatchetState;
+  /** message_id → plaintext for V3 owner replies (message keys are single-use) */
+  received?: Record<string, string>;
 }
 
 export function saveSenderKey(threadId: string, data: SenderThreadData): void {
@@ -166,6 +171,9 @@ export interface RoomKeyData {
   watermarkSeed: string;
   isCreator: boolean;
   createdAt?: number; // Timestamp for cleanup (optional for backwards compat)
+  keyEpoch?: number; // Epoch of groupKey (absent = 0, never rotated)
+  epochKeys?: Record<number, string>; // Earlier epochs' group keys, for older messages
+  pendingEpoch?: { keyEpoch: number; groupKey: string }; // Creator: rotation not yet confirmed by the server
 }
 
 export async function saveRoomKey(roomId: string, data: RoomKeyData): Promise<void> {
@@ -0,0 +1,38 @@
+/**
+ * Passphrase Error Tests
+ * Text for INVALID_PASSPHRASE and LOCKED_OUT responses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatWait, passphraseErrorMessage } from './passphrase-errors';
+
+describe('formatWait', () => {
+  it('uses seconds under a minute and rounds minutes up', () => {
+    expect(formatWait(1)).toBe('1 second');
+    expect(formatWait(30)).toBe('30 seconds');
+    expect(formatWait(60)).toBe('1 minute');
+    expect(formatWait(61)).toBe('2 minutes');
+  });
+});
+
+describe('passphraseErrorMessage', () => {
+  it('reports the wait on LOCKED_OUT', () => {
+    expect(passphraseErrorMessage({ code: 'LOCKED_OUT', details: { retry_after: 120 } }))
+      .toBe('Too many incorrect passphrases. Try again in 2 minutes.');
+  });
+
+  it('warns only when a thread is close to burning', () => {
+    expect(passphraseErrorMessage({ code: 'INVALID_PASSPHRASE' })).toBe('Incorrect passphrase. Please try again.');
+    expect(passphraseErrorMessage({ code: 'INVALID_PASSPHRASE', details: { attempts_remaining: 8 } }))
+      .toBe('Incorrect passphrase. Please try again.');
+    expect(passphraseErrorMessage({ code: 'INVALID_PASSPHRASE', details: { attempts_remaining: 1 } }))
+      .toBe('Incorrect passphrase. 1 more wrong try destroys this conversation.');
+    expect(passphraseErrorMessage({ code: 'INVALID_PASSPHRASE', details: { attempts_remaining: 0 } }))
+      .toBe('Incorrect passphrase. This conversation has been destroyed.');
+  });
+
+  it('ignores other errors', () => {
+    expect(passphraseErrorMessage({ code: 'LINK_PAUSED' })).toBeNull();
+    expect(passphraseErrorMessage(undefined)).toBeNull();
+  });
+});
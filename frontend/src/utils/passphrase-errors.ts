@@ -0,0 +1,37 @@
+/**
+ * Passphrase Errors
+ * Sender-facing text for the OPSEC passphrase errors shared by the first
+ * send and thread unlock: INVALID_PASSPHRASE (with the attempts a thread has
+ * left before it burns itself) and LOCKED_OUT (with the wait in seconds).
+ */
+
+export interface ApiErrorBody {
+  code?: string;
+  message?: string;
+  details?: { attempts_remaining?: number; retry_after?: number };
+}
+
+/** Warn about burning only once it is close */
+const WARN_BELOW_ATTEMPTS = 3;
+
+export function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/** Message for a passphrase error, or null for any other error */
+export function passphraseErrorMessage(error: ApiErrorBody | undefined): string | null {
+  if (error?.code === 'LOCKED_OUT') {
+    const wait = Number(error.details?.retry_after);
+    return `Too many incorrect passphrases. Try again in ${formatWait(wait > 0 ? wait : 60)}.`;
+  }
+  if (error?.code !== 'INVALID_PASSPHRASE') return null;
+
+  const remaining = error.details?.attempts_remaining;
+  if (remaining === 0) return 'Incorrect passphrase. This conversation has been destroyed.';
+  if (remaining !== undefined && remaining <= WARN_BELOW_ATTEMPTS) {
+    return `Incorrect passphrase. ${remaining} more wrong ${remaining === 1 ? 'try destroys' : 'tries destroy'} this conversation.`;
+  }
+  return 'Incorrect passphrase. Please try again.';
+}
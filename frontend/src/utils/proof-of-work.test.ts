@@ -0,0 +1,33 @@
+/**
+ * Proof-of-Work Tests
+ * Zero-bit counting and solving at a difficulty the server would check
+ */
+
+import { describe, it, expect } from 'vitest';
+import { leadingZeroBits, solveProofOfWork } from './proof-of-work';
+
+async function bitsFor(challenge: string, nonce: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${challenge}:${nonce}`));
+  return leadingZeroBits(new Uint8Array(digest));
+}
+
+describe('leadingZeroBits', () => {
+  it('counts zero bits across byte boundaries', () => {
+    expect(leadingZeroBits(new Uint8Array([0xff]))).toBe(0);
+    expect(leadingZeroBits(new Uint8Array([0x01, 0xff]))).toBe(7);
+    expect(leadingZeroBits(new Uint8Array([0x00, 0x00, 0x20]))).toBe(18);
+    expect(leadingZeroBits(new Uint8Array([0x00, 0x00]))).toBe(16);
+  });
+});
+
+describe('solveProofOfWork', () => {
+  it('finds the first nonce with enough zero bits', async () => {
+    const challenge = 'link1234.1700000000000.10.abcdef.sig';
+    const nonce = await solveProofOfWork(challenge, 10);
+
+    expect(await bitsFor(challenge, nonce)).toBeGreaterThanOrEqual(10);
+    for (let i = 0; i < Number(nonce); i += 1) {
+      expect(await bitsFor(challenge, String(i))).toBeLessThan(10);
+    }
+  });
+});
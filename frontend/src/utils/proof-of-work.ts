@@ -0,0 +1,36 @@
+/**
+ * Proof of Work
+ * Solver for the server's hashcash-style send challenge: find a nonce whose
+ * SHA-256("<challenge>:<nonce>") starts with `difficulty` zero bits. No app
+ * imports, so proof-of-work.worker.ts stays small.
+ */
+
+// Digests in flight at once; crypto.subtle is async, so batching is what keeps it fast
+const BATCH_SIZE = 512;
+
+export function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Try nonces 0, 1, 2, … and return the first that meets `difficulty`
+ */
+export async function solveProofOfWork(challenge: string, difficulty: number): Promise<string> {
+  const encoder = new TextEncoder();
+  for (let start = 0; ; start += BATCH_SIZE) {
+    const digests = await Promise.all(
+      Array.from({ length: BATCH_SIZE }, (_, i) =>
+        crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${start + i}`)))
+    );
+    const index = digests.findIndex((d) => leadingZeroBits(new Uint8Array(d)) >= difficulty);
+    if (index !== -1) return String(start + index);
+  }
+}
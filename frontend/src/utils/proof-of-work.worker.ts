@@ -0,0 +1,12 @@
+/**
+ * Proof-of-Work Worker
+ * Solves one send challenge off the main thread and posts back the nonce
+ */
+
+import { solveProofOfWork } from './proof-of-work';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (e: MessageEvent<{ challenge: string; difficulty: number }>) => {
+  ctx.postMessage(await solveProofOfWork(e.data.challenge, e.data.difficulty));
+};
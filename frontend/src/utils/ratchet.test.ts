@@ -0,0 +1,121 @@
+/**
+ * Ratchet Module Tests
+ * Round trips, DH ratchet steps and out-of-order delivery (Node Web Crypto)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPair } from './e2ee';
+import {
+  initSenderSession, initOwnerSession, ratchetEncrypt, ratchetDecrypt,
+  isRatchetCiphertext, canRatchetEncrypt, type RatchetState,
+} from './ratchet';
+
+async function newSession(): Promise<{ sender: RatchetState; owner: RatchetState }> {
+  const link = await generateKeyPair();
+  const identity = await generateKeyPair();
+  return {
+    sender: await initSenderSession(identity, link.publicKeyBase64),
+    owner: await initOwnerSession(link.privateKeyJwk, identity.publicKeyBase64),
+  };
+}
+
+/** Encrypt several messages in order, threading state through */
+async function encryptAll(state: RatchetState, plaintexts: string[]): Promise<{ state: RatchetState; ciphertexts: string[] }> {
+  const ciphertexts: string[] = [];
+  for (const pt of plaintexts) {
+    const out = await ratchetEncrypt(state, pt);
+    state = out.state;
+    ciphertexts.push(out.ciphertext);
+  }
+  return { state, ciphertexts };
+}
+
+describe('ratchet', () => {
+  it('round-trips sender → owner → sender across DH ratchet steps', async () => {
+    let { sender, owner } = await newSession();
+    expect(canRatchetEncrypt(owner)).toBe(false);
+
+    const first = await ratchetEncrypt(sender, 'hello');
+    sender = first.state;
+    expect(isRatchetCiphertext(first.ciphertext)).toBe(true);
+    const received = await ratchetDecrypt(owner, first.ciphertext);
+    owner = received.state;
+    expect(received.plaintext).toBe('hello');
+    expect(canRatchetEncrypt(owner)).toBe(true);
+
+    const reply = await ratchetEncrypt(owner, 'hi back');
+    owner = reply.state;
+    const replyReceived = await ratchetDecrypt(sender, reply.ciphertext);
+    sender = replyReceived.state;
+    expect(replyReceived.plaintext).toBe('hi back');
+
+    const followUp = await ratchetEncrypt(sender, 'again');
+    expect((await ratchetDecrypt(owner, followUp.ciphertext)).plaintext).toBe('again');
+  });
+
+  it('decrypts messages delivered out of order within a chain', async () => {
+    const { sender, owner } = await newSession();
+    const { ciphertexts } = await encryptAll(sender, ['m0', 'm1', 'm2', 'm3']);
+
+    let state = owner;
+    const seen: string[] = [];
+    for (const i of [2, 0, 3, 1]) {
+      const out = await ratchetDecrypt(state, ciphertexts[i]);
+      state = out.state;
+      seen.push(out.plaintext);
+    }
+    expect(seen).toEqual(['m2', 'm0', 'm3', 'm1']);
+    expect(state.skipped).toEqual({});
+  });
+
+  it('decrypts a late message from the previous chain after a ratchet step', async () => {
+    let { sender, owner } = await newSession();
+    const firstChain = await encryptAll(sender, ['a0', 'a1']);
+    sender = firstChain.state;
+
+    // Owner only sees a0, replies, and the sender's next chain arrives before a1
+    owner = (await ratchetDecrypt(owner, firstChain.ciphertexts[0])).state;
+    const reply = await ratchetEncrypt(owner, 'r0');
+    owner = reply.state;
+    sender = (await ratchetDecrypt(sender, reply.ciphertext)).state;
+    const secondChain = await encryptAll(sender, ['b0']);
+
+    const b0 = await ratchetDecrypt(owner, secondChain.ciphertexts[0]);
+    expect(b0.plaintext).toBe('b0');
+    const a1 = await ratchetDecrypt(b0.state, firstChain.ciphertexts[1]);
+    expect(a1.plaintext).toBe('a1');
+  });
+
+  it('rejects a replayed message because its key is single-use', async () => {
+    const { sender, owner } = await newSession();
+    const { ciphertext } = await ratchetEncrypt(sender, 'once');
+    const { state } = await ratchetDecrypt(owner, ciphertext);
+
+    await expect(ratchetDecrypt(state, ciphertext)).rejects.toThrow();
+  });
+
+  it('leaves state untouched when decryption fails', async () => {
+    const { sender, owner } = await newSession();
+    const { ciphertext } = await ratchetEncrypt(sender, 'tamper me');
+    const bytes = Uint8Array.from(atob(ciphertext), (c) => c.charCodeAt(0));
+    bytes[bytes.length - 1] ^= 0xff;
+    const tampered = btoa(String.fromCharCode(...bytes));
+
+    const before = structuredClone(owner);
+    await expect(ratchetDecrypt(owner, tampered)).rejects.toThrow();
+    expect(owner).toEqual(before);
+    expect((await ratchetDecrypt(owner, ciphertext)).plaintext).toBe('tamper me');
+  });
+
+  it('refuses gaps larger than the skip limit', async () => {
+    const { sender, owner } = await newSession();
+    let state = sender;
+    let last = '';
+    for (let i = 0; i < 202; i++) {
+      const out = await ratchetEncrypt(state, `m${i}`);
+      state = out.state;
+      last = out.ciphertext;
+    }
+    await expect(ratchetDecrypt(owner, last)).rejects.toThrow('Too many skipped messages');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Ratchet Module
+ * Double-Ratchet-style session for anonymous link threads (E2EE V3).
+ * Every message gets a single-use key from a symmetric chain, and every reply
+ * round trip rotates the ECDH ratchet key. Once the owner has replied,
+ * compromising the link's static key (or the current state) no longer exposes
+ * earlier messages in the thread. Until then there is no forward secrecy:
+ * every sender message key derives from ECDH(link key, sender_public_key) and
+ * ECDH(link key, the header's ratchet key), and both public keys are in the
+ * thread, so the link's private key opens a thread that never got a reply.
+ * There are no one-time prekeys (X3DH) to take the link key out of that step.
+ * Spec: https://signal.org/docs/specifications/doubleratchet/
+ *
+ * Ciphertext format (binary, then base64-encoded):
+ *   version[1] || ratchetPublicKey[65] || prevChainLength[4] || messageNumber[4] || iv[12] || aes-gcm-ciphertext+tag[...]
+ * The 74-byte header is authenticated as AES-GCM additional data.
+ *
+ * Session setup: SK = HKDF(ECDH(senderIdentityKey, linkKey)), where the sender
+ * identity key is threads.sender_public_key. The sender starts with the link key
+ * as the remote ratchet key; the owner starts with the link key pair as its own.
+ *
+ * State is plain JSON so callers can persist it; functions never mutate their input.
+ */
+
+import { generateKeyPair } from './e2ee';
+
+const ECDH_ALGO: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+export const VERSION_V3 = 0x03;
+const PUB_LENGTH = 65; // P-256 uncompressed raw public key
+const HEADER_LENGTH = 1 + PUB_LENGTH + 4 + 4;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const MAX_SKIP = 200; // Bounds work (and stored keys) for one gap in delivery
+const INIT_INFO = new TextEncoder().encode('burnware-ratchet-v3-init');
+const ROOT_INFO = new TextEncoder().encode('burnware-ratchet-v3-root');
+
+export interface RatchetKeyPair {
+  publicKeyBase64: string;
+  privateKeyJwk: JsonWebKey;
+}
+
+export interface RatchetState {
+  rootKey: string;
+  self: RatchetKeyPair;
+  remote: string | null;
+  sendChain: string | null;
+  recvChain: string | null;
+  sendCount: number;
+  recvCount: number;
+  prevSendCount: number;
+  /** `${remotePublicKey}:${messageNumber}` → message key, for out-of-order delivery */
+  skipped: Record<string, string>;
+}
+
+function bufferToBase64(buf: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buf)));
+}
+
+function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function ecdh(privateKeyJwk: JsonWebKey, publicKeyBase64: string): Promise<ArrayBuffer> {
+  const priv = await crypto.subtle.importKey('jwk', privateKeyJwk, ECDH_ALGO, false, ['deriveBits']);
+  const pub = await crypto.subtle.importKey('raw', base64ToBytes(publicKeyBase64), ECDH_ALGO, false, []);
+  return crypto.subtle.deriveBits({ name: 'ECDH', public: pub }, priv, 256);
+}
+
+async function hkdf(ikm: ArrayBuffer, salt: Uint8Array<ArrayBuffer>, info: Uint8Array<ArrayBuffer>, bytes: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, bytes * 8));
+}
+
+/** KDF_RK: (rootKey, dhOutput) → (rootKey', chainKey) */
+async function kdfRoot(rootKey: string, dhOutput: ArrayBuffer): Promise<[string, string]> {
+  const out = await hkdf(dhOutput, base64ToBytes(rootKey), ROOT_INFO, 64);
+  return [bufferToBase64(out.slice(0, 32)), bufferToBase64(out.slice(32))];
+}
+
+/** KDF_CK: chainKey → (chainKey', messageKey) via HMAC-SHA256 with distinct constants */
+async function kdfChain(chainKey: string): Promise<[string, string]> {
+  const key = await crypto.subtle.importKey(
+    'raw', base64ToBytes(chainKey), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+  );
+  const messageKey = await crypto.subtle.sign('HMAC', key, new Uint8Array([0x01]));
+  const nextChain = await crypto.subtle.sign('HMAC', key, new Uint8Array([0x02]));
+  return [bufferToBase64(nextChain), bufferToBase64(messageKey)];
+}
+
+function messageKeyToAes(messageKey: string, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', base64ToBytes(messageKey), 'AES-GCM', false, [usage]);
+}
+
+async function sharedSecret(privateKeyJwk: JsonWebKey, publicKeyBase64: string): Promise<string> {
+  const out = await hkdf(await ecdh(privateKeyJwk, publicKeyBase64), new Uint8Array(0), INIT_INFO, 32);
+  return bufferToBase64(out);
+}
+
+/** Raw public key from a private JWK (owners only keep the link's private key) */
+async function publicKeyFromJwk(privateKeyJwk: JsonWebKey): Promise<string> {
+  const { kty, crv, x, y } = privateKeyJwk;
+  const pub = await crypto.subtle.importKey('jwk', { kty, crv, x, y }, ECDH_ALGO, true, []);
+  return bufferToBase64(await crypto.subtle.exportKey('raw', pub));
+}
+
+/**
+ * Sender (thread initiator) session. identity is the key pair whose public half
+ * is sent as sender_public_key on the first message. Its sending chain hangs off
+ * the link's static key until the owner's first reply ratchets it away.
+ */
+export async function initSenderSession(
+  identity: RatchetKeyPair,
+  linkPublicKeyBase64: string,
+): Promise<RatchetState> {
+  const sk = await sharedSecret(identity.privateKeyJwk, linkPublicKeyBase64);
+  const self = await generateKeyPair();
+  const [rootKey, sendChain] = await kdfRoot(sk, await ecdh(self.privateKeyJwk, linkPublicKeyBase64));
+  return {
+    rootKey, self, remote: linkPublicKeyBase64, sendChain, recvChain: null,
+    sendCount: 0, recvCount: 0, prevSendCount: 0, skipped: {},
+  };
+}
+
+/**
+ * Owner (link holder) session. Has no sending chain until the first V3
+ * message from the sender arrives.
+ */
+export async function initOwnerSession(
+  linkPrivateKeyJwk: JsonWebKey,
+  senderPublicKeyBase64: string,
+): Promise<RatchetState> {
+  const rootKey = await sharedSecret(linkPrivateKeyJwk, senderPublicKeyBase64);
+  const self = { publicKeyBase64: await publicKeyFromJwk(linkPrivateKeyJwk), privateKeyJwk: linkPrivateKeyJwk };
+  return {
+    rootKey, self, remote: null, sendChain: null, recvChain: null,
+    sendCount: 0, recvCount: 0, prevSendCount: 0, skipped: {},
+  };
+}
+
+export function canRatchetEncrypt(state: RatchetState): boolean {
+  return state.sendChain !== null;
+}
+
+export function isRatchetCiphertext(ciphertextBase64: string): boolean {
+  try {
+    return atob(ciphertextBase64.slice(0, 4)).charCodeAt(0) === VERSION_V3;
+  } catch {
+    return false;
+  }
+}
+
+function encodeHeader(publicKeyBase64: string, prevChainLength: number, messageNumber: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(HEADER_LENGTH);
+  header[0] = VERSION_V3;
+  header.set(base64ToBytes(publicKeyBase64), 1);
+  const view = new DataView(header.buffer);
+  view.setUint32(1 + PUB_LENGTH, prevChainLength);
+  view.setUint32(1 + PUB_LENGTH + 4, messageNumber);
+  return header;
+}
+
+/**
+ * Encrypt the next message on the sending chain.
+ */
+export async function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: string,
+): Promise<{ state: RatchetState; ciphertext: string }> {
+  if (!state.sendChain) throw new Error('Ratchet has no sending chain');
+  const next = structuredClone(state);
+
+  const [sendChain, messageKey] = await kdfChain(state.sendChain);
+  const header = encodeHeader(next.self.publicKeyBase64, next.prevSendCount, next.sendCount);
+  next.sendChain = sendChain;
+  next.sendCount += 1;
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const aesKey = await messageKeyToAes(messageKey, 'encrypt');
+  const ctBuf = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: header }, aesKey, new TextEncoder().encode(plaintext),
+  );
+
+  const blob = new Uint8Array(HEADER_LENGTH + IV_LENGTH + ctBuf.byteLength);
+  blob.set(header, 0);
+  blob.set(iv, HEADER_LENGTH);
+  blob.set(new Uint8Array(ctBuf), HEADER_LENGTH + IV_LENGTH);
+
+  return { state: next, ciphertext: bufferToBase64(blob) };
+}
+
+/** Advance the receiving chain to `until`, keeping the skipped message keys */
+async function skipMessageKeys(state: RatchetState, until: number): Promise<void> {
+  if (!state.recvChain) return;
+  if (until - state.recvCount > MAX_SKIP) throw new Error('Too many skipped messages');
+
+  while (state.recvCount < until) {
+    const [recvChain, messageKey] = await kdfChain(state.recvChain);
+    state.skipped[`${state.remote}:${state.recvCount}`] = messageKey;
+    state.recvChain = recvChain;
+    state.recvCount += 1;
+  }
+
+  // Drop the oldest keys once the cap is exceeded (string keys keep insertion order)
+  const ids = Object.keys(state.skipped);
+  for (const id of ids.slice(0, Math.max(0, ids.length - MAX_SKIP))) delete state.skipped[id];
+}
+
+/** DH ratchet step on receiving a new remote ratchet key */
+async function dhRatchet(state: RatchetState, remote: string): Promise<void> {
+  state.prevSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.recvCount = 0;
+  state.remote = remote;
+  [state.rootKey, state.recvChain] = await kdfRoot(state.rootKey, await ecdh(state.self.privateKeyJwk, remote));
+  state.self = await generateKeyPair();
+  [state.rootKey, state.sendChain] = await kdfRoot(state.rootKey, await ecdh(state.self.privateKeyJwk, remote));
+}
+
+/**
+ * Decrypt a V3 message. Messages may arrive out of order within MAX_SKIP.
+ * On failure the thrown error leaves the caller's state untouched.
+ */
+export async function ratchetDecrypt(
+  state: RatchetState,
+  ciphertextBase64: string,
+): Promise<{ state: RatchetState; plaintext: string }> {
+  const blob = base64ToBytes(ciphertextBase64);
+  if (blob[0] !== VERSION_V3) throw new Error('Not a V3 ciphertext');
+  if (blob.length < HEADER_LENGTH + IV_LENGTH + TAG_LENGTH) throw new Error('Ciphertext too short');
+
+  const header = blob.slice(0, HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+  const remote = bufferToBase64(header.slice(1, 1 + PUB_LENGTH));
+  const prevChainLength = view.getUint32(1 + PUB_LENGTH);
+  const messageNumber = view.getUint32(1 + PUB_LENGTH + 4);
+  const iv = blob.slice(HEADER_LENGTH, HEADER_LENGTH + IV_LENGTH);
+  const ct = blob.slice(HEADER_LENGTH + IV_LENGTH);
+
+  const next = structuredClone(state);
+  const skippedId = `${remote}:${messageNumber}`;
+  let messageKey = next.skipped[skippedId];
+
+  if (messageKey) {
+    delete next.skipped[skippedId];
+  } else {
+    if (remote !== next.remote) {
+      await skipMessageKeys(next, prevChainLength);
+      await dhRatchet(next, remote);
+    }
+    await skipMessageKeys(next, messageNumber);
+    if (!next.recvChain) throw new Error('Ratchet has no receiving chain');
+    [next.recvChain, messageKey] = await kdfChain(next.recvChain);
+    next.recvCount += 1;
+  }
+
+  const aesKey = await messageKeyToAes(messageKey, 'decrypt');
+  const ptBuf = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: header }, aesKey, ct);
+  return { state: next, plaintext: new TextDecoder().decode(ptBuf) };
+}
@@ -0,0 +1,102 @@
+/**
+ * Room Key Epoch Tests
+ * Rotation on removal: remaining members read old and new messages, the removed one can't.
+ * Newcomers unwrap keys a delegated member wrapped with its own key pair.
+ * The creator's new key is saved as pending until the server confirms the epoch.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateGroupKey, generateECDHKeyPair, wrapGroupKey,
+  encryptGroupMessage, decryptGroupMessage,
+} from './room-e2ee';
+import {
+  rotateGroupKey, applyKeyStatus, keyForEpoch, currentEpoch, wrapForRecipients, settlePendingEpoch,
+} from './room-epochs';
+import type { RoomKeyData } from './key-store';
+
+async function newRoom(): Promise<{ creator: RoomKeyData; member: RoomKeyData; roomPublicKey: string }> {
+  const room = await generateECDHKeyPair();
+  const groupKey = await generateGroupKey();
+  const identity = await generateECDHKeyPair();
+  const base = { roomId: 'r1', watermarkSeed: 'seed', groupKey };
+  return {
+    creator: { ...base, ...room, anonymousId: 'creator', isCreator: true },
+    member: { ...base, ...identity, anonymousId: 'member', isCreator: false },
+    roomPublicKey: room.publicKeyBase64,
+  };
+}
+
+describe('room-epochs', () => {
+  it('rotates for remaining members, who keep reading older messages', async () => {
+    const { creator, member, roomPublicKey } = await newRoom();
+    const before = await encryptGroupMessage('epoch 0', creator.groupKey);
+
+    const rotated = await rotateGroupKey(creator, [
+      { participant_id: 'p-member', public_key: member.publicKeyBase64 },
+    ]);
+    expect(rotated.body.key_epoch).toBe(1);
+    expect(currentEpoch(rotated.keys)).toBe(1);
+    expect(rotated.keys.groupKey).not.toBe(creator.groupKey);
+    expect(keyForEpoch(rotated.keys, 0)).toBe(creator.groupKey);
+
+    const previousWrap = await wrapGroupKey(creator.groupKey, creator.privateKeyJwk, member.publicKeyBase64);
+    const updated = await applyKeyStatus({ ...member, groupKey: 'stale' }, {
+      status: 'approved',
+      key_epoch: 1,
+      wrapped_group_key: rotated.body.wrapped_keys[0].wrapped_group_key,
+      room_public_key: roomPublicKey,
+      previous_keys: [{ key_epoch: 0, wrapped_group_key: previousWrap }],
+    });
+
+    expect(updated.groupKey).toBe(rotated.keys.groupKey);
+    const after = await encryptGroupMessage('epoch 1', rotated.keys.groupKey);
+    expect(await decryptGroupMessage(after.ciphertext, after.nonce, keyForEpoch(updated, 1)!)).toBe('epoch 1');
+    expect(await decryptGroupMessage(before.ciphertext, before.nonce, keyForEpoch(updated, 0)!)).toBe('epoch 0');
+  });
+
+  it('gives a removed member nothing that opens the new key', async () => {
+    const { creator, member, roomPublicKey } = await newRoom();
+    const other = await generateECDHKeyPair();
+    const rotated = await rotateGroupKey(creator, [{ participant_id: 'p-other', public_key: other.publicKeyBase64 }]);
+
+    // The removed member only ever saw wraps addressed to someone else
+    await expect(applyKeyStatus(member, {
+      status: 'approved',
+      key_epoch: 1,
+      wrapped_group_key: rotated.body.wrapped_keys[0].wrapped_group_key,
+      room_public_key: roomPublicKey,
+    })).rejects.toThrow();
+    expect(keyForEpoch(member, 1)).toBeUndefined();
+  });
+
+  it('keeps the creator\'s new key pending until the server confirms the epoch', async () => {
+    const { creator } = await newRoom();
+    const rotated = await rotateGroupKey(creator, []);
+
+    expect(currentEpoch(rotated.pending)).toBe(0);
+    expect(rotated.pending.groupKey).toBe(creator.groupKey);
+    expect(keyForEpoch(rotated.pending, 1)).toBe(rotated.keys.groupKey);
+
+    expect(settlePendingEpoch(rotated.pending, 1)).toEqual(rotated.keys);
+    expect(settlePendingEpoch(rotated.pending, 0)).toEqual(creator);
+  });
+
+  it('unwraps a key a delegate wrapped, using the delegate\'s public key', async () => {
+    const { member: delegate, roomPublicKey } = await newRoom();
+    const newcomer = await generateECDHKeyPair();
+    const [wrap] = await wrapForRecipients(delegate.groupKey, delegate.privateKeyJwk, [
+      { participant_id: 'p-new', public_key: newcomer.publicKeyBase64 },
+    ]);
+
+    // No key yet: a keyEpoch unlike the status's forces an unwrap
+    const keys: RoomKeyData = {
+      roomId: 'r1', watermarkSeed: 'seed', groupKey: '', ...newcomer, anonymousId: 'new', isCreator: false, keyEpoch: 1,
+    };
+    const status = { status: 'approved' as const, key_epoch: 0, wrapped_group_key: wrap.wrapped_group_key, room_public_key: roomPublicKey };
+
+    await expect(applyKeyStatus(keys, status)).rejects.toThrow();
+    const updated = await applyKeyStatus(keys, { ...status, wrapper_public_key: delegate.publicKeyBase64 });
+    expect(updated.groupKey).toBe(delegate.groupKey);
+  });
+});
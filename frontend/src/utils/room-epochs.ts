@@ -0,0 +1,144 @@
+/**
+ * Room Key Epochs
+ * Group key rotation for rooms. Removing a participant moves the room to a new
+ * epoch with a fresh AES key, wrapped only for the members who stay; every
+ * message records the epoch it was encrypted under. Members keep the keys of
+ * earlier epochs (epochKeys) so history they were allowed to see stays readable.
+ */
+
+import axios from 'axios';
+import { generateGroupKey, wrapGroupKey, unwrapGroupKey } from './room-e2ee';
+import type { RoomKeyData } from './key-store';
+import type { ParticipantStatus } from '../types';
+
+export interface EpochRecipient {
+  participant_id: string;
+  public_key: string;
+}
+
+export interface WrappedKey {
+  participant_id: string;
+  wrapped_group_key: string;
+}
+
+export function currentEpoch(keys: RoomKeyData): number {
+  return keys.keyEpoch ?? 0;
+}
+
+/** Group key for a message's epoch, or undefined when this member never held it */
+export function keyForEpoch(keys: RoomKeyData, epoch: number = 0): string | undefined {
+  if (epoch === keys.pendingEpoch?.keyEpoch) return keys.pendingEpoch.groupKey;
+  return epoch === currentEpoch(keys) ? keys.groupKey : keys.epochKeys?.[epoch];
+}
+
+/**
+ * Wrap a group key for each recipient with our ECDH private key: the room key
+ * for the creator, a delegate's own key when it distributes to newcomers.
+ */
+export async function wrapForRecipients(
+  groupKey: string,
+  privateKeyJwk: JsonWebKey,
+  recipients: EpochRecipient[],
+): Promise<WrappedKey[]> {
+  return Promise.all(
+    recipients.map(async (r) => ({
+      participant_id: r.participant_id,
+      wrapped_group_key: await wrapGroupKey(groupKey, privateKeyJwk, r.public_key),
+    })),
+  );
+}
+
+/**
+ * Creator: generate the next epoch's key and wrap it for the remaining members.
+ * Returns the key data to save before posting (new key still pending), the
+ * key data to save once the server accepts, and the body for
+ * POST .../participants/:participant_id/remove.
+ */
+export async function rotateGroupKey(
+  keys: RoomKeyData,
+  recipients: EpochRecipient[],
+): Promise<{
+  pending: RoomKeyData;
+  keys: RoomKeyData;
+  body: { key_epoch: number; wrapped_keys: WrappedKey[] };
+}> {
+  const epoch = currentEpoch(keys);
+  const groupKey = await generateGroupKey();
+  const wrapped_keys = await wrapForRecipients(groupKey, keys.privateKeyJwk, recipients);
+  const current = withoutPending(keys);
+
+  return {
+    pending: { ...current, pendingEpoch: { keyEpoch: epoch + 1, groupKey } },
+    keys: promote(current, epoch + 1, groupKey),
+    body: { key_epoch: epoch + 1, wrapped_keys },
+  };
+}
+
+function withoutPending(keys: RoomKeyData): RoomKeyData {
+  const current = { ...keys };
+  delete current.pendingEpoch;
+  return current;
+}
+
+function promote(keys: RoomKeyData, keyEpoch: number, groupKey: string): RoomKeyData {
+  return {
+    ...keys,
+    groupKey,
+    keyEpoch,
+    epochKeys: { ...keys.epochKeys, [currentEpoch(keys)]: keys.groupKey },
+  };
+}
+
+/**
+ * Creator: reconcile a pending rotation with the room's epoch on the server.
+ * The pending key becomes current if the server took it, else it's dropped.
+ */
+export function settlePendingEpoch(keys: RoomKeyData, serverEpoch: number): RoomKeyData {
+  const { pendingEpoch } = keys;
+  if (!pendingEpoch) return keys;
+  const current = withoutPending(keys);
+  return serverEpoch === pendingEpoch.keyEpoch
+    ? promote(current, pendingEpoch.keyEpoch, pendingEpoch.groupKey)
+    : current;
+}
+
+/** Public key to unwrap the current wrap with: the delegate that made it, else the room's */
+export function wrapperKey(status: ParticipantStatus): string {
+  return status.wrapper_public_key ?? status.room_public_key!;
+}
+
+/**
+ * Participant: unwrap the current and earlier keys from a status response.
+ * Server wraps take precedence (a key saved before the first rotation may be
+ * labelled with the wrong epoch); epochs that fail to unwrap keep what we had.
+ */
+export async function applyKeyStatus(keys: RoomKeyData, status: ParticipantStatus): Promise<RoomKeyData> {
+  if (!status.wrapped_group_key || !status.room_public_key) {
+    throw new Error('No group key available');
+  }
+
+  const epoch = status.key_epoch ?? 0;
+  const epochKeys: Record<number, string> = { ...keys.epochKeys };
+  if (epoch !== currentEpoch(keys)) epochKeys[currentEpoch(keys)] = keys.groupKey;
+
+  for (const prev of status.previous_keys || []) {
+    try {
+      const wrapper = prev.wrapper_public_key ?? status.room_public_key;
+      epochKeys[prev.key_epoch] = await unwrapGroupKey(prev.wrapped_group_key, keys.privateKeyJwk, wrapper);
+    } catch {
+      // Left out; messages from that epoch show as undecryptable
+    }
+  }
+  delete epochKeys[epoch];
+
+  const groupKey = epoch === currentEpoch(keys)
+    ? keys.groupKey
+    : await unwrapGroupKey(status.wrapped_group_key, keys.privateKeyJwk, wrapperKey(status));
+
+  return { ...keys, groupKey, keyEpoch: epoch, epochKeys };
+}
+
+/** True when the server refused a send because the room's key has rotated */
+export function isStaleEpochError(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.data?.error?.details?.key_epoch !== undefined;
+}
@@ -0,0 +1,55 @@
+/**
+ * Room Key Distribution
+ * Hands newcomers in auto-approve rooms their first group key: lease a batch
+ * from needs-keys, wrap the current key for each and submit one set-keys call.
+ * Used by the creator (wrapping with the room key) and by delegated members
+ * (wrapping with their own key pair; the server tells recipients which).
+ */
+
+import type { AxiosRequestConfig } from 'axios';
+import apiClient from './api-client';
+import { currentEpoch, wrapForRecipients } from './room-epochs';
+import type { RoomKeyData } from './key-store';
+import type { NeedsKeysBatch } from '../types';
+
+/** Participants leased per needs-keys call (the server allows up to 200) */
+const BATCH_SIZE = 50;
+
+export interface DistributionEndpoints {
+  needsKeys: string;
+  setKeys: string;
+  /** Auth headers for the creator; delegates identify by anonymous_id instead */
+  config?: AxiosRequestConfig;
+  anonymousId?: string;
+}
+
+/**
+ * Distribute keys until no one is left waiting. Returns how many members got a
+ * key; stops early when our key is behind the room's epoch (caller refreshes).
+ */
+export async function distributePendingKeys(keys: RoomKeyData, api: DistributionEndpoints): Promise<number> {
+  const identity = api.anonymousId ? { anonymous_id: api.anonymousId } : {};
+  let distributed = 0;
+
+  for (;;) {
+    const response = await apiClient.get(api.needsKeys, {
+      ...api.config,
+      params: { ...identity, limit: BATCH_SIZE },
+    });
+    const batch: NeedsKeysBatch = response.data?.data ?? response.data;
+    if (batch.key_epoch !== currentEpoch(keys)) return distributed;
+
+    const recipients = batch.participants.filter((p) => (p.public_key ?? '').trim());
+    if (recipients.length === 0) return distributed;
+
+    const wrapped_keys = await wrapForRecipients(keys.groupKey, keys.privateKeyJwk, recipients);
+    const result = await apiClient.post(
+      api.setKeys,
+      { ...identity, key_epoch: batch.key_epoch, wrapped_keys },
+      api.config,
+    );
+    distributed += (result.data?.data?.participant_ids ?? []).length;
+
+    if (batch.participants.length < BATCH_SIZE) return distributed;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Room Lifespan Tests
+ * Join windows measured from the last reopen, and multi-day countdowns
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isRoomLocked, formatTimeRemaining } from './room-lifespan';
+import type { Room } from '../types';
+
+const CREATED = Date.parse('2026-01-01T00:00:00Z');
+const MINUTE = 60 * 1000;
+
+function room(overrides: Partial<Room> = {}): Room {
+  return {
+    room_id: 'r1',
+    display_name: 'Room',
+    created_at: new Date(CREATED).toISOString(),
+    expires_at: new Date(CREATED + 24 * 60 * MINUTE).toISOString(),
+    join_window_opened_at: new Date(CREATED).toISOString(),
+    join_window_minutes: 15,
+    max_participants: 10,
+    participant_count: 1,
+    auto_approve: false,
+    burned: false,
+    ...overrides,
+  };
+}
+
+describe('isRoomLocked', () => {
+  it('locks once the join window has passed', () => {
+    expect(isRoomLocked(room(), CREATED + 10 * MINUTE)).toBe(false);
+    expect(isRoomLocked(room(), CREATED + 16 * MINUTE)).toBe(true);
+  });
+
+  it('measures a reopened window from the reopen time', () => {
+    const reopened = room({ join_window_opened_at: new Date(CREATED + 120 * MINUTE).toISOString() });
+    expect(isRoomLocked(reopened, CREATED + 130 * MINUTE)).toBe(false);
+    expect(isRoomLocked({ ...reopened, locked_at: new Date(CREATED + 125 * MINUTE).toISOString() }, CREATED + 130 * MINUTE))
+      .toBe(true);
+  });
+});
+
+describe('formatTimeRemaining', () => {
+  it('switches to days for multi-day rooms', () => {
+    const expires = new Date(CREATED + 75 * 60 * MINUTE).toISOString();
+    expect(formatTimeRemaining(expires, CREATED)).toBe('3d 3h');
+    expect(formatTimeRemaining(expires, CREATED + 60 * 60 * MINUTE)).toBe('15h 0m');
+    expect(formatTimeRemaining(expires, CREATED + 80 * 60 * MINUTE)).toBe('Expired');
+  });
+});
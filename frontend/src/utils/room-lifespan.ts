@@ -0,0 +1,55 @@
+/**
+ * Room Lifespan
+ * Lock and expiry display for rooms, plus the lifespan / extension / join
+ * window choices offered in the dashboard. The server enforces the
+ * deployment's limits and rejects choices above them with a message.
+ */
+
+import axios from 'axios';
+import type { Room } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const LIFESPAN_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 1, label: '1 hour' },
+  { hours: 6, label: '6 hours' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+  { hours: 720, label: '30 days' },
+];
+
+export const EXTEND_OPTIONS = LIFESPAN_OPTIONS.filter((o) => o.hours <= 168);
+
+export const JOIN_WINDOW_OPTIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+];
+
+/** Locked by the creator, or the current join window (from creation or last reopen) has passed */
+export function isRoomLocked(room: Room, now: number = Date.now()): boolean {
+  if (room.locked_at) return true;
+  const opened = new Date(room.join_window_opened_at ?? room.created_at).getTime();
+  return now > opened + room.join_window_minutes * MINUTE_MS;
+}
+
+/** "2d 3h", "5h 12m" or "Expired" */
+export function formatTimeRemaining(expiresAt: string, now: number = Date.now()): string {
+  const diff = new Date(expiresAt).getTime() - now;
+  if (diff <= 0) return 'Expired';
+  const hours = Math.floor(diff / HOUR_MS);
+  if (hours >= 48) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  return `${hours}h ${Math.floor((diff % HOUR_MS) / MINUTE_MS)}m`;
+}
+
+/** Server's explanation for a rejected choice (e.g. "Rooms can last at most 72 hours") */
+export function limitErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.status === 400) {
+    return error.response.data?.error?.message || fallback;
+  }
+  return fallback;
+}
@@ -0,0 +1,54 @@
+/**
+ * Room Message Tests
+ * Tombstones decrypt to nothing, edits swap in place, change events are recognised
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { generateGroupKey, encryptGroupMessage } from './room-e2ee';
+import { decryptRoomMessage, replaceRoomMessage, isRoomMessageChange } from './room-messages';
+import type { RoomKeyData } from './key-store';
+import type { RoomMessage } from '../types';
+
+// The API client reads Cognito config at import; these tests make no requests
+vi.mock('./api-client', () => ({ default: {} }));
+
+async function setup(): Promise<{ keys: RoomKeyData; message: RoomMessage }> {
+  const groupKey = await generateGroupKey();
+  const keys = {
+    roomId: 'r1', groupKey, anonymousId: 'me', watermarkSeed: 'seed', isCreator: false,
+    privateKeyJwk: {}, publicKeyBase64: '',
+  };
+  const { ciphertext, nonce } = await encryptGroupMessage('hello', groupKey);
+  const message = {
+    message_id: 'm1', room_id: 'r1', anonymous_id: 'me', ciphertext, nonce,
+    key_epoch: 0, created_at: new Date().toISOString(),
+  };
+  return { keys, message };
+}
+
+describe('room-messages', () => {
+  it('decrypts live messages and leaves tombstones blank', async () => {
+    const { keys, message } = await setup();
+
+    expect(await decryptRoomMessage(message, keys)).toMatchObject({ plaintext: 'hello', isOwn: true });
+
+    const tombstone = { ...message, ciphertext: '', nonce: '', deleted_at: new Date().toISOString() };
+    expect(await decryptRoomMessage(tombstone, keys)).toMatchObject({ plaintext: '', isOwn: true });
+  });
+
+  it('swaps an updated message in place and ignores unknown ones', async () => {
+    const { keys, message } = await setup();
+    const list = [await decryptRoomMessage(message, keys)];
+    const edited = { ...list[0], plaintext: 'hello again', edited_at: new Date().toISOString() };
+
+    expect(replaceRoomMessage(list, edited)).toEqual([edited]);
+    expect(replaceRoomMessage(list, { ...edited, message_id: 'm2' })).toEqual(list);
+  });
+
+  it('recognises edit and delete events only', () => {
+    expect(isRoomMessageChange({ message_id: 'm1', change: 'deleted' })).toBe(true);
+    expect(isRoomMessageChange({ message_id: 'm1', anonymous_id: 'me' })).toBe(false);
+    expect(isRoomMessageChange({ room_id: 'r1', key_epoch: 1 })).toBe(false);
+    expect(isRoomMessageChange(null)).toBe(false);
+  });
+});
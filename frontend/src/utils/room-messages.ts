@@ -0,0 +1,98 @@
+/**
+ * Room Messages
+ * Decrypting room messages (including unsent tombstones), and editing,
+ * unsending and re-reading a single message after an edit/delete event.
+ * Shared by the dashboard room window and the participant room page.
+ */
+
+import apiClient from './api-client';
+import { endpoints } from '../config/api-endpoints';
+import { encryptGroupMessage, decryptGroupMessage } from './room-e2ee';
+import { currentEpoch, keyForEpoch, isStaleEpochError } from './room-epochs';
+import { decodeMessage, encodeMessage } from './attachments';
+import type { RoomKeyData } from './key-store';
+import type { RoomMessage } from '../types';
+
+export interface DecryptedRoomMessage extends RoomMessage {
+  plaintext: string;
+  isOwn: boolean;
+}
+
+/** AppSync event for an edited or unsent message (carries no content) */
+export interface RoomMessageChange {
+  message_id: string;
+  change: 'edited' | 'deleted';
+}
+
+export function isRoomMessageChange(data: unknown): data is RoomMessageChange {
+  const event = data as Partial<RoomMessageChange> | null;
+  return typeof event?.message_id === 'string' && (event.change === 'edited' || event.change === 'deleted');
+}
+
+export async function decryptRoomMessage(msg: RoomMessage, keys: RoomKeyData): Promise<DecryptedRoomMessage> {
+  const isOwn = msg.anonymous_id === keys.anonymousId;
+  if (msg.deleted_at) return { ...msg, plaintext: '', isOwn };
+
+  try {
+    const groupKey = keyForEpoch(keys, msg.key_epoch);
+    if (!groupKey) throw new Error('No key for epoch');
+    return { ...msg, plaintext: await decryptGroupMessage(msg.ciphertext, msg.nonce, groupKey), isOwn };
+  } catch {
+    return { ...msg, plaintext: '[Decryption failed]', isOwn: false };
+  }
+}
+
+/** Swap an updated message into the list in place (ignored if not loaded yet) */
+export function replaceRoomMessage(
+  messages: DecryptedRoomMessage[],
+  updated: DecryptedRoomMessage
+): DecryptedRoomMessage[] {
+  return messages.map((m) => (m.message_id === updated.message_id ? updated : m));
+}
+
+export async function fetchRoomMessage(roomId: string, messageId: string, anonymousId: string): Promise<RoomMessage> {
+  const response = await apiClient.get(
+    `${endpoints.public.roomMessage(roomId, messageId)}?anonymous_id=${anonymousId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Replace the text of an own message, keeping its attachments. On a stale
+ * epoch, refreshKeys supplies the rotated key and the edit is retried once.
+ * Resolves with the keys used (callers keep them if they changed).
+ */
+export async function editRoomMessage(
+  roomId: string,
+  message: DecryptedRoomMessage,
+  text: string,
+  keys: RoomKeyData,
+  refreshKeys: (keys: RoomKeyData) => Promise<RoomKeyData | null>
+): Promise<RoomKeyData> {
+  const plaintext = encodeMessage(text, decodeMessage(message.plaintext).attachments);
+  const patch = async (k: RoomKeyData) => {
+    const { ciphertext, nonce } = await encryptGroupMessage(plaintext, k.groupKey);
+    await apiClient.patch(endpoints.public.roomMessage(roomId, message.message_id), {
+      anonymous_id: k.anonymousId,
+      ciphertext,
+      nonce,
+      key_epoch: currentEpoch(k),
+    });
+  };
+
+  try {
+    await patch(keys);
+    return keys;
+  } catch (err) {
+    const latest = isStaleEpochError(err) ? await refreshKeys(keys) : null;
+    if (!latest) throw err;
+    await patch(latest);
+    return latest;
+  }
+}
+
+export async function deleteRoomMessage(roomId: string, messageId: string, anonymousId: string): Promise<void> {
+  await apiClient.delete(endpoints.public.roomMessage(roomId, messageId), {
+    data: { anonymous_id: anonymousId },
+  });
+}
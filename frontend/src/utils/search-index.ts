@@ -0,0 +1,114 @@
+/**
+ * Search Index
+ * Owner-side full-text index over decrypted thread history. The server only
+ * holds ciphertext, so the dashboard indexes plaintext as it decrypts threads.
+ * One IndexedDB entry per thread, always vault-encrypted: nothing is indexed
+ * while the vault is locked. Keys are `${link_id}/${thread_id}` so burned
+ * threads and links can be purged without unlocking.
+ */
+
+import { isVaultUnlocked, encryptForVault, decryptFromVault } from './key-vault';
+import {
+  SEARCH_INDEX_STORE, idbPut, idbEntries, idbDeleteMany,
+  isVaultWrapped, type VaultWrappedEntry,
+} from './key-store-db';
+import { searchThreads, type IndexedThread, type SearchHit } from './search-match';
+
+// Last indexed signature per entry, so 30s polls don't re-encrypt unchanged threads
+const indexed = new Map<string, string>();
+
+function entryKey(linkId: string, threadId: string): string {
+  return `${linkId}/${threadId}`;
+}
+
+function linkRange(linkId: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${linkId}/`, `${linkId}/\uffff`);
+}
+
+function signature(thread: IndexedThread): string {
+  return `${thread.link_name}|${thread.messages.map((m) => m.message_id).join(',')}`;
+}
+
+async function deleteEntries(keys: string[]): Promise<void> {
+  await idbDeleteMany(SEARCH_INDEX_STORE, keys);
+  for (const key of keys) indexed.delete(key);
+}
+
+/**
+ * Add or refresh decrypted threads. Threads without readable messages are
+ * skipped; a no-op while the vault is locked (plaintext never hits disk).
+ */
+export async function indexThreads(threads: IndexedThread[]): Promise<void> {
+  if (!isVaultUnlocked()) return;
+
+  for (const thread of threads) {
+    if (thread.messages.length === 0) continue;
+    const key = entryKey(thread.link_id, thread.thread_id);
+    const sig = signature(thread);
+    if (indexed.get(key) === sig) continue;
+
+    const { ct, iv } = await encryptForVault(JSON.stringify(thread));
+    await idbPut(SEARCH_INDEX_STORE, key, { _vault: true, ct, iv } as VaultWrappedEntry);
+    indexed.set(key, sig);
+  }
+}
+
+/**
+ * Drop a link's threads that the server no longer lists as active (burned or
+ * expired); returns the dropped thread ids
+ */
+export async function pruneLinkThreads(linkId: string, activeThreadIds: string[]): Promise<string[]> {
+  const active = new Set(activeThreadIds.map((id) => entryKey(linkId, id)));
+  const entries = await idbEntries<unknown>(SEARCH_INDEX_STORE, linkRange(linkId));
+  const stale = entries.map(([key]) => key).filter((key) => !active.has(key));
+  await deleteEntries(stale);
+  return stale.map((key) => key.slice(linkId.length + 1));
+}
+
+/**
+ * Apply one page of a link's thread list: burned threads are dropped, and so
+ * is every unlisted thread when the page holds all `total` threads (otherwise
+ * older threads would look burned). Returns the dropped thread ids.
+ */
+export async function pruneListedThreads(
+  linkId: string,
+  threads: { thread_id: string; burned?: boolean }[],
+  total: number | undefined,
+): Promise<string[]> {
+  if (total !== undefined && threads.length >= total) {
+    return pruneLinkThreads(linkId, threads.filter((t) => !t.burned).map((t) => t.thread_id));
+  }
+  const burned = threads.filter((t) => t.burned).map((t) => t.thread_id);
+  await deleteEntries(burned.map((id) => entryKey(linkId, id)));
+  return burned;
+}
+
+/** Drop every thread of links that no longer exist (burned or deleted) */
+export async function pruneLinks(activeLinkIds: string[]): Promise<void> {
+  const active = new Set(activeLinkIds);
+  const entries = await idbEntries<unknown>(SEARCH_INDEX_STORE);
+  await deleteEntries(
+    entries.map(([key]) => key).filter((key) => !active.has(key.slice(0, key.lastIndexOf('/')))),
+  );
+}
+
+export function removeThreadFromIndex(linkId: string, threadId: string): Promise<void> {
+  return deleteEntries([entryKey(linkId, threadId)]);
+}
+
+/**
+ * Search the index. Returns null while the vault is locked.
+ */
+export async function searchIndex(query: string): Promise<SearchHit[] | null> {
+  if (!isVaultUnlocked()) return null;
+
+  const entries = await idbEntries<VaultWrappedEntry>(SEARCH_INDEX_STORE);
+  const threads: IndexedThread[] = [];
+  for (const [, val] of entries) {
+    if (!isVaultWrapped(val)) continue;
+    try {
+      threads.push(JSON.parse(await decryptFromVault(val.ct, val.iv)) as IndexedThread);
+    } catch { /* skip entries from another vault */ }
+  }
+  return searchThreads(threads, query);
+}
@@ -0,0 +1,61 @@
+/**
+ * Search Matching Tests
+ * Term matching, ordering and snippets over an in-memory index
+ */
+
+import { describe, it, expect } from 'vitest';
+import { searchThreads, makeSnippet, parseQuery, type IndexedThread } from './search-match';
+
+const threads: IndexedThread[] = [
+  {
+    link_id: 'link-a',
+    link_name: 'Tips',
+    thread_id: 't1',
+    sender_anonymous_id: 'anon-1',
+    messages: [
+      { message_id: 'm1', sender_type: 'anonymous', created_at: '2026-01-01T10:00:00Z', text: 'Meet at the Café at noon' },
+      { message_id: 'm2', sender_type: 'owner', created_at: '2026-01-01T11:00:00Z', text: 'Which cafe?' },
+    ],
+  },
+  {
+    link_id: 'link-b',
+    link_name: 'Leaks',
+    thread_id: 't2',
+    sender_anonymous_id: 'anon-2',
+    messages: [
+      { message_id: 'm3', sender_type: 'anonymous', created_at: '2026-01-02T09:00:00Z', text: 'documents attached report.pdf' },
+    ],
+  },
+];
+
+describe('searchThreads', () => {
+  it('matches case- and accent-insensitively, newest first', () => {
+    const hits = searchThreads(threads, 'CAFE');
+    expect(hits.map((h) => h.message_id)).toEqual(['m2', 'm1']);
+    expect(hits[1]).toMatchObject({ link_id: 'link-a', thread_id: 't1', link_name: 'Tips' });
+  });
+
+  it('requires every term', () => {
+    expect(searchThreads(threads, 'cafe noon').map((h) => h.message_id)).toEqual(['m1']);
+    expect(searchThreads(threads, 'cafe report')).toEqual([]);
+  });
+
+  it('ignores blank queries and honours the limit', () => {
+    expect(searchThreads(threads, '   ')).toEqual([]);
+    expect(searchThreads(threads, 'a', 1)).toHaveLength(1);
+  });
+});
+
+describe('makeSnippet', () => {
+  it('keeps short messages whole', () => {
+    expect(makeSnippet('Which cafe?', parseQuery('cafe'))).toBe('Which cafe?');
+  });
+
+  it('centres long messages on the first match', () => {
+    const text = `${'x'.repeat(100)} needle ${'y'.repeat(100)}`;
+    const snippet = makeSnippet(text, parseQuery('needle'));
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('needle');
+  });
+});
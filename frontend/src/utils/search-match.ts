@@ -0,0 +1,87 @@
+/**
+ * Search Matching
+ * Pure query matching and snippets for the owner's thread search index
+ * (search-index.ts). Case- and accent-insensitive; every term must appear.
+ */
+
+export interface IndexedMessage {
+  message_id: string;
+  sender_type: string;
+  created_at: string;
+  text: string;
+}
+
+export interface IndexedThread {
+  link_id: string;
+  link_name: string;
+  thread_id: string;
+  sender_anonymous_id: string;
+  messages: IndexedMessage[];
+}
+
+export interface SearchHit {
+  link_id: string;
+  link_name: string;
+  thread_id: string;
+  sender_anonymous_id: string;
+  message_id: string;
+  sender_type: string;
+  created_at: string;
+  snippet: string;
+}
+
+export const MAX_SEARCH_HITS = 50;
+const SNIPPET_CONTEXT = 40;
+
+/** Lowercase and strip diacritics so "Café" matches "cafe" */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function parseQuery(query: string): string[] {
+  return normalizeText(query).split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Text around the first matching term, with ellipses where it was cut.
+ * Indices are taken from the original text (normalization keeps lengths for
+ * precomposed input; a decomposed original only shifts the window slightly).
+ */
+export function makeSnippet(text: string, terms: string[]): string {
+  const haystack = normalizeText(text);
+  const positions = terms.map((t) => haystack.indexOf(t)).filter((i) => i >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, at - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, at + SNIPPET_CONTEXT * 2);
+  const body = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
+
+/** All messages matching every term, newest first */
+export function searchThreads(threads: IndexedThread[], query: string, limit = MAX_SEARCH_HITS): SearchHit[] {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  const hits: SearchHit[] = [];
+  for (const thread of threads) {
+    for (const msg of thread.messages) {
+      const haystack = normalizeText(msg.text);
+      if (!terms.every((t) => haystack.includes(t))) continue;
+      hits.push({
+        link_id: thread.link_id,
+        link_name: thread.link_name,
+        thread_id: thread.thread_id,
+        sender_anonymous_id: thread.sender_anonymous_id,
+        message_id: msg.message_id,
+        sender_type: msg.sender_type,
+        created_at: msg.created_at,
+        snippet: makeSnippet(msg.text, terms),
+      });
+    }
+  }
+
+  return hits
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,45 @@
+/**
+ * Send Challenge
+ * Fetches the proof-of-work challenge for a first message and solves it in a
+ * Web Worker so the send window stays responsive. Nothing identifying is sent:
+ * the challenge is bound to the link only.
+ */
+
+import apiClient from './api-client';
+import { endpoints } from '../config/api-endpoints';
+import { solveProofOfWork } from './proof-of-work';
+
+export interface SendProof {
+  challenge: string;
+  nonce: string;
+}
+
+function solveInWorker(challenge: string, difficulty: number): Promise<string> {
+  if (typeof Worker === 'undefined') return solveProofOfWork(challenge, difficulty);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./proof-of-work.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<string>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Proof-of-work worker failed'));
+    };
+    worker.postMessage({ challenge, difficulty });
+  });
+}
+
+/**
+ * Fetch and solve a send challenge for the link; undefined when the server
+ * does not require one
+ */
+export async function getSendProof(linkId: string): Promise<SendProof | undefined> {
+  const response = await apiClient.get(endpoints.public.challenge(linkId));
+  const { required, challenge, difficulty } = response.data.data as {
+    required: boolean; challenge?: string; difficulty?: number;
+  };
+  if (!required || !challenge || difficulty === undefined) return undefined;
+  return { challenge, nonce: await solveInWorker(challenge, difficulty) };
+}
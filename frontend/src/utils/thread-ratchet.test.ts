@@ -0,0 +1,96 @@
+/**
+ * Thread Ratchet Tests
+ * Owner sessions are never written to IndexedDB in plaintext while a
+ * configured vault is locked, and move between devices without forking
+ * (Node Web Crypto, storage mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateKeyPair } from './e2ee';
+
+const vault = vi.hoisted(() => ({ configured: false }));
+const store = vi.hoisted(() => new Map<string, unknown>());
+const idbPut = vi.hoisted(() => vi.fn(async (_store: string, key: string, value: unknown) => { store.set(key, value); }));
+
+vi.mock('./key-store', () => ({ getSenderKey: () => undefined, saveSenderKey: () => {} }));
+vi.mock('./key-vault', () => ({
+  isVaultConfigured: async () => vault.configured,
+  isVaultUnlocked: () => false,
+  encryptForVault: async () => { throw new Error('locked'); },
+  decryptFromVault: async () => { throw new Error('locked'); },
+}));
+vi.mock('./key-store-db', () => ({
+  RATCHET_STORE: 'ratchetSessions',
+  idbGet: async (_store: string, key: string) => store.get(key),
+  idbPut,
+  idbDelete: async (_store: string, key: string) => { store.delete(key); },
+  idbEntries: async () => [...store.entries()],
+  isVaultWrapped: (val: unknown) => !!val && (val as { _vault?: boolean })._vault === true,
+}));
+
+import {
+  encryptFirstMessage, decryptSenderMessages, encryptOwnerReply,
+  exportOwnerSessions, importOwnerSessions, handOffOwnerSessions,
+} from './thread-ratchet';
+import { isRatchetCiphertext } from './ratchet';
+
+async function firstMessage(threadId: string) {
+  const link = await generateKeyPair();
+  const { ciphertext, senderPublicKeyBase64 } = await encryptFirstMessage('hello', link.publicKeyBase64);
+  const messages = [{ message_id: `${threadId}-m1`, content: ciphertext, sender_type: 'anonymous' }];
+  return {
+    decryptAll: () => decryptSenderMessages(threadId, senderPublicKeyBase64, link.privateKeyJwk, messages),
+    reply: async (text: string) => isRatchetCiphertext(await encryptOwnerReply(threadId, senderPublicKeyBase64, text)),
+  };
+}
+
+describe('thread ratchet owner sessions', () => {
+  beforeEach(() => {
+    idbPut.mockClear();
+    store.clear();
+  });
+
+  it('keeps the session in memory while a configured vault is locked', async () => {
+    vault.configured = true;
+    const { decryptAll } = await firstMessage('locked-thread');
+
+    expect(await decryptAll()).toEqual({ 'locked-thread-m1': 'hello' });
+    expect(idbPut).not.toHaveBeenCalled();
+    // The message key is gone from the ratchet; the plaintext comes from the in-memory cache
+    expect(await decryptAll()).toEqual({ 'locked-thread-m1': 'hello' });
+  });
+
+  it('persists the session when no vault is set up', async () => {
+    vault.configured = false;
+    const { decryptAll } = await firstMessage('plain-thread');
+
+    expect(await decryptAll()).toEqual({ 'plain-thread-m1': 'hello' });
+    expect(idbPut).toHaveBeenCalledWith(
+      'ratchetSessions',
+      'plain-thread',
+      expect.objectContaining({ plaintexts: { 'plain-thread-m1': 'hello' } }),
+    );
+  });
+
+  it('hands the session to a linked device and keeps only the history here', async () => {
+    vault.configured = false;
+    const { decryptAll, reply } = await firstMessage('moved-thread');
+    await decryptAll();
+
+    // Sessions from the other tests stay in memory; move this thread's only
+    const sessions = { 'moved-thread': (await exportOwnerSessions())['moved-thread'] };
+    expect(sessions['moved-thread'].state).not.toBeNull();
+    await handOffOwnerSessions(sessions);
+
+    // Old device: history still opens, replies fall back to V2 so the ratchet can't fork
+    expect(await decryptAll()).toEqual({ 'moved-thread-m1': 'hello' });
+    expect(await reply('from the old device')).toBe(false);
+    expect(await exportOwnerSessions()).not.toHaveProperty('moved-thread');
+
+    // New device: owns the ratchet and answers with V3
+    store.clear();
+    expect(await importOwnerSessions(sessions)).toBe(1);
+    expect(await decryptAll()).toEqual({ 'moved-thread-m1': 'hello' });
+    expect(await reply('from the new device')).toBe(true);
+  });
+});
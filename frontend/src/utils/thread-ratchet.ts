@@ -0,0 +1,255 @@
+/**
+ * Thread Ratchet
+ * Wires the V3 ratchet (ratchet.ts) into anonymous link threads.
+ * Sender sessions live in sessionStorage with the sender key; owner sessions
+ * live in IndexedDB, vault-encrypted whenever a vault is set up (and kept in
+ * memory only while it is locked). Decrypted V3
+ * plaintexts are cached next to the session because each message key is
+ * deleted after first use. V1/V2 ciphertexts still go through e2ee.ts.
+ * One device owns each owner session: linking a device moves it there
+ * (device-link.ts), and the old device keeps only the decrypted history and
+ * answers with V2, so the two never fork the ratchet.
+ */
+
+import { encrypt, decrypt, generateKeyPair } from './e2ee';
+import {
+  initSenderSession, initOwnerSession, ratchetEncrypt, ratchetDecrypt,
+  canRatchetEncrypt, isRatchetCiphertext, type RatchetState,
+} from './ratchet';
+import { getSenderKey, saveSenderKey, type SenderThreadData } from './key-store';
+import { isVaultConfigured, isVaultUnlocked, encryptForVault, decryptFromVault } from './key-vault';
+import {
+  RATCHET_STORE, idbGet, idbPut, idbDelete, idbEntries,
+  isVaultWrapped, type VaultWrappedEntry,
+} from './key-store-db';
+
+export interface OwnerSession {
+  state: RatchetState | null; // null once handed to another device
+  plaintexts: Record<string, string>; // message_id → plaintext
+}
+
+interface ThreadMessage {
+  message_id: string;
+  content: string;
+  sender_type: string;
+}
+
+// Per-thread queue: polls, sends and AppSync refreshes must not fork the state
+const queues = new Map<string, Promise<unknown>>();
+
+function serialized<T>(threadId: string, fn: () => Promise<T>): Promise<T> {
+  const run = (queues.get(threadId) || Promise.resolve()).then(fn, fn);
+  queues.set(threadId, run.catch(() => {}));
+  return run;
+}
+
+// ── Sender side ──
+
+/**
+ * Encrypt the first message of a new thread and start a V3 session.
+ * senderPublicKeyBase64 is sent as sender_public_key; senderData is saved once the thread id is known.
+ */
+export async function encryptFirstMessage(
+  plaintext: string,
+  linkPublicKeyBase64: string,
+): Promise<{
+  ciphertext: string;
+  senderPublicKeyBase64: string;
+  senderData: Omit<SenderThreadData, 'sentMessages'>;
+}> {
+  const identity = await generateKeyPair();
+  const session = await initSenderSession(identity, linkPublicKeyBase64);
+  const { state, ciphertext } = await ratchetEncrypt(session, plaintext);
+  return {
+    ciphertext,
+    senderPublicKeyBase64: identity.publicKeyBase64,
+    senderData: { privateKeyJwk: identity.privateKeyJwk, ratchet: state, received: {} },
+  };
+}
+
+/**
+ * Encrypt a follow-up from the sender (V3 when the thread has a session, else V2)
+ */
+export function encryptSenderMessage(
+  threadId: string,
+  plaintext: string,
+  linkPublicKeyBase64: string,
+): Promise<string> {
+  return serialized(threadId, async () => {
+    const data = getSenderKey(threadId);
+    if (!data?.ratchet) return (await encrypt(plaintext, linkPublicKeyBase64)).ciphertext;
+
+    const { state, ciphertext } = await ratchetEncrypt(data.ratchet, plaintext);
+    saveSenderKey(threadId, { ...(getSenderKey(threadId) || data), ratchet: state });
+    return ciphertext;
+  });
+}
+
+/**
+ * Decrypt an owner reply for the sender. Throws when it can't be decrypted.
+ */
+export function decryptOwnerReply(threadId: string, messageId: string, ciphertext: string): Promise<string> {
+  return serialized(threadId, async () => {
+    const data = getSenderKey(threadId);
+    if (!data) throw new Error('Sender key not available');
+    if (!isRatchetCiphertext(ciphertext)) return decrypt(ciphertext, data.privateKeyJwk);
+
+    const cached = data.received?.[messageId];
+    if (cached !== undefined) return cached;
+    if (!data.ratchet) throw new Error('No ratchet session for thread');
+
+    const { state, plaintext } = await ratchetDecrypt(data.ratchet, ciphertext);
+    const latest = getSenderKey(threadId) || data;
+    saveSenderKey(threadId, {
+      ...latest,
+      ratchet: state,
+      received: { ...latest.received, [messageId]: plaintext },
+    });
+    return plaintext;
+  });
+}
+
+// ── Owner side ──
+
+// Sessions updated while the vault is locked; persisted on the next save after unlock
+const unsavedSessions = new Map<string, OwnerSession>();
+
+/** undefined = no session yet; null = session exists but the vault is locked */
+async function loadOwnerSession(threadId: string): Promise<OwnerSession | null | undefined> {
+  const unsaved = unsavedSessions.get(threadId);
+  if (unsaved) return unsaved;
+  const stored = await idbGet<OwnerSession | VaultWrappedEntry>(RATCHET_STORE, threadId);
+  if (!stored) return undefined;
+  if (isVaultWrapped(stored)) {
+    if (!isVaultUnlocked()) return null;
+    return JSON.parse(await decryptFromVault(stored.ct, stored.iv)) as OwnerSession;
+  }
+  return stored;
+}
+
+async function saveOwnerSession(threadId: string, session: OwnerSession): Promise<void> {
+  if (isVaultUnlocked()) {
+    const { ct, iv } = await encryptForVault(JSON.stringify(session));
+    await idbPut(RATCHET_STORE, threadId, { _vault: true, ct, iv } as VaultWrappedEntry);
+    unsavedSessions.delete(threadId);
+    return;
+  }
+  // Never write plaintexts to disk when a vault exists, or over a wrapped entry
+  const stored = await idbGet<OwnerSession | VaultWrappedEntry>(RATCHET_STORE, threadId);
+  if (isVaultWrapped(stored) || await isVaultConfigured()) {
+    unsavedSessions.set(threadId, session);
+    return;
+  }
+  await idbPut(RATCHET_STORE, threadId, session);
+}
+
+/**
+ * Decrypt the sender's messages in a thread for the owner.
+ * Returns message_id → plaintext; messages that can't be decrypted are omitted.
+ */
+export function decryptSenderMessages(
+  threadId: string,
+  senderPublicKeyBase64: string | undefined,
+  linkKey: JsonWebKey,
+  messages: ThreadMessage[],
+): Promise<Record<string, string>> {
+  return serialized(threadId, async () => {
+    const stored = await loadOwnerSession(threadId);
+    let session = stored;
+    let dirty = false;
+    const plaintexts: Record<string, string> = {};
+
+    for (const msg of messages) {
+      if (msg.sender_type !== 'anonymous') continue;
+      try {
+        if (!isRatchetCiphertext(msg.content)) {
+          plaintexts[msg.message_id] = await decrypt(msg.content, linkKey);
+          continue;
+        }
+        // Never start over on top of a session we can't read
+        if (stored === null) continue;
+        if (session?.plaintexts[msg.message_id] !== undefined) {
+          plaintexts[msg.message_id] = session.plaintexts[msg.message_id];
+          continue;
+        }
+        if (!session) {
+          if (!senderPublicKeyBase64) continue;
+          session = { state: await initOwnerSession(linkKey, senderPublicKeyBase64), plaintexts: {} };
+        }
+        // Handed off: newer messages only open on the device that owns the session
+        if (!session.state) continue;
+
+        const { state, plaintext } = await ratchetDecrypt(session.state, msg.content);
+        session = { state, plaintexts: { ...session.plaintexts, [msg.message_id]: plaintext } };
+        plaintexts[msg.message_id] = plaintext;
+        dirty = true;
+      } catch {
+        // Left for the caller to show as undecryptable
+      }
+    }
+
+    if (dirty && session) await saveOwnerSession(threadId, session);
+    return plaintexts;
+  });
+}
+
+/**
+ * Encrypt an owner reply (V3 once the thread's session has a sending chain
+ * and this device owns it, else V2 to the sender's public key)
+ */
+export function encryptOwnerReply(
+  threadId: string,
+  senderPublicKeyBase64: string,
+  plaintext: string,
+): Promise<string> {
+  return serialized(threadId, async () => {
+    const session = await loadOwnerSession(threadId);
+    if (!session?.state || !canRatchetEncrypt(session.state)) {
+      return (await encrypt(plaintext, senderPublicKeyBase64)).ciphertext;
+    }
+
+    const { state, ciphertext } = await ratchetEncrypt(session.state, plaintext);
+    await saveOwnerSession(threadId, { ...session, state });
+    return ciphertext;
+  });
+}
+
+/** Drop the owner's session (thread burned) */
+export function forgetOwnerSession(threadId: string): Promise<void> {
+  return serialized(threadId, () => {
+    unsavedSessions.delete(threadId);
+    return idbDelete(RATCHET_STORE, threadId);
+  });
+}
+
+// ── Device link ──
+
+/** Sessions this device owns and can read (wrapped ones need the vault unlocked), by thread id */
+export async function exportOwnerSessions(): Promise<Record<string, OwnerSession>> {
+  const stored = (await idbEntries(RATCHET_STORE)).map(([threadId]) => threadId);
+  const threadIds = new Set([...stored, ...unsavedSessions.keys()]);
+  const sessions: Record<string, OwnerSession> = {};
+  for (const threadId of threadIds) {
+    const session = await serialized(threadId, () => loadOwnerSession(threadId));
+    if (session?.state) sessions[threadId] = session;
+  }
+  return sessions;
+}
+
+/** Take over sessions from another device; they replace any held here */
+export async function importOwnerSessions(sessions: Record<string, OwnerSession>): Promise<number> {
+  for (const [threadId, session] of Object.entries(sessions)) {
+    await serialized(threadId, () => saveOwnerSession(threadId, session));
+  }
+  return Object.keys(sessions).length;
+}
+
+/** The sessions were delivered to another device: keep their history here, give up the ratchet */
+export async function handOffOwnerSessions(sessions: Record<string, OwnerSession>): Promise<void> {
+  for (const [threadId, sent] of Object.entries(sessions)) {
+    await serialized(threadId, async () => {
+      const current = await loadOwnerSession(threadId);
+      await saveOwnerSession(threadId, { state: null, plaintexts: current?.plaintexts ?? sent.plaintexts });
+    });
+  }
+}
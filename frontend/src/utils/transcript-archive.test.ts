@@ -0,0 +1,71 @@
+/**
+ * Transcript Archive Tests
+ * Archives round trip under their passphrase, and any edit to the header or
+ * the sealed contents is refused (Node Web Crypto)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportTranscriptArchive, openTranscriptArchive, renderTranscriptHtml, roomTranscript,
+  type Transcript, type TranscriptArchiveFile,
+} from './transcript-archive';
+import type { DecryptedRoomMessage } from './room-messages';
+
+const transcript: Transcript = {
+  kind: 'thread',
+  title: 'Tips <script>',
+  messages: [
+    { sender: 'Anonymous', own: false, sent_at: '2026-10-01T10:00:00.000Z', text: 'hello <b>', attachments: ['a.png'] },
+    { sender: 'You', own: true, sent_at: '2026-10-01T10:01:00.000Z', text: 'hi', attachments: [] },
+  ],
+};
+
+describe('transcript-archive', () => {
+  it('opens with the export passphrase and refuses a wrong one', async () => {
+    const file = await exportTranscriptArchive(transcript, 'evidence pass');
+    const text = JSON.stringify(file);
+    expect(text).not.toContain('hello');
+
+    const opened = await openTranscriptArchive(text, 'evidence pass');
+    expect(opened.transcript).toEqual(transcript);
+    expect(opened.manifest.message_count).toBe(2);
+    // The sealed html is not hash-checked, so the view is rendered again
+    expect(opened).not.toHaveProperty('html');
+    const html = renderTranscriptHtml(opened.transcript, opened.manifest);
+    expect(html).toContain('hello &#60;b&#62;');
+    expect(html).not.toContain('<script>');
+
+    await expect(openTranscriptArchive(text, 'wrong')).rejects.toThrow('Incorrect passphrase or modified archive');
+    await expect(openTranscriptArchive('{"format":"other"}', 'x')).rejects.toThrow('Not a BurnWare transcript archive');
+  });
+
+  it('detects a tampered header or ciphertext', async () => {
+    const file = await exportTranscriptArchive(transcript, 'evidence pass');
+
+    const header: TranscriptArchiveFile = { ...file, manifest_sha256: '0'.repeat(64) };
+    await expect(openTranscriptArchive(JSON.stringify(header), 'evidence pass'))
+      .rejects.toThrow('Incorrect passphrase or modified archive');
+
+    const bytes = Uint8Array.from(atob(file.ciphertext), (c) => c.charCodeAt(0));
+    bytes[0] ^= 1;
+    const body: TranscriptArchiveFile = { ...file, ciphertext: btoa(String.fromCharCode(...bytes)) };
+    await expect(openTranscriptArchive(JSON.stringify(body), 'evidence pass'))
+      .rejects.toThrow('Incorrect passphrase or modified archive');
+  });
+
+  it('marks unsent and edited room messages without their old text', () => {
+    const base = { room_id: 'r', anonymous_id: 'a', ciphertext: '', nonce: '', created_at: '2026-10-01T10:00:00.000Z' };
+    const messages: DecryptedRoomMessage[] = [
+      { ...base, message_id: 'm1', display_name: 'Ann', plaintext: 'fixed', edited_at: '2026-10-01T10:05:00.000Z', isOwn: false },
+      { ...base, message_id: 'm2', plaintext: '', deleted_at: '2026-10-01T10:06:00.000Z', isOwn: true },
+    ];
+    const room = roomTranscript('Book club', messages);
+    expect(room.messages).toEqual([
+      { sender: 'Ann', own: false, sent_at: base.created_at, text: 'fixed', attachments: [], edited: true },
+      { sender: 'You', own: true, sent_at: base.created_at, text: '', attachments: [], unsent: true },
+    ]);
+    expect(renderTranscriptHtml(room, {
+      kind: 'room', title: 'Book club', exported_at: 'now', message_count: 2, transcript_sha256: 'abc',
+    })).toContain('[unsent]');
+  });
+});
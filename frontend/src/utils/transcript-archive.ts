@@ -0,0 +1,241 @@
+/**
+ * Transcript Archive
+ * Exports a decrypted thread or room transcript to a local file so an owner
+ * can keep evidence before burning, and opens such files again read-only.
+ * Nothing here talks to the server.
+ *
+ * File layout (JSON):
+ *   { format, version, kdf: { name, iterations, salt }, iv, manifest_sha256, ciphertext }
+ * The ciphertext is AES-256-GCM under PBKDF2(passphrase, salt) and holds
+ * { manifest, transcript, html }. The manifest records the SHA-256 of the
+ * transcript; the header records the SHA-256 of the manifest and is bound to
+ * the ciphertext as associated data. Editing either the header or the sealed
+ * contents therefore fails to open. This is not a signature: anyone with the
+ * passphrase can seal a file that opens. The bundled html is not covered by
+ * the hashes, so opening ignores it and views are rendered from the checked
+ * transcript.
+ */
+
+import { deriveAESKeyFromPassphrase, PASSPHRASE_KDF_ITERATIONS } from './crypto-kdf';
+import { decodeMessage } from './attachments';
+import type { DecryptedRoomMessage } from './room-messages';
+import type { Message } from '../types';
+
+export const ARCHIVE_FORMAT = 'burnware-transcript' as const;
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.bwt.json';
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const MAX_ITERATIONS = 10_000_000; // Refuse files that would stall the tab
+
+export interface TranscriptMessage {
+  sender: string;
+  own: boolean;
+  sent_at: string;
+  text: string;
+  attachments: string[]; // File names only; attachment contents are not exported
+  edited?: boolean;
+  unsent?: boolean;
+}
+
+export interface Transcript {
+  kind: 'thread' | 'room';
+  title: string;
+  messages: TranscriptMessage[];
+}
+
+export interface ArchiveManifest {
+  kind: Transcript['kind'];
+  title: string;
+  exported_at: string;
+  message_count: number;
+  transcript_sha256: string;
+}
+
+export interface TranscriptArchiveFile {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2-SHA256'; iterations: number; salt: string };
+  iv: string;
+  manifest_sha256: string;
+  ciphertext: string;
+}
+
+export interface OpenedArchive {
+  manifest: ArchiveManifest;
+  transcript: Transcript;
+}
+
+/** Chunked, so long transcripts stay under the engine's argument limit */
+function bufferToBase64(buf: ArrayBuffer | Uint8Array): string {
+  const bytes = new Uint8Array(buf);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(b64: string): Uint8Array {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Associated data: every header field except the ciphertext itself */
+function headerAad(file: Omit<TranscriptArchiveFile, 'ciphertext'>): ArrayBuffer {
+  const { format, version, kdf, iv, manifest_sha256 } = file;
+  return new TextEncoder().encode(JSON.stringify({ format, version, kdf, iv, manifest_sha256 })).buffer as ArrayBuffer;
+}
+
+/** Thread messages as the owner sees them (content is the decrypted envelope) */
+export function threadTranscript(title: string, senderLabel: string, messages: Message[]): Transcript {
+  return {
+    kind: 'thread',
+    title,
+    messages: messages.map((m) => {
+      const { text, attachments } = decodeMessage(m.content);
+      const own = m.sender_type === 'owner';
+      return { sender: own ? 'You' : senderLabel, own, sent_at: m.created_at, text, attachments: attachments.map((a) => a.name) };
+    }),
+  };
+}
+
+export function roomTranscript(title: string, messages: DecryptedRoomMessage[]): Transcript {
+  return {
+    kind: 'room',
+    title,
+    messages: messages.map((m) => {
+      const { text, attachments } = decodeMessage(m.plaintext);
+      return {
+        sender: m.isOwn ? 'You' : m.display_name || 'Anonymous',
+        own: m.isOwn,
+        sent_at: m.created_at,
+        text: m.deleted_at ? '' : text,
+        attachments: m.deleted_at ? [] : attachments.map((a) => a.name),
+        ...(m.edited_at && !m.deleted_at ? { edited: true } : {}),
+        ...(m.deleted_at ? { unsent: true } : {}),
+      };
+    }),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Self-contained HTML page of the transcript (no scripts, no external resources) */
+export function renderTranscriptHtml(transcript: Transcript, manifest: ArchiveManifest): string {
+  const rows = transcript.messages.map((m) => {
+    const notes = [m.edited ? 'edited' : '', m.unsent ? 'unsent' : ''].filter(Boolean).join(', ');
+    const files = m.attachments.map((name) => `<div class="file">📎 ${escapeHtml(name)}</div>`).join('');
+    return `<div class="msg"><span class="who ${m.own ? 'own' : ''}">${escapeHtml(m.sender)}</span>`
+      + ` <span class="at">(${escapeHtml(new Date(m.sent_at).toLocaleString())})${notes ? ` [${notes}]` : ''}</span>`
+      + `<div class="text">${escapeHtml(m.text)}</div>${files}</div>`;
+  }).join('\n');
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'">
+<title>${escapeHtml(transcript.title)}</title>
+<style>body{font:13px Tahoma,sans-serif;margin:16px}.who{color:#c00;font-weight:bold}.who.own{color:#00c}
+.at{color:#666;font-size:11px}.text{white-space:pre-wrap;margin:2px 0 8px}.file{color:#444}
+.manifest{border:1px solid #999;padding:8px;margin-bottom:16px;font-size:11px;word-break:break-all}</style></head>
+<body><h1>${escapeHtml(transcript.title)}</h1>
+<div class="manifest">${escapeHtml(manifest.kind)} transcript · ${manifest.message_count} messages · exported ${escapeHtml(manifest.exported_at)}<br>SHA-256 ${manifest.transcript_sha256}</div>
+${rows}
+</body></html>`;
+}
+
+/** Seal a transcript under a passphrase */
+export async function exportTranscriptArchive(transcript: Transcript, passphrase: string): Promise<TranscriptArchiveFile> {
+  const manifest: ArchiveManifest = {
+    kind: transcript.kind,
+    title: transcript.title,
+    exported_at: new Date().toISOString(),
+    message_count: transcript.messages.length,
+    transcript_sha256: await sha256Hex(JSON.stringify(transcript)),
+  };
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const header: Omit<TranscriptArchiveFile, 'ciphertext'> = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    kdf: { name: 'PBKDF2-SHA256', iterations: PASSPHRASE_KDF_ITERATIONS, salt: bufferToBase64(salt) },
+    iv: bufferToBase64(iv),
+    manifest_sha256: await sha256Hex(JSON.stringify(manifest)),
+  };
+
+  const key = await deriveAESKeyFromPassphrase(passphrase, salt, ['encrypt']);
+  const payload = JSON.stringify({ manifest, transcript, html: renderTranscriptHtml(transcript, manifest) });
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv.buffer as ArrayBuffer, additionalData: headerAad(header) },
+    key,
+    new TextEncoder().encode(payload),
+  );
+  return { ...header, ciphertext: bufferToBase64(ciphertext) };
+}
+
+function parseArchive(text: string): TranscriptArchiveFile {
+  let file: Partial<TranscriptArchiveFile>;
+  try {
+    file = JSON.parse(text) as Partial<TranscriptArchiveFile>;
+  } catch {
+    throw new Error('Not a BurnWare transcript archive');
+  }
+  if (file?.format !== ARCHIVE_FORMAT) throw new Error('Not a BurnWare transcript archive');
+  if (file.version !== ARCHIVE_VERSION) throw new Error(`Unsupported archive version ${String(file.version)}`);
+  const iterations = file.kdf?.iterations;
+  if (file.kdf?.name !== 'PBKDF2-SHA256' || typeof iterations !== 'number' || iterations < 1 || iterations > MAX_ITERATIONS
+    || typeof file.kdf.salt !== 'string' || typeof file.iv !== 'string'
+    || typeof file.manifest_sha256 !== 'string' || typeof file.ciphertext !== 'string') {
+    throw new Error('Archive header is damaged');
+  }
+  return file as TranscriptArchiveFile;
+}
+
+/**
+ * Open an archive read-only. Throws 'Incorrect passphrase or modified archive'
+ * when decryption fails (AES-GCM cannot tell the two apart) and 'Archive
+ * failed its integrity check' when the decrypted hashes do not match.
+ */
+export async function openTranscriptArchive(text: string, passphrase: string): Promise<OpenedArchive> {
+  const file = parseArchive(text);
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveAESKeyFromPassphrase(passphrase, base64ToBytes(file.kdf.salt), ['decrypt'], file.kdf.iterations);
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(file.iv).buffer as ArrayBuffer, additionalData: headerAad(file) },
+      key,
+      base64ToBytes(file.ciphertext).buffer as ArrayBuffer,
+    );
+  } catch {
+    throw new Error('Incorrect passphrase or modified archive');
+  }
+
+  const opened = JSON.parse(new TextDecoder().decode(plaintext)) as OpenedArchive & { html?: string };
+  const manifestHash = await sha256Hex(JSON.stringify(opened.manifest));
+  const transcriptHash = await sha256Hex(JSON.stringify(opened.transcript));
+  if (manifestHash !== file.manifest_sha256 || transcriptHash !== opened.manifest.transcript_sha256
+    || opened.manifest.message_count !== opened.transcript.messages.length) {
+    throw new Error('Archive failed its integrity check');
+  }
+  return { manifest: opened.manifest, transcript: opened.transcript };
+}
+
+/** Offer content to the user as a local file download */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** File name for an archive, e.g. burnware-room-book-club-2026-10-19.bwt.json */
+export function archiveFilename(transcript: Transcript): string {
+  const slug = transcript.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'transcript';
+  return `burnware-${transcript.kind}-${slug}-${new Date().toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`;
+}
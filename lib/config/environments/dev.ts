@@ -24,6 +24,12 @@ export interface EnvironmentConfig {
   cognitoUserPoolId?: string;
   /** Override Cognito App Client ID (e.g. share dev pool in prod) */
   cognitoClientId?: string;
+  /** Room lifespan when the creator doesn't pick one (hours) */
+  roomDefaultLifespanHours: number;
+  /** Longest a room may live, extensions included (hours, at most 720) */
+  roomMaxLifespanHours: number;
+  /** Longest join window at creation or on reopen (minutes, at most 1440) */
+  roomMaxJoinWindowMinutes: number;
 }
 
 export const devConfig: EnvironmentConfig = {
@@ -43,4 +49,7 @@ export const devConfig: EnvironmentConfig = {
   enableEnhancedMonitoring: false,
   logRetentionDays: 7,
   alarmEmail: 'dev-alerts@example.com',
+  roomDefaultLifespanHours: 24,
+  roomMaxLifespanHours: 72,
+  roomMaxJoinWindowMinutes: 60,
 };
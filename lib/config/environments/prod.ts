@@ -23,6 +23,10 @@ export const prodConfig: EnvironmentConfig = {
   enableEnhancedMonitoring: false,
   logRetentionDays: 7,
   alarmEmail: 'ops-alerts@example.com',
+  // Multi-day incident war rooms
+  roomDefaultLifespanHours: 24,
+  roomMaxLifespanHours: 720,
+  roomMaxJoinWindowMinutes: 240,
   // Share dev Cognito pool — single user base, frontend .env already has these values
   cognitoUserPoolId: 'us-east-1_uLCQ3TTxk',
   cognitoClientId: '7jsa7epi6jnmshvfnas34qsp7o',
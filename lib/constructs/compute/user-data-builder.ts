@@ -28,8 +28,18 @@ export interface UserDataConfig {
   appSyncApiKey?: string;
   /** Lambda ARN for publishing AppSync Events from NAT-free VPC. */
   appSyncPublishFnArn?: string;
+  /** Lambda ARN that delivers owner webhooks from NAT-free VPC. */
+  webhookDeliveryFnArn?: string;
   /** Base URL for broadcast channel read links (e.g. https://burnware.live). */
   broadcastReadUrlBase?: string;
+  /** S3 bucket for encrypted attachments. */
+  attachmentBucket?: string;
+  /** Room lifespan when the creator doesn't pick one (hours). */
+  roomDefaultLifespanHours?: number;
+  /** Longest a room may live, extensions included (hours). */
+  roomMaxLifespanHours?: number;
+  /** Longest room join window at creation or on reopen (minutes). */
+  roomMaxJoinWindowMinutes?: number;
 }
 
 export class UserDataBuilder {
@@ -114,7 +124,12 @@ export class UserDataBuilder {
       ...(config.appSyncHttpDns ? [`APPSYNC_HTTP_DOMAIN=${config.appSyncHttpDns}`] : []),
       ...(config.appSyncApiKey ? [`APPSYNC_API_KEY=${config.appSyncApiKey}`] : []),
       ...(config.appSyncPublishFnArn ? [`APPSYNC_PUBLISH_FN_ARN=${config.appSyncPublishFnArn}`] : []),
+      ...(config.webhookDeliveryFnArn ? [`WEBHOOK_DELIVERY_FN_ARN=${config.webhookDeliveryFnArn}`] : []),
       ...(config.broadcastReadUrlBase ? [`BROADCAST_READ_URL_BASE=${config.broadcastReadUrlBase}`] : []),
+      ...(config.attachmentBucket ? [`ATTACHMENT_BUCKET=${config.attachmentBucket}`] : []),
+      ...(config.roomDefaultLifespanHours ? [`ROOM_DEFAULT_LIFESPAN_HOURS=${config.roomDefaultLifespanHours}`] : []),
+      ...(config.roomMaxLifespanHours ? [`ROOM_MAX_LIFESPAN_HOURS=${config.roomMaxLifespanHours}`] : []),
+      ...(config.roomMaxJoinWindowMinutes ? [`ROOM_MAX_JOIN_WINDOW_MINUTES=${config.roomMaxJoinWindowMinutes}`] : []),
       'ENVEOF',
       '',
     );
@@ -0,0 +1,64 @@
+/**
+ * Webhook Delivery Construct
+ * Lambda proxy that POSTs owner webhooks from outside the NAT-free VPC
+ * File size: ~90 lines
+ */
+
+import { Duration } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { NamingUtils } from '../../utils/naming';
+
+export interface WebhookDeliveryConstructProps {
+  environment: string;
+}
+
+export class WebhookDeliveryConstruct extends Construct {
+  public readonly deliveryFn: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: WebhookDeliveryConstructProps) {
+    super(scope, id);
+
+    const { environment } = props;
+
+    // EC2 has no internet egress, so it invokes this Lambda (via the Lambda
+    // VPC endpoint) with an already-signed request. Deliberately not attached
+    // to the VPC: owner-supplied URLs must never reach private addresses.
+    // Always resolves with { status_code } or { error } so the backend
+    // decides on retries; redirects are not followed.
+    this.deliveryFn = new lambda.Function(this, 'DeliveryFn', {
+      functionName: NamingUtils.getResourceName('webhook-delivery', environment),
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      timeout: Duration.seconds(15),
+      memorySize: 128,
+      code: lambda.Code.fromInline(`
+const https = require('https');
+exports.handler = async (event) => {
+  const { url, headers, body, timeout_ms } = event;
+  let target;
+  try {
+    target = new URL(url);
+  } catch (err) {
+    return { error: 'Invalid URL' };
+  }
+  if (target.protocol !== 'https:') return { error: 'Only https URLs are allowed' };
+  return new Promise((resolve) => {
+    const req = https.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'content-length': Buffer.byteLength(body) },
+      timeout: timeout_ms || 10000,
+    }, (res) => {
+      res.resume();
+      res.on('end', () => resolve({ status_code: res.statusCode }));
+    });
+    req.on('timeout', () => req.destroy(new Error('Request timed out')));
+    req.on('error', (err) => resolve({ error: err.message }));
+    req.write(body);
+    req.end();
+  });
+};
+      `.trim()),
+    });
+  }
+}
@@ -1,13 +1,13 @@
 /**
  * App Stack
  * Creates ALB, Auto Scaling Group, and deploys backend API via CDK
- * File size: ~390 lines
+ * File size: ~420 lines
  */
 
 import * as path from 'path';
 import { execSync } from 'child_process';
 import * as fs from 'fs';
-import { Stack, StackProps, CfnOutput, Duration, BundlingOutput, RemovalPolicy } from 'aws-cdk-lib';
+import { Stack, StackProps, CfnOutput, Duration, BundlingOutput, RemovalPolicy, IgnoreMode } from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
@@ -21,6 +21,7 @@ import { IamRolesConstruct } from '../constructs/security/iam-roles-construct';
 import { LaunchTemplateConstruct } from '../constructs/compute/launch-template-construct';
 import { AsgConstruct } from '../constructs/compute/asg-construct';
 import { CodeDeployConstruct } from '../constructs/compute/codedeploy-construct';
+import { WebhookDeliveryConstruct } from '../constructs/compute/webhook-delivery-construct';
 import { UserDataConfig } from '../constructs/compute/user-data-builder';
 import { TagUtils } from '../utils/tags';
 import { NamingUtils } from '../utils/naming';
@@ -51,6 +52,8 @@ export interface AppStackProps extends StackProps {
   dbPort?: string;
   /** S3 bucket for app deployment artifacts (from Data stack) */
   deploymentBucket?: s3.IBucket;
+  /** S3 bucket for encrypted attachments (from Data stack) */
+  attachmentBucket?: s3.IBucket;
   appVersion?: string;
   /** Deploy backend artifact via CDK (default true when bucket provided). Set false to skip if app has build issues. */
   deployBackendArtifact?: boolean;
@@ -60,6 +63,12 @@ export interface AppStackProps extends StackProps {
   appSyncApiKey?: string;
   /** Lambda ARN for publishing AppSync Events from NAT-free VPC */
   appSyncPublishFnArn?: string;
+  /** Room lifespan when the creator doesn't pick one (hours) */
+  roomDefaultLifespanHours?: number;
+  /** Longest a room may live, extensions included (hours) */
+  roomMaxLifespanHours?: number;
+  /** Longest room join window at creation or on reopen (minutes) */
+  roomMaxJoinWindowMinutes?: number;
 }
 
 export class AppStack extends Stack {
@@ -92,11 +101,15 @@ export class AppStack extends Stack {
       dbEndpoint,
       dbPort,
       deploymentBucket,
+      attachmentBucket,
       appVersion = '1.0.0',
       deployBackendArtifact = true,
       appSyncHttpDns,
       appSyncApiKey,
       appSyncPublishFnArn,
+      roomDefaultLifespanHours,
+      roomMaxLifespanHours,
+      roomMaxJoinWindowMinutes,
     } = props;
 
     // Import existing log group (created by Observability stack)
@@ -123,6 +136,24 @@ export class AppStack extends Stack {
       }));
     }
 
+    // Revoking a device signs its owner out of every session
+    iamRoles.ec2InstanceRole.addToPolicy(new iam.PolicyStatement({
+      actions: ['cognito-idp:AdminUserGlobalSignOut'],
+      resources: [this.formatArn({ service: 'cognito-idp', resource: 'userpool', resourceName: cognitoUserPoolId })],
+    }));
+
+    // Lambda proxy for owner webhooks (EC2 has no internet egress)
+    const webhookDelivery = new WebhookDeliveryConstruct(this, 'WebhookDelivery', { environment });
+    webhookDelivery.deliveryFn.grantInvoke(iamRoles.ec2InstanceRole);
+
+    // Grant EC2 permission to presign and purge encrypted attachments
+    if (attachmentBucket) {
+      iamRoles.ec2InstanceRole.addToPolicy(new iam.PolicyStatement({
+        actions: ['s3:PutObject', 's3:GetObject', 's3:DeleteObject'],
+        resources: [attachmentBucket.arnForObjects('attachments/*')],
+      }));
+    }
+
     // Create Application Load Balancer
     // https://docs.aws.amazon.com/elasticloadbalancing/latest/application/https-listener-certificates.html
     this.alb = new elbv2.ApplicationLoadBalancer(this, 'Alb', {
@@ -198,6 +229,7 @@ export class AppStack extends Stack {
             dbEndpoint,
             dbPort,
             deploymentBucket: deploymentBucket?.bucketName ?? '',
+            attachmentBucket: attachmentBucket?.bucketName,
             appVersion,
             logGroup: logGroup.logGroupName,
             environment,
@@ -206,7 +238,11 @@ export class AppStack extends Stack {
             appSyncHttpDns,
             appSyncApiKey,
             appSyncPublishFnArn,
+            webhookDeliveryFnArn: webhookDelivery.deliveryFn.functionArn,
             broadcastReadUrlBase: domainName ? `https://${domainName}` : undefined,
+            roomDefaultLifespanHours,
+            roomMaxLifespanHours,
+            roomMaxJoinWindowMinutes,
           }
         : undefined;
 
@@ -260,13 +296,18 @@ export class AppStack extends Stack {
     // The artifact is a tarball with CodeDeploy-compatible structure:
     //   appspec.yml, scripts/  (CodeDeploy lifecycle hooks)
     //   dist/, node_modules/, package.json, ecosystem.config.js  (application)
+    //   migrations/  (applied on boot by MigrationRunner)
     // node_modules contains production deps only (bundled so EC2 never needs npm/internet).
     if (deploymentBucket && deployBackendArtifact) {
-      const appPath = path.join(__dirname, '../../app');
+      const repoRoot = path.join(__dirname, '../..');
+      const appPath = path.join(repoRoot, 'app');
       const tarName = `app-${appVersion}.tar.gz`;
 
       // Shell commands to build → prune → stage flat CodeDeploy structure → tar.
       // Runs from the app/ directory. outputDir receives the final tarball.
+      // The asset is rooted at the repo so database/migrations is reachable
+      // (and hashed); a missing directory fails the build rather than shipping
+      // an artifact whose MigrationRunner can't start.
       const bundleCommands = (outputDir: string) => [
         '(test -f package-lock.json && npm ci || npm install)',
         'npm run build',
@@ -278,15 +319,21 @@ export class AppStack extends Stack {
         'cp -r node_modules /tmp/_bw_stage/',
         'cp package.json /tmp/_bw_stage/',
         'cp ecosystem.config.js /tmp/_bw_stage/',
+        '(ls ../database/migrations/*.sql > /dev/null || (echo "database/migrations not found" >&2 && exit 1))',
+        'cp -r ../database/migrations /tmp/_bw_stage/',
         `COPYFILE_DISABLE=1 tar -czf "${outputDir}/${tarName}" -C /tmp/_bw_stage .`,
         'rm -rf /tmp/_bw_stage',
       ].join(' && ');
 
       new s3deploy.BucketDeployment(this, 'BackendDeploy', {
         sources: [
-          s3deploy.Source.asset(appPath, {
+          s3deploy.Source.asset(repoRoot, {
+            // Hash only app/ and database/migrations
+            exclude: ['*', '!app', '!database', 'database/*', '!database/migrations'],
+            ignoreMode: IgnoreMode.DOCKER,
             bundling: {
               image: DockerImage.fromRegistry('node:20-alpine'),
+              workingDirectory: '/asset-input/app',
               command: ['sh', '-c', bundleCommands('/asset-output')],
               user: 'root',
               outputType: BundlingOutput.NOT_ARCHIVED,
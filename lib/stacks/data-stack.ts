@@ -1,10 +1,11 @@
 /**
  * Data Stack
- * Creates RDS PostgreSQL instance and deployment bucket for app artifacts
+ * Creates RDS PostgreSQL instance, deployment bucket for app artifacts and
+ * the bucket for client-side-encrypted attachments
  * File size: ~160 lines
  */
 
-import { Stack, StackProps, CfnOutput, RemovalPolicy } from 'aws-cdk-lib';
+import { Stack, StackProps, CfnOutput, RemovalPolicy, Duration } from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as s3 from 'aws-cdk-lib/aws-s3';
@@ -28,6 +29,7 @@ export class DataStack extends Stack {
   public readonly dbPort: string;
   public readonly dbSecretArn: string;
   public readonly deploymentBucket: s3.IBucket;
+  public readonly attachmentBucket: s3.IBucket;
 
   constructor(scope: Construct, id: string, props: DataStackProps) {
     super(scope, id, props);
@@ -71,6 +73,28 @@ export class DataStack extends Stack {
     });
     this.deploymentBucket = deploymentBucketResource;
 
+    // Attachment bucket: ciphertext only (keys stay in E2EE messages). Browsers
+    // PUT/GET via presigned URLs, so CORS is open; the signature is the auth.
+    const attachmentBucketResource = new s3.Bucket(this, 'AttachmentBucket', {
+      bucketName: NamingUtils.getResourceName('attachments', environment),
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      removalPolicy: RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+      enforceSSL: true,
+      versioned: false, // Burned attachments must not survive as noncurrent versions
+      cors: [
+        {
+          allowedMethods: [s3.HttpMethods.PUT, s3.HttpMethods.GET],
+          allowedOrigins: ['*'],
+          allowedHeaders: ['Content-Type'],
+          maxAge: 3600,
+        },
+      ],
+      lifecycleRules: [{ abortIncompleteMultipartUploadAfter: Duration.days(1) }],
+    });
+    this.attachmentBucket = attachmentBucketResource;
+
     // Apply tags
     TagUtils.applyStandardTags(this, { environment });
     TagUtils.applyTierTag(this, 'data');
@@ -112,5 +136,11 @@ export class DataStack extends Stack {
       description: 'S3 bucket for app deployment artifacts',
       exportName: `${environment}-deployment-bucket`,
     });
+
+    new CfnOutput(this, 'AttachmentBucketName', {
+      value: attachmentBucketResource.bucketName,
+      description: 'S3 bucket for encrypted attachments',
+      exportName: `${environment}-attachment-bucket`,
+    });
   }
 }
@@ -138,6 +138,12 @@ export class FrontendStack extends Stack {
       comment: 'Rewrite SPA routes to /index.html',
     });
 
+    const albOrigin = alb
+      ? origins.VpcOrigin.withApplicationLoadBalancer(alb, {
+          protocolPolicy: cloudfront.OriginProtocolPolicy.HTTP_ONLY,
+        })
+      : undefined;
+
     // Create CloudFront distribution
     this.distribution = new cloudfront.Distribution(this, 'Distribution', {
       comment: `BurnWare SPA - ${environment}`,
@@ -174,15 +180,23 @@ export class FrontendStack extends Stack {
         },
         ...(alb ? {
           '/api/*': {
-            origin: origins.VpcOrigin.withApplicationLoadBalancer(alb, {
-              protocolPolicy: cloudfront.OriginProtocolPolicy.HTTP_ONLY,
-            }),
+            origin: albOrigin!,
             viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
             allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
             cachedMethods: cloudfront.CachedMethods.CACHE_GET_HEAD,
             cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
             originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER,
           },
+          // Atom/RSS/JSON feeds of public broadcast channels live beside the
+          // SPA's /b/:channelId page but are served by the API
+          '/b/*/feed.*': {
+            origin: albOrigin!,
+            viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+            allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+            cachedMethods: cloudfront.CachedMethods.CACHE_GET_HEAD,
+            cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+            originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER,
+          },
         } : {}),
       },
       webAclId: webAclArn,